@@ -12,20 +12,25 @@ export const dependencies = {
   '[tex]/braket': ['input/tex-base'],
   '[tex]/bussproofs': ['input/tex-base'],
   '[tex]/cancel': ['input/tex-base', '[tex]/enclose'],
+  '[tex]/chemfig': ['input/tex-base'],
   '[tex]/color': ['input/tex-base'],
+  '[tex]/colortbl': ['input/tex-base', '[tex]/color'],
   '[tex]/colorv2': ['input/tex-base'],
   '[tex]/configmacros': ['input/tex-base', '[tex]/newcommand'],
   '[tex]/enclose': ['input/tex-base'],
   '[tex]/extpfeil': ['input/tex-base', '[tex]/newcommand', '[tex]/ams'],
   '[tex]/html': ['input/tex-base'],
+  '[tex]/mathtools': ['input/tex-base', '[tex]/ams'],
   '[tex]/mhchem': ['input/tex-base', '[tex]/ams'],
   '[tex]/newcommand': ['input/tex-base'],
   '[tex]/noerrors': ['input/tex-base'],
   '[tex]/noundefined': ['input/tex-base'],
   '[tex]/physics': ['input/tex-base'],
+  '[tex]/siunitx': ['input/tex-base'],
   '[tex]/require': ['input/tex-base'],
   '[tex]/tagformat': ['input/tex-base'],
   '[tex]/textmacros': ['input/tex-base'],
+  '[tex]/tikzcd': ['input/tex-base'],
   '[tex]/unicode': ['input/tex-base'],
   '[tex]/verb': ['input/tex-base']
 };
@@ -44,19 +49,24 @@ const allPackages = [
   '[tex]/braket',
   '[tex]/bussproofs',
   '[tex]/cancel',
+  '[tex]/chemfig',
   '[tex]/color',
+  '[tex]/colortbl',
   '[tex]/configmacros',
   '[tex]/enclose',
   '[tex]/extpfeil',
   '[tex]/html',
+  '[tex]/mathtools',
   '[tex]/mhchem',
   '[tex]/newcommand',
   '[tex]/noerrors',
   '[tex]/noundefined',
   '[tex]/physics',
+  '[tex]/siunitx',
   '[tex]/require',
   '[tex]/tagformat',
   '[tex]/textmacros',
+  '[tex]/tikzcd',
   '[tex]/unicode',
   '[tex]/verb'
 ];
@@ -6,7 +6,8 @@ import {CHTML} from '../../../../js/output/chtml.js';
 if (MathJax.loader) {
   combineDefaults(MathJax.config.loader, 'output/chtml', {
     checkReady() {
-      return MathJax.loader.load("output/chtml/fonts/tex");
+      const font = (MathJax.config.chtml || {}).font;
+      return MathJax.loader.load("output/chtml/fonts/" + (typeof font === 'string' ? font.toLowerCase() : 'tex'));
     }
   });
 }
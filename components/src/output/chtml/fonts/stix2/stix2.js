@@ -0,0 +1,13 @@
+import './lib/stix2.js';
+
+import {Package} from '../../../../../../js/components/package.js';
+import {CHTML} from '../../../../../../js/output/chtml.js';
+import {Stix2Font} from '../../../../../../js/output/chtml/fonts/stix2.js';
+
+if (MathJax.loader) {
+  Stix2Font.OPTIONS = Object.assign({}, Stix2Font.OPTIONS, {
+    fontURL: Package.resolvePath('output/chtml/fonts/stix2-woff', false)
+  });
+}
+
+CHTML.fonts.set(Stix2Font.NAME, Stix2Font);
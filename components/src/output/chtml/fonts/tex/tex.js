@@ -2,13 +2,17 @@ import './lib/tex.js';
 
 import {combineDefaults} from '../../../../../../js/components/global.js';
 import {Package} from '../../../../../../js/components/package.js';
-import {selectOptionsFromKeys} from '../../../../../../js/util/Options.js';
+import {CHTML} from '../../../../../../js/output/chtml.js';
 import {TeXFont} from '../../../../../../js/output/chtml/fonts/tex.js';
 
-if (MathJax.startup) {
-  combineDefaults(MathJax.config, 'chtml', {
+if (MathJax.loader) {
+  TeXFont.OPTIONS = Object.assign({}, TeXFont.OPTIONS, {
     fontURL: Package.resolvePath('output/chtml/fonts/woff-v2', false)
   });
-  const options = selectOptionsFromKeys(MathJax.config.chtml || {}, TeXFont.OPTIONS);
-  combineDefaults(MathJax.config, 'chtml', {font: new TeXFont(options)});
+}
+
+CHTML.fonts.set(TeXFont.NAME, TeXFont);
+
+if (MathJax.startup) {
+  combineDefaults(MathJax.config, 'chtml', {font: TeXFont.NAME});
 }
@@ -0,0 +1,8 @@
+import './lib/mml.js';
+
+import {MML} from '../../../../js/output/mml.js';
+
+if (MathJax.startup) {
+  MathJax.startup.registerConstructor('mml', MML);
+  MathJax.startup.useOutput('mml');
+}
@@ -0,0 +1,6 @@
+import './lib/stix2.js';
+
+import {SVG} from '../../../../../../js/output/svg.js';
+import {Stix2Font} from '../../../../../../js/output/svg/fonts/stix2.js';
+
+SVG.fonts.set(Stix2Font.NAME, Stix2Font);
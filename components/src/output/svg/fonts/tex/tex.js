@@ -1,10 +1,11 @@
 import './lib/tex.js';
 
-import {TeXFont} from '../../../../../../js/output/svg/fonts/tex.js';
 import {combineDefaults} from '../../../../../../js/components/global.js';
-import {selectOptionsFromKeys} from '../../../../../../js/util/Options.js';
+import {SVG} from '../../../../../../js/output/svg.js';
+import {TeXFont} from '../../../../../../js/output/svg/fonts/tex.js';
+
+SVG.fonts.set(TeXFont.NAME, TeXFont);
 
 if (MathJax.startup) {
-  const options = selectOptionsFromKeys(MathJax.config.svg || {}, TeXFont.OPTIONS);
-  combineDefaults(MathJax.config, 'svg', {font: new TeXFont(options)});
+  combineDefaults(MathJax.config, 'svg', {font: TeXFont.NAME});
 }
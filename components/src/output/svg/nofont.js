@@ -2,4 +2,5 @@ import {FontData} from '../../../../js/output/svg/FontData.js';
 
 export class TeXFont extends FontData {};
 
+TeXFont.NAME = 'TeX';
 TeXFont.OPTIONS = {fontURL: '.'};
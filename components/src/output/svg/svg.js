@@ -6,7 +6,8 @@ import {SVG} from '../../../../js/output/svg.js';
 if (MathJax.loader) {
   combineDefaults(MathJax.config.loader, 'output/svg', {
     checkReady() {
-      return MathJax.loader.load("output/svg/fonts/tex");
+      const font = (MathJax.config.svg || {}).font;
+      return MathJax.loader.load("output/svg/fonts/" + (typeof font === 'string' ? font.toLowerCase() : 'tex'));
     }
   });
 }
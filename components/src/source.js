@@ -16,20 +16,25 @@ export const source = {
   '[tex]/braket': `${src}/input/tex/extensions/braket/braket.js`,
   '[tex]/bussproofs': `${src}/input/tex/extensions/bussproofs/bussproofs.js`,
   '[tex]/cancel': `${src}/input/tex/extensions/cancel/cancel.js`,
+  '[tex]/chemfig': `${src}/input/tex/extensions/chemfig/chemfig.js`,
   '[tex]/color': `${src}/input/tex/extensions/color/color.js`,
+  '[tex]/colortbl': `${src}/input/tex/extensions/colortbl/colortbl.js`,
   '[tex]/colorv2': `${src}/input/tex/extensions/colorv2/colorv2.js`,
   '[tex]/configmacros': `${src}/input/tex/extensions/configmacros/configmacros.js`,
   '[tex]/enclose': `${src}/input/tex/extensions/enclose/enclose.js`,
   '[tex]/extpfeil': `${src}/input/tex/extensions/extpfeil/extpfeil.js`,
   '[tex]/html': `${src}/input/tex/extensions/html/html.js`,
+  '[tex]/mathtools': `${src}/input/tex/extensions/mathtools/mathtools.js`,
   '[tex]/mhchem': `${src}/input/tex/extensions/mhchem/mhchem.js`,
   '[tex]/newcommand': `${src}/input/tex/extensions/newcommand/newcommand.js`,
   '[tex]/noerrors': `${src}/input/tex/extensions/noerrors/noerrors.js`,
   '[tex]/noundefined': `${src}/input/tex/extensions/noundefined/noundefined.js`,
   '[tex]/physics': `${src}/input/tex/extensions/physics/physics.js`,
+  '[tex]/siunitx': `${src}/input/tex/extensions/siunitx/siunitx.js`,
   '[tex]/require': `${src}/input/tex/extensions/require/require.js`,
   '[tex]/tagformat': `${src}/input/tex/extensions/tagformat/tagformat.js`,
   '[tex]/textmacros': `${src}/input/tex/extensions/textmacros/textmacros.js`,
+  '[tex]/tikzcd': `${src}/input/tex/extensions/tikzcd/tikzcd.js`,
   '[tex]/unicode': `${src}/input/tex/extensions/unicode/unicode.js`,
   '[tex]/verb': `${src}/input/tex/extensions/verb/verb.js`,
   'input/mml': `${src}/input/mml/mml.js`,
@@ -39,6 +44,7 @@ export const source = {
   'output/chtml/fonts/tex': `${src}/output/chtml/fonts/tex/tex.js`,
   'output/svg': `${src}/output/svg/svg.js`,
   'output/svg/fonts/tex': `${src}/output/svg/fonts/tex/tex.js`,
+  'output/mml': `${src}/output/mml/mml.js`,
   'a11y/assistive-mml': `${src}/a11y/assistive-mml/assistive-mml.js`,
   'a11y/semantic-enrich': `${src}/a11y/semantic-enrich/semantic-enrich.js`,
   'a11y/complexity': `${src}/a11y/complexity/complexity.js`,
@@ -46,6 +52,7 @@ export const source = {
   '[sre]': (typeof window === 'undefined' ? `${src}/../../js/a11y/sre-node.js` :
             `${src}/../../node_modules/speech-rule-engine/lib/sre_browser.js`),
   'ui/menu': `${src}/ui/menu/menu.js`,
+  'ui/lazy': `${src}/ui/lazy/lazy.js`,
   'ui/safe': `${src}/ui/safe/safe.js`,
   'mml-chtml': `${src}/mml-chtml/mml-chtml.js`,
   'mml-svg': `${src}/mml-svg/mml-svg.js`,
@@ -0,0 +1,8 @@
+const PACKAGE = require('../../../webpack.common.js');
+
+module.exports = PACKAGE(
+  'ui/worker',                        // the package to build
+  '../../../../js',                   // location of the MathJax js library
+  [],                                 // packages to link to
+  __dirname                           // our directory
+);
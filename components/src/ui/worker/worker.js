@@ -0,0 +1,19 @@
+import './lib/worker.js';
+
+import {MathWorker} from '../../../../js/ui/worker/MathWorker.js';
+import {AllPackages} from '../../../../js/input/tex/AllPackages.js';
+import '../../../../js/util/entities/all.js';
+
+/*
+ * Use the MathJax configuration (if any) set by the worker script before loading this file
+ * (moved to MathJax.config by the global MathJax object), with all the TeX packages available by default
+ */
+const config = MathJax.config;
+const options = Object.assign({}, config, {
+  tex: Object.assign({packages: AllPackages}, config.tex || {})
+});
+
+/*
+ * Start listening for messages from the main thread
+ */
+new MathWorker(options).listen(self);
@@ -0,0 +1,8 @@
+const PACKAGE = require('../../../../webpack.common.js');
+
+module.exports = PACKAGE(
+  'util/locales/de',                  // the package to build
+  '../../../../../js',                // location of the MathJax js library
+  ['components/src/core/lib'],        // packages to link to
+  __dirname                           // our directory
+);
@@ -88,6 +88,7 @@ declare namespace SRE {
     cache?: boolean
   };
   export function toEnriched(mml: string): void;
+  export function toSpeech(mml: string): string;
   export function setupEngine(obj: config): void;
   export function engineSetup(): config;
 }
@@ -0,0 +1,88 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements text measurement for the lite adaptor using
+ *                the metrics from a local OpenType or TrueType font
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {TextMetrics, TextFont, TextBBox, TableMetrics} from './TextMetrics.js';
+import {OpenTypeFont} from '../../util/OpenType.js';
+import {unicodeChars} from '../../util/string.js';
+
+/*****************************************************************/
+/**
+ *  The FontMetrics class measures text using the advance widths and glyph
+ *  bounding boxes of a font file.  Characters that aren't in the font are
+ *  measured by a fallback object (e.g., another FontMetrics for a different
+ *  script, or the default TableMetrics).
+ *
+ *  E.g., liteAdaptor({textMetrics: new FontMetrics(fs.readFileSync('NotoSansCJK.otf'))})
+ */
+export class FontMetrics implements TextMetrics {
+
+  /**
+   * The font used for the measurements
+   */
+  protected font: OpenTypeFont;
+
+  /**
+   * The metrics to use for characters that aren't in the font
+   */
+  protected fallback: TextMetrics;
+
+  /**
+   * @param {Uint8Array} data         The contents of the font file
+   * @param {TextMetrics} fallback    The metrics to use for characters that aren't in the font
+   */
+  constructor(data: Uint8Array, fallback: TextMetrics = null) {
+    this.font = new OpenTypeFont(data);
+    this.fallback = fallback || new TableMetrics();
+  }
+
+  /**
+   * @override
+   */
+  public measureText(text: string, font: TextFont) {
+    const bbox = {w: 0, h: 0, d: 0};
+    for (const c of unicodeChars(text)) {
+      const {w, h, d} = this.charSize(c, font);
+      bbox.w += w;
+      bbox.h = Math.max(bbox.h, h);
+      bbox.d = Math.max(bbox.d, d);
+    }
+    return bbox;
+  }
+
+  /**
+   * @param {number} c          The code point of a character
+   * @param {TextFont} font     The font in which the text is displayed
+   * @return {TextBBox}         The size of the character (from the font, or from the fallback)
+   */
+  protected charSize(c: number, font: TextFont): TextBBox {
+    const glyph = this.font.cmap.get(c);
+    if (!glyph) {
+      return this.fallback.measureText(String.fromCodePoint(c), font);
+    }
+    const em = this.font.unitsPerEm;
+    const [ , yMin, , yMax] = this.font.bbox(glyph);
+    return {w: this.font.advance(glyph) / em, h: Math.max(0, yMax / em), d: Math.max(0, -yMin / em)};
+  }
+
+}
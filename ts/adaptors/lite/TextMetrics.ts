@@ -0,0 +1,166 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the text measurement used by the lite adaptor
+ *                (which has no layout engine to measure text for it)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {unicodeChars} from '../../util/string.js';
+
+/**
+ * The font used for the text being measured
+ */
+export type TextFont = {
+  family: string,     // the CSS font-family
+  italic: boolean,    // true for italic text
+  bold: boolean       // true for bold text
+};
+
+/**
+ * The size of the text (in ems)
+ */
+export type TextBBox = {
+  w: number,          // the width
+  h: number,          // the height above the baseline
+  d: number           // the depth below the baseline
+};
+
+/**
+ * The interface for objects that measure text for the lite adaptor
+ */
+export interface TextMetrics {
+
+  /**
+   * @param {string} text      The text to measure
+   * @param {TextFont} font    The font in which the text is displayed
+   * @return {TextBBox}        The approximate size of the text (in ems)
+   */
+  measureText(text: string, font: TextFont): TextBBox;
+
+}
+
+/**
+ * The width, height, and depth (in ems) for the characters from first to last
+ */
+export type CharRange = [number, number, number, number, number];
+
+/*****************************************************************/
+/**
+ *  The TableMetrics class measures text using a table of widths for
+ *  ranges of characters.  The default table makes combining characters
+ *  and other invisible characters zero width, and CJK characters and
+ *  emoji one em wide.  Other characters use the default size.
+ */
+export class TableMetrics implements TextMetrics {
+
+  /**
+   * The default size for characters that aren't in the table
+   */
+  public static DEFAULT: TextBBox = {w: .6, h: .75, d: .2};
+
+  /**
+   * The sizes for ranges of characters (sorted by the first character in the range)
+   */
+  public static RANGES: CharRange[] = [
+    [0x0300, 0x036F, 0, 0, 0],          // combining diacritical marks
+    [0x1100, 0x115F, 1, .88, .12],      // Hangul Jamo initial consonants
+    [0x1AB0, 0x1AFF, 0, 0, 0],          // combining diacritical marks extended
+    [0x1DC0, 0x1DFF, 0, 0, 0],          // combining diacritical marks supplement
+    [0x200B, 0x200F, 0, 0, 0],          // zero-width spaces and joiners, direction marks
+    [0x2060, 0x2064, 0, 0, 0],          // word joiner and invisible operators
+    [0x20D0, 0x20FF, 0, 0, 0],          // combining marks for symbols
+    [0x231A, 0x231B, 1, .85, .15],      // watch and hourglass
+    [0x2600, 0x27BF, 1, .85, .15],      // miscellaneous symbols and dingbats
+    [0x2E80, 0x303E, 1, .88, .12],      // CJK radicals and punctuation
+    [0x3041, 0x33FF, 1, .88, .12],      // kana, bopomofo, and CJK compatibility
+    [0x3400, 0x4DBF, 1, .88, .12],      // CJK extension A
+    [0x4E00, 0x9FFF, 1, .88, .12],      // CJK unified ideographs
+    [0xA000, 0xA4CF, 1, .88, .12],      // Yi
+    [0xAC00, 0xD7A3, 1, .88, .12],      // Hangul syllables
+    [0xF900, 0xFAFF, 1, .88, .12],      // CJK compatibility ideographs
+    [0xFE00, 0xFE0F, 0, 0, 0],          // variation selectors
+    [0xFE20, 0xFE2F, 0, 0, 0],          // combining half marks
+    [0xFE30, 0xFE4F, 1, .88, .12],      // CJK compatibility forms
+    [0xFEFF, 0xFEFF, 0, 0, 0],          // zero-width no-break space
+    [0xFF00, 0xFF60, 1, .88, .12],      // full-width forms
+    [0xFFE0, 0xFFE6, 1, .88, .12],      // full-width signs
+    [0x1F000, 0x1F3FA, 1, .85, .15],    // game symbols and emoji
+    [0x1F3FB, 0x1F3FF, 0, 0, 0],        // emoji skin-tone modifiers
+    [0x1F400, 0x1FAFF, 1, .85, .15],    // emoji
+    [0x20000, 0x3FFFD, 1, .88, .12],    // CJK extensions B and beyond
+    [0xE0000, 0xE01EF, 0, 0, 0]         // tags and variation selectors supplement
+  ];
+
+  /**
+   * The ranges used by this instance
+   */
+  protected ranges: CharRange[];
+
+  /**
+   * The size for characters not in the ranges
+   */
+  protected default: TextBBox;
+
+  /**
+   * @param {CharRange[]} ranges   The sizes for ranges of characters (sorted by their first characters)
+   * @param {TextBBox} size        The size for characters not in the ranges
+   */
+  constructor(ranges: CharRange[] = null, size: TextBBox = null) {
+    const CLASS = this.constructor as typeof TableMetrics;
+    this.ranges = ranges || CLASS.RANGES;
+    this.default = size || CLASS.DEFAULT;
+  }
+
+  /**
+   * @override
+   */
+  public measureText(text: string, _font: TextFont) {
+    const bbox = {w: 0, h: 0, d: 0};
+    for (const c of unicodeChars(text)) {
+      const {w, h, d} = this.charSize(c);
+      bbox.w += w;
+      bbox.h = Math.max(bbox.h, h);
+      bbox.d = Math.max(bbox.d, d);
+    }
+    return bbox;
+  }
+
+  /**
+   * @param {number} c     The code point of a character
+   * @return {TextBBox}    The size of the character (a binary search of the ranges)
+   */
+  public charSize(c: number): TextBBox {
+    const ranges = this.ranges;
+    let [i, j] = [0, ranges.length - 1];
+    while (i <= j) {
+      const k = (i + j) >> 1;
+      const [first, last, w, h, d] = ranges[k];
+      if (c < first) {
+        j = k - 1;
+      } else if (c > last) {
+        i = k + 1;
+      } else {
+        return {w, h, d};
+      }
+    }
+    return this.default;
+  }
+
+}
@@ -28,6 +28,7 @@ import {LiteText, LiteComment} from './lite/Text.js';
 import {LiteList} from './lite/List.js';
 import {LiteWindow} from './lite/Window.js';
 import {LiteParser} from './lite/Parser.js';
+import {TextMetrics, TextFont, TableMetrics} from './lite/TextMetrics.js';
 import {Styles} from '../util/Styles.js';
 import {userOptions, defaultOptions, OptionList} from '../util/Options.js';
 
@@ -41,7 +42,8 @@ export class LiteAdaptor extends AbstractDOMAdaptor<LiteElement, LiteText, LiteD
    */
   public static OPTIONS: OptionList = {
     fontSize: 16,        // We can't compute the font size, so always use this
-    fontFamily: 'Times'  // We can't compute the font family, so always use this
+    fontFamily: 'Times', // We can't compute the font family, so always use this
+    textMetrics: null    // The TextMetrics object used to measure text (null means use a TableMetrics)
   };
 
   /**
@@ -64,6 +66,11 @@ export class LiteAdaptor extends AbstractDOMAdaptor<LiteElement, LiteText, LiteD
    */
   public parser: LiteParser;
 
+  /**
+   * The object used to measure text (since there is no layout engine to do it)
+   */
+  public textMetrics: TextMetrics;
+
   /**
    * @param {OptionList} options  The options for the lite adaptor (e.g., fontSize)
    * @constructor
@@ -74,6 +81,7 @@ export class LiteAdaptor extends AbstractDOMAdaptor<LiteElement, LiteText, LiteD
     this.options = userOptions(defaultOptions({}, CLASS.OPTIONS), options);
     this.parser = new LiteParser();
     this.window = new LiteWindow();
+    this.textMetrics = this.options.textMetrics || new TableMetrics();
   }
 
   /**
@@ -567,8 +575,21 @@ export class LiteAdaptor extends AbstractDOMAdaptor<LiteElement, LiteText, LiteD
    * @override
    */
   public nodeSize(node: LiteElement, _em: number = 1, _local: boolean = null) {
-    const text = this.textContent(node);
-    return [.6 * text.length, 0] as [number, number];
+    const {w, h, d} = this.textMetrics.measureText(this.textContent(node), this.textFont(node));
+    return [w, h + d] as [number, number];
+  }
+
+  /**
+   * @param {LiteElement} node   The node whose text is to be measured
+   * @return {TextFont}          The font given by the node's styles or (SVG) attributes
+   */
+  protected textFont(node: LiteElement): TextFont {
+    const value = (name: string) => this.getStyle(node, name) || this.getAttribute(node, name) || '';
+    return {
+      family: value('font-family') || this.options.fontFamily,
+      italic: value('font-style') === 'italic',
+      bold: value('font-weight') === 'bold'
+    };
   }
 
   /**
@@ -0,0 +1,373 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the converter used by the command-line tool to
+ *                process expressions and whole files on the server
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {mathjax} from '../mathjax.js';
+import {LiteAdaptor, liteAdaptor} from '../adaptors/liteAdaptor.js';
+import {LiteElement} from '../adaptors/lite/Element.js';
+import {LiteText} from '../adaptors/lite/Text.js';
+import {LiteDocument} from '../adaptors/lite/Document.js';
+import {RegisterHTMLHandler} from '../handlers/html.js';
+import {TeX} from '../input/tex.js';
+import {MathML} from '../input/mathml.js';
+import {AsciiMath} from '../input/asciimath.js';
+import {CHTML} from '../output/chtml.js';
+import {SVG} from '../output/svg.js';
+import {MathDocument, AbstractMathDocument} from '../core/MathDocument.js';
+import {MathItem, STATE} from '../core/MathItem.js';
+import {MmlNode} from '../core/MmlTree/MmlNode.js';
+import {SerializedMmlVisitor} from '../core/MmlTree/SerializedMmlVisitor.js';
+import {JsonMmlVisitor} from '../core/MmlTree/JsonMmlVisitor.js';
+import {AllPackages} from '../input/tex/AllPackages.js';
+import {asyncLoad} from '../util/AsyncLoad.js';
+import {OptionList, userOptions, defaultOptions, expandable} from '../util/Options.js';
+
+import '../util/asyncLoad/node.js';
+
+/**
+ * Shorthands for the types used by the converter
+ */
+export type LITEDOC = MathDocument<LiteElement, LiteText, LiteDocument>;
+export type LITEMATH = MathItem<LiteElement, LiteText, LiteDocument>;
+export type ERRORDOC = AbstractMathDocument<LiteElement, LiteText, LiteDocument>;
+export type INPUTJAX = TeX<LiteElement, LiteText, LiteDocument> |
+                       MathML<LiteElement, LiteText, LiteDocument> |
+                       AsciiMath<LiteElement, LiteText, LiteDocument>;
+export type OUTPUTJAX = CHTML<LiteElement, LiteText, LiteDocument> | SVG<LiteElement, LiteText, LiteDocument>;
+
+/**
+ * The input and output formats that can be used
+ */
+export const INPUTS = ['tex', 'mathml', 'asciimath'];
+export const OUTPUTS = ['chtml', 'svg', 'mml', 'json', 'speech'];
+
+/**
+ * The types of files that can be processed
+ */
+export type FileType = 'html' | 'text';
+
+/*****************************************************************/
+/**
+ *  Converts single expressions, or the math within HTML or text files
+ *  (e.g., Markdown), using the liteAdaptor.  The output is HTML with CSS
+ *  (chtml), SVG, serialized MathML (mml), the JSON version of the internal
+ *  MathML (json), or speech text (speech).
+ *
+ *  Errors reported by the TeX and AsciiMath input jax are recorded in the
+ *  errors array so that the caller can tell if the input had problems.
+ */
+export class Converter {
+
+  /**
+   * The default options
+   */
+  public static OPTIONS: OptionList = {
+    input: 'tex',                // the input format
+    output: 'svg',               // the output format
+    display: true,               // true for display math, false for in-line (for single expressions)
+    em: 16,                      // the size of an em in pixels
+    ex: 8,                       // the size of an ex in pixels
+    containerWidth: null,        // the container width in pixels (null means 80ex)
+    css: false,                  // true to include the stylesheet with expressions and text files
+    textMetrics: null,           // the TextMetrics object for measuring text not in the MathJax fonts
+    tex: expandable({            // the options for the TeX input jax
+      packages: AllPackages.filter(name => name !== 'noerrors' && name !== 'noundefined')
+    }),
+    mathml: expandable({}),      // the options for the MathML input jax
+    asciimath: expandable({}),   // the options for the AsciiMath input jax
+    chtml: expandable({}),       // the options for the CHTML output jax
+    svg: expandable({            // the options for the SVG output jax
+      fontCache: 'local'
+    })
+  };
+
+  /**
+   * The options for this converter
+   */
+  public options: OptionList;
+
+  /**
+   * The liteDOM adaptor
+   */
+  public adaptor: LiteAdaptor;
+
+  /**
+   * The input jax
+   */
+  public input: INPUTJAX;
+
+  /**
+   * The output jax (null for the non-visual formats)
+   */
+  public output: OUTPUTJAX;
+
+  /**
+   * The error messages produced by the input jax
+   */
+  public errors: string[] = [];
+
+  /**
+   * The visitor used to serialize MathML
+   */
+  protected visitor: SerializedMmlVisitor = new SerializedMmlVisitor();
+
+  /**
+   * The visitor used to produce the JSON version of the internal MathML
+   */
+  protected jsonVisitor: JsonMmlVisitor = new JsonMmlVisitor();
+
+  /**
+   * @param {OptionList} options   The options for the converter
+   * @constructor
+   */
+  constructor(options: OptionList = {}) {
+    const CLASS = this.constructor as typeof Converter;
+    this.options = userOptions(defaultOptions({}, CLASS.OPTIONS), options);
+    if (INPUTS.indexOf(this.options.input) < 0) {
+      throw new Error('Unknown input format: ' + this.options.input);
+    }
+    if (OUTPUTS.indexOf(this.options.output) < 0) {
+      throw new Error('Unknown output format: ' + this.options.output);
+    }
+    if (this.options.containerWidth === null) {
+      this.options.containerWidth = 80 * this.options.ex;
+    }
+    this.adaptor = liteAdaptor({fontSize: this.options.em, textMetrics: this.options.textMetrics});
+    RegisterHTMLHandler(this.adaptor);
+    this.output = this.createOutput();
+    this.input = this.createInput();
+  }
+
+  /**
+   * @return {INPUTJAX}   The input jax for the selected input format
+   */
+  protected createInput(): INPUTJAX {
+    const name = this.options.input;
+    const formatError = (jax: any, err: Error) => {
+      this.errors.push(err.message);
+      return jax.formatError(err);
+    };
+    const options = Object.assign({}, this.options[name]);
+    if (name === 'tex' && !this.output) {
+      //
+      //  The bussproofs package needs an output jax that can measure its output
+      //
+      options.packages = options.packages.filter((pkg: string) => pkg !== 'bussproofs');
+    }
+    switch (name) {
+    case 'tex':
+      return new TeX(Object.assign(options, {formatError}));
+    case 'asciimath':
+      return new AsciiMath(Object.assign(options, {formatError}));
+    default:
+      return new MathML(options);
+    }
+  }
+
+  /**
+   * @return {OUTPUTJAX}   The output jax for the selected output format (or null)
+   */
+  protected createOutput(): OUTPUTJAX {
+    switch (this.options.output) {
+    case 'chtml':
+      return new CHTML(this.options.chtml);
+    case 'svg':
+      return new SVG(this.options.svg);
+    default:
+      return null;
+    }
+  }
+
+  /**
+   * @param {string|LiteDocument} html   The HTML for the document
+   * @return {LITEDOC}                   A MathDocument for the HTML using the converter's jax
+   */
+  public document(html: string | LiteDocument): LITEDOC {
+    const options: OptionList = {
+      InputJax: this.input,
+      compileError: (doc: ERRORDOC, math: LITEMATH, err: Error) => {
+        this.errors.push(err.message);
+        doc.compileError(math, err);
+      },
+      typesetError: (doc: ERRORDOC, math: LITEMATH, err: Error) => {
+        this.errors.push(err.message);
+        doc.typesetError(math, err);
+      }
+    };
+    if (this.output) {
+      options.OutputJax = this.output;
+    }
+    return mathjax.document(html, options) as LITEDOC;
+  }
+
+  /**
+   * @return {Promise}   A promise that resolves when the converter is ready to run
+   *                      (speech output requires the speech-rule-engine to be loaded)
+   */
+  public ready(): Promise<void> {
+    if (this.options.output !== 'speech') {
+      return Promise.resolve();
+    }
+    return asyncLoad('./a11y/sre.js').then((sre: any) => sre.sreReady());
+  }
+
+  /**
+   * @param {string} math        The expression to convert
+   * @return {Promise<string>}   A promise for the serialized result
+   */
+  public expression(math: string): Promise<string> {
+    return this.ready().then(() => this.process(() => {
+      const {display, em, ex, containerWidth} = this.options;
+      const end = (this.output ? STATE.LAST : STATE.CONVERT);
+      const doc = this.document('');
+      const node = doc.convert(math, {display, em, ex, containerWidth, end});
+      if (!this.output) {
+        return this.serializeMml(node as MmlNode);
+      }
+      const result = this.adaptor.outerHTML(node as LiteElement);
+      return (this.options.css ? this.styles(doc) + '\n' + result : result);
+    }));
+  }
+
+  /**
+   * @param {string} text        The contents of the file
+   * @param {FileType} type      The type of file (html or text)
+   * @return {Promise<string>}   A promise for the file with its math converted
+   */
+  public file(text: string, type: FileType = 'html'): Promise<string> {
+    const html = (type === 'html');
+    return this.ready().then(() => this.process(() => {
+      const adaptor = this.adaptor;
+      //
+      //  Parse the file here (rather than in mathjax.document()) so that
+      //  any entity files that need to be loaded cause a retry
+      //
+      const doc = this.document(adaptor.parse(html ? text : '<html><head></head><body></body></html>'));
+      if (!html) {
+        adaptor.append(adaptor.body(doc.document), adaptor.text(text));
+      }
+      doc.findMath().compile();
+      const {em, ex, containerWidth} = this.options;
+      for (const math of doc.math) {
+        math.setMetrics(em, ex, containerWidth, null, 1);
+        if (!this.output) {
+          math.typesetRoot = this.mmlNode(math.root, html) as LiteElement;
+          math.state(STATE.TYPESET);
+        }
+      }
+      doc.processed.set('getMetrics');
+      if (this.output) {
+        doc.typeset();
+      }
+      doc.updateDocument();
+      return (html ? this.serializeDocument(doc) : this.serializeText(doc));
+    }));
+  }
+
+  /**
+   * Run a conversion, handling any asynchronous file loads that it needs
+   * (errors from an attempt that had to be restarted are discarded)
+   *
+   * @param {Function} code      The conversion to run
+   * @return {Promise<string>}   A promise for its result
+   */
+  protected process(code: () => string): Promise<string> {
+    const n = this.errors.length;
+    return mathjax.handleRetriesFor(() => {
+      this.errors.length = n;
+      return code();
+    });
+  }
+
+  /**
+   * @param {MmlNode} root   The internal MathML to serialize
+   * @return {string}        The MathML, JSON, or speech string for the selected output
+   */
+  public serializeMml(root: MmlNode): string {
+    switch (this.options.output) {
+    case 'json':
+      return JSON.stringify(this.jsonVisitor.visitTree(root));
+    case 'speech':
+      return SRE.toSpeech(this.visitor.visitTree(root));
+    default:
+      return this.visitor.visitTree(root);
+    }
+  }
+
+  /**
+   * @param {MmlNode} root    The internal MathML to serialize
+   * @param {boolean} html    True if the node will be placed in an HTML document
+   * @return {LiteElement}    The node to use in place of the original math
+   */
+  protected mmlNode(root: MmlNode, html: boolean): LiteElement | LiteText {
+    const adaptor = this.adaptor;
+    const text = this.serializeMml(root);
+    if (!html || this.options.output !== 'mml') {
+      return adaptor.text(text);
+    }
+    return adaptor.firstChild(adaptor.body(adaptor.parse(text, 'text/html'))) as LiteElement | LiteText;
+  }
+
+  /**
+   * @param {LITEDOC} doc   The document whose stylesheet is needed
+   * @return {string}       The serialized stylesheet for the output jax
+   */
+  public styles(doc: LITEDOC): string {
+    return this.adaptor.outerHTML(this.output.styleSheet(doc) as LiteElement);
+  }
+
+  /**
+   * @return {string}   The complete static CSS for the CHTML output (to be saved for use
+   *                      with its stylesheetURL option), including the styles for the
+   *                      converter's documents
+   */
+  public staticStyles(): string {
+    if (!(this.output instanceof CHTML)) {
+      throw new Error('A static stylesheet can only be produced for chtml output');
+    }
+    return this.output.staticStyleSheet(this.document(''));
+  }
+
+  /**
+   * @param {LITEDOC} doc   The document to serialize
+   * @return {string}       The serialized HTML document
+   */
+  protected serializeDocument(doc: LITEDOC): string {
+    const adaptor = this.adaptor;
+    const doctype = adaptor.doctype(doc.document);
+    return (doctype ? doctype + '\n' : '') + adaptor.outerHTML(adaptor.root(doc.document)) + '\n';
+  }
+
+  /**
+   * @param {LITEDOC} doc   The document to serialize
+   * @return {string}       The original text with its math replaced (and the stylesheet, if requested)
+   */
+  protected serializeText(doc: LITEDOC): string {
+    const adaptor = this.adaptor;
+    const text = adaptor.childNodes(adaptor.body(doc.document)).map(node => {
+      return (adaptor.kind(node) === '#text' ? adaptor.value(node) : adaptor.outerHTML(node as LiteElement));
+    }).join('');
+    return (this.output && this.options.css ? this.styles(doc) + '\n\n' + text : text);
+  }
+
+}
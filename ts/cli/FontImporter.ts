@@ -0,0 +1,789 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the generation of MathJax font data modules
+ *                from an OpenType font with a MATH table
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {OpenTypeFont, GlyphConstruction, FontError, svgPathData} from '../util/OpenType.js';
+import {OPTABLE} from '../core/MmlTree/OperatorDictionary.js';
+import {FontParameters} from '../output/common/FontData.js';
+import {unicodeChars} from '../util/string.js';
+import {cmapTable, woffFile, TableMap} from './WoffWriter.js';
+
+/*****************************************************************/
+
+/**
+ * The options for the importer
+ */
+export type ImportOptions = {
+  name: string,      // the name used to select the font (e.g., STIX2)
+  id: string,        // the short id used for cache ids and CSS font families
+  dir: string        // the directory (and file) name for the generated modules
+};
+
+/**
+ * The data for a character in one of the generated variants
+ */
+type CharEntry = {
+  glyph: number,     // the glyph used for the character
+  h: number,         // its height, depth, and width (in font units)
+  d: number,
+  w: number,
+  ic: number,        // its italic correction
+  sk: number         // its accent skew
+};
+
+/**
+ * The data for a stretchy delimiter (in font units)
+ */
+type DelimiterEntry = {
+  dir: 'V' | 'H',
+  sizes: number[],
+  variants: number[],
+  stretch: number[],
+  HDW: number[],
+  min: number
+};
+
+/**
+ * The generated files (by path relative to the output directory)
+ */
+export type FileMap = {[file: string]: string | Uint8Array};
+
+/**
+ * The MathConstants that give the font parameters
+ */
+const PARAMS: {[name: string]: string} = {
+  num1: 'FractionNumeratorDisplayStyleShiftUp',
+  num2: 'FractionNumeratorShiftUp',
+  num3: 'StackTopShiftUp',
+  denom1: 'FractionDenominatorDisplayStyleShiftDown',
+  denom2: 'FractionDenominatorShiftDown',
+  sup1: 'SuperscriptShiftUp',
+  sup2: 'SuperscriptShiftUp',
+  sup3: 'SuperscriptShiftUpCramped',
+  sub1: 'SubscriptShiftDown',
+  sub2: 'SubscriptShiftDown',
+  sup_drop: 'SuperscriptBaselineDropMax',
+  sub_drop: 'SubscriptBaselineDropMin',
+  axis_height: 'AxisHeight',
+  rule_thickness: 'FractionRuleThickness',
+  big_op_spacing1: 'UpperLimitGapMin',
+  big_op_spacing2: 'LowerLimitGapMin',
+  big_op_spacing3: 'UpperLimitBaselineRiseMin',
+  big_op_spacing4: 'LowerLimitBaselineDropMin',
+  scriptspace: 'SpaceAfterScript'
+};
+
+/**
+ * The first code point used for glyphs that aren't in the character map (assembly parts
+ *   and size variants), which are added to the character map of the woff font
+ */
+const UNMAPPED_START = 0x100000;
+
+/**
+ * The largest number of non-extender parts that MathJax can use (beg, end, and mid)
+ */
+const MAXPARTS = 3;
+
+/**
+ * The short ids for the generated variants (used for their cache ids, CSS classes, and font letters)
+ */
+const VARIANT_IDS: {[variant: string]: string} = {
+  'normal': 'N',
+  '-smallop': 'SO',
+  '-largeop': 'LO',
+  '-parts': 'P'
+};
+
+/**
+ * The CSS classes for the standard MathML variants (the same as for the TeX font)
+ */
+const VARIANT_CLASSES: {[variant: string]: string} = {
+  'bold': 'mjx-b',
+  'italic': 'mjx-i',
+  'bold-italic': 'mjx-b mjx-i',
+  'double-struck': 'mjx-ds mjx-b',
+  'fraktur': 'mjx-fr',
+  'bold-fraktur': 'mjx-fr mjx-b',
+  'script': 'mjx-sc mjx-i',
+  'bold-script': 'mjx-sc mjx-b mjx-i',
+  'sans-serif': 'mjx-ss',
+  'bold-sans-serif': 'mjx-ss mjx-b',
+  'sans-serif-italic': 'mjx-ss mjx-i',
+  'sans-serif-bold-italic': 'mjx-ss mjx-b mjx-i',
+  'monospace': 'mjx-ty'
+};
+
+/*****************************************************************/
+
+/**
+ * @param {number} n   A number (in em units)
+ * @return {string}    The number as it appears in the font data files
+ */
+function num(n: number): string {
+  const value = Math.round(n * 1000) / 1000;
+  return (value === 0 ? '0' : String(value).replace(/^0\./, '.'));
+}
+
+/**
+ * @param {number} n   A code point
+ * @return {string}    The code point in hex
+ */
+function hex(n: number): string {
+  return '0x' + n.toString(16).toUpperCase();
+}
+
+/**
+ * @param {string} variant   A variant name
+ * @return {string}          The name of the file and constant for the variant
+ */
+function variantName(variant: string): string {
+  return variant.replace(/^-/, '');
+}
+
+/**
+ * @param {string} variant   A variant name
+ * @return {string}          The short id for the variant
+ */
+function variantId(variant: string): string {
+  return VARIANT_IDS[variant] || variant.replace(/^-size/, 'S');
+}
+
+/*****************************************************************/
+/**
+ *  The FontImporter class converts the data from an OpenType math font
+ *  into the modules that define a MathJax font package
+ */
+export class FontImporter {
+
+  /**
+   * The font being imported
+   */
+  protected font: OpenTypeFont;
+
+  /**
+   * The options for the import
+   */
+  protected options: ImportOptions;
+
+  /**
+   * The characters in each variant
+   */
+  protected variants: Map<string, Map<number, CharEntry>> = new Map();
+
+  /**
+   * The stretchy delimiter data
+   */
+  protected delimiters: Map<number, DelimiterEntry> = new Map();
+
+  /**
+   * The code point used for each glyph (its smallest one from the character map,
+   *   or one assigned for a glyph that isn't in the character map)
+   */
+  protected codes: Map<number, number> = new Map();
+
+  /**
+   * The next code point to use for a glyph that isn't in the character map
+   */
+  protected nextCode: number = UNMAPPED_START;
+
+  /**
+   * The number of size variants needed
+   */
+  protected sizes: number = 0;
+
+  /**
+   * Problems found while importing the font
+   */
+  public warnings: string[] = [];
+
+  /**
+   * @param {OpenTypeFont} font        The font to import
+   * @param {ImportOptions} options    The options for the import
+   */
+  constructor(font: OpenTypeFont, options: ImportOptions) {
+    if (!font.math) {
+      throw new FontError('The font has no MATH table');
+    }
+    this.font = font;
+    this.options = options;
+    for (const [c, glyph] of Array.from(font.cmap.entries()).sort((a, b) => a[0] - b[0])) {
+      if (!this.codes.has(glyph)) {
+        this.codes.set(glyph, c);
+      }
+    }
+    this.importChars();
+    this.importLargeOps();
+    this.importDelimiters();
+    this.assignCodes();
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {string} variant   The variant to add the character to
+   * @param {number} c         The code point of the character
+   * @param {number} glyph     The glyph to use for it
+   */
+  protected addChar(variant: string, c: number, glyph: number) {
+    if (!this.variants.has(variant)) {
+      this.variants.set(variant, new Map());
+    }
+    const font = this.font;
+    const math = font.math;
+    const [ , yMin, , yMax] = font.bbox(glyph);
+    const w = font.advance(glyph);
+    const sk = (math.accents.has(glyph) ? math.accents.get(glyph) - w / 2 : 0);
+    this.variants.get(variant).set(c, {glyph, h: yMax, d: -yMin, w, ic: math.italics.get(glyph) || 0, sk});
+  }
+
+  /**
+   * Put all the characters from the character map (other than control characters) into the normal variant
+   */
+  protected importChars() {
+    for (const [c, glyph] of Array.from(this.font.cmap.entries()).sort((a, b) => a[0] - b[0])) {
+      if (c >= 0x20 && (c < 0x7F || c >= 0xA0)) {
+        this.addChar('normal', c, glyph);
+      }
+    }
+  }
+
+  /**
+   * Put the large operators into the -smallop and -largeop variants (using the first size variant
+   *   that is at least DisplayOperatorMinHeight for the display-style version)
+   */
+  protected importLargeOps() {
+    const math = this.font.math;
+    const minHeight = math.constants.DisplayOperatorMinHeight || 0;
+    for (const c of this.largeOps()) {
+      const glyph = this.font.cmap.get(c);
+      if (glyph === undefined) continue;
+      const variants = (math.vertical.get(glyph) || {variants: [] as {glyph: number, size: number}[]}).variants;
+      const large = variants.find(v => v.size >= minHeight) || variants[variants.length - 1];
+      this.addChar('-smallop', c, glyph);
+      this.addChar('-largeop', c, large ? large.glyph : glyph);
+    }
+  }
+
+  /**
+   * @return {number[]}   The code points of the operators that are large operators in the
+   *                        operator dictionary
+   */
+  protected largeOps(): number[] {
+    const ops = new Set<number>();
+    for (const form of Object.keys(OPTABLE)) {
+      for (const op of Object.keys(OPTABLE[form])) {
+        const chars = unicodeChars(op);
+        if (chars.length === 1 && (OPTABLE[form][op][3] || {}).largeop) {
+          ops.add(chars[0]);
+        }
+      }
+    }
+    return Array.from(ops).sort((a, b) => a - b);
+  }
+
+  /**
+   * Create the stretchy delimiter data from the vertical and horizontal constructions
+   */
+  protected importDelimiters() {
+    const math = this.font.math;
+    for (const [c, glyph] of Array.from(this.font.cmap.entries()).sort((a, b) => a[0] - b[0])) {
+      const vertical = math.vertical.get(glyph);
+      const horizontal = math.horizontal.get(glyph);
+      if (vertical && horizontal) {
+        this.warnings.push(hex(c) + ' has both vertical and horizontal variants; using the vertical ones');
+      }
+      if (vertical || horizontal) {
+        this.addDelimiter(c, glyph, vertical ? 'V' : 'H', vertical || horizontal);
+      }
+    }
+  }
+
+  /**
+   * @param {number} c                            The code point of the delimiter
+   * @param {number} glyph                        Its glyph
+   * @param {string} dir                          The direction of stretching
+   * @param {GlyphConstruction} construction      The variants and assembly for the glyph
+   */
+  protected addDelimiter(c: number, glyph: number, dir: 'V' | 'H', construction: GlyphConstruction) {
+    const delim: DelimiterEntry = {dir, sizes: [], variants: [], stretch: null, HDW: null, min: 0};
+    let k = 0;
+    for (const variant of construction.variants) {
+      if (variant.glyph === glyph) {
+        delim.variants.push(0);
+      } else {
+        delim.variants.push(++k);
+        this.addChar('-size' + k, c, variant.glyph);
+      }
+      delim.sizes.push(variant.size);
+    }
+    this.sizes = Math.max(this.sizes, k);
+    if (construction.parts) {
+      this.addAssembly(c, glyph, delim, construction);
+    }
+    if (delim.sizes.length || delim.stretch) {
+      this.delimiters.set(c, delim);
+    }
+  }
+
+  /**
+   * @param {number} c                          The code point of the delimiter
+   * @param {number} glyph                      Its glyph
+   * @param {DelimiterEntry} delim              The delimiter data to modify
+   * @param {GlyphConstruction} construction    The variants and assembly for the glyph
+   */
+  protected addAssembly(c: number, glyph: number, delim: DelimiterEntry, construction: GlyphConstruction) {
+    //
+    //  The parts are bottom to top for vertical assemblies, but MathJax lists them top to bottom
+    //
+    const parts = (delim.dir === 'V' ? [...construction.parts].reverse() : construction.parts);
+    const first = parts.findIndex(part => part.extender);
+    const last = parts.length - 1 - [...parts].reverse().findIndex(part => part.extender);
+    const extenders = new Set(parts.filter(part => part.extender).map(part => part.glyph));
+    const middle = parts.slice(first + 1, last).filter(part => !part.extender);
+    const fixed = parts.filter(part => !part.extender);
+    if (first < 0 || first > 1 || last < parts.length - 2 || middle.length > 1 ||
+        extenders.size > 1 || fixed.length > MAXPARTS) {
+      this.warnings.push(hex(c) + ' has a glyph assembly that MathJax can\'t represent; using only its sizes');
+      return;
+    }
+    const code = (part: {glyph: number}) => (part ? this.partCode(part.glyph) : 0);
+    delim.stretch = [code(parts[first - 1]), code(parts[first]), code(parts[last + 1])];
+    if (middle.length) {
+      delim.stretch.push(code(middle[0]));
+    }
+    const font = this.font;
+    const overlap = font.math.minOverlap;
+    delim.min = Math.max(0, fixed.reduce((size, part) => size + part.size, 0) - overlap * (fixed.length - 1));
+    if (delim.dir === 'V') {
+      const [ , yMin, , yMax] = font.bbox(glyph);
+      delim.HDW = [yMax, -yMin, Math.max(...parts.map(part => font.advance(part.glyph)))];
+    } else {
+      const boxes = parts.map(part => font.bbox(part.glyph));
+      delim.HDW = [Math.max(...boxes.map(box => box[3])), Math.max(...boxes.map(box => -box[1])), font.advance(glyph)];
+    }
+  }
+
+  /**
+   * @param {number} glyph   The glyph for an assembly part
+   * @return {number}        The code point to use for it (adding it to the -parts variant if
+   *                           it isn't in the character map)
+   */
+  protected partCode(glyph: number): number {
+    if (!this.codes.has(glyph)) {
+      this.addChar('-parts', this.glyphCode(glyph), glyph);
+    }
+    return this.codes.get(glyph);
+  }
+
+  /**
+   * @param {number} glyph   A glyph
+   * @return {number}        The code point for the glyph (assigning a new one if it
+   *                           isn't in the character map)
+   */
+  protected glyphCode(glyph: number): number {
+    if (!this.codes.has(glyph)) {
+      this.codes.set(glyph, this.nextCode++);
+    }
+    return this.codes.get(glyph);
+  }
+
+  /**
+   * Make sure every glyph used in a variant has a code point, so the CHTML output can refer to it
+   */
+  protected assignCodes() {
+    for (const variant of this.variantNames) {
+      for (const char of Array.from((this.variants.get(variant) || new Map()).values())) {
+        this.glyphCode(char.glyph);
+      }
+    }
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @return {string[]}   The names of the generated variants, in the order they are defined
+   */
+  protected get variantNames(): string[] {
+    const names = ['normal', '-smallop', '-largeop'];
+    for (let i = 1; i <= this.sizes; i++) {
+      names.push('-size' + i);
+    }
+    names.push('-parts');
+    return names;
+  }
+
+  /**
+   * @return {Partial<FontParameters>}   The font parameters from the MATH constants (in em units)
+   */
+  protected get params(): Partial<FontParameters> {
+    const font = this.font;
+    const constants = font.math.constants;
+    const params: Partial<FontParameters> = {};
+    let xHeight = font.xHeight;
+    if (!xHeight && font.cmap.has(0x78)) {
+      xHeight = font.bbox(font.cmap.get(0x78))[3];
+    }
+    if (xHeight) {
+      params.x_height = xHeight / font.unitsPerEm;
+    }
+    for (const name of Object.keys(PARAMS) as (keyof FontParameters)[]) {
+      if (constants[PARAMS[name]] !== undefined) {
+        params[name] = constants[PARAMS[name]] / font.unitsPerEm;
+      }
+    }
+    return params;
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @return {string}   The comment at the top of the generated files
+   */
+  protected get header(): string {
+    const names = this.font.names;
+    return [
+      '/*************************************************************',
+      ' *',
+      ' *  Generated by mathjax-font from ' + (names[4] || names[1] || 'an unnamed font') +
+        (names[5] ? ' (' + names[5] + ')' : ''),
+      ...(names[0] ? [' *', ...this.wrap(names[0])] : []),
+      ...(names[13] ? [' *', ...this.wrap(names[13])] : []),
+      ' *',
+      ' *  Regenerate this file from the font rather than editing it.',
+      ' */',
+      ''
+    ].join('\n').replace(/\u00A9/g, '(c)').replace(/[^\n -~]/g, '?');
+  }
+
+  /**
+   * @param {string} text   The text of a name table entry (e.g., the copyright notice)
+   * @return {string[]}     The lines of a comment that contains the text
+   */
+  protected wrap(text: string): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/ +/)) {
+        if (line && line.length + word.length > 90) {
+          lines.push(' *  ' + line);
+          line = '';
+        }
+        line += (line ? ' ' : '') + word;
+      }
+      lines.push(' *  ' + line);
+    }
+    return lines;
+  }
+
+  /**
+   * @param {CharEntry} char   The data for a character
+   * @return {string}          The character data as it appears in a CharMap
+   */
+  protected charData(char: CharEntry): string {
+    const em = this.font.unitsPerEm;
+    const options = [];
+    if (num(char.ic / em) !== '0') {
+      options.push('ic: ' + num(char.ic / em));
+    }
+    if (num(char.sk / em) !== '0') {
+      options.push('sk: ' + num(char.sk / em));
+    }
+    const data = [char.h, char.d, char.w].map(n => num(n / em));
+    return '[' + data.join(', ') + (options.length ? ', {' + options.join(', ') + '}' : '') + ']';
+  }
+
+  /**
+   * @param {DelimiterEntry} delim   The data for a delimiter
+   * @return {string}                The delimiter data as it appears in a DelimiterMap
+   */
+  protected delimiterData(delim: DelimiterEntry): string {
+    const em = this.font.unitsPerEm;
+    const data = ['dir: ' + delim.dir];
+    if (delim.sizes.length) {
+      data.push('sizes: [' + delim.sizes.map(n => num(n / em)).join(', ') + ']');
+    }
+    if (delim.variants.some((n, i) => n !== i)) {
+      data.push('variants: [' + delim.variants.join(', ') + ']');
+    }
+    if (delim.stretch) {
+      data.push('stretch: [' + delim.stretch.map(n => n ? hex(n) : '0').join(', ') + ']');
+      data.push('HDW: [' + delim.HDW.map(n => num(n / em)).join(', ') + ']');
+      if (delim.min) {
+        data.push('min: ' + num(delim.min / em));
+      }
+    }
+    return '{' + data.join(', ') + '}';
+  }
+
+  /**
+   * @return {FileMap}   The generated modules, by their paths relative to the output directory
+   */
+  public files(): FileMap {
+    const dir = this.options.dir;
+    const files: FileMap = {};
+    for (const variant of this.variantNames) {
+      const name = variantName(variant);
+      files['common/fonts/' + dir + '/' + name + '.ts'] = this.commonChars(variant);
+      files['svg/fonts/' + dir + '/' + name + '.ts'] = this.svgChars(variant);
+      files['chtml/fonts/' + dir + '/' + name + '.ts'] = this.chtmlChars(variant);
+    }
+    files['common/fonts/' + dir + '/delimiters.ts'] = this.commonDelimiters();
+    files['common/fonts/' + dir + '.ts'] = this.commonPackage();
+    files['svg/fonts/' + dir + '.ts'] = this.svgPackage();
+    files['chtml/fonts/' + dir + '.ts'] = this.chtmlPackage();
+    files[this.woffDir + '/' + this.woffName] = this.woff();
+    return files;
+  }
+
+  /**
+   * @param {string} variant   The variant name
+   * @return {string}          The module for the variant's character data
+   */
+  protected commonChars(variant: string): string {
+    const chars = this.variants.get(variant) || new Map();
+    return this.header + [
+      '',
+      'import {CharMap, CharOptions} from \'../../FontData.js\';',
+      '',
+      'export const ' + variantName(variant) + ': CharMap<CharOptions> = {',
+      ...Array.from(chars.keys()).map(c => '    ' + hex(c) + ': ' + this.charData(chars.get(c)) + ','),
+      '};',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @param {string} variant   The variant name
+   * @return {string}          The module for the variant's SVG paths
+   */
+  protected svgChars(variant: string): string {
+    const chars = this.variants.get(variant) || new Map();
+    const name = variantName(variant);
+    const paths = [];
+    for (const c of Array.from(chars.keys())) {
+      const path = svgPathData(this.font.path(chars.get(c).glyph), 1000 / this.font.unitsPerEm);
+      if (path) {
+        paths.push('    ' + hex(c) + ': \'' + path + '\',');
+      }
+    }
+    return this.header + [
+      'import {SVGCharMap, AddPaths} from \'../../FontData.js\';',
+      'import {' + name + ' as font} from \'../../../common/fonts/' + this.options.dir + '/' + name + '.js\';',
+      '',
+      'export const ' + name + ': SVGCharMap = AddPaths(font, {',
+      ...paths,
+      '}, {});',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @param {string} variant   The variant name
+   * @return {string}          The module for the variant's CSS data (the content for the characters
+   *                             whose glyphs aren't the ones for their code points in the woff font)
+   */
+  protected chtmlChars(variant: string): string {
+    const chars = this.variants.get(variant) || new Map();
+    const name = variantName(variant);
+    const css = [];
+    for (const c of Array.from(chars.keys())) {
+      const code = this.codes.get(chars.get(c).glyph);
+      if (code !== c && this.font.cmap.get(c) !== chars.get(c).glyph) {
+        css.push('    ' + hex(c) + ': {c: \'\\\\' + code.toString(16).toUpperCase() + '\'},');
+      }
+    }
+    return this.header + [
+      'import {CHTMLCharMap, AddCSS} from \'../../FontData.js\';',
+      'import {' + name + ' as font} from \'../../../common/fonts/' + this.options.dir + '/' + name + '.js\';',
+      '',
+      'export const ' + name + ': CHTMLCharMap = AddCSS(font, {',
+      ...css,
+      '});',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @return {string}   The module for the stretchy delimiter data
+   */
+  protected commonDelimiters(): string {
+    const delimiters = this.delimiters;
+    const dirs = Array.from(new Set(Array.from(delimiters.values()).map(delim => delim.dir))).sort().reverse();
+    return this.header + [
+      '',
+      'import {' + ['DelimiterMap', 'DelimiterData', ...dirs].join(', ') + '} from \'../../FontData.js\';',
+      '',
+      'export const delimiters: DelimiterMap<DelimiterData> = {',
+      ...Array.from(delimiters.keys()).map(c => '  ' + hex(c) + ': ' + this.delimiterData(delimiters.get(c)) + ','),
+      '};',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @return {string}   The module with the data that is common to all output jax
+   */
+  protected commonPackage(): string {
+    const {name, id, dir} = this.options;
+    const params = this.params;
+    const variants = this.variantNames.slice(1);
+    return this.header + [
+      '',
+      'import {FontPackageData} from \'../FontPackage.js\';',
+      'import {CharOptions, DelimiterData} from \'../FontData.js\';',
+      'import {delimiters} from \'./' + dir + '/delimiters.js\';',
+      '',
+      '/**',
+      ' * The data for the ' + name + ' font that is the same for all output jax',
+      ' */',
+      'export const ' + this.dataName + ': Omit<FontPackageData<CharOptions, DelimiterData>, \'chars\'> = {',
+      '  name: \'' + name + '\',',
+      '  id: \'' + id + '\',',
+      '  variants: [',
+      variants.map(variant => '    [\'' + variant + '\', \'normal\']').join(',\n'),
+      '  ],',
+      '  sizeVariants: [' + ['normal', ...variants.filter(v => v.match(/^-size/))]
+        .map(v => '\'' + v + '\'').join(', ') + '],',
+      '  stretchVariants: [\'-parts\'],',
+      '  params: {',
+      (Object.keys(params) as (keyof FontParameters)[]).map(key => '    ' + key + ': ' + num(params[key])).join(',\n'),
+      '  },',
+      '  delimiters: delimiters',
+      '};',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @return {string}   The module that defines the SVG font class
+   */
+  protected svgPackage(): string {
+    const {dir} = this.options;
+    const variants = this.variantNames;
+    return this.header + [
+      '',
+      'import {SVGFontPackage} from \'../FontPackage.js\';',
+      'import {' + this.dataName + '} from \'../../common/fonts/' + dir + '.js\';',
+      ...variants.map(v => 'import {' + variantName(v) + '} from \'./' + dir + '/' + variantName(v) + '.js\';'),
+      '',
+      '/**',
+      ' * The ' + this.options.name + ' font for the SVG output jax',
+      ' */',
+      'export const ' + this.className + ' = SVGFontPackage({',
+      '  ...' + this.dataName + ',',
+      '  chars: {',
+      variants.map(v => '    \'' + v + '\': ' + variantName(v)).join(',\n'),
+      '  },',
+      '  cacheIds: {',
+      variants.map(v => '    \'' + v + '\': \'' + variantId(v) + '\'').join(',\n'),
+      '  }',
+      '});',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @return {string}   The module that defines the CHTML font class
+   */
+  protected chtmlPackage(): string {
+    const {dir} = this.options;
+    const variants = this.variantNames;
+    return this.header + [
+      '',
+      'import {CHTMLFontPackage} from \'../FontPackage.js\';',
+      'import {' + this.dataName + '} from \'../../common/fonts/' + dir + '.js\';',
+      ...variants.map(v => 'import {' + variantName(v) + '} from \'./' + dir + '/' + variantName(v) + '.js\';'),
+      '',
+      '/**',
+      ' * The ' + this.options.name + ' font for the CHTML output jax',
+      ' */',
+      'export const ' + this.className + ' = CHTMLFontPackage({',
+      '  ...' + this.dataName + ',',
+      '  chars: {',
+      variants.map(v => '    \'' + v + '\': ' + variantName(v)).join(',\n'),
+      '  },',
+      '  fontURL: \'js/output/' + this.woffDir + '\',',
+      '  fonts: {',
+      '    \'\': \'' + this.woffName + '\'',
+      '  },',
+      '  variantClasses: {',
+      [...Object.keys(VARIANT_CLASSES).map(v => '    \'' + v + '\': \'' + VARIANT_CLASSES[v] + '\''),
+       ...variants.map(v => '    \'' + v + '\': \'mjx-' + variantId(v).toLowerCase() + '\'')].join(',\n'),
+      '  },',
+      '  variantLetters: {',
+      variants.map(v => '    \'' + v + '\': \'' + (v === 'normal' ? '' : variantId(v)) + '\'').join(',\n'),
+      '  }',
+      '});',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * @return {Uint8Array}   The woff font for the CHTML output (the font with the code points
+   *                          assigned to its unmapped glyphs added to its character map)
+   */
+  protected woff(): Uint8Array {
+    const font = this.font;
+    const cmap = new Map(font.cmap);
+    for (const [glyph, c] of Array.from(this.codes.entries())) {
+      if (c >= UNMAPPED_START) {
+        cmap.set(c, glyph);
+      }
+    }
+    const tables: TableMap = {};
+    for (const tag of font.tableTags.filter(tag => tag !== 'DSIG')) {
+      tables[tag] = (tag === 'cmap' ? cmapTable(cmap) : font.tableData(tag));
+    }
+    return woffFile(font.version, tables);
+  }
+
+  /**
+   * @return {string}   The directory for the woff font (relative to the output directory)
+   */
+  public get woffDir(): string {
+    return 'chtml/fonts/' + this.options.dir + '-woff';
+  }
+
+  /**
+   * @return {string}   The file name of the woff font
+   */
+  protected get woffName(): string {
+    return this.options.name + '.woff';
+  }
+
+  /**
+   * @return {string}   The name of the constant for the common package data
+   */
+  protected get dataName(): string {
+    return this.options.dir.replace(/[^a-zA-Z0-9]+(.)?/g, (_m, c) => (c || '').toUpperCase()) + 'Data';
+  }
+
+  /**
+   * @return {string}   The name of the generated font classes
+   */
+  protected get className(): string {
+    const name = this.dataName.replace(/Data$/, '');
+    return name.charAt(0).toUpperCase() + name.slice(1) + 'Font';
+  }
+
+}
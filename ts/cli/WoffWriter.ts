@@ -0,0 +1,270 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the writing of the woff files for the fonts
+ *                generated by mathjax-font
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import * as zlib from 'zlib';
+
+/*****************************************************************/
+
+/**
+ * The font tables to write, by their tags
+ */
+export type TableMap = {[tag: string]: Uint8Array};
+
+/**
+ * The value that the checksum of the whole font must have (see the head table)
+ */
+const CHECKSUM_MAGIC = 0xB1B0AFBA;
+
+/**
+ * @param {number} n   A size in bytes
+ * @return {number}    The size padded to a multiple of four bytes
+ */
+function pad4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+/**
+ * @param {Uint8Array} data   The data of a font table
+ * @return {number}           The checksum of the table (the sum of its 32-bit values)
+ */
+function checksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const n = (data[i] << 24) | ((data[i + 1] || 0) << 16) | ((data[i + 2] || 0) << 8) | (data[i + 3] || 0);
+    sum = (sum + n) >>> 0;
+  }
+  return sum;
+}
+
+/*****************************************************************/
+/**
+ *  A writer for big-endian binary data (the counterpart of BinaryReader)
+ */
+export class BinaryWriter {
+
+  /**
+   * The bytes written so far
+   */
+  protected bytes: number[] = [];
+
+  /**
+   * @return {number}   The number of bytes written so far
+   */
+  public get length(): number {
+    return this.bytes.length;
+  }
+
+  /**
+   * @return {Uint8Array}   The data that was written
+   */
+  public get data(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  /**
+   * @param {number} n   The unsigned byte to write
+   */
+  public uint8(n: number) {
+    this.bytes.push(n & 0xFF);
+  }
+
+  /**
+   * @param {number} n   The 16-bit value to write
+   */
+  public uint16(n: number) {
+    this.uint8(n >> 8);
+    this.uint8(n);
+  }
+
+  /**
+   * @param {number} n   The 32-bit value to write
+   */
+  public uint32(n: number) {
+    this.uint16(n >>> 16);
+    this.uint16(n);
+  }
+
+  /**
+   * @param {string} tag   The four-character tag to write
+   */
+  public tag(tag: string) {
+    for (let i = 0; i < 4; i++) {
+      this.uint8(tag.charCodeAt(i));
+    }
+  }
+
+  /**
+   * @param {Uint8Array} data   The bytes to write (padded to a multiple of four bytes)
+   */
+  public table(data: Uint8Array) {
+    for (let i = 0; i < data.length; i++) {
+      this.bytes.push(data[i]);
+    }
+    while (this.bytes.length % 4) {
+      this.bytes.push(0);
+    }
+  }
+
+}
+
+/*****************************************************************/
+
+/**
+ * @param {Map<number, number>} cmap   The map from code points to glyphs
+ * @return {Uint8Array}                A cmap table with a format 4 subtable for the BMP
+ *                                       and a format 12 subtable for all the code points
+ */
+export function cmapTable(cmap: Map<number, number>): Uint8Array {
+  //
+  //  The runs of consecutive code points that have consecutive glyphs
+  //
+  const groups: number[][] = [];
+  for (const c of Array.from(cmap.keys()).sort((a, b) => a - b)) {
+    const glyph = cmap.get(c);
+    const group = groups[groups.length - 1];
+    if (group && group[1] === c - 1 && group[2] + c - group[0] === glyph) {
+      group[1] = c;
+    } else {
+      groups.push([c, c, glyph]);
+    }
+  }
+  //
+  //  The format 4 segments (the ones in the BMP, plus the required final segment)
+  //
+  const segments = groups.filter(group => group[0] < 0xFFFF)
+    .map(([start, end, glyph]) => [start, Math.min(end, 0xFFFE), glyph]);
+  segments.push([0xFFFF, 0xFFFF, 0]);
+  const n = segments.length;
+  const log = Math.floor(Math.log(n) / Math.LN2);
+  const format4 = new BinaryWriter();
+  format4.uint16(4);
+  format4.uint16(16 + 8 * n);
+  format4.uint16(0);
+  format4.uint16(2 * n);
+  format4.uint16(2 << log);
+  format4.uint16(log);
+  format4.uint16(2 * n - (2 << log));
+  segments.forEach(segment => format4.uint16(segment[1]));
+  format4.uint16(0);
+  segments.forEach(segment => format4.uint16(segment[0]));
+  segments.forEach(([start, , glyph]) => format4.uint16(start === 0xFFFF ? 1 : glyph - start));
+  segments.forEach(() => format4.uint16(0));
+  //
+  //  The format 12 subtable
+  //
+  const format12 = new BinaryWriter();
+  format12.uint16(12);
+  format12.uint16(0);
+  format12.uint32(16 + 12 * groups.length);
+  format12.uint32(0);
+  format12.uint32(groups.length);
+  groups.forEach(group => group.forEach(value => format12.uint32(value)));
+  //
+  //  The cmap header with the encoding records for both subtables
+  //
+  const cmap4 = 4 + 4 * 8;
+  const cmap12 = cmap4 + format4.length;
+  const table = new BinaryWriter();
+  table.uint16(0);
+  table.uint16(4);
+  for (const [platform, encoding, offset] of [[0, 3, cmap4], [0, 4, cmap12], [3, 1, cmap4], [3, 10, cmap12]]) {
+    table.uint16(platform);
+    table.uint16(encoding);
+    table.uint32(offset);
+  }
+  table.table(format4.data);
+  table.table(format12.data);
+  return table.data;
+}
+
+/**
+ * @param {string} version      The sfnt version tag of the font
+ * @param {TableMap} tables     The font's tables
+ * @return {Uint8Array}         The woff (version 1) file for the font
+ */
+export function woffFile(version: string, tables: TableMap): Uint8Array {
+  const tags = Object.keys(tables).sort();
+  const n = tags.length;
+  //
+  //  The checksums are computed with the head table's checksum adjustment set to 0
+  //
+  const head = new Uint8Array(tables.head);
+  head.set([0, 0, 0, 0], 8);
+  const data = tags.map(tag => (tag === 'head' ? head : tables[tag]));
+  const checksums = data.map(checksum);
+  //
+  //  Set the checksum adjustment so that the whole (uncompressed) font sums to the magic number
+  //
+  const sfnt = new BinaryWriter();
+  const log = Math.floor(Math.log(n) / Math.LN2);
+  sfnt.tag(version);
+  sfnt.uint16(n);
+  sfnt.uint16(16 << log);
+  sfnt.uint16(log);
+  sfnt.uint16(16 * n - (16 << log));
+  let offset = 12 + 16 * n;
+  tags.forEach((tag, i) => {
+    sfnt.tag(tag);
+    sfnt.uint32(checksums[i]);
+    sfnt.uint32(offset);
+    sfnt.uint32(data[i].length);
+    offset += pad4(data[i].length);
+  });
+  const sum = checksums.reduce((total, check) => (total + check) >>> 0, checksum(sfnt.data));
+  const adjustment = (CHECKSUM_MAGIC - sum) >>> 0;
+  head.set([adjustment >>> 24, (adjustment >> 16) & 0xFF, (adjustment >> 8) & 0xFF, adjustment & 0xFF], 8);
+  //
+  //  Compress the tables (when that makes them smaller)
+  //
+  const compressed = data.map(table => {
+    const deflated = new Uint8Array(zlib.deflateSync(table));
+    return (deflated.length < table.length ? deflated : table);
+  });
+  //
+  //  Write the woff header, table directory, and tables
+  //
+  const woff = new BinaryWriter();
+  woff.tag('wOFF');
+  woff.tag(version);
+  woff.uint32(44 + 20 * n + compressed.reduce((size, table) => size + pad4(table.length), 0));
+  woff.uint16(n);
+  woff.uint16(0);
+  woff.uint32(offset);
+  woff.uint16(1);
+  woff.uint16(0);
+  for (let i = 0; i < 5; i++) {
+    woff.uint32(0);
+  }
+  offset = 44 + 20 * n;
+  tags.forEach((tag, i) => {
+    woff.tag(tag);
+    woff.uint32(offset);
+    woff.uint32(compressed[i].length);
+    woff.uint32(data[i].length);
+    woff.uint32(checksums[i]);
+    offset += pad4(compressed[i].length);
+  });
+  compressed.forEach(table => woff.table(table));
+  return woff.data;
+}
@@ -0,0 +1,7 @@
+declare module 'fs' {
+    export function readFileSync(file: string | number, encoding: string): string;
+    export function readFileSync(file: string): Uint8Array;
+    export function writeFileSync(file: string, data: string | Uint8Array): void;
+    export function mkdirSync(dir: string, options: {recursive: boolean}): void;
+    export function existsSync(file: string): boolean;
+}
@@ -0,0 +1,223 @@
+#! /usr/bin/env node
+
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  The command-line tool for generating MathJax font data
+ *                from an OpenType font with a MATH table
+ *
+ *  Use as
+ *
+ *    mathjax-font [options] font-file
+ *
+ *  This writes the character, delimiter, and parameter data to
+ *  common/fonts/<dir>, the SVG paths to svg/fonts/<dir>, and the CSS data
+ *  to chtml/fonts/<dir> in the output directory (the current directory by
+ *  default), along with common/fonts/<dir>.ts, svg/fonts/<dir>.ts, and
+ *  chtml/fonts/<dir>.ts, which define the font package.  The woff font for
+ *  CHTML output is written to chtml/fonts/<dir>-woff, along with a copy of the
+ *  zero-width font from chtml/fonts/tex-woff-v2.  The modules import
+ *  the font-data modules by relative paths, so the output directory should be
+ *  MathJax's ts/output directory (or a copy of its layout).  The font classes
+ *  can be registered with CHTML.fonts.set() and SVG.fonts.set(), or passed as
+ *  the output jax's font option.
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {OpenTypeFont} from '../util/OpenType.js';
+import {FontImporter, ImportOptions} from './FontImporter.js';
+
+declare var require: {(name: string): any, main: any};
+declare var module: any;
+declare var process: {
+  argv: string[],
+  exitCode: number,
+  stdout: {write: (text: string) => void},
+  stderr: {write: (text: string) => void}
+};
+
+/**
+ * The exit codes
+ */
+export const EXIT = {
+  OK: 0,
+  FONT_ERROR: 1,
+  USAGE_ERROR: 2
+};
+
+/**
+ * The usage message
+ */
+const USAGE = [
+  'Usage: mathjax-font [options] font-file',
+  '',
+  'Options:',
+  '  -n, --name NAME       the name used to select the font (default: from the font\'s family name)',
+  '      --id ID           the short id for cache ids and CSS fonts (default: from the name)',
+  '      --dir DIR         the directory name for the generated modules (default: the name in lower case)',
+  '  -d, --outdir DIR      the output directory (default: the current directory)',
+  '  -h, --help            show this message'
+].join('\n');
+
+/**
+ * The zero-width font that the CHTML output needs in every woff directory, and where to find it
+ */
+const ZERO_FONT = 'MathJax_Zero.woff';
+const ZERO_DIR = 'chtml/fonts/tex-woff-v2';
+
+/**
+ * The options that take values, and the names they map to
+ */
+const VALUES: {[name: string]: string} = {
+  '-n': 'name', '--name': 'name',
+  '--id': 'id',
+  '--dir': 'dir',
+  '-d': 'outdir', '--outdir': 'outdir'
+};
+
+/**
+ * The options that are flags
+ */
+const FLAGS: {[name: string]: string} = {
+  '-h': 'help', '--help': 'help'
+};
+
+/**
+ * The error used for problems with the command line
+ */
+export class UsageError extends Error {
+  /* tslint:disable:jsdoc-require */
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, UsageError.prototype);  // so that instanceof works with the ES5 target
+  }
+  /* tslint:enable */
+}
+
+/**
+ * The parsed command line
+ */
+export type FontCommandLine = {
+  options: {[name: string]: string | boolean},    // the options given on the command line
+  file: string                                     // the font file
+};
+
+/**
+ * @param {string[]} args         The command-line arguments (without node and the script name)
+ * @return {FontCommandLine}      The parsed options and the font file
+ */
+export function parseArguments(args: string[]): FontCommandLine {
+  const options: {[name: string]: string | boolean} = {};
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (VALUES.hasOwnProperty(arg)) {
+      if (i + 1 >= args.length) {
+        throw new UsageError('Missing value for ' + arg);
+      }
+      options[VALUES[arg]] = args[++i];
+    } else if (FLAGS.hasOwnProperty(arg)) {
+      options[FLAGS[arg]] = true;
+    } else if (arg.charAt(0) === '-') {
+      throw new UsageError('Unknown option ' + arg);
+    } else {
+      files.push(arg);
+    }
+  }
+  if (files.length > 1) {
+    throw new UsageError('Only one font file can be given');
+  }
+  for (const name of ['name', 'id', 'dir']) {
+    if (options[name] !== undefined && !(options[name] as string).match(/^[a-zA-Z][-a-zA-Z0-9]*$/)) {
+      throw new UsageError('The ' + name + ' must be a letter followed by letters, digits, or hyphens');
+    }
+  }
+  return {options, file: files[0]};
+}
+
+/**
+ * @param {FontCommandLine} command   The parsed command line
+ * @param {OpenTypeFont} font         The font being imported
+ * @return {ImportOptions}            The options for the importer
+ */
+export function importOptions(command: FontCommandLine, font: OpenTypeFont): ImportOptions {
+  const options = command.options as {[name: string]: string};
+  const name = options.name || (font.names[16] || font.names[1] || 'Math').replace(/[^a-zA-Z0-9]/g, '');
+  return {
+    name: name,
+    id: options.id || name.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().slice(0, 8),
+    dir: options.dir || name.toLowerCase()
+  };
+}
+
+/**
+ * Run the command-line tool
+ *
+ * @param {string[]} args     The command-line arguments
+ * @return {number}           The exit code
+ */
+export function main(args: string[]): number {
+  let command: FontCommandLine;
+  try {
+    command = parseArguments(args);
+    if (command.options.help) {
+      process.stdout.write(USAGE + '\n');
+      return EXIT.OK;
+    }
+    if (!command.file) {
+      throw new UsageError('A font file must be given');
+    }
+  } catch (err) {
+    process.stderr.write(err.message + '\n\n' + USAGE + '\n');
+    return EXIT.USAGE_ERROR;
+  }
+  try {
+    const font = new OpenTypeFont(fs.readFileSync(command.file));
+    const importer = new FontImporter(font, importOptions(command, font));
+    const outdir = (command.options.outdir as string) || '.';
+    const files = importer.files();
+    for (const file of Object.keys(files)) {
+      const name = path.join(outdir, file);
+      fs.mkdirSync(path.dirname(name), {recursive: true});
+      fs.writeFileSync(name, files[file]);
+      process.stdout.write('Wrote ' + name + '\n');
+    }
+    const zero = path.join(outdir, ZERO_DIR, ZERO_FONT);
+    if (fs.existsSync(zero)) {
+      const name = path.join(outdir, importer.woffDir, ZERO_FONT);
+      fs.writeFileSync(name, fs.readFileSync(zero));
+      process.stdout.write('Wrote ' + name + '\n');
+    } else {
+      importer.warnings.push('Can\'t find ' + zero + '; copy it to ' + path.join(outdir, importer.woffDir));
+    }
+    for (const warning of importer.warnings) {
+      process.stderr.write('Warning: ' + warning + '\n');
+    }
+  } catch (err) {
+    process.stderr.write(command.file + ': ' + err.message + '\n');
+    return EXIT.FONT_ERROR;
+  }
+  return EXIT.OK;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,320 @@
+#! /usr/bin/env node
+
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  The command-line tool for converting expressions and files
+ *
+ *  Use as
+ *
+ *    mathjax [options] -e expression
+ *    mathjax [options] file ...
+ *
+ *  where the files can be HTML or text (e.g., Markdown), and "-" means standard input.
+ *  The exit code is 0 on success, 1 if any expression had an error, and 2 for
+ *  problems with the options or files.
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {Converter, FileType, INPUTS, OUTPUTS} from './Converter.js';
+import {FontMetrics} from '../adaptors/lite/FontMetrics.js';
+import {OptionList} from '../util/Options.js';
+
+declare var require: {(name: string): any, main: any};
+declare var module: any;
+declare var process: {
+  argv: string[],
+  exitCode: number,
+  stdout: {write: (text: string) => void},
+  stderr: {write: (text: string) => void}
+};
+
+/**
+ * The exit codes
+ */
+export const EXIT = {
+  OK: 0,
+  MATH_ERROR: 1,
+  USAGE_ERROR: 2
+};
+
+/**
+ * The usage message
+ */
+const USAGE = [
+  'Usage: mathjax [options] -e expression',
+  '       mathjax [options] file ...',
+  '',
+  'Options:',
+  '  -e, --expr MATH       convert the given expression',
+  '  -i, --input FORMAT    the input format: ' + INPUTS.join(', ') + ' (default: tex)',
+  '  -o, --output FORMAT   the output format: ' + OUTPUTS.join(', ') + ' (default: svg)',
+  '  -t, --type TYPE       the file type: html or text (default: from the file extension)',
+  '  -d, --outdir DIR      write the converted files to DIR rather than standard output',
+  '  -c, --config FILE     a JSON or JavaScript file with options for the input and output jax',
+  '      --inline          typeset the expression as in-line math',
+  '      --em N            the size of an em in pixels (default: 16)',
+  '      --ex N            the size of an ex in pixels (default: 8)',
+  '      --width N         the container width in pixels (default: 80 ex)',
+  '      --css             include the stylesheet with expressions and text files',
+  '      --css-file FILE   write the complete chtml stylesheet to FILE and link to it from the output',
+  '      --css-url URL     the URL used to link to the stylesheet (default: the --css-file name)',
+  '      --text-font FILE  an OpenType or TrueType font used to measure text not in the MathJax fonts',
+  '      --text-paths      draw text not in the MathJax fonts as paths from the --text-font (svg output)',
+  '      --text-font-bold FILE, --text-font-italic FILE, --text-font-bold-italic FILE',
+  '                        the fonts for the other styles of --text-paths (default: synthesized)',
+  '  -h, --help            show this message'
+].join('\n');
+
+/**
+ * The options that take values, and the names they map to
+ */
+const VALUES: {[name: string]: string} = {
+  '-e': 'expr', '--expr': 'expr',
+  '-i': 'input', '--input': 'input',
+  '-o': 'output', '--output': 'output',
+  '-t': 'type', '--type': 'type',
+  '-d': 'outdir', '--outdir': 'outdir',
+  '-c': 'config', '--config': 'config',
+  '--em': 'em', '--ex': 'ex', '--width': 'containerWidth',
+  '--text-font': 'textFont',
+  '--text-font-bold': 'textFontBold', '--text-font-italic': 'textFontItalic',
+  '--text-font-bold-italic': 'textFontBoldItalic',
+  '--css-file': 'cssFile', '--css-url': 'cssURL'
+};
+
+/**
+ * The options that are flags
+ */
+const FLAGS: {[name: string]: string} = {
+  '--inline': 'inline', '--css': 'css', '--text-paths': 'textPaths',
+  '-h': 'help', '--help': 'help'
+};
+
+/**
+ * The options giving the text fonts for the styles other than normal, and the styles they are for
+ */
+const TEXT_STYLES: {[name: string]: string} = {
+  textFontBold: 'bold', textFontItalic: 'italic', textFontBoldItalic: 'bold-italic'
+};
+
+/**
+ * The error used for problems with the command line
+ */
+export class UsageError extends Error {
+  /* tslint:disable:jsdoc-require */
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, UsageError.prototype);  // so that instanceof works with the ES5 target
+  }
+  /* tslint:enable */
+}
+
+/**
+ * The parsed command line
+ */
+export type CommandLine = {
+  options: OptionList,    // the options given on the command line
+  files: string[]         // the files to process
+};
+
+/**
+ * @param {string[]} args     The command-line arguments (without node and the script name)
+ * @return {CommandLine}      The parsed options and the files
+ */
+export function parseArguments(args: string[]): CommandLine {
+  const options: OptionList = {};
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (VALUES.hasOwnProperty(arg)) {
+      if (i + 1 >= args.length) {
+        throw new UsageError('Missing value for ' + arg);
+      }
+      options[VALUES[arg]] = args[++i];
+    } else if (FLAGS.hasOwnProperty(arg)) {
+      options[FLAGS[arg]] = true;
+    } else if (arg.charAt(0) === '-' && arg !== '-') {
+      throw new UsageError('Unknown option ' + arg);
+    } else {
+      files.push(arg);
+    }
+  }
+  for (const name of ['em', 'ex', 'containerWidth']) {
+    if (options.hasOwnProperty(name)) {
+      const value = parseFloat(options[name]);
+      if (isNaN(value) || value <= 0) {
+        throw new UsageError('The value for ' + name + ' must be a positive number');
+      }
+      options[name] = value;
+    }
+  }
+  if (options.type && options.type !== 'html' && options.type !== 'text') {
+    throw new UsageError('The file type must be html or text');
+  }
+  if (options.textPaths && !options.textFont) {
+    throw new UsageError('The --text-paths option requires a --text-font');
+  }
+  for (const name of Object.keys(TEXT_STYLES)) {
+    if (options[name] && !options.textPaths) {
+      throw new UsageError('The --text-font-' + TEXT_STYLES[name] + ' option requires --text-paths');
+    }
+  }
+  if (options.cssURL && !options.cssFile) {
+    throw new UsageError('The --css-url option requires a --css-file');
+  }
+  return {options, files};
+}
+
+/**
+ * @param {string} file    The name of the configuration file
+ * @return {OptionList}    The options that it contains
+ */
+export function readConfig(file: string): OptionList {
+  const name = path.resolve(file);
+  if (file.match(/\.js$/)) {
+    return require(name);
+  }
+  return JSON.parse(fs.readFileSync(name, 'utf8'));
+}
+
+/**
+ * @param {string} file    The name of the file
+ * @return {FileType}      The type of the file, based on its extension
+ */
+export function fileType(file: string): FileType {
+  return (file.match(/\.x?html?$/i) ? 'html' : 'text');
+}
+
+/**
+ * @param {CommandLine} command   The parsed command line
+ * @return {Converter}            The converter for the given options and configuration file
+ */
+export function createConverter(command: CommandLine): Converter {
+  const {options} = command;
+  const config = Object.assign({}, options.config ? readConfig(options.config) : {});
+  for (const name of ['input', 'output', 'em', 'ex', 'containerWidth', 'css']) {
+    if (options.hasOwnProperty(name)) {
+      config[name] = options[name];
+    }
+  }
+  if (options.inline) {
+    config.display = false;
+  }
+  if (options.textFont) {
+    const data = fs.readFileSync(options.textFont);
+    config.textMetrics = new FontMetrics(data);
+    if (options.textPaths) {
+      const files: {[style: string]: Uint8Array} = {normal: data};
+      for (const name of Object.keys(TEXT_STYLES)) {
+        if (options[name]) {
+          files[TEXT_STYLES[name]] = fs.readFileSync(options[name]);
+        }
+      }
+      config.svg = Object.assign({}, config.svg || {}, {unknownFont: files});
+    }
+  }
+  if (options.cssFile) {
+    if ((config.output || Converter.OPTIONS.output) !== 'chtml') {
+      throw new UsageError('The --css-file option requires chtml output');
+    }
+    const url = options.cssURL || options.cssFile;
+    config.chtml = Object.assign({}, config.chtml || {}, {stylesheetURL: url});
+  }
+  return new Converter(config);
+}
+
+/**
+ * Convert the expression or files given on the command line
+ *
+ * @param {CommandLine} command   The parsed command line
+ * @param {Converter} converter   The converter to use
+ * @return {Promise<void>}        A promise that resolves when all the output has been written
+ */
+export function convert(command: CommandLine, converter: Converter): Promise<void> {
+  const {options, files} = command;
+  if (options.cssFile) {
+    fs.writeFileSync(options.cssFile, converter.staticStyles());
+  }
+  if (options.expr !== undefined) {
+    return converter.expression(options.expr).then((result: string) => {
+      process.stdout.write(result + '\n');
+    });
+  }
+  if (options.outdir) {
+    fs.mkdirSync(options.outdir, {recursive: true});
+  }
+  let promise = Promise.resolve();
+  for (const file of files) {
+    promise = promise.then(() => {
+      const text = fs.readFileSync(file === '-' ? 0 : file, 'utf8');
+      const type = (options.type || (file === '-' ? 'text' : fileType(file))) as FileType;
+      return converter.file(text, type);
+    }).then((result: string) => {
+      if (options.outdir && file !== '-') {
+        fs.writeFileSync(path.join(options.outdir, path.basename(file)), result);
+      } else {
+        process.stdout.write(result);
+      }
+    });
+  }
+  return promise;
+}
+
+/**
+ * Run the command-line tool
+ *
+ * @param {string[]} args     The command-line arguments
+ * @return {Promise<number>}  A promise for the exit code
+ */
+export function main(args: string[]): Promise<number> {
+  let command: CommandLine;
+  let converter: Converter;
+  try {
+    command = parseArguments(args);
+    if (command.options.help) {
+      process.stdout.write(USAGE + '\n');
+      return Promise.resolve(EXIT.OK);
+    }
+    if (command.options.expr === undefined && command.files.length === 0) {
+      throw new UsageError('An expression or a file must be given');
+    }
+    converter = createConverter(command);
+  } catch (err) {
+    process.stderr.write(err.message + '\n' + (err instanceof UsageError ? '\n' + USAGE + '\n' : ''));
+    return Promise.resolve(EXIT.USAGE_ERROR);
+  }
+  return convert(command, converter).then(() => {
+    for (const message of converter.errors) {
+      process.stderr.write('Error: ' + message + '\n');
+    }
+    return (converter.errors.length ? EXIT.MATH_ERROR : EXIT.OK);
+  }).catch((err: Error) => {
+    process.stderr.write((err.message || String(err)) + '\n');
+    return EXIT.USAGE_ERROR;
+  });
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code: number) => {
+    process.exitCode = code;
+  });
+}
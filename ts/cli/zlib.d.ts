@@ -0,0 +1,3 @@
+declare module 'zlib' {
+    export function deflateSync(data: Uint8Array): Uint8Array;
+}
@@ -38,6 +38,7 @@ import {PrioritizedList} from '../util/PrioritizedList.js';
 import {OptionList} from '../util/Options.js';
 
 import {TeX} from '../input/tex.js';
+import {SVG} from '../output/svg.js';
 
 
 /**
@@ -68,6 +69,7 @@ export type INPUTJAX = InputJax<any, any, any>;
 export type OUTPUTJAX = OutputJax<any, any, any>;
 export type COMMONJAX = CommonOutputJax<any, any, any, any, any, any, any>;
 export type TEX = TeX<any, any, any>;
+export type SVGJAX = SVG<any, any, any>;
 
 /**
  * A function to extend a handler class
@@ -389,12 +391,22 @@ export namespace Startup {
    *   version of the stylesheet.
    * The getMetricsFor(node, display) method returns the metric data for the given node
    *
+   * For SVG output, input2svgStandalone(math, options?, exportOptions?) and its Promise version
+   *   return the math as a serialized, self-contained SVG document (see output/svg/Standalone.ts).
+   *
    * @param {string} iname     The name of the input jax
    * @param {string} oname     The name of the output jax
    * @param {INPUTJAX} input   The input jax instance
    */
   export function makeOutputMethods(iname: string, oname: string, input: INPUTJAX) {
     const name = iname + '2' + oname;
+    if (oname === 'mml') {
+      //
+      //  The input2mml() methods already produce the MathML (see makeMmlMethods())
+      //
+      MathJax.mmlStylesheet = () => output.styleSheet(document);
+      return;
+    }
     MathJax[name] =
       (math: string, options: OptionList = {}) => {
         options.format = input.name;
@@ -411,6 +423,25 @@ export namespace Startup {
         return (output as COMMONJAX).getMetricsFor(node, display);
       };
     }
+    if (oname === 'svg') {
+      const standalone = (math: string, options: OptionList, node: any, exportOptions: OptionList) => {
+        return (output as SVGJAX).standalone.fromNode(node, {
+          source: math, format: input.name,
+          display: (options.display === undefined ? true : !!options.display),
+          ex: options.ex || 8,
+          ...exportOptions
+        });
+      };
+      MathJax[name + 'Standalone'] =
+        (math: string, options: OptionList = {}, exportOptions: OptionList = {}) => {
+          return standalone(math, options, MathJax[name](math, options), exportOptions);
+        };
+      MathJax[name + 'StandalonePromise'] =
+        (math: string, options: OptionList = {}, exportOptions: OptionList = {}) => {
+          return MathJax[name + 'Promise'](math, options)
+            .then((node: any) => standalone(math, options, node, exportOptions));
+        };
+    }
   }
 
   /**
@@ -0,0 +1,274 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements a cache of compiled and typeset math for MathDocuments
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {MathItem} from './MathItem.js';
+import {MmlNode} from './MmlTree/MmlNode.js';
+import {OutputJax} from './OutputJax.js';
+import {DOMAdaptor} from './DOMAdaptor.js';
+
+/*****************************************************************/
+/**
+ * The hit/miss statistics for a cache
+ */
+export type MathCacheStats = {
+  compileHits: number,     // the number of compiled trees reused from the cache
+  compileMisses: number,   // the number of expressions that had to be compiled
+  typesetHits: number,     // the number of typeset results reused from the cache
+  typesetMisses: number,   // the number of expressions that had to be typeset
+  evictions: number,       // the number of entries dropped to keep within the size limit
+  size: number             // the current number of entries in the cache
+};
+
+/**
+ * The data stored for a cached expression
+ *
+ * @template N  The HTMLElement node class
+ */
+export type MathCacheEntry<N> = {
+  root: MmlNode,                // the compiled internal MathML tree
+  output: {[key: string]: N}    // the typeset output, indexed by the output jax and metrics used
+};
+
+/**
+ * The data stored in a MathItem's inputData about its cache entry
+ */
+export type MathCacheData = {
+  key: string,                  // the cache key for the compiled expression
+  root: MmlNode                 // the root that came from (or was stored in) the cache
+};
+
+/*****************************************************************/
+/**
+ *  Implements a cache of compiled MmlNode trees (and, when the output jax allows it,
+ *  typeset output) keyed by input jax, display flag, and source string, so that
+ *  unchanged expressions don't need to be recompiled or re-typeset when a document
+ *  is reset or cleared and processed again.
+ *
+ *  Cached trees and DOM nodes are copied when they are stored and again when they are
+ *  reused, so later processing of a MathItem can't change the cached versions.
+ *
+ *  Input jax mark expressions that depend on other expressions (e.g., TeX references)
+ *  by setting math.inputData.nocache, and ones that change the input jax's state
+ *  (e.g., TeX macro definitions) by setting math.inputData.stateChange.  Neither is
+ *  cached, and the source of the latter becomes part of the key for any
+ *  expressions that follow them during the same compile pass.
+ *  Output that shouldn't be reused (e.g., a placeholder) is marked by setting
+ *  math.outputData.nocache.
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export class MathCache<N, T, D> {
+
+  /**
+   * The cached expressions, in least-recently-used order
+   */
+  protected entries: Map<string, MathCacheEntry<N>> = new Map();
+
+  /**
+   * The key for the state changes made by expressions so far during this pass
+   */
+  protected state: string = '';
+
+  /**
+   * The hit/miss counts
+   */
+  protected counts = {
+    compileHits: 0,
+    compileMisses: 0,
+    typesetHits: 0,
+    typesetMisses: 0,
+    evictions: 0
+  };
+
+  /**
+   * @param {string} text   The string to hash
+   * @return {string}       A short hash of the string (used to keep the state keys small)
+   */
+  protected static hash(text: string): string {
+    let h = 5381;
+    for (let i = 0; i < text.length; i++) {
+      h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+    }
+    return (h >>> 0).toString(36) + '.' + text.length.toString(36);
+  }
+
+  /**
+   * @param {DOMAdaptor} adaptor   The DOM adaptor to use for copying typeset output
+   * @param {number} max           The maximum number of expressions to cache
+   * @constructor
+   */
+  constructor(public adaptor: DOMAdaptor<N, T, D>, public max: number = 1000) {
+  }
+
+  /**
+   * @return {MathCacheStats}  The current statistics for the cache
+   */
+  public get stats(): MathCacheStats {
+    return Object.assign({size: this.entries.size}, this.counts);
+  }
+
+  /**
+   * Reset the hit/miss counts
+   */
+  public resetStats() {
+    for (const id of Object.keys(this.counts)) {
+      this.counts[id as keyof MathCache<N, T, D>['counts']] = 0;
+    }
+  }
+
+  /**
+   * Remove all cached expressions
+   */
+  public clear() {
+    this.entries.clear();
+    this.state = '';
+  }
+
+  /**
+   * Start a new compile pass (expressions are compiled in document order, so state changes
+   * made by earlier expressions affect the keys of later ones)
+   */
+  public startPass() {
+    this.state = '';
+  }
+
+  /**
+   * @param {MathItem} math   The MathItem whose key is needed
+   * @return {string}         The key for its compiled form
+   */
+  public key(math: MathItem<N, T, D>): string {
+    return [math.inputJax.name, math.display ? 'D' : 'I', this.state, math.math].join('\n');
+  }
+
+  /**
+   * Set the MathItem's root from the cache, if it is there
+   *
+   * @param {MathItem} math   The MathItem to look up
+   * @return {boolean}        True if the compiled tree was found
+   */
+  public getCompiled(math: MathItem<N, T, D>): boolean {
+    const key = this.key(math);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.counts.compileMisses++;
+      return false;
+    }
+    this.touch(key, entry);
+    math.root = entry.root.copy();
+    math.inputData.cache = {key, root: math.root} as MathCacheData;
+    this.counts.compileHits++;
+    return true;
+  }
+
+  /**
+   * Store the MathItem's compiled tree (if it can be cached), or record its state change
+   *
+   * @param {MathItem} math   The MathItem that was compiled
+   * @param {string} key      The key it was compiled under
+   */
+  public saveCompiled(math: MathItem<N, T, D>, key: string) {
+    const data = math.inputData;
+    if (data.stateChange) {
+      this.state = MathCache.hash(this.state + '\n' + math.math);
+    }
+    if (data.nocache || data.stateChange || data.error || !math.root) {
+      return;
+    }
+    this.entries.set(key, {root: math.root.copy(), output: {}});
+    data.cache = {key, root: math.root} as MathCacheData;
+    this.prune();
+  }
+
+  /**
+   * @param {MathItem} math         The MathItem being typeset
+   * @param {OutputJax} outputJax   The output jax doing the typesetting
+   * @return {string}               The key for the typeset output (or null if it can't be cached)
+   */
+  public outputKey(math: MathItem<N, T, D>, outputJax: OutputJax<N, T, D>): string {
+    const data = math.inputData.cache as MathCacheData;
+    if (!data || data.root !== math.root || math.isEscaped || !outputJax.canCacheOutput(math)) {
+      return null;
+    }
+    const {em, ex, containerWidth, lineWidth, scale} = math.metrics;
+    const {mtextFamily, merrorFamily} = math.outputData;
+    return [outputJax.cacheID(), em, ex, containerWidth, lineWidth, scale, mtextFamily, merrorFamily].join('|');
+  }
+
+  /**
+   * Set the MathItem's typeset output from the cache, if it is there
+   *
+   * @param {MathItem} math   The MathItem to look up
+   * @param {string} key      The output key (from outputKey() above)
+   * @return {boolean}        True if the output was found
+   */
+  public getTypeset(math: MathItem<N, T, D>, key: string): boolean {
+    const entry = (key ? this.entries.get((math.inputData.cache as MathCacheData).key) : null);
+    const output = (entry ? entry.output[key] : null);
+    if (!output) {
+      this.counts.typesetMisses++;
+      return false;
+    }
+    math.typesetRoot = this.adaptor.clone(output);
+    this.counts.typesetHits++;
+    return true;
+  }
+
+  /**
+   * Store the MathItem's typeset output, if possible
+   *
+   * @param {MathItem} math   The MathItem that was typeset
+   * @param {string} key      The output key (from outputKey() above)
+   */
+  public saveTypeset(math: MathItem<N, T, D>, key: string) {
+    if (!key || math.outputData.error || math.outputData.nocache || !math.typesetRoot) return;
+    const entry = this.entries.get((math.inputData.cache as MathCacheData).key);
+    if (entry) {
+      entry.output[key] = this.adaptor.clone(math.typesetRoot);
+    }
+  }
+
+  /**
+   * Mark an entry as most recently used
+   *
+   * @param {string} key               The entry's key
+   * @param {MathCacheEntry} entry     The entry itself
+   */
+  protected touch(key: string, entry: MathCacheEntry<N>) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Remove the least recently used entries until the cache is within its size limit
+   */
+  protected prune() {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.max) break;
+      this.entries.delete(key);
+      this.counts.evictions++;
+    }
+  }
+
+}
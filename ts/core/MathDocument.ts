@@ -29,6 +29,7 @@ import {MathItem, AbstractMathItem, STATE} from './MathItem.js';
 import {MmlNode, TextNode} from './MmlTree/MmlNode.js';
 import {MmlFactory} from '../core/MmlTree/MmlFactory.js';
 import {DOMAdaptor} from '../core/DOMAdaptor.js';
+import {MathCache} from './MathCache.js';
 import {BitField, BitFieldClass} from '../util/BitField.js';
 
 import {PrioritizedList} from '../util/PrioritizedList.js';
@@ -315,6 +316,11 @@ export interface MathDocument<N, T, D> {
    */
   mmlFactory: MmlFactory;
 
+  /**
+   * The cache of compiled and typeset expressions (null if caching is not enabled)
+   */
+  cache: MathCache<N, T, D>;
+
   /**
    * @param {string} id      The id of the action to add
    * @param {any[]} action   The RenderAction to take
@@ -539,6 +545,9 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
     MmlFactory: null,          // instance of a MmlFactory for this document
     MathList: DefaultMathList, // constructor for a MathList to use for the document
     MathItem: DefaultMathItem, // constructor for a MathItem to use for the MathList
+    cache: false,              // true to reuse compiled (and when possible, typeset) math
+                               //   for unchanged expressions when the document is re-rendered
+    cacheSize: 1000,           // the maximum number of expressions to keep in the cache
     compileError: (doc: AbstractMathDocument<any, any, any>, math: MathItem<any, any, any>, err: Error) => {
       doc.compileError(math, err);
     },
@@ -603,6 +612,10 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
    */
   public mmlFactory: MmlFactory;
 
+  /**
+   * The cache of compiled and typeset expressions
+   */
+  public cache: MathCache<N, T, D> = null;
 
   /**
    * @param {any} document           The document (HTML string, parsed DOM, etc.) to be processed
@@ -635,6 +648,12 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
     this.mmlFactory = this.options['MmlFactory'] || new MmlFactory();
     this.inputJax.map(jax => jax.setMmlFactory(this.mmlFactory));
     //
+    // Create the cache, if requested
+    //
+    if (this.options['cache']) {
+      this.cache = new MathCache<N, T, D>(adaptor, this.options['cacheSize']);
+    }
+    //
     // Do any initialization that requires adaptors or factories
     //
     this.outputJax.initialize();
@@ -689,7 +708,7 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
   public convert(math: string, options: OptionList = {}) {
     let {format, display, end, ex, em, containerWidth, lineWidth, scale, family} = userOptions({
       format: this.inputJax[0].name, display: true, end: STATE.LAST,
-      em: 16, ex: 8, containerWidth: null, lineWidth: 1000000, scale: 1, family: ''
+      em: 16, ex: 8, containerWidth: null, lineWidth: null, scale: 1, family: ''
     }, options);
     if (containerWidth === null) {
       containerWidth = 80 * ex;
@@ -724,21 +743,10 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
       //
       //  Compile all the math in the list
       //
-      const recompile = [];
-      for (const math of this.math) {
-        this.compileMath(math);
-        if (math.inputData.recompile !== undefined) {
-          recompile.push(math);
-        }
+      if (this.cache) {
+        this.cache.startPass();
       }
-      //
-      //  If any were added to the recompile list,
-      //    compile them again
-      //
-      for (const math of recompile) {
-        const data = math.inputData.recompile;
-        math.state(data.state);
-        math.inputData.recompile = data;
+      for (const math of this.math) {
         this.compileMath(math);
       }
       this.processed.set('compile');
@@ -750,6 +758,12 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
    * @param {MathItem} math   The item to compile
    */
   protected compileMath(math: MathItem<N, T, D>) {
+    const cache = (math.state() < STATE.COMPILED ? this.cache : null);
+    const key = (cache ? cache.key(math) : '');
+    if (cache && cache.getCompiled(math)) {
+      math.state(STATE.COMPILED);
+      return;
+    }
     try {
       math.compile(this);
     } catch (err) {
@@ -759,6 +773,9 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
       this.options['compileError'](this, math, err);
       math.inputData['error'] = err;
     }
+    if (cache) {
+      cache.saveCompiled(math, key);
+    }
   }
 
   /**
@@ -787,21 +804,37 @@ export abstract class AbstractMathDocument<N, T, D> implements MathDocument<N, T
   public typeset() {
     if (!this.processed.isSet('typeset')) {
       for (const math of this.math) {
-        try {
-          math.typeset(this);
-        } catch (err) {
-          if (err.retry || err.restart) {
-            throw err;
-          }
-          this.options['typesetError'](this, math, err);
-          math.outputData['error'] = err;
-        }
+        this.typesetMath(math);
       }
       this.processed.set('typeset');
     }
     return this;
   }
 
+  /**
+   * @param {MathItem} math   The item to typeset
+   */
+  protected typesetMath(math: MathItem<N, T, D>) {
+    const cache = (math.state() < STATE.TYPESET ? this.cache : null);
+    const key = (cache ? cache.outputKey(math, this.outputJax) : null);
+    if (cache && cache.getTypeset(math, key)) {
+      math.state(STATE.TYPESET);
+      return;
+    }
+    try {
+      math.typeset(this);
+    } catch (err) {
+      if (err.retry || err.restart) {
+        throw err;
+      }
+      this.options['typesetError'](this, math, err);
+      math.outputData['error'] = err;
+    }
+    if (cache) {
+      cache.saveTypeset(math, key);
+    }
+  }
+
   /**
    * Produce an error using HTML
    *
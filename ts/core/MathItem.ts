@@ -52,7 +52,7 @@ export type Metrics = {
   em: number;
   ex: number;
   containerWidth: number;
-  lineWidth: number;
+  lineWidth: number;        // null means the output jax determines it from the containerWidth
   scale: number;
 };
 
@@ -60,6 +60,8 @@ import {MmlMglyph}      from './MmlNodes/mglyph.js';
 import {MmlSemantics, MmlAnnotation, MmlAnnotationXML} from './MmlNodes/semantics.js';
 
 import {TeXAtom} from './MmlNodes/TeXAtom.js';
+import {CdDiagram} from './MmlNodes/CdDiagram.js';
+import {ChemStructure} from './MmlNodes/ChemStructure.js';
 import {MathChoice} from './MmlNodes/mathchoice.js';
 
 /************************************************************************/
@@ -119,6 +121,8 @@ export let MML: {[kind: string]: MmlNodeClass} = {
 
   [TeXAtom.prototype.kind]: TeXAtom,
   [MathChoice.prototype.kind]: MathChoice,
+  [CdDiagram.prototype.kind]: CdDiagram,
+  [ChemStructure.prototype.kind]: ChemStructure,
 
   [TextNode.prototype.kind]: TextNode,
   [XMLNode.prototype.kind]: XMLNode
@@ -23,6 +23,7 @@
 
 import {MmlVisitor} from './MmlVisitor.js';
 import {MmlNode, TextNode, XMLNode} from './MmlNode.js';
+import {CdDiagram} from './MmlNodes/CdDiagram.js';
 
 /*****************************************************************/
 /**
@@ -79,6 +80,48 @@ export class MathMLVisitor extends MmlVisitor {
     }
   }
 
+  /**
+   * Visit a CdDiagram node, and add it as a semantics element whose first
+   * child is the table of cells, with the arrows in a data-mjx-cd-arrows
+   * attribute and the arrow labels in an annotation-xml element (so the
+   * MathML input jax can reconstruct the diagram).
+   *
+   * @param {MmlNode} node  The CdDiagram to visit
+   * @param {Element} parent  The DOM parent to which the diagram should be added
+   */
+  public visitCdDiagramNode(node: MmlNode, parent: Element) {
+    const [table, ...labels] = node.childNodes;
+    let mml = this.document.createElement('semantics');
+    this.addAttributes(node, mml);
+    mml.setAttribute('data-mjx-cd-arrows', JSON.stringify((node as CdDiagram).arrows));
+    this.visitNode(table, mml);
+    if (labels.length) {
+      const annotation = this.document.createElement('annotation-xml');
+      annotation.setAttribute('encoding', 'MathML-Presentation');
+      for (const label of labels) {
+        this.visitNode(label, annotation);
+      }
+      mml.appendChild(annotation);
+    }
+    parent.appendChild(mml);
+  }
+
+  /**
+   * Visit a ChemStructure node, and add its atoms as an mrow (MathML
+   * has no way to represent the bonds).
+   *
+   * @param {MmlNode} node  The ChemStructure to visit
+   * @param {Element} parent  The DOM parent to which the atoms should be added
+   */
+  public visitChemStructureNode(node: MmlNode, parent: Element) {
+    let mml = this.document.createElement('mrow');
+    this.addAttributes(node, mml);
+    for (const child of node.childNodes) {
+      this.visitNode(child, mml);
+    }
+    parent.appendChild(mml);
+  }
+
   /**
    * The generic visiting function:
    *   Create a DOM node of the correct type.
@@ -25,6 +25,7 @@ import {Attributes, INHERIT} from './Attributes.js';
 import {Property, PropertyList, Node, AbstractNode, AbstractEmptyNode, NodeClass} from '../Tree/Node.js';
 import {MmlFactory} from './MmlFactory.js';
 import {DOMAdaptor} from '../DOMAdaptor.js';
+import {Locale} from '../../util/Locale.js';
 
 /**
  *  Used in setInheritedAttributes() to pass originating node kind as well as property value
@@ -192,6 +193,12 @@ export interface MmlNode extends Node {
    * @param {PropertyList} options  The options controlling the check
    */
   verifyTree(options?: PropertyList): void;
+
+  /**
+   * @return {MmlNode}  A copy of the tree rooted at this node (including its
+   *                    explicit and inherited attributes)
+   */
+  copy(): MmlNode;
 }
 
 
@@ -663,7 +670,8 @@ export abstract class AbstractMmlNode extends AbstractNode implements MmlNode {
       if (arity >= 0 && arity !== Infinity &&
           ((arity === 1 && this.childNodes.length === 0) ||
            (arity !== 1 && this.childNodes.length !== arity))) {
-        this.mError('Wrong number of children for "' + this.kind + '" node', options, true);
+        this.mError(Locale.message('MathML', 'WrongNumberOfChildren',
+                                   'Wrong number of children for "%1" node', this.kind), options, true);
       }
     }
     this.verifyChildren(options);
@@ -687,7 +695,8 @@ export abstract class AbstractMmlNode extends AbstractNode implements MmlNode {
         // FIXME: add ability to check attribute values?
       }
       if (bad.length) {
-        this.mError('Unknown attributes for ' + this.kind + ' node: ' + bad.join(', '), options);
+        this.mError(Locale.message('MathML', 'UnknownAttributes', 'Unknown attributes for %1 node: %2',
+                                   this.kind, bad.join(', ')), options);
       }
     }
   }
@@ -729,6 +738,29 @@ export abstract class AbstractMmlNode extends AbstractNode implements MmlNode {
     return merror;
   }
 
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = this.factory.create(this.kind) as AbstractMmlNode;
+    node.properties = {...this.properties};
+    node.attributes.setList(this.attributes.getAllAttributes());
+    const inherited = this.attributes.getAllInherited();
+    for (const name of Object.keys(inherited)) {
+      node.attributes.setInherited(name, inherited[name]);
+    }
+    if (this.texClass !== null) {
+      node.texClass = this.texClass;
+    }
+    const children = (this.arity < 0 ? this.childNodes[0].childNodes : this.childNodes) as MmlNode[];
+    for (const child of children) {
+      if (child) {
+        node.appendChild(child.copy());
+      }
+    }
+    return node;
+  }
+
 }
 
 /*****************************************************************/
@@ -1103,6 +1135,15 @@ export abstract class AbstractMmlEmptyNode extends AbstractEmptyNode implements
    */
   public mError(_message: string, _options: PropertyList, _short: boolean = false) {}
 
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = this.factory.create(this.kind) as AbstractMmlEmptyNode;
+    node.properties = {...this.properties};
+    return node;
+  }
+
 }
 
 /*****************************************************************/
@@ -1139,6 +1180,14 @@ export class TextNode extends AbstractMmlEmptyNode {
     return this;
   }
 
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as TextNode;
+    return node.setText(this.text);
+  }
+
   /**
    * Just use the text
    */
@@ -1197,6 +1246,14 @@ export class XMLNode extends AbstractMmlEmptyNode {
     return this.adaptor.outerHTML(this.xml);
   }
 
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as XMLNode;
+    return node.setXML(this.adaptor ? this.adaptor.clone(this.xml) : this.xml, this.adaptor);
+  }
+
   /**
    * Just indicate that this is XML data
    */
@@ -0,0 +1,106 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the CdDiagram node (commutative diagrams)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {PropertyList} from '../../Tree/Node.js';
+import {MmlNode, AbstractMmlNode, TEXCLASS} from '../MmlNode.js';
+
+/*****************************************************************/
+/**
+ *  A label for an arrow in a diagram
+ */
+export type CdLabel = {
+  child: number,        // the index of the CdDiagram child that holds the label
+  pos: number,          // the position along the arrow (0 = start, 1 = end)
+  side: string          // 'left', 'right', or 'center' (relative to the arrow direction)
+};
+
+/**
+ *  An arrow between two cells of a diagram
+ */
+export type CdArrow = {
+  from: [number, number],   // the row and column of the starting cell
+  to: [number, number],     // the row and column of the ending cell
+  head: string,             // 'to', 'two heads', or 'none'
+  tail: string,             // 'none', 'to', 'hook', 'hook\'', 'tail', or 'mapsto'
+  line: string,             // 'solid', 'dashed', 'dotted', 'double', or 'none'
+  bend: number,             // the bend angle in degrees (positive bends to the left)
+  shift: number,            // the distance to shift the arrow to its left (in ems)
+  labels: CdLabel[]         // the labels for the arrow
+};
+
+/*****************************************************************/
+/**
+ *  Implements the CdDiagram node class (subclass of AbstractMmlNode)
+ *
+ *  The first child is the mtable that holds the cells of the diagram,
+ *  and the remaining children are the arrow labels.  The arrows
+ *  themselves are drawn by the output jax.
+ */
+
+export class CdDiagram extends AbstractMmlNode {
+
+  /**
+   * @override
+   */
+  public static defaults: PropertyList = {
+    ...AbstractMmlNode.defaults
+  };
+
+  /**
+   * TeX class is ORD
+   */
+  public texClass = TEXCLASS.ORD;
+
+  /**
+   * The arrows to draw between the cells
+   */
+  public arrows: CdArrow[] = [];
+
+  /**
+   * @override
+   */
+  public get kind() {
+    return 'CdDiagram';
+  }
+
+  /**
+   * @override
+   */
+  public setTeXclass(prev: MmlNode) {
+    this.getPrevClass(prev);
+    for (const child of this.childNodes) {
+      child.setTeXclass(null);
+    }
+    return this;
+  }
+
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as CdDiagram;
+    node.arrows = this.arrows.map(arrow => ({...arrow, labels: arrow.labels.map(label => ({...label}))}));
+    return node;
+  }
+
+}
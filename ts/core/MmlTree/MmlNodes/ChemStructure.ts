@@ -0,0 +1,113 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the ChemStructure node (skeletal chemical structures)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {PropertyList} from '../../Tree/Node.js';
+import {MmlNode, AbstractMmlNode, TEXCLASS} from '../MmlNode.js';
+
+/*****************************************************************/
+/**
+ *  A bond between two atoms of a structure
+ */
+export type ChemBond = {
+  from: number,         // the index of the atom where the bond starts
+  to: number,           // the index of the atom where the bond ends
+  angle: number,        // the direction of the bond (in degrees)
+  length: number,       // the distance between the centers of the bonded sub-atoms (in ems)
+  departure: number,    // the sub-atom where the bond starts (-1 for the default one)
+  arrival: number,      // the sub-atom where the bond ends (-1 for the default one)
+  type: string,         // 'single', 'double', 'triple', 'wedge', 'hashed', 'hollow', or 'none'
+  reverse: boolean,     // true if a wedge is wide at its start rather than its end
+  side: number,         // the side for the second line of a double bond (0 = centered, 1 = left, -1 = right)
+  place: boolean        // true if the bond determines the position of the atom at its end
+};
+
+/**
+ *  A ring drawn with a circle inside it
+ */
+export type ChemRing = {
+  atoms: number[]       // the atoms at the vertices of the ring
+};
+
+/*****************************************************************/
+/**
+ *  Implements the ChemStructure node class (subclass of AbstractMmlNode)
+ *
+ *  The children are the atoms of the structure (each an mrow whose
+ *  children are the sub-atoms that bonds can attach to, and which is
+ *  empty for the vertices where there is no atom).  The bonds are
+ *  drawn by the output jax, which also positions the atoms.
+ */
+
+export class ChemStructure extends AbstractMmlNode {
+
+  /**
+   * @override
+   */
+  public static defaults: PropertyList = {
+    ...AbstractMmlNode.defaults
+  };
+
+  /**
+   * TeX class is ORD
+   */
+  public texClass = TEXCLASS.ORD;
+
+  /**
+   * The bonds between the atoms
+   */
+  public bonds: ChemBond[] = [];
+
+  /**
+   * The rings that include circles
+   */
+  public rings: ChemRing[] = [];
+
+  /**
+   * @override
+   */
+  public get kind() {
+    return 'ChemStructure';
+  }
+
+  /**
+   * @override
+   */
+  public setTeXclass(prev: MmlNode) {
+    this.getPrevClass(prev);
+    for (const child of this.childNodes) {
+      child.setTeXclass(null);
+    }
+    return this;
+  }
+
+  /**
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as ChemStructure;
+    node.bonds = this.bonds.map(bond => ({...bond}));
+    node.rings = this.rings.map(ring => ({atoms: ring.atoms.slice()}));
+    return node;
+  }
+
+}
@@ -95,6 +95,24 @@ export class MmlMfenced extends AbstractMmlNode {
     return prev;
   }
 
+  /**
+   * Copy the fake nodes as well
+   *
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as MmlMfenced;
+    const copy = (fake: MmlNode) => {
+      const mo = fake.copy();
+      mo.parent = node;
+      return mo;
+    };
+    node.open = (this.open ? copy(this.open) : null);
+    node.close = (this.close ? copy(this.close) : null);
+    node.separators = this.separators.map(copy);
+    return node;
+  }
+
   /**
    * Create the fake nodes and do their inheritance
    * Then do inheridence of usual children
@@ -24,6 +24,7 @@
 import {PropertyList} from '../../Tree/Node.js';
 import {AbstractMmlNode, AttributeList} from '../MmlNode.js';
 import {MmlMsubsup} from './msubsup.js';
+import {Locale} from '../../../util/Locale.js';
 
 /*****************************************************************/
 /**
@@ -101,17 +102,20 @@ export class MmlMmultiscripts extends MmlMsubsup {
       let child = this.childNodes[i];
       if (child.isKind('mprescripts')) {
         if (prescripts) {
-          child.mError(child.kind + ' can only appear once in ' + this.kind, options, true);
+          child.mError(Locale.message('MathML', 'DuplicatePrescripts', '%1 can only appear once in %2',
+                                      child.kind, this.kind), options, true);
         } else {
           prescripts = true;
           if (i % 2 === 0 && !fix) {
-            this.mError('There must be an equal number of prescripts of each type', options);
+            this.mError(Locale.message('MathML', 'UnequalPrescripts',
+                                       'There must be an equal number of prescripts of each type'), options);
           }
         }
       }
     }
     if (this.childNodes.length % 2 === (prescripts ? 1 : 0) && !fix) {
-      this.mError('There must be an equal number of scripts of each type', options);
+      this.mError(Locale.message('MathML', 'UnequalScripts',
+                                 'There must be an equal number of scripts of each type'), options);
     }
     super.verifyChildren(options);
   }
@@ -154,7 +158,8 @@ export class MmlMprescripts extends AbstractMmlNode {
   public verifyTree(options: PropertyList) {
     super.verifyTree(options);
     if (this.parent && !this.parent.isKind('mmultiscripts')) {
-      this.mError(this.kind + ' must be a child of mmultiscripts', options, true);
+      this.mError(Locale.message('MathML', 'BadScriptsParent', '%1 must be a child of mmultiscripts',
+                                 this.kind), options, true);
     }
   }
 
@@ -196,7 +201,8 @@ export class MmlNone extends AbstractMmlNode {
   public verifyTree(options: PropertyList) {
     super.verifyTree(options);
     if (this.parent && !this.parent.isKind('mmultiscripts')) {
-      this.mError(this.kind + ' must be a child of mmultiscripts', options, true);
+      this.mError(Locale.message('MathML', 'BadScriptsParent', '%1 must be a child of mmultiscripts',
+                                 this.kind), options, true);
     }
   }
 
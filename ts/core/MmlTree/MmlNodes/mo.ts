@@ -125,6 +125,17 @@ export class MmlMo extends AbstractMmlTokenNode {
     return 'mo';
   }
 
+  /**
+   * Copy the explicit TeX class (not the one from the operator table)
+   *
+   * @override
+   */
+  public copy(): MmlNode {
+    const node = super.copy() as MmlMo;
+    node._texClass = this._texClass;
+    return node;
+  }
+
   /**
    * All <mo> are considered embellished
    * @override
@@ -24,6 +24,7 @@
 import {PropertyList} from '../../Tree/Node.js';
 import {MmlNode, AbstractMmlNode, AttributeList, TEXCLASS, indentAttributes} from '../MmlNode.js';
 import {split} from '../../../util/string.js';
+import {Locale} from '../../../util/Locale.js';
 
 /*****************************************************************/
 /**
@@ -137,7 +138,8 @@ export class MmlMtable extends AbstractMmlNode {
     if (!options['fixMtables']) {
       for (const child of this.childNodes) {
         if (!child.isKind('mtr')) {
-          this.mError('Children of ' + this.kind + ' must be mtr or mlabeledtr', options);
+          this.mError(Locale.message('MathML', 'BadMtableChild', 'Children of %1 must be mtr or mlabeledtr',
+                                     this.kind), options);
         }
       }
     }
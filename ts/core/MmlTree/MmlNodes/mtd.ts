@@ -24,6 +24,7 @@
 import {PropertyList} from '../../Tree/Node.js';
 import {AbstractMmlBaseNode, MmlNode} from '../MmlNode.js';
 import {INHERIT} from '../Attributes.js';
+import {Locale} from '../../../util/Locale.js';
 
 /*****************************************************************/
 /**
@@ -74,7 +75,8 @@ export class MmlMtd extends AbstractMmlBaseNode {
    */
   protected verifyChildren(options: PropertyList) {
     if (this.parent && !this.parent.isKind('mtr')) {
-      this.mError(this.kind + ' can only be a child of an mtr or mlabeledtr', options, true);
+      this.mError(Locale.message('MathML', 'BadMtdParent', '%1 can only be a child of an mtr or mlabeledtr',
+                                 this.kind), options, true);
       return;
     }
     super.verifyChildren(options);
@@ -25,6 +25,7 @@ import {PropertyList} from '../../Tree/Node.js';
 import {MmlNode, AbstractMmlNode, AttributeList} from '../MmlNode.js';
 import {INHERIT} from '../Attributes.js';
 import {split} from '../../../util/string.js';
+import {Locale} from '../../../util/Locale.js';
 
 /*****************************************************************/
 /**
@@ -91,14 +92,16 @@ export class MmlMtr extends AbstractMmlNode {
    */
   protected verifyChildren(options: PropertyList) {
     if (this.parent && !this.parent.isKind('mtable')) {
-      this.mError(this.kind + ' can only be a child of an mtable', options, true);
+      this.mError(Locale.message('MathML', 'BadMtrParent', '%1 can only be a child of an mtable',
+                                 this.kind), options, true);
       return;
     }
     if (!options['fixMtables']) {
       for (const child of this.childNodes) {
         if (!child.isKind('mtd')) {
           let mtr = this.replaceChild(this.factory.create('mtr'), child) as MmlNode;
-          mtr.mError('Children of ' + this.kind + ' must be mtd', options, true);
+          mtr.mError(Locale.message('MathML', 'BadMtrChild', 'Children of %1 must be mtd', this.kind),
+                     options, true);
         }
       }
     }
@@ -25,6 +25,7 @@
 import {MmlVisitor} from './MmlVisitor.js';
 import {MmlNode, TextNode, XMLNode, TEXCLASS, TEXCLASSNAMES} from './MmlNode.js';
 import {MmlMi} from './MmlNodes/mi.js';
+import {CdDiagram} from './MmlNodes/CdDiagram.js';
 
 
 export const DATAMJX = 'data-mjx-';
@@ -120,6 +121,47 @@ export class SerializedMmlVisitor extends MmlVisitor {
     return mml;
   }
 
+  /**
+   * Visit a CdDiagram node.  It is turned into a semantics element whose
+   * first child is the table of cells, with the arrows recorded in a
+   * data-mjx-cd-arrows attribute and the arrow labels in an annotation-xml
+   * element, so that the MathML input jax can reconstruct the diagram.
+   *
+   * @param {MmlNode} node  The CdDiagram to visit.
+   * @param {string} space  The amount of indenting for this node.
+   * @return {string}       The serialized diagram.
+   */
+  public visitCdDiagramNode(node: MmlNode, space: string): string {
+    const [table, ...labels] = node.childNodes;
+    const arrows = JSON.stringify((node as CdDiagram).arrows);
+    let mml = space + '<semantics' + this.getAttributes(node)
+      + ' ' + DATAMJX + 'cd-arrows="' + this.quoteHTML(arrows) + '">\n'
+      + this.visitNode(table, space + '  ') + '\n';
+    if (labels.length) {
+      mml += space + '  <annotation-xml encoding="MathML-Presentation">\n';
+      for (const label of labels) {
+        mml += this.visitNode(label, space + '    ') + '\n';
+      }
+      mml += space + '  </annotation-xml>\n';
+    }
+    return mml + space + '</semantics>';
+  }
+
+  /**
+   * Visit a ChemStructure node.  MathML has no way to represent the bonds,
+   * so the atoms are produced as an mrow.
+   *
+   * @param {MmlNode} node  The ChemStructure to visit.
+   * @param {string} space  The amount of indenting for this node.
+   * @return {string}       The serialized atoms of the structure.
+   */
+  public visitChemStructureNode(node: MmlNode, space: string): string {
+    let children = this.childNodeMml(node, space + '  ', '\n');
+    let mml = space + '<mrow' + this.getAttributes(node) + '>' +
+      (children.match(/\S/) ? '\n' + children + space : '') + '</mrow>';
+    return mml;
+  }
+
   /**
    * @param {MmlNode} node    The annotation node to visit
    * @param {string} space    The number of spaces to use for indentation
@@ -104,6 +104,20 @@ export interface OutputJax<N, T, D> {
    * @param {MathDocument} document  The MathDocument being processed
    */
   pageElements(document: MathDocument<N, T, D>): N;
+
+  /**
+   * @param {MathItem} math   The MathItem being typeset
+   * @return {boolean}        True if the typeset output for the item is self-contained,
+   *                            so that a copy of it can be reused for the same expression
+   *                            (e.g., by the document's MathCache)
+   */
+  canCacheOutput(math: MathItem<N, T, D>): boolean;
+
+  /**
+   * @return {string}   A string identifying the output jax and the settings (e.g., the font)
+   *                      that affect its output, for use in the keys for cached output
+   */
+  cacheID(): string;
 }
 
 
@@ -201,6 +215,20 @@ export abstract class AbstractOutputJax<N, T, D> implements OutputJax<N, T, D> {
     return null as N;
   }
 
+  /**
+   * @override
+   */
+  public canCacheOutput(_math: MathItem<N, T, D>) {
+    return false;
+  }
+
+  /**
+   * @override
+   */
+  public cacheID() {
+    return this.name;
+  }
+
   /**
    * Execute a set of filters, passing them the MathItem and any needed data,
    *  and return the (possibly modified) data
@@ -109,6 +109,11 @@ export interface Node {
    * @param {any} data       Data to pass to the function (as state information)
    */
   walkTree(func: (node: Node, data?: any) => void, data?: any): void;
+
+  /**
+   * @return {Node}  A copy of the tree rooted at this node
+   */
+  copy(): Node;
 }
 
 /*********************************************************/
@@ -300,6 +305,20 @@ export abstract class AbstractNode implements Node {
     return data;
   }
 
+  /**
+   * @override
+   */
+  public copy(): Node {
+    const node = this.factory.create(this.kind) as AbstractNode;
+    node.properties = {...this.properties};
+    for (const child of this.childNodes) {
+      if (child) {
+        node.appendChild(child.copy());
+      }
+    }
+    return node;
+  }
+
   /**
    * Simple string version for debugging, just to get the structure.
    */
@@ -230,7 +230,7 @@ export class HTMLDocument<N, T, D> extends AbstractMathDocument<N, T, D> {
    */
   protected findSheet(head: N, id: string) {
     if (id) {
-      for (const sheet of this.adaptor.tags(head, 'style')) {
+      for (const sheet of [...this.adaptor.tags(head, 'style'), ...this.adaptor.tags(head, 'link')]) {
         if (this.adaptor.getAttribute(sheet, 'id') === id) {
           return sheet;
         }
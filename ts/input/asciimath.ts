@@ -22,12 +22,17 @@
  */
 
 import {AbstractInputJax} from '../core/InputJax.js';
-import {LegacyAsciiMath} from './asciimath/mathjax2/input/AsciiMath.js';
-import {separateOptions, OptionList} from '../util/Options.js';
+import {separateOptions, OptionList, expandable} from '../util/Options.js';
 import {MathDocument} from '../core/MathDocument.js';
 import {MathItem} from '../core/MathItem.js';
+import {MmlNode, TextNode} from '../core/MmlTree/MmlNode.js';
+import {MmlFactory} from '../core/MmlTree/MmlFactory.js';
 
 import {FindAsciiMath} from './asciimath/FindAsciiMath.js';
+import {AsciiMathParser} from './asciimath/AsciiMathParser.js';
+import {SymbolTable, AsciiMathSymbol} from './asciimath/SymbolTable.js';
+import AsciiMathError from './asciimath/AsciiMathError.js';
+import './asciimath/AsciiMathMappings.js';
 
 /*****************************************************************/
 /**
@@ -49,7 +54,14 @@ export class AsciiMath<N, T, D> extends AbstractInputJax<N, T, D> {
    */
   public static OPTIONS: OptionList = {
     ...AbstractInputJax.OPTIONS,
-    FindAsciiMath: null
+    FindAsciiMath: null,
+    tables: ['asciimath-base'],    // the names of the symbol tables to use
+    symbols: [],                   // additional symbols to define (AsciiMathSymbol objects)
+    define: expandable({}),        // definitions of strings to be replaced by other strings
+    fixphi: true,                  // true to use the standard phi, false to swap phi and varphi
+    displaystyle: true,            // true to use display style for all expressions
+    decimalsign: '.',              // the character used as the decimal separator
+    formatError: (jax: AsciiMath<any, any, any>, err: AsciiMathError) => jax.formatError(err)
   };
 
   /**
@@ -57,6 +69,22 @@ export class AsciiMath<N, T, D> extends AbstractInputJax<N, T, D> {
    */
   protected findAsciiMath: FindAsciiMath<N, T, D>;
 
+  /**
+   * The symbols defined for this input jax (via the symbols and define options,
+   *   or the newSymbol() and define() methods)
+   */
+  protected symbols: SymbolTable;
+
+  /**
+   * The parser used to convert AsciiMath strings to MathML
+   */
+  protected parser: AsciiMathParser;
+
+  /**
+   * The AsciiMath string being processed
+   */
+  protected asciimath: string;
+
   /**
    * @override
    */
@@ -64,15 +92,72 @@ export class AsciiMath<N, T, D> extends AbstractInputJax<N, T, D> {
     let [ , find, am] = separateOptions(options, FindAsciiMath.OPTIONS, AsciiMath.OPTIONS);
     super(am);
     this.findAsciiMath = this.options['FindAsciiMath'] || new FindAsciiMath(find);
+    this.symbols = new SymbolTable('', this.options.symbols);
+    for (const name of Object.keys(this.options.define)) {
+      this.define(name, this.options.define[name]);
+    }
+    if (!this.options.fixphi) {
+      const base = SymbolTable.get('asciimath-base');
+      this.symbols.add({...base.get('phi'), output: base.get('varphi').output});
+      this.symbols.add({...base.get('varphi'), output: base.get('phi').output});
+    }
+    const tables = this.options.tables.map((name: string) => {
+      const table = SymbolTable.get(name);
+      if (!table) {
+        throw Error(`Unknown AsciiMath symbol table "${name}"`);
+      }
+      return table;
+    });
+    this.parser = new AsciiMathParser(this.options, [this.symbols, ...tables]);
+  }
+
+  /**
+   * @override
+   */
+  public setMmlFactory(mmlFactory: MmlFactory) {
+    super.setMmlFactory(mmlFactory);
+    this.parser.factory = mmlFactory;
   }
 
   /**
-   * Use legacy AsciiMath input jax for now
+   * Define a string that is replaced by another string before parsing
    *
+   * @param {string} name          The string to replace
+   * @param {string} replacement   Its replacement
+   */
+  public define(name: string, replacement: string) {
+    this.symbols.define(name, replacement);
+  }
+
+  /**
+   * Add a new symbol (or override an existing one)
+   *
+   * @param {AsciiMathSymbol} symbol   The data for the symbol
+   */
+  public newSymbol(symbol: AsciiMathSymbol) {
+    this.symbols.add(symbol);
+  }
+
+  /**
    * @override
    */
-  public compile(math: MathItem<N, T, D>, _document: MathDocument<N, T, D>) {
-    return LegacyAsciiMath.Compile(math.math, math.display);
+  public compile(math: MathItem<N, T, D>, document: MathDocument<N, T, D>): MmlNode {
+    const parser = this.parser;
+    this.executeFilters(this.preFilters, math, document, parser);
+    const display = math.display;
+    this.asciimath = math.math;
+    try {
+      parser.root = parser.parse(this.asciimath, display);
+    } catch (err) {
+      if (!(err instanceof AsciiMathError)) {
+        throw err;
+      }
+      const error = this.options.formatError(this, err);
+      parser.root = this.mmlFactory.create('math', display ? {display: 'block'} : {}, [error]);
+    }
+    parser.root.setInheritedAttributes({}, display, 0, false);
+    this.executeFilters(this.postFilters, math, document, parser);
+    return parser.root;
   }
 
   /**
@@ -82,4 +167,18 @@ export class AsciiMath<N, T, D> extends AbstractInputJax<N, T, D> {
     return this.findAsciiMath.findMath(strings);
   }
 
+  /**
+   * Default formatter for error messages:
+   *   wrap an error into a node for output.
+   *
+   * @param {AsciiMathError} err   The AsciiMathError.
+   * @return {MmlNode}             The merror node displaying the error.
+   */
+  public formatError(err: AsciiMathError): MmlNode {
+    const factory = this.mmlFactory;
+    const mtext = factory.create('mtext');
+    mtext.appendChild((factory.create('text') as TextNode).setText(err.message));
+    return factory.create('merror', {'data-mjx-error': err.message}, [mtext]);
+  }
+
 }
@@ -0,0 +1,43 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Error class for the AsciiMath parser.
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {Locale} from '../../util/Locale.js';
+
+export default class AsciiMathError {
+
+  /**
+   * The error message (localized, with substitutions performed)
+   */
+  public message: string;
+
+  /**
+   * @param {string} id         message id (for localization)
+   * @param {string} message    text of English message
+   * @param {string[]=} rest    any substitution arguments
+   * @constructor
+   */
+  constructor(public id: string, message: string, ...rest: string[]) {
+    this.message = Locale.message('AsciiMath', id, message, ...rest);
+  }
+
+}
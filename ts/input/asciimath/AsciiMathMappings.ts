@@ -0,0 +1,302 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  The base symbol table for the AsciiMath input jax
+ *                (taken from ASCIIMathML.js, (c) Peter Jipsen, used with permission)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SymbolTable, TOKEN} from './SymbolTable.js';
+
+const {CONST, UNARY, BINARY, INFIX, LEFTBRACKET, RIGHTBRACKET, SPACE,
+       UNDEROVER, DEFINITION, LEFTRIGHT, TEXT, UNARYUNDEROVER} = TOKEN;
+
+/**
+ * The standard AsciiMath symbols
+ */
+new SymbolTable('asciimath-base', [
+  //
+  //  Some greek symbols
+  //
+  {input: 'alpha', tag: 'mi', output: '\u03B1', ttype: CONST},
+  {input: 'beta', tag: 'mi', output: '\u03B2', ttype: CONST},
+  {input: 'chi', tag: 'mi', output: '\u03C7', ttype: CONST},
+  {input: 'delta', tag: 'mi', output: '\u03B4', ttype: CONST},
+  {input: 'Delta', tag: 'mo', output: '\u0394', ttype: CONST},
+  {input: 'epsi', tag: 'mi', output: '\u03B5', ttype: CONST, tex: 'epsilon'},
+  {input: 'varepsilon', tag: 'mi', output: '\u025B', ttype: CONST},
+  {input: 'eta', tag: 'mi', output: '\u03B7', ttype: CONST},
+  {input: 'gamma', tag: 'mi', output: '\u03B3', ttype: CONST},
+  {input: 'Gamma', tag: 'mo', output: '\u0393', ttype: CONST},
+  {input: 'iota', tag: 'mi', output: '\u03B9', ttype: CONST},
+  {input: 'kappa', tag: 'mi', output: '\u03BA', ttype: CONST},
+  {input: 'lambda', tag: 'mi', output: '\u03BB', ttype: CONST},
+  {input: 'Lambda', tag: 'mo', output: '\u039B', ttype: CONST},
+  {input: 'lamda', tag: 'mi', output: '\u03BB', ttype: CONST},
+  {input: 'Lamda', tag: 'mo', output: '\u039B', ttype: CONST},
+  {input: 'mu', tag: 'mi', output: '\u03BC', ttype: CONST},
+  {input: 'nu', tag: 'mi', output: '\u03BD', ttype: CONST},
+  {input: 'omega', tag: 'mi', output: '\u03C9', ttype: CONST},
+  {input: 'Omega', tag: 'mo', output: '\u03A9', ttype: CONST},
+  {input: 'phi', tag: 'mi', output: '\u03D5', ttype: CONST},
+  {input: 'varphi', tag: 'mi', output: '\u03C6', ttype: CONST},
+  {input: 'Phi', tag: 'mo', output: '\u03A6', ttype: CONST},
+  {input: 'pi', tag: 'mi', output: '\u03C0', ttype: CONST},
+  {input: 'Pi', tag: 'mo', output: '\u03A0', ttype: CONST},
+  {input: 'psi', tag: 'mi', output: '\u03C8', ttype: CONST},
+  {input: 'Psi', tag: 'mi', output: '\u03A8', ttype: CONST},
+  {input: 'rho', tag: 'mi', output: '\u03C1', ttype: CONST},
+  {input: 'sigma', tag: 'mi', output: '\u03C3', ttype: CONST},
+  {input: 'Sigma', tag: 'mo', output: '\u03A3', ttype: CONST},
+  {input: 'tau', tag: 'mi', output: '\u03C4', ttype: CONST},
+  {input: 'theta', tag: 'mi', output: '\u03B8', ttype: CONST},
+  {input: 'vartheta', tag: 'mi', output: '\u03D1', ttype: CONST},
+  {input: 'Theta', tag: 'mo', output: '\u0398', ttype: CONST},
+  {input: 'upsilon', tag: 'mi', output: '\u03C5', ttype: CONST},
+  {input: 'xi', tag: 'mi', output: '\u03BE', ttype: CONST},
+  {input: 'Xi', tag: 'mo', output: '\u039E', ttype: CONST},
+  {input: 'zeta', tag: 'mi', output: '\u03B6', ttype: CONST},
+
+  //
+  //  Binary operation symbols
+  //
+
+  {input: '*', tag: 'mo', output: '\u22C5', ttype: CONST, tex: 'cdot'},
+  {input: '**', tag: 'mo', output: '\u2217', ttype: CONST, tex: 'ast'},
+  {input: '***', tag: 'mo', output: '\u22C6', ttype: CONST, tex: 'star'},
+  {input: '//', tag: 'mo', output: '/', ttype: CONST},
+  {input: '\\\\', tag: 'mo', output: '\\', ttype: CONST, tex: 'backslash'},
+  {input: 'setminus', tag: 'mo', output: '\\', ttype: CONST},
+  {input: 'xx', tag: 'mo', output: '\u00D7', ttype: CONST, tex: 'times'},
+  {input: '|><', tag: 'mo', output: '\u22C9', ttype: CONST, tex: 'ltimes'},
+  {input: '><|', tag: 'mo', output: '\u22CA', ttype: CONST, tex: 'rtimes'},
+  {input: '|><|', tag: 'mo', output: '\u22C8', ttype: CONST, tex: 'bowtie'},
+  {input: '-:', tag: 'mo', output: '\u00F7', ttype: CONST, tex: 'div'},
+  {input: 'divide', tag: 'mo', output: '-:', ttype: DEFINITION},
+  {input: '@', tag: 'mo', output: '\u2218', ttype: CONST, tex: 'circ'},
+  {input: 'o+', tag: 'mo', output: '\u2295', ttype: CONST, tex: 'oplus'},
+  {input: 'ox', tag: 'mo', output: '\u2297', ttype: CONST, tex: 'otimes'},
+  {input: 'o.', tag: 'mo', output: '\u2299', ttype: CONST, tex: 'odot'},
+  {input: 'sum', tag: 'mo', output: '\u2211', ttype: UNDEROVER},
+  {input: 'prod', tag: 'mo', output: '\u220F', ttype: UNDEROVER},
+  {input: '^^', tag: 'mo', output: '\u2227', ttype: CONST, tex: 'wedge'},
+  {input: '^^^', tag: 'mo', output: '\u22C0', ttype: UNDEROVER, tex: 'bigwedge'},
+  {input: 'vv', tag: 'mo', output: '\u2228', ttype: CONST, tex: 'vee'},
+  {input: 'vvv', tag: 'mo', output: '\u22C1', ttype: UNDEROVER, tex: 'bigvee'},
+  {input: 'nn', tag: 'mo', output: '\u2229', ttype: CONST, tex: 'cap'},
+  {input: 'nnn', tag: 'mo', output: '\u22C2', ttype: UNDEROVER, tex: 'bigcap'},
+  {input: 'uu', tag: 'mo', output: '\u222A', ttype: CONST, tex: 'cup'},
+  {input: 'uuu', tag: 'mo', output: '\u22C3', ttype: UNDEROVER, tex: 'bigcup'},
+
+  //
+  //  Binary relation symbols
+  //
+  {input: '!=', tag: 'mo', output: '\u2260', ttype: CONST, tex: 'ne'},
+  {input: ':=', tag: 'mo', output: ':=', ttype: CONST},
+  {input: 'lt', tag: 'mo', output: '<', ttype: CONST},
+  {input: '<=', tag: 'mo', output: '\u2264', ttype: CONST, tex: 'le'},
+  {input: 'lt=', tag: 'mo', output: '\u2264', ttype: CONST, tex: 'leq'},
+  {input: 'gt', tag: 'mo', output: '>', ttype: CONST},
+  {input: '>=', tag: 'mo', output: '\u2265', ttype: CONST, tex: 'ge'},
+  {input: 'gt=', tag: 'mo', output: '\u2265', ttype: CONST, tex: 'geq'},
+  {input: '-<', tag: 'mo', output: '\u227A', ttype: CONST, tex: 'prec'},
+  {input: '-lt', tag: 'mo', output: '\u227A', ttype: CONST},
+  {input: '>-', tag: 'mo', output: '\u227B', ttype: CONST, tex: 'succ'},
+  {input: '-<=', tag: 'mo', output: '\u2AAF', ttype: CONST, tex: 'preceq'},
+  {input: '>-=', tag: 'mo', output: '\u2AB0', ttype: CONST, tex: 'succeq'},
+  {input: 'in', tag: 'mo', output: '\u2208', ttype: CONST},
+  {input: '!in', tag: 'mo', output: '\u2209', ttype: CONST, tex: 'notin'},
+  {input: 'sub', tag: 'mo', output: '\u2282', ttype: CONST, tex: 'subset'},
+  {input: 'sup', tag: 'mo', output: '\u2283', ttype: CONST, tex: 'supset'},
+  {input: 'sube', tag: 'mo', output: '\u2286', ttype: CONST, tex: 'subseteq'},
+  {input: 'supe', tag: 'mo', output: '\u2287', ttype: CONST, tex: 'supseteq'},
+  {input: '-=', tag: 'mo', output: '\u2261', ttype: CONST, tex: 'equiv'},
+  {input: '~=', tag: 'mo', output: '\u2245', ttype: CONST, tex: 'cong'},
+  {input: '~~', tag: 'mo', output: '\u2248', ttype: CONST, tex: 'approx'},
+  {input: 'prop', tag: 'mo', output: '\u221D', ttype: CONST, tex: 'propto'},
+
+  //
+  //  Logical symbols
+  //
+  {input: 'and', tag: 'mtext', output: 'and', ttype: SPACE},
+  {input: 'or', tag: 'mtext', output: 'or', ttype: SPACE},
+  {input: 'not', tag: 'mo', output: '\u00AC', ttype: CONST, tex: 'neg'},
+  {input: '=>', tag: 'mo', output: '\u21D2', ttype: CONST, tex: 'implies'},
+  {input: 'if', tag: 'mo', output: 'if', ttype: SPACE},
+  {input: '<=>', tag: 'mo', output: '\u21D4', ttype: CONST, tex: 'iff'},
+  {input: 'AA', tag: 'mo', output: '\u2200', ttype: CONST, tex: 'forall'},
+  {input: 'EE', tag: 'mo', output: '\u2203', ttype: CONST, tex: 'exists'},
+  {input: '_|_', tag: 'mo', output: '\u22A5', ttype: CONST, tex: 'bot'},
+  {input: 'TT', tag: 'mo', output: '\u22A4', ttype: CONST, tex: 'top'},
+  {input: '|--', tag: 'mo', output: '\u22A2', ttype: CONST, tex: 'vdash'},
+  {input: '|==', tag: 'mo', output: '\u22A8', ttype: CONST, tex: 'models'},
+
+  //
+  //  Grouping brackets
+  //
+  {input: '(', tag: 'mo', output: '(', ttype: LEFTBRACKET},
+  {input: ')', tag: 'mo', output: ')', ttype: RIGHTBRACKET},
+  {input: '[', tag: 'mo', output: '[', ttype: LEFTBRACKET},
+  {input: ']', tag: 'mo', output: ']', ttype: RIGHTBRACKET},
+  {input: '{', tag: 'mo', output: '{', ttype: LEFTBRACKET},
+  {input: '}', tag: 'mo', output: '}', ttype: RIGHTBRACKET},
+  {input: '|', tag: 'mo', output: '|', ttype: LEFTRIGHT},
+
+  {input: '(:', tag: 'mo', output: '\u2329', ttype: LEFTBRACKET, tex: 'langle'},
+  {input: ':)', tag: 'mo', output: '\u232A', ttype: RIGHTBRACKET, tex: 'rangle'},
+  {input: '<<', tag: 'mo', output: '\u2329', ttype: LEFTBRACKET},
+  {input: '>>', tag: 'mo', output: '\u232A', ttype: RIGHTBRACKET},
+  {input: '{:', tag: 'mo', output: '{:', ttype: LEFTBRACKET, invisible: true},
+  {input: ':}', tag: 'mo', output: ':}', ttype: RIGHTBRACKET, invisible: true},
+
+  //
+  //  Miscellaneous symbols
+  //
+  {input: 'int', tag: 'mo', output: '\u222B', ttype: CONST},
+  {input: 'dx', tag: 'mi', output: '{:d x:}', ttype: DEFINITION},
+  {input: 'dy', tag: 'mi', output: '{:d y:}', ttype: DEFINITION},
+  {input: 'dz', tag: 'mi', output: '{:d z:}', ttype: DEFINITION},
+  {input: 'dt', tag: 'mi', output: '{:d t:}', ttype: DEFINITION},
+  {input: 'oint', tag: 'mo', output: '\u222E', ttype: CONST},
+  {input: 'del', tag: 'mo', output: '\u2202', ttype: CONST, tex: 'partial'},
+  {input: 'grad', tag: 'mo', output: '\u2207', ttype: CONST, tex: 'nabla'},
+  {input: '+-', tag: 'mo', output: '\u00B1', ttype: CONST, tex: 'pm'},
+  {input: 'O/', tag: 'mo', output: '\u2205', ttype: CONST, tex: 'emptyset'},
+  {input: 'oo', tag: 'mo', output: '\u221E', ttype: CONST, tex: 'infty'},
+  {input: 'aleph', tag: 'mo', output: '\u2135', ttype: CONST},
+  {input: '...', tag: 'mo', output: '...', ttype: CONST, tex: 'ldots'},
+  {input: ':.', tag: 'mo', output: '\u2234', ttype: CONST, tex: 'therefore'},
+  {input: ':\'', tag: 'mo', output: '\u2235', ttype: CONST, tex: 'because'},
+  {input: '/_', tag: 'mo', output: '\u2220', ttype: CONST, tex: 'angle'},
+  {input: '/_\\', tag: 'mo', output: '\u25B3', ttype: CONST, tex: 'triangle'},
+  {input: '\'', tag: 'mo', output: '\u2032', ttype: CONST, tex: 'prime'},
+  {input: 'tilde', tag: 'mover', output: '~', ttype: UNARY, acc: true},
+  {input: '\\ ', tag: 'mo', output: '\u00A0', ttype: CONST},
+  {input: 'frown', tag: 'mo', output: '\u2322', ttype: CONST},
+  {input: 'quad', tag: 'mo', output: '\u00A0\u00A0', ttype: CONST},
+  {input: 'qquad', tag: 'mo', output: '\u00A0\u00A0\u00A0\u00A0', ttype: CONST},
+  {input: 'cdots', tag: 'mo', output: '\u22EF', ttype: CONST},
+  {input: 'vdots', tag: 'mo', output: '\u22EE', ttype: CONST},
+  {input: 'ddots', tag: 'mo', output: '\u22F1', ttype: CONST},
+  {input: 'diamond', tag: 'mo', output: '\u22C4', ttype: CONST},
+  {input: 'square', tag: 'mo', output: '\u25A1', ttype: CONST},
+  {input: '|__', tag: 'mo', output: '\u230A', ttype: CONST, tex: 'lfloor'},
+  {input: '__|', tag: 'mo', output: '\u230B', ttype: CONST, tex: 'rfloor'},
+  {input: '|~', tag: 'mo', output: '\u2308', ttype: CONST, tex: 'lceiling'},
+  {input: '~|', tag: 'mo', output: '\u2309', ttype: CONST, tex: 'rceiling'},
+  {input: 'CC', tag: 'mo', output: '\u2102', ttype: CONST},
+  {input: 'NN', tag: 'mo', output: '\u2115', ttype: CONST},
+  {input: 'QQ', tag: 'mo', output: '\u211A', ttype: CONST},
+  {input: 'RR', tag: 'mo', output: '\u211D', ttype: CONST},
+  {input: 'ZZ', tag: 'mo', output: '\u2124', ttype: CONST},
+  {input: 'f', tag: 'mi', output: 'f', ttype: UNARY, func: true},
+  {input: 'g', tag: 'mi', output: 'g', ttype: UNARY, func: true},
+
+  //
+  //  Standard functions
+  //
+  {input: 'lim', tag: 'mo', output: 'lim', ttype: UNDEROVER},
+  {input: 'Lim', tag: 'mo', output: 'Lim', ttype: UNDEROVER},
+  {input: 'sin', tag: 'mi', output: 'sin', ttype: UNARY, func: true},
+  {input: 'cos', tag: 'mi', output: 'cos', ttype: UNARY, func: true},
+  {input: 'tan', tag: 'mi', output: 'tan', ttype: UNARY, func: true},
+  {input: 'sinh', tag: 'mi', output: 'sinh', ttype: UNARY, func: true},
+  {input: 'cosh', tag: 'mi', output: 'cosh', ttype: UNARY, func: true},
+  {input: 'tanh', tag: 'mi', output: 'tanh', ttype: UNARY, func: true},
+  {input: 'cot', tag: 'mi', output: 'cot', ttype: UNARY, func: true},
+  {input: 'sec', tag: 'mi', output: 'sec', ttype: UNARY, func: true},
+  {input: 'csc', tag: 'mi', output: 'csc', ttype: UNARY, func: true},
+  {input: 'arcsin', tag: 'mi', output: 'arcsin', ttype: UNARY, func: true},
+  {input: 'arccos', tag: 'mi', output: 'arccos', ttype: UNARY, func: true},
+  {input: 'arctan', tag: 'mi', output: 'arctan', ttype: UNARY, func: true},
+  {input: 'coth', tag: 'mi', output: 'coth', ttype: UNARY, func: true},
+  {input: 'sech', tag: 'mi', output: 'sech', ttype: UNARY, func: true},
+  {input: 'csch', tag: 'mi', output: 'csch', ttype: UNARY, func: true},
+  {input: 'exp', tag: 'mi', output: 'exp', ttype: UNARY, func: true},
+  {input: 'abs', tag: 'mo', output: 'abs', ttype: UNARY, rewriteleftright: ['|', '|']},
+  {input: 'norm', tag: 'mo', output: 'norm', ttype: UNARY, rewriteleftright: ['\u2225', '\u2225']},
+  {input: 'floor', tag: 'mo', output: 'floor', ttype: UNARY, rewriteleftright: ['\u230A', '\u230B']},
+  {input: 'ceil', tag: 'mo', output: 'ceil', ttype: UNARY, rewriteleftright: ['\u2308', '\u2309']},
+  {input: 'log', tag: 'mi', output: 'log', ttype: UNARY, func: true},
+  {input: 'ln', tag: 'mi', output: 'ln', ttype: UNARY, func: true},
+  {input: 'det', tag: 'mi', output: 'det', ttype: UNARY, func: true},
+  {input: 'dim', tag: 'mo', output: 'dim', ttype: CONST},
+  {input: 'mod', tag: 'mo', output: 'mod', ttype: CONST},
+  {input: 'gcd', tag: 'mi', output: 'gcd', ttype: UNARY, func: true},
+  {input: 'lcm', tag: 'mi', output: 'lcm', ttype: UNARY, func: true},
+  {input: 'lub', tag: 'mo', output: 'lub', ttype: CONST},
+  {input: 'glb', tag: 'mo', output: 'glb', ttype: CONST},
+  {input: 'min', tag: 'mo', output: 'min', ttype: UNDEROVER},
+  {input: 'max', tag: 'mo', output: 'max', ttype: UNDEROVER},
+
+  //
+  //  Arrows
+  //
+  {input: 'uarr', tag: 'mo', output: '\u2191', ttype: CONST, tex: 'uparrow'},
+  {input: 'darr', tag: 'mo', output: '\u2193', ttype: CONST, tex: 'downarrow'},
+  {input: 'rarr', tag: 'mo', output: '\u2192', ttype: CONST, tex: 'rightarrow'},
+  {input: '->', tag: 'mo', output: '\u2192', ttype: CONST, tex: 'to'},
+  {input: '>->', tag: 'mo', output: '\u21A3', ttype: CONST, tex: 'rightarrowtail'},
+  {input: '->>', tag: 'mo', output: '\u21A0', ttype: CONST, tex: 'twoheadrightarrow'},
+  {input: '>->>', tag: 'mo', output: '\u2916', ttype: CONST, tex: 'twoheadrightarrowtail'},
+  {input: '|->', tag: 'mo', output: '\u21A6', ttype: CONST, tex: 'mapsto'},
+  {input: 'larr', tag: 'mo', output: '\u2190', ttype: CONST, tex: 'leftarrow'},
+  {input: 'harr', tag: 'mo', output: '\u2194', ttype: CONST, tex: 'leftrightarrow'},
+  {input: 'rArr', tag: 'mo', output: '\u21D2', ttype: CONST, tex: 'Rightarrow'},
+  {input: 'lArr', tag: 'mo', output: '\u21D0', ttype: CONST, tex: 'Leftarrow'},
+  {input: 'hArr', tag: 'mo', output: '\u21D4', ttype: CONST, tex: 'Leftrightarrow'},
+
+  //
+  //  Commands with argument
+  //
+  {input: 'sqrt', tag: 'msqrt', output: 'sqrt', ttype: UNARY},
+  {input: 'root', tag: 'mroot', output: 'root', ttype: BINARY},
+  {input: 'frac', tag: 'mfrac', output: '/', ttype: BINARY},
+  {input: '/', tag: 'mfrac', output: '/', ttype: INFIX},
+  {input: 'stackrel', tag: 'mover', output: 'stackrel', ttype: BINARY},
+  {input: 'overset', tag: 'mover', output: 'stackrel', ttype: BINARY},
+  {input: 'underset', tag: 'munder', output: 'stackrel', ttype: BINARY},
+  {input: '_', tag: 'msub', output: '_', ttype: INFIX},
+  {input: '^', tag: 'msup', output: '^', ttype: INFIX},
+  {input: 'hat', tag: 'mover', output: '^', ttype: UNARY, acc: true},
+  {input: 'bar', tag: 'mover', output: '\u00AF', ttype: UNARY, tex: 'overline', acc: true},
+  {input: 'vec', tag: 'mover', output: '\u2192', ttype: UNARY, acc: true},
+  {input: 'dot', tag: 'mover', output: '.', ttype: UNARY, acc: true},
+  {input: 'ddot', tag: 'mover', output: '..', ttype: UNARY, acc: true},
+  {input: 'ul', tag: 'munder', output: '\u0332', ttype: UNARY, tex: 'underline', acc: true},
+  {input: 'ubrace', tag: 'munder', output: '\u23DF', ttype: UNARYUNDEROVER, tex: 'underbrace', acc: true},
+  {input: 'obrace', tag: 'mover', output: '\u23DE', ttype: UNARYUNDEROVER, tex: 'overbrace', acc: true},
+  {input: 'text', tag: 'mtext', output: 'text', ttype: TEXT},
+  {input: 'mbox', tag: 'mtext', output: 'mbox', ttype: TEXT},
+  {input: 'color', tag: 'mstyle', output: 'color', ttype: BINARY},
+  {input: 'cancel', tag: 'menclose', output: 'cancel', ttype: UNARY},
+  {input: '"', tag: 'mtext', output: 'mbox', ttype: TEXT},
+  {input: 'bb', tag: 'mstyle', output: 'bb', ttype: UNARY, atname: 'mathvariant', atval: 'bold'},
+  {input: 'mathbf', tag: 'mstyle', output: 'mathbf', ttype: UNARY, atname: 'mathvariant', atval: 'bold'},
+  {input: 'sf', tag: 'mstyle', output: 'sf', ttype: UNARY, atname: 'mathvariant', atval: 'sans-serif'},
+  {input: 'mathsf', tag: 'mstyle', output: 'mathsf', ttype: UNARY, atname: 'mathvariant', atval: 'sans-serif'},
+  {input: 'bbb', tag: 'mstyle', output: 'bbb', ttype: UNARY, atname: 'mathvariant', atval: 'double-struck'},
+  {input: 'mathbb', tag: 'mstyle', output: 'mathbb', ttype: UNARY, atname: 'mathvariant', atval: 'double-struck'},
+  {input: 'cc', tag: 'mstyle', output: 'cc', ttype: UNARY, atname: 'mathvariant', atval: 'script'},
+  {input: 'mathcal', tag: 'mstyle', output: 'mathcal', ttype: UNARY, atname: 'mathvariant', atval: 'script'},
+  {input: 'tt', tag: 'mstyle', output: 'tt', ttype: UNARY, atname: 'mathvariant', atval: 'monospace'},
+  {input: 'mathtt', tag: 'mstyle', output: 'mathtt', ttype: UNARY, atname: 'mathvariant', atval: 'monospace'},
+  {input: 'fr', tag: 'mstyle', output: 'fr', ttype: UNARY, atname: 'mathvariant', atval: 'fraktur'},
+  {input: 'mathfrak', tag: 'mstyle', output: 'mathfrak', ttype: UNARY, atname: 'mathvariant', atval: 'fraktur'}
+]);
@@ -0,0 +1,597 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the AsciiMath parser that produces the internal MathML tree.
+ *                (The grammar is from ASCIIMathML.js, (c) Peter Jipsen, used with permission)
+ *
+ *  The grammar is
+ *
+ *    v ::= [A-Za-z] | greek letters | numbers | other constant symbols
+ *    u ::= sqrt | text | bb | other unary symbols for font commands
+ *    b ::= frac | root | stackrel         binary symbols
+ *    l ::= ( | [ | { | (: | {:            left brackets
+ *    r ::= ) | ] | } | :) | :}            right brackets
+ *    S ::= v | lEr | uS | bSS             Simple expression
+ *    I ::= S_S | S^S | S_S^S | S          Intermediate expression
+ *    E ::= IE | I/I                       Expression
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {MmlFactory} from '../../core/MmlTree/MmlFactory.js';
+import {MmlNode, AbstractMmlTokenNode, TextNode} from '../../core/MmlTree/MmlNode.js';
+import {PropertyList} from '../../core/Tree/Node.js';
+import {OptionList} from '../../util/Options.js';
+import {SymbolTable, AsciiMathSymbol, TOKEN} from './SymbolTable.js';
+import AsciiMathError from './AsciiMathError.js';
+
+/**
+ * The result of parsing part of the string:  the node(s) produced and the remaining string
+ */
+export type ParseResult = [MmlNode, string];
+export type ParseListResult = [MmlNode[], string];
+
+/*****************************************************************/
+/**
+ *  The AsciiMath parser class
+ */
+export class AsciiMathParser {
+
+  /**
+   * The factory used to create the MathML nodes
+   */
+  public factory: MmlFactory = null;
+
+  /**
+   * The root of the most recently parsed expression (may be modified by postFilters)
+   */
+  public root: MmlNode = null;
+
+  /**
+   * The number of open brackets at the current point in the parse
+   */
+  protected nestingDepth: number = 0;
+
+  /**
+   * The token type of the next-to-last symbol looked up
+   */
+  protected previousSymbol: number = TOKEN.CONST;
+
+  /**
+   * The token type of the last symbol looked up
+   */
+  protected currentSymbol: number = TOKEN.CONST;
+
+  /**
+   * @param {OptionList} options       The options for the parser (decimalsign, displaystyle)
+   * @param {SymbolTable[]} tables     The symbol tables to use (in priority order)
+   * @constructor
+   */
+  constructor(public options: OptionList, public tables: SymbolTable[]) {
+  }
+
+  /**
+   * @param {string} math        The AsciiMath string to parse
+   * @param {boolean} display    True for display-mode math
+   * @return {MmlNode}           The math node for the parsed expression
+   */
+  public parse(math: string, display: boolean): MmlNode {
+    this.nestingDepth = 0;
+    this.previousSymbol = this.currentSymbol = TOKEN.CONST;
+    //
+    //  Some basic cleanup for dealing with stuff editors like TinyMCE adds
+    //
+    math = math.replace(/&nbsp;/g, '').replace(/&gt;/g, '>').replace(/&lt;/g, '<')
+      .replace(/(Sin|Cos|Tan|Arcsin|Arccos|Arctan|Sinh|Cosh|Tanh|Cot|Sec|Csc|Log|Ln|Abs)/g,
+               (name: string) => name.toLowerCase());
+    const [list] = this.parseExpr(math.replace(/^\s+/g, ''), false);
+    const mstyle = this.create('mstyle', list, this.options.displaystyle ? {displaystyle: true} : {});
+    return this.create('math', [mstyle], display ? {display: 'block'} : {});
+  }
+
+  /*****************************************************************/
+
+  /**
+   * Parse a simple expression (S)
+   *
+   * @param {string} str     The string to parse
+   * @return {ParseResult}   The parsed node (or null) and the remaining string
+   */
+  public parseSexpr(str: string): ParseResult {
+    str = this.removeCharsAndBlanks(str, 0);
+    let symbol = this.getSymbol(str);
+    if (str === '' || (symbol.ttype === TOKEN.RIGHTBRACKET && this.nestingDepth > 0)) {
+      return [null, str];
+    }
+    if (symbol.ttype === TOKEN.DEFINITION) {
+      str = symbol.output + this.removeCharsAndBlanks(str, symbol.input.length);
+      symbol = this.getSymbol(str);
+    }
+    switch (symbol.ttype) {
+    case TOKEN.UNDEROVER:
+    case TOKEN.CONST:
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      return [this.token(symbol.tag, symbol.output), str];
+    case TOKEN.LEFTBRACKET:
+      return this.parseBracket(str, symbol);
+    case TOKEN.TEXT:
+      return this.parseText(str, symbol);
+    case TOKEN.UNARYUNDEROVER:
+    case TOKEN.UNARY:
+      return this.parseUnary(str, symbol);
+    case TOKEN.BINARY:
+      return this.parseBinary(str, symbol);
+    case TOKEN.INFIX:
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      return [this.token('mo', symbol.output), str];
+    case TOKEN.SPACE:
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      return [this.create('mrow', [
+        this.create('mspace', [], {width: '1ex'}),
+        this.token(symbol.tag, symbol.output),
+        this.create('mspace', [], {width: '1ex'})
+      ]), str];
+    case TOKEN.LEFTRIGHT:
+      return this.parseLeftRight(str, symbol);
+    default:
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      return [this.token(symbol.tag, symbol.output), str];
+    }
+  }
+
+  /**
+   * Parse an intermediate expression (I)
+   *
+   * @param {string} str     The string to parse
+   * @return {ParseResult}   The parsed node and the remaining string
+   */
+  public parseIexpr(str: string): ParseResult {
+    str = this.removeCharsAndBlanks(str, 0);
+    const sym1 = this.getSymbol(str);
+    let [node, rest] = this.parseSexpr(str);
+    str = rest;
+    const symbol = this.getSymbol(str);
+    if (symbol.ttype === TOKEN.INFIX && symbol.input !== '/') {
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      let script: MmlNode;
+      [script, str] = this.parseScript(str);
+      const underover = (sym1.ttype === TOKEN.UNDEROVER || sym1.ttype === TOKEN.UNARYUNDEROVER);
+      if (symbol.input === '_') {
+        const sym2 = this.getSymbol(str);
+        if (sym2.input === '^') {
+          str = this.removeCharsAndBlanks(str, sym2.input.length);
+          let sup: MmlNode;
+          [sup, str] = this.parseScript(str);
+          node = this.create(underover ? 'munderover' : 'msubsup', [node, script, sup]);
+          node = this.create('mrow', [node]);  // so sum does not stretch
+        } else {
+          node = this.create(underover ? 'munder' : 'msub', [node, script]);
+        }
+      } else if (symbol.input === '^' && underover) {
+        node = this.create('mover', [node, script]);
+      } else {
+        node = this.create(symbol.tag, [node, script]);
+      }
+      if (sym1.func) {
+        const sym2 = this.getSymbol(str);
+        if (sym2.ttype !== TOKEN.INFIX && sym2.ttype !== TOKEN.RIGHTBRACKET) {
+          let arg: MmlNode;
+          [arg, str] = this.parseIexpr(str);
+          node = this.create('mrow', [node, arg]);
+        }
+      }
+    }
+    return [node, str];
+  }
+
+  /**
+   * Parse an expression (E)
+   *
+   * @param {string} str               The string to parse
+   * @param {boolean} rightbracket     True if a right bracket is expected
+   * @return {ParseListResult}         The list of parsed nodes and the remaining string
+   */
+  public parseExpr(str: string, rightbracket: boolean): ParseListResult {
+    const list: MmlNode[] = [];
+    let symbol: AsciiMathSymbol;
+    do {
+      str = this.removeCharsAndBlanks(str, 0);
+      let node: MmlNode;
+      [node, str] = this.parseIexpr(str);
+      symbol = this.getSymbol(str);
+      if (symbol.ttype === TOKEN.INFIX && symbol.input === '/') {
+        str = this.removeCharsAndBlanks(str, symbol.input.length);
+        let [den, rest] = this.parseIexpr(str);
+        if (den === null) {
+          den = this.missing();
+        } else {
+          this.removeBrackets(den);
+        }
+        str = rest;
+        if (node === null) {
+          node = this.missing();
+        } else {
+          this.removeBrackets(node);
+        }
+        list.push(this.create(symbol.tag, [node, den]));
+        symbol = this.getSymbol(str);
+      } else if (node) {
+        list.push(node);
+      }
+    } while (((symbol.ttype !== TOKEN.RIGHTBRACKET && (symbol.ttype !== TOKEN.LEFTRIGHT || rightbracket))
+              || this.nestingDepth === 0) && symbol.output !== '');
+    if (symbol.ttype === TOKEN.RIGHTBRACKET || symbol.ttype === TOKEN.LEFTRIGHT) {
+      this.checkMatrix(list, symbol);
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+      if (!symbol.invisible) {
+        list.push(this.token('mo', symbol.output));
+      }
+    }
+    return [list, str];
+  }
+
+  /*****************************************************************/
+
+  /**
+   * Parse a bracketed expression
+   *
+   * @param {string} str                The string to parse (starting with the bracket)
+   * @param {AsciiMathSymbol} symbol    The bracket symbol
+   * @return {ParseResult}              The parsed node and the remaining string
+   */
+  protected parseBracket(str: string, symbol: AsciiMathSymbol): ParseResult {
+    this.nestingDepth++;
+    str = this.removeCharsAndBlanks(str, symbol.input.length);
+    const [list, rest] = this.parseExpr(str, true);
+    this.nestingDepth--;
+    if (!symbol.invisible) {
+      list.unshift(this.token('mo', symbol.output));
+    }
+    return [this.create('mrow', list), rest];
+  }
+
+  /**
+   * Parse a text string (text(...), mbox(...), or "...")
+   *
+   * @param {string} str                The string to parse (starting with the text command)
+   * @param {AsciiMathSymbol} symbol    The text symbol
+   * @return {ParseResult}              The parsed node and the remaining string
+   */
+  protected parseText(str: string, symbol: AsciiMathSymbol): ParseResult {
+    const quote = (symbol.input === '"');
+    if (!quote) {
+      str = this.removeCharsAndBlanks(str, symbol.input.length);
+    }
+    const close = (quote ? '"' : ({'{': '}', '(': ')', '[': ']'} as {[c: string]: string})[str.charAt(0)]);
+    let i = 0;
+    if (close) {
+      i = str.indexOf(close, 1);
+      if (i === -1) {
+        throw new AsciiMathError('MissingCloseText', 'Missing %1 for %2', close, symbol.input);
+      }
+    }
+    const text = str.slice(1, i);
+    const list: MmlNode[] = [];
+    if (text.charAt(0) === ' ') {
+      list.push(this.create('mspace', [], {width: '1ex'}));
+    }
+    list.push(this.token(symbol.tag, text));
+    if (text.charAt(text.length - 1) === ' ') {
+      list.push(this.create('mspace', [], {width: '1ex'}));
+    }
+    return [this.create('mrow', list), this.removeCharsAndBlanks(str, i + 1)];
+  }
+
+  /**
+   * Parse a unary command (functions, accents, fonts, etc.)
+   *
+   * @param {string} str                The string to parse (starting with the command)
+   * @param {AsciiMathSymbol} symbol    The command's symbol
+   * @return {ParseResult}              The parsed node and the remaining string
+   */
+  protected parseUnary(str: string, symbol: AsciiMathSymbol): ParseResult {
+    str = this.removeCharsAndBlanks(str, symbol.input.length);
+    const [arg, rest] = this.parseSexpr(str);
+    if (arg === null) {
+      return [this.symbolNode(symbol), str];
+    }
+    if (symbol.func) {
+      const c = str.charAt(0);
+      if (c === '^' || c === '_' || c === '/' || c === '|' || c === ',' ||
+          (symbol.input.length === 1 && symbol.input.match(/\w/) && c !== '(')) {
+        return [this.token(symbol.tag, symbol.output), str];
+      }
+      return [this.create('mrow', [this.token(symbol.tag, symbol.output), arg]), rest];
+    }
+    this.removeBrackets(arg);
+    if (symbol.input === 'sqrt') {
+      return [this.create(symbol.tag, [arg]), rest];
+    }
+    if (symbol.rewriteleftright) {
+      const [open, close] = symbol.rewriteleftright;
+      return [this.create('mrow', [this.token('mo', open), arg, this.token('mo', close)]), rest];
+    }
+    if (symbol.input === 'cancel') {
+      return [this.create(symbol.tag, [arg], {notation: 'updiagonalstrike'}), rest];
+    }
+    if (symbol.acc) {
+      return [this.create(symbol.tag, [arg, this.token('mo', symbol.output)]), rest];
+    }
+    return [this.create(symbol.tag, [arg], {[symbol.atname]: symbol.atval}), rest];
+  }
+
+  /**
+   * Parse a binary command (frac, root, stackrel, color, etc.)
+   *
+   * @param {string} str                The string to parse (starting with the command)
+   * @param {AsciiMathSymbol} symbol    The command's symbol
+   * @return {ParseResult}              The parsed node and the remaining string
+   */
+  protected parseBinary(str: string, symbol: AsciiMathSymbol): ParseResult {
+    str = this.removeCharsAndBlanks(str, symbol.input.length);
+    const [arg1, rest1] = this.parseSexpr(str);
+    if (arg1 === null) {
+      return [this.token('mo', symbol.input), str];
+    }
+    this.removeBrackets(arg1);
+    const [arg2, rest2] = this.parseSexpr(rest1);
+    if (arg2 === null) {
+      return [this.token('mo', symbol.input), str];
+    }
+    this.removeBrackets(arg2);
+    if (symbol.input === 'color') {
+      const close = ({'{': '}', '(': ')', '[': ']'} as {[c: string]: string})[str.charAt(0)];
+      if (!close) {
+        throw new AsciiMathError('ColorInBrackets', 'The color for %1 must be in brackets', symbol.input);
+      }
+      return [this.create(symbol.tag, [arg2], {mathcolor: str.slice(1, str.indexOf(close))}), rest2];
+    }
+    const children = (symbol.input === 'root' || symbol.output === 'stackrel' ? [arg2, arg1] :
+                      symbol.input === 'frac' ? [arg1, arg2] : [arg1]);
+    return [this.create(symbol.tag, children), rest2];
+  }
+
+  /**
+   * Parse a vertical bar (either an absolute value or a divides symbol)
+   *
+   * @param {string} str                The string to parse (starting with the bar)
+   * @param {AsciiMathSymbol} symbol    The bar symbol
+   * @return {ParseResult}              The parsed node and the remaining string
+   */
+  protected parseLeftRight(str: string, symbol: AsciiMathSymbol): ParseResult {
+    this.nestingDepth++;
+    str = this.removeCharsAndBlanks(str, symbol.input.length);
+    const [list, rest] = this.parseExpr(str, false);
+    this.nestingDepth--;
+    if (this.getText(list[list.length - 1]) === '|') {
+      list.unshift(this.token('mo', symbol.output));
+      return [this.create('mrow', list), rest];
+    }
+    return [this.create('mrow', [this.token('mo', '\u2223')]), str];
+  }
+
+  /**
+   * Parse the script for a sub- or superscript (using a box for a missing one)
+   *
+   * @param {string} str     The string to parse
+   * @return {ParseResult}   The parsed node and the remaining string
+   */
+  protected parseScript(str: string): ParseResult {
+    let [script, rest] = this.parseSexpr(str);
+    if (script === null) {
+      script = this.missing();
+    } else {
+      this.removeBrackets(script);
+    }
+    return [script, rest];
+  }
+
+  /*****************************************************************/
+
+  /**
+   * If a bracketed list consists of bracketed, comma-separated rows that have the same
+   *   number of entries, replace it by a matrix.
+   *
+   * @param {MmlNode[]} list            The list of nodes for the bracketed expression
+   * @param {AsciiMathSymbol} symbol    The closing bracket for the list
+   */
+  protected checkMatrix(list: MmlNode[], symbol: AsciiMathSymbol) {
+    const m = list.length;
+    if (!m || !list[m - 1].isKind('mrow')) return;
+    const right = this.getText(this.lastChild(list[m - 1]));
+    const left = this.getText(list[m - 1].childNodes[0] as MmlNode);
+    if (!((left === '(' && right === ')' && symbol.output !== '}') || (left === '[' && right === ']'))) return;
+    //
+    //  Check that the rows are all bracketed the same way, are separated by commas,
+    //    and have the same number of commas, recording the positions of the commas.
+    //
+    const commas: number[][] = [];
+    for (let i = 0; i < m; i += 2) {
+      const row = list[i];
+      if (!(row.isKind('mrow') &&
+            (i === m - 1 || (list[i + 1].isKind('mo') && this.getText(list[i + 1]) === ',')) &&
+            this.getText(row.childNodes[0] as MmlNode) === left &&
+            this.getText(this.lastChild(row)) === right)) return;
+      const pos: number[] = [];
+      row.childNodes.forEach((child: MmlNode, j: number) => this.getText(child) === ',' && pos.push(j));
+      if (i && pos.length !== commas[0].length) return;
+      commas.push(pos);
+    }
+    if (commas.length === 1 && commas[0].length === 0) return;
+    //
+    //  Make the table from the rows, splitting them at the commas
+    //
+    const rows = commas.map((pos: number[], i: number) => {
+      const children = list[2 * i].childNodes as MmlNode[];
+      const cells: MmlNode[] = [];
+      let start = 1;
+      for (const j of [...pos, children.length - 1]) {
+        cells.push(this.create('mtd', children.slice(start, j)));
+        start = j + 1;
+      }
+      return this.create('mtr', cells);
+    });
+    list.splice(0, m, this.create('mtable', rows, symbol.invisible ? {columnalign: 'left'} : {}));
+  }
+
+  /**
+   * Remove the outer brackets from a bracketed expression
+   *
+   * @param {MmlNode} node   The node whose brackets are to be removed
+   */
+  protected removeBrackets(node: MmlNode) {
+    if (!node || !node.isKind('mrow') || !node.childNodes.length) return;
+    const open = this.getText(node.childNodes[0] as MmlNode);
+    if (open === '(' || open === '[' || open === '{') {
+      node.childNodes.shift();
+    }
+    const close = this.getText(this.lastChild(node));
+    if (close === ')' || close === ']' || close === '}') {
+      node.childNodes.pop();
+    }
+  }
+
+  /**
+   * Remove n characters and any following blanks
+   *
+   * @param {string} str   The string to trim
+   * @param {number} n     The number of characters to remove
+   * @return {string}      The remaining string
+   */
+  protected removeCharsAndBlanks(str: string, n: number): string {
+    const st = (str.charAt(n) === '\\' && str.charAt(n + 1) !== '\\' && str.charAt(n + 1) !== ' ' ?
+                str.slice(n + 1) : str.slice(n));
+    let i = 0;
+    while (i < st.length && st.charCodeAt(i) <= 32) i++;
+    return st.slice(i);
+  }
+
+  /**
+   * Get the symbol at the start of the string:  the longest match from the symbol tables,
+   *   or a number, or a single character.
+   *
+   * @param {string} str         The string to check
+   * @return {AsciiMathSymbol}   The symbol at the start of the string
+   */
+  protected getSymbol(str: string): AsciiMathSymbol {
+    this.previousSymbol = this.currentSymbol;
+    let match: AsciiMathSymbol = null;
+    for (const table of this.tables) {
+      const symbol = table.lookup(str);
+      if (symbol && (!match || symbol.input.length > match.input.length)) {
+        match = symbol;
+      }
+    }
+    if (match) {
+      this.currentSymbol = match.ttype;
+      return match;
+    }
+    this.currentSymbol = TOKEN.CONST;
+    //
+    //  If str starts with a number, return the number (with decimal part)
+    //
+    const decimal = this.options.decimalsign;
+    let k = 1;
+    let st = str.slice(0, 1);
+    let integer = true;
+    while ('0' <= st && st <= '9' && k <= str.length) {
+      st = str.slice(k, k + 1);
+      k++;
+    }
+    if (st === decimal) {
+      st = str.slice(k, k + 1);
+      if ('0' <= st && st <= '9') {
+        integer = false;
+        k++;
+        while ('0' <= st && st <= '9' && k <= str.length) {
+          st = str.slice(k, k + 1);
+          k++;
+        }
+      }
+    }
+    let tag: string;
+    if ((integer && k > 1) || k > 2) {
+      st = str.slice(0, k - 1);
+      tag = 'mn';
+    } else {
+      st = str.slice(0, 1);
+      tag = (st.match(/^[a-z]$/i) ? 'mi' : 'mo');
+    }
+    if (st === '-' && this.previousSymbol === TOKEN.INFIX) {
+      this.currentSymbol = TOKEN.INFIX;  // trick "/" into recognizing "-" on second parse
+      return {input: st, tag: tag, output: st, ttype: TOKEN.UNARY, func: true};
+    }
+    return {input: st, tag: tag, output: st, ttype: TOKEN.CONST};
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {string} kind                The kind of node to create
+   * @param {MmlNode[]} children         The children for the node
+   * @param {PropertyList} attributes    The attributes for the node
+   * @return {MmlNode}                   The new node
+   */
+  protected create(kind: string, children: MmlNode[] = [], attributes: PropertyList = {}): MmlNode {
+    return this.factory.create(kind, attributes, children);
+  }
+
+  /**
+   * @param {string} kind                The kind of token node to create
+   * @param {string} text                The text for the token
+   * @param {PropertyList} attributes    The attributes for the node
+   * @return {MmlNode}                   The new token node
+   */
+  protected token(kind: string, text: string, attributes: PropertyList = {}): MmlNode {
+    const node = this.factory.create(kind, attributes);
+    node.appendChild((this.factory.create('text') as TextNode).setText(text));
+    return node;
+  }
+
+  /**
+   * @param {AsciiMathSymbol} symbol   The symbol whose node is needed (when its argument is missing)
+   * @return {MmlNode}                 The token node for the symbol
+   */
+  protected symbolNode(symbol: AsciiMathSymbol): MmlNode {
+    return this.token(this.factory.getNodeClass(symbol.tag).prototype.isToken ? symbol.tag : 'mo', symbol.output);
+  }
+
+  /**
+   * @return {MmlNode}   A box to indicate a missing argument
+   */
+  protected missing(): MmlNode {
+    return this.token('mo', '\u25A1');
+  }
+
+  /**
+   * @param {MmlNode} node   The node whose last child is needed
+   * @return {MmlNode}       The last child (or null)
+   */
+  protected lastChild(node: MmlNode): MmlNode {
+    return (node.childNodes[node.childNodes.length - 1] || null) as MmlNode;
+  }
+
+  /**
+   * @param {MmlNode} node   The node whose text is needed
+   * @return {string}        The text of the node if it is a token node, or '' otherwise
+   */
+  protected getText(node: MmlNode): string {
+    return (node && node.isToken ? (node as AbstractMmlTokenNode).getText() : '');
+  }
+
+}
@@ -0,0 +1,163 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the symbol tables used by the AsciiMath parser
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+/**
+ * The token types for AsciiMath symbols
+ */
+export const TOKEN = {
+  CONST: 0,
+  UNARY: 1,
+  BINARY: 2,
+  INFIX: 3,
+  LEFTBRACKET: 4,
+  RIGHTBRACKET: 5,
+  SPACE: 6,
+  UNDEROVER: 7,
+  DEFINITION: 8,
+  LEFTRIGHT: 9,
+  TEXT: 10,
+  UNARYUNDEROVER: 15
+};
+
+/**
+ * The data for an AsciiMath symbol
+ */
+export interface AsciiMathSymbol {
+  input: string;                          // the AsciiMath string for the symbol
+  tag: string;                            // the MathML node kind to create
+  output: string;                         // the text for the node (or the replacement for a DEFINITION)
+  ttype: number;                          // the token type
+  tex?: string;                           // an alternative (TeX) name for the symbol
+  acc?: boolean;                          // true if this is an accent
+  func?: boolean;                         // true if this is a function name
+  invisible?: boolean;                    // true for brackets that don't display
+  atname?: string;                        // the name of an attribute to set
+  atval?: string;                         // the value of that attribute
+  rewriteleftright?: [string, string];    // delimiters to use in place of the symbol
+}
+
+/*****************************************************************/
+/**
+ *  A named collection of AsciiMath symbols (similar to the TeX SymbolMaps)
+ *  that can be looked up by the longest initial match of a string.
+ */
+export class SymbolTable {
+
+  /**
+   * The registered symbol tables, by name
+   */
+  protected static tables: Map<string, SymbolTable> = new Map();
+
+  /**
+   * The symbols in this table, indexed by their input strings
+   */
+  protected symbols: Map<string, AsciiMathSymbol> = new Map();
+
+  /**
+   * The length of the longest input string in the table
+   */
+  protected maxLength: number = 0;
+
+  /**
+   * @param {string} name   The name of the table
+   * @return {SymbolTable}  The registered table with the given name (or undefined)
+   */
+  public static get(name: string): SymbolTable {
+    return this.tables.get(name);
+  }
+
+  /**
+   * @param {string} name                 The name of the table ('' for an unregistered table)
+   * @param {AsciiMathSymbol[]} symbols   The symbols to put in the table
+   * @constructor
+   */
+  constructor(public readonly name: string, symbols: AsciiMathSymbol[] = []) {
+    for (const symbol of symbols) {
+      this.add(symbol);
+    }
+    if (name) {
+      SymbolTable.tables.set(name, this);
+    }
+  }
+
+  /**
+   * Add a symbol to the table (and its TeX alias, if any)
+   *
+   * @param {AsciiMathSymbol} symbol   The symbol to add
+   */
+  public add(symbol: AsciiMathSymbol) {
+    this.set(symbol);
+    if (symbol.tex) {
+      const {tag, output, ttype, acc} = symbol;
+      this.set({input: symbol.tex, tag, output, ttype, acc: !!acc});
+    }
+  }
+
+  /**
+   * Add a definition that replaces one string by another
+   *
+   * @param {string} name         The string to replace
+   * @param {string} replacement  The string to replace it with
+   */
+  public define(name: string, replacement: string) {
+    this.set({input: name, tag: 'mo', output: replacement, ttype: TOKEN.DEFINITION});
+  }
+
+  /**
+   * @param {string} input   The input string of the symbol to remove
+   */
+  public remove(input: string) {
+    this.symbols.delete(input);
+  }
+
+  /**
+   * @param {string} input     The input string of the symbol to look up
+   * @return {AsciiMathSymbol}  The symbol with that input string (or undefined)
+   */
+  public get(input: string): AsciiMathSymbol {
+    return this.symbols.get(input);
+  }
+
+  /**
+   * @param {string} str        The string whose beginning is to be matched
+   * @return {AsciiMathSymbol}  The symbol with the longest input that starts the string (or null)
+   */
+  public lookup(str: string): AsciiMathSymbol {
+    for (let n = Math.min(this.maxLength, str.length); n > 0; n--) {
+      const symbol = this.symbols.get(str.substr(0, n));
+      if (symbol) {
+        return symbol;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * @param {AsciiMathSymbol} symbol   The symbol to store in the table
+   */
+  protected set(symbol: AsciiMathSymbol) {
+    this.symbols.set(symbol.input, symbol);
+    this.maxLength = Math.max(this.maxLength, symbol.input.length);
+  }
+
+}
@@ -1 +0,0 @@
-export var LegacyAsciiMath: any;
@@ -24,6 +24,7 @@
 import {AbstractInputJax} from '../core/InputJax.js';
 import {defaultOptions, separateOptions, OptionList} from '../util/Options.js';
 import {FunctionList} from '../util/FunctionList.js';
+import {Locale} from '../util/Locale.js';
 import {MathDocument} from '../core/MathDocument.js';
 import {MathItem} from '../core/MathItem.js';
 import {DOMAdaptor} from '../core/DOMAdaptor.js';
@@ -140,11 +141,12 @@ export class MathML<N, T, D> extends AbstractInputJax<N, T, D> {
       let doc = this.checkForErrors(this.adaptor.parse(mathml, 'text/' + this.options['parseAs']));
       let body = this.adaptor.body(doc);
       if (this.adaptor.childNodes(body).length !== 1) {
-        this.error('MathML must consist of a single element');
+        this.error(Locale.message('MathML', 'SingleElement', 'MathML must consist of a single element'));
       }
       mml = this.adaptor.remove(this.adaptor.firstChild(body)) as N;
       if (this.adaptor.kind(mml).replace(/^[a-z]+:/, '') !== 'math') {
-        this.error('MathML must be formed by a <math> element, not <' + this.adaptor.kind(mml) + '>');
+        this.error(Locale.message('MathML', 'NotMathElement', 'MathML must be formed by a <math> element, not <%1>',
+                                   this.adaptor.kind(mml)));
       }
     }
     mml = this.executeFilters(this.mmlFilters, math, document, mml);
@@ -161,7 +163,7 @@ export class MathML<N, T, D> extends AbstractInputJax<N, T, D> {
     let err = this.adaptor.tags(this.adaptor.body(doc), 'parsererror')[0];
     if (err) {
       if (this.adaptor.textContent(err) === '') {
-        this.error('Error processing MathML');
+        this.error(Locale.message('MathML', 'ErrorProcessing', 'Error processing MathML'));
       }
       this.options['parseError'].call(this, err);
     }
@@ -24,8 +24,10 @@
 import {MmlFactory} from '../../core/MmlTree/MmlFactory.js';
 import {MmlNode, TextNode, XMLNode, AbstractMmlNode, AbstractMmlTokenNode, TEXCLASS}
 from '../../core/MmlTree/MmlNode.js';
+import {CdDiagram, CdArrow} from '../../core/MmlTree/MmlNodes/CdDiagram.js';
 import {userOptions, defaultOptions, OptionList} from '../../util/Options.js';
 import * as Entities from '../../util/Entities.js';
+import {Locale} from '../../util/Locale.js';
 import {DOMAdaptor} from '../../core/DOMAdaptor.js';
 
 /********************************************************************/
@@ -117,6 +119,10 @@ export class MathMLCompile<N, T, D> {
       texClass = this.filterAttribute('data-mjx-texclass', texClass) || '';
     }
     let type = texClass && kind === 'mrow' ? 'TeXAtom' : kind;
+    const arrows = (kind === 'semantics' ? adaptor.getAttribute(node, 'data-mjx-cd-arrows') || '' : '');
+    if (arrows) {
+      type = 'CdDiagram';
+    }
     for (const name of this.filterClassList(adaptor.allClasses(node))) {
       if (name.match(/^MJX-TeXAtom-/)) {
         texClass = name.substr(12);
@@ -125,10 +131,13 @@ export class MathMLCompile<N, T, D> {
         limits = true;
       }
     }
-    this.factory.getNodeClass(type) || this.error('Unknown node type "' + type + '"');
+    this.factory.getNodeClass(type) ||
+      this.error(Locale.message('MathML', 'UnknownNodeType', 'Unknown node type "%1"', type));
     let mml = this.factory.create(type);
     if (type === 'TeXAtom') {
       this.texAtom(mml, texClass, limits);
+    } else if (arrows) {
+      this.cdDiagram(mml as CdDiagram, arrows);
     } else if (texClass) {
       mml.texClass = (TEXCLASS as {[name: string]: number})[texClass];
       mml.setProperty('texClass', mml.texClass);
@@ -208,6 +217,8 @@ export class MathMLCompile<N, T, D> {
       }
       if (name === '#text') {
         this.addText(mml, child);
+      } else if (mml.isKind('CdDiagram') && name.replace(/^.*:/, '') === 'annotation-xml') {
+        this.addChildren(mml, child);
       } else if (mml.isKind('annotation-xml')) {
         mml.appendChild((this.factory.create('XML') as XMLNode).setXML(child, adaptor));
       } else {
@@ -216,7 +227,8 @@ export class MathMLCompile<N, T, D> {
           if (this.options['fixMisplacedChildren']) {
             this.addChildren(mml, child);
           } else {
-            childMml.mError('There should not be children for ' + childMml.kind + ' nodes',
+            childMml.mError(Locale.message('MathML', 'ChildrenNotAllowed',
+                                           'There should not be children for %1 nodes', childMml.kind),
                             this.options['verify'], true);
           }
         }
@@ -239,7 +251,7 @@ export class MathMLCompile<N, T, D> {
       }
       mml.appendChild((this.factory.create('text') as TextNode).setText(text));
     } else if (text.match(/\S/)) {
-      this.error('Unexpected text node "' + text + '"');
+      this.error(Locale.message('MathML', 'UnexpectedText', 'Unexpected text node "%1"', text));
     }
   }
 
@@ -293,6 +305,23 @@ export class MathMLCompile<N, T, D> {
     }
   }
 
+  /**
+   * Set the arrows of a commutative diagram from its data-mjx-cd-arrows attribute
+   *   (its table is the first child, and the arrow labels are the children of
+   *   its annotation-xml element, in the order that the arrows refer to them)
+   *
+   * @param {CdDiagram} mml   The diagram to be updated
+   * @param {string} arrows   The JSON list of arrows from the data-mjx-cd-arrows attribute
+   */
+  protected cdDiagram(mml: CdDiagram, arrows: string) {
+    arrows = this.filterAttribute('data-mjx-cd-arrows', arrows);
+    try {
+      mml.arrows = (arrows ? JSON.parse(arrows) : []) as CdArrow[];
+    } catch (err) {
+      this.error(Locale.message('MathML', 'BadCdArrows', 'Invalid arrows for a commutative diagram'));
+    }
+  }
+
   /**
    * Check to see if an mrow has delimiters at both ends (so looks like an mfenced structure).
    *
@@ -34,7 +34,7 @@ import FilterUtil from './tex/FilterUtil.js';
 import NodeUtil from './tex/NodeUtil.js';
 import TexParser from './tex/TexParser.js';
 import TexError from './tex/TexError.js';
-import ParseOptions from './tex/ParseOptions.js';
+import ParseOptions, {TexState} from './tex/ParseOptions.js';
 import {TagsFactory} from './tex/Tags.js';
 import {ParserConfiguration} from './tex/Configuration.js';
 // Import base as it is the default package loaded.
@@ -71,6 +71,11 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
     digits: /^(?:[0-9]+(?:\{,\}[0-9]{3})*(?:\.[0-9]*)?|\.[0-9]+)/,
     // Maximum size of TeX string to process.
     maxBuffer: 5 * 1024,
+    // True to record the positions of the TeX source for the nodes.
+    sourcePositions: false,
+    // True to mark just the parts of an expression that contain errors (and
+    //   keep going), rather than replacing the whole expression by an error.
+    errorRecovery: false,
     formatError: (jax: TeX<any, any, any>, err: TexError) => jax.formatError(err)
   };
 
@@ -145,6 +150,7 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
     this.postFilters.add(FilterUtil.cleanStretchy, -3);
     this.postFilters.add(FilterUtil.cleanAttributes, -2);
     this.postFilters.add(FilterUtil.combineRelations, -1);
+    this.postFilters.add(FilterUtil.extendSourcePositions, 0);
   }
 
   /**
@@ -164,6 +170,27 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
   }
 
 
+  /**
+   * Save the equation counter, labels, and macro definitions, so that another
+   * page can continue the numbering and refer to the labels defined here.
+   * @param {string=} url The URL of this page (used for links to its labels).
+   * @return {TexState} The state (which can be converted to JSON).
+   */
+  public exportState(url: string = ''): TexState {
+    return this.parseOptions.exportState(url);
+  }
+
+
+  /**
+   * Restore a state saved by exportState().  If the document caches its math,
+   * its cache should be cleared afterward, as the macros may have changed.
+   * @param {TexState} state The saved state.
+   */
+  public importState(state: TexState) {
+    this.parseOptions.importState(state);
+  }
+
+
   /**
    * @override
    */
@@ -171,7 +198,7 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
     this.parseOptions.clear();
     this.executeFilters(this.preFilters, math, document, this.parseOptions);
     let display = math.display;
-    this.latex = math.math;
+    this.latex = this.parseOptions.source = math.math;
     let node: MmlNode;
     this.parseOptions.tags.startEquation(math);
     try {
@@ -184,6 +211,12 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
         throw err;
       }
       this.parseOptions.error = true;
+      if (this.options.errorRecovery) {
+        this.parseOptions.errors.push({
+          id: err.id, message: err.message.replace(/\n.*/, ''),
+          start: 0, end: this.latex.length
+        });
+      }
       node = this.options.formatError(this, err);
     }
     node = this.parseOptions.nodeFactory.create('node', 'math', [node]);
@@ -191,6 +224,15 @@ export class TeX<N, T, D> extends AbstractInputJax<N, T, D> {
       NodeUtil.setAttribute(node, 'display', 'block');
     }
     this.parseOptions.tags.finishEquation(math);
+    if (this.parseOptions.nocache || this.parseOptions.error) {
+      math.inputData.nocache = true;
+    }
+    if (this.parseOptions.stateChange) {
+      math.inputData.stateChange = true;
+    }
+    if (this.parseOptions.errors.length) {
+      math.inputData.errors = this.parseOptions.errors;
+    }
     this.parseOptions.root = node;
     this.executeFilters(this.postFilters, math, document, this.parseOptions);
     this.mathNode = this.parseOptions.root;
@@ -30,19 +30,24 @@ import './boldsymbol/BoldsymbolConfiguration.js';
 import './braket/BraketConfiguration.js';
 import './bussproofs/BussproofsConfiguration.js';
 import './cancel/CancelConfiguration.js';
+import './chemfig/ChemfigConfiguration.js';
 import './color/ColorConfiguration.js';
+import './colortbl/ColortblConfiguration.js';
 import './colorv2/ColorV2Configuration.js';
 import './configmacros/ConfigMacrosConfiguration.js';
 import './enclose/EncloseConfiguration.js';
 import './extpfeil/ExtpfeilConfiguration.js';
 import './html/HtmlConfiguration.js';
+import './mathtools/MathtoolsConfiguration.js';
 import './mhchem/MhchemConfiguration.js';
 import './newcommand/NewcommandConfiguration.js';
 import './noerrors/NoErrorsConfiguration.js';
 import './noundefined/NoUndefinedConfiguration.js';
 import './physics/PhysicsConfiguration.js';
+import './siunitx/SiunitxConfiguration.js';
 import './tagformat/TagFormatConfiguration.js';
 import './textmacros/TextMacrosConfiguration.js';
+import './tikzcd/TikzCdConfiguration.js';
 import './unicode/UnicodeConfiguration.js';
 import './verb/VerbConfiguration.js';
 
@@ -57,16 +62,21 @@ if (typeof MathJax !== 'undefined' && MathJax.loader) {
     '[tex]/braket',
     '[tex]/bussproofs',
     '[tex]/cancel',
+    '[tex]/chemfig',
     '[tex]/color',
+    '[tex]/colortbl',
     '[tex]/colorv2',
     '[tex]/enclose',
     '[tex]/extpfeil',
     '[tex]/html',
+    '[tex]/mathtools',
     '[tex]/mhchem',
     '[tex]/newcommand',
     '[tex]/noerrors',
     '[tex]/noundefined',
     '[tex]/physics',
+    '[tex]/siunitx',
+    '[tex]/tikzcd',
     '[tex]/unicode',
     '[tex]/verb',
     '[tex]/configmacros',
@@ -85,14 +95,19 @@ export const AllPackages: string[] = [
   'braket',
   'bussproofs',
   'cancel',
+  'chemfig',
   'color',
+  'colortbl',
   'enclose',
   'extpfeil',
   'html',
+  'mathtools',
   'mhchem',
   'newcommand',
   'noerrors',
   'noundefined',
+  'siunitx',
+  'tikzcd',
   'unicode',
   'verb',
   'configmacros',
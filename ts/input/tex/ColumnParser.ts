@@ -0,0 +1,344 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview Parser for the column templates of array environments.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ArrayItem} from './base/BaseItems.js';
+import ParseUtil from './ParseUtil.js';
+import TexError from './TexError.js';
+
+
+/**
+ * The data collected while parsing a column template.
+ */
+export type ColumnState = {
+  template: string;      // the template being parsed
+  i: number;             // the current position in the template
+  c: string;             // the column-type character being processed
+  j: number;             // the current column number
+  name: string;          // the name of the environment (for error messages)
+  calign: string[];      // the horizontal alignment of each column
+  cwidth: string[];      // the explicit widths of the columns
+  cvalign: string[];     // the vertical alignment of each column (for p, m, and b columns)
+  ctext: boolean[];      // true for columns whose entries are in text mode
+  clines: string[];      // the rule style before each column (index j is after the last column)
+  cspace: string[];      // the spacing before each column (when not the default)
+  cstart: string[];      // the TeX code to insert at the start of each entry
+  cend: string[];        // the TeX code to insert at the end of each entry
+};
+
+/**
+ * A function that handles one column type.
+ */
+export type ColumnHandler = (state: ColumnState) => void;
+
+
+/**
+ * The maximum repetition count for *{n}{...}
+ */
+const MAXREPEAT = 100;
+
+
+/**
+ * Class that processes array column templates like {|c|>{\bf}l@{.}r|p{2cm}}
+ */
+export class ColumnParser {
+
+  /**
+   * The handlers for the column-type characters (packages can add more).
+   */
+  public columnHandler: {[c: string]: ColumnHandler} = {
+    l: (state) => this.setAlign(state, 'left'),
+    c: (state) => this.setAlign(state, 'center'),
+    r: (state) => this.setAlign(state, 'right'),
+    p: (state) => this.getColumn(state, 'top'),
+    m: (state) => this.getColumn(state, 'center'),
+    b: (state) => this.getColumn(state, 'bottom'),
+    w: (state) => this.getWidthColumn(state),
+    W: (state) => this.getWidthColumn(state),
+    '|': (state) => this.addRule(state, 'solid'),
+    ':': (state) => this.addRule(state, 'dashed'),
+    ';': (state) => this.addRule(state, this.getDashStyle(this.getArgument(state), state.name)),
+    '>': (state) => this.addStart(state, this.getArgument(state)),
+    '<': (state) => this.addEnd(state, this.getArgument(state)),
+    '@': (state) => this.addSeparator(state, this.getArgument(state), true),
+    '!': (state) => this.addSeparator(state, this.getArgument(state), false),
+    '*': (state) => this.repeat(state)
+  };
+
+  /**
+   * Parse a column template and set the corresponding properties of an array.
+   *
+   * @param {string} template   The column template.
+   * @param {ArrayItem} array   The array whose columns are being defined.
+   * @param {string} name       The name of the environment (for error messages).
+   */
+  public process(template: string, array: ArrayItem, name: string) {
+    this.setArrayDef(this.parse(template, name), array);
+  }
+
+  /**
+   * Parse a column template.
+   *
+   * @param {string} template   The column template.
+   * @param {string} name       The name of the environment or macro (for error messages).
+   * @return {ColumnState}      The data for the columns.
+   */
+  public parse(template: string, name: string): ColumnState {
+    const state: ColumnState = {
+      template: template, i: 0, c: '', j: 0, name: name,
+      calign: [], cwidth: [], cvalign: [], ctext: [], clines: [], cspace: [], cstart: [], cend: []
+    };
+    while (state.i < state.template.length) {
+      state.c = String.fromCodePoint(state.template.codePointAt(state.i));
+      state.i += state.c.length;
+      if (state.c.match(/\s/)) continue;
+      if (!this.columnHandler.hasOwnProperty(state.c)) {
+        throw new TexError('BadPreamToken', 'Illegal pream-token (%1)', state.c);
+      }
+      this.columnHandler[state.c](state);
+    }
+    return state;
+  }
+
+  /**
+   * Get the style of a dashed line from an on/off specification (e.g., 4pt/2pt).
+   *
+   * @param {string} spec   The dash specification.
+   * @param {string} name   The name of the macro or environment (for error messages).
+   * @return {string}       The line style (dashed or dotted).
+   */
+  public getDashStyle(spec: string, name: string): string {
+    const on = spec.split(/\//)[0].trim();
+    if (!ParseUtil.matchDimen(on)[0]) {
+      throw new TexError('MissingDimOrUnits', 'Missing dimension or its units for %1', name);
+    }
+    return (ParseUtil.dimen2em(on) <= .1 ? 'dotted' : 'dashed');
+  }
+
+  /**
+   * Set the alignment of the current column and move to the next one.
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} align        The column alignment.
+   */
+  public setAlign(state: ColumnState, align: string) {
+    state.calign[state.j++] = align;
+  }
+
+  /**
+   * Handle p, m, and b columns (text-mode entries of a given width).
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} valign       The vertical alignment for the column.
+   */
+  public getColumn(state: ColumnState, valign: string) {
+    state.cwidth[state.j] = this.getDimen(state);
+    state.cvalign[state.j] = valign;
+    state.ctext[state.j] = true;
+    this.setAlign(state, 'left');
+  }
+
+  /**
+   * Handle w{align}{width} and W{align}{width} columns.
+   *
+   * @param {ColumnState} state   The current template state.
+   */
+  public getWidthColumn(state: ColumnState) {
+    const align = this.getArgument(state).trim();
+    if (!align.match(/^[lcr]$/)) {
+      throw new TexError('BadColumnAlign', 'Column alignment for %1 must be l, c, or r', state.name);
+    }
+    state.cwidth[state.j] = this.getDimen(state);
+    this.setAlign(state, {l: 'left', c: 'center', r: 'right'}[align as 'l' | 'c' | 'r']);
+  }
+
+  /**
+   * Add a rule before the current column (a second rule at the same place is ignored).
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} style        The line style for the rule.
+   */
+  public addRule(state: ColumnState, style: string) {
+    if (!state.clines[state.j]) {
+      state.clines[state.j] = style;
+    }
+  }
+
+  /**
+   * Add TeX code to the start of the entries in the current column (empty code is ignored).
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} tex          The code to add.
+   */
+  public addStart(state: ColumnState, tex: string) {
+    if (!tex.trim()) return;
+    state.cstart[state.j] = (state.cstart[state.j] || '') + tex;
+  }
+
+  /**
+   * Add TeX code to the end of the entries in the previous column (empty code is ignored).
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} tex          The code to add.
+   */
+  public addEnd(state: ColumnState, tex: string) {
+    if (state.j === 0) {
+      throw new TexError('BadPreamToken', 'Illegal pream-token (%1)', state.c);
+    }
+    if (!tex.trim()) return;
+    state.cend[state.j - 1] = tex + (state.cend[state.j - 1] || '');
+  }
+
+  /**
+   * Handle @{...} and !{...}, which add material between two columns (the @ form also
+   * removes the space between the columns).  Empty material is not inserted.
+   *
+   * @param {ColumnState} state   The current template state.
+   * @param {string} tex          The separator material.
+   * @param {boolean} nospace     True if the column spacing should be removed.
+   */
+  public addSeparator(state: ColumnState, tex: string, nospace: boolean) {
+    if (nospace) {
+      state.cspace[state.j] = '0em';
+    }
+    if (!tex.trim()) return;
+    if (state.j === 0) {
+      state.cstart[0] = '{' + tex + '}' + (state.cstart[0] || '');
+    } else {
+      state.cend[state.j - 1] = (state.cend[state.j - 1] || '') + '{' + tex + '}';
+    }
+  }
+
+  /**
+   * Handle *{n}{template} by inserting n copies of the template.
+   *
+   * @param {ColumnState} state   The current template state.
+   */
+  public repeat(state: ColumnState) {
+    const n = this.getArgument(state).trim();
+    const template = this.getArgument(state);
+    if (!n.match(/^\d+$/) || parseInt(n) > MAXREPEAT) {
+      throw new TexError('PositiveIntegerArg', 'Argument to %1 must be a positive integer', '*');
+    }
+    state.template = template.repeat(parseInt(n)) + state.template.slice(state.i);
+    state.i = 0;
+  }
+
+  /**
+   * Get the next argument from the template (a braced group, a control
+   * sequence, or a single character).
+   *
+   * @param {ColumnState} state   The current template state.
+   * @return {string}             The argument.
+   */
+  public getArgument(state: ColumnState): string {
+    const template = state.template;
+    while (template.charAt(state.i).match(/\s/)) {
+      state.i++;
+    }
+    const c = template.charAt(state.i);
+    if (c === '') {
+      throw new TexError('MissingArgFor', 'Missing argument for %1', state.c);
+    }
+    if (c === '\\') {
+      const cs = template.slice(state.i).match(/^\\(?:[a-z]+|.)/i)[0];
+      state.i += cs.length;
+      return cs;
+    }
+    if (c !== '{') {
+      state.i++;
+      return c;
+    }
+    const start = ++state.i;
+    let braces = 1;
+    while (state.i < template.length) {
+      switch (template.charAt(state.i++)) {
+      case '\\':  state.i++; break;
+      case '{':   braces++; break;
+      case '}':
+        if (--braces === 0) {
+          return template.slice(start, state.i - 1);
+        }
+        break;
+      }
+    }
+    throw new TexError('MissingCloseBrace', 'Missing close brace');
+  }
+
+  /**
+   * Get a dimension argument from the template.
+   *
+   * @param {ColumnState} state   The current template state.
+   * @return {string}             The dimension.
+   */
+  public getDimen(state: ColumnState): string {
+    const dim = this.getArgument(state).trim();
+    const [value, unit] = ParseUtil.matchDimen(dim);
+    if (!value) {
+      throw new TexError('MissingDimOrUnits', 'Missing dimension or its units for %1', state.c);
+    }
+    return value + unit;
+  }
+
+  /**
+   * Transfer the template data to the array.
+   *
+   * @param {ColumnState} state   The final template state.
+   * @param {ArrayItem} array     The array whose columns are being defined.
+   */
+  protected setArrayDef(state: ColumnState, array: ArrayItem) {
+    const n = state.j;
+    const def = array.arraydef;
+    def.columnalign = state.calign.join(' ');
+    if (state.cwidth.length) {
+      def.columnwidth = state.calign.map((_align, j) => state.cwidth[j] || 'auto').join(' ');
+    }
+    if (state.clines.length) {
+      if (state.clines[0]) {
+        array.frame.push('left');
+        array.dashed = (state.clines[0] !== 'solid');
+      }
+      if (state.clines[n]) {
+        array.frame.push('right');
+      }
+      const lines = [];
+      for (let j = 1; j < n; j++) {
+        lines.push(state.clines[j] || 'none');
+      }
+      def.columnlines = lines.join(' ') || 'none';
+    }
+    if (state.cspace.length && n > 1) {
+      const spacing = (def.columnspacing as string || '1em').split(/ /);
+      const cspace = [];
+      for (let j = 1; j < n; j++) {
+        cspace.push(state.cspace[j] || spacing[Math.min(j - 1, spacing.length - 1)]);
+      }
+      def.columnspacing = cspace.join(' ');
+    }
+    array.cstart = state.cstart;
+    array.cend = state.cend;
+    array.ctext = state.ctext;
+    array.cvalign = state.cvalign;
+    array.templateColumns = n;
+  }
+
+}
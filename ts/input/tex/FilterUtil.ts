@@ -51,6 +51,7 @@ namespace FilterUtil {
           const texAtom = options.nodeFactory.create('node', 'TeXAtom', [mo]);
           parent.replaceChild(texAtom, mo);
           texAtom.inheritAttributesFrom(mo);
+          NodeUtil.mergeSourcePositions(texAtom, mo);
         }
         NodeUtil.removeProperties(mo, 'fixStretchy');
       }
@@ -109,6 +110,7 @@ namespace FilterUtil {
           // This treatment means we might loose some inheritance structure, but
           // no properties.
           _copyExplicit(['stretchy', 'rspace'], mo, m2);
+          NodeUtil.mergeSourcePositions(m2, mo);
           NodeUtil.setProperties(mo, m2.getAllProperties());
           children.splice(next, 1);
           m2.parent = null;
@@ -267,6 +269,28 @@ namespace FilterUtil {
   };
 
 
+  /**
+   * Extends the source ranges of the nodes to include those of their children
+   * (e.g., for mrows and scripts that are created before all their children are
+   * known), when the sourcePositions option is set.
+   * @param {ParseOptions} data The parse options.
+   */
+  export let extendSourcePositions = function(arg: {data: ParseOptions}) {
+    if (!arg.data.options['sourcePositions']) {
+      return;
+    }
+    const extend = (node: MmlNode) => {
+      for (const child of node.childNodes as MmlNode[]) {
+        if (child) {
+          extend(child);
+          NodeUtil.mergeSourcePositions(node, child);
+        }
+      }
+    };
+    extend(arg.data.root);
+  };
+
+
   /**
    * Recursively sets the inherited attributes on the math tree.
    * @param {MmlNode} math The node to rewrite.
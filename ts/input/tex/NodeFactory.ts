@@ -184,11 +184,30 @@ export class NodeFactory {
     const node = func(this, rest[0], ...rest.slice(1));
     if (kind === 'node') {
       this.configuration.addNode(rest[0], node);
+      this.setSourcePositions(node);
     }
     return node;
   }
 
 
+  /**
+   * Records the range of the TeX source for a new node (when the
+   * sourcePositions option is set), as given by the active parser.
+   * @param {MmlNode} node The newly created node.
+   */
+  protected setSourcePositions(node: MmlNode) {
+    const parser = this.configuration.parser;
+    if (!parser || !this.configuration.options['sourcePositions'] ||
+        NodeUtil.getSourcePositions(node)) {
+      return;
+    }
+    const range = parser.sourcePositions();
+    if (range) {
+      NodeUtil.setSourcePositions(node, ...range);
+    }
+  }
+
+
   /**
    * @param {string} kind The method for generating a node of given kind.
    */
@@ -41,7 +41,10 @@ namespace NodeUtil {
     ['variantForm', true],
     ['withDelims', true],
     ['open', true],
-    ['close', true]
+    ['close', true],
+    ['texStart', true],
+    ['texEnd', true],
+    ['texExpanded', true]
   ]);
 
 
@@ -218,6 +221,54 @@ namespace NodeUtil {
   }
 
 
+  /**
+   * Sets the range of the TeX source for a node.
+   * @param {MmlNode} node The node.
+   * @param {number} start The offset of the start of its source.
+   * @param {number} end The offset of the end of its source.
+   * @param {boolean} expanded True if the node comes from a macro expansion.
+   */
+  export function setSourcePositions(node: MmlNode, start: number, end: number, expanded: boolean) {
+    node.setProperty('texStart', start);
+    node.setProperty('texEnd', end);
+    if (expanded) {
+      node.setProperty('texExpanded', true);
+    } else {
+      node.removeProperty('texExpanded');
+    }
+  }
+
+
+  /**
+   * Gets the range of the TeX source for a node.
+   * @param {MmlNode} node The node.
+   * @return {[number, number, boolean]} The start and end offsets of its source,
+   *     and whether it comes from a macro expansion (or null if not recorded).
+   */
+  export function getSourcePositions(node: MmlNode): [number, number, boolean] {
+    const start = node.getProperty('texStart') as number;
+    if (start === undefined) {
+      return null;
+    }
+    return [start, node.getProperty('texEnd') as number, !!node.getProperty('texExpanded')];
+  }
+
+
+  /**
+   * Extends the source range of a node to include that of another node.
+   * @param {MmlNode} node The node whose range is extended.
+   * @param {MmlNode} other The node whose range is to be included.
+   */
+  export function mergeSourcePositions(node: MmlNode, other: MmlNode) {
+    const range = getSourcePositions(other);
+    if (!range) {
+      return;
+    }
+    const [start, end, expanded] = getSourcePositions(node) || range;
+    setSourcePositions(node, Math.min(start, range[0]), Math.max(end, range[1]), expanded);
+  }
+
+
   /**
    * Checks if node is of a particular type.
    * @param {MmlNode} node The node.
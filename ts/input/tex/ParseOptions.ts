@@ -23,13 +23,41 @@
  */
 
 import StackItemFactory from './StackItemFactory.js';
-import {Tags} from './Tags.js';
+import {Tags, TagsState} from './Tags.js';
 import {SubHandlers} from './MapHandler.js';
 import {NodeFactory} from './NodeFactory.js';
 import {MmlNode} from '../../core/MmlTree/MmlNode.js';
 import TexParser from './TexParser.js';
 import {defaultOptions, OptionList} from '../../util/Options.js';
 import {ParserConfiguration} from './Configuration.js';
+import {ColumnParser} from './ColumnParser.js';
+
+
+/**
+ * Functions that save and restore the part of the parser state that belongs to a package
+ */
+export type StateHandler = {
+  exportState: () => any,
+  importState: (data: any) => void
+};
+
+/**
+ * The saved parser state (the tagging data, plus data indexed by package name)
+ */
+export type TexState = {
+  tags?: TagsState,
+  [name: string]: any
+};
+
+/**
+ * An error that the parser recovered from (when the errorRecovery option is set)
+ */
+export type RecoveredError = {
+  id: string,          // the id of the TexError
+  message: string,     // the error message
+  start: number,       // the offset in the TeX string of the start of the TeX marked as an error
+  end: number          // the offset of the end of that TeX
+};
 
 
 /**
@@ -73,6 +101,18 @@ export default class ParseOptions {
    */
   public packageData: Map<string, any> = new Map();
 
+  /**
+   * The functions for saving and restoring package state (indexed by package name)
+   * @type {Map<string, StateHandler>}
+   */
+  public stateHandlers: Map<string, StateHandler> = new Map();
+
+  /**
+   * The parser for array column templates
+   * @type {ColumnParser}
+   */
+  public columnParser: ColumnParser = new ColumnParser();
+
   // Fields for ephemeral options, i.e., options that will be cleared for each
   // run of the parser.
   /**
@@ -101,6 +141,34 @@ export default class ParseOptions {
    */
   public error: boolean = false;
 
+  /**
+   * True if the expression depends on other expressions (e.g., via references
+   * or equation numbers), so that its result should not be cached.
+   * @type {boolean}
+   */
+  public nocache: boolean = false;
+
+  /**
+   * True if the expression changes the parser's state (e.g., defines macros),
+   * so that later expressions may depend on it.
+   * @type {boolean}
+   */
+  public stateChange: boolean = false;
+
+  /**
+   * The TeX string being translated (the source positions recorded for
+   * the nodes are offsets into this string).
+   * @type {string}
+   */
+  public source: string = '';
+
+  /**
+   * The errors that the parser has recovered from (when the errorRecovery
+   * option is set), in the order they were found.
+   * @type {RecoveredError[]}
+   */
+  public errors: RecoveredError[] = [];
+
 
 
   /**
@@ -157,10 +225,45 @@ export default class ParseOptions {
     this.root = null;
     this.nodeLists = {};
     this.error = false;
+    this.errors = [];
+    this.nocache = this.stateChange = false;
     this.tags.resetTag();
   }
 
 
+  /**
+   * Get the state that later documents may need:  the equation counter and labels,
+   * plus any package state (e.g., macro definitions).  The result can be
+   * converted to JSON.
+   * @param {string=} url The URL of the page whose labels are being saved.
+   * @return {TexState} The saved state.
+   */
+  public exportState(url: string = ''): TexState {
+    const state: TexState = {tags: this.tags.exportState(url)};
+    this.stateHandlers.forEach((handler, name) => {
+      state[name] = handler.exportState();
+    });
+    return state;
+  }
+
+
+  /**
+   * Restore a state saved by exportState() (e.g., from an earlier page).
+   * Package state is only restored for packages that are loaded.
+   * @param {TexState} state The saved state.
+   */
+  public importState(state: TexState) {
+    if (state.tags) {
+      this.tags.importState(state.tags);
+    }
+    this.stateHandlers.forEach((handler, name) => {
+      if (state.hasOwnProperty(name)) {
+        handler.importState(state[name]);
+      }
+    });
+  }
+
+
   /**
    * Saves a tree node to a list of nodes for post processing.
    * @param {string} property The property name that will be used for
@@ -25,8 +25,9 @@
 
 import NodeUtil from './NodeUtil.js';
 import {MmlNode} from '../../core/MmlTree/MmlNode.js';
-import {StackItem, EnvList} from './StackItem.js';
+import {StackItem, EnvList, CheckType} from './StackItem.js';
 import StackItemFactory from './StackItemFactory.js';
+import TexError from './TexError.js';
 
 
 export default class Stack {
@@ -90,7 +91,7 @@ export default class Stack {
         this._factory.create('mml', node) : node as StackItem;
       item.global = this.global;
       const [top, success] =
-        this.stack.length ? this.Top().checkItem(item) : [null, true];
+        this.stack.length ? this.checkItem(item) : [null, true];
       if (!success) {
         continue;
       }
@@ -112,6 +113,58 @@ export default class Stack {
   }
 
 
+  /**
+   * Check an item against the top item of the stack.  When recovering from
+   * errors, a closing item that the top item can't handle closes off the top
+   * item (if a lower item matches the closing item), or is replaced by an
+   * error node (if none does).
+   *
+   * @param {StackItem} item The item being pushed.
+   * @return {CheckType} The result of the check.
+   */
+  protected checkItem(item: StackItem): CheckType {
+    try {
+      return this.Top().checkItem(item);
+    } catch (err) {
+      const configuration = this._factory.configuration;
+      if (!(err instanceof TexError) || !configuration.options['errorRecovery'] || !item.isClose) {
+        throw err;
+      }
+      const parser = configuration.parser;
+      if (!this.stack.slice(0, -1).some(open => open.matches(item))) {
+        this.Push(parser.recoveredError(err));
+        return [null, false];
+      }
+      return [[...this.closeTop(), item], true];
+    }
+  }
+
+
+  /**
+   * Close off the top item as though the input ended at this point, marking
+   * it with an error node if it isn't allowed to end there.
+   *
+   * @return {(StackItem|MmlNode)[]} The items and nodes to push in its place.
+   */
+  protected closeTop(): (StackItem | MmlNode)[] {
+    const top = this.Top();
+    const stop = this._factory.create('stop');
+    try {
+      const [items] = top.checkItem(stop);
+      if (items) {
+        return items.filter(item => item !== stop);
+      }
+    } catch (err) {
+      if (!(err instanceof TexError)) {
+        throw err;
+      }
+      const parser = this._factory.configuration.parser;
+      return [top.Size() ? top.toMml(false) : null, parser.recoveredError(err, parser.tokenStart, parser.tokenStart)];
+    }
+    return [top.Size() ? top.toMml(false) : null];
+  }
+
+
   /**
    * Pop the topmost elements off the stack.
    * @return {StackItem} A stack item.
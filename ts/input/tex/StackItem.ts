@@ -318,6 +318,16 @@ export interface StackItem extends NodeStack {
    */
   checkItem(item: StackItem): CheckType;
 
+  /**
+   * Tests if a closing item is one that this item handles (e.g., a close brace
+   * for an open brace).  This is used to resynchronize the stack when
+   * recovering from errors: unclosed items above the matching one are closed off.
+   *
+   * @param {StackItem} item The closing item.
+   * @return {boolean} True if this item handles the closing item.
+   */
+  matches(item: StackItem): boolean;
+
 }
 
 export interface StackItemClass extends FactoryNodeClass<StackItem> {
@@ -486,6 +496,14 @@ export abstract class BaseItem extends MmlStack implements StackItem {
   }
 
 
+  /**
+   * @override
+   */
+  public matches(_item: StackItem) {
+    return false;
+  }
+
+
   /**
    * Clears the item's environment.
    */
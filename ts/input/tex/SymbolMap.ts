@@ -216,6 +216,13 @@ export abstract class AbstractParseMap<K> extends AbstractSymbolMap<K> {
     this.map.delete(symbol);
   }
 
+  /**
+   * @return {string[]} The symbols in the map
+   */
+  public symbols(): string[] {
+    return Array.from(this.map.keys());
+  }
+
 }
 
 
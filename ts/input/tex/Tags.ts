@@ -24,9 +24,11 @@
 
 import TexParser from './TexParser.js';
 import {MmlNode} from '../../core/MmlTree/MmlNode.js';
-import {MathItem} from '../../core/MathItem.js';
+import {MathItem, STATE} from '../../core/MathItem.js';
 import {EnvList} from './StackItem.js';
 import ParseOptions from './ParseOptions.js';
+import ParseUtil from './ParseUtil.js';
+import NodeUtil from './NodeUtil.js';
 import {OptionList} from '../../util/Options.js';
 
 
@@ -39,11 +41,46 @@ export class Label {
    * @constructor
    * @param {string=} tag The tag that's displayed.
    * @param {string=} id The id that serves as reference.
+   * @param {string=} url The URL of the page containing the label (if not the current one).
    */
-  constructor(public tag: string = '???', public id: string = '') {}
+  constructor(public tag: string = '???', public id: string = '', public url: string = '') {}
 }
 
 
+/**
+ *  A reference to a label that is not yet defined.  The placeholder node
+ *  is patched in place once the label's tag is known.
+ */
+export class Reference {
+
+  /**
+   * The MathItem containing the reference.
+   * @type {MathItem}
+   */
+  public math: MathItem<any, any, any> = null;
+
+  /**
+   * @constructor
+   * @param {string} label The label being referenced.
+   * @param {boolean} eqref True if formatted as an eqref.
+   * @param {MmlNode} node The mrow holding the placeholder text.
+   * @param {TexParser} parser The parser used to create the placeholder.
+   */
+  constructor(public label: string, public eqref: boolean,
+              public node: MmlNode, public parser: TexParser) {}
+}
+
+
+/**
+ * The tagging data that can be saved and restored, e.g., to continue
+ * equation numbers and references from one page to the next.
+ */
+export type TagsState = {
+  counter: number,
+  labels: {[key: string]: {tag: string, id: string, url?: string}}
+};
+
+
 /**
  * A simple class for keeping track of tag information.
  */
@@ -114,16 +151,16 @@ export interface Tags {
   label: string;
 
   /**
-   * True if the equation contains an undefined label and must be reprocessed later.
-   * @type {boolean}
+   * References to undefined labels in the current equation.
+   * @type {Reference[]}
    */
-  redo: boolean;
+  refs: Reference[];
 
   /**
-   * True when recompiling to update undefined references
-   * @type {boolean}
+   * References to undefined labels in previous equations, by label.
+   * @type {Object.<Reference[]>}
    */
-  refUpdate: boolean;
+  allRefs: {[key: string]: Reference[]};
 
   /**
    * The environment that is currently tagged.
@@ -179,17 +216,30 @@ export interface Tags {
    */
   reset(offset?: number): void;
 
+  /**
+   * Get the equation counter and the labels defined so far.
+   * @param {string=} url The URL of the page for labels that don't yet have one.
+   * @return {TagsState} The saved state.
+   */
+  exportState(url?: string): TagsState;
+
+  /**
+   * Set the equation counter and add the labels from a saved state.
+   * @param {TagsState} state The saved state.
+   */
+  importState(state: TagsState): void;
+
   /**
    * Initialise tagging for a MathItem
-   * (clear equation-specific labels and ids, set counter
-   * and check for recompile)
+   * (clear equation-specific labels and ids, and set counter)
    * @param {MathItem} math   The MathItem for the current equation
    */
     startEquation(math: MathItem<any, any, any>): void;
 
   /**
    * Move equation-specific labels and ids to global ones,
-   * save the counter, and mark the MathItem for redos
+   * save the counter, record the unresolved references,
+   * and patch earlier references to the new labels
    */
     finishEquation(math: MathItem<any, any, any>): void;
 
@@ -278,12 +328,12 @@ export class AbstractTags implements Tags {
   /**
    * @override
    */
-  public redo: boolean = false;
+  public refs: Reference[] = [];
 
   /**
    * @override
    */
-  public refUpdate: boolean = false;
+  public allRefs: {[key: string]: Reference[]} = {};
 
   /**
    * @override
@@ -434,8 +484,7 @@ export class AbstractTags implements Tags {
    */
   public resetTag() {
     this.history = [];
-    this.redo = false;
-    this.refUpdate = false;
+    this.refs = [];
     this.clearTag();
   }
 
@@ -447,38 +496,110 @@ export class AbstractTags implements Tags {
     this.counter = this.allCounter = offset;
     this.allLabels = {};
     this.allIds = {};
+    this.allRefs = {};
   }
 
   /**
    * @override
    */
-  public startEquation(math: MathItem<any, any, any>) {
+  public exportState(url: string = ''): TagsState {
+    const labels: TagsState['labels'] = {};
+    for (const key of Object.keys(this.allLabels)) {
+      const label = this.allLabels[key];
+      labels[key] = {tag: label.tag, id: label.id, url: label.url || url};
+    }
+    return {counter: this.allCounter, labels: labels};
+  }
+
+  /**
+   * @override
+   */
+  public importState(state: TagsState) {
+    this.counter = this.allCounter = state.counter || 0;
+    const labels = state.labels || {};
+    const imported: {[key: string]: Label} = {};
+    for (const key of Object.keys(labels)) {
+      const {tag, id, url} = labels[key];
+      imported[key] = this.allLabels[key] = new Label(tag, id, url || '');
+    }
+    this.resolveRefs(imported);
+  }
+
+  /**
+   * @override
+   */
+  public startEquation(_math: MathItem<any, any, any>) {
     this.labels = {};
     this.ids = {};
     this.counter = this.allCounter;
-    this.redo = false;
-    const recompile = math.inputData.recompile;
-    if (recompile) {
-      this.refUpdate = true;
-      this.counter = recompile.counter;
-    }
   }
 
   /**
    * @override
    */
   public finishEquation(math: MathItem<any, any, any>) {
-    if (this.redo) {
-      math.inputData.recompile = {
-        state: math.state(),
-        counter: this.allCounter
-      };
-    }
-    if (!this.refUpdate) {
-      this.allCounter = this.counter;
+    if (this.refs.length || this.counter !== this.allCounter ||
+        Object.keys(this.ids).length || Object.keys(this.labels).length) {
+      this.configuration.nocache = true;
     }
+    this.allCounter = this.counter;
     Object.assign(this.allIds, this.ids);
     Object.assign(this.allLabels, this.labels);
+    if (this.refs.length) {
+      math.inputData.refs = this.refs;
+      for (const ref of this.refs) {
+        ref.math = math;
+        (this.allRefs[ref.label] || (this.allRefs[ref.label] = [])).push(ref);
+      }
+    }
+    this.resolveRefs(this.labels);
+  }
+
+  /**
+   * Patch the pending references to any of the given labels, and
+   * mark the MathItems that have already been typeset so that their
+   * output is regenerated (without recompiling their TeX).
+   *
+   * @param {Object.<Label>} labels   The newly defined labels
+   */
+  protected resolveRefs(labels: {[key: string]: Label}) {
+    for (const key of Object.keys(labels)) {
+      const refs = this.allRefs[key] || [];
+      delete this.allRefs[key];
+      for (const ref of refs) {
+        const math = ref.math;
+        //
+        //  Skip references from items that have since been recompiled
+        //
+        if ((math.inputData.refs || []).indexOf(ref) < 0) {
+          continue;
+        }
+        this.updateRef(ref, labels[key]);
+        if (math.state() >= STATE.TYPESET) {
+          math.state(STATE.COMPILED);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace the placeholder text and link of a reference.
+   *
+   * @param {Reference} ref   The reference to update
+   * @param {Label} label     The label it refers to
+   */
+  protected updateRef(ref: Reference, label: Label) {
+    const parser = ref.parser;
+    const tag = (ref.eqref ? this.formatTag(label.tag) : label.tag);
+    ref.node.setChildren(ParseUtil.internalMath(parser, tag));
+    //
+    //  The parse filters have already run, so the new nodes must get
+    //  the inherited attributes (scriptlevel, displaystyle, etc.) here
+    //
+    for (const child of ref.node.childNodes) {
+      (child as MmlNode).inheritAttributesFrom(ref.node);
+    }
+    NodeUtil.setAttribute(ref.node, 'href', this.formatUrl(label.id, label.url || parser.options.baseURL));
   }
 
   /**
@@ -23,10 +23,10 @@
  */
 
 
-export default class TexError {
+import {Locale} from '../../util/Locale.js';
+
 
-  private static pattern =
-    /%(\d+|\{\d+\}|\{[a-z]+:\%\d+(?:\|(?:%\{\d+\}|%.|[^\}])*)+\}|.)/g;
+export default class TexError {
 
   /**
    * Default error message.
@@ -34,44 +34,6 @@ export default class TexError {
    */
   public message: string;
 
-  /**
-   * The old MathJax processing function.
-   * @param {string} str The basic error message.
-   * @param {string[]} args The arguments to be replaced in the error message.
-   * @return {string} The processed error string.
-   */
-  private static processString(str: string, args: string[]): string {
-    let parts = str.split(TexError.pattern);
-    for (let i = 1, m = parts.length; i < m; i += 2) {
-      let c = parts[i].charAt(0);  // first char will be { or \d or a char to be
-                                   // kept literally
-      if (c >= '0' && c <= '9') {    // %n
-        parts[i] = args[parseInt(parts[i], 10) - 1];
-        if (typeof parts[i] === 'number') {
-          parts[i] = parts[i].toString();
-        }
-      } else if (c === '{') {        // %{n} or %{plural:%n|...}
-        c = parts[i].substr(1);
-        if (c >= '0' && c <= '9') {  // %{n}
-          parts[i] = args[parseInt(parts[i].substr(1, parts[i].length - 2), 10) - 1];
-          if (typeof parts[i] === 'number') {
-            parts[i] = parts[i].toString();
-          }
-        } else {                     // %{plural:%n|...}
-          let match = parts[i].match(/^\{([a-z]+):%(\d+)\|(.*)\}$/);
-          if (match) {
-            // Removed plural here.
-            parts[i] = '%' + parts[i];
-          }
-        }
-      }
-      if (parts[i] == null) {
-        parts[i] = '???';
-      }
-    }
-    return parts.join('');
-  }
-
   /**
    * @constructor
    * @param{string} id        message id (for localization)
@@ -79,7 +41,7 @@ export default class TexError {
    * @param{string[]=} rest   any substitution arguments
    */
   constructor(public id: string, message: string, ...rest: string[]) {
-    this.message = TexError.processString(message, rest);
+    this.message = Locale.message('TeX', id, message, ...rest);
   }
 
 }
@@ -0,0 +1,338 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements a linter that checks TeX expressions without rendering them
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {TeX} from '../tex.js';
+import TexParser from './TexParser.js';
+import TexError from './TexError.js';
+import ParseOptions from './ParseOptions.js';
+import {AbstractSymbolMap} from './SymbolMap.js';
+import {ParseInput, ParseResult} from './Types.js';
+import {AutoloadConfiguration} from './autoload/AutoloadConfiguration.js';
+import {AbstractMathItem} from '../../core/MathItem.js';
+import {MmlFactory} from '../../core/MmlTree/MmlFactory.js';
+import {Locale} from '../../util/Locale.js';
+import {OptionList, defaultOptions, userOptions, separateOptions, expandable} from '../../util/Options.js';
+
+
+/**
+ * The severity of a diagnostic
+ */
+export type Severity = 'error' | 'warning';
+
+/**
+ * A problem found in a TeX expression
+ */
+export type TexDiagnostic = {
+  id: string,            // the id of the problem (the TexError id for errors)
+  severity: Severity,    // how serious the problem is
+  message: string,       // the (localized) description of the problem
+  start: number,         // the offset in the TeX string of the start of the problem (null if not known)
+  end: number            // the offset of its end
+};
+
+
+/**
+ * The priority for the linter's maps (so they see the macros before those of any package)
+ */
+const PRIORITY = -1000;
+
+
+/*****************************************************************/
+
+/**
+ * A map that contains no symbols, but that sees every macro or environment
+ * before the other maps do, so that the linter can check it.  The check
+ * returns true for ones that should not be processed any further.
+ */
+class LintMap extends AbstractSymbolMap<boolean> {
+
+  /**
+   * @override
+   */
+  public contains(_symbol: string) {
+    return false;
+  }
+
+  /**
+   * @override
+   */
+  public lookup(_symbol: string) {
+    return false;
+  }
+
+  /**
+   * @override
+   */
+  public parse([parser, name]: ParseInput): ParseResult {
+    const linter = parser.configuration.packageData.get('lint') as TexLinter;
+    return (linter ? this.parser(parser, name, linter) : null);
+  }
+
+}
+
+new LintMap('lint-macros', (parser: TexParser, name: string, linter: TexLinter) =>
+            linter.checkMacro(parser, name));
+new LintMap('lint-environments', (parser: TexParser, name: string, linter: TexLinter) =>
+            linter.checkEnvironment(parser, name));
+
+
+/**
+ * The MathItem used to hold the expression being checked (needed for the tagging)
+ */
+class LintItem extends AbstractMathItem<any, any, any> {}
+
+
+/*****************************************************************/
+/**
+ *  The TexLinter class parses TeX expressions with a given TeX configuration
+ *  and reports the problems found in them, without producing any output.
+ */
+export class TexLinter {
+
+  /**
+   * The options for the linter (any others are passed on to the TeX input jax)
+   */
+  public static OPTIONS: OptionList = {
+    deprecatedMacros: expandable({          // Macros to report, with what to use instead
+      over: '\\frac',
+      atop: '\\genfrac',
+      above: '\\genfrac',
+      overwithdelims: '\\genfrac',
+      atopwithdelims: '\\genfrac',
+      abovewithdelims: '\\genfrac',
+      choose: '\\binom',
+      brace: '\\genfrac',
+      brack: '\\genfrac',
+      bf: '\\mathbf',
+      it: '\\mathit',
+      rm: '\\mathrm',
+      sf: '\\mathsf',
+      tt: '\\mathtt',
+      cal: '\\mathcal',
+      matrix: '\\begin{matrix}',
+      pmatrix: '\\begin{pmatrix}',
+      cases: '\\begin{cases}'
+    }),
+    deprecatedEnvironments: expandable({    // Environments to report, with what to use instead
+      eqnarray: '\\begin{align}',
+      'eqnarray*': '\\begin{align*}'
+    })
+  };
+
+  /**
+   * The options for this linter
+   */
+  public options: OptionList;
+
+  /**
+   * The TeX input jax used to parse the expressions
+   */
+  protected jax: TeX<any, any, any>;
+
+  /**
+   * The packages that define the macros and environments that aren't in the
+   * configuration (from the autoload tables)
+   */
+  protected packages: {macros: {[name: string]: string}, environments: {[name: string]: string}} = {
+    macros: {}, environments: {}
+  };
+
+  /**
+   * The problems found in the expression being checked
+   */
+  protected diagnostics: TexDiagnostic[] = [];
+
+  /**
+   * @param {OptionList} options   The linter options plus the TeX input jax options
+   *                                 (e.g., the packages to use)
+   */
+  constructor(options: OptionList = {}) {
+    const [tex, lint] = separateOptions(options, TexLinter.OPTIONS);
+    this.options = userOptions(defaultOptions({}, TexLinter.OPTIONS), lint);
+    this.jax = new TeX({...tex, errorRecovery: true});
+    this.jax.setMmlFactory(new MmlFactory());
+    const parseOptions = this.parseOptions;
+    parseOptions.packageData.set('lint', this);
+    parseOptions.handlers.add({macro: ['lint-macros'], environment: ['lint-environments']}, {}, PRIORITY);
+    this.findPackages();
+  }
+
+  /**
+   * @return {ParseOptions}   The parse options of the TeX input jax
+   */
+  public get parseOptions(): ParseOptions {
+    return this.jax.parseOptions;
+  }
+
+  /**
+   * Record which packages define the macros and environments from the autoload
+   * tables (using the default tables if the autoload package isn't loaded).
+   */
+  protected findPackages() {
+    const loaded = this.jax.options.packages as (string | [string, number])[];
+    const names = loaded.map(pkg => typeof pkg === 'string' ? pkg : pkg[0]);
+    const autoload = this.parseOptions.options.autoload || AutoloadConfiguration.options.autoload;
+    for (const extension of Object.keys(autoload)) {
+      const def = autoload[extension];
+      const [macros, envs] = (def.length === 2 && Array.isArray(def[0]) ? def : [def, []]);
+      const name = extension.replace(/^\[.*?\]\//, '');
+      if (names.indexOf(name) >= 0) {
+        continue;
+      }
+      for (const macro of macros) {
+        this.packages.macros[macro] = name;
+      }
+      for (const env of envs) {
+        this.packages.environments[env] = name;
+      }
+    }
+  }
+
+  /**
+   * Check a TeX expression.  Macros defined in it (and equation labels) remain
+   * defined for later expressions, as they would in a page of math.
+   *
+   * @param {string} tex         The TeX expression to check.
+   * @param {boolean} display    True for displayed math, false for in-line math.
+   * @return {TexDiagnostic[]}   The problems found in the expression, in the order
+   *                               that they occur.
+   */
+  public lint(tex: string, display: boolean = true): TexDiagnostic[] {
+    const options = this.parseOptions;
+    const math = new LintItem(tex, this.jax, display);
+    this.diagnostics = [];
+    options.clear();
+    options.source = tex;
+    options.tags.startEquation(math);
+    try {
+      new TexParser(tex, {display: display, isInner: false}, options).mml();
+    } catch (err) {
+      //
+      //  Errors other than TeX errors are bugs in the parser (or an extension),
+      //  but they are reported for the expression rather than ending the linting.
+      //
+      const id = (err instanceof TexError ? err.id : 'InternalError');
+      const message = (err instanceof TexError ? err.message : 'Internal error: ' + (err.message || err));
+      options.errors.push({id: id, message: message.replace(/\n.*/, ''), start: 0, end: tex.length});
+    }
+    options.tags.finishEquation(math);
+    for (const error of options.errors) {
+      this.diagnostics.push({...error, severity: 'error'});
+    }
+    //
+    //  Sort by position (keeping the order they were found for ones at the same position)
+    //
+    const order = new Map(this.diagnostics.map((diagnostic, i) => [diagnostic, i] as [TexDiagnostic, number]));
+    const start = (diagnostic: TexDiagnostic) => (diagnostic.start === null ? Infinity : diagnostic.start);
+    return this.diagnostics.sort((a, b) => (start(a) - start(b)) || (order.get(a) - order.get(b)));
+  }
+
+  /**
+   * Forget the equation numbers and labels from the expressions checked so far.
+   */
+  public reset() {
+    this.parseOptions.tags.reset();
+  }
+
+  /**
+   * Check a macro before it is processed:  report it if it is deprecated, undefined,
+   * or needs a package that isn't loaded (and skip it in the latter two cases).
+   *
+   * @param {TexParser} parser   The parser processing the macro.
+   * @param {string} name        The name of the macro.
+   * @return {ParseResult}       True if the macro should not be processed further.
+   */
+  public checkMacro(parser: TexParser, name: string): ParseResult {
+    const cs = '\\' + name;
+    const [start, end] = [parser.tokenStart, parser.tokenStart + cs.length];
+    if (this.options.deprecatedMacros[name]) {
+      this.report(parser, start, end, 'warning', 'Deprecated',
+                  '%1 is deprecated; use %2 instead', cs, this.options.deprecatedMacros[name]);
+    }
+    const map = parser.configuration.handlers.get('macro').applicable(name);
+    if (map && map.name !== 'autoload-macros') {
+      return null;
+    }
+    if (this.packages.macros[name]) {
+      this.report(parser, start, end, map ? 'warning' : 'error', 'MissingPackage',
+                  '%1 requires the %2 package', cs, this.packages.macros[name]);
+    } else {
+      this.report(parser, start, end, 'error', 'UndefinedControlSequence', 'Undefined control sequence %1', cs);
+    }
+    return true;
+  }
+
+  /**
+   * Check an environment before it is processed:  report it if it is deprecated, unknown,
+   * or needs a package that isn't loaded (and skip its \begin and \end in the latter two cases).
+   *
+   * @param {TexParser} parser   The parser processing the \begin or \end.
+   * @param {string} env         The name of the environment.
+   * @return {ParseResult}       True if the environment should not be processed further.
+   */
+  public checkEnvironment(parser: TexParser, env: string): ParseResult {
+    const begin = (parser.currentCS === '\\begin');
+    const [start, end] = [parser.tokenStart, parser.i];
+    if (begin && this.options.deprecatedEnvironments[env]) {
+      this.report(parser, start, end, 'warning', 'Deprecated',
+                  '%1 is deprecated; use %2 instead', '\\begin{' + env + '}', this.options.deprecatedEnvironments[env]);
+    }
+    const map = parser.configuration.handlers.get('environment').applicable(env);
+    if (map && map.name !== 'autoload-environments') {
+      return null;
+    }
+    if (begin) {
+      if (this.packages.environments[env]) {
+        this.report(parser, start, end, map ? 'warning' : 'error', 'MissingPackage',
+                    '%1 requires the %2 package', '\\begin{' + env + '}', this.packages.environments[env]);
+      } else {
+        this.report(parser, start, end, 'error', 'UnknownEnv', 'Unknown environment \'%1\'', env);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Add a diagnostic for part of the parser's string.
+   *
+   * @param {TexParser} parser      The parser where the problem was found.
+   * @param {number} start          The start of the problem in the parser's string.
+   * @param {number} end            The end of the problem.
+   * @param {Severity} severity     The severity of the problem.
+   * @param {string} id             The id of the message.
+   * @param {string} message        The text of the (English) message.
+   * @param {string[]} args         The substitution arguments for the message.
+   */
+  protected report(parser: TexParser, start: number, end: number,
+                   severity: Severity, id: string, message: string, ...args: string[]) {
+    const range = parser.sourceRange(start, end);
+    this.diagnostics.push({
+      id: id,
+      severity: severity,
+      message: Locale.message('TeX', id, message, ...args),
+      start: (range ? range[0] : null),
+      end: (range ? range[1] : null)
+    });
+  }
+
+}
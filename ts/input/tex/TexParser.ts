@@ -37,6 +37,19 @@ import {Symbol} from './Symbol.js';
 import {OptionList} from '../../util/Options.js';
 
 
+/**
+ * A part of the string being parsed, and the range of the original TeX that
+ * it comes from (either as a copy of that range, or produced from it, e.g.,
+ * by expanding the macros in it).
+ */
+export type SourcePart = {
+  start: number,               // the start of the part in the string
+  end: number,                 // the end of the part in the string
+  source: [number, number],    // the range of the original TeX
+  exact: boolean               // true if the part is a copy of that TeX
+};
+
+
 /**
  * The main Tex Parser class.
  */
@@ -66,6 +79,33 @@ export default class TexParser {
    */
   public currentCS: string = '';
 
+  /**
+   * The position in the string of the token currently being processed
+   * @type {number}
+   */
+  public tokenStart: number = 0;
+
+  /**
+   * The parts of the string and the ranges of the original TeX that they
+   * come from
+   * @type {SourcePart[]}
+   */
+  protected sourceParts: SourcePart[] = [];
+
+  /**
+   * The arguments read for the current token, with the sources of their
+   * parts (so that parsers for them can locate their source)
+   * @type {[string, SourcePart[]][]}
+   */
+  protected sourceArgs: [string, SourcePart[]][] = [];
+
+  /**
+   * True when the sources of the string's parts are tracked (they are
+   * needed only for the source positions and the locations of recovered errors)
+   * @type {boolean}
+   */
+  protected sourceTracking: boolean = false;
+
   /**
    * @constructor
    * @param {string} string The string to parse.
@@ -84,9 +124,12 @@ export default class TexParser {
         ENV[id] = env[id];
       }
     }
+    this.sourceTracking = !!(configuration.options['sourcePositions'] || configuration.options['errorRecovery']);
+    this.locateSource(configuration.parser);
     this.configuration.pushParser(this);
     this.stack = new Stack(this.itemFactory, ENV, inner ? isInner : true);
     this.Parse();
+    this.tokenStart = this.i;
     this.Push(this.itemFactory.create('stop'));
   }
 
@@ -116,6 +159,9 @@ export default class TexParser {
    * @param {string} str The new string to parse.
    */
   set string(str: string) {
+    if (this.sourceTracking) {
+      this.trackSource(this._string, str);
+    }
     this._string = str;
   }
 
@@ -126,6 +172,39 @@ export default class TexParser {
     return this._string;
   }
 
+  /**
+   * Update the sources of the string's parts when the string is changed.
+   * @param {string} old The string being replaced.
+   * @param {string} str The new string.
+   */
+  protected trackSource(old: string, str: string) {
+    //
+    //  Find the unchanged beginning (if it extends past the current position)
+    //    and the unchanged end of the string.  The new part between them comes from
+    //    the TeX between the current token (or the changed part, if later) and the
+    //    unchanged end.
+    //
+    const max = Math.min(old.length, str.length);
+    let p = 0;
+    while (p < max && old.charAt(p) === str.charAt(p)) {
+      p++;
+    }
+    if (p < this.i) {
+      p = 0;
+    }
+    const nmax = Math.min(max - p, old.length - Math.max(p, this.i));
+    let n = (str.substr(str.length - nmax) === old.substr(old.length - nmax) ? nmax : 0);
+    while (n < nmax && old.charAt(old.length - n - 1) === str.charAt(str.length - n - 1)) {
+      n++;
+    }
+    const range = this.sourceRange(Math.max(p, this.tokenStart), old.length - n);
+    const parts = this.clipParts(0, p, 0);
+    if (range && p < str.length - n) {
+      parts.push({start: p, end: str.length - n, source: [range[0], range[1]], exact: false});
+    }
+    this.sourceParts = parts.concat(this.clipParts(old.length - n, old.length, str.length - old.length));
+  }
+
 
   /**
    * Parses the input with the specified kind of map.
@@ -182,9 +261,80 @@ export default class TexParser {
     let c: string;
     while (this.i < this.string.length) {
       c = this.getCodePoint();
+      this.tokenStart = this.i;
+      this.sourceArgs = [];
       this.i += c.length;
-      this.parse('character', [this, c]);
+      try {
+        this.parse('character', [this, c]);
+      } catch (err) {
+        this.recover(err);
+      }
+    }
+  }
+
+
+  /**
+   * When recovering from errors, replace the token that caused an error (together
+   * with any arguments that it read) by an error node and continue parsing
+   * after it.  Otherwise, or if parsing can't continue past the token (e.g.,
+   * a macro's replacement has already been inserted), rethrow the error.
+   *
+   * @param {any} err The error that was thrown.
+   */
+  protected recover(err: any) {
+    if (!(err instanceof TexError) || !this.options['errorRecovery'] || this.i <= this.tokenStart) {
+      throw err;
     }
+    while (this.configuration.parsers.length && this.configuration.parser !== this) {
+      this.configuration.popParser();
+    }
+    this.i = this.syncPosition(this.i);
+    this.Push(this.recoveredError(err));
+  }
+
+
+  /**
+   * Find where to resume parsing after an error:  if the token read past an
+   * alignment character, a \\, or an \end (e.g., an argument with a missing
+   * close brace), resume at the first of these, otherwise after the token.
+   *
+   * @param {number} end The position after the token and its arguments.
+   * @return {number} The position at which to resume parsing.
+   */
+  protected syncPosition(end: number): number {
+    for (let i = this.tokenStart; i < end; i++) {
+      const c = this.string.charAt(i);
+      if (i > this.tokenStart &&
+          (c === '&' || this.string.substr(i, 2) === '\\\\' ||
+           (this.string.substr(i, 4) === '\\end' && !this.string.charAt(i + 4).match(/[a-z]/i)))) {
+        return i;
+      }
+      if (c === '\\') {
+        i++;
+      }
+    }
+    return end;
+  }
+
+
+  /**
+   * Record an error that is being recovered from, and create the node that
+   * marks its location.
+   *
+   * @param {TexError} err The error.
+   * @param {number=} start The start of the TeX to mark as an error (default is
+   *     the start of the current token).
+   * @param {number=} end The end of that TeX (default is the current position).
+   * @return {MmlNode} The error node.
+   */
+  public recoveredError(err: TexError, start: number = this.tokenStart, end: number = this.i): MmlNode {
+    const message = err.message.replace(/\n.*/, '');
+    const range = this.sourceRange(start, end);
+    this.configuration.errors.push({
+      id: err.id, message: message,
+      start: (range ? range[0] : null), end: (range ? range[1] : null)
+    });
+    return this.create('error', message, err.id, this.string.slice(start, end));
   }
 
 
@@ -312,7 +462,7 @@ export default class TexParser {
         case '{':   parens++; break;
         case '}':
           if (--parens === 0) {
-            return this.string.slice(j, this.i - 1);
+            return this.sourceArgument(j, this.i - 1);
           }
           break;
         }
@@ -322,7 +472,7 @@ export default class TexParser {
     }
     const c = this.getCodePoint();
     this.i += c.length;
-    return c;
+    return this.sourceArgument(this.i - c.length, this.i);
   }
 
 
@@ -350,7 +500,7 @@ export default class TexParser {
         break;
       case ']':
         if (parens === 0) {
-          return this.string.slice(j, this.i - 1);
+          return this.sourceArgument(j, this.i - 1);
         }
         break;
       }
@@ -439,7 +589,7 @@ export default class TexParser {
         break;
       }
       if (parens === 0 && c === token) {
-        return this.string.slice(j, k);
+        return this.sourceArgument(j, k);
       }
     }
     // @test TokenNotFoundForCommand
@@ -499,6 +649,121 @@ export default class TexParser {
   }
 
 
+  /************************************************************************
+   *
+   *   Source position routines
+   */
+
+  /**
+   * @param {number} start   The start of a range of the string.
+   * @param {number} end     The end of the range.
+   * @return {[number, number, boolean]}  The corresponding range of the original TeX, and
+   *                                        whether the string was produced from that TeX
+   *                                        rather than copied from it (null if not known).
+   */
+  public sourceRange(start: number, end: number): [number, number, boolean] {
+    let range: [number, number, boolean] = null;
+    for (const part of this.sourceParts) {
+      if (start < end ? part.start >= end || part.end <= start : part.start > start || part.end < start) {
+        continue;
+      }
+      const [s, e] = (part.exact ?
+                      [part.source[0] + Math.max(start, part.start) - part.start,
+                       part.source[0] + Math.min(end, part.end) - part.start] :
+                      part.source);
+      range = (range ? [Math.min(range[0], s), Math.max(range[1], e), range[2] || !part.exact] :
+               [s, e, !part.exact]);
+    }
+    return range;
+  }
+
+  /**
+   * @return {[number, number, boolean]}  The range of the original TeX for the current token
+   *                                        (from its start to the current position), and whether
+   *                                        it was produced from that TeX (e.g., by a macro).
+   */
+  public sourcePositions(): [number, number, boolean] {
+    return this.sourceRange(this.tokenStart, this.i);
+  }
+
+  /**
+   * Find the source of a string that is to be parsed by a new parser:  either
+   * an argument read for the current token, or a substring between the start
+   * of the current token and the current position.
+   *
+   * @param {string} str        The string to locate.
+   * @return {SourcePart[]}     The sources of its parts (or null if not found).
+   */
+  public argumentSource(str: string): SourcePart[] {
+    for (let n = 0; n < this.sourceArgs.length; n++) {
+      if (this.sourceArgs[n][0] === str) {
+        return this.sourceArgs.splice(n, 1)[0][1];
+      }
+    }
+    const i = this.string.lastIndexOf(str, this.i - str.length);
+    return (i >= this.tokenStart && i + str.length <= this.i ? this.clipParts(i, i + str.length, -i) : null);
+  }
+
+  /**
+   * Record an argument read from the string, together with the sources of its parts.
+   *
+   * @param {number} start   The position of the start of the argument.
+   * @param {number} end     The position of the end of the argument.
+   * @return {string}        The argument.
+   */
+  protected sourceArgument(start: number, end: number): string {
+    const arg = this.string.slice(start, end);
+    if (this.sourceTracking) {
+      this.sourceArgs.push([arg, this.clipParts(start, end, -start)]);
+    }
+    return arg;
+  }
+
+  /**
+   * @param {number} start   The start of a range of the string.
+   * @param {number} end     The end of the range.
+   * @param {number} shift   The amount to move the parts' positions.
+   * @return {SourcePart[]}  The parts of the string within the range (with their sources
+   *                           trimmed to match), moved by the given amount.
+   */
+  protected clipParts(start: number, end: number, shift: number): SourcePart[] {
+    const parts: SourcePart[] = [];
+    for (const part of this.sourceParts) {
+      const [s, e] = [Math.max(start, part.start), Math.min(end, part.end)];
+      if (s < e) {
+        const source: [number, number] = (part.exact ?
+                                          [part.source[0] + s - part.start, part.source[0] + e - part.start] :
+                                          part.source);
+        parts.push({start: s + shift, end: e + shift, source: source, exact: part.exact});
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Determine where this parser's string comes from in the original TeX:  the
+   * whole TeX string for the top-level parser, or an argument or substring of
+   * the parent parser's string.  Otherwise the string was generated by the
+   * parent, and its nodes are attributed to the parent's current token.
+   *
+   * @param {TexParser} parent   The parser that is creating this one (if any).
+   */
+  protected locateSource(parent: TexParser) {
+    if (!this.sourceTracking) {
+      return;
+    }
+    const n = this.string.length;
+    if (!parent) {
+      this.sourceParts = (this.string === this.configuration.source ?
+                          [{start: 0, end: n, source: [0, n], exact: true}] : []);
+      return;
+    }
+    const parts = parent.argumentSource(this.string);
+    const range = (parts ? null : parent.sourcePositions());
+    this.sourceParts = parts || (range ? [{start: 0, end: n, source: [range[0], range[1]], exact: false}] : []);
+  }
+
+
   /**
    * Convenience method to create nodes with the node factory of the current
    * configuration.
@@ -144,6 +144,7 @@ AmsMethods.HandleDeclareOp =  function (parser: TexParser, name: string) {
   if (!op.match(/\\text/)) {
     op = op.replace(/\*/g, '\\text{*}').replace(/-/g, '\\text{-}');
   }
+  parser.configuration.stateChange = true;
   (parser.configuration.handlers.retrieve(NEW_OPS) as CommandMap).
     add(cs, new Macro(cs, AmsMethods.Macro, ['\\mathop{\\rm ' + op + '}' + limits]));
 };
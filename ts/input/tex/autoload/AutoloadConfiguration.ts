@@ -151,12 +151,30 @@ export const AutoloadConfiguration = Configuration.create(
         braket: ['bra', 'ket', 'braket', 'set', 'Bra', 'Ket', 'Braket', 'Set', 'ketbra', 'Ketbra'],
         bussproofs: [[], ['prooftree']],
         cancel: ['cancel', 'bcancel', 'xcancel', 'cancelto'],
+        chemfig: ['chemfig', 'setchemfig'],
         color: ['color', 'definecolor', 'textcolor', 'colorbox', 'fcolorbox'],
+        colortbl: ['cellcolor', 'columncolor', 'rowcolor'],
         enclose: ['enclose'],
         extpfeil: ['xtwoheadrightarrow', 'xtwoheadleftarrow', 'xmapsto', 'xlongequal', 'xtofrom', 'Newextarrow'],
         html: ['href', 'class', 'style', 'cssId'],
+        mathtools: [
+          ['coloneqq', 'Coloneqq', 'coloneq', 'Coloneq', 'eqqcolon', 'Eqqcolon', 'eqcolon', 'Eqcolon',
+           'colonapprox', 'Colonapprox', 'colonsim', 'Colonsim', 'dblcolon', 'vcentcolon',
+           'mathllap', 'mathrlap', 'mathclap', 'cramped', 'prescript', 'splitfrac', 'splitdfrac',
+           'shortintertext', 'DeclarePairedDelimiter', 'DeclarePairedDelimiterX',
+           'newtagform', 'renewtagform', 'usetagform'],
+          ['dcases', 'dcases*', 'rcases', 'rcases*', 'drcases', 'drcases*',
+           'matrix*', 'pmatrix*', 'bmatrix*', 'Bmatrix*', 'vmatrix*', 'Vmatrix*',
+           'smallmatrix*', 'psmallmatrix', 'psmallmatrix*', 'bsmallmatrix', 'bsmallmatrix*',
+           'Bsmallmatrix', 'Bsmallmatrix*', 'vsmallmatrix', 'vsmallmatrix*', 'Vsmallmatrix', 'Vsmallmatrix*']
+        ],
         mhchem: ['ce', 'pu'],
-        newcommand: ['newcommand', 'renewcommand', 'newenvironment', 'renewenvironment', 'def', 'let'],
+        newcommand: ['newcommand', 'renewcommand', 'providecommand', 'newenvironment', 'renewenvironment',
+                     'def', 'let', 'NewDocumentCommand', 'RenewDocumentCommand', 'ProvideDocumentCommand',
+                     'DeclareDocumentCommand', 'NewDocumentEnvironment', 'RenewDocumentEnvironment',
+                     'ProvideDocumentEnvironment', 'DeclareDocumentEnvironment'],
+        siunitx: ['num', 'si', 'SI', 'numrange', 'SIrange', 'ang', 'sisetup'],
+        tikzcd: [[], ['tikzcd']],
         unicode: ['unicode'],
         verb: ['verb']
       })
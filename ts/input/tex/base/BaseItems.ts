@@ -79,6 +79,13 @@ export class StartItem extends BaseItem {
     return super.checkItem(item);
   }
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('stop');
+  }
+
 }
 
 
@@ -148,6 +155,13 @@ export class OpenItem extends BaseItem {
     }
     return super.checkItem(item);
   }
+
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('close');
+  }
 }
 
 
@@ -394,6 +408,13 @@ export class LeftItem extends BaseItem {
     return super.checkItem(item);
   }
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('right');
+  }
+
 }
 
 
@@ -472,6 +493,13 @@ export class BeginItem extends BaseItem {
     return super.checkItem(item);
   }
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('end') && item.getName() === this.getName();
+  }
+
 }
 
 
@@ -757,6 +785,18 @@ export class DotsItem extends BaseItem {
 }
 
 
+/**
+ * The data for an entry given by \multicolumn.
+ */
+export type MultiColumn = {
+  span: number;          // the number of columns spanned
+  align: string;         // the horizontal alignment of the entry
+  valign: string;        // the vertical alignment (for p, m, and b templates)
+  left: string;          // the rule style at the left of the entry
+  right: string;         // the rule style at the right of the entry
+};
+
+
 /**
  * Item indicating an array is assembled. It collates cells, rows and
  * information about column/row separator and framing lines.
@@ -799,6 +839,48 @@ export class ArrayItem extends BaseItem {
    */
   public dashed: boolean = false;
 
+  /**
+   * The TeX code to insert at the start of the entries in each column.
+   * @type {string[]}
+   */
+  public cstart: string[] = [];
+
+  /**
+   * The TeX code to insert at the end of the entries in each column.
+   * @type {string[]}
+   */
+  public cend: string[] = [];
+
+  /**
+   * True for the columns whose entries are in text mode.
+   * @type {boolean[]}
+   */
+  public ctext: boolean[] = [];
+
+  /**
+   * The vertical alignment of the entries in each column (for p, m, and b columns).
+   * @type {string[]}
+   */
+  public cvalign: string[] = [];
+
+  /**
+   * The line styles requested by \cline for the top of the next row (indexed by column).
+   * @type {string[]}
+   */
+  public clines: string[] = [];
+
+  /**
+   * The data for the current entry when it is given by \multicolumn.
+   * @type {MultiColumn}
+   */
+  public multicolumn: MultiColumn = null;
+
+  /**
+   * The number of columns given by the array's template (Infinity when it has none).
+   * @type {number}
+   */
+  public templateColumns: number = Infinity;
+
   /**
    * @override
    */
@@ -806,6 +888,20 @@ export class ArrayItem extends BaseItem {
     return 'array';
   }
 
+  /**
+   * The macros that can precede the contents of an entry, together with the
+   * arguments that they take ('{' for a required one, '[' for an optional one).
+   * The column decorations are inserted after these.
+   */
+  public get entryPrefixes(): {[name: string]: string} {
+    return {
+      hline: '',
+      hdashline: '[',
+      cline: '{',
+      cdashline: '{['
+    };
+  }
+
 
   /**
    * @override
@@ -832,6 +928,7 @@ export class ArrayItem extends BaseItem {
         // @test Array dashed column, Array solid column
         this.EndEntry();
         this.clearEnv();
+        this.StartEntry();
         return BaseItem.fail;
       }
       if (item.getProperty('isCR')) {
@@ -839,8 +936,17 @@ export class ArrayItem extends BaseItem {
         this.EndEntry();
         this.EndRow();
         this.clearEnv();
+        this.StartEntry();
         return BaseItem.fail;
       }
+      if ((item.isKind('close') && !this.getProperty('requireClose')) || item.isKind('right')) {
+        //
+        //  These would be errors for the item below the array, so report
+        //  them before closing the table.
+        //
+        const [id, message] = this.getErrors(item.kind);
+        throw new TexError(id, message, item.getName());
+      }
       this.EndTable();
       this.clearEnv();
       const scriptlevel = this.arraydef['scriptlevel'];
@@ -892,11 +998,66 @@ export class ArrayItem extends BaseItem {
   }
 
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return !!(item.getProperty('isEntry') || item.getProperty('isCR') || item.isKind('end') ||
+              (item.isKind('close') && this.getProperty('requireClose')));
+  }
+
+
+  /**
+   * Inserts the column decorations from the column template (the >{...}, <{...},
+   * @{...} and !{...} material) around the entry that is about to be parsed, and
+   * puts the entry into \text{...} if the column is in text mode.
+   */
+  public StartEntry() {
+    const j = this.getColumn();
+    const [start, end, text] = [this.cstart[j] || '', this.cend[j] || '', this.ctext[j]];
+    if (!start && !end && !text) return;
+    const parser = this.factory.configuration.parser;
+    const str = parser.string;
+    const i = this.skipPrefixes(str, parser.i);
+    if (str.slice(i).match(/^\s*\\multicolumn(?![a-zA-Z])/)) return;
+    const k = this.entryEnd(str, i);
+    const entry = str.slice(i, k);
+    if (!this.row.length && !entry.trim() && str.slice(k).match(/^(?:\\end(?![a-zA-Z])|$)/)) return;
+    parser.string = str.slice(0, i) + this.decorateEntry(entry, start, end, text) + str.slice(k);
+  }
+
+
+  /**
+   * @param {string} entry     The TeX code for the entry.
+   * @param {string} start     The code to insert before the entry.
+   * @param {string} end       The code to insert after the entry.
+   * @param {boolean} text     True if the entry is in text mode.
+   * @return {string}          The entry with its decorations.
+   */
+  public decorateEntry(entry: string, start: string, end: string, text: boolean): string {
+    const tex = this.joinCode(this.joinCode(start, text ? entry.trim() : entry), end);
+    return (text ? '\\text{' + tex + '}' : tex);
+  }
+
+
+  /**
+   * @param {string} before    The TeX code that comes first.
+   * @param {string} after     The TeX code that follows it.
+   * @return {string}          The combined code, with a space between them when
+   *                             the first ends in a control word that the second
+   *                             would otherwise extend.
+   */
+  protected joinCode(before: string, after: string): string {
+    return before + (before.match(/\\[a-zA-Z]+$/) && after.match(/^[a-zA-Z]/) ? ' ' : '') + after;
+  }
+
+
   /**
    * Finishes a single cell of the array.
    */
   public EndEntry() {
     // @test Array1, Array2
+    const j = this.getColumn();
     const mtd = this.create('node', 'mtd', this.nodes);
     if (this.hfill.length) {
       if (this.hfill[0] === 0) {
@@ -908,17 +1069,179 @@ export class ArrayItem extends BaseItem {
           NodeUtil.getAttribute(mtd, 'columnalign') ? 'center' : 'left');
       }
     }
+    this.setColumnData(mtd, j);
     this.row.push(mtd);
     this.Clear();
     this.hfill = [];
   }
 
 
+  /**
+   * Sets the attributes of a cell that come from \multicolumn or the column template.
+   *
+   * @param {MmlNode} mtd    The cell to modify.
+   * @param {number} j       The column where the cell starts.
+   */
+  protected setColumnData(mtd: MmlNode, j: number) {
+    const multicolumn = this.multicolumn;
+    if (!multicolumn) {
+      if (this.cvalign[j]) {
+        NodeUtil.setAttribute(mtd, 'rowalign', this.cvalign[j]);
+      }
+      return;
+    }
+    this.multicolumn = null;
+    if (multicolumn.span > 1) {
+      NodeUtil.setAttribute(mtd, 'columnspan', multicolumn.span);
+    }
+    NodeUtil.setAttribute(mtd, 'columnalign', multicolumn.align);
+    if (multicolumn.valign) {
+      NodeUtil.setAttribute(mtd, 'rowalign', multicolumn.valign);
+    }
+    //
+    //  The entry replaces the rule at its right (and at its left when it is in the first column),
+    //    except where the rule is part of the frame.
+    //
+    const columns = (this.arraydef['columnalign'] as string || '').split(/ /).length;
+    const left = multicolumn.left || (j === 0 ? 'none' : '');
+    if (left && !(j === 0 && this.frame.indexOf('left') >= 0)) {
+      this.setBorder(mtd, 3, left);
+    }
+    if (!(j + multicolumn.span === columns && this.frame.indexOf('right') >= 0)) {
+      this.setBorder(mtd, 1, multicolumn.right || 'none');
+    }
+  }
+
+
+  /**
+   * Sets the style of one of the borders of a cell.
+   *
+   * @param {MmlNode} mtd     The cell whose border is to be set.
+   * @param {number} side     The side to set (0 = top, 1 = right, 2 = bottom, 3 = left).
+   * @param {string} style    The line style for the border ('none' removes the array's rule there).
+   */
+  public setBorder(mtd: MmlNode, side: number, style: string) {
+    const borders = (NodeUtil.getAttribute(mtd, 'data-borders') as string || 'inherit inherit inherit inherit').split(/ /);
+    borders[side] = style;
+    NodeUtil.setAttribute(mtd, 'data-borders', borders.join(' '));
+  }
+
+
+  /**
+   * @return {number}   The column where the next entry starts (taking spanned columns into account).
+   */
+  public getColumn(): number {
+    return this.row.reduce((j, mtd) => j + ((NodeUtil.getAttribute(mtd, 'columnspan') as number) || 1), 0);
+  }
+
+
+  /**
+   * Adds the borders requested by \cline to the cells of a row.
+   *
+   * @param {MmlNode[]} cells   The cells of the row.
+   * @param {number} side       The side of the cells to use (0 = top, 2 = bottom).
+   */
+  protected addClines(cells: MmlNode[], side: number) {
+    let j = 0;
+    for (const mtd of cells) {
+      const n = (NodeUtil.getAttribute(mtd, 'columnspan') as number) || 1;
+      const style = this.clines.slice(j, j + n).filter(line => !!line)[0];
+      if (style) {
+        this.setBorder(mtd, side, style);
+      }
+      j += n;
+    }
+    this.clines = [];
+  }
+
+
+  /**
+   * @param {string} str        The string being parsed.
+   * @param {number} i          The position of the start of an entry.
+   * @param {Object} prefixes   The macros to skip (and their arguments).
+   * @return {number}           The position following any prefix macros (and their arguments).
+   */
+  protected skipPrefixes(str: string, i: number, prefixes: {[name: string]: string} = this.entryPrefixes): number {
+    let match;
+    while ((match = str.slice(i).match(/^\s*\\([a-zA-Z]+)/)) && prefixes.hasOwnProperty(match[1])) {
+      i += match[0].length;
+      for (const arg of prefixes[match[1]].split('')) {
+        const space = str.slice(i).match(/^\s*/)[0].length;
+        if (str.charAt(i + space) === arg) {
+          i = this.groupEnd(str, i + space);
+        } else if (arg === '{') {
+          break;
+        }
+      }
+    }
+    return i;
+  }
+
+
+  /**
+   * @param {string} str   The string being parsed.
+   * @param {number} i     The position of an open brace or bracket.
+   * @return {number}      The position following the matching close brace or bracket.
+   */
+  protected groupEnd(str: string, i: number): number {
+    const close = (str.charAt(i) === '{' ? '}' : ']');
+    let braces = 0;
+    for (i++; i < str.length; i++) {
+      const c = str.charAt(i);
+      if (c === '\\') {
+        i++;
+      } else if (c === close && braces === 0) {
+        return i + 1;
+      } else if (c === '{') {
+        braces++;
+      } else if (c === '}') {
+        braces--;
+      }
+    }
+    return i;
+  }
+
+
+  /**
+   * @param {string} str   The string being parsed.
+   * @param {number} i     The position of the start of an entry.
+   * @return {number}      The position of the end of the entry (the &, \\, \cr, or \end
+   *                         that is not in braces or a nested environment).
+   */
+  protected entryEnd(str: string, i: number): number {
+    let [braces, envs] = [0, 0];
+    while (i < str.length) {
+      const c = str.charAt(i);
+      if (c === '{') {
+        braces++;
+      } else if (c === '}') {
+        if (!braces) break;
+        braces--;
+      } else if (c === '&' && !braces && !envs) {
+        break;
+      } else if (c === '\\') {
+        const cs = str.slice(i).match(/^\\(?:[a-zA-Z]+|.|$)/)[0];
+        if (!braces) {
+          if ((cs === '\\\\' || cs === '\\cr' || cs === '\\end') && !envs) break;
+          envs += (cs === '\\begin' ? 1 : cs === '\\end' ? -1 : 0);
+        }
+        i += cs.length;
+        continue;
+      }
+      i++;
+    }
+    return i;
+  }
+
+
   /**
    * Finishes a single row of the array.
    */
   public EndRow() {
     let node: MmlNode;
+    if (this.clines.length) {
+      this.addClines(this.row, 0);
+    }
     if (this.getProperty('isNumbered') && this.row.length === 3) {
       // @test Label, Matrix Numbered
       this.row.unshift(this.row.pop());  // move equation number to first
@@ -941,6 +1264,10 @@ export class ArrayItem extends BaseItem {
       this.EndEntry();
       this.EndRow();
     }
+    if (this.clines.length && this.table.length) {
+      const row = this.table[this.table.length - 1];
+      this.addClines(row.childNodes.slice(row.isKind('mlabeledtr') ? 1 : 0) as MmlNode[], 2);
+    }
     this.checkLines();
   }
 
@@ -1003,6 +1330,7 @@ export class EqnArrayItem extends ArrayItem {
       ParseUtil.fixInitialMO(this.factory.configuration, this.nodes);
     }
     const node = this.create('node', 'mtd', this.nodes);
+    this.setColumnData(node, this.getColumn());
     this.row.push(node);
     this.Clear();
   }
@@ -1081,4 +1409,11 @@ export class EquationItem extends BaseItem {
     return super.checkItem(item);
   }
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('end');
+  }
+
 }
@@ -34,7 +34,7 @@ import ParseUtil from '../ParseUtil.js';
 import {MmlNode, TEXCLASS} from '../../../core/MmlTree/MmlNode.js';
 import {MmlMsubsup} from '../../../core/MmlTree/MmlNodes/msubsup.js';
 import {MmlMunderover} from '../../../core/MmlTree/MmlNodes/munderover.js';
-import {Label} from '../Tags.js';
+import {Label, Reference} from '../Tags.js';
 import {entities} from '../../../util/Entities.js';
 import '../../../util/entities/n.js';
 import '../../../util/entities/p.js';
@@ -95,6 +95,21 @@ BaseMethods.Tilde = function(parser: TexParser, _c: string) {
  */
 BaseMethods.Space = function(_parser: TexParser, _c: string) {};
 
+
+/**
+ * Throw the error for a script whose argument is another script (e.g., x^^2),
+ * before its base is removed from the stack.
+ * @param {TexParser} parser The calling parser.
+ */
+function checkScriptArgument(parser: TexParser) {
+  const top = parser.stack.Top();
+  if (top.isKind('subsup')) {
+    const error = (top as sitem.SubsupItem).getErrors(['', 'sub', 'sup'][top.getProperty('position') as number]);
+    throw new TexError(error[0], error[1], ...error.slice(2));
+  }
+}
+
+
 /**
  * Handle ^
  * @param {TexParser} parser The calling parser.
@@ -106,13 +121,14 @@ BaseMethods.Superscript = function(parser: TexParser, _c: string) {
     parser.string = parser.string.substr(0, parser.i + 1) +
       ' ' + parser.string.substr(parser.i + 1);
   }
+  checkScriptArgument(parser);
   let primes: MmlNode;
   let base: MmlNode | void;
   const top = parser.stack.Top();
-  if (top.isKind('prime')) {
+  const prime = top.isKind('prime');
+  if (prime) {
     // @test Prime on Prime
     [base, primes] = top.Peek(2);
-    parser.stack.Pop();
   } else {
     // @test Empty base2, Square, Cube
     base = parser.stack.Prev();
@@ -130,8 +146,14 @@ BaseMethods.Superscript = function(parser: TexParser, _c: string) {
        NodeUtil.getChildAt(base, (base as MmlMunderover).over) &&
        !NodeUtil.getProperty(base, 'subsupOK'))) {
     // @test Double-super-error, Double-over-error
+    if (!prime) {
+      top.Push(base as MmlNode);  // so that the base isn't lost when recovering from the error
+    }
     throw new TexError('DoubleExponent', 'Double exponent: use braces to clarify');
   }
+  if (prime) {
+    parser.stack.Pop();
+  }
   if (!NodeUtil.isType(base, 'msubsup') || NodeUtil.isType(base, 'msup')) {
     if (movesupsub) {
       // @test Move Superscript, Large Operator
@@ -166,12 +188,13 @@ BaseMethods.Subscript = function(parser: TexParser, _c: string) {
       parser.string.substr(0, parser.i + 1) + ' ' +
       parser.string.substr(parser.i + 1);
   }
+  checkScriptArgument(parser);
   let primes, base;
   const top = parser.stack.Top();
-  if (top.isKind('prime')) {
+  const prime = top.isKind('prime');
+  if (prime) {
     // @test Prime on Sub
     [base, primes] = top.Peek(2);
-    parser.stack.Pop();
   } else {
     base = parser.stack.Prev();
     if (!base) {
@@ -188,8 +211,14 @@ BaseMethods.Subscript = function(parser: TexParser, _c: string) {
        NodeUtil.getChildAt(base, (base as MmlMunderover).under) &&
        !NodeUtil.getProperty(base, 'subsupOK'))) {
     // @test Double-sub-error, Double-under-error
+    if (!prime) {
+      top.Push(base);  // so that the base isn't lost when recovering from the error
+    }
     throw new TexError('DoubleSubscripts', 'Double subscripts: use braces to clarify');
   }
+  if (prime) {
+    parser.stack.Pop();
+  }
   if (!NodeUtil.isType(base, 'msubsup') || NodeUtil.isType(base, 'msup')) {
     if (movesupsub) {
       // @test Large Operator, Move Superscript
@@ -1170,11 +1199,11 @@ BaseMethods.Entry = function(parser: TexParser, name: string) {
         throw new TexError('ExtraAlignTab', 'Extra alignment tab in \\cases text');
       } else if (c === '\\') {
         //
-        //  If the macro is \cr or \\, end the search, otherwise skip the macro
-        //  (multi-letter names don't matter, as we will skip the rest of the
-        //   characters in the main loop)
+        //  If the macro is \cr, \\, or \end (for cases environments), end the search,
+        //  otherwise skip the macro (multi-letter names don't matter, as we will
+        //  skip the rest of the characters in the main loop)
         //
-        if (str.substr(i).match(/^((\\cr)[^a-zA-Z]|\\\\)/)) {
+        if (str.substr(i).match(/^((\\cr|\\end)[^a-zA-Z]|\\\\)/)) {
           m = 0;
         } else {
           i += 2;
@@ -1271,7 +1300,7 @@ BaseMethods.CrLaTeX = function(parser: TexParser, name: string, nobrackets: bool
  * @param {string} name The macro name.
  * @param {string} style Style of the line. E.g., dashed.
  */
-BaseMethods.HLine = function(parser: TexParser, _name: string, style: string) {
+BaseMethods.HLine = function(parser: TexParser, name: string, style: string) {
   if (style == null) {
     style = 'solid';
   }
@@ -1280,6 +1309,12 @@ BaseMethods.HLine = function(parser: TexParser, _name: string, style: string) {
     // @test Misplaced hline
     throw new TexError('Misplaced', 'Misplaced %1', parser.currentCS);
   }
+  if (style === 'dashed') {
+    const dash = parser.GetBrackets(name);
+    if (dash) {
+      style = parser.configuration.columnParser.getDashStyle(dash, parser.currentCS);
+    }
+  }
   if (!top.table.length) {
     // @test Enclosed top, Enclosed top bottom
     top.frame.push('top');
@@ -1295,6 +1330,70 @@ BaseMethods.HLine = function(parser: TexParser, _name: string, style: string) {
 };
 
 
+/**
+ * Handle \cline and \cdashline, which draw lines above some of the columns of the next row.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {string} style Style of the line. E.g., dashed.
+ */
+BaseMethods.CLine = function(parser: TexParser, name: string, style: string) {
+  const top = parser.stack.Top();
+  if (!(top instanceof sitem.ArrayItem) || top.Size() || top.row.length) {
+    throw new TexError('Misplaced', 'Misplaced %1', parser.currentCS);
+  }
+  const range = parser.GetArgument(name);
+  const match = range.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  if (!match || parseInt(match[1]) < 1 || parseInt(match[1]) > parseInt(match[2])) {
+    throw new TexError('BadColumnRange', 'Invalid column range for %1: %2', parser.currentCS, range);
+  }
+  if (parseInt(match[2]) > top.templateColumns) {
+    throw new TexError('ExtraColumns', '%1 extends past the last column of the array', parser.currentCS);
+  }
+  if (style === 'dashed') {
+    const dash = parser.GetBrackets(name);
+    if (dash) {
+      style = parser.configuration.columnParser.getDashStyle(dash, parser.currentCS);
+    }
+  }
+  for (let j = parseInt(match[1]) - 1; j < parseInt(match[2]); j++) {
+    top.clines[j] = style;
+  }
+};
+
+
+/**
+ * Handle \multicolumn{n}{template}{entry}, which makes an entry that spans several columns.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+BaseMethods.MultiColumn = function(parser: TexParser, name: string) {
+  const top = parser.stack.Top();
+  if (!(top instanceof sitem.ArrayItem) || top.Size() || top.multicolumn) {
+    throw new TexError('Misplaced', 'Misplaced %1', parser.currentCS);
+  }
+  const n = parser.GetArgument(name);
+  const template = parser.GetArgument(name);
+  const entry = parser.GetArgument(name);
+  if (!n.match(/^\s*\d+\s*$/) || !parseInt(n)) {
+    throw new TexError('PositiveIntegerArg', 'Argument to %1 must be a positive integer', parser.currentCS);
+  }
+  if (top.getColumn() + parseInt(n) > top.templateColumns) {
+    throw new TexError('ExtraColumns', '%1 extends past the last column of the array', parser.currentCS);
+  }
+  const column = parser.configuration.columnParser.parse(template, parser.currentCS);
+  top.multicolumn = {
+    span: parseInt(n),
+    align: column.calign[0] || 'center',
+    valign: column.cvalign[0] || '',
+    left: column.clines[0] || '',
+    right: column.clines[1] || ''
+  };
+  const [start, end] = [column.cstart[0] || '', column.cend[0] || ''];
+  parser.string = top.decorateEntry(entry, start, end, column.ctext[0]) + parser.string.slice(parser.i);
+  parser.i = 0;
+};
+
+
 /**
  * Handle hfill commands.
  * @param {TexParser} parser The calling parser.
@@ -1370,31 +1469,13 @@ BaseMethods.Array = function(parser: TexParser, begin: StackItem,
     // @test Array Single
     align = parser.GetArgument('\\begin{' + begin.getName() + '}');
   }
-  let lines = ('c' + align).replace(/[^clr|:]/g, '').replace(/[^|:]([|:])+/g, '$1');
-  align = align.replace(/[^clr]/g, '').split('').join(' ');
-  align = align.replace(/l/g, 'left').replace(/r/g, 'right').replace(/c/g, 'center');
   const array = parser.itemFactory.create('array') as sitem.ArrayItem;
   array.arraydef = {
-    columnalign: align,
     columnspacing: (spacing || '1em'),
     rowspacing: (vspacing || '4pt')
   };
-  if (lines.match(/[|:]/)) {
-    // @test Enclosed left right
-    if (lines.charAt(0).match(/[|:]/)) {
-      // @test Enclosed left right, Enclosed left
-      array.frame.push('left');
-      array.dashed = lines.charAt(0) === ':';
-    }
-    if (lines.charAt(lines.length - 1).match(/[|:]/)) {
-      // @test Enclosed left right, Enclosed right
-      array.frame.push('right');
-    }
-    // @test Enclosed left right
-    lines = lines.substr(1, lines.length - 2);
-    array.arraydef.columnlines =
-      lines.split('').join(' ').replace(/[^|: ]/g, 'none').replace(/\|/g, 'solid').replace(/:/g, 'dashed');
-  }
+  // @test Enclosed left right, Array dashed column, Array solid column
+  parser.configuration.columnParser.process(align, array, '\\begin{' + begin.getName() + '}');
   if (open)  {
     // @test Cross Product
     array.setProperty('open', parser.convertDelimiter(open));
@@ -1420,6 +1501,7 @@ BaseMethods.Array = function(parser: TexParser, begin: StackItem,
     array.arraydef['useHeight'] = false;
   }
   parser.Push(begin);
+  array.StartEntry();
   return array;
 };
 
@@ -1506,20 +1588,18 @@ BaseMethods.HandleLabel = function(parser: TexParser, name: string) {
     // @test Label Empty
     return;
   }
-  if (!parser.tags.refUpdate) {
-    // @test Label, Ref, Ref Unknown
-    if (parser.tags.label) {
-      // @test Double Label Error
-      throw new TexError('MultipleCommand', 'Multiple %1', parser.currentCS);
-    }
-    parser.tags.label = label;
-    if ((parser.tags.allLabels[label] || parser.tags.labels[label]) && !parser.options['ignoreDuplicateLabels']) {
-      // @ Duplicate Label Error
-      throw new TexError('MultipleLabel', 'Label \'%1\' multiply defined', label);
-    }
-    // TODO: This should be set in the tags structure!
-    parser.tags.labels[label] = new Label(); // will be replaced by tag value later
+  // @test Label, Ref, Ref Unknown
+  if (parser.tags.label) {
+    // @test Double Label Error
+    throw new TexError('MultipleCommand', 'Multiple %1', parser.currentCS);
   }
+  parser.tags.label = label;
+  if ((parser.tags.allLabels[label] || parser.tags.labels[label]) && !parser.options['ignoreDuplicateLabels']) {
+    // @ Duplicate Label Error
+    throw new TexError('MultipleLabel', 'Label \'%1\' multiply defined', label);
+  }
+  // TODO: This should be set in the tags structure!
+  parser.tags.labels[label] = new Label(); // will be replaced by tag value later
 };
 
 
@@ -1533,11 +1613,10 @@ BaseMethods.HandleRef = function(parser: TexParser, name: string, eqref: boolean
   // @test Ref, Ref Unknown, Eqref, Ref Default, Ref Named
   let label = parser.GetArgument(name);
   let ref = parser.tags.allLabels[label] || parser.tags.labels[label];
-  if (!ref) {
+  parser.configuration.nocache = true;
+  const unknown = !ref;
+  if (unknown) {
     // @test Ref Unknown
-    if (!parser.tags.refUpdate) {
-      parser.tags.redo = true;
-    }
     ref = new Label();
   }
   let tag = ref.tag;
@@ -1546,8 +1625,12 @@ BaseMethods.HandleRef = function(parser: TexParser, name: string, eqref: boolean
     tag = parser.tags.formatTag(tag);
   }
   let node = parser.create('node', 'mrow', ParseUtil.internalMath(parser, tag), {
-    href: parser.tags.formatUrl(ref.id, parser.options.baseURL), 'class': 'MathJax_ref'
+    href: parser.tags.formatUrl(ref.id, ref.url || parser.options.baseURL), 'class': 'MathJax_ref'
   });
+  if (unknown) {
+    // The placeholder is patched when the label is defined
+    parser.tags.refs.push(new Reference(label, eqref, node, parser));
+  }
   parser.Push(node);
 };
 
@@ -67,6 +67,14 @@ export class BraketItem extends BaseItem {
   }
 
 
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('close');
+  }
+
+
   /**
    * @override
    */
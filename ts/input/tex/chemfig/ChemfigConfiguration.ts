@@ -0,0 +1,41 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Configuration file for the chemfig package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {Configuration} from '../Configuration.js';
+import './ChemfigMappings.js';
+
+
+export const ChemfigConfiguration = Configuration.create(
+  'chemfig', {
+    handler: {
+      macro: ['chemfig-macros']
+    },
+    options: {
+      chemfig: {
+        atomSep: '3em',         // the default distance between the centers of bonded atoms
+        angleIncrement: 45      // the number of degrees for each unit of an integer bond angle
+      }
+    }
+  }
+);
@@ -1,35 +1,35 @@
 /*************************************************************
  *
- *  MathJax/jax/output/HTML-CSS/optable/CombDiacritMarks.js
- *
- *  Copyright (c) 2010-2017 The MathJax Consortium
+ *  Copyright (c) 2020 The MathJax Consortium
  *
  *  Licensed under the Apache License, Version 2.0 (the "License");
  *  you may not use this file except in compliance with the License.
  *  You may obtain a copy of the License at
  *
- *     http://www.apache.org/licenses/LICENSE-2.0
+ *      http://www.apache.org/licenses/LICENSE-2.0
  *
  *  Unless required by applicable law or agreed to in writing, software
  *  distributed under the License is distributed on an "AS IS" BASIS,
  *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  *  See the License for the specific language governing permissions and
  *  limitations under the License.
- *
  */
 
-(function (MML) {
-  var MO = MML.mo.OPTYPES;
-  var TEXCLASS = MML.TEXCLASS;
 
-  MathJax.Hub.Insert(MML.mo.prototype,{
-    OPTABLE: {
-      postfix: {
-        '\u0311': MO.ACCENT    // combining inverted breve
-      }
-    }
-  });
+/**
+ * @fileoverview Mappings for TeX parsing of the chemfig package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ChemfigMethods} from './ChemfigMethods.js';
+import {CommandMap} from '../SymbolMap.js';
 
-  MathJax.Ajax.loadComplete(MML.optableDir+"/CombDiacritMarks.js");
 
-})(MathJax.ElementJax.mml);
+/**
+ * The chemfig macros.
+ */
+new CommandMap('chemfig-macros', {
+  chemfig: 'Chemfig',
+  setchemfig: 'SetChemfig'
+}, ChemfigMethods);
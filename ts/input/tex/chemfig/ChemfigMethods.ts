@@ -0,0 +1,75 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The chemfig parse methods.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ParseMethod} from '../Types.js';
+import ParseUtil from '../ParseUtil.js';
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import {ChemfigParser} from './ChemfigParser.js';
+
+
+/**
+ * The \setchemfig keys and the options that they set
+ */
+const KEYS: {[key: string]: string} = {
+  'atom sep': 'atomSep',
+  'angle increment': 'angleIncrement'
+};
+
+
+// Namespace
+export const ChemfigMethods: Record<string, ParseMethod> = {};
+
+
+/**
+ * Handle \chemfig[options]{molecule} (the TikZ options are ignored).
+ *
+ * @param {TexParser} parser    The calling parser.
+ * @param {string} name         The macro name.
+ */
+ChemfigMethods.Chemfig = function(parser: TexParser, name: string) {
+  parser.GetBrackets(name);
+  const molecule = parser.GetArgument(name);
+  parser.Push(new ChemfigParser(parser, parser.currentCS).parse(molecule));
+};
+
+
+/**
+ * Handle \setchemfig{key=value,...}.
+ *
+ * @param {TexParser} parser    The calling parser.
+ * @param {string} name         The macro name.
+ */
+ChemfigMethods.SetChemfig = function(parser: TexParser, name: string) {
+  const options = parser.options.chemfig;
+  const keys = ParseUtil.keyvalOptions(parser.GetArgument(name), {'atom sep': 1, 'angle increment': 1}, true);
+  for (const key of Object.keys(keys)) {
+    const value = String(keys[key]);
+    if (key === 'atom sep' ? !ParseUtil.matchDimen(value)[0] : isNaN(parseFloat(value))) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', key, value);
+    }
+    options[KEYS[key]] = (key === 'atom sep' ? value : parseFloat(value));
+  }
+  parser.configuration.stateChange = true;
+};
@@ -0,0 +1,459 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Parser for the molecule descriptions used by \chemfig.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import ParseUtil from '../ParseUtil.js';
+import {MmlNode, TEXCLASS} from '../../../core/MmlTree/MmlNode.js';
+import {ChemStructure, ChemBond, ChemRing} from '../../../core/MmlTree/MmlNodes/ChemStructure.js';
+
+
+/**
+ * The data for a ring that is being parsed
+ */
+type RingState = {
+  start: number,        // the atom where the ring starts
+  sides: number,        // the number of sides of the ring
+  angle: number,        // the angle of the ring's first bond
+  bonds: number,        // the number of bonds parsed so far
+  atoms: number[]       // the atoms of the ring
+};
+
+/**
+ * The data for the chain (main chain, branch, or ring) that is being parsed
+ */
+type ChainState = {
+  atom: number,         // the current atom (-1 if there isn't one yet)
+  angle: number,        // the default angle for the next bond (the angle of the previous bond)
+  bond: ChemBond,       // a bond that is waiting for the atom at its end
+  ring: RingState       // the ring being parsed, if any
+};
+
+
+/**
+ * The bond types and their properties
+ */
+const BONDS: {[bond: string]: Partial<ChemBond>} = {
+  '-': {type: 'single'},
+  '=': {type: 'double', side: 0},
+  '=^': {type: 'double', side: 1},
+  '=_': {type: 'double', side: -1},
+  '~': {type: 'triple'},
+  '>': {type: 'wedge'},
+  '<': {type: 'wedge', reverse: true},
+  '>:': {type: 'hashed'},
+  '<:': {type: 'hashed', reverse: true},
+  '>|': {type: 'hollow'},
+  '<|': {type: 'hollow', reverse: true}
+};
+
+/**
+ * The pattern that matches the bond types
+ */
+const BONDPATTERN = /^(?:=[\^_]?|[<>][:|]?|-|~)/;
+
+/**
+ * The characters that end an atom
+ */
+const ATOMEND = /[-=~<>()*?]/;
+
+
+/**
+ * Class that turns a \chemfig molecule description into a ChemStructure node
+ */
+export class ChemfigParser {
+
+  /**
+   * The molecule description being parsed
+   */
+  protected string: string = '';
+
+  /**
+   * The current position in the description
+   */
+  protected i: number = 0;
+
+  /**
+   * The atoms of the structure (mrows whose children are the sub-atoms)
+   */
+  protected atoms: MmlNode[] = [];
+
+  /**
+   * The bonds between the atoms
+   */
+  protected bonds: ChemBond[] = [];
+
+  /**
+   * The rings that get circles
+   */
+  protected rings: ChemRing[] = [];
+
+  /**
+   * The atoms marked by ? (by name), for bonds that close cycles
+   */
+  protected hooks: {[name: string]: number} = {};
+
+  /**
+   * The default distance between bonded atoms (in ems)
+   */
+  protected sep: number;
+
+  /**
+   * The number of degrees for each unit of an integer bond angle
+   */
+  protected increment: number;
+
+  /**
+   * @param {TexParser} parser   The parser for the \chemfig macro.
+   * @param {string} name        The macro name (for error messages).
+   */
+  constructor(protected parser: TexParser, protected name: string) {
+    const options = parser.options.chemfig;
+    const sep = options.atomSep as string;
+    if (!ParseUtil.matchDimen(sep)[0]) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', 'atom sep', sep);
+    }
+    this.sep = ParseUtil.dimen2em(sep);
+    this.increment = parseFloat(options.angleIncrement) || 45;
+  }
+
+  /**
+   * @param {string} molecule   The molecule description.
+   * @return {MmlNode}          The ChemStructure node for the molecule.
+   */
+  public parse(molecule: string): MmlNode {
+    this.string = molecule;
+    this.i = 0;
+    this.parseChain({atom: -1, angle: 0, bond: null, ring: null});
+    if (this.i < this.string.length) {
+      throw new TexError('ExtraCloseParen', 'Extra close parenthesis in %1', this.name);
+    }
+    if (!this.atoms.length) {
+      this.atoms.push(this.parser.create('node', 'mrow'));
+    }
+    const node = this.parser.create('node', 'ChemStructure', this.atoms) as ChemStructure;
+    node.bonds = this.bonds;
+    node.rings = this.rings;
+    return node;
+  }
+
+  /**
+   * Parse a chain of atoms and bonds up to a close parenthesis or the end of the description.
+   *
+   * @param {ChainState} state   The state of the chain.
+   */
+  protected parseChain(state: ChainState) {
+    if (this.next() === '[') {
+      state.angle = this.getAngle(this.getOptions()[0], state.angle);
+    }
+    let c: string;
+    while ((c = this.next()) && c !== ')') {
+      if (this.string.slice(this.i).match(BONDPATTERN)) {
+        this.addBond(state);
+      } else if (c === '(') {
+        this.i++;
+        this.branch(state);
+      } else if (c === '*') {
+        this.ring(state);
+      } else if (c === '?') {
+        this.hook(state);
+      } else {
+        this.addAtom(state, this.getAtom());
+      }
+    }
+    if (state.bond) {
+      this.addAtom(state, []);
+    }
+  }
+
+  /**
+   * @return {string}   The next non-space character of the description (or '' at the end).
+   */
+  protected next(): string {
+    while (this.string.charAt(this.i).match(/\s/)) {
+      this.i++;
+    }
+    return this.string.charAt(this.i);
+  }
+
+  /**
+   * Make sure there is a current atom for a bond, branch, ring, or hook to attach to
+   * (an empty one is added if not).
+   *
+   * @param {ChainState} state   The state of the chain.
+   */
+  protected currentAtom(state: ChainState) {
+    if (state.atom < 0 || state.bond) {
+      this.addAtom(state, []);
+    }
+  }
+
+  /**
+   * Add an atom to the structure, completing the pending bond, if any.
+   *
+   * @param {ChainState} state    The state of the chain.
+   * @param {string[]} subatoms   The TeX for the sub-atoms of the atom.
+   */
+  protected addAtom(state: ChainState, subatoms: string[]) {
+    if (state.atom >= 0 && !state.bond) {
+      throw new TexError('MissingBond', 'Missing bond before %1 in %2', subatoms.join(''), this.name);
+    }
+    const parser = this.parser;
+    const n = this.atoms.length;
+    this.atoms.push(parser.create('node', 'mrow', subatoms.map(tex => {
+      const mml = new TexParser('\\mathrm{' + tex + '}', parser.stack.env, parser.configuration).mml();
+      return parser.create('node', 'TeXAtom', [mml], {texClass: TEXCLASS.ORD});
+    })));
+    if (state.bond) {
+      state.bond.to = n;
+      this.bonds.push(state.bond);
+      state.bond = null;
+    }
+    if (state.ring) {
+      state.ring.atoms.push(n);
+    }
+    state.atom = n;
+  }
+
+  /**
+   * Get the sub-atoms of the next atom.  A new sub-atom starts at each
+   * upper-case letter that is not in braces.
+   *
+   * @return {string[]}   The TeX strings for the sub-atoms.
+   */
+  protected getAtom(): string[] {
+    const subatoms: string[] = [];
+    let tex = '';
+    let c: string;
+    while ((c = this.next()) && !c.match(ATOMEND)) {
+      if (c.match(/[A-Z]/) && tex) {
+        subatoms.push(tex);
+        tex = '';
+      }
+      if (c === '{') {
+        tex += this.getGroup();
+      } else if (c === '\\') {
+        const cs = this.string.slice(this.i).match(/^\\(?:[a-zA-Z]+|.?)/)[0];
+        tex += cs + (cs.match(/[a-zA-Z]$/) ? ' ' : '');
+        this.i += cs.length;
+      } else if (c === '}') {
+        throw new TexError('ExtraCloseMissingOpen', 'Extra close brace or missing open brace');
+      } else {
+        tex += c;
+        this.i++;
+      }
+    }
+    if (tex) {
+      subatoms.push(tex);
+    }
+    return subatoms;
+  }
+
+  /**
+   * @return {string}   The braced group at the current position (including the braces).
+   */
+  protected getGroup(): string {
+    const start = this.i;
+    let braces = 0;
+    while (this.i < this.string.length) {
+      const c = this.string.charAt(this.i++);
+      if (c === '\\') {
+        this.i++;
+      } else if (c === '{') {
+        braces++;
+      } else if (c === '}' && --braces === 0) {
+        return this.string.slice(start, this.i);
+      }
+    }
+    throw new TexError('MissingCloseBrace', 'Missing close brace');
+  }
+
+  /**
+   * @return {string[]}   The comma-separated options in brackets at the current position.
+   */
+  protected getOptions(): string[] {
+    if (this.next() !== '[') {
+      return [];
+    }
+    const start = ++this.i;
+    let braces = 0;
+    while (this.i < this.string.length) {
+      const c = this.string.charAt(this.i++);
+      if (c === '{') {
+        braces++;
+      } else if (c === '}') {
+        braces--;
+      } else if (c === ']' && !braces) {
+        return this.string.slice(start, this.i - 1).split(/,/).map(option => option.trim());
+      }
+    }
+    throw new TexError('MissingCloseBracket', 'Could not find closing \']\' for argument to %1', this.name);
+  }
+
+  /**
+   * @param {string} spec      The angle specification (n, :angle, or ::angle).
+   * @param {number} current   The angle to use if none is given (and the base for relative angles).
+   * @return {number}          The angle (in degrees).
+   */
+  protected getAngle(spec: string, current: number): number {
+    if (!spec) {
+      return current;
+    }
+    const match = spec.match(/^(:{0,2})\s*([-+]?(?:\d+\.?\d*|\.\d+))$/);
+    if (!match) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', 'angle', spec);
+    }
+    const value = parseFloat(match[2]);
+    return (match[1] === '::' ? current + value : match[1] === ':' ? value : value * this.increment);
+  }
+
+  /**
+   * @param {string} spec   The sub-atom number (starting at 1), or an empty string.
+   * @return {number}       The index of the sub-atom (or -1 for the default).
+   */
+  protected getSubatom(spec: string): number {
+    if (!spec) {
+      return -1;
+    }
+    if (!spec.match(/^\d+$/) || !parseInt(spec)) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', 'atom number', spec);
+    }
+    return parseInt(spec) - 1;
+  }
+
+  /**
+   * Parse a bond and its options.
+   *
+   * @param {ChainState} state   The state of the chain.
+   */
+  protected addBond(state: ChainState) {
+    this.currentAtom(state);
+    const type = this.string.slice(this.i).match(BONDPATTERN)[0];
+    this.i += type.length;
+    const [angle, length, departure, arrival, tikz] = this.getOptions();
+    const scale = (length ? parseFloat(length) : 1);
+    if (isNaN(scale)) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', 'length', length);
+    }
+    const bond: ChemBond = {
+      from: state.atom, to: -1,
+      angle: this.getAngle(angle, state.angle),
+      length: scale * this.sep,
+      departure: this.getSubatom(departure),
+      arrival: this.getSubatom(arrival),
+      type: 'single', reverse: false, side: 0, place: true,
+      ...BONDS[type]
+    };
+    if (tikz && tikz.match(/^draw\s*=\s*none$/)) {
+      bond.type = 'none';
+    }
+    const ring = state.ring;
+    if (ring) {
+      bond.angle = ring.angle + 360 * ring.bonds / ring.sides;
+      if (++ring.bonds === ring.sides) {
+        bond.to = ring.start;
+        bond.place = false;
+        this.bonds.push(bond);
+        state.ring = null;
+        state.atom = ring.start;
+        state.angle = bond.angle;
+        return;
+      }
+    }
+    state.bond = bond;
+    state.angle = bond.angle;
+  }
+
+  /**
+   * Parse a branch from the current atom.
+   *
+   * @param {ChainState} state   The state of the chain containing the branch.
+   */
+  protected branch(state: ChainState) {
+    this.currentAtom(state);
+    const ring = state.ring;
+    const angle = (ring && ring.bonds ? state.angle + 180 / ring.sides - 90 : state.angle);
+    this.parseChain({atom: state.atom, angle: angle, bond: null, ring: null});
+    this.closeParen();
+  }
+
+  /**
+   * Parse a ring (*n(...) or **n(...) for one with a circle) starting at the current atom.
+   *
+   * @param {ChainState} state   The state of the chain containing the ring.
+   */
+  protected ring(state: ChainState) {
+    const incoming = (state.atom >= 0 || !!state.bond);
+    this.currentAtom(state);
+    const match = this.string.slice(this.i).match(/^(\*\*?)\s*(\d+)\s*\(/);
+    if (!match || parseInt(match[2]) < 3) {
+      throw new TexError('BadRingSize', 'Invalid ring size in %1', this.name);
+    }
+    this.i += match[0].length;
+    const sides = parseInt(match[2]);
+    const angle = (incoming ? state.angle : 180 / sides) - 90 + 180 / sides;
+    const ring: RingState = {start: state.atom, sides: sides, angle: angle, bonds: 0, atoms: [state.atom]};
+    this.parseChain({atom: state.atom, angle: angle, bond: null, ring: ring});
+    this.closeParen();
+    if (match[1] === '**') {
+      this.rings.push({atoms: ring.atoms});
+    }
+  }
+
+  /**
+   * Parse a hook (?, ?[name], or ?[name,bond]) that connects atoms to close a cycle.
+   *
+   * @param {ChainState} state   The state of the chain.
+   */
+  protected hook(state: ChainState) {
+    this.currentAtom(state);
+    this.i++;
+    const [name, type] = (this.string.charAt(this.i) === '[' ? this.getOptions() : []);
+    const key = name || 'a';
+    if (!this.hooks.hasOwnProperty(key)) {
+      this.hooks[key] = state.atom;
+      return;
+    }
+    const bond = (type || '-').replace(/^\{(.*)\}$/, '$1');
+    if (!BONDS.hasOwnProperty(bond)) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', 'bond', bond);
+    }
+    this.bonds.push({
+      from: this.hooks[key], to: state.atom, angle: 0, length: 0, departure: -1, arrival: -1,
+      type: 'single', reverse: false, side: 0, place: false,
+      ...BONDS[bond]
+    });
+  }
+
+  /**
+   * Check for and skip the close parenthesis of a branch or ring.
+   */
+  protected closeParen() {
+    if (this.next() !== ')') {
+      throw new TexError('MissingCloseParen', 'Missing close parenthesis in %1', this.name);
+    }
+    this.i++;
+  }
+
+}
@@ -0,0 +1,67 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview Configuration file for the colortbl package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {CommandMap} from '../SymbolMap.js';
+import {Configuration, ParserConfiguration} from '../Configuration.js';
+import {ColortblMethods} from './ColortblMethods.js';
+import {ColorArrayItem} from './ColortblItems.js';
+import {ColorModel} from '../color/ColorUtil.js';
+import {TeX} from '../../tex.js';
+
+/**
+ * The colortbl macros
+ */
+new CommandMap('colortbl', {
+  cellcolor: 'CellColor',
+  columncolor: 'ColumnColor',
+  rowcolor: 'RowColor'
+}, ColortblMethods);
+
+/**
+ * Config method for the colortbl package.  The array item is set here rather
+ * than in the items list so that it replaces the one from the base package
+ * (which is configured after this one).  Use the color package's color model,
+ * or create one if that package isn't loaded.
+ *
+ * @param {Configuration} config The current configuration.
+ * @param {TeX} jax              The TeX jax having that configuration
+ */
+const config = function(_config: ParserConfiguration, jax: TeX<any, any, any>) {
+  jax.parseOptions.itemFactory.setNodeClass(ColorArrayItem.prototype.kind, ColorArrayItem);
+  const data = jax.parseOptions.packageData;
+  if (!data.has('color')) {
+    data.set('color', {model: new ColorModel()});
+  }
+};
+
+/**
+ * The configuration for the colortbl macros
+ */
+export const ColortblConfiguration = Configuration.create(
+  'colortbl', {
+    handler: {
+      macro: ['colortbl']
+    },
+    config: config
+  }
+);
@@ -0,0 +1,104 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Stack items for the colortbl package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ArrayItem} from '../base/BaseItems.js';
+import NodeUtil from '../NodeUtil.js';
+
+
+/**
+ * The colortbl macros that can be moved out of a text-mode entry
+ * (with the arguments that they take).
+ */
+const COLORMACROS: {[name: string]: string} = {
+  cellcolor: '[{',
+  columncolor: '[{[[',
+  rowcolor: '[{[['
+};
+
+
+/**
+ * The array item with support for cell, row, and column colors.
+ */
+export class ColorArrayItem extends ArrayItem {
+
+  /**
+   * The background colors for the current cell, row, and column.
+   */
+  public color: {cell: string, row: string, col: string} = {cell: '', row: '', col: ''};
+
+  /**
+   * @override
+   */
+  public get entryPrefixes(): {[name: string]: string} {
+    return {
+      hline: '',
+      hdashline: '[',
+      cline: '{',
+      cdashline: '{[',
+      rowcolor: '[{[[',
+      cellcolor: '[{'
+    };
+  }
+
+  /**
+   * Keep the color macros out of \text{} so that they are processed as macros.
+   *
+   * @override
+   */
+  public decorateEntry(entry: string, start: string, end: string, text: boolean): string {
+    if (!text) {
+      return super.decorateEntry(entry, start, end, text);
+    }
+    const i = this.skipPrefixes(start, 0, COLORMACROS);
+    const k = this.skipPrefixes(entry, 0, COLORMACROS);
+    return start.slice(0, i) + entry.slice(0, k) + super.decorateEntry(entry.slice(k), start.slice(i), end, text);
+  }
+
+  /**
+   * The cell color takes precedence over the row color, which takes
+   *   precedence over the column color (the row color is set on the mtr).
+   *
+   * @override
+   */
+  public EndEntry() {
+    super.EndEntry();
+    const color = this.color.cell || (!this.color.row && this.color.col);
+    if (color) {
+      NodeUtil.setAttribute(this.row[this.row.length - 1], 'mathbackground', color);
+    }
+    this.color.cell = this.color.col = '';
+  }
+
+  /**
+   * @override
+   */
+  public EndRow() {
+    super.EndRow();
+    if (this.color.row) {
+      NodeUtil.setAttribute(this.table[this.table.length - 1], 'mathbackground', this.color.row);
+      this.color.row = '';
+    }
+  }
+
+}
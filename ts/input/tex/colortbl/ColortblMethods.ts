@@ -0,0 +1,112 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The colortbl parse methods.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ParseMethod} from '../Types.js';
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import {ArrayItem} from '../base/BaseItems.js';
+import {ColorModel} from '../color/ColorUtil.js';
+import {ColorArrayItem} from './ColortblItems.js';
+
+
+/**
+ * Find the array in which a color macro is used.
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {string} name        The macro name.
+ * @return {ColorArrayItem}    The array containing the macro.
+ */
+function GetArray(parser: TexParser, name: string): ColorArrayItem {
+  for (let n = 1, item; (item = parser.stack.Top(n)); n++) {
+    if (item instanceof ArrayItem) {
+      if (item instanceof ColorArrayItem) {
+        return item;
+      }
+      break;
+    }
+  }
+  throw new TexError('Misplaced', 'Misplaced %1', name);
+}
+
+
+/**
+ * Get the (optional) color model and the color for a color macro.
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {string} name        The macro name.
+ * @return {string}            The color.
+ */
+function GetColor(parser: TexParser, name: string): string {
+  const model = parser.GetBrackets(name, '');
+  const def = parser.GetArgument(name);
+  const colorModel: ColorModel = parser.configuration.packageData.get('color').model;
+  return colorModel.getColor(model, def);
+}
+
+
+// Namespace
+export const ColortblMethods: Record<string, ParseMethod> = {};
+
+
+/**
+ * Handle \cellcolor[model]{color}.
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {string} name        The macro name.
+ */
+ColortblMethods.CellColor = function(parser: TexParser, name: string) {
+  const array = GetArray(parser, parser.currentCS);
+  array.color.cell = GetColor(parser, name);
+};
+
+
+/**
+ * Handle \columncolor[model]{color}[left overhang][right overhang] (the overhangs are ignored).
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {string} name        The macro name.
+ */
+ColortblMethods.ColumnColor = function(parser: TexParser, name: string) {
+  const array = GetArray(parser, parser.currentCS);
+  array.color.col = GetColor(parser, name);
+  parser.GetBrackets(name);
+  parser.GetBrackets(name);
+};
+
+
+/**
+ * Handle \rowcolor[model]{color}[left overhang][right overhang] (the overhangs are ignored).
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {string} name        The macro name.
+ */
+ColortblMethods.RowColor = function(parser: TexParser, name: string) {
+  const top = parser.stack.Top();
+  if (!(top instanceof ColorArrayItem) || top.Size() || top.row.length) {
+    throw new TexError('Misplaced', 'Misplaced %1', parser.currentCS);
+  }
+  top.color.row = GetColor(parser, name);
+  parser.GetBrackets(name);
+  parser.GetBrackets(name);
+};
@@ -0,0 +1,115 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Configuration file for the mathtools package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {Configuration, ParserConfiguration} from '../Configuration.js';
+import {CommandMap} from '../SymbolMap.js';
+import {AbstractTags, TagsFactory} from '../Tags.js';
+import {TeX} from '../../tex.js';
+import {PAIRED_DELIMS, TagFormData} from './MathtoolsMethods.js';
+import './MathtoolsMappings.js';
+
+
+/**
+ * Number used to make tag class unique (each TeX input has to have its own
+ *  since the base class depends on the input jax's tags option)
+ */
+let tagID = 0;
+
+
+/**
+ * Init method for the mathtools package:  create the map for the paired delimiters.
+ * @param {ParserConfiguration} config The current configuration.
+ */
+let init = function(config: ParserConfiguration) {
+  new CommandMap(PAIRED_DELIMS, {}, {});
+  config.append(Configuration.local({handler: {macro: [PAIRED_DELIMS]},
+                                    priority: -1}));
+};
+
+
+/**
+ * Set up the tag forms and a tag class that uses them.
+ * @param {ParserConfiguration} config The current configuration.
+ * @param {TeX} jax The TeX input jax.
+ */
+export function mathtoolsConfig(config: ParserConfiguration, jax: TeX<any, any, any>) {
+  const data: TagFormData = {forms: {...jax.parseOptions.options.mathtools.tagforms}, current: ''};
+  jax.parseOptions.packageData.set('mathtools', data);
+
+  //
+  //  Make sure the tag class is defined, if it comes from another extension
+  //
+  const tags = jax.parseOptions.options.tags;
+  if (tags !== 'base' && config.tags.hasOwnProperty(tags)) {
+    TagsFactory.add(tags, config.tags[tags]);
+  }
+  const TagClass = TagsFactory.create(tags).constructor as typeof AbstractTags;
+
+  /**
+   * A Tags object that uses the current tag form (if any) set by \usetagform
+   */
+  class MathtoolsTags extends TagClass {
+
+    /**
+     * @override
+     */
+    public formatTag(tag: string) {
+      if (!data.current) {
+        return super.formatTag(tag);
+      }
+      const [left, right, format] = data.forms[data.current];
+      return left + (format ? '$' + format + '{' + tag + '}$' : tag) + right;
+    }
+
+  }
+
+  tagID++;
+  const tagName = 'MathtoolsTags-' + tagID;
+  TagsFactory.add(tagName, MathtoolsTags);
+  jax.parseOptions.options.tags = tagName;
+  //
+  //  If we are added after the jax was created (e.g., by \require or autoload),
+  //    replace the existing tag object, keeping its current state
+  //
+  if (jax.parseOptions.tags) {
+    jax.parseOptions.tags = Object.assign(new MathtoolsTags(), jax.parseOptions.tags);
+  }
+}
+
+
+export const MathtoolsConfiguration = Configuration.create(
+  'mathtools', {
+    handler: {
+      macro: ['mathtools-mathchar0mo', 'mathtools-macros'],
+      environment: ['mathtools-environments']
+    },
+    init: init,
+    config: [mathtoolsConfig, 20],
+    options: {
+      mathtools: {
+        tagforms: {}           // tag forms to predefine, as name: [left, right, format]
+      }
+    }
+  }
+);
@@ -0,0 +1,108 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Mappings for TeX parsing of the mathtools package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {MathtoolsMethods} from './MathtoolsMethods.js';
+import *  as sm from '../SymbolMap.js';
+import ParseMethods from '../ParseMethods.js';
+import {TEXCLASS} from '../../../core/MmlTree/MmlNode.js';
+
+
+/**
+ * Relations made from colons from the mathtools package.
+ */
+new sm.CharacterMap('mathtools-mathchar0mo', ParseMethods.mathchar0mo, {
+  coloneqq:   ['\u2254', {texClass: TEXCLASS.REL}],
+  eqqcolon:   ['\u2255', {texClass: TEXCLASS.REL}],
+  Coloneqq:   ['\u2A74', {texClass: TEXCLASS.REL}],
+  dblcolon:   ['\u2237', {texClass: TEXCLASS.REL}]
+});
+
+
+/**
+ * Macros from the mathtools package.
+ */
+new sm.CommandMap('mathtools-macros', {
+  vcentcolon:     ['Macro', '\\mathrel{:}'],
+  ordinarycolon:  ['Macro', '\\mathord{:}'],
+  Coloneq:        ['Macro', '\\mathrel{\\dblcolon\\mkern-1.2mu-}'],
+  coloneq:        ['Macro', '\\mathrel{\\vcentcolon\\mkern-1.2mu-}'],
+  Eqqcolon:       ['Macro', '\\mathrel{=\\mkern-1.2mu\\dblcolon}'],
+  Eqcolon:        ['Macro', '\\mathrel{-\\mkern-1.2mu\\dblcolon}'],
+  eqcolon:        ['Macro', '\\mathrel{-\\mkern-1.2mu\\vcentcolon}'],
+  colonapprox:    ['Macro', '\\mathrel{\\vcentcolon\\mkern-1.2mu\\approx}'],
+  Colonapprox:    ['Macro', '\\mathrel{\\dblcolon\\mkern-1.2mu\\approx}'],
+  colonsim:       ['Macro', '\\mathrel{\\vcentcolon\\mkern-1.2mu\\sim}'],
+  Colonsim:       ['Macro', '\\mathrel{\\dblcolon\\mkern-1.2mu\\sim}'],
+
+  mathllap:       ['MathLap', 'l'],
+  mathrlap:       ['MathLap', 'r'],
+  mathclap:       ['MathLap', 'c'],
+  cramped:        'Cramped',
+
+  prescript:      'Prescript',
+
+  splitfrac:      ['SplitFrac', false],
+  splitdfrac:     ['SplitFrac', true],
+
+  shortintertext: 'ShortIntertext',
+
+  DeclarePairedDelimiter:  ['DeclarePairedDelimiter', false],
+  DeclarePairedDelimiterX: ['DeclarePairedDelimiter', true],
+
+  newtagform:     ['NewTagForm', false],
+  renewtagform:   ['NewTagForm', true],
+  usetagform:     'UseTagForm'
+}, MathtoolsMethods);
+
+
+/**
+ * Environments from the mathtools package.
+ */
+new sm.EnvironmentMap('mathtools-environments', ParseMethods.environment, {
+  dcases:         ['MtCases', null, '\\{', '.', 'D'],
+  'dcases*':      ['MtCases', null, '\\{', '.', 'D'],
+  rcases:         ['MtCases', null, '.', '\\}', 'T'],
+  'rcases*':      ['MtCases', null, '.', '\\}', 'T'],
+  drcases:        ['MtCases', null, '.', '\\}', 'D'],
+  'drcases*':     ['MtCases', null, '.', '\\}', 'D'],
+
+  'matrix*':      ['MtMatrix', null, null, null],
+  'pmatrix*':     ['MtMatrix', null, '(', ')'],
+  'bmatrix*':     ['MtMatrix', null, '[', ']'],
+  'Bmatrix*':     ['MtMatrix', null, '\\{', '\\}'],
+  'vmatrix*':     ['MtMatrix', null, '\\vert', '\\vert'],
+  'Vmatrix*':     ['MtMatrix', null, '\\Vert', '\\Vert'],
+
+  'smallmatrix*': ['MtMatrix', null, null, null, 'S'],
+  psmallmatrix:   ['MtMatrix', null, '(', ')', 'S'],
+  'psmallmatrix*': ['MtMatrix', null, '(', ')', 'S'],
+  bsmallmatrix:   ['MtMatrix', null, '[', ']', 'S'],
+  'bsmallmatrix*': ['MtMatrix', null, '[', ']', 'S'],
+  Bsmallmatrix:   ['MtMatrix', null, '\\{', '\\}', 'S'],
+  'Bsmallmatrix*': ['MtMatrix', null, '\\{', '\\}', 'S'],
+  vsmallmatrix:   ['MtMatrix', null, '\\vert', '\\vert', 'S'],
+  'vsmallmatrix*': ['MtMatrix', null, '\\vert', '\\vert', 'S'],
+  Vsmallmatrix:   ['MtMatrix', null, '\\Vert', '\\Vert', 'S'],
+  'Vsmallmatrix*': ['MtMatrix', null, '\\Vert', '\\Vert', 'S']
+}, MathtoolsMethods);
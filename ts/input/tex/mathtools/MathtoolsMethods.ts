@@ -0,0 +1,283 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The mathtools parse methods.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {StackItem} from '../StackItem.js';
+import {ParseMethod} from '../Types.js';
+import ParseUtil from '../ParseUtil.js';
+import NodeUtil from '../NodeUtil.js';
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import {Macro} from '../Symbol.js';
+import {CommandMap} from '../SymbolMap.js';
+import {ArrayItem} from '../base/BaseItems.js';
+import {AmsMethods} from '../ams/AmsMethods.js';
+import {TEXCLASS} from '../../../core/MmlTree/MmlNode.js';
+
+
+/**
+ * The name of the command map holding the paired delimiters
+ */
+export const PAIRED_DELIMS = 'mathtools-paired-delims';
+
+/**
+ * The tag forms and the currently selected one
+ */
+export type TagFormData = {
+  forms: {[name: string]: [string, string, string]},
+  current: string
+};
+
+
+// Namespace
+export const MathtoolsMethods: Record<string, ParseMethod> = {};
+
+
+/**
+ * Handle the starred (and unstarred) matrix environments with an optional column alignment.
+ * @param {TexParser} parser The calling parser.
+ * @param {StackItem} begin The opening stackitem.
+ * @param {string} open The opening delimiter.
+ * @param {string} close The closing delimiter.
+ * @param {string} style The math style ('S' for small matrices).
+ */
+MathtoolsMethods.MtMatrix = function(parser: TexParser, begin: StackItem,
+                                     open: string, close: string, style: string) {
+  const align = (begin.getName().match(/\*$/) ?
+                 parser.GetBrackets('\\begin{' + begin.getName() + '}', 'c') : 'c');
+  if (!align.match(/^[lcr]$/)) {
+    throw new TexError('BadColumnAlign', 'Column alignment for %1 must be l, c, or r', begin.getName());
+  }
+  return (style === 'S' ?
+          AmsMethods.Array(parser, begin, open, close, align, ParseUtil.Em(1 / 3), '.2em', 'S', 1) :
+          AmsMethods.Array(parser, begin, open, close, align));
+};
+
+
+/**
+ * Handle the dcases and rcases environments (and their starred versions, where
+ *   the second column is in text mode).
+ * @param {TexParser} parser The calling parser.
+ * @param {StackItem} begin The opening stackitem.
+ * @param {string} open The opening delimiter.
+ * @param {string} close The closing delimiter.
+ * @param {string} style The math style for the entries.
+ */
+MathtoolsMethods.MtCases = function(parser: TexParser, begin: StackItem,
+                                    open: string, close: string, style: string) {
+  const array = AmsMethods.Array(parser, begin, open, close, 'll', null, '.2em', style) as ArrayItem;
+  if (begin.getName().match(/\*$/)) {
+    array.setProperty('isCases', true);
+  }
+  return array;
+};
+
+
+/**
+ * Handle \mathllap, \mathclap, and \mathrlap (with optional math style).
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {string} pos The position of the content relative to the current point (l, c, or r).
+ */
+MathtoolsMethods.MathLap = function(parser: TexParser, name: string, pos: string) {
+  const style = parser.GetBrackets(name, '');
+  const arg = parser.GetArgument(name);
+  const mml = new TexParser(style + '{' + arg + '}', parser.stack.env, parser.configuration).mml();
+  const lap = parser.create('node', 'mpadded', [mml], {width: 0});
+  if (pos !== 'r') {
+    NodeUtil.setAttribute(lap, 'lspace', pos === 'l' ? '-1width' : '-.5width');
+  }
+  parser.Push(parser.create('node', 'TeXAtom', [lap]));
+};
+
+
+/**
+ * Handle \cramped (with optional math style).  MathML has no cramped styles,
+ *   so the content is typeset in the given style, and marked as cramped.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+MathtoolsMethods.Cramped = function(parser: TexParser, name: string) {
+  const style = parser.GetBrackets(name, '');
+  const arg = parser.GetArgument(name);
+  const mml = new TexParser(style + '{' + arg + '}', parser.stack.env, parser.configuration).mml();
+  const atom = parser.create('node', 'TeXAtom', [mml], {'data-cramped': true});
+  parser.Push(atom);
+};
+
+
+/**
+ * Handle \prescript{sup}{sub}{base}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+MathtoolsMethods.Prescript = function(parser: TexParser, name: string) {
+  const sup = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const sub = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const base = parser.ParseArg(name);
+  const script = (tex: string) => (tex === '' ? parser.create('node', 'none') :
+                                   new TexParser(tex, parser.stack.env, parser.configuration).mml());
+  const mml = parser.create('node', 'mmultiscripts', [
+    base, parser.create('node', 'none'), parser.create('node', 'none'),
+    parser.create('node', 'mprescripts'), script(sub), script(sup)
+  ]);
+  parser.Push(mml);
+};
+
+
+/**
+ * Handle \splitfrac and \splitdfrac (a fraction with no rule whose numerator
+ *   is left aligned and whose denominator is right aligned).
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {boolean} display True for \splitdfrac.
+ */
+MathtoolsMethods.SplitFrac = function(parser: TexParser, name: string, display: boolean) {
+  const style = (display ? '\\displaystyle ' : '\\textstyle ');
+  const num = parser.GetArgument(name);
+  const den = parser.GetArgument(name);
+  const frac = parser.create('node', 'mfrac', [
+    new TexParser(style + num + '\\quad', parser.stack.env, parser.configuration).mml(),
+    new TexParser(style + '\\quad\\mathstrut ' + den, parser.stack.env, parser.configuration).mml()
+  ], {linethickness: 0, numalign: 'left', denomalign: 'right'});
+  parser.Push(frac);
+};
+
+
+/**
+ * Handle \shortintertext (a row of text between the rows of an alignment).
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+MathtoolsMethods.ShortIntertext = function(parser: TexParser, name: string) {
+  const top = parser.stack.Top();
+  if (!(top instanceof ArrayItem)) {
+    throw new TexError('Misplaced', 'Misplaced %1', name);
+  }
+  if (top.Size() || top.row.length) {
+    throw new TexError('IntertextMustFollowCR', '%1 must follow \\\\', name);
+  }
+  const text = ParseUtil.internalText(parser, parser.GetArgument(name), {});
+  const mtd = parser.create('node', 'mtd', [
+    parser.create('node', 'mpadded', [text], {width: 0})
+  ], {columnalign: 'left'});
+  top.table.push(parser.create('node', 'mtr', [mtd]));
+};
+
+
+/**
+ * Handle \DeclarePairedDelimiter and \DeclarePairedDelimiterX.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {boolean} hasBody True for \DeclarePairedDelimiterX (which has arguments and a body).
+ */
+MathtoolsMethods.DeclarePairedDelimiter = function(parser: TexParser, name: string, hasBody: boolean) {
+  let cs = ParseUtil.trimSpaces(parser.GetArgument(name));
+  if (cs.charAt(0) === '\\') {
+    cs = cs.substr(1);
+  }
+  if (!cs.match(/^(.|[a-z]+)$/i)) {
+    throw new TexError('IllegalControlSequenceName', 'Illegal control sequence name for %1', name);
+  }
+  const n = (hasBody ? parser.GetBrackets(name, '1') : '1');
+  if (!n.match(/^[1-9]$/)) {
+    throw new TexError('IllegalParamNumber', 'Illegal number of parameters specified in %1', name);
+  }
+  const open = parser.GetArgument(name);
+  const close = parser.GetArgument(name);
+  const body = (hasBody ? parser.GetArgument(name) : '#1');
+  parser.configuration.stateChange = true;
+  (parser.configuration.handlers.retrieve(PAIRED_DELIMS) as CommandMap).
+    add(cs, new Macro(cs, MathtoolsMethods.PairedDelimiter, [open, close, body, parseInt(n)]));
+};
+
+
+/**
+ * Handle a macro defined by \DeclarePairedDelimiter: the starred form uses \left...\right,
+ *   the optional argument gives a size (e.g., \big), otherwise the delimiters don't stretch.
+ *   (Within the body of \DeclarePairedDelimiterX, \delimsize gives the size command.)
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {string} open The opening delimiter.
+ * @param {string} close The closing delimiter.
+ * @param {string} body The body of the macro.
+ * @param {number} n The number of arguments.
+ */
+MathtoolsMethods.PairedDelimiter = function(parser: TexParser, name: string,
+                                            open: string, close: string, body: string, n: number) {
+  const star = parser.GetStar();
+  const size = (star ? '' : parser.GetBrackets(name, ''));
+  const args: string[] = [];
+  for (let i = 0; i < n; i++) {
+    args.push(parser.GetArgument(name));
+  }
+  const [left, right, delimsize] = (star ? ['\\left', '\\right', '\\middle'] :
+                                    size ? [size + 'l', size + 'r', size] : ['', '', '']);
+  const content = ParseUtil.substituteArgs(parser, args, body).replace(/\\delimsize/g, delimsize);
+  const tex = ParseUtil.addArgs(parser, (left ? left + open : '\\mathopen{' + open + '}'), content) +
+    (right ? right + close : '\\mathclose{' + close + '}');
+  parser.Push(parser.create('node', 'TeXAtom', [
+    new TexParser(tex, parser.stack.env, parser.configuration).mml()
+  ], {texClass: TEXCLASS.INNER}));
+};
+
+
+/**
+ * Handle \newtagform{name}[format]{left}{right}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ * @param {boolean} renew True for \renewtagform.
+ */
+MathtoolsMethods.NewTagForm = function(parser: TexParser, name: string, renew: boolean) {
+  const form = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const format = parser.GetBrackets(name, '');
+  const left = parser.GetArgument(name);
+  const right = parser.GetArgument(name);
+  const data = parser.configuration.packageData.get('mathtools') as TagFormData;
+  if (!renew && data.forms.hasOwnProperty(form)) {
+    throw new TexError('DuplicateTagForm', 'Duplicate tag form: %1', form);
+  }
+  data.forms[form] = [left, right, format];
+  parser.configuration.stateChange = true;
+};
+
+
+/**
+ * Handle \usetagform{name}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+MathtoolsMethods.UseTagForm = function(parser: TexParser, name: string) {
+  const form = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const data = parser.configuration.packageData.get('mathtools') as TagFormData;
+  if (form && !data.forms.hasOwnProperty(form)) {
+    throw new TexError('UndefinedTagForm', 'Undefined tag form: %1', form);
+  }
+  data.current = form;
+  parser.configuration.stateChange = true;
+};
+
+
+MathtoolsMethods.Macro = AmsMethods.Macro;
+
+MathtoolsMethods.Spacer = AmsMethods.Spacer;
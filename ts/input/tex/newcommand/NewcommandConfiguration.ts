@@ -25,9 +25,28 @@
 import {Configuration, ParserConfiguration} from '../Configuration.js';
 import {BeginEnvItem} from './NewcommandItems.js';
 import NewcommandUtil from './NewcommandUtil.js';
+import NewcommandMethods from './NewcommandMethods.js';
 import './NewcommandMappings.js';
 import ParseMethods from '../ParseMethods.js';
+import ParseOptions from '../ParseOptions.js';
+import {Macro, Symbol} from '../Symbol.js';
+import {Args, Attributes} from '../Types.js';
 import * as sm from '../SymbolMap.js';
+import {TeX} from '../../tex.js';
+
+
+/**
+ * The definitions made by \newcommand, \def, \let, \newenvironment, etc., in the
+ * form saved by exportState().  The macros use the format of the configmacros
+ * package's macros option, so they can also be used for that option.
+ */
+export type NewcommandState = {
+  macros: {[cs: string]: Args[] | [string, number, string[]]},  // [def, n, default] or [def, n, [params]]
+  documentCommands: {[cs: string]: Args[]},                     // [def, argspec]
+  environments: {[env: string]: Args[]},                        // [begin, end, n, default]
+  documentEnvironments: {[env: string]: Args[]},                // [begin, end, argspec]
+  delimiters: {[cs: string]: [string, Attributes]}              // [char, attributes]
+};
 
 
 /**
@@ -51,16 +70,121 @@ let init = function(config: ParserConfiguration) {
 };
 
 
+/**
+ * @param {Args[]} args The arguments of a macro.
+ * @return {Args[]} The arguments without any trailing undefined ones.
+ */
+function trimArgs(args: Args[]): Args[] {
+  args = args.slice(0);
+  while (args.length && args[args.length - 1] == null) {
+    args.pop();
+  }
+  return args;
+}
+
+
+/**
+ * Get the definitions that have been made so far (those that can be
+ * saved as data; e.g., \let of a character is not included).
+ * @param {ParseOptions} options The parse options holding the definitions.
+ * @return {NewcommandState} The saved definitions.
+ */
+export function exportDefinitions(options: ParseOptions): NewcommandState {
+  const state: NewcommandState = {
+    macros: {}, documentCommands: {}, environments: {}, documentEnvironments: {}, delimiters: {}
+  };
+  const commands = options.handlers.retrieve(NewcommandUtil.NEW_COMMAND) as sm.CommandMap;
+  for (const cs of commands.symbols()) {
+    const macro = commands.lookup(cs);
+    const args = trimArgs(macro.args);
+    if (macro.func === NewcommandMethods.Macro) {
+      state.macros[cs] = args;
+    } else if (macro.func === NewcommandMethods.MacroWithTemplate) {
+      state.macros[cs] = [args[0] as string, parseInt(args[1] as string), args.slice(2) as string[]];
+    } else if (macro.func === NewcommandMethods.DocumentMacro) {
+      state.documentCommands[cs] = args;
+    }
+  }
+  const environments = options.handlers.retrieve(NewcommandUtil.NEW_ENVIRONMENT) as sm.EnvironmentMap;
+  for (const env of environments.symbols()) {
+    const macro = environments.lookup(env);
+    if (macro.func === NewcommandMethods.BeginEnv) {
+      state.environments[env] = trimArgs(macro.args.slice(1));
+    } else if (macro.func === NewcommandMethods.BeginDocumentEnv) {
+      state.documentEnvironments[env] = macro.args.slice(1);
+    }
+  }
+  const delimiters = options.handlers.retrieve(NewcommandUtil.NEW_DELIMITER) as sm.DelimiterMap;
+  for (const cs of delimiters.symbols()) {
+    const symbol = delimiters.lookup(cs);
+    state.delimiters[cs] = [symbol.char, symbol.attributes];
+  }
+  return state;
+}
+
+
+/**
+ * Add definitions saved by exportDefinitions().
+ * @param {ParseOptions} options The parse options to hold the definitions.
+ * @param {NewcommandState} state The saved definitions.
+ */
+export function importDefinitions(options: ParseOptions, state: NewcommandState) {
+  const commands = options.handlers.retrieve(NewcommandUtil.NEW_COMMAND) as sm.CommandMap;
+  const macros = state.macros || {};
+  for (const cs of Object.keys(macros)) {
+    const def = macros[cs];
+    commands.add(cs, Array.isArray(def[2]) ?
+                 new Macro(cs, NewcommandMethods.MacroWithTemplate, (def.slice(0, 2) as Args[]).concat(def[2])) :
+                 new Macro(cs, NewcommandMethods.Macro, def as Args[]));
+  }
+  const documentCommands = state.documentCommands || {};
+  for (const cs of Object.keys(documentCommands)) {
+    commands.add(cs, new Macro(cs, NewcommandMethods.DocumentMacro, documentCommands[cs]));
+  }
+  const environments = options.handlers.retrieve(NewcommandUtil.NEW_ENVIRONMENT) as sm.EnvironmentMap;
+  const envs = state.environments || {};
+  for (const env of Object.keys(envs)) {
+    environments.add(env, new Macro(env, NewcommandMethods.BeginEnv, [true as Args].concat(envs[env])));
+  }
+  const documentEnvs = state.documentEnvironments || {};
+  for (const env of Object.keys(documentEnvs)) {
+    environments.add(env, new Macro(env, NewcommandMethods.BeginDocumentEnv, [true as Args].concat(documentEnvs[env])));
+  }
+  const delimiters = options.handlers.retrieve(NewcommandUtil.NEW_DELIMITER) as sm.DelimiterMap;
+  const delims = state.delimiters || {};
+  for (const cs of Object.keys(delims)) {
+    const [char, attributes] = delims[cs];
+    delimiters.add(cs, new Symbol(cs, char, attributes || {}));
+  }
+}
+
+
+/**
+ * Config method for Newcommand package: register the functions that save and
+ * restore the definitions.
+ * @param {Configuration} config The current configuration.
+ * @param {TeX} jax The TeX input jax.
+ */
+let config = function(_config: ParserConfiguration, jax: TeX<any, any, any>) {
+  const options = jax.parseOptions;
+  options.stateHandlers.set('newcommand', {
+    exportState: () => exportDefinitions(options),
+    importState: (state: NewcommandState) => importDefinitions(options, state)
+  });
+};
+
+
 export const NewcommandConfiguration = Configuration.create(
   'newcommand', {
     handler: {
-      macro: ['Newcommand-macros']
+      macro: ['Newcommand-macros', 'Newcommand-xparse']
     },
     items: {
       [BeginEnvItem.prototype.kind]: BeginEnvItem,
     },
     options: {maxMacros: 1000},
-    init: init
+    init: init,
+    config: config
   }
 );
 
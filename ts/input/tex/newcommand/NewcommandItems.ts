@@ -71,4 +71,12 @@ export class BeginEnvItem extends BaseItem {
     return super.checkItem(item);
   }
 
+
+  /**
+   * @override
+   */
+  public matches(item: StackItem) {
+    return item.isKind('end') && item.getName() === this.getName();
+  }
+
 }
@@ -32,6 +32,7 @@ import {CommandMap} from '../SymbolMap.js';
 new CommandMap('Newcommand-macros', {
   newcommand:       'NewCommand',
   renewcommand:     'NewCommand',
+  providecommand:   ['NewCommand', true],
   newenvironment:   'NewEnvironment',
   renewenvironment: 'NewEnvironment',
   def:              'MacroDef',
@@ -39,3 +40,30 @@ new CommandMap('Newcommand-macros', {
 }, NewcommandMethods);
 
 
+/**
+ * Macros for the xparse-style document commands and environments.
+ */
+new CommandMap('Newcommand-xparse', {
+  NewDocumentCommand:         ['NewDocumentCommand', 'new'],
+  RenewDocumentCommand:       ['NewDocumentCommand', 'renew'],
+  ProvideDocumentCommand:     ['NewDocumentCommand', 'provide'],
+  DeclareDocumentCommand:     ['NewDocumentCommand', 'declare'],
+  NewDocumentEnvironment:     ['NewDocumentEnvironment', 'new'],
+  RenewDocumentEnvironment:   ['NewDocumentEnvironment', 'renew'],
+  ProvideDocumentEnvironment: ['NewDocumentEnvironment', 'provide'],
+  DeclareDocumentEnvironment: ['NewDocumentEnvironment', 'declare'],
+  IfNoValueTF:                ['IfTest', 'NoValue', 'TF'],
+  IfNoValueT:                 ['IfTest', 'NoValue', 'T'],
+  IfNoValueF:                 ['IfTest', 'NoValue', 'F'],
+  IfValueTF:                  ['IfTest', 'Value', 'TF'],
+  IfValueT:                   ['IfTest', 'Value', 'T'],
+  IfValueF:                   ['IfTest', 'Value', 'F'],
+  IfBooleanTF:                ['IfTest', 'Boolean', 'TF'],
+  IfBooleanT:                 ['IfTest', 'Boolean', 'T'],
+  IfBooleanF:                 ['IfTest', 'Boolean', 'F'],
+  NoValue:                    ['Macro', '\\text{-NoValue-}'],
+  BooleanTrue:                ['Macro', ''],
+  BooleanFalse:               ['Macro', '']
+}, NewcommandMethods);
+
+
@@ -38,25 +38,17 @@ import NewcommandUtil from './NewcommandUtil.js';
 let NewcommandMethods: Record<string, ParseMethod> = {};
 
 /**
- * Implements \newcommand{\name}[n][default]{...}
+ * Implements \newcommand{\name}[n][default]{...} (and \providecommand)
  * @param {TexParser} parser The calling parser.
  * @param {string} name The name of the calling command.
+ * @param {boolean} provide True if the macro should only be defined if it isn't already.
  */
-NewcommandMethods.NewCommand = function(parser: TexParser, name: string) {
-  // @test Newcommand Simple
-  let cs = ParseUtil.trimSpaces(parser.GetArgument(name));
+NewcommandMethods.NewCommand = function(parser: TexParser, name: string, provide: boolean = false) {
+  // @test Newcommand Simple, Illegal CS
+  let cs = NewcommandUtil.GetCsNameArgument(parser, name);
   let n = parser.GetBrackets(name);
   let opt = parser.GetBrackets(name);
   let def = parser.GetArgument(name);
-  if (cs.charAt(0) === '\\') {
-    // @test Newcommand Simple
-    cs = cs.substr(1);
-  }
-  if (!cs.match(/^(.|[a-z]+)$/i)) {
-    // @test Illegal CS
-    throw new TexError('IllegalControlSequenceName',
-                        'Illegal control sequence name for %1', name);
-  }
   if (n) {
     // @test Newcommand Optional, Newcommand Arg, Newcommand Arg Optional
     n = ParseUtil.trimSpaces(n);
@@ -66,6 +58,9 @@ NewcommandMethods.NewCommand = function(parser: TexParser, name: string) {
                           'Illegal number of parameters specified in %1', name);
     }
   }
+  if (provide && NewcommandUtil.isDefined(parser, cs)) {
+    return;
+  }
   NewcommandUtil.addMacro(parser, cs, NewcommandMethods.Macro, [def, n, opt]);
 };
 
@@ -270,6 +265,107 @@ NewcommandMethods.BeginEnv = function(parser: TexParser, begin: StackItem,
   return parser.itemFactory.create('beginEnv').setProperty('name', begin.getName());
 };
 
+/**
+ * Implements \NewDocumentCommand{\name}{argspec}{...} and its relatives
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The name of the calling command.
+ * @param {string} mode The type of definition: new, renew, provide, or declare.
+ */
+NewcommandMethods.NewDocumentCommand = function(parser: TexParser, name: string, mode: string) {
+  const cs = NewcommandUtil.GetCsNameArgument(parser, name);
+  const spec = parser.GetArgument(name);
+  const def = parser.GetArgument(name);
+  NewcommandUtil.GetArgSpecs(name, spec);
+  const same = NewcommandUtil.isSameDefinition(parser, NewcommandUtil.NEW_COMMAND, cs,
+                                               NewcommandMethods.DocumentMacro, [def, spec]);
+  if (!NewcommandUtil.checkDefinition(mode, NewcommandUtil.isDefined(parser, cs), 'Command', '\\' + cs, same)) {
+    return;
+  }
+  NewcommandUtil.addMacro(parser, cs, NewcommandMethods.DocumentMacro, [def, spec]);
+};
+
+
+/**
+ * Implements \NewDocumentEnvironment{name}{argspec}{begincmd}{endcmd} and its relatives
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The name of the calling command.
+ * @param {string} mode The type of definition: new, renew, provide, or declare.
+ */
+NewcommandMethods.NewDocumentEnvironment = function(parser: TexParser, name: string, mode: string) {
+  const env = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const spec = parser.GetArgument(name);
+  const bdef = parser.GetArgument(name);
+  const edef = parser.GetArgument(name);
+  NewcommandUtil.GetArgSpecs(name, spec);
+  const defined = parser.configuration.handlers.get('environment').contains(env);
+  const same = NewcommandUtil.isSameDefinition(parser, NewcommandUtil.NEW_ENVIRONMENT, env,
+                                               NewcommandMethods.BeginDocumentEnv, [true, bdef, edef, spec]);
+  if (!NewcommandUtil.checkDefinition(mode, defined, 'Environment', env, same)) {
+    return;
+  }
+  NewcommandUtil.addEnvironment(parser, env, NewcommandMethods.BeginDocumentEnv, [true, bdef, edef, spec]);
+};
+
+
+/**
+ * Process a macro defined by \NewDocumentCommand.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The name of the calling command.
+ * @param {string} def The definition of the macro.
+ * @param {string} spec The argument specification for the macro.
+ */
+NewcommandMethods.DocumentMacro = function(parser: TexParser, name: string, def: string, spec: string) {
+  const args = NewcommandUtil.GetDocumentArgs(parser, name, NewcommandUtil.GetArgSpecs(name, spec));
+  NewcommandMethods.Macro(parser, name, ParseUtil.substituteArgs(parser, args, def), 0);
+};
+
+
+/**
+ * Process an environment defined by \NewDocumentEnvironment.  The arguments
+ * are available to the end code as well, so the substituted end code is
+ * saved in the beginEnv item, where it is retrieved when the environment ends.
+ * @param {TexParser} parser The calling parser.
+ * @param {StackItem} begin The begin stackitem.
+ * @param {string} bdef The begin definition in the environment definition.
+ * @param {string} edef The end definition in the environment definition.
+ * @param {string} spec The argument specification for the environment.
+ */
+NewcommandMethods.BeginDocumentEnv = function(parser: TexParser, begin: StackItem,
+                                              bdef: string, edef: string, spec: string) {
+  const env = begin.getName();
+  if (begin.getProperty('end') && parser.stack.env['closing'] === env) {
+    const top = parser.stack.Top();
+    if (top && top.isKind('beginEnv') && top.getName() === env) {
+      edef = top.getProperty('edef') as string;
+    }
+    return NewcommandMethods.BeginEnv(parser, begin, bdef, edef, 0, null);
+  }
+  const args = NewcommandUtil.GetDocumentArgs(parser, '\\begin{' + env + '}',
+                                              NewcommandUtil.GetArgSpecs('\\begin{' + env + '}', spec));
+  bdef = ParseUtil.substituteArgs(parser, args, bdef);
+  edef = ParseUtil.substituteArgs(parser, args, edef);
+  const item = NewcommandMethods.BeginEnv(parser, begin, bdef, edef, 0, null) as StackItem;
+  return item.setProperty('edef', edef);
+};
+
+
+/**
+ * Implements \IfNoValueTF, \IfValueTF, \IfBooleanTF, and their T and F forms.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The name of the calling command.
+ * @param {string} test The test to perform: NoValue, Value, or Boolean.
+ * @param {string} branches Which branches are present: TF, T, or F.
+ */
+NewcommandMethods.IfTest = function(parser: TexParser, name: string, test: string, branches: string) {
+  const arg = ParseUtil.trimSpaces(parser.GetArgument(name));
+  const T = (branches.indexOf('T') >= 0 ? parser.GetArgument(name) : '');
+  const F = (branches.indexOf('F') >= 0 ? parser.GetArgument(name) : '');
+  const result = (test === 'Boolean' ? arg === NewcommandUtil.BOOLEAN_TRUE :
+                  (arg === NewcommandUtil.NO_VALUE) === (test === 'NoValue'));
+  NewcommandMethods.Macro(parser, name, result ? T : F, 0);
+};
+
+
 NewcommandMethods.Macro = BaseMethods.Macro;
 
 export default NewcommandMethods;
@@ -232,6 +232,251 @@ namespace NewcommandUtil {
   }
 
 
+  /**
+   * Get the control sequence name argument of a definition or give an error.
+   * @param {TexParser} parser The calling parser.
+   * @param {string} name The name of the calling command.
+   * @return {string} The control sequence name (without the backslash).
+   */
+  export function GetCsNameArgument(parser: TexParser, name: string): string {
+    let cs = ParseUtil.trimSpaces(parser.GetArgument(name));
+    if (cs.charAt(0) === '\\') {
+      cs = cs.substr(1);
+    }
+    if (!cs.match(/^(.|[a-z]+)$/i)) {
+      throw new TexError('IllegalControlSequenceName',
+                         'Illegal control sequence name for %1', name);
+    }
+    return cs;
+  }
+
+
+  /**
+   * Check whether a control sequence is already defined (as a macro,
+   * character, or delimiter).
+   * @param {TexParser} parser The calling parser.
+   * @param {string} cs The control sequence name (without the backslash).
+   * @return {boolean} True if the control sequence has a definition.
+   */
+  export function isDefined(parser: TexParser, cs: string): boolean {
+    const handlers = parser.configuration.handlers;
+    return handlers.get('macro').contains(cs) || !!handlers.get('delimiter').lookup('\\' + cs);
+  }
+
+
+  /**
+   * Check an xparse-style definition against whether the command or environment
+   * already exists:  \New... requires it to be undefined, \Renew... requires it
+   * to be defined, \Provide... is skipped if it is defined, and \Declare...
+   * is always performed.  Repeating an identical \New... definition is not an
+   * error (so that the same expression can be typeset again).
+   * @param {string} mode The type of definition: new, renew, provide, or declare.
+   * @param {boolean} defined True if the command or environment already exists.
+   * @param {string} kind Either 'Command' or 'Environment'.
+   * @param {string} id The name of the command or environment (for messages).
+   * @param {boolean} same True if the existing definition is the same as the new one.
+   * @return {boolean} True if the definition should be made.
+   */
+  export function checkDefinition(mode: string, defined: boolean, kind: string, id: string,
+                                  same: boolean = false): boolean {
+    if (mode === 'new' && defined && !same) {
+      throw new TexError(kind + 'AlreadyDefined', kind + ' %1 already defined', id);
+    }
+    if (mode === 'renew' && !defined) {
+      throw new TexError(kind + 'NotDefined', kind + ' %1 not yet defined', id);
+    }
+    return !(mode === 'provide' && defined);
+  }
+
+
+  /**
+   * The values used for missing optional arguments and for the star and
+   * token arguments in xparse-style argument specifications.
+   */
+  export const NO_VALUE = '\\NoValue';
+  export const BOOLEAN_TRUE = '\\BooleanTrue';
+  export const BOOLEAN_FALSE = '\\BooleanFalse';
+
+
+  /**
+   * A single argument of an xparse-style argument specification:
+   *   type is one of m, o, s, t, g, r, or d (the upper-case forms being
+   *   recorded as their lower-case versions with a default), open and close
+   *   are the delimiters (or the token for t), and def is the default value
+   *   (or null for none).
+   */
+  export type ArgSpec = {type: string, open: string, close: string, def: string};
+
+
+  /**
+   * Parse an xparse-style argument specification, e.g., "s o m O{x} d()".
+   * @param {string} name The name of the command whose specification this is.
+   * @param {string} spec The argument specification.
+   * @return {ArgSpec[]} The list of arguments that it describes.
+   */
+  export function GetArgSpecs(name: string, spec: string): ArgSpec[] {
+    const specs: ArgSpec[] = [];
+    let i = 0;
+    const skipSpaces = () => {
+      while (spec.charAt(i).match(/\s/)) i++;
+    };
+    const token = () => {
+      skipSpaces();
+      const match = spec.substr(i).match(/^(?:\\(?:[a-z]+|.)|[^{}\s])/i);
+      if (!match) {
+        throw new TexError('BadArgSpec', 'Invalid argument specification for %1', name);
+      }
+      i += match[0].length;
+      return match[0];
+    };
+    const group = () => {
+      skipSpaces();
+      if (spec.charAt(i) !== '{') {
+        throw new TexError('BadArgSpec', 'Invalid argument specification for %1', name);
+      }
+      let braces = 0;
+      for (let j = i; j < spec.length; j++) {
+        const c = spec.charAt(j);
+        if (c === '\\') {
+          j++;
+        } else if (c === '{') {
+          braces++;
+        } else if (c === '}' && --braces === 0) {
+          const text = spec.substring(i + 1, j);
+          i = j + 1;
+          return text;
+        }
+      }
+      throw new TexError('BadArgSpec', 'Invalid argument specification for %1', name);
+    };
+    skipSpaces();
+    while (i < spec.length) {
+      const c = spec.charAt(i++);
+      switch (c) {
+      case '+':
+      case '!':
+        // long and no-space-skipping arguments are treated as the usual ones
+        break;
+      case 'm':
+      case 'o':
+      case 's':
+      case 'g':
+        specs.push({type: c, open: null, close: null, def: null});
+        break;
+      case 'O':
+      case 'G':
+        specs.push({type: c.toLowerCase(), open: null, close: null, def: group()});
+        break;
+      case 't':
+        specs.push({type: c, open: token(), close: null, def: null});
+        break;
+      case 'r':
+      case 'd':
+        specs.push({type: c, open: token(), close: token(), def: null});
+        break;
+      case 'R':
+      case 'D':
+        specs.push({type: c.toLowerCase(), open: token(), close: token(), def: group()});
+        break;
+      default:
+        throw new TexError('UnknownArgSpec',
+                           'Unknown argument type %1 in the argument specification for %2', c, name);
+      }
+      skipSpaces();
+    }
+    if (specs.length > 9) {
+      throw new TexError('TooManyArgs', 'Too many arguments in the specification for %1', name);
+    }
+    return specs;
+  }
+
+
+  /**
+   * Get the arguments described by an xparse-style argument specification.
+   * @param {TexParser} parser The calling parser.
+   * @param {string} name The name of the calling command.
+   * @param {ArgSpec[]} specs The argument specifications.
+   * @return {string[]} The argument values.
+   */
+  export function GetDocumentArgs(parser: TexParser, name: string, specs: ArgSpec[]): string[] {
+    const args: string[] = [];
+    for (const spec of specs) {
+      let arg: string = null;
+      switch (spec.type) {
+      case 'm':
+        arg = parser.GetArgument(name);
+        break;
+      case 'o':
+        arg = parser.GetBrackets(name, null);
+        break;
+      case 's':
+        arg = (parser.GetStar() ? BOOLEAN_TRUE : BOOLEAN_FALSE);
+        break;
+      case 't':
+        parser.GetNext();
+        arg = (MatchParam(parser, spec.open) ? BOOLEAN_TRUE : BOOLEAN_FALSE);
+        break;
+      case 'g':
+        arg = (parser.GetNext() === '{' ? parser.GetArgument(name) : null);
+        break;
+      case 'r':
+      case 'd':
+        arg = GetDelimitedArgument(parser, name, spec.open, spec.close);
+        if (arg === null && spec.type === 'r') {
+          throw new TexError('MissingRequiredArg',
+                             'Missing argument starting with %1 for %2', spec.open, name);
+        }
+        break;
+      }
+      args.push(arg !== null ? arg : spec.def !== null ? spec.def : NO_VALUE);
+    }
+    return args;
+  }
+
+
+  /**
+   * Get an argument delimited by the given open and close delimiters, if present.
+   * Braces and nested open/close pairs are balanced.
+   * @param {TexParser} parser The calling parser.
+   * @param {string} name The name of the calling command.
+   * @param {string} open The opening delimiter.
+   * @param {string} close The closing delimiter.
+   * @return {string} The argument, or null if there is none.
+   */
+  export function GetDelimitedArgument(parser: TexParser, name: string,
+                                       open: string, close: string): string {
+    parser.GetNext();
+    if (!MatchParam(parser, open)) {
+      return null;
+    }
+    const i = parser.i;
+    let nested = 0;
+    while (parser.i < parser.string.length) {
+      const j = parser.i;
+      if (MatchParam(parser, close)) {
+        if (!nested) {
+          return parser.string.substring(i, j);
+        }
+        nested--;
+      } else if (open !== close && MatchParam(parser, open)) {
+        nested++;
+      } else {
+        const c = parser.string.charAt(parser.i);
+        if (c === '{') {
+          parser.GetArgument(name);
+        } else if (c === '\\') {
+          parser.i++;
+          const match = parser.string.substr(parser.i).match(/^(?:[a-z]+|.)/i);
+          parser.i += (match ? match[0].length : 0);
+        } else {
+          parser.i++;
+        }
+      }
+    }
+    throw new TexError('RunawayArgument', 'Runaway argument for %1?', name);
+  }
+
+
   /**
    * Adds a new delimiter as extension to the parser.
    * @param {TexParser} parser The current parser.
@@ -240,6 +485,7 @@ namespace NewcommandUtil {
    * @param {Attributes} attr The attributes needed for parsing.
    */
   export function addDelimiter(parser: TexParser, cs: string, char: string, attr: Attributes) {
+    parser.configuration.stateChange = true;
     const handlers = parser.configuration.handlers;
     const handler = handlers.retrieve(NEW_DELIMITER) as sm.DelimiterMap;
     handler.add(cs, new Symbol(cs, char, attr));
@@ -256,12 +502,32 @@ namespace NewcommandUtil {
    */
   export function addMacro(parser: TexParser, cs: string, func: ParseMethod, attr: Args[],
                            symbol: string = '') {
+    parser.configuration.stateChange = true;
     const handlers = parser.configuration.handlers;
     const handler = handlers.retrieve(NEW_COMMAND) as sm.CommandMap;
     handler.add(cs, new Macro(symbol ? symbol : cs, func, attr));
   }
 
 
+  /**
+   * Tests if a command or environment has already been defined (by one of the
+   * newcommand methods) with the given parse method and attributes.
+   * @param {TexParser} parser The current parser.
+   * @param {string} map The name of the map holding the definitions.
+   * @param {string} name The name of the command or environment.
+   * @param {ParseMethod} func The parse method for the definition.
+   * @param {Args[]} attr The attributes for the definition.
+   * @return {boolean} True if the existing definition is the same.
+   */
+  export function isSameDefinition(parser: TexParser, map: string, name: string,
+                                   func: ParseMethod, attr: Args[]): boolean {
+    const handler = parser.configuration.handlers.retrieve(map) as sm.AbstractParseMap<Macro>;
+    const macro = (handler ? handler.lookup(name) : null);
+    return !!macro && macro.func === func && macro.args.length === attr.length &&
+      macro.args.every((arg, i) => arg === attr[i]);
+  }
+
+
   /**
    * Adds a new environment as extension to the parser.
    * @param {TexParser} parser The current parser.
@@ -270,6 +536,7 @@ namespace NewcommandUtil {
    * @param {Args[]} attr The attributes needed for parsing.
    */
   export function addEnvironment(parser: TexParser, env: string, func: ParseMethod, attr: Args[]) {
+    parser.configuration.stateChange = true;
     const handlers = parser.configuration.handlers;
     const handler = handlers.retrieve(NEW_ENVIRONMENT) as sm.EnvironmentMap;
     handler.add(env, new Macro(env, func, attr));
@@ -117,6 +117,7 @@ export function RequireLoad(parser: TexParser, name: string) {
   if (!allowed) {
     throw new TexError('BadRequire', 'Extension "%1" is now allowed to be loaded', extension);
   }
+  parser.configuration.stateChange = true;
   if (Package.packages.has(extension)) {
     RegisterExtension(parser.configuration.packageData.get('require').jax, extension);
   } else {
@@ -0,0 +1,56 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Configuration file for the siunitx package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {Configuration} from '../Configuration.js';
+import './SiunitxMappings.js';
+
+
+export const SiunitxConfiguration = Configuration.create(
+  'siunitx', {
+    handler: {
+      macro: ['siunitx-macros']
+    },
+    options: {
+      siunitx: {
+        groupDigits: 'all',             // which parts of numbers to group: all (or true), integer, decimal, or none (or false)
+        groupMinimumDigits: 5,          // the minimum number of digits before grouping is done
+        groupSeparator: '\u2009',       // the separator between groups of digits
+        inputDecimalMarkers: '.,',      // the characters recognized as decimal markers
+        outputDecimalMarker: '.',       // the decimal marker used in the output
+        addIntegerZero: true,           // true to add a zero before a bare decimal part
+        exponentBase: '10',             // the base for exponents
+        exponentProduct: '\\times',     // TeX for the product between a mantissa and the exponent
+        outputExponentMarker: '',       // if given, use this (e.g., 'e') rather than a power of the base
+        outputProduct: '\\times',       // TeX for the product between numbers (as in 2x3)
+        numberUnitProduct: '\\,',       // TeX for the space between a number and its units
+        interUnitProduct: '\\,',        // TeX for the space between units
+        perMode: 'power',               // how \per is shown: power, fraction, or symbol
+        perSymbol: '/',                 // the symbol used for per-mode=symbol
+        rangePhrase: 'to',              // the text between the numbers of a range
+        rangeUnits: 'repeat'            // units in ranges: repeat, single, or brackets
+      }
+    }
+  }
+);
+
@@ -0,0 +1,544 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The siunitx parse methods.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ParseMethod} from '../Types.js';
+import ParseUtil from '../ParseUtil.js';
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import {MmlNode} from '../../../core/MmlTree/MmlNode.js';
+import {OptionList} from '../../../util/Options.js';
+import {PREFIXES, UNITS, UNSPACED, PREPOWERS, POSTPOWERS} from './SiunitxUnits.js';
+
+
+/**
+ * A unit (with its prefix), its power, and whether it follows \per
+ */
+export type Unit = {
+  symbol: string,
+  power: string,
+  per: boolean
+};
+
+
+/**
+ * The allowed values for the options that are choices
+ */
+const CHOICES: {[name: string]: string[]} = {
+  groupDigits: ['all', 'integer', 'decimal', 'none'],
+  perMode: ['power', 'fraction', 'symbol'],
+  rangeUnits: ['repeat', 'single', 'brackets']
+};
+
+
+/**
+ * The boolean values that siunitx also accepts for some choices, and the choices they mean
+ */
+const BOOLEAN_CHOICES: {[name: string]: {[value: string]: string}} = {
+  groupDigits: {'true': 'all', 'false': 'none'}
+};
+
+
+/**
+ * @param {string} name                  The (camel-case) name of the option
+ * @param {string|boolean} value         The value given for the option
+ * @return {string}                      The choice that the value represents
+ */
+function choiceValue(name: string, value: string | boolean): string {
+  const choice = String(value);
+  const booleans = BOOLEAN_CHOICES[name];
+  return (booleans && booleans.hasOwnProperty(choice) ? booleans[choice] : choice);
+}
+
+
+/**
+ * The class used to mark the mi elements for units
+ * (see https://www.w3.org/TR/mathml-units/)
+ */
+const UNITCLASS = 'MathML-Unit';
+
+
+/**
+ * The regular expression for the parts of a number
+ * (sign, integer part, decimal marker, decimal part, exponent sign, and exponent).
+ *
+ * @param {string} markers   The input decimal markers
+ * @return {RegExp}          The pattern for a number using those markers
+ */
+function numberPattern(markers: string): RegExp {
+  const marker = '[' + markers.replace(/[\]\\^-]/g, '\\$&') + ']';
+  return new RegExp('^([-+]|\\\\pm|\\\\mp)?(\\d*)(?:(' + marker + ')(\\d*))?(?:[eEdD]([-+]?)(\\d+))?$');
+}
+
+
+/**
+ * Insert separators between groups of three digits.
+ *
+ * @param {string} digits      The digits to group
+ * @param {boolean} fromLeft   True if grouping starts at the left (for decimal parts)
+ * @param {OptionList} options The siunitx options
+ * @return {string}            The grouped digits
+ */
+function groupDigits(digits: string, fromLeft: boolean, options: OptionList): string {
+  if (digits.length < options.groupMinimumDigits) {
+    return digits;
+  }
+  const groups = [];
+  if (fromLeft) {
+    for (let i = 0; i < digits.length; i += 3) {
+      groups.push(digits.substr(i, 3));
+    }
+  } else {
+    for (let i = digits.length; i > 0; i -= 3) {
+      groups.unshift(digits.substring(Math.max(0, i - 3), i));
+    }
+  }
+  return groups.join(options.groupSeparator);
+}
+
+
+/**
+ * @param {TexParser} parser   The calling parser
+ * @param {string} tex         The TeX string to parse
+ * @return {MmlNode}           The MathML for the TeX string
+ */
+function parseTeX(parser: TexParser, tex: string): MmlNode {
+  return new TexParser(tex, parser.stack.env, parser.configuration).mml();
+}
+
+
+/**
+ * Set options from a key-value string.
+ *
+ * @param {OptionList} options   The options to modify
+ * @param {string} keyvals       The key=value pairs (with keys in the siunitx hyphenated form)
+ * @return {OptionList}          The modified options
+ */
+export function SetOptions(options: OptionList, keyvals: string): OptionList {
+  const def = ParseUtil.keyvalOptions(keyvals);
+  for (const key of Object.keys(def)) {
+    const name = key.replace(/-([a-z])/g, (_match: string, c: string) => c.toUpperCase());
+    if (!options.hasOwnProperty(name)) {
+      throw new TexError('InvalidOption', 'Invalid optional argument: %1', key);
+    }
+    const value = def[key];
+    switch (typeof options[name]) {
+    case 'number':
+      const n = parseFloat(value as string);
+      if (isNaN(n)) {
+        throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', key, String(value));
+      }
+      options[name] = n;
+      break;
+    case 'boolean':
+      options[name] = (value === true || value === 'true');
+      break;
+    default:
+      const choice = choiceValue(name, value as string | boolean);
+      if (CHOICES[name] && CHOICES[name].indexOf(choice) < 0) {
+        throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', key, String(value));
+      }
+      options[name] = choice;
+    }
+  }
+  return options;
+}
+
+
+/**
+ * Get the options for a macro, including any given in its optional argument.
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {string} name        The macro name
+ * @return {OptionList}        The options to use for the macro
+ */
+export function GetOptions(parser: TexParser, name: string): OptionList {
+  const options = Object.assign({}, parser.options.siunitx);
+  const keyvals = parser.GetBrackets(name, '');
+  return (keyvals ? SetOptions(options, keyvals) : options);
+}
+
+
+/**
+ * Create the MathML for a number (or a product of numbers).
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {string} name        The macro name
+ * @param {string} text        The number to format
+ * @param {OptionList} options The siunitx options
+ * @return {MmlNode}           The formatted number
+ */
+export function FormatNumber(parser: TexParser, name: string, text: string, options: OptionList): MmlNode {
+  const numbers = text.replace(/\\[,;:! ]|\s+/g, '').split(/x|\\times/);
+  const nodes: MmlNode[] = [];
+  numbers.forEach((num: string, i: number) => {
+    if (i) {
+      nodes.push(parseTeX(parser, options.outputProduct));
+    }
+    nodes.push(...FormatSingleNumber(parser, name, num, options));
+  });
+  return parser.create('node', 'mrow', nodes);
+}
+
+
+/**
+ * Create the MathML for a single number.
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {string} name        The macro name
+ * @param {string} text        The number to format
+ * @param {OptionList} options The siunitx options
+ * @return {MmlNode[]}         The nodes for the formatted number
+ */
+function FormatSingleNumber(parser: TexParser, name: string, text: string, options: OptionList): MmlNode[] {
+  const match = text.match(numberPattern(options.inputDecimalMarkers));
+  if (!match || (!match[2] && !match[4] && !match[6])) {
+    throw new TexError('BadSiNumber', 'Invalid number for %1: %2', name, text);
+  }
+  let [ , sign, integer, marker, decimal, esign, exponent] = match;
+  const nodes: MmlNode[] = [];
+  if (sign) {
+    nodes.push(parser.create('token', 'mo', {},
+                             sign === '-' ? '\u2212' : sign === '\\pm' ? '\u00B1' :
+                             sign === '\\mp' ? '\u2213' : sign));
+  }
+  if (integer || decimal) {
+    const group = choiceValue('groupDigits', options.groupDigits);
+    if (!integer && options.addIntegerZero) {
+      integer = '0';
+    }
+    let mantissa = (group === 'all' || group === 'integer' ? groupDigits(integer, false, options) : integer);
+    if (marker) {
+      mantissa += options.outputDecimalMarker +
+        (group === 'all' || group === 'decimal' ? groupDigits(decimal, true, options) : decimal);
+    }
+    if (exponent && options.outputExponentMarker) {
+      const e = (esign === '-' ? '\u2212' : esign) + exponent;
+      nodes.push(parser.create('token', 'mn', {}, mantissa + options.outputExponentMarker + e));
+      return nodes;
+    }
+    nodes.push(parser.create('token', 'mn', {}, mantissa));
+    if (exponent) {
+      nodes.push(parseTeX(parser, options.exponentProduct));
+    }
+  }
+  if (exponent) {
+    const base = parser.create('token', 'mn', {}, options.exponentBase);
+    const power = parseTeX(parser, (esign === '-' ? '-' : '') + exponent);
+    nodes.push(parser.create('node', 'msup', [base, power]));
+  }
+  return nodes;
+}
+
+
+/**
+ * Read a unit argument (e.g., for \tothe or \raiseto).
+ *
+ * @param {string} text    The unit string
+ * @param {number} i       The position following the macro
+ * @return {[string, number]}  The argument and the position following it
+ */
+function UnitArgument(text: string, i: number): [string, number] {
+  while (text.charAt(i).match(/\s/)) i++;
+  if (text.charAt(i) !== '{') {
+    return [text.charAt(i), i + 1];
+  }
+  let braces = 0;
+  for (let j = i; j < text.length; j++) {
+    const c = text.charAt(j);
+    if (c === '\\') {
+      j++;
+    } else if (c === '{') {
+      braces++;
+    } else if (c === '}' && --braces === 0) {
+      return [text.substring(i + 1, j), j + 1];
+    }
+  }
+  throw new TexError('MissingCloseBrace', 'Missing close brace');
+}
+
+
+/**
+ * Parse a unit string (using unit macros or literal units) into a list of units.
+ *
+ * @param {string} name        The macro name
+ * @param {string} text        The unit string
+ * @return {Unit[]}            The units that it contains
+ */
+export function ParseUnits(name: string, text: string): Unit[] {
+  const units: Unit[] = [];
+  let prefix = '';
+  let power = '';
+  let per = false;
+  const add = (symbol: string) => {
+    units.push({symbol: prefix + symbol, power: power, per: per});
+    prefix = power = '';
+    per = false;
+  };
+  const last = (cs: string) => {
+    if (!units.length || prefix) {
+      throw new TexError('MissingUnit', 'Missing unit before %1 in %2', cs, name);
+    }
+    return units[units.length - 1];
+  };
+  let i = 0;
+  while (i < text.length) {
+    const c = text.charAt(i++);
+    if (c === '\\') {
+      const cs = text.substr(i).match(/^(?:[a-z]+|.)/i)[0];
+      i += cs.length;
+      if (PREFIXES.hasOwnProperty(cs)) {
+        prefix += PREFIXES[cs];
+      } else if (UNITS.hasOwnProperty(cs)) {
+        add(UNITS[cs]);
+      } else if (PREPOWERS.hasOwnProperty(cs)) {
+        power = PREPOWERS[cs];
+      } else if (POSTPOWERS.hasOwnProperty(cs)) {
+        last('\\' + cs).power = POSTPOWERS[cs];
+      } else if (cs === 'raiseto') {
+        [power, i] = UnitArgument(text, i);
+      } else if (cs === 'tothe') {
+        const unit = last('\\' + cs);
+        [unit.power, i] = UnitArgument(text, i);
+      } else if (cs === 'per') {
+        per = true;
+      } else if (!cs.match(/^[,;:! ]$/)) {
+        throw new TexError('UndefinedUnit', 'Undefined unit %1 in %2', '\\' + cs, name);
+      }
+    } else if (c === '^') {
+      const unit = last(c);
+      [unit.power, i] = UnitArgument(text, i);
+    } else if (c === '/') {
+      per = true;
+    } else if (c === '{') {
+      let symbol;
+      [symbol, i] = UnitArgument(text, i - 1);
+      add(symbol);
+    } else if (!c.match(/[\s.~}]/)) {
+      const symbol = c + text.substr(i).match(/^[^\\\s.~\/^{}]*/)[0];
+      i += symbol.length - 1;
+      add(symbol);
+    }
+  }
+  if (prefix || power || per) {
+    throw new TexError('MissingFinalUnit', 'Missing unit at the end of %1', name);
+  }
+  return units;
+}
+
+
+/**
+ * Create the MathML for a list of units.
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {Unit[]} units       The units to format
+ * @param {OptionList} options The siunitx options
+ * @return {MmlNode}           The formatted units
+ */
+export function FormatUnits(parser: TexParser, units: Unit[], options: OptionList): MmlNode {
+  if (options.perMode === 'power') {
+    return UnitProduct(parser, units.map((unit: Unit) => {
+      const power = (unit.per ? '-' + (unit.power || '1') : unit.power);
+      return {symbol: unit.symbol, power: power, per: false};
+    }), options);
+  }
+  const num = units.filter((unit: Unit) => !unit.per);
+  const den = units.filter((unit: Unit) => unit.per);
+  if (!den.length) {
+    return UnitProduct(parser, num, options);
+  }
+  const top = (num.length ? UnitProduct(parser, num, options) : parser.create('token', 'mn', {}, '1'));
+  const bottom = UnitProduct(parser, den, options);
+  if (options.perMode === 'fraction') {
+    return parser.create('node', 'mfrac', [top, bottom]);
+  }
+  const nodes = [top, parser.create('token', 'mo', {stretchy: false}, options.perSymbol)];
+  if (den.length > 1) {
+    nodes.push(parser.create('token', 'mo', {stretchy: false}, '('), bottom,
+               parser.create('token', 'mo', {stretchy: false}, ')'));
+  } else {
+    nodes.push(bottom);
+  }
+  return parser.create('node', 'mrow', nodes);
+}
+
+
+/**
+ * Create the MathML for a product of units.
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {Unit[]} units       The units to multiply
+ * @param {OptionList} options The siunitx options
+ * @return {MmlNode}           The product of the units
+ */
+function UnitProduct(parser: TexParser, units: Unit[], options: OptionList): MmlNode {
+  const nodes: MmlNode[] = [];
+  units.forEach((unit: Unit, i: number) => {
+    if (i) {
+      nodes.push(parseTeX(parser, options.interUnitProduct));
+    }
+    const mi = parser.create('token', 'mi', {mathvariant: 'normal', 'class': UNITCLASS}, unit.symbol);
+    nodes.push(unit.power ? parser.create('node', 'msup', [mi, parseTeX(parser, unit.power)]) : mi);
+  });
+  return parser.create('node', 'mrow', nodes);
+}
+
+
+/**
+ * Create the MathML for a number and its units.
+ *
+ * @param {TexParser} parser   The calling parser
+ * @param {MmlNode} num        The formatted number
+ * @param {Unit[]} units       The units for the number
+ * @param {OptionList} options The siunitx options
+ * @return {MmlNode}           The number with its units
+ */
+function Quantity(parser: TexParser, num: MmlNode, units: Unit[], options: OptionList): MmlNode {
+  const nodes = [num];
+  if (units.length && !(units.length === 1 && !units[0].power && UNSPACED[units[0].symbol])) {
+    nodes.push(parseTeX(parser, options.numberUnitProduct));
+  }
+  nodes.push(FormatUnits(parser, units, options));
+  return parser.create('node', 'mrow', nodes);
+}
+
+
+// Namespace
+export const SiunitxMethods: Record<string, ParseMethod> = {};
+
+
+/**
+ * Handle \num[options]{number}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.Num = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  const num = parser.GetArgument(name);
+  parser.Push(FormatNumber(parser, name, num, options));
+};
+
+
+/**
+ * Handle \si[options]{units}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.Si = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  const units = ParseUnits(name, parser.GetArgument(name));
+  parser.Push(FormatUnits(parser, units, options));
+};
+
+
+/**
+ * Handle \SI[options]{number}[pre-unit]{units}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.SI = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  const num = FormatNumber(parser, name, parser.GetArgument(name), options);
+  const pre = ParseUnits(name, parser.GetBrackets(name, ''));
+  const units = ParseUnits(name, parser.GetArgument(name));
+  parser.Push(pre.length ?
+              parser.create('node', 'mrow', [FormatUnits(parser, pre, options), Quantity(parser, num, units, options)]) :
+              Quantity(parser, num, units, options));
+};
+
+
+/**
+ * Handle \numrange[options]{number}{number}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.NumRange = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  const first = FormatNumber(parser, name, parser.GetArgument(name), options);
+  const last = FormatNumber(parser, name, parser.GetArgument(name), options);
+  parser.Push(parser.create('node', 'mrow', [
+    first, ParseUtil.internalText(parser, ' ' + options.rangePhrase + ' ', {}), last
+  ]));
+};
+
+
+/**
+ * Handle \SIrange[options]{number}{number}{units}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.SIRange = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  let first = FormatNumber(parser, name, parser.GetArgument(name), options);
+  let last = FormatNumber(parser, name, parser.GetArgument(name), options);
+  const units = ParseUnits(name, parser.GetArgument(name));
+  const phrase = ParseUtil.internalText(parser, ' ' + options.rangePhrase + ' ', {});
+  if (options.rangeUnits === 'repeat') {
+    parser.Push(parser.create('node', 'mrow', [
+      Quantity(parser, first, units, options), phrase, Quantity(parser, last, units, options)
+    ]));
+    return;
+  }
+  let range = parser.create('node', 'mrow', [first, phrase, last]);
+  if (options.rangeUnits === 'brackets') {
+    range = parser.create('node', 'mrow', [
+      parser.create('token', 'mo', {stretchy: false}, '('), range,
+      parser.create('token', 'mo', {stretchy: false}, ')')
+    ]);
+  }
+  parser.Push(Quantity(parser, range, units, options));
+};
+
+
+/**
+ * Handle \ang[options]{degrees;minutes;seconds}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.Ang = function(parser: TexParser, name: string) {
+  const options = GetOptions(parser, name);
+  const parts = parser.GetArgument(name).split(/;/);
+  if (parts.length > 3) {
+    throw new TexError('BadSiNumber', 'Invalid number for %1: %2', name, parts.join(';'));
+  }
+  const symbols = [UNITS.degree, UNITS.arcminute, UNITS.arcsecond];
+  const nodes: MmlNode[] = [];
+  parts.forEach((part: string, i: number) => {
+    if (part.trim()) {
+      nodes.push(FormatNumber(parser, name, part, options),
+                 parser.create('token', 'mi', {mathvariant: 'normal', 'class': UNITCLASS}, symbols[i]));
+    }
+  });
+  parser.Push(parser.create('node', 'mrow', nodes));
+};
+
+
+/**
+ * Handle \sisetup{options}.
+ * @param {TexParser} parser The calling parser.
+ * @param {string} name The macro name.
+ */
+SiunitxMethods.SiSetup = function(parser: TexParser, name: string) {
+  SetOptions(parser.options.siunitx, parser.GetArgument(name));
+  parser.configuration.stateChange = true;
+};
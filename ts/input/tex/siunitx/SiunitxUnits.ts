@@ -0,0 +1,155 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The unit, prefix, and power macros of the siunitx package.
+ *               These are only defined within the unit arguments of \si, \SI, etc.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+
+/**
+ * The SI prefixes and their symbols.
+ */
+export const PREFIXES: {[name: string]: string} = {
+  yocto: 'y',
+  zepto: 'z',
+  atto:  'a',
+  femto: 'f',
+  pico:  'p',
+  nano:  'n',
+  micro: '\u03BC',
+  milli: 'm',
+  centi: 'c',
+  deci:  'd',
+  deca:  'da',
+  deka:  'da',
+  hecto: 'h',
+  kilo:  'k',
+  mega:  'M',
+  giga:  'G',
+  tera:  'T',
+  peta:  'P',
+  exa:   'E',
+  zetta: 'Z',
+  yotta: 'Y'
+};
+
+
+/**
+ * The units and their symbols.
+ */
+export const UNITS: {[name: string]: string} = {
+  //
+  //  SI base units
+  //
+  ampere:   'A',
+  candela:  'cd',
+  gram:     'g',
+  kilogram: 'kg',
+  kelvin:   'K',
+  metre:    'm',
+  meter:    'm',
+  mole:     'mol',
+  second:   's',
+  //
+  //  Derived units
+  //
+  becquerel:     'Bq',
+  degreeCelsius: '\u00B0C',
+  coulomb:       'C',
+  farad:         'F',
+  gray:          'Gy',
+  hertz:         'Hz',
+  henry:         'H',
+  joule:         'J',
+  katal:         'kat',
+  lumen:         'lm',
+  lux:           'lx',
+  newton:        'N',
+  ohm:           '\u03A9',
+  pascal:        'Pa',
+  radian:        'rad',
+  siemens:       'S',
+  sievert:       'Sv',
+  steradian:     'sr',
+  tesla:         'T',
+  volt:          'V',
+  watt:          'W',
+  weber:         'Wb',
+  //
+  //  Non-SI units accepted for use with the SI
+  //
+  astronomicalunit: 'au',
+  bel:              'B',
+  dalton:           'Da',
+  day:              'd',
+  decibel:          'dB',
+  degree:           '\u00B0',
+  electronvolt:     'eV',
+  hectare:          'ha',
+  hour:             'h',
+  litre:            'L',
+  liter:            'L',
+  arcminute:        '\u2032',
+  minute:           'min',
+  arcsecond:        '\u2033',
+  neper:            'Np',
+  tonne:            't',
+  //
+  //  Other units
+  //
+  angstrom:  '\u00C5',
+  bar:       'bar',
+  barn:      'b',
+  bohr:      'a\u2080',
+  percent:   '%',
+  atomicmassunit: 'u',
+  mmHg:      'mmHg',
+  bit:       'bit',
+  byte:      'B'
+};
+
+
+/**
+ * The units that are not separated from their numbers.
+ */
+export const UNSPACED: {[symbol: string]: boolean} = {
+  '\u00B0': true,
+  '\u2032': true,
+  '\u2033': true
+};
+
+
+/**
+ * The powers that apply to the following unit.
+ */
+export const PREPOWERS: {[name: string]: string} = {
+  square: '2',
+  cubic:  '3'
+};
+
+
+/**
+ * The powers that apply to the preceding unit.
+ */
+export const POSTPOWERS: {[name: string]: string} = {
+  squared: '2',
+  cubed:   '3'
+};
@@ -0,0 +1,46 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Configuration file for the tikzcd package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {Configuration} from '../Configuration.js';
+import {TikzCdItem} from './TikzCdItems.js';
+import './TikzCdMappings.js';
+
+
+export const TikzCdConfiguration = Configuration.create(
+  'tikzcd', {
+    handler: {
+      macro: ['tikzcd-macros'],
+      environment: ['tikzcd-environment']
+    },
+    items: {
+      [TikzCdItem.prototype.kind]: TikzCdItem
+    },
+    options: {
+      tikzcd: {
+        columnsep: '1.8em',     // the default space between columns
+        rowsep: '1.8em'         // the default space between rows
+      }
+    }
+  }
+);
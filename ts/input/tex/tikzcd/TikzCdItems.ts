@@ -0,0 +1,79 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Stack items for the tikzcd package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {CheckType, StackItem} from '../StackItem.js';
+import {ArrayItem} from '../base/BaseItems.js';
+import TexError from '../TexError.js';
+import {MmlNode} from '../../../core/MmlTree/MmlNode.js';
+import {CdDiagram, CdArrow} from '../../../core/MmlTree/MmlNodes/CdDiagram.js';
+
+
+/**
+ * The array item for the tikzcd environment.  It collects the arrows
+ * and their labels as the cells are processed, and turns the finished
+ * table into a CdDiagram node.
+ */
+export class TikzCdItem extends ArrayItem {
+
+  /**
+   * The arrows in the diagram.
+   * @type {CdArrow[]}
+   */
+  public arrows: CdArrow[] = [];
+
+  /**
+   * The arrow labels (these become children 1, 2, ... of the diagram).
+   * @type {MmlNode[]}
+   */
+  public labels: MmlNode[] = [];
+
+  /**
+   * @override
+   */
+  get kind() {
+    return 'tikzcd';
+  }
+
+  /**
+   * @override
+   */
+  public checkItem(item: StackItem): CheckType {
+    if (!item.isClose || item.isKind('over') ||
+        item.getProperty('isEntry') || item.getProperty('isCR')) {
+      return super.checkItem(item);
+    }
+    const [[mml, ...rest], done] = super.checkItem(item);
+    const columns = Math.max(0, ...this.table.map(row => row.childNodes.length));
+    for (const arrow of this.arrows) {
+      const [i, j] = arrow.to;
+      if (i < 0 || j < 0 || i >= this.table.length || j >= columns) {
+        throw new TexError('ArrowOutOfRange', 'Arrow target is outside of the diagram');
+      }
+    }
+    const diagram = this.create('node', 'CdDiagram', [(mml as StackItem).First, ...this.labels]) as CdDiagram;
+    diagram.arrows = this.arrows;
+    return [[this.factory.create('mml', diagram), ...rest], done];
+  }
+
+}
@@ -0,0 +1,56 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview Mappings for TeX parsing of the tikzcd package.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {TikzCdMethods} from './TikzCdMethods.js';
+import {CommandMap, EnvironmentMap} from '../SymbolMap.js';
+import ParseMethods from '../ParseMethods.js';
+
+
+/**
+ * The tikzcd environment.
+ */
+new EnvironmentMap('tikzcd-environment', ParseMethods.environment, {
+  tikzcd: 'TikzCd'
+}, TikzCdMethods);
+
+
+/**
+ * The arrow macros (with their abbreviated forms).
+ */
+new CommandMap('tikzcd-macros', {
+  arrow: 'Arrow',
+  ar:    'Arrow',
+  rar:   ['Arrow', 'r'],
+  lar:   ['Arrow', 'l'],
+  uar:   ['Arrow', 'u'],
+  dar:   ['Arrow', 'd'],
+  urar:  ['Arrow', 'ur'],
+  ular:  ['Arrow', 'ul'],
+  drar:  ['Arrow', 'dr'],
+  dlar:  ['Arrow', 'dl'],
+  rrar:  ['Arrow', 'rr'],
+  llar:  ['Arrow', 'll'],
+  uuar:  ['Arrow', 'uu'],
+  ddar:  ['Arrow', 'dd']
+}, TikzCdMethods);
@@ -0,0 +1,343 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+
+/**
+ * @fileoverview The tikzcd parse methods.
+ *
+ * @author dpvc@mathjax.org (Davide P. Cervone)
+ */
+
+import {ParseMethod} from '../Types.js';
+import {StackItem} from '../StackItem.js';
+import ParseUtil from '../ParseUtil.js';
+import TexParser from '../TexParser.js';
+import TexError from '../TexError.js';
+import {CdArrow, CdLabel} from '../../../core/MmlTree/MmlNodes/CdDiagram.js';
+import {ArrayItem} from '../base/BaseItems.js';
+import {TikzCdItem} from './TikzCdItems.js';
+
+
+/**
+ * The named sizes for the row and column separations
+ */
+const SEPARATIONS: {[name: string]: string} = {
+  tiny: '.45em',
+  small: '.9em',
+  scriptsize: '1.35em',
+  normal: '1.8em',
+  large: '2.7em',
+  huge: '3.6em'
+};
+
+
+/**
+ * The positions for the label placement options
+ */
+const POSITIONS: {[name: string]: number} = {
+  'at start': 0,
+  'very near start': .125,
+  'near start': .25,
+  'midway': .5,
+  'near end': .75,
+  'very near end': .875,
+  'at end': 1
+};
+
+
+/**
+ * The pattern for the options that can follow a label
+ */
+const LABELKEYS = new RegExp('^(swap|description|' +
+                             Object.keys(POSITIONS).map(key => key.replace(/ /g, '\\s+')).join('|') +
+                             ')(?:\\s+|$)');
+
+
+/**
+ * The arrow styles and the arrow properties that they set
+ */
+const STYLES: {[name: string]: Partial<CdArrow>} = {
+  'rightarrow': {head: 'to', tail: 'none', line: 'solid'},
+  'to': {head: 'to'},
+  '->': {head: 'to', tail: 'none'},
+  'leftarrow': {head: 'none', tail: 'to'},
+  '<-': {head: 'none', tail: 'to'},
+  'leftrightarrow': {head: 'to', tail: 'to'},
+  '<->': {head: 'to', tail: 'to'},
+  '-': {head: 'none', tail: 'none'},
+  'dash': {head: 'none', tail: 'none', line: 'solid'},
+  'no head': {head: 'none'},
+  'two heads': {head: 'two heads'},
+  'twoheadrightarrow': {head: 'two heads', tail: 'none', line: 'solid'},
+  '->>': {head: 'two heads', tail: 'none'},
+  'hook': {tail: 'hook'},
+  'hook\'': {tail: 'hook\''},
+  'hookrightarrow': {head: 'to', tail: 'hook', line: 'solid'},
+  'hookleftarrow': {head: 'none', tail: 'hook\''},
+  'tail': {tail: 'tail'},
+  'rightarrowtail': {head: 'to', tail: 'tail', line: 'solid'},
+  '>->': {head: 'to', tail: 'tail'},
+  'maps to': {tail: 'mapsto'},
+  'mapsto': {head: 'to', tail: 'mapsto', line: 'solid'},
+  '|->': {head: 'to', tail: 'mapsto'},
+  'Rightarrow': {head: 'to', tail: 'none', line: 'double'},
+  'Leftarrow': {head: 'none', tail: 'to', line: 'double'},
+  'Leftrightarrow': {head: 'to', tail: 'to', line: 'double'},
+  'equal': {head: 'none', tail: 'none', line: 'double'},
+  'dashed': {line: 'dashed'},
+  'dotted': {line: 'dotted'},
+  'phantom': {head: 'none', tail: 'none', line: 'none'}
+};
+
+
+/**
+ * The default bend angle and shift for arrows
+ */
+const BEND = 30;
+const SHIFT = '.56ex';
+
+
+/**
+ * Split a list of options at the commas that are not within braces or quotes.
+ *
+ * @param {string} text   The option string to split.
+ * @return {string[]}     The (trimmed) options.
+ */
+function SplitOptions(text: string): string[] {
+  const options: string[] = [];
+  let [braces, quoted, start] = [0, false, 0];
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charAt(i);
+    if (c === '\\') {
+      i++;
+    } else if (c === '{') {
+      braces++;
+    } else if (c === '}') {
+      braces--;
+    } else if (c === '"' && !braces) {
+      quoted = !quoted;
+    } else if (c === ',' && !braces && !quoted) {
+      options.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  options.push(text.slice(start));
+  return options.map(option => option.trim()).filter(option => option !== '');
+}
+
+
+/**
+ * Find the quotation mark that ends a label (skipping braced material).
+ *
+ * @param {string} text   The option string starting with a quotation mark.
+ * @return {number}       The position of the closing quotation mark.
+ */
+function QuoteEnd(text: string): number {
+  let braces = 0;
+  for (let i = 1; i < text.length; i++) {
+    const c = text.charAt(i);
+    if (c === '\\') {
+      i++;
+    } else if (c === '{') {
+      braces++;
+    } else if (c === '}') {
+      braces--;
+    } else if (c === '"' && !braces) {
+      return i;
+    }
+  }
+  throw new TexError('MissingQuote', 'Missing closing quotation mark in arrow label');
+}
+
+
+/**
+ * Convert a separation option to a length.
+ *
+ * @param {string} name    The option name.
+ * @param {string} value   The option value.
+ * @return {string}        The length for the separation.
+ */
+function Separation(name: string, value: string): string {
+  const sep = SEPARATIONS[value] || value;
+  if (!ParseUtil.matchDimen(sep)[0]) {
+    throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', name, value);
+  }
+  return sep;
+}
+
+
+// Namespace
+export const TikzCdMethods: Record<string, ParseMethod> = {};
+
+
+/**
+ * Handle the tikzcd environment.
+ *
+ * @param {TexParser} parser    The calling parser.
+ * @param {StackItem} begin     The opening stackitem.
+ */
+TikzCdMethods.TikzCd = function(parser: TexParser, begin: StackItem) {
+  const options = parser.configuration.options.tikzcd;
+  const keys = ParseUtil.keyvalOptions(parser.GetBrackets('\\begin{' + begin.getName() + '}', ''),
+                                       {'column sep': 1, 'row sep': 1, 'sep': 1}, true);
+  let [columnsep, rowsep] = [options.columnsep, options.rowsep];
+  if (keys.sep) {
+    columnsep = rowsep = Separation('sep', keys.sep as string);
+  }
+  if (keys['column sep']) {
+    columnsep = Separation('column sep', keys['column sep'] as string);
+  }
+  if (keys['row sep']) {
+    rowsep = Separation('row sep', keys['row sep'] as string);
+  }
+  parser.Push(begin);
+  const item = parser.itemFactory.create('tikzcd') as TikzCdItem;
+  item.arraydef = {
+    columnalign: 'center',
+    columnspacing: columnsep,
+    rowspacing: rowsep,
+    displaystyle: true
+  };
+  return item;
+};
+
+
+/**
+ * Handle \arrow and its abbreviations.
+ *
+ * @param {TexParser} parser    The calling parser.
+ * @param {string} name         The macro name.
+ * @param {string} dir          The direction given by the macro (if any).
+ */
+TikzCdMethods.Arrow = function(parser: TexParser, name: string, dir: string = '') {
+  let diagram: TikzCdItem = null;
+  for (let n = 1, item; (item = parser.stack.Top(n)); n++) {
+    if (item instanceof ArrayItem) {
+      diagram = (item.isKind('tikzcd') ? item as TikzCdItem : null);
+      break;
+    }
+  }
+  if (!diagram) {
+    throw new TexError('MisplacedArrow', '%1 can only be used in a tikzcd environment', name);
+  }
+  const [row, column] = [diagram.table.length, diagram.row.length];
+  const arrow: CdArrow = {
+    from: [row, column], to: [row, column],
+    head: 'to', tail: 'none', line: 'solid', bend: 0, shift: 0, labels: []
+  };
+  const labels: [string, string][] = [];
+  let swap = false;
+  for (const option of SplitOptions(parser.GetBrackets(name, ''))) {
+    if (option.charAt(0) === '"') {
+      const i = QuoteEnd(option);
+      labels.push([option.slice(1, i), option.slice(i + 1)]);
+    } else if (option.match(/^[udlr]+$/)) {
+      dir = option;
+    } else if (option === 'swap') {
+      //
+      //  As an arrow option, swap applies to all the labels
+      //
+      swap = !swap;
+    } else {
+      SetArrowOption(parser, arrow, option);
+    }
+  }
+  if (!dir) {
+    throw new TexError('MissingArrowDirection', 'Missing direction for %1', name);
+  }
+  for (const c of dir.split('')) {
+    const [i, j] = {u: [-1, 0], d: [1, 0], l: [0, -1], r: [0, 1]}[c as 'u' | 'd' | 'l' | 'r'];
+    arrow.to[0] += i;
+    arrow.to[1] += j;
+  }
+  for (const [text, keys] of labels) {
+    arrow.labels.push(ArrowLabel(parser, diagram, arrow, text, (swap ? 'swap ' : '') + keys));
+  }
+  diagram.arrows.push(arrow);
+};
+
+
+/**
+ * Set an arrow property from one of its options.
+ *
+ * @param {TexParser} parser   The calling parser.
+ * @param {CdArrow} arrow      The arrow being defined.
+ * @param {string} option      The option to process.
+ */
+function SetArrowOption(parser: TexParser, arrow: CdArrow, option: string) {
+  const [key, value] = option.split(/\s*=\s*/);
+  if (STYLES.hasOwnProperty(key) && value === undefined) {
+    Object.assign(arrow, STYLES[key]);
+  } else if (key === 'bend left' || key === 'bend right') {
+    const bend = (value === undefined ? BEND : parseFloat(value));
+    if (isNaN(bend)) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', key, value);
+    }
+    arrow.bend = (key === 'bend left' ? bend : -bend);
+  } else if (key === 'shift left' || key === 'shift right') {
+    let shift = ParseUtil.dimen2em(SHIFT);
+    if (value !== undefined) {
+      shift = (value.match(/^[-+]?(?:\d+\.?\d*|\.\d+)$/) ? parseFloat(value) * shift :
+               ParseUtil.matchDimen(value)[0] ? ParseUtil.dimen2em(value) : NaN);
+    }
+    if (isNaN(shift)) {
+      throw new TexError('InvalidOptionValue', 'Invalid value for option %1: %2', key, value);
+    }
+    arrow.shift = (key === 'shift left' ? shift : -shift);
+  } else {
+    throw new TexError('UnknownArrowOption', 'Unknown option \'%1\' for %2', option, parser.currentCS);
+  }
+}
+
+
+/**
+ * Create a label for an arrow.
+ *
+ * @param {TexParser} parser       The calling parser.
+ * @param {TikzCdItem} diagram     The diagram containing the arrow.
+ * @param {CdArrow} arrow          The arrow being labeled.
+ * @param {string} text            The TeX string for the label.
+ * @param {string} keys            The label options that follow the label.
+ * @return {CdLabel}               The label data for the arrow.
+ */
+function ArrowLabel(parser: TexParser, diagram: TikzCdItem, arrow: CdArrow,
+                    text: string, keys: string): CdLabel {
+  const label: CdLabel = {
+    child: diagram.labels.length + 1,
+    pos: .5,
+    side: (arrow.line === 'none' ? 'center' : 'left')
+  };
+  keys = keys.replace(/'/g, ' swap ').trim();
+  while (keys) {
+    const match = keys.match(LABELKEYS);
+    if (!match) {
+      throw new TexError('UnknownArrowOption', 'Unknown option \'%1\' for %2', keys, parser.currentCS);
+    }
+    const key = match[1].replace(/\s+/g, ' ');
+    if (key === 'swap') {
+      label.side = (label.side === 'left' ? 'right' : label.side === 'right' ? 'left' : 'center');
+    } else if (key === 'description') {
+      label.side = 'center';
+    } else {
+      label.pos = POSITIONS[key];
+    }
+    keys = keys.slice(match[0].length);
+  }
+  const mml = new TexParser(text, parser.stack.env, parser.configuration).mml();
+  diagram.labels.push(parser.create('node', 'mstyle', [mml], {displaystyle: false, scriptlevel: 1}));
+  return label;
+}
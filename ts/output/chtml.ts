@@ -24,14 +24,14 @@
 import {CommonOutputJax} from './common/OutputJax.js';
 import {CommonWrapper} from './common/Wrapper.js';
 import {StyleList} from '../util/Styles.js';
-import {StyleList as CssStyleList} from '../util/StyleList.js';
+import {StyleList as CssStyleList, CssStyles} from '../util/StyleList.js';
 import {OptionList} from '../util/Options.js';
 import {MathDocument} from '../core/MathDocument.js';
 import {MathItem} from '../core/MathItem.js';
 import {MmlNode} from '../core/MmlTree/MmlNode.js';
 import {CHTMLWrapper} from './chtml/Wrapper.js';
 import {CHTMLWrapperFactory} from './chtml/WrapperFactory.js';
-import {CHTMLFontData} from './chtml/FontData.js';
+import {CHTMLFontData, CHTMLFontDataClass} from './chtml/FontData.js';
 import {TeXFont} from './chtml/fonts/tex.js';
 import * as LENGTHS from '../util/lengths.js';
 import {unicodeChars} from '../util/string.js';
@@ -59,6 +59,8 @@ CommonOutputJax<N, T, D, CHTMLWrapper<N, T, D>, CHTMLWrapperFactory<N, T, D>, CH
   public static OPTIONS: OptionList = {
     ...CommonOutputJax.OPTIONS,
     adaptiveCSS: true,            // true means only produce CSS that is used in the processed equations
+    stylesheetURL: null,          // the URL of a precompiled stylesheet (from staticStyleSheet()) to link to
+                                  //   rather than generating the CSS for each page (implies adaptiveCSS: false)
   };
 
   /**
@@ -120,6 +122,11 @@ CommonOutputJax<N, T, D, CHTMLWrapper<N, T, D>, CHTMLWrapperFactory<N, T, D>, CH
    */
   public static STYLESHEETID = 'MJX-CHTML-styles';
 
+  /**
+   * The fonts that can be selected by name
+   */
+  public static fonts: Map<string, CHTMLFontDataClass> = new Map([[TeXFont.NAME, TeXFont]]);
+
   /**
    *  Used to store the CHTMLWrapper factory,
    *  the FontData object, and the CssStyles object.
@@ -137,7 +144,20 @@ CommonOutputJax<N, T, D, CHTMLWrapper<N, T, D>, CHTMLWrapperFactory<N, T, D>, CH
    */
   constructor(options: OptionList = null) {
     super(options, CHTMLWrapperFactory as any, TeXFont);
+    if (this.options.stylesheetURL) {
+      this.options.adaptiveCSS = false;
+    }
+    this.font.adaptiveCSS(this.options.adaptiveCSS);
+  }
+
+  /**
+   * @override
+   */
+  public setFont(font: string | CHTMLFontData) {
+    super.setFont(font);
     this.font.adaptiveCSS(this.options.adaptiveCSS);
+    this.cssStyles.clear();
+    this.chtmlStyles = null;
   }
 
   /**
@@ -152,6 +172,9 @@ CommonOutputJax<N, T, D, CHTMLWrapper<N, T, D>, CHTMLWrapperFactory<N, T, D>, CH
    * @override
    */
   public styleSheet(html: MathDocument<N, T, D>) {
+    if (this.options.stylesheetURL) {
+      return this.html('link', {id: CHTML.STYLESHEETID, rel: 'stylesheet', href: this.options.stylesheetURL});
+    }
     if (this.chtmlStyles && !this.options.adaptiveCSS) {
       return null;  // stylesheet is already added to the document
     }
@@ -160,20 +183,52 @@ CommonOutputJax<N, T, D, CHTMLWrapper<N, T, D>, CHTMLWrapperFactory<N, T, D>, CH
     return sheet;
   }
 
+  /**
+   * Produce the complete CSS for the current font, with all its characters, variants,
+   * and delimiters, and the styles for all the wrapper classes, so that it can be saved
+   * as a static file and used via the stylesheetURL option.  The styles that the document
+   * adds (e.g., for assistive MathML) are included as well.
+   *
+   * @param {MathDocument} html   The document whose styles are to be included
+   * @return {string}             The CSS text for the stylesheet
+   */
+  public staticStyleSheet(html: MathDocument<N, T, D>): string {
+    const adaptive = this.options.adaptiveCSS;
+    this.options.adaptiveCSS = false;
+    this.font.adaptiveCSS(false);
+    const styles = new CssStyles(CHTML.commonStyles);
+    this.addDocumentStyles(html, styles);
+    this.addWrapperStyles(styles);
+    styles.addStyles(this.font.styles);
+    this.options.adaptiveCSS = adaptive;
+    this.font.adaptiveCSS(adaptive);
+    return styles.cssText + '\n';
+  }
+
+  /**
+   * When adaptiveCSS is in effect, the CSS for the characters used is only generated
+   * when they are typeset, so the output can only be reused when all the CSS is produced.
+   *
+   * @override
+   */
+  public canCacheOutput(_math: MathItem<N, T, D>) {
+    return !this.options.adaptiveCSS;
+  }
+
   /**
    * @override
    */
-  protected addClassStyles(CLASS: typeof CommonWrapper) {
+  protected addClassStyles(CLASS: typeof CommonWrapper, styles: CssStyles = this.cssStyles) {
     if (!this.options.adaptiveCSS || (CLASS as typeof CHTMLWrapper).used) {
       if ((CLASS as typeof CHTMLWrapper).autoStyle && CLASS.kind !== 'unknown') {
-        this.cssStyles.addStyles({
+        styles.addStyles({
           ['mjx-' + CLASS.kind]: {
             display: 'inline-block',
             'text-align': 'left'
           }
         });
       }
-      super.addClassStyles(CLASS);
+      super.addClassStyles(CLASS, styles);
     }
   }
 
@@ -399,7 +399,7 @@ export class CHTMLFontData extends FontData<CHTMLCharOptions, CHTMLVariantData,
    * @return {CHTMLCharData}   The data for that character to be used for stretchy delimiters
    */
   protected getDelimiterData(n: number): CHTMLCharData {
-    return this.getChar('-smallop', n);
+    return this.getChar(this.getStretchVariant(n), n);
   }
 
   /**
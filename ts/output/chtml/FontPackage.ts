@@ -0,0 +1,134 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements font packages for the CHTML output jax
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {CHTMLFontData, CHTMLFontDataClass, CHTMLCharOptions, CHTMLVariantData, CHTMLDelimiterData,
+        CharOptionsMap, AddCSS} from './FontData.js';
+import {FontPackageData, CommonFontPackageMixin} from '../common/FontPackage.js';
+import {StringMap} from './Wrapper.js';
+import {StyleList} from '../../util/StyleList.js';
+
+/*****************************************************************/
+
+/**
+ * The data for a CHTML font package (the common data plus the woff font metadata)
+ */
+export interface CHTMLFontPackageData extends FontPackageData<CHTMLCharOptions, CHTMLDelimiterData> {
+  fontURL: string;                       // the default location of the woff files
+  fonts: StringMap;                      // the woff file for each font letter ('' is the main font)
+  variantClasses: StringMap;             // the classes to use for each variant
+  variantLetters: StringMap;             // the font letter for each variant (letters without
+                                         //   their own woff file use the main font)
+  css?: {[variant: string]: CharOptionsMap};  // additional CSS data for characters in each variant
+}
+
+/**
+ * The font used for the zero-width characters, and to prefix explicit font-family settings
+ */
+const ZERO = 'MJXZERO';
+
+/*****************************************************************/
+/**
+ * Create the FontData class for a CHTML font package
+ *
+ * @param {CHTMLFontPackageData} data   The data for the package
+ * @return {CHTMLFontDataClass}         The FontData class for the package
+ */
+export function CHTMLFontPackage(data: CHTMLFontPackageData): CHTMLFontDataClass {
+  if (!data.fonts || !Object.keys(data.fonts).length) {
+    throw Error('The ' + data.name + ' font has no woff fonts for CHTML output');
+  }
+  for (const name of Object.keys(data.css || {})) {
+    AddCSS(data.chars[name], data.css[name]);
+  }
+  //
+  //  The font-family for each letter, and the styles and @font-face rules that use them
+  //
+  const family = (letter: string) => 'MJX' + data.id + (letter ? '-' + letter : '');
+  const styles: StyleList = {};
+  const fonts: StyleList = {};
+  Object.keys(data.fonts).forEach((letter, i) => {
+    styles[letter ? '.TEX-' + letter : '.MJX-TEX'] = {'font-family': ZERO + ', ' + family(letter)};
+    fonts['@font-face /* ' + (i + 1) + ' */'] = {
+      'font-family': family(letter),
+      src: 'url("%%URL%%/' + data.fonts[letter] + '") format("woff")'
+    };
+  });
+  for (const name of Object.keys(data.variantLetters)) {
+    const letter = data.variantLetters[name];
+    if (!data.fonts.hasOwnProperty(letter)) {
+      styles['.TEX-' + letter] = {'font-family': ZERO + ', ' + family('')};
+    }
+  }
+  //
+  //  Stretchy delimiters use the fonts for their parts, then the main font
+  //
+  const letters = [] as string[];
+  for (const name of [...data.stretchVariants, 'normal']) {
+    const letter = data.variantLetters[name];
+    if (data.fonts.hasOwnProperty(letter) && letters.indexOf(letter) < 0) {
+      letters.push(letter);
+    }
+  }
+  styles['mjx-stretchy-v mjx-c, mjx-stretchy-h mjx-c'] = {
+    'font-family': [ZERO, ...letters.map(family)].join(', ') + ' ! important'
+  };
+
+  return class extends
+  CommonFontPackageMixin<CHTMLCharOptions, CHTMLVariantData, CHTMLDelimiterData, CHTMLFontDataClass>(CHTMLFontData, data) {
+
+    /**
+     * The default location of the woff files
+     */
+    public static OPTIONS = {
+      ...CHTMLFontData.OPTIONS,
+      fontURL: data.fontURL
+    };
+
+    /**
+     * Fonts to prefix any explicit ones
+     */
+    protected static defaultCssFamilyPrefix = ZERO;
+
+    /**
+     * The classes to use for each variant
+     */
+    protected static defaultVariantClasses: StringMap = data.variantClasses;
+
+    /**
+     * The letters that identify the default font for each varaint
+     */
+    protected static defaultVariantLetters: StringMap = data.variantLetters;
+
+    /**
+     * The CSS styles needed for this font
+     */
+    protected static defaultStyles = {...CHTMLFontData.defaultStyles, ...styles};
+
+    /**
+     * The @font-face declarations with %%URL%% where the font path should go
+     */
+    protected static defaultFonts = {...CHTMLFontData.defaultFonts, ...fonts};
+
+  };
+
+}
@@ -289,7 +289,8 @@ CommonWrapper<
    * Don't copy those in the skipAttributes list, or anything that already exists
    * as a property of the node (e.g., no "onlick", etc.).  If a name in the
    * skipAttributes object is set to false, then the attribute WILL be copied.
-   * Add the class to any other classes already in use.
+   * Add the class to any other classes already in use, and copy the
+   * properties listed in dataProperties as data attributes.
    */
   protected handleAttributes() {
     const attributes = this.node.attributes;
@@ -307,6 +308,13 @@ CommonWrapper<
         this.adaptor.addClass(this.chtml, name);
       }
     }
+    const data = CHTMLWrapper.dataProperties;
+    for (const name of Object.keys(data)) {
+      const value = this.node.getProperty(name);
+      if (value !== undefined) {
+        this.adaptor.setAttribute(this.chtml, data[name], String(value));
+      }
+    }
   }
 
   /**
@@ -0,0 +1,155 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the CHTMLCdDiagram wrapper for the CdDiagram object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {CHTMLWrapper, CHTMLConstructor} from '../Wrapper.js';
+import {CommonCdDiagramMixin, CdPath, CdSizes, SVGNS} from '../../common/Wrappers/CdDiagram.js';
+import {CdDiagram} from '../../../core/MmlTree/MmlNodes/CdDiagram.js';
+import {OptionList} from '../../../util/Options.js';
+import {StyleList} from '../../../util/StyleList.js';
+
+/*****************************************************************/
+/**
+ * The CHTMLCdDiagram wrapper for the CdDiagram object
+ *
+ *  The table and labels are positioned absolutely within the
+ *  diagram's box, and the arrows are drawn by an SVG element
+ *  that overlays them.
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+// @ts-ignore
+export class CHTMLCdDiagram<N, T, D> extends
+CommonCdDiagramMixin<CHTMLConstructor<any, any, any>>(CHTMLWrapper) {
+
+  /**
+   * The CdDiagram wrapper
+   */
+  public static kind = CdDiagram.prototype.kind;
+
+  /**
+   * @override
+   */
+  public static styles: StyleList = {
+    'mjx-CdDiagram': {
+      display: 'inline-block',
+      position: 'relative'
+    },
+    'mjx-CdDiagram > mjx-cd-part': {
+      display: 'block',
+      position: 'absolute'
+    },
+    'mjx-CdDiagram > svg': {
+      position: 'absolute',
+      overflow: 'visible',
+      stroke: 'currentColor',
+      fill: 'none'
+    }
+  };
+
+  /**
+   * @override
+   */
+  public toCHTML(parent: N) {
+    const chtml = this.standardCHTMLnode(parent);
+    const {places, paths, masks, dx} = this.getLayout();
+    const {w, h, d} = this.getBBox();
+    this.adaptor.setStyle(chtml, 'width', this.em(w));
+    this.adaptor.setStyle(chtml, 'height', this.em(h + d));
+    this.adaptor.setStyle(chtml, 'verticalAlign', this.em(-d));
+    //
+    //  Draw the arrows in an SVG element covering the diagram
+    //
+    const arrows = this.jax.html('g', {transform: 'translate(' + this.fixed(dx) + ',0) scale(1,-1)'},
+                             paths.map(path => this.path(path)), SVGNS);
+    const svg = this.adaptor.append(chtml, this.jax.html('svg', {
+      width: this.em(w), height: this.em(h + d),
+      viewBox: [0, this.fixed(-h), this.fixed(w), this.fixed(h + d)].join(' '),
+      style: {left: 0, top: 0}
+    }, [arrows], SVGNS)) as N;
+    //
+    //  Keep the arrows from being drawn under the labels that sit on them
+    //
+    if (masks.length) {
+      const id = this.maskID();
+      this.adaptor.append(svg, this.mask(id));
+      this.adaptor.setAttribute(arrows, 'mask', 'url(#' + id + ')');
+    }
+    //
+    //  Place the table and the labels by the tops of their boxes
+    //
+    for (const i of this.childNodes.keys()) {
+      const child = this.childNodes[i];
+      const bbox = child.getBBox();
+      const [x, y] = places[i];
+      const part = this.adaptor.append(chtml, this.html('mjx-cd-part', {style: {
+        left: this.em(x + dx),
+        top: this.em(h - y - bbox.h * bbox.rscale)
+      }})) as N;
+      child.toCHTML(part);
+    }
+  }
+
+  /**
+   * @param {string} id   The id for the mask
+   * @return {N}          The mask that hides the arrows where the masked labels are
+   */
+  protected mask(id: string): N {
+    const [area, ...labels] = this.getMaskBoxes();
+    const rect = ([x, y, w, h]: number[], fill: string) => this.jax.html('rect', {
+      x: this.fixed(x), y: this.fixed(y), width: this.fixed(w), height: this.fixed(h), fill
+    }, [], SVGNS);
+    return this.jax.html('mask', {
+      id, maskUnits: 'userSpaceOnUse',
+      x: this.fixed(area[0]), y: this.fixed(area[1]), width: this.fixed(area[2]), height: this.fixed(area[3])
+    }, [rect(area, 'white'), ...labels.map(box => rect(box, 'black'))], SVGNS);
+  }
+
+  /**
+   * @param {CdPath} path   The path to be drawn
+   * @return {N}            The SVG path element for it
+   */
+  protected path(path: CdPath): N {
+    const def: OptionList = {
+      d: path.path.map(x => (typeof x === 'string' ? x : this.fixed(x))).join(' '),
+      'stroke-width': this.fixed(CdSizes.thickness),
+      'stroke-linecap': 'round', 'stroke-linejoin': 'round'
+    };
+    if (path.dash === 'dashed') {
+      def['stroke-dasharray'] = this.fixed(.25) + ' ' + this.fixed(.2);
+    } else if (path.dash === 'dotted') {
+      def['stroke-dasharray'] = '0 ' + this.fixed(.15);
+    }
+    return this.jax.html('path', def, [], SVGNS);
+  }
+
+  /**
+   * @param {number} x   The dimension to display (in ems)
+   * @return {string}    The dimension in thousandths of an em
+   */
+  protected fixed(x: number): string {
+    return this.jax.fixed(x * 1000, 1);
+  }
+
+}
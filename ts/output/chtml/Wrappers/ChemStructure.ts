@@ -0,0 +1,126 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the CHTMLChemStructure wrapper for the ChemStructure object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {CHTMLWrapper, CHTMLConstructor} from '../Wrapper.js';
+import {CommonChemStructureMixin, ChemPath, ChemSizes} from '../../common/Wrappers/ChemStructure.js';
+import {SVGNS} from '../../common/Wrappers/CdDiagram.js';
+import {ChemStructure} from '../../../core/MmlTree/MmlNodes/ChemStructure.js';
+import {StyleList} from '../../../util/StyleList.js';
+
+/*****************************************************************/
+/**
+ * The CHTMLChemStructure wrapper for the ChemStructure object
+ *
+ *  The atoms are positioned absolutely within the structure's box,
+ *  and the bonds are drawn by an SVG element beneath them.
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+// @ts-ignore
+export class CHTMLChemStructure<N, T, D> extends
+CommonChemStructureMixin<CHTMLConstructor<any, any, any>>(CHTMLWrapper) {
+
+  /**
+   * The ChemStructure wrapper
+   */
+  public static kind = ChemStructure.prototype.kind;
+
+  /**
+   * @override
+   */
+  public static styles: StyleList = {
+    'mjx-ChemStructure': {
+      display: 'inline-block',
+      position: 'relative'
+    },
+    'mjx-ChemStructure > mjx-chem-atom': {
+      display: 'block',
+      position: 'absolute'
+    },
+    'mjx-ChemStructure > svg': {
+      position: 'absolute',
+      overflow: 'visible',
+      stroke: 'currentColor',
+      fill: 'none'
+    }
+  };
+
+  /**
+   * @override
+   */
+  public toCHTML(parent: N) {
+    const chtml = this.standardCHTMLnode(parent);
+    const {places, paths, dx} = this.getLayout();
+    const {w, h, d} = this.getBBox();
+    this.adaptor.setStyle(chtml, 'width', this.em(w));
+    this.adaptor.setStyle(chtml, 'height', this.em(h + d));
+    this.adaptor.setStyle(chtml, 'verticalAlign', this.em(-d));
+    //
+    //  Draw the bonds in an SVG element covering the structure
+    //
+    const bonds = this.jax.html('g', {transform: 'translate(' + this.fixed(dx) + ',0) scale(1,-1)'},
+                            paths.map(path => this.path(path)), SVGNS);
+    this.adaptor.append(chtml, this.jax.html('svg', {
+      width: this.em(w), height: this.em(h + d),
+      viewBox: [0, this.fixed(-h), this.fixed(w), this.fixed(h + d)].join(' '),
+      style: {left: 0, top: 0}
+    }, [bonds], SVGNS));
+    //
+    //  Place the atoms by the tops of their boxes
+    //
+    for (const i of this.childNodes.keys()) {
+      const child = this.childNodes[i];
+      const bbox = child.getBBox();
+      const [x, y] = places[i];
+      const atom = this.adaptor.append(chtml, this.html('mjx-chem-atom', {style: {
+        left: this.em(x + dx),
+        top: this.em(h - y - bbox.h * bbox.rscale)
+      }})) as N;
+      child.toCHTML(atom);
+    }
+  }
+
+  /**
+   * @param {ChemPath} path   The path to be drawn
+   * @return {N}              The SVG path element for it
+   */
+  protected path(path: ChemPath): N {
+    return this.jax.html('path', {
+      d: path.path.map(x => (typeof x === 'string' ? x : this.fixed(x))).join(' '),
+      'stroke-width': this.fixed(ChemSizes.thickness),
+      'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+      fill: (path.fill ? 'currentColor' : 'none')
+    }, [], SVGNS);
+  }
+
+  /**
+   * @param {number} x   The dimension to display (in ems)
+   * @return {string}    The dimension in thousandths of an em
+   */
+  protected fixed(x: number): string {
+    return this.jax.fixed(x * 1000, 1);
+  }
+
+}
@@ -21,10 +21,11 @@
  * @author dpvc@mathjax.org (Davide Cervone)
  */
 
-import {CHTMLWrapper, CHTMLConstructor, Constructor} from '../Wrapper.js';
-import {CommonMrowMixin} from '../../common/Wrappers/mrow.js';
+import {CHTMLWrapper, CHTMLConstructor, Constructor, StringMap} from '../Wrapper.js';
+import {CommonMrowMixin, LineData} from '../../common/Wrappers/mrow.js';
 import {CommonInferredMrowMixin} from '../../common/Wrappers/mrow.js';
 import {MmlMrow, MmlInferredMrow} from '../../../core/MmlTree/MmlNodes/mrow.js';
+import {StyleList} from '../../../util/StyleList.js';
 
 /*****************************************************************/
 /**
@@ -43,11 +44,27 @@ CommonMrowMixin<CHTMLConstructor<any, any, any>>(CHTMLWrapper) {
    */
   public static kind = MmlMrow.prototype.kind;
 
+  /**
+   * @override
+   */
+  public static styles: StyleList = {
+    'mjx-linestack': {
+      display: 'inline-block'
+    },
+    'mjx-linebox': {
+      display: 'block'
+    }
+  };
+
   /**
    * @override
    */
   public toCHTML(parent: N) {
     const chtml = (this.node.isInferred ? (this.chtml = parent) : this.standardCHTMLnode(parent));
+    if (this.isLinebroken) {
+      this.addLines(chtml);
+      return;
+    }
     let hasNegative = false;
     for (const child of this.childNodes) {
       child.toCHTML(chtml);
@@ -55,7 +72,6 @@ CommonMrowMixin<CHTMLConstructor<any, any, any>>(CHTMLWrapper) {
         hasNegative = true;
       }
     }
-    // FIXME:  handle line breaks
     if (hasNegative) {
       const {w} = this.getBBox();
       if (w) {
@@ -67,6 +83,39 @@ CommonMrowMixin<CHTMLConstructor<any, any, any>>(CHTMLWrapper) {
     }
   }
 
+  /**
+   * Create a stack of line boxes for the lines of a broken row,
+   *   with the baseline of the stack at the baseline of the first line.
+   *
+   * @param {N} chtml  The HTML node where the lines are to be added
+   */
+  protected addLines(chtml: N) {
+    const adaptor = this.adaptor;
+    const last = this.lines[this.lines.length - 1];
+    const stack = adaptor.append(chtml, this.html('mjx-linestack', {style: {
+      width: this.em(this.getBBox().w),
+      'vertical-align': this.em(-last.y)
+    }})) as N;
+    let prev: LineData = null;
+    for (const line of this.lines) {
+      const style: StringMap = {};
+      if (line.x) {
+        style['margin-left'] = this.em(line.x);
+      }
+      if (prev) {
+        const space = line.y - prev.y - prev.bbox.d - line.bbox.h;
+        if (space) {
+          style['margin-top'] = this.em(space);
+        }
+      }
+      const box = adaptor.append(stack, this.html('mjx-linebox', {style})) as N;
+      for (const child of this.childNodes.slice(line.start, line.end)) {
+        child.toCHTML(box);
+      }
+      prev = line;
+    }
+  }
+
 }
 
 /*****************************************************************/
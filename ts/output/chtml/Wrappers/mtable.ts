@@ -105,6 +105,9 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
     },
     'mjx-mtable[side="right"] mjx-labels': {
       'min-width': '100%'
+    },
+    'mjx-mtd > mjx-cspan': {
+      display: 'inline-block'
     }
   };
 
@@ -188,10 +191,18 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
   /******************************************************************/
 
   /**
-   * Pad any short rows with extra cells
+   * Add cells for the columns covered by spanning cells, and pad any short rows with extra cells
    */
   protected padRows() {
     const adaptor = this.adaptor;
+    for (const row of this.tableRows) {
+      for (let i = 0; i < row.numCells; i++) {
+        const n = row.getCellSpan(i);
+        if (n > 1) {
+          this.spanCell(row.getChild(i), row.getCellColumn(i), n);
+        }
+      }
+    }
     for (const row of adaptor.childNodes(this.itable) as N[]) {
       while (adaptor.childNodes(row).length < this.numCols) {
         adaptor.append(row, this.html('mjx-mtd'));
@@ -199,6 +210,38 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
     }
   }
 
+  /**
+   * Make a cell extend over the following columns:  its contents are placed in a box
+   *   that overflows into empty cells that are added for the other columns.
+   *
+   * @param {CHTMLmtd} cell   The spanning cell
+   * @param {number} k        The column where the cell starts
+   * @param {number} n        The number of columns spanned
+   */
+  protected spanCell(cell: CHTMLmtd<N, T, D>, k: number, n: number) {
+    const adaptor = this.adaptor;
+    const W = this.getComputedWidths();
+    const w = this.getSpanWidth(k, n, W);
+    //
+    //  Move the contents (but not the strut) into a box of the full width
+    //
+    const span = this.html('mjx-cspan', {style: {width: this.em(w), marginRight: this.em(W[k] - w)}});
+    for (const child of adaptor.childNodes(cell.chtml).slice(0, -1) as N[]) {
+      adaptor.append(span, child);
+    }
+    adaptor.insert(span, adaptor.firstChild(cell.chtml));
+    //
+    //  Add cells for the covered columns (with the same background as the spanning cell)
+    //
+    const color = adaptor.getStyle(cell.chtml, 'backgroundColor');
+    let next = adaptor.next(cell.chtml);
+    for (let i = k + 1; i < k + n; i++) {
+      const mtd = this.html('mjx-mtd', {style: {width: this.em(W[i])}});
+      color && adaptor.setStyle(mtd, 'backgroundColor', color);
+      next ? adaptor.insert(mtd, next) : adaptor.append(cell.parent.chtml, mtd);
+    }
+  }
+
   /**
    * Set the inter-column spacing for all columns
    *  (Use frame spacing on the outsides, if needed, and use half the column spacing on each
@@ -214,9 +257,9 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
     for (const row of this.tableRows) {
       let i = 0;
       //
-      //  For each cell in the row...
+      //  For each cell in the row (including the ones added for spanning cells and padding)...
       //
-      for (const cell of row.tableCells) {
+      for (const styleNode of this.adaptor.childNodes(row.chtml) as N[]) {
         //
         //  Get the left and right-hand spacing
         //
@@ -226,7 +269,6 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
         //  Set the style for the spacing, if it is needed, and isn't the
         //  default already set in the mtd styles
         //
-        const styleNode = (cell ? cell.chtml : this.adaptor.childNodes(row.chtml)[i] as N);
         if ((i > 1 && lspace !== '0.4em') || (frame && i === 1)) {
           this.adaptor.setStyle(styleNode, 'paddingLeft', lspace);
         }
@@ -239,18 +281,24 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
 
   /**
    * Add borders to the left of cells to make the column lines
+   *   (and to the right of the last cells for borders along the right edge)
    */
   protected handleColumnLines() {
-    if (this.node.attributes.get('columnlines') === 'none') return;
-    const lines = this.getColumnAttributes('columnlines');
-    for (const row of this.childNodes) {
-      let i = 0;
-      for (const cell of this.adaptor.childNodes(row.chtml).slice(1) as N[]) {
-        const line = lines[i++];
-        if (line === 'none') continue;
-        this.adaptor.setStyle(cell, 'borderLeft', '.07em ' + line);
+    const adaptor = this.adaptor;
+    const lines = [this.cEdges[0], ...this.cLines];
+    this.tableRows.forEach((row, j) => {
+      const cells = adaptor.childNodes(row.chtml) as N[];
+      cells.forEach((cell, i) => {
+        const line = this.vLines[j][i];
+        if (lines[i] && line !== 'none') {
+          adaptor.setStyle(cell, 'borderLeft', '.07em ' + line);
+        }
+      });
+      const line = this.vLines[j][this.numCols];
+      if (this.cEdges[1] && line !== 'none') {
+        adaptor.setStyle(cells[this.numCols - 1], 'borderRight', '.07em ' + line);
       }
-    }
+    });
   }
 
   /**
@@ -291,18 +339,18 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
       const tspace = spacing[i++];
       const bspace = spacing[i];
       //
-      //  For each cell in the row...
+      //  For each cell in the row (including the ones added for spanning cells and padding)...
       //
-      for (const cell of row.childNodes) {
+      for (const cell of this.adaptor.childNodes(row.chtml) as N[]) {
         //
         //  Set the style for the spacing, if it is needed, and isn't the
         //  default already set in the mtd styles
         //
         if ((i > 1 && tspace !== '0.215em') || (frame && i === 1)) {
-          this.adaptor.setStyle(cell.chtml, 'paddingTop', tspace);
+          this.adaptor.setStyle(cell, 'paddingTop', tspace);
         }
         if ((i < this.numRows && bspace !== '0.215em') || (frame && i === this.numRows)) {
-          this.adaptor.setStyle(cell.chtml, 'paddingBottom', bspace);
+          this.adaptor.setStyle(cell, 'paddingBottom', bspace);
         }
       }
     }
@@ -310,18 +358,24 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
 
   /**
    * Add borders to the tops of cells to make the row lines
+   *   (and to the bottoms of the last row's cells for borders along the bottom edge)
    */
   protected handleRowLines() {
-    if (this.node.attributes.get('rowlines') === 'none') return;
-    const lines = this.getRowAttributes('rowlines');
-    let i = 0;
-    for (const row of this.childNodes.slice(1)) {
-      const line = lines[i++];
-      if (line === 'none') continue;
-      for (const cell of this.adaptor.childNodes(row.chtml) as N[]) {
-        this.adaptor.setStyle(cell, 'borderTop', '.07em ' + line);
-      }
-    }
+    const adaptor = this.adaptor;
+    const lines = [this.rEdges[0], ...this.rLines];
+    this.tableRows.forEach((row, j) => {
+      const cells = adaptor.childNodes(row.chtml) as N[];
+      cells.forEach((cell, i) => {
+        const line = this.hLines[j][i];
+        if (lines[j] && line !== 'none') {
+          adaptor.setStyle(cell, 'borderTop', '.07em ' + line);
+        }
+        const bottom = this.hLines[j + 1][i];
+        if (j === this.numRows - 1 && this.rEdges[1] && bottom !== 'none') {
+          adaptor.setStyle(cell, 'borderBottom', '.07em ' + bottom);
+        }
+      });
+    });
   }
 
   /**
@@ -538,7 +592,7 @@ CommonMtableMixin<CHTMLmtd<any, any, any>, CHTMLmtr<any, any, any>, CHTMLConstru
     //  Start with frame size and add in spacing, height and depth,
     //    and line thickness for each non-labeled row.
     //
-    let h = this.fLine;
+    let h = this.fLine + this.rEdges[0];
     let current = adaptor.firstChild(this.labels) as N;
     for (let i = 0; i < this.numRows; i++) {
       const row = this.childNodes[i];
@@ -0,0 +1,105 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CHTMLFontPackage} from '../FontPackage.js';
+import {stix2Data} from '../../common/fonts/stix2.js';
+import {normal} from './stix2/normal.js';
+import {smallop} from './stix2/smallop.js';
+import {largeop} from './stix2/largeop.js';
+import {size1} from './stix2/size1.js';
+import {size2} from './stix2/size2.js';
+import {size3} from './stix2/size3.js';
+import {size4} from './stix2/size4.js';
+import {size5} from './stix2/size5.js';
+import {size6} from './stix2/size6.js';
+import {size7} from './stix2/size7.js';
+import {size8} from './stix2/size8.js';
+import {size9} from './stix2/size9.js';
+import {size10} from './stix2/size10.js';
+import {size11} from './stix2/size11.js';
+import {size12} from './stix2/size12.js';
+import {parts} from './stix2/parts.js';
+
+/**
+ * The STIX2 font for the CHTML output jax
+ */
+export const Stix2Font = CHTMLFontPackage({
+  ...stix2Data,
+  chars: {
+    'normal': normal,
+    '-smallop': smallop,
+    '-largeop': largeop,
+    '-size1': size1,
+    '-size2': size2,
+    '-size3': size3,
+    '-size4': size4,
+    '-size5': size5,
+    '-size6': size6,
+    '-size7': size7,
+    '-size8': size8,
+    '-size9': size9,
+    '-size10': size10,
+    '-size11': size11,
+    '-size12': size12,
+    '-parts': parts
+  },
+  fontURL: 'js/output/chtml/fonts/stix2-woff',
+  fonts: {
+    '': 'STIX2.woff'
+  },
+  variantClasses: {
+    'bold': 'mjx-b',
+    'italic': 'mjx-i',
+    'bold-italic': 'mjx-b mjx-i',
+    'double-struck': 'mjx-ds mjx-b',
+    'fraktur': 'mjx-fr',
+    'bold-fraktur': 'mjx-fr mjx-b',
+    'script': 'mjx-sc mjx-i',
+    'bold-script': 'mjx-sc mjx-b mjx-i',
+    'sans-serif': 'mjx-ss',
+    'bold-sans-serif': 'mjx-ss mjx-b',
+    'sans-serif-italic': 'mjx-ss mjx-i',
+    'sans-serif-bold-italic': 'mjx-ss mjx-b mjx-i',
+    'monospace': 'mjx-ty',
+    'normal': 'mjx-n',
+    '-smallop': 'mjx-so',
+    '-largeop': 'mjx-lo',
+    '-size1': 'mjx-s1',
+    '-size2': 'mjx-s2',
+    '-size3': 'mjx-s3',
+    '-size4': 'mjx-s4',
+    '-size5': 'mjx-s5',
+    '-size6': 'mjx-s6',
+    '-size7': 'mjx-s7',
+    '-size8': 'mjx-s8',
+    '-size9': 'mjx-s9',
+    '-size10': 'mjx-s10',
+    '-size11': 'mjx-s11',
+    '-size12': 'mjx-s12',
+    '-parts': 'mjx-p'
+  },
+  variantLetters: {
+    'normal': '',
+    '-smallop': 'SO',
+    '-largeop': 'LO',
+    '-size1': 'S1',
+    '-size2': 'S2',
+    '-size3': 'S3',
+    '-size4': 'S4',
+    '-size5': 'S5',
+    '-size6': 'S6',
+    '-size7': 'S7',
+    '-size8': 'S8',
+    '-size9': 'S9',
+    '-size10': 'S10',
+    '-size11': 'S11',
+    '-size12': 'S12',
+    '-parts': 'P'
+  }
+});
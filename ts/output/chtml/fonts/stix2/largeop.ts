@@ -0,0 +1,60 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {largeop as font} from '../../../common/fonts/stix2/largeop.js';
+
+export const largeop: CHTMLCharMap = AddCSS(font, {
+    0x220F: {c: '\\100030'},
+    0x2210: {c: '\\100031'},
+    0x2211: {c: '\\100032'},
+    0x222B: {c: '\\100033'},
+    0x222C: {c: '\\100034'},
+    0x222D: {c: '\\100035'},
+    0x222E: {c: '\\100036'},
+    0x222F: {c: '\\100037'},
+    0x2230: {c: '\\100038'},
+    0x2231: {c: '\\100039'},
+    0x2232: {c: '\\10003A'},
+    0x2233: {c: '\\10003B'},
+    0x22C0: {c: '\\10003C'},
+    0x22C1: {c: '\\10003D'},
+    0x22C2: {c: '\\10003E'},
+    0x22C3: {c: '\\10003F'},
+    0x2A00: {c: '\\100040'},
+    0x2A01: {c: '\\100041'},
+    0x2A02: {c: '\\100042'},
+    0x2A03: {c: '\\100043'},
+    0x2A04: {c: '\\100044'},
+    0x2A05: {c: '\\100045'},
+    0x2A06: {c: '\\100046'},
+    0x2A07: {c: '\\100047'},
+    0x2A08: {c: '\\100048'},
+    0x2A09: {c: '\\100049'},
+    0x2A0A: {c: '\\10004A'},
+    0x2A0B: {c: '\\10004B'},
+    0x2A0C: {c: '\\10004C'},
+    0x2A0D: {c: '\\10004D'},
+    0x2A0E: {c: '\\10004E'},
+    0x2A0F: {c: '\\10004F'},
+    0x2A10: {c: '\\100050'},
+    0x2A11: {c: '\\100051'},
+    0x2A12: {c: '\\100052'},
+    0x2A13: {c: '\\100053'},
+    0x2A14: {c: '\\100054'},
+    0x2A15: {c: '\\100055'},
+    0x2A16: {c: '\\100056'},
+    0x2A17: {c: '\\100057'},
+    0x2A18: {c: '\\100058'},
+    0x2A19: {c: '\\100059'},
+    0x2A1A: {c: '\\10005A'},
+    0x2A1B: {c: '\\10005B'},
+    0x2A1C: {c: '\\10005C'},
+    0x2AFC: {c: '\\10005D'},
+    0x2AFF: {c: '\\10005E'},
+});
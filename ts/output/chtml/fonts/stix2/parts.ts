@@ -0,0 +1,13 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {parts as font} from '../../../common/fonts/stix2/parts.js';
+
+export const parts: CHTMLCharMap = AddCSS(font, {
+});
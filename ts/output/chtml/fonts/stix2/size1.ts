@@ -0,0 +1,110 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size1 as font} from '../../../common/fonts/stix2/size1.js';
+
+export const size1: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\10005F'},
+    0x29: {c: '\\100060'},
+    0x2F: {c: '\\100061'},
+    0x5B: {c: '\\100062'},
+    0x5C: {c: '\\100063'},
+    0x5D: {c: '\\100064'},
+    0x7B: {c: '\\100065'},
+    0x7D: {c: '\\100066'},
+    0x302: {c: '\\100067'},
+    0x303: {c: '\\100068'},
+    0x305: {c: '\\100000'},
+    0x30C: {c: '\\100069'},
+    0x330: {c: '\\10006A'},
+    0x332: {c: '\\10006B'},
+    0x20D0: {c: '\\10006C'},
+    0x20D1: {c: '\\10006D'},
+    0x20D6: {c: '\\100001'},
+    0x20D7: {c: '\\100003'},
+    0x20EC: {c: '\\10006E'},
+    0x20ED: {c: '\\10006F'},
+    0x20EE: {c: '\\100004'},
+    0x20EF: {c: '\\100006'},
+    0x2140: {c: '\\100070'},
+    0x220F: {c: '\\100030'},
+    0x2210: {c: '\\100031'},
+    0x2211: {c: '\\100032'},
+    0x221A: {c: '\\100071'},
+    0x221B: {c: '\\100072'},
+    0x221C: {c: '\\100073'},
+    0x222B: {c: '\\100033'},
+    0x222C: {c: '\\100034'},
+    0x222D: {c: '\\100035'},
+    0x222E: {c: '\\100036'},
+    0x222F: {c: '\\100037'},
+    0x2230: {c: '\\100038'},
+    0x2231: {c: '\\100039'},
+    0x2232: {c: '\\10003A'},
+    0x2233: {c: '\\10003B'},
+    0x22C0: {c: '\\10003C'},
+    0x22C1: {c: '\\10003D'},
+    0x22C2: {c: '\\10003E'},
+    0x22C3: {c: '\\10003F'},
+    0x2308: {c: '\\100074'},
+    0x2309: {c: '\\100075'},
+    0x230A: {c: '\\100076'},
+    0x230B: {c: '\\100077'},
+    0x23B4: {c: '\\100078'},
+    0x23B5: {c: '\\100079'},
+    0x23DC: {c: '\\10007A'},
+    0x23DD: {c: '\\10007B'},
+    0x23DE: {c: '\\10007C'},
+    0x23DF: {c: '\\10007D'},
+    0x23E0: {c: '\\10007E'},
+    0x23E1: {c: '\\10007F'},
+    0x2772: {c: '\\100080'},
+    0x2773: {c: '\\100081'},
+    0x27E6: {c: '\\100082'},
+    0x27E7: {c: '\\100083'},
+    0x27E8: {c: '\\100084'},
+    0x27E9: {c: '\\100085'},
+    0x27EA: {c: '\\100086'},
+    0x27EB: {c: '\\100087'},
+    0x2983: {c: '\\100088'},
+    0x2984: {c: '\\100089'},
+    0x2985: {c: '\\10008A'},
+    0x2986: {c: '\\10008B'},
+    0x2A00: {c: '\\100040'},
+    0x2A01: {c: '\\100041'},
+    0x2A02: {c: '\\100042'},
+    0x2A03: {c: '\\100043'},
+    0x2A04: {c: '\\100044'},
+    0x2A05: {c: '\\100045'},
+    0x2A06: {c: '\\100046'},
+    0x2A07: {c: '\\100047'},
+    0x2A08: {c: '\\100048'},
+    0x2A09: {c: '\\100049'},
+    0x2A0A: {c: '\\10004A'},
+    0x2A0B: {c: '\\10004B'},
+    0x2A0C: {c: '\\10004C'},
+    0x2A0D: {c: '\\10004D'},
+    0x2A0E: {c: '\\10004E'},
+    0x2A0F: {c: '\\10004F'},
+    0x2A10: {c: '\\100050'},
+    0x2A11: {c: '\\100051'},
+    0x2A12: {c: '\\100052'},
+    0x2A13: {c: '\\100053'},
+    0x2A14: {c: '\\100054'},
+    0x2A15: {c: '\\100055'},
+    0x2A16: {c: '\\100056'},
+    0x2A17: {c: '\\100057'},
+    0x2A18: {c: '\\100058'},
+    0x2A19: {c: '\\100059'},
+    0x2A1A: {c: '\\10005A'},
+    0x2A1B: {c: '\\10005B'},
+    0x2A1C: {c: '\\10005C'},
+    0x2AFC: {c: '\\10008C'},
+    0x2AFF: {c: '\\10008D'},
+});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size10 as font} from '../../../common/fonts/stix2/size10.js';
+
+export const size10: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\1001A2'},
+    0x29: {c: '\\1001A3'},
+    0x5B: {c: '\\1001A4'},
+    0x5D: {c: '\\1001A5'},
+    0x7B: {c: '\\1001A6'},
+    0x7D: {c: '\\1001A7'},
+    0x2308: {c: '\\1001A8'},
+    0x2309: {c: '\\1001A9'},
+    0x230A: {c: '\\1001AA'},
+    0x230B: {c: '\\1001AB'},
+    0x2772: {c: '\\1001AC'},
+    0x2773: {c: '\\1001AD'},
+    0x27E6: {c: '\\1001AE'},
+    0x27E7: {c: '\\1001AF'},
+    0x27E8: {c: '\\1001B0'},
+    0x27E9: {c: '\\1001B1'},
+    0x27EA: {c: '\\1001B2'},
+    0x27EB: {c: '\\1001B3'},
+    0x2983: {c: '\\1001B4'},
+    0x2984: {c: '\\1001B5'},
+    0x2985: {c: '\\1001B6'},
+    0x2986: {c: '\\1001B7'},
+});
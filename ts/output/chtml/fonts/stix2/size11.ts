@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size11 as font} from '../../../common/fonts/stix2/size11.js';
+
+export const size11: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\1001B8'},
+    0x29: {c: '\\1001B9'},
+    0x5B: {c: '\\1001BA'},
+    0x5D: {c: '\\1001BB'},
+    0x7B: {c: '\\1001BC'},
+    0x7D: {c: '\\1001BD'},
+    0x2308: {c: '\\1001BE'},
+    0x2309: {c: '\\1001BF'},
+    0x230A: {c: '\\1001C0'},
+    0x230B: {c: '\\1001C1'},
+    0x2772: {c: '\\1001C2'},
+    0x2773: {c: '\\1001C3'},
+    0x27E6: {c: '\\1001C4'},
+    0x27E7: {c: '\\1001C5'},
+    0x27E8: {c: '\\1001C6'},
+    0x27E9: {c: '\\1001C7'},
+    0x27EA: {c: '\\1001C8'},
+    0x27EB: {c: '\\1001C9'},
+    0x2983: {c: '\\1001CA'},
+    0x2984: {c: '\\1001CB'},
+    0x2985: {c: '\\1001CC'},
+    0x2986: {c: '\\1001CD'},
+});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size12 as font} from '../../../common/fonts/stix2/size12.js';
+
+export const size12: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\1001CE'},
+    0x29: {c: '\\1001CF'},
+    0x5B: {c: '\\1001D0'},
+    0x5D: {c: '\\1001D1'},
+    0x7B: {c: '\\1001D2'},
+    0x7D: {c: '\\1001D3'},
+    0x2308: {c: '\\1001D4'},
+    0x2309: {c: '\\1001D5'},
+    0x230A: {c: '\\1001D6'},
+    0x230B: {c: '\\1001D7'},
+    0x2772: {c: '\\1001D8'},
+    0x2773: {c: '\\1001D9'},
+    0x27E6: {c: '\\1001DA'},
+    0x27E7: {c: '\\1001DB'},
+    0x27E8: {c: '\\1001DC'},
+    0x27E9: {c: '\\1001DD'},
+    0x27EA: {c: '\\1001DE'},
+    0x27EB: {c: '\\1001DF'},
+    0x2983: {c: '\\1001E0'},
+    0x2984: {c: '\\1001E1'},
+    0x2985: {c: '\\1001E2'},
+    0x2986: {c: '\\1001E3'},
+});
@@ -0,0 +1,64 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size2 as font} from '../../../common/fonts/stix2/size2.js';
+
+export const size2: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\10008E'},
+    0x29: {c: '\\10008F'},
+    0x2F: {c: '\\100090'},
+    0x5B: {c: '\\100091'},
+    0x5C: {c: '\\100092'},
+    0x5D: {c: '\\100093'},
+    0x7B: {c: '\\100094'},
+    0x7D: {c: '\\100095'},
+    0x302: {c: '\\100096'},
+    0x303: {c: '\\100097'},
+    0x305: {c: '\\100098'},
+    0x30C: {c: '\\100099'},
+    0x330: {c: '\\10009A'},
+    0x332: {c: '\\10009B'},
+    0x20D0: {c: '\\10009C'},
+    0x20D1: {c: '\\10009D'},
+    0x20D6: {c: '\\10009E'},
+    0x20D7: {c: '\\10009F'},
+    0x20EC: {c: '\\1000A0'},
+    0x20ED: {c: '\\1000A1'},
+    0x20EE: {c: '\\1000A2'},
+    0x20EF: {c: '\\1000A3'},
+    0x221A: {c: '\\1000A4'},
+    0x221B: {c: '\\1000A5'},
+    0x221C: {c: '\\1000A6'},
+    0x2308: {c: '\\1000A7'},
+    0x2309: {c: '\\1000A8'},
+    0x230A: {c: '\\1000A9'},
+    0x230B: {c: '\\1000AA'},
+    0x23B4: {c: '\\1000AB'},
+    0x23B5: {c: '\\1000AC'},
+    0x23DC: {c: '\\1000AD'},
+    0x23DD: {c: '\\1000AE'},
+    0x23DE: {c: '\\1000AF'},
+    0x23DF: {c: '\\1000B0'},
+    0x23E0: {c: '\\1000B1'},
+    0x23E1: {c: '\\1000B2'},
+    0x2772: {c: '\\1000B3'},
+    0x2773: {c: '\\1000B4'},
+    0x27E6: {c: '\\1000B5'},
+    0x27E7: {c: '\\1000B6'},
+    0x27E8: {c: '\\1000B7'},
+    0x27E9: {c: '\\1000B8'},
+    0x27EA: {c: '\\1000B9'},
+    0x27EB: {c: '\\1000BA'},
+    0x2983: {c: '\\1000BB'},
+    0x2984: {c: '\\1000BC'},
+    0x2985: {c: '\\1000BD'},
+    0x2986: {c: '\\1000BE'},
+    0x2AFC: {c: '\\10005D'},
+    0x2AFF: {c: '\\10005E'},
+});
@@ -0,0 +1,62 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size3 as font} from '../../../common/fonts/stix2/size3.js';
+
+export const size3: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\1000BF'},
+    0x29: {c: '\\1000C0'},
+    0x2F: {c: '\\1000C1'},
+    0x5B: {c: '\\1000C2'},
+    0x5C: {c: '\\1000C3'},
+    0x5D: {c: '\\1000C4'},
+    0x7B: {c: '\\1000C5'},
+    0x7D: {c: '\\1000C6'},
+    0x302: {c: '\\1000C7'},
+    0x303: {c: '\\1000C8'},
+    0x305: {c: '\\1000C9'},
+    0x30C: {c: '\\1000CA'},
+    0x330: {c: '\\1000CB'},
+    0x332: {c: '\\1000CC'},
+    0x20D0: {c: '\\1000CD'},
+    0x20D1: {c: '\\1000CE'},
+    0x20D6: {c: '\\1000CF'},
+    0x20D7: {c: '\\1000D0'},
+    0x20EC: {c: '\\1000D1'},
+    0x20ED: {c: '\\1000D2'},
+    0x20EE: {c: '\\1000D3'},
+    0x20EF: {c: '\\1000D4'},
+    0x221A: {c: '\\1000D5'},
+    0x221B: {c: '\\1000D6'},
+    0x221C: {c: '\\1000D7'},
+    0x2308: {c: '\\1000D8'},
+    0x2309: {c: '\\1000D9'},
+    0x230A: {c: '\\1000DA'},
+    0x230B: {c: '\\1000DB'},
+    0x23B4: {c: '\\1000DC'},
+    0x23B5: {c: '\\1000DD'},
+    0x23DC: {c: '\\1000DE'},
+    0x23DD: {c: '\\1000DF'},
+    0x23DE: {c: '\\1000E0'},
+    0x23DF: {c: '\\1000E1'},
+    0x23E0: {c: '\\1000E2'},
+    0x23E1: {c: '\\1000E3'},
+    0x2772: {c: '\\1000E4'},
+    0x2773: {c: '\\1000E5'},
+    0x27E6: {c: '\\1000E6'},
+    0x27E7: {c: '\\1000E7'},
+    0x27E8: {c: '\\1000E8'},
+    0x27E9: {c: '\\1000E9'},
+    0x27EA: {c: '\\1000EA'},
+    0x27EB: {c: '\\1000EB'},
+    0x2983: {c: '\\1000EC'},
+    0x2984: {c: '\\1000ED'},
+    0x2985: {c: '\\1000EE'},
+    0x2986: {c: '\\1000EF'},
+});
@@ -0,0 +1,59 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size4 as font} from '../../../common/fonts/stix2/size4.js';
+
+export const size4: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\1000F0'},
+    0x29: {c: '\\1000F1'},
+    0x2F: {c: '\\1000F2'},
+    0x5B: {c: '\\1000F3'},
+    0x5C: {c: '\\1000F4'},
+    0x5D: {c: '\\1000F5'},
+    0x7B: {c: '\\1000F6'},
+    0x7D: {c: '\\1000F7'},
+    0x302: {c: '\\1000F8'},
+    0x303: {c: '\\1000F9'},
+    0x305: {c: '\\1000FA'},
+    0x30C: {c: '\\1000FB'},
+    0x330: {c: '\\1000FC'},
+    0x332: {c: '\\1000FD'},
+    0x20D0: {c: '\\1000FE'},
+    0x20D1: {c: '\\1000FF'},
+    0x20D6: {c: '\\100100'},
+    0x20D7: {c: '\\100101'},
+    0x20EC: {c: '\\100102'},
+    0x20ED: {c: '\\100103'},
+    0x20EE: {c: '\\100104'},
+    0x20EF: {c: '\\100105'},
+    0x2308: {c: '\\100106'},
+    0x2309: {c: '\\100107'},
+    0x230A: {c: '\\100108'},
+    0x230B: {c: '\\100109'},
+    0x23B4: {c: '\\10010A'},
+    0x23B5: {c: '\\10010B'},
+    0x23DC: {c: '\\10010C'},
+    0x23DD: {c: '\\10010D'},
+    0x23DE: {c: '\\10010E'},
+    0x23DF: {c: '\\10010F'},
+    0x23E0: {c: '\\100110'},
+    0x23E1: {c: '\\100111'},
+    0x2772: {c: '\\100112'},
+    0x2773: {c: '\\100113'},
+    0x27E6: {c: '\\100114'},
+    0x27E7: {c: '\\100115'},
+    0x27E8: {c: '\\100116'},
+    0x27E9: {c: '\\100117'},
+    0x27EA: {c: '\\100118'},
+    0x27EB: {c: '\\100119'},
+    0x2983: {c: '\\10011A'},
+    0x2984: {c: '\\10011B'},
+    0x2985: {c: '\\10011C'},
+    0x2986: {c: '\\10011D'},
+});
@@ -0,0 +1,57 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size5 as font} from '../../../common/fonts/stix2/size5.js';
+
+export const size5: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\10011E'},
+    0x29: {c: '\\10011F'},
+    0x5B: {c: '\\100120'},
+    0x5D: {c: '\\100121'},
+    0x7B: {c: '\\100122'},
+    0x7D: {c: '\\100123'},
+    0x302: {c: '\\100124'},
+    0x303: {c: '\\100125'},
+    0x305: {c: '\\100126'},
+    0x30C: {c: '\\100127'},
+    0x330: {c: '\\100128'},
+    0x332: {c: '\\100129'},
+    0x20D0: {c: '\\10012A'},
+    0x20D1: {c: '\\10012B'},
+    0x20D6: {c: '\\10012C'},
+    0x20D7: {c: '\\10012D'},
+    0x20EC: {c: '\\10012E'},
+    0x20ED: {c: '\\10012F'},
+    0x20EE: {c: '\\100130'},
+    0x20EF: {c: '\\100131'},
+    0x2308: {c: '\\100132'},
+    0x2309: {c: '\\100133'},
+    0x230A: {c: '\\100134'},
+    0x230B: {c: '\\100135'},
+    0x23B4: {c: '\\100136'},
+    0x23B5: {c: '\\100137'},
+    0x23DC: {c: '\\100138'},
+    0x23DD: {c: '\\100139'},
+    0x23DE: {c: '\\10013A'},
+    0x23DF: {c: '\\10013B'},
+    0x23E0: {c: '\\10013C'},
+    0x23E1: {c: '\\10013D'},
+    0x2772: {c: '\\10013E'},
+    0x2773: {c: '\\10013F'},
+    0x27E6: {c: '\\100140'},
+    0x27E7: {c: '\\100141'},
+    0x27E8: {c: '\\100142'},
+    0x27E9: {c: '\\100143'},
+    0x27EA: {c: '\\100144'},
+    0x27EB: {c: '\\100145'},
+    0x2983: {c: '\\100146'},
+    0x2984: {c: '\\100147'},
+    0x2985: {c: '\\100148'},
+    0x2986: {c: '\\100149'},
+});
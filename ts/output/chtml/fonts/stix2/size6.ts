@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size6 as font} from '../../../common/fonts/stix2/size6.js';
+
+export const size6: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\10014A'},
+    0x29: {c: '\\10014B'},
+    0x5B: {c: '\\10014C'},
+    0x5D: {c: '\\10014D'},
+    0x7B: {c: '\\10014E'},
+    0x7D: {c: '\\10014F'},
+    0x2308: {c: '\\100150'},
+    0x2309: {c: '\\100151'},
+    0x230A: {c: '\\100152'},
+    0x230B: {c: '\\100153'},
+    0x2772: {c: '\\100154'},
+    0x2773: {c: '\\100155'},
+    0x27E6: {c: '\\100156'},
+    0x27E7: {c: '\\100157'},
+    0x27E8: {c: '\\100158'},
+    0x27E9: {c: '\\100159'},
+    0x27EA: {c: '\\10015A'},
+    0x27EB: {c: '\\10015B'},
+    0x2983: {c: '\\10015C'},
+    0x2984: {c: '\\10015D'},
+    0x2985: {c: '\\10015E'},
+    0x2986: {c: '\\10015F'},
+});
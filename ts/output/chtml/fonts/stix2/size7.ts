@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size7 as font} from '../../../common/fonts/stix2/size7.js';
+
+export const size7: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\100160'},
+    0x29: {c: '\\100161'},
+    0x5B: {c: '\\100162'},
+    0x5D: {c: '\\100163'},
+    0x7B: {c: '\\100164'},
+    0x7D: {c: '\\100165'},
+    0x2308: {c: '\\100166'},
+    0x2309: {c: '\\100167'},
+    0x230A: {c: '\\100168'},
+    0x230B: {c: '\\100169'},
+    0x2772: {c: '\\10016A'},
+    0x2773: {c: '\\10016B'},
+    0x27E6: {c: '\\10016C'},
+    0x27E7: {c: '\\10016D'},
+    0x27E8: {c: '\\10016E'},
+    0x27E9: {c: '\\10016F'},
+    0x27EA: {c: '\\100170'},
+    0x27EB: {c: '\\100171'},
+    0x2983: {c: '\\100172'},
+    0x2984: {c: '\\100173'},
+    0x2985: {c: '\\100174'},
+    0x2986: {c: '\\100175'},
+});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size8 as font} from '../../../common/fonts/stix2/size8.js';
+
+export const size8: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\100176'},
+    0x29: {c: '\\100177'},
+    0x5B: {c: '\\100178'},
+    0x5D: {c: '\\100179'},
+    0x7B: {c: '\\10017A'},
+    0x7D: {c: '\\10017B'},
+    0x2308: {c: '\\10017C'},
+    0x2309: {c: '\\10017D'},
+    0x230A: {c: '\\10017E'},
+    0x230B: {c: '\\10017F'},
+    0x2772: {c: '\\100180'},
+    0x2773: {c: '\\100181'},
+    0x27E6: {c: '\\100182'},
+    0x27E7: {c: '\\100183'},
+    0x27E8: {c: '\\100184'},
+    0x27E9: {c: '\\100185'},
+    0x27EA: {c: '\\100186'},
+    0x27EB: {c: '\\100187'},
+    0x2983: {c: '\\100188'},
+    0x2984: {c: '\\100189'},
+    0x2985: {c: '\\10018A'},
+    0x2986: {c: '\\10018B'},
+});
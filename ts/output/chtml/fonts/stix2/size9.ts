@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {CHTMLCharMap, AddCSS} from '../../FontData.js';
+import {size9 as font} from '../../../common/fonts/stix2/size9.js';
+
+export const size9: CHTMLCharMap = AddCSS(font, {
+    0x28: {c: '\\10018C'},
+    0x29: {c: '\\10018D'},
+    0x5B: {c: '\\10018E'},
+    0x5D: {c: '\\10018F'},
+    0x7B: {c: '\\100190'},
+    0x7D: {c: '\\100191'},
+    0x2308: {c: '\\100192'},
+    0x2309: {c: '\\100193'},
+    0x230A: {c: '\\100194'},
+    0x230B: {c: '\\100195'},
+    0x2772: {c: '\\100196'},
+    0x2773: {c: '\\100197'},
+    0x27E6: {c: '\\100198'},
+    0x27E7: {c: '\\100199'},
+    0x27E8: {c: '\\10019A'},
+    0x27E9: {c: '\\10019B'},
+    0x27EA: {c: '\\10019C'},
+    0x27EB: {c: '\\10019D'},
+    0x2983: {c: '\\10019E'},
+    0x2984: {c: '\\10019F'},
+    0x2985: {c: '\\1001A0'},
+    0x2986: {c: '\\1001A1'},
+});
@@ -230,6 +230,11 @@ export type FontParameters = {
  */
 export class FontData<C extends CharOptions, V extends VariantData<C>, D extends DelimiterData> {
 
+  /**
+   * The name of the font (used to select it in the output jax font option)
+   */
+  public static NAME: string = '';
+
   /**
    * Subclasses may need options
    */
@@ -464,6 +469,17 @@ export class FontData<C extends CharOptions, V extends VariantData<C>, D extends
    */
   protected static defaultSizeVariants: string[] = [];
 
+  /**
+   * The default variants in which to look for the parts of the multi-character
+   *   stretchy delimiters (the first one containing the part is used)
+   */
+  protected static defaultStretchVariants: string[] = [];
+
+  /**
+   * The name of this font
+   */
+  public name: string;
+
   /**
    * The actual variant information for this font
    */
@@ -476,6 +492,10 @@ export class FontData<C extends CharOptions, V extends VariantData<C>, D extends
    * The actual size information for this font
    */
   protected sizeVariants: string[];
+  /**
+   * The actual variants for the parts of stretchy delimiters
+   */
+  protected stretchVariants: string[];
   /**
    * The data to use to make variants to default fonts and css for unknown characters
    */
@@ -521,8 +541,10 @@ export class FontData<C extends CharOptions, V extends VariantData<C>, D extends
    */
   constructor() {
     let CLASS = (this.constructor as typeof FontData);
+    this.name = CLASS.NAME;
     this.params = {...CLASS.defaultParams};
     this.sizeVariants = [...CLASS.defaultSizeVariants];
+    this.stretchVariants = [...CLASS.defaultStretchVariants];
     this.cssFontMap = {...CLASS.defaultCssFonts};
     this.cssFamilyPrefix = CLASS.defaultCssFamilyPrefix;
     this.createVariants(CLASS.defaultVariants);
@@ -689,6 +711,21 @@ export class FontData<C extends CharOptions, V extends VariantData<C>, D extends
     return this.sizeVariants[i];
   }
 
+  /**
+   * @param {number} n  The character number of a part of a multi-character stretchy delimiter
+   * @return {string}   The variant in which that part is found (the last of the stretch
+   *                      variants if it isn't in any of them)
+   */
+  public getStretchVariant(n: number): string {
+    const variants = this.stretchVariants;
+    for (const name of variants) {
+      if (this.getChar(name, n)) {
+        return name;
+      }
+    }
+    return variants[variants.length - 1];
+  }
+
   /**
    * @param {string} name  The variant whose character data is being querried
    * @param {number} n     The unicode number for the character to be found
@@ -742,6 +779,7 @@ export class FontData<C extends CharOptions, V extends VariantData<C>, D extends
  * @template D  The DelimiterData type
  */
 export interface FontDataClass<C extends CharOptions, V extends VariantData<C>, D extends DelimiterData> {
+  NAME: string;
   OPTIONS: OptionList;
   defaultCssFonts: CssFontMap;
   defaultVariants: string[][];
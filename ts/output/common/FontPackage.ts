@@ -0,0 +1,118 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the common code for font packages (complete font sets
+ *                that can be used in place of the TeX fonts)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {FontDataClass, CharOptions, VariantData, DelimiterData, DelimiterMap, CharMapMap,
+        CssFontMap, FontParameters} from './FontData.js';
+
+/*****************************************************************/
+
+/**
+ * The data for a font package that is common to all output jax.
+ *
+ * The variants for the large operators must be named -smallop and -largeop,
+ *   and the standard MathML variants are always defined (the package's
+ *   variants are added to them).
+ *
+ * @template C  The CharOptions type
+ * @template D  The DelimiterData type
+ */
+export interface FontPackageData<C extends CharOptions, D extends DelimiterData> {
+  name: string;                          // the name used to select the font (e.g., STIX2)
+  id: string;                            // a short id used for CSS font families and cache ids (e.g., STX2)
+  variants: string[][];                  // [name, inherit?, link?] for the package's own variants
+  cssFonts?: CssFontMap;                 // the CSS fonts for unknown characters in those variants
+  sizeVariants: string[];                // the variants holding the fixed sizes of stretchy delimiters
+  stretchVariants: string[];             // the variants holding the parts of multi-character delimiters
+  params?: Partial<FontParameters>;      // the font parameters that differ from the defaults
+  delimiters: DelimiterMap<D>;           // the stretchy delimiter data
+  chars: CharMapMap<C>;                  // the character data for each variant
+}
+
+/*****************************************************************/
+/**
+ *  The CommonFontPackage mixin creates a FontData class whose defaults come from
+ *  a font package (the FontData constructor uses createVariants(), defineDelimiters(),
+ *  and defineChars() to install them).
+ *
+ * @template C  The CharOptions class for this font
+ * @template V  The VariantData class for this font
+ * @template D  The DelimiterData class for this font
+ * @template B  The FontData class to extend
+ *
+ * @param {B} Base                    The FontData class to extend
+ * @param {FontPackageData} data      The data for the font package
+ * @return {FontDataClass}            The FontData class for the package
+ */
+export function CommonFontPackageMixin<
+  C extends CharOptions,
+  V extends VariantData<C>,
+  D extends DelimiterData,
+  B extends FontDataClass<C, V, D>
+>(Base: B, data: FontPackageData<C, D>): FontDataClass<C, V, D> & B {
+
+  return class extends Base {
+
+    /**
+     * The name of the font
+     */
+    public static NAME = data.name;
+
+    /**
+     * Add the package's variants to the standard ones
+     */
+    public static defaultVariants = [...Base.defaultVariants, ...data.variants];
+
+    /**
+     * The data used for CSS for undefined characters for each variant
+     */
+    public static defaultCssFonts: CssFontMap = {...Base.defaultCssFonts, ...(data.cssFonts || {})};
+
+    /**
+     * The font parameters for the package
+     */
+    public static defaultParams: FontParameters = {...Base.defaultParams, ...(data.params || {})};
+
+    /**
+     * The variants for the fixed sizes of the stretchy delimiters
+     */
+    protected static defaultSizeVariants = data.sizeVariants;
+
+    /**
+     * The variants for the parts of the stretchy delimiters
+     */
+    protected static defaultStretchVariants = data.stretchVariants;
+
+    /**
+     * The stretchy delimiter data
+     */
+    protected static defaultDelimiters: DelimiterMap<D> = data.delimiters;
+
+    /**
+     * The character data by variant
+     */
+    protected static defaultChars: CharMapMap<C> = data.chars;
+
+  };
+
+}
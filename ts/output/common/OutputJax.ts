@@ -29,7 +29,7 @@ import {FontData, FontDataClass, CharOptions, DelimiterData, CssFontData} from '
 import {OptionList, separateOptions} from '../../util/Options.js';
 import {CommonWrapper, AnyWrapper, AnyWrapperClass} from './Wrapper.js';
 import {CommonWrapperFactory, AnyWrapperFactory} from './WrapperFactory.js';
-import {percent} from '../../util/lengths.js';
+import {percent, length2em} from '../../util/lengths.js';
 import {StyleList, Styles} from '../../util/Styles.js';
 import {StyleList as CssStyleList, CssStyles} from '../../util/StyleList.js';
 
@@ -96,8 +96,12 @@ export abstract class CommonOutputJax<
     exFactor: .5,                  // default size of ex in em units
     displayAlign: 'center',        // default for indentalign when set to 'auto'
     displayIndent: '0',            // default for indentshift when set to 'auto'
+    linebreaks: {                  // options for automatic line breaking of displayed equations
+      automatic: true,             //   true to break long displayed equations to fit the container
+      width: '100%'                //   the maximum line width (percent of the container, or an absolute size)
+    },
     wrapperFactory: null,          // The wrapper factory to use
-    font: null,                    // The FontData object to use
+    font: null,                    // The FontData object to use, or the name of a registered font
     cssStyles: null                // The CssStyles object to use
   };
 
@@ -106,6 +110,11 @@ export abstract class CommonOutputJax<
    */
   public static commonStyles: CssStyleList = {};
 
+  /**
+   * The fonts that can be selected by name (subclasses provide their own maps)
+   */
+  public static fonts: Map<string, FontDataClass<any, any, any>> = new Map();
+
   /**
    * Used for collecting styles needed for the output jax
    */
@@ -141,6 +150,11 @@ export abstract class CommonOutputJax<
    */
   public font: FD;
 
+  /**
+   * The options used to create fonts selected by name
+   */
+  protected fontOptions: OptionList;
+
   /**
    * The wrapper factory for the MathML nodes
    */
@@ -189,12 +203,60 @@ export abstract class CommonOutputJax<
     AnyWrapperClass, CharOptions, DelimiterData, FD>();
     this.factory.jax = this;
     this.cssStyles = this.options.cssStyles || new CssStyles();
-    this.font = this.options.font || new defaultFont(fontOptions);
+    this.fontOptions = fontOptions;
+    const font = this.options.font;
+    this.font = (typeof font === 'string' ? this.createFont(font) : font || new defaultFont(fontOptions));
     this.unknownCache = new Map();
   }
 
   /*****************************************************************/
 
+  /**
+   * @param {string} name   The name of a font
+   * @return {boolean}      True if the font has been registered with this output jax
+   */
+  public hasFont(name: string): boolean {
+    return (this.constructor as typeof CommonOutputJax).fonts.has(name);
+  }
+
+  /**
+   * @return {string[]}     The names of the fonts registered with this output jax
+   */
+  public fontNames(): string[] {
+    return Array.from((this.constructor as typeof CommonOutputJax).fonts.keys());
+  }
+
+  /**
+   * @param {string} name   The name of a registered font
+   * @return {FD}           A new instance of that font (using the font options given to the jax)
+   */
+  protected createFont(name: string): FD {
+    const FONT = (this.constructor as typeof CommonOutputJax).fonts.get(name);
+    if (!FONT) {
+      throw Error('Unknown font "' + name + '" for ' + this.name + ' output');
+    }
+    return new FONT(this.fontOptions) as FD;
+  }
+
+  /**
+   * Switch to a different font (the math must be rerendered afterward)
+   *
+   * @param {string|FD} font   The name of a registered font, or the FontData object to use
+   */
+  public setFont(font: string | FD) {
+    this.font = (typeof font === 'string' ? this.createFont(font) : font);
+    this.unknownCache.clear();
+  }
+
+  /**
+   * @override
+   */
+  public cacheID() {
+    return this.name + '-' + this.font.name;
+  }
+
+  /*****************************************************************/
+
   /**
    * Save the math document
    * Create the mjx-container node
@@ -430,10 +492,24 @@ export abstract class CommonOutputJax<
                             adaptor.nodeBBox(adaptor.firstChild(node) as N).left - 2);
     const scale = Math.max(this.options.minScale,
                            this.options.matchFontHeight ? ex / this.font.params.x_height / em : 1);
-    const lineWidth = 1000000;      // no linebreaking (otherwise would be a percentage of cwidth)
+    const lineWidth = this.getLineWidth(containerWidth, em);
     return {em, ex, containerWidth, lineWidth, scale, family};
   }
 
+  /**
+   * @param {number} containerWidth   The width of the container (in pixels, or -1 if it couldn't be measured)
+   * @param {number} em               The size of an em in the container (in pixels)
+   * @return {number}                 The maximum width of a line (in pixels)
+   */
+  public getLineWidth(containerWidth: number, em: number): number {
+    const {automatic, width} = this.options.linebreaks;
+    if (!automatic || !(containerWidth > 0)) {
+      return 1000000;      // no linebreaking
+    }
+    return (String(width).match(/%\s*$/) ? length2em(width, containerWidth) :
+            length2em(width, containerWidth, 1, em) * em);
+  }
+
   /*****************************************************************/
 
   /**
@@ -449,17 +525,11 @@ export abstract class CommonOutputJax<
     //
     // Add document-specific styles
     //
-    if ('getStyles' in html) {
-      for (const styles of ((html as any).getStyles() as CssStyleList[])) {
-        this.cssStyles.addStyles(styles);
-      }
-    }
+    this.addDocumentStyles(html);
     //
     // Gather the CSS from the classes
     //
-    for (const kind of this.factory.getKinds()) {
-      this.addClassStyles(this.factory.getNodeClass(kind));
-    }
+    this.addWrapperStyles();
     //
     // Get the font styles
     //
@@ -472,10 +542,32 @@ export abstract class CommonOutputJax<
   }
 
   /**
-   * @param {any} CLASS  The Wrapper class whose styles are to be added
+   * @param {MathDocument} html   The document whose styles are to be added
+   * @param {CssStyles} styles    The styles to add them to
+   */
+  protected addDocumentStyles(html: MathDocument<N, T, D>, styles: CssStyles = this.cssStyles) {
+    if ('getStyles' in html) {
+      for (const list of ((html as any).getStyles() as CssStyleList[])) {
+        styles.addStyles(list);
+      }
+    }
+  }
+
+  /**
+   * @param {CssStyles} styles    The styles to add the styles for the wrapper classes to
+   */
+  protected addWrapperStyles(styles: CssStyles = this.cssStyles) {
+    for (const kind of this.factory.getKinds()) {
+      this.addClassStyles(this.factory.getNodeClass(kind), styles);
+    }
+  }
+
+  /**
+   * @param {any} CLASS           The Wrapper class whose styles are to be added
+   * @param {CssStyles} styles    The styles to add them to
    */
-  protected addClassStyles(CLASS: typeof CommonWrapper) {
-    this.cssStyles.addStyles(CLASS.styles);
+  protected addClassStyles(CLASS: typeof CommonWrapper, styles: CssStyles = this.cssStyles) {
+    styles.addStyles(CLASS.styles);
   }
 
   /*****************************************************************/
@@ -140,6 +140,17 @@ export class CommonWrapper<
     xmlns: true
   };
 
+  /**
+   * Node properties that are copied to the DOM elements as data attributes
+   * (the positions of the TeX source for the node, when recorded by the TeX
+   * input jax).
+   */
+  public static dataProperties: StringMap = {
+    texStart: 'data-tex-start',
+    texEnd: 'data-tex-end',
+    texExpanded: 'data-tex-expanded'
+  };
+
   /**
    * The translation of mathvariant to bold styles, or to remove
    * bold from a mathvariant.
@@ -0,0 +1,487 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the CommonCdDiagram wrapper mixin for the CdDiagram object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {AnyWrapper, WrapperConstructor, Constructor} from '../Wrapper.js';
+import {CommonMtable} from './mtable.js';
+import {CommonMtr} from './mtr.js';
+import {CdDiagram, CdArrow} from '../../../core/MmlTree/MmlNodes/CdDiagram.js';
+import {BBox} from '../../../util/BBox.js';
+
+/*****************************************************************/
+
+/**
+ * The namespace for the SVG elements used to draw the arrows
+ */
+export const SVGNS = 'http://www.w3.org/2000/svg';
+
+/**
+ * A point in the diagram (in ems, with y measured upward from the baseline)
+ */
+export type Point = [number, number];
+
+/**
+ * A path to be stroked, with its commands and coordinates (in ems)
+ */
+export type CdPath = {
+  path: (string | number)[],   // the path commands and coordinates
+  dash: string                 // 'solid', 'dashed', or 'dotted'
+};
+
+/**
+ * The positions of the children and the paths for the arrows
+ */
+export type CdLayout = {
+  places: Point[],      // the x and baseline y for each child (table first, then labels)
+  paths: CdPath[],      // the arrow paths to draw
+  masks: number[],      // the labels drawn over their arrows (the arrows are masked there)
+  dx: number            // the offset needed to keep everything to the right of the origin
+};
+
+/**
+ * The size and location of the contents of a diagram cell
+ */
+export type CdCell = {
+  x: number,            // the center of the cell's column
+  y: number,            // the baseline of the cell's row
+  w: number,            // the width of the cell's contents
+  h: number,            // the height of the cell's contents
+  d: number             // the depth of the cell's contents
+};
+
+/**
+ * The sizes used to draw the arrows (in ems)
+ */
+export const CdSizes = {
+  thickness: .05,       // the line thickness
+  gap: .2,              // the space between an arrow and the cell contents
+  sep: .1,              // the space between an arrow and its labels (and around masked labels)
+  margin: 1,            // the extra space around the diagram included in the arrows' mask
+  double: .09,          // half the separation of the lines of a double arrow
+  head: [.24, .17],     // the length and half-width of an arrow head
+  dhead: [.3, .26],     // the length and half-width of the head of a double arrow
+  heads: .18,           // the separation of the heads for two-headed arrows
+  hook: .12,            // the radius of a hook
+  bend: .3915           // the control-point distance for curves (as a fraction of the length)
+};
+
+/**
+ * The number of arrow masks created so far (used to make their ids unique)
+ */
+let maskCount = 0;
+
+/*****************************************************************/
+/**
+ * The CommonCdDiagram interface
+ */
+export interface CommonCdDiagram extends AnyWrapper {
+
+  /**
+   * The cached layout for the diagram
+   */
+  layout: CdLayout;
+
+  /**
+   * @return {CommonMtable}   The table holding the diagram's cells
+   */
+  readonly table: CommonMtable<any, any>;
+
+  /**
+   * @return {CdLayout}   The positions of the labels and the arrow paths
+   */
+  getLayout(): CdLayout;
+
+  /**
+   * @return {number[][]}   The rectangles [x, y, w, h] for the mask that keeps the arrows from
+   *                          being drawn under the labels that sit on them (in ems, relative to
+   *                          the arrows, with y at the bottom):  the first covers the diagram,
+   *                          and the others surround the masked labels
+   */
+  getMaskBoxes(): number[][];
+
+  /**
+   * @return {string}   A new id for an arrow mask
+   */
+  maskID(): string;
+
+  /**
+   * @return {CdCell[][]}   The locations and sizes of the cells of the diagram
+   */
+  getCells(): CdCell[][];
+
+  /**
+   * @param {CdArrow} arrow    The arrow to lay out
+   * @param {CdCell[][]} cells The cells of the diagram
+   * @param {CdLayout} layout  The layout to which the paths and label positions are added
+   */
+  layoutArrow(arrow: CdArrow, cells: CdCell[][], layout: CdLayout): void;
+
+  /**
+   * @param {CdCell} cell     The cell whose center is needed
+   * @return {Point}          The center of the cell at the height of the math axis
+   */
+  center(cell: CdCell): Point;
+
+  /**
+   * @param {CdCell} cell     The cell whose boundary is needed
+   * @param {Point} center    The center of the cell (possibly shifted)
+   * @param {number} angle    The direction from the center of the cell (in radians)
+   * @return {Point}          The point where a ray in that direction leaves the cell
+   */
+  boundary(cell: CdCell, center: Point, angle: number): Point;
+
+  /**
+   * @param {Point} p        The tip of the arrow head
+   * @param {number} angle   The direction of the arrow (in radians)
+   * @param {boolean} big    True for the head of a double arrow
+   * @return {CdPath}        The path for the arrow head
+   */
+  arrowHead(p: Point, angle: number, big: boolean): CdPath;
+
+  /**
+   * @param {string} tail    The type of tail
+   * @param {Point} p        The start of the arrow
+   * @param {number} angle   The direction of the arrow (in radians)
+   * @param {boolean} big    True for the tail of a double arrow
+   * @return {CdPath[]}      The paths for the tail
+   */
+  arrowTail(tail: string, p: Point, angle: number, big: boolean): CdPath[];
+}
+
+/**
+ * Shorthand for the CommonCdDiagram constructor
+ */
+export type CdDiagramConstructor = Constructor<CommonCdDiagram>;
+
+/*****************************************************************/
+/**
+ * @param {Point} p        The starting point
+ * @param {number} r       The distance to move
+ * @param {number} angle   The direction to move (in radians)
+ * @return {Point}         The point at that distance and direction from p
+ */
+export function polar(p: Point, r: number, angle: number): Point {
+  return [p[0] + r * Math.cos(angle), p[1] + r * Math.sin(angle)];
+}
+
+/**
+ * @param {(string | Point)[]} P   The path commands and points
+ * @return {(string | number)[]}   The path with the points flattened into coordinates
+ */
+export function toPath(...P: (string | Point)[]): (string | number)[] {
+  const path: (string | number)[] = [];
+  for (const p of P) {
+    if (typeof p === 'string') {
+      path.push(p);
+    } else {
+      path.push(p[0], p[1]);
+    }
+  }
+  return path;
+}
+
+/*****************************************************************/
+/**
+ * The CommonCdDiagram wrapper mixin for the CdDiagram object
+ *
+ * @template T  The Wrapper class constructor type
+ */
+export function CommonCdDiagramMixin<T extends WrapperConstructor>(Base: T): CdDiagramConstructor & T {
+
+  return class extends Base {
+
+    /**
+     * @override
+     */
+    public layout: CdLayout = null;
+
+    /**
+     * @override
+     */
+    public get table() {
+      return this.childNodes[0] as any as CommonMtable<any, any>;
+    }
+
+    /**
+     * @override
+     */
+    public computeBBox(bbox: BBox, _recompute: boolean = false) {
+      const {places, paths, dx} = this.getLayout();
+      const box = this.table.getBBox();
+      let [x1, y0, y1] = [box.w, -box.d, box.h];
+      for (const i of places.keys()) {
+        const {w, h, d, rscale} = this.childNodes[i].getBBox();
+        const [x, y] = places[i];
+        x1 = Math.max(x1, x + w * rscale);
+        y0 = Math.min(y0, y - d * rscale);
+        y1 = Math.max(y1, y + h * rscale);
+      }
+      const t = CdSizes.thickness;
+      for (const {path} of paths) {
+        for (let i = 0; i < path.length; i++) {
+          if (typeof path[i] === 'number') {
+            const [x, y] = [path[i] as number, path[i + 1] as number];
+            x1 = Math.max(x1, x + t);
+            y0 = Math.min(y0, y - t);
+            y1 = Math.max(y1, y + t);
+            i++;
+          }
+        }
+      }
+      bbox.w = x1 + dx;
+      bbox.h = y1;
+      bbox.d = -y0;
+      bbox.clean();
+    }
+
+    /**
+     * @override
+     */
+    public getLayout() {
+      if (this.layout) {
+        return this.layout;
+      }
+      const layout: CdLayout = {places: [[0, 0]], paths: [], masks: [], dx: 0};
+      const cells = this.getCells();
+      for (const arrow of (this.node as CdDiagram).arrows) {
+        this.layoutArrow(arrow, cells, layout);
+      }
+      for (let i = 1; i < this.childNodes.length; i++) {
+        if (!layout.places[i]) {
+          layout.places[i] = [0, 0];
+        }
+      }
+      //
+      //  Find the leftmost point so that everything can be shifted right of the origin
+      //
+      let x0 = 0;
+      for (const i of layout.places.keys()) {
+        x0 = Math.min(x0, layout.places[i][0]);
+      }
+      for (const {path} of layout.paths) {
+        for (let i = 0; i < path.length; i++) {
+          if (typeof path[i] === 'number') {
+            x0 = Math.min(x0, (path[i++] as number) - CdSizes.thickness);
+          }
+        }
+      }
+      layout.dx = -x0;
+      this.layout = layout;
+      return layout;
+    }
+
+    /**
+     * @override
+     */
+    public getMaskBoxes() {
+      const {places, masks, dx} = this.getLayout();
+      const {w, h, d} = this.getBBox();
+      const [m, p] = [CdSizes.margin, CdSizes.sep];
+      const boxes = [[-dx - m, -d - m, w + 2 * m, h + d + 2 * m]];
+      for (const i of masks) {
+        const [x, y] = places[i];
+        const bbox = this.childNodes[i].getBBox();
+        const r = bbox.rscale;
+        boxes.push([x - p, y - bbox.d * r - p, bbox.w * r + 2 * p, (bbox.h + bbox.d) * r + 2 * p]);
+      }
+      return boxes;
+    }
+
+    /**
+     * @override
+     */
+    public maskID() {
+      return 'mjx-cd-mask-' + (++maskCount);
+    }
+
+    /**
+     * @override
+     */
+    public getCells() {
+      const table = this.table;
+      const {h} = table.getBBox();
+      const CW = table.getComputedWidths();
+      const space = table.getColumnHalfSpacing();
+      const X: number[] = [];
+      let x = table.fLine + table.cEdges[0];
+      for (let j = 0; j < table.numCols; j++) {
+        x += space[j];
+        X.push(x + CW[j] / 2);
+        x += CW[j] + space[j + 1] + (table.cLines[j] || 0);
+      }
+      const cells: CdCell[][] = [];
+      for (let i = 0; i < table.numRows; i++) {
+        const row = table.tableRows[i] as CommonMtr<AnyWrapper>;
+        const y = h - table.getVerticalPosition(i, 'baseline');
+        cells[i] = X.map((cx, j) => {
+          const cell = (j < row.numCells ? row.getChild(j) : null);
+          const {w, h, d} = (cell ? cell.getBBox() : BBox.zero());
+          return {x: cx, y: y, w: w, h: Math.max(h, 0), d: Math.max(d, 0)};
+        });
+      }
+      return cells;
+    }
+
+    /**
+     * @override
+     */
+    public layoutArrow(arrow: CdArrow, cells: CdCell[][], layout: CdLayout) {
+      const start = (cells[arrow.from[0]] || [])[arrow.from[1]];
+      const end = (cells[arrow.to[0]] || [])[arrow.to[1]];
+      if (!start || !end) return;
+      //
+      //  Get the direction between the cell centers and the bend angle,
+      //    and from those, the end points and control points of the arrow
+      //
+      const [x0, y0] = this.center(start);
+      const [x1, y1] = this.center(end);
+      const phi = Math.atan2(y1 - y0, x1 - x0);
+      const theta = arrow.bend * Math.PI / 180;
+      const out = phi + theta;
+      const into = phi - theta;
+      const P0 = this.boundary(start, polar([x0, y0], arrow.shift, phi + Math.PI / 2), out);
+      const P3 = this.boundary(end, polar([x1, y1], arrow.shift, phi + Math.PI / 2), into + Math.PI);
+      const k = CdSizes.bend * Math.hypot(P3[0] - P0[0], P3[1] - P0[1]);
+      const P1 = (theta ? polar(P0, k, out) : polar(P0, k, phi));
+      const P2 = (theta ? polar(P3, -k, into) : polar(P3, -k, phi));
+      //
+      //  Add the shaft, head, and tail
+      //
+      const double = (arrow.line === 'double');
+      if (arrow.line !== 'none') {
+        const dash = (double ? 'solid' : arrow.line);
+        const [s0, s1] = [(arrow.tail === 'none' || !double ? 0 : CdSizes.double),
+                          (arrow.head === 'none' || !double ? 0 : CdSizes.double)];
+        const Q0 = polar(P0, s0, out);
+        const Q3 = polar(P3, -s1, into);
+        const offsets = (double ? [CdSizes.double, -CdSizes.double] : [0]);
+        for (const s of offsets) {
+          const n0 = out + Math.PI / 2;
+          const n1 = into + Math.PI / 2;
+          const path = (theta ?
+                        toPath('M', polar(Q0, s, n0), 'C', polar(P1, s, n0), polar(P2, s, n1), polar(Q3, s, n1)) :
+                        toPath('M', polar(Q0, s, n0), 'L', polar(Q3, s, n1)));
+          layout.paths.push({path, dash});
+        }
+        if (arrow.head !== 'none') {
+          layout.paths.push(this.arrowHead(P3, into, double));
+          if (arrow.head === 'two heads') {
+            layout.paths.push(this.arrowHead(polar(P3, -CdSizes.heads, into), into, double));
+          }
+        }
+        if (arrow.tail !== 'none') {
+          layout.paths.push(...this.arrowTail(arrow.tail, P0, out, double));
+        }
+      }
+      //
+      //  Position the labels
+      //
+      for (const label of arrow.labels) {
+        const t = label.pos, s = 1 - t;
+        const B = [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t];
+        const p: Point = [B[0] * P0[0] + B[1] * P1[0] + B[2] * P2[0] + B[3] * P3[0],
+                          B[0] * P0[1] + B[1] * P1[1] + B[2] * P2[1] + B[3] * P3[1]];
+        const dB = [-s * s, s * s - 2 * s * t, 2 * s * t - t * t, t * t];
+        const angle = Math.atan2(dB[0] * P0[1] + dB[1] * P1[1] + dB[2] * P2[1] + dB[3] * P3[1],
+                                 dB[0] * P0[0] + dB[1] * P1[0] + dB[2] * P2[0] + dB[3] * P3[0]);
+        const {w, h, d, rscale} = this.childNodes[label.child].getBBox();
+        const [W, H, D] = [w * rscale, h * rscale, d * rscale];
+        let [x, y] = p;
+        if (label.side !== 'center') {
+          const normal = angle + (label.side === 'left' ? 1 : -1) * Math.PI / 2;
+          const [nx, ny] = [Math.cos(normal), Math.sin(normal)];
+          const r = CdSizes.sep + Math.abs(nx) * W / 2 + Math.abs(ny) * (H + D) / 2;
+          [x, y] = [x + r * nx, y + r * ny];
+        } else if (arrow.line !== 'none') {
+          layout.masks.push(label.child);
+        }
+        layout.places[label.child] = [x - W / 2, y - (H - D) / 2];
+      }
+    }
+
+    /**
+     * @override
+     */
+    public center(cell: CdCell): Point {
+      return [cell.x, cell.y + this.font.params.axis_height];
+    }
+
+    /**
+     * @override
+     */
+    public boundary(cell: CdCell, center: Point, angle: number) {
+      const [ux, uy] = [Math.cos(angle), Math.sin(angle)];
+      const a = this.font.params.axis_height;
+      const W = (cell.w ? cell.w / 2 : 0) + CdSizes.gap;
+      const H = (cell.w ? (uy > 0 ? cell.h - a : cell.d + a) : 0) + CdSizes.gap;
+      const r = Math.min(Math.abs(ux) > .0001 ? W / Math.abs(ux) : Infinity,
+                         Math.abs(uy) > .0001 ? Math.max(0, H) / Math.abs(uy) : Infinity);
+      return polar(center, r, angle);
+    }
+
+    /**
+     * @override
+     */
+    public arrowHead(p: Point, angle: number, big: boolean): CdPath {
+      const [l, w] = (big ? CdSizes.dhead : CdSizes.head);
+      const a = Math.atan2(w, l);
+      const r = Math.hypot(w, l);
+      const back = angle + Math.PI;
+      return {
+        path: toPath('M', polar(p, r, back - a),
+                     'Q', polar(p, r / 2.5, back - a / 3), p,
+                     'Q', polar(p, r / 2.5, back + a / 3), polar(p, r, back + a)),
+        dash: 'solid'
+      };
+    }
+
+    /**
+     * @override
+     */
+    public arrowTail(tail: string, p: Point, angle: number, big: boolean): CdPath[] {
+      const normal = angle + Math.PI / 2;
+      const [l, w] = (big ? CdSizes.dhead : CdSizes.head);
+      if (tail === 'to') {
+        return [this.arrowHead(p, angle + Math.PI, big)];
+      }
+      if (tail === 'tail') {
+        return [this.arrowHead(polar(p, l, angle), angle, big)];
+      }
+      if (tail === 'mapsto') {
+        return [{path: toPath('M', polar(p, w, normal), 'L', polar(p, -w, normal)), dash: 'solid'}];
+      }
+      if (tail === 'hook' || tail === 'hook\'') {
+        const r = (tail === 'hook' ? 1 : -1) * CdSizes.hook;
+        const c = 4 * CdSizes.hook / 3;
+        const q = polar(p, (big ? r / Math.abs(r) * CdSizes.double : 0), normal);
+        return [{
+          path: toPath('M', q, 'C', polar(q, -c, angle), polar(polar(q, -c, angle), 2 * r, normal),
+                       polar(q, 2 * r, normal)),
+          dash: 'solid'
+        }];
+      }
+      return [];
+    }
+
+  };
+
+}
@@ -0,0 +1,368 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the CommonChemStructure wrapper mixin for the ChemStructure object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {AnyWrapper, WrapperConstructor, Constructor} from '../Wrapper.js';
+import {Point, polar, toPath} from './CdDiagram.js';
+import {ChemStructure, ChemBond, ChemRing} from '../../../core/MmlTree/MmlNodes/ChemStructure.js';
+import {BBox} from '../../../util/BBox.js';
+
+/*****************************************************************/
+
+/**
+ * A path to be drawn, with its commands and coordinates (in ems)
+ */
+export type ChemPath = {
+  path: (string | number)[],   // the path commands and coordinates
+  fill: boolean                // true if the path is filled rather than stroked
+};
+
+/**
+ * The positions of the atoms and the paths for the bonds
+ */
+export type ChemLayout = {
+  places: Point[],      // the x and baseline y for each atom
+  paths: ChemPath[],    // the bond and ring paths to draw
+  dx: number            // the offset needed to keep everything to the right of the origin
+};
+
+/**
+ * The size and location of a sub-atom within its atom
+ */
+export type ChemSubatom = {
+  x: number,            // the center of the sub-atom relative to the left of the atom
+  w: number,            // the width of the sub-atom
+  h: number,            // the height of the sub-atom
+  d: number             // the depth of the sub-atom
+};
+
+/**
+ * The sizes used to draw the bonds (in ems)
+ */
+export const ChemSizes = {
+  thickness: .04,       // the line thickness
+  gap: .12,             // the space between a bond and the atoms it connects
+  double: .18,          // the separation of the lines of double and triple bonds
+  shorten: .15,         // how much the inner line of an off-center double bond is shortened at each end
+  wedge: .1,            // the half-width of the wide end of a wedge
+  hash: .1,             // the spacing of the lines of a hashed wedge
+  circle: .6            // the radius of a ring's circle (as a fraction of the distance to its sides)
+};
+
+/*****************************************************************/
+/**
+ * The CommonChemStructure interface
+ */
+export interface CommonChemStructure extends AnyWrapper {
+
+  /**
+   * The cached layout for the structure
+   */
+  layout: ChemLayout;
+
+  /**
+   * @return {ChemLayout}   The positions of the atoms and the bond paths
+   */
+  getLayout(): ChemLayout;
+
+  /**
+   * @param {AnyWrapper} atom     The wrapper for an atom
+   * @return {ChemSubatom[]}      The locations and sizes of its sub-atoms
+   */
+  getSubatoms(atom: AnyWrapper): ChemSubatom[];
+
+  /**
+   * @param {ChemSubatom[]} atom   The sub-atoms of an atom
+   * @param {number} n             The requested sub-atom (-1 for the default)
+   * @param {number} angle         The direction of the bond (in radians)
+   * @param {boolean} start        True if the bond starts at the atom, false if it ends there
+   * @return {number}              The index of the sub-atom where the bond attaches
+   */
+  subatom(atom: ChemSubatom[], n: number, angle: number, start: boolean): number;
+
+  /**
+   * @param {ChemSubatom} sub   The sub-atom whose boundary is needed
+   * @param {Point} center      The center of the sub-atom (at the height of the math axis)
+   * @param {number} angle      The direction from the center (in radians)
+   * @return {Point}            The point where a bond in that direction leaves the sub-atom
+   */
+  boundary(sub: ChemSubatom, center: Point, angle: number): Point;
+
+  /**
+   * @param {ChemBond} bond   The bond to draw
+   * @param {Point} P0        The start of the bond
+   * @param {Point} P1        The end of the bond
+   * @return {ChemPath[]}     The paths for the bond
+   */
+  bondPaths(bond: ChemBond, P0: Point, P1: Point): ChemPath[];
+
+  /**
+   * @param {ChemRing} ring   The ring whose circle is needed
+   * @param {Point[]} P       The centers of the sub-atoms at the ring's vertices
+   * @return {ChemPath}       The path for the circle inside the ring
+   */
+  ringCircle(ring: ChemRing, P: Point[]): ChemPath;
+}
+
+/**
+ * Shorthand for the CommonChemStructure constructor
+ */
+export type ChemStructureConstructor = Constructor<CommonChemStructure>;
+
+/*****************************************************************/
+/**
+ * The CommonChemStructure wrapper mixin for the ChemStructure object
+ *
+ * @template T  The Wrapper class constructor type
+ */
+export function CommonChemStructureMixin<T extends WrapperConstructor>(Base: T): ChemStructureConstructor & T {
+
+  return class extends Base {
+
+    /**
+     * @override
+     */
+    public layout: ChemLayout = null;
+
+    /**
+     * @override
+     */
+    public computeBBox(bbox: BBox, _recompute: boolean = false) {
+      const {places, paths, dx} = this.getLayout();
+      let [x1, y0, y1] = [0, 0, 0];
+      for (const i of places.keys()) {
+        const {w, h, d, rscale} = this.childNodes[i].getBBox();
+        const [x, y] = places[i];
+        x1 = Math.max(x1, x + w * rscale);
+        y0 = Math.min(y0, y - d * rscale);
+        y1 = Math.max(y1, y + h * rscale);
+      }
+      const t = ChemSizes.thickness;
+      for (const {path} of paths) {
+        for (let i = 0; i < path.length; i++) {
+          if (typeof path[i] === 'number') {
+            const [x, y] = [path[i] as number, path[i + 1] as number];
+            x1 = Math.max(x1, x + t);
+            y0 = Math.min(y0, y - t);
+            y1 = Math.max(y1, y + t);
+            i++;
+          }
+        }
+      }
+      bbox.w = x1 + dx;
+      bbox.h = y1;
+      bbox.d = -y0;
+      bbox.clean();
+    }
+
+    /**
+     * @override
+     */
+    public getLayout() {
+      if (this.layout) {
+        return this.layout;
+      }
+      const node = this.node as ChemStructure;
+      const a = this.font.params.axis_height;
+      const atoms = this.childNodes.map(atom => this.getSubatoms(atom));
+      //
+      //  Position the atoms by following the bonds that place them:
+      //    P[i] is the center of sub-atom anchor[i] of atom i, at the height of the math axis.
+      //
+      const P: Point[] = [[0, a]];
+      const anchor: number[] = [0];
+      for (const bond of node.bonds) {
+        if (!bond.place || !P[bond.from] || !atoms[bond.to]) continue;
+        const angle = bond.angle * Math.PI / 180;
+        const [from, to] = [atoms[bond.from], atoms[bond.to]];
+        const n = this.subatom(from, bond.departure, angle, true);
+        const m = this.subatom(to, bond.arrival, angle, false);
+        const start: Point = [P[bond.from][0] + from[n].x - from[anchor[bond.from]].x, P[bond.from][1]];
+        P[bond.to] = polar(start, bond.length, angle);
+        anchor[bond.to] = m;
+      }
+      const layout: ChemLayout = {places: [], paths: [], dx: 0};
+      for (const i of atoms.keys()) {
+        if (!P[i]) {
+          [P[i], anchor[i]] = [[0, a], 0];
+        }
+        layout.places[i] = [P[i][0] - atoms[i][anchor[i]].x, P[i][1] - a];
+      }
+      //
+      //  Draw the bonds between the sub-atoms they connect
+      //
+      const center = (i: number, n: number) => [layout.places[i][0] + atoms[i][n].x, P[i][1]] as Point;
+      for (const bond of node.bonds) {
+        if (bond.type === 'none' || !atoms[bond.from] || !atoms[bond.to]) continue;
+        const [from, to] = [atoms[bond.from], atoms[bond.to]];
+        let angle = bond.angle * Math.PI / 180;
+        if (!bond.place) {
+          const [p, q] = [center(bond.from, anchor[bond.from]), center(bond.to, anchor[bond.to])];
+          angle = Math.atan2(q[1] - p[1], q[0] - p[0]);
+        }
+        const n = this.subatom(from, bond.departure, angle, true);
+        const m = this.subatom(to, bond.arrival, angle, false);
+        const [p0, p1] = [center(bond.from, n), center(bond.to, m)];
+        if (!bond.place) {
+          angle = Math.atan2(p1[1] - p0[1], p1[0] - p0[0]);
+        }
+        const P0 = this.boundary(from[n], p0, angle);
+        const P1 = this.boundary(to[m], p1, angle + Math.PI);
+        layout.paths.push(...this.bondPaths(bond, P0, P1));
+      }
+      //
+      //  Add the circles inside the aromatic rings
+      //
+      for (const ring of node.rings) {
+        layout.paths.push(this.ringCircle(ring, ring.atoms.map(i => center(i, anchor[i]))));
+      }
+      //
+      //  Find the leftmost point so that everything can be shifted right of the origin
+      //
+      let x0 = 0;
+      for (const i of layout.places.keys()) {
+        x0 = Math.min(x0, layout.places[i][0]);
+      }
+      for (const {path} of layout.paths) {
+        for (let i = 0; i < path.length; i++) {
+          if (typeof path[i] === 'number') {
+            x0 = Math.min(x0, (path[i++] as number) - ChemSizes.thickness);
+          }
+        }
+      }
+      layout.dx = -x0;
+      this.layout = layout;
+      return layout;
+    }
+
+    /**
+     * @override
+     */
+    public getSubatoms(atom: AnyWrapper) {
+      const subatoms: ChemSubatom[] = [];
+      let x = 0;
+      for (const child of atom.childNodes) {
+        const {w, h, d, L, R, rscale} = child.getBBox();
+        subatoms.push({x: x + (L + w / 2) * rscale, w: w * rscale, h: h * rscale, d: d * rscale});
+        x += (L + w + R) * rscale;
+      }
+      if (!subatoms.length) {
+        subatoms.push({x: 0, w: 0, h: 0, d: 0});
+      }
+      return subatoms;
+    }
+
+    /**
+     * @override
+     */
+    public subatom(atom: ChemSubatom[], n: number, angle: number, start: boolean) {
+      if (n >= 0) {
+        return Math.min(n, atom.length - 1);
+      }
+      const right = (Math.cos(angle) > .0001);
+      return (right === start ? atom.length - 1 : 0);
+    }
+
+    /**
+     * @override
+     */
+    public boundary(sub: ChemSubatom, center: Point, angle: number) {
+      if (!sub.w) {
+        return center;
+      }
+      const [ux, uy] = [Math.cos(angle), Math.sin(angle)];
+      const a = this.font.params.axis_height;
+      const W = sub.w / 2 + ChemSizes.gap;
+      const H = (uy > 0 ? sub.h - a : sub.d + a) + ChemSizes.gap;
+      const r = Math.min(Math.abs(ux) > .0001 ? W / Math.abs(ux) : Infinity,
+                         Math.abs(uy) > .0001 ? Math.max(0, H) / Math.abs(uy) : Infinity);
+      return polar(center, r, angle);
+    }
+
+    /**
+     * @override
+     */
+    public bondPaths(bond: ChemBond, P0: Point, P1: Point) {
+      const angle = Math.atan2(P1[1] - P0[1], P1[0] - P0[0]);
+      const length = Math.hypot(P1[0] - P0[0], P1[1] - P0[1]);
+      const normal = angle + Math.PI / 2;
+      const line = (s: number, t: number = 0) => ({
+        path: toPath('M', polar(polar(P0, t, angle), s, normal), 'L', polar(polar(P1, -t, angle), s, normal)),
+        fill: false
+      });
+      const sep = ChemSizes.double;
+      if (bond.type === 'double') {
+        return (bond.side ? [line(0), line(bond.side * sep, Math.min(ChemSizes.shorten, length / 4))] :
+                [line(sep / 2), line(-sep / 2)]);
+      }
+      if (bond.type === 'triple') {
+        return [line(0), line(sep), line(-sep)];
+      }
+      if (bond.type !== 'wedge' && bond.type !== 'hollow' && bond.type !== 'hashed') {
+        return [line(0)];
+      }
+      //
+      //  Wedges go from a point at p to a width of 2w at q
+      //
+      const [p, q, dir] = (bond.reverse ? [P1, P0, angle + Math.PI] : [P0, P1, angle]);
+      const w = ChemSizes.wedge;
+      if (bond.type !== 'hashed') {
+        return [{
+          path: toPath('M', p, 'L', polar(q, w, dir + Math.PI / 2), 'L', polar(q, -w, dir + Math.PI / 2), 'Z'),
+          fill: (bond.type === 'wedge')
+        }];
+      }
+      const paths: ChemPath[] = [];
+      const n = Math.max(1, Math.round(length / ChemSizes.hash));
+      for (let i = 1; i <= n; i++) {
+        const c = polar(p, i * length / n, dir);
+        const s = i * w / n;
+        paths.push({path: toPath('M', polar(c, s, dir + Math.PI / 2), 'L', polar(c, -s, dir + Math.PI / 2)), fill: false});
+      }
+      return paths;
+    }
+
+    /**
+     * @override
+     */
+    public ringCircle(ring: ChemRing, P: Point[]) {
+      const n = P.length;
+      const [cx, cy] = P.reduce(([x, y], p) => [x + p[0] / n, y + p[1] / n], [0, 0]);
+      const d = P.reduce((s, p) => s + Math.hypot(p[0] - cx, p[1] - cy) / n, 0);
+      const r = ChemSizes.circle * d * Math.cos(Math.PI / ring.atoms.length);
+      const k = .5523 * r;    // control-point distance for a circular arc of 90 degrees
+      return {
+        path: [
+          'M', cx + r, cy,
+          'C', cx + r, cy + k, cx + k, cy + r, cx, cy + r,
+          'C', cx - k, cy + r, cx - r, cy + k, cx - r, cy,
+          'C', cx - r, cy - k, cx - k, cy - r, cx, cy - r,
+          'C', cx + k, cy - r, cx + r, cy - k, cx + r, cy,
+          'Z'
+        ],
+        fill: false
+      };
+    }
+
+  };
+
+}
@@ -22,12 +22,23 @@
  */
 
 import {AnyWrapper, WrapperConstructor, Constructor} from '../Wrapper.js';
+import {CommonMrow} from './mrow.js';
 
 /*****************************************************************/
 /**
  * The CommonMath interface
  */
 export interface CommonMath extends AnyWrapper {
+  /**
+   * The row that has been broken into lines, if any
+   */
+  breakRow: CommonMrow;
+
+  /**
+   * Find the row whose children can be broken, and break it into lines
+   *   (automatically for displayed equations, and at explicit newlines otherwise)
+   */
+  breakLines(): void;
 }
 
 /**
@@ -45,6 +56,49 @@ export function CommonMathMixin<T extends WrapperConstructor>(Base: T): MathCons
 
   return class extends Base {
 
+    /**
+     * The row that has been broken into lines, if any
+     */
+    public breakRow: CommonMrow = null;
+
+    /**
+     * @override
+     * @constructor
+     */
+    constructor(...args: any[]) {
+      super(...args);
+      this.breakLines();
+    }
+
+    /**
+     * @override
+     */
+    public breakLines() {
+      if (this.parent) return;
+      let row = this.childNodes[0] as any as CommonMrow;
+      while (row.childNodes.length === 1 && row.childNodes[0].node.isKind('mrow')) {
+        row = row.childNodes[0] as any as CommonMrow;
+      }
+      if (row.getBBox().pwidth) return;
+      const display = (this.node.attributes.get('display') === 'block');
+      const {lineWidth, containerWidth, em} = this.metrics;
+      const W = (!display ? Infinity :
+                 (lineWidth === null ? this.jax.getLineWidth(containerWidth, em) : lineWidth) / this.jax.pxPerEm);
+      row.breakLines(W, display ? this.metrics.containerWidth / this.jax.pxPerEm : null);
+      if (row.isLinebroken) {
+        this.breakRow = row;
+      }
+    }
+
+    /**
+     * The lines of a broken display are already aligned within the container width
+     *
+     * @override
+     */
+    protected getAlignShift(): [string, number] {
+      return (this.breakRow ? ['left', 0] : super.getAlignShift());
+    }
+
     /**
      * @override
      */
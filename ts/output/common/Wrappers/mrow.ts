@@ -21,21 +21,86 @@
  * @author dpvc@mathjax.org (Davide Cervone)
  */
 
-import {AnyWrapper, WrapperConstructor, Constructor} from '../Wrapper.js';
+import {AnyWrapper, WrapperConstructor, Constructor, StringMap} from '../Wrapper.js';
 import {CommonMo} from './mo.js';
 import {BBox} from '../../../util/BBox.js';
 import {DIRECTION} from '../FontData.js';
+import {MmlNode} from '../../../core/MmlTree/MmlNode.js';
+import {MmlMo} from '../../../core/MmlTree/MmlNodes/mo.js';
+
+/*****************************************************************/
+/**
+ * The data for one line of an mrow that has been broken into several lines
+ */
+export type LineData = {
+  start: number,     // the index of the first child in the line
+  end: number,       // the index following the last child in the line
+  bbox: BBox,        // the bounding box of the line's content
+  align: string,     // the indentalign value for the line
+  shift: number,     // the indentshift for the line (in em's)
+  x: number,         // the horizontal offset of the line within the row
+  y: number          // the distance of the line's baseline below the baseline of the first line
+};
+
+/**
+ * A possible breakpoint: the child index where the next line would start,
+ *   the width of the line if broken there, and the penalty for breaking there.
+ */
+export type BreakPoint = [number, number, number];
+
+/**
+ * The penalties for the various values of the linebreak attribute
+ */
+export const BREAKPENALTY: {[linebreak: string]: number} = {
+  goodbreak: -.5,
+  auto: 0,
+  badbreak: .5
+};
 
 /*****************************************************************/
 /**
  * The CommonMrow interface
  */
 export interface CommonMrow extends AnyWrapper {
+  /**
+   * The lines into which the row has been broken (empty when the row is not broken)
+   */
+  lines: LineData[];
+
+  /**
+   * @return {boolean}  True when the row has been broken into more than one line
+   */
+  readonly isLinebroken: boolean;
+
   /**
    * Handle vertical stretching of children to match height of
    *  other nodes in the row.
    */
   stretchChildren(): void;
+
+  /**
+   * Break the row into lines at explicit newlines, and at operators when
+   *   the row is wider than the given width.
+   *
+   * @param {number} W         The maximum width of a line (in em's)
+   * @param {number} CW        The container width (in em's) used for the lines' alignment, or null
+   *                             to use the width of the widest line
+   */
+  breakLines(W: number, CW?: number): void;
+
+  /**
+   * @param {AnyWrapper} child   The child whose breaking properties are needed
+   * @return {[string, string]}  The linebreak and linebreakstyle for the child ('' if not breakable)
+   */
+  getBreakStyle(child: AnyWrapper): [string, string];
+
+  /**
+   * @param {number} i         The index of the line
+   * @param {number} n         The number of lines
+   * @param {number} start     The index of the child that starts the line
+   * @return {[string, number]}  The indentalign and indentshift (in em's) for the line
+   */
+  getLineAlign(i: number, n: number, start: number): [string, number];
 }
 
 /**
@@ -53,6 +118,11 @@ export function CommonMrowMixin<T extends WrapperConstructor>(Base: T): MrowCons
 
   return class extends Base {
 
+    /**
+     * The lines into which the row has been broken
+     */
+    public lines: LineData[] = [];
+
     /**
      * @override
      */
@@ -60,6 +130,13 @@ export function CommonMrowMixin<T extends WrapperConstructor>(Base: T): MrowCons
       return false;
     }
 
+    /**
+     * @override
+     */
+    get isLinebroken() {
+      return this.lines.length > 1;
+    }
+
     /**
      * @override
      * @constructor
@@ -116,6 +193,180 @@ export function CommonMrowMixin<T extends WrapperConstructor>(Base: T): MrowCons
       }
     }
 
+    /**
+     * @override
+     */
+    public breakLines(W: number, CW: number = null) {
+      const children = this.childNodes;
+      const starts = [0];
+      let candidates: BreakPoint[] = [];
+      let x = 0;
+      //
+      //  Start a new line at child i, and update the current line width
+      //  and the remaining candidate breakpoints
+      //
+      const newLine = (i: number, w: number) => {
+        starts.push(i);
+        x -= w;
+        candidates = candidates.filter(([j]) => j > i).map(([j, cw, p]) => [j, cw - w, p] as BreakPoint);
+      };
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        const cbox = child.getBBox();
+        const w = (cbox.L + cbox.w + cbox.R) * cbox.rscale;
+        const start = starts[starts.length - 1];
+        const [linebreak, style] = this.getBreakStyle(child);
+        if (linebreak && style !== 'after' && i > start) {
+          if (linebreak === 'newline') {
+            newLine(i, x);
+          } else if (linebreak !== 'nobreak') {
+            candidates.push([i, x, BREAKPENALTY[linebreak] || 0]);
+          }
+        }
+        //
+        //  While the line is too wide, break at the best available breakpoint
+        //
+        while (x + w > W && candidates.length) {
+          const [j, cw] = candidates.reduce((best, bp) => {
+            const score = (W - bp[1]) / W + bp[2];
+            return (score <= (W - best[1]) / W + best[2] ? bp : best);
+          });
+          newLine(j, cw);
+        }
+        x += w;
+        if (linebreak && style !== 'before' && i < children.length - 1) {
+          if (linebreak === 'newline') {
+            newLine(i + 1, x);
+          } else if (linebreak !== 'nobreak') {
+            candidates.push([i + 1, x, BREAKPENALTY[linebreak] || 0]);
+          }
+        }
+      }
+      this.lines = [];
+      if (starts.length === 1) return;
+      //
+      //  Create the line data, removing the spacing at the ends of the lines
+      //
+      const n = starts.length;
+      starts.push(children.length);
+      for (let i = 0; i < n; i++) {
+        const [start, end] = [starts[i], starts[i + 1]];
+        if (i > 0) {
+          children[start].bbox.L = 0;
+        }
+        if (i < n - 1) {
+          children[end - 1].bbox.R = 0;
+        }
+        const bbox = BBox.empty();
+        for (const child of children.slice(start, end)) {
+          bbox.append(child.getBBox());
+        }
+        bbox.clean();
+        const [align, shift] = this.getLineAlign(i, n, start);
+        this.lines.push({start, end, bbox, align, shift, x: 0, y: 0});
+      }
+      //
+      //  Position the lines within the row
+      //
+      const leading = this.length2em(this.jax.math.root.attributes.get('lineleading'));
+      let width = CW || Math.max(...this.lines.map(line => line.bbox.w));
+      let y = 0;
+      let prev: BBox = null;
+      for (const line of this.lines) {
+        const {w, h} = line.bbox;
+        if (prev) {
+          y += prev.d + leading + h;
+        }
+        line.y = y;
+        line.x = (line.align === 'left' ? line.shift :
+                  line.align === 'right' ? width - w - line.shift :
+                  (width - w) / 2 + line.shift);
+        prev = line.bbox;
+      }
+      this.invalidateBBox();
+    }
+
+    /**
+     * Explicit newlines in mspace elements end the line they are in.
+     *   (A duplicate linebreakstyle is treated as 'before', so the operator starts the new line.)
+     *
+     * @override
+     */
+    public getBreakStyle(child: AnyWrapper): [string, string] {
+      const node = child.node;
+      if (node.isKind('mspace')) {
+        return (node.hasNewLine ? ['newline', 'after'] : ['', '']);
+      }
+      if (!node.isEmbellished) {
+        return ['', ''];
+      }
+      const mo = node.coreMO() as MmlMo;
+      let {linebreak, linebreakstyle} = mo.attributes.getList('linebreak', 'linebreakstyle') as StringMap;
+      if (linebreakstyle === 'infixlinebreakstyle') {
+        linebreakstyle = (mo.attributes.get('infixlinebreakstyle') as string) || 'before';
+      }
+      if (linebreakstyle === 'duplicate') {
+        linebreakstyle = 'before';
+      }
+      return [linebreak, linebreakstyle];
+    }
+
+    /**
+     * Get the alignment from the operator at the start of the line, if it
+     *   has explicit settings, otherwise from the math element (using the
+     *   first and last values for the first and last lines).
+     *   (Note that indenttarget is not supported, so 'id' is treated as 'auto'.)
+     *
+     * @override
+     */
+    public getLineAlign(i: number, n: number, start: number): [string, number] {
+      const node = this.childNodes[start].node;
+      const mo = (i > 0 && node.isEmbellished ? node.coreMO() : null) as MmlNode;
+      const attributes = (mo && mo.attributes.getExplicit('indentalign') ? mo : this.jax.math.root).attributes;
+      let {indentalign, indentshift, indentalignfirst, indentshiftfirst, indentalignlast, indentshiftlast} =
+        attributes.getList('indentalign', 'indentshift', 'indentalignfirst', 'indentshiftfirst',
+                           'indentalignlast', 'indentshiftlast') as StringMap;
+      if (i === 0 && indentalignfirst !== 'indentalign') {
+        indentalign = indentalignfirst;
+      } else if (i === n - 1 && indentalignlast !== 'indentalign') {
+        indentalign = indentalignlast;
+      }
+      if (i === 0 && indentshiftfirst !== 'indentshift') {
+        indentshift = indentshiftfirst;
+      } else if (i === n - 1 && indentshiftlast !== 'indentshift') {
+        indentshift = indentshiftlast;
+      }
+      if (indentalign === 'auto' || indentalign === 'id') {
+        indentalign = this.jax.options.displayAlign;
+      }
+      if (indentshift === 'auto') {
+        indentshift = this.jax.options.displayIndent;
+      }
+      return [indentalign, this.length2em(indentshift, this.metrics.containerWidth / this.jax.pxPerEm)];
+    }
+
+    /**
+     * @override
+     */
+    protected computeBBox(bbox: BBox, recompute: boolean = false) {
+      if (!this.isLinebroken) {
+        super.computeBBox(bbox, recompute);
+        return;
+      }
+      bbox.empty();
+      bbox.h = this.lines[0].bbox.h;
+      for (const line of this.lines) {
+        const {w, d} = line.bbox;
+        if (line.x + w > bbox.w) {
+          bbox.w = line.x + w;
+        }
+        if (line.y + d > bbox.d) {
+          bbox.d = line.y + d;
+        }
+      }
+      bbox.clean();
+    }
+
   };
 }
 
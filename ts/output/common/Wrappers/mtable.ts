@@ -91,8 +91,16 @@ export interface CommonMtable<C extends AnyWrapper, R extends CommonMtr<C>> exte
   rSpace: number[];
   cLines: number[];
   rLines: number[];
+  cEdges: number[];
+  rEdges: number[];
   cWidths: (number | string)[];
 
+  /**
+   * The line styles for the sides of the cells
+   */
+  vLines: string[][];
+  hLines: string[][];
+
   /**
    * The bounding box information for the table rows and columns
    */
@@ -128,6 +136,12 @@ export interface CommonMtable<C extends AnyWrapper, R extends CommonMtr<C>> exte
    */
   getPercentageWidth(): void;
 
+  /**
+   * Determine the line styles for the sides of each cell (from the row and column lines,
+   *   the column spans, and the cell borders), and the widths needed for the lines
+   */
+  getCellLines(): void;
+
   /**
    * Stretch the rows to the equal height or natural height
    */
@@ -146,6 +160,13 @@ export interface CommonMtable<C extends AnyWrapper, R extends CommonMtr<C>> exte
    */
   stretchColumn(i: number, W: number): void;
 
+  /**
+   * @param {R} row      The row containing the cell
+   * @param {number} i   The column number
+   * @return {C}         The cell that is in the given column (and only that column), if any
+   */
+  getColumnCell(row: R, i: number): C;
+
   /**
    * Determine the row heights and depths, the column widths,
    * and the natural width and height of the table.
@@ -201,6 +222,14 @@ export interface CommonMtable<C extends AnyWrapper, R extends CommonMtr<C>> exte
    */
   getComputedWidths(): number[];
 
+  /**
+   * @param {number} i       The column where a cell starts
+   * @param {number} n       The number of columns it spans
+   * @param {number[]=} W    The column widths to use (the computed widths by default)
+   * @return {number}        The width of the spanned columns, including the space and lines between them
+   */
+  getSpanWidth(i: number, n: number, W?: number[]): number;
+
   /**
    * Determine the column widths that can be computed (and need to be set).
    * The resulting arrays will have numbers for fixed-size arrays,
@@ -398,6 +427,22 @@ export function CommonMtableMixin<
      * The width of row lines (or 0 if no lone for that row)
      */
     public rLines: number[];
+    /**
+     * The width of the cell borders along the left and right edges of the table (inside any frame)
+     */
+    public cEdges: number[];
+    /**
+     * The width of the cell borders along the top and bottom edges of the table (inside any frame)
+     */
+    public rEdges: number[];
+    /**
+     * The line style at the left of each column (index numCols is the right edge) for each row
+     */
+    public vLines: string[][];
+    /**
+     * The line style above each row (index numRows is the bottom edge) for each column
+     */
+    public hLines: string[][];
     /**
      * The column widths (or percentages, etc.)
      */
@@ -436,7 +481,7 @@ export function CommonMtableMixin<
       //
       // Determine the number of columns and rows, and whether the table is stretchy
       //
-      this.numCols = max(this.tableRows.map(row => row.numCells));
+      this.numCols = max(this.tableRows.map(row => row.numColumns));
       this.numRows = this.childNodes.length;
       this.hasLabels = this.childNodes.reduce((value, row) => value || row.node.isKind('mlabeledtr'), false);
       this.findContainer();
@@ -454,8 +499,7 @@ export function CommonMtableMixin<
       this.fSpace = (this.frame ? this.convertLengths(this.getAttributeArray('framespacing')) : [0, 0]);
       this.cSpace = this.convertLengths(this.getColumnAttributes('columnspacing'));
       this.rSpace = this.convertLengths(this.getRowAttributes('rowspacing'));
-      this.cLines = this.getColumnAttributes('columnlines').map(x => (x === 'none' ? 0 : .07));
-      this.rLines = this.getRowAttributes('rowlines').map(x => (x === 'none' ? 0 : .07));
+      this.getCellLines();
       this.cWidths = this.getColumnWidths();
       //
       // Stretch the rows and columns
@@ -492,6 +536,47 @@ export function CommonMtableMixin<
       }
     }
 
+    /**
+     * Determine the line styles for the sides of each cell (from the row and column lines,
+     *   the column spans, and the cell borders), and the widths needed for the lines
+     */
+    public getCellLines() {
+      const [n, m] = [this.numCols, this.numRows];
+      const clines = this.getColumnAttributes('columnlines') || [];
+      const rlines = this.getRowAttributes('rowlines') || [];
+      const edge = (i: number, k: number) => (i === 0 || i === k);
+      this.vLines = this.tableRows.map(() => Array.from(Array(n + 1).keys()).map(i => edge(i, n) ? 'none' : clines[i - 1]));
+      this.hLines = Array.from(Array(m + 1).keys()).map(j => Array(n).fill(edge(j, m) ? 'none' : rlines[j - 1]));
+      this.tableRows.forEach((row, j) => {
+        for (let i = 0; i < row.numCells; i++) {
+          const [k, span] = [row.getCellColumn(i), row.getCellSpan(i)];
+          //
+          //  No lines within a spanning cell
+          //
+          this.vLines[j].fill('none', k + 1, k + span);
+          //
+          //  Explicit borders replace the table lines
+          //
+          const borders = row.getChild(i).node.attributes.get('data-borders') as string;
+          if (!borders) continue;
+          const [top, right, bottom, left] = split(borders);
+          if (left && left !== 'inherit') this.vLines[j][k] = left;
+          if (right && right !== 'inherit') this.vLines[j][k + span] = right;
+          if (top && top !== 'inherit') this.hLines[j].fill(top, k, k + span);
+          if (bottom && bottom !== 'inherit') this.hLines[j + 1].fill(bottom, k, k + span);
+        }
+      });
+      //
+      //  A line width is needed wherever some row (or column) has a line
+      //
+      const vWidth = (i: number) => (this.vLines.some(lines => lines[i] !== 'none') ? .07 : 0);
+      const hWidth = (j: number) => (this.hLines[j].some(line => line !== 'none') ? .07 : 0);
+      this.cLines = Array.from(Array(Math.max(0, n - 1)).keys()).map(i => vWidth(i + 1));
+      this.rLines = Array.from(Array(Math.max(0, m - 1)).keys()).map(j => hWidth(j + 1));
+      this.cEdges = [vWidth(0), vWidth(n)];
+      this.rEdges = [hWidth(0), hWidth(m)];
+    }
+
     /**
      * Stretch the rows to the equal height or natural height
      */
@@ -528,7 +613,7 @@ export function CommonMtableMixin<
       //  Locate and count the stretchy children
       //
       for (const row of this.tableRows) {
-        const cell = row.getChild(i);
+        const cell = this.getColumnCell(row, i);
         if (cell) {
           const child = cell.childNodes[0];
           if (child.stretch.dir === DIRECTION.None &&
@@ -548,7 +633,7 @@ export function CommonMtableMixin<
           //
           let all = (count > 1 && count === nodeCount);
           for (const row of this.tableRows) {
-            const cell = row.getChild(i);
+            const cell = this.getColumnCell(row, i);
             if (cell) {
               const child = cell.childNodes[0];
               const noStretch = (child.stretch.dir === DIRECTION.None);
@@ -570,6 +655,22 @@ export function CommonMtableMixin<
       }
     }
 
+    /**
+     * @param {R} row      The row containing the cell
+     * @param {number} i   The column number
+     * @return {C}         The cell that is in the given column (and only that column), if any
+     */
+    public getColumnCell(row: R, i: number): C {
+      for (let k = 0, j = 0; k < row.numCells; k++) {
+        const span = row.getCellSpan(k);
+        if (j === i) {
+          return (span === 1 ? row.getChild(k) : null);
+        }
+        if ((j += span) > i) break;
+      }
+      return null;
+    }
+
     /******************************************************************/
 
     /**
@@ -588,13 +689,18 @@ export function CommonMtableMixin<
       const NH = new Array(this.numRows);
       const ND = new Array(this.numRows);
       const LW = [0];
+      const spans: [C, number, number][] = [];
       const rows = this.tableRows;
       for (let j = 0; j < rows.length; j++) {
         const row = rows[j];
         for (let i = 0; i < row.numCells; i++) {
           const cell = row.getChild(i);
-          this.updateHDW(cell, i, j, H, D, W);
-          this.recordPWidthCell(cell, i);
+          const [k, n] = [row.getCellColumn(i), row.getCellSpan(i)];
+          this.updateHDW(cell, k, j, H, D, n === 1 ? W : null);
+          this.recordPWidthCell(cell, k);
+          if (n > 1) {
+            spans.push([cell, k, n]);
+          }
         }
         NH[j] = H[j];
         ND[j] = D[j];
@@ -602,6 +708,15 @@ export function CommonMtableMixin<
           this.updateHDW(row.childNodes[0], 0, j, H, D, LW);
         }
       }
+      //
+      //  Widen the last column of any spanning cell that is wider than its columns
+      //
+      for (const [cell, k, n] of spans) {
+        const dw = cell.getBBox().w - this.getSpanWidth(k, n, W);
+        if (dw > 0) {
+          W[k + n - 1] += dw;
+        }
+      }
       const L = LW[0];
       this.data = {H, D, W, NH, ND, L};
       return this.data;
@@ -651,7 +766,7 @@ export function CommonMtableMixin<
       } else {
         height = sum(H.concat(D, this.rLines, this.rSpace));
       }
-      height += 2 * (this.fLine + this.fSpace[1]);
+      height += 2 * (this.fLine + this.fSpace[1]) + sum(this.rEdges);
       //
       //  Get the widths of all columns
       //
@@ -659,7 +774,7 @@ export function CommonMtableMixin<
       //
       //  Get the expected width of the table
       //
-      width = sum(CW.concat(this.cLines, this.cSpace)) + 2 * (this.fLine + this.fSpace[0]);
+      width = sum(CW.concat(this.cLines, this.cSpace, this.cEdges)) + 2 * (this.fLine + this.fSpace[0]);
       //
       //  If the table width is not 'auto', determine the specified width
       //    and pick the larger of the specified and computed widths.
@@ -703,7 +818,7 @@ export function CommonMtableMixin<
                     this.getColumnAttributes('columnwidth', 0));
       this.cWidths = this.getColumnWidthsFixed(cols, W);
       const CW = this.getComputedWidths();
-      this.pWidth = sum(CW.concat(this.cLines, this.cSpace)) + 2 * (this.fLine + this.fSpace[0]);
+      this.pWidth = sum(CW.concat(this.cLines, this.cSpace, this.cEdges)) + 2 * (this.fLine + this.fSpace[0]);
       if (this.isTop) {
         this.bbox.w = this.pWidth;
       }
@@ -829,6 +944,19 @@ export function CommonMtableMixin<
       return CW;
     }
 
+    /**
+     * @param {number} i       The column where a cell starts
+     * @param {number} n       The number of columns it spans
+     * @param {number[]=} W    The column widths to use (the computed widths by default)
+     * @return {number}        The width of the spanned columns, including the space and lines between them
+     */
+    public getSpanWidth(i: number, n: number, W: number[] = null): number {
+      if (!W) {
+        W = this.getComputedWidths();
+      }
+      return sum(W.slice(i, i + n).concat(this.cSpace.slice(i, i + n - 1), this.cLines.slice(i, i + n - 1)));
+    }
+
     /**
      * Determine the column widths that can be computed (and need to be set).
      * The resulting arrays will have numbers for fixed-size arrays,
@@ -869,7 +997,7 @@ export function CommonMtableMixin<
       } else if (isPercent(width)) {
         cwidth = this.percent(1 / n);
       } else {
-        const w = sum([].concat(this.cLines, this.cSpace)) + 2 * this.fSpace[0];
+        const w = sum([].concat(this.cLines, this.cSpace, this.cEdges)) + 2 * this.fSpace[0];
         cwidth = Math.max(0, this.length2em(width) - w) / n;
       }
       return Array(this.numCols).fill(cwidth);
@@ -934,7 +1062,7 @@ export function CommonMtableMixin<
       //   separation and lines have been removed (cwidth), and
       //   after the width of the columns have been removed (dw).
       //
-      const cwidth = width - sum([].concat(this.cLines, this.cSpace)) - 2 * this.fSpace[0];
+      const cwidth = width - sum([].concat(this.cLines, this.cSpace, this.cEdges)) - 2 * this.fSpace[0];
       let dw = cwidth;
       indices.forEach(i => {
         const x = swidths[i];
@@ -966,10 +1094,10 @@ export function CommonMtableMixin<
       const HD = (equal ? this.getEqualRowHeight() : 0);
       const space = this.getRowHalfSpacing();
       //
-      //  Start with frame size and add in spacing, height and depth,
-      //    and line thickness for each row.
+      //  Start with frame size (and any top cell borders) and add in spacing,
+      //    height and depth, and line thickness for each row.
       //
-      let y = this.fLine;
+      let y = this.fLine + this.rEdges[0];
       for (let j = 0; j < i; j++) {
         y += space[j] + (equal ? HD : H[j] + D[j]) + space[j + 1] + this.rLines[j];
       }
@@ -68,7 +68,11 @@ export function CommonMtdMixin<T extends WrapperConstructor>(Base: T): MtdConstr
       const table = this.parent.parent as any as CommonMtable<AnyWrapper, CommonMtr<AnyWrapper>>;
       const row = this.parent as CommonMtr<AnyWrapper>;
       const i = this.node.childPosition() - (row.labeled ? 1 : 0);
-      return (typeof(table.cWidths[i]) === 'number' ? table.cWidths[i] : table.getTableData().W[i]) as number;
+      const [k, n] = [row.getCellColumn(i), row.getCellSpan(i)];
+      if (n > 1) {
+        return table.getSpanWidth(k, n);
+      }
+      return (typeof(table.cWidths[k]) === 'number' ? table.cWidths[k] : table.getTableData().W[k]) as number;
     }
 
     /**
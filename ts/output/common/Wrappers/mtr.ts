@@ -50,6 +50,11 @@ export interface CommonMtr<C extends AnyWrapper> extends AnyWrapper {
    */
   readonly tableCells: C[];
 
+  /**
+   * The number of table columns used by the row (taking column spans into account)
+   */
+  readonly numColumns: number;
+
   /**
    * @override;
    */
@@ -61,6 +66,18 @@ export interface CommonMtr<C extends AnyWrapper> extends AnyWrapper {
    */
   getChild(i: number): C;
 
+  /**
+   * @param {number} i   The index of the cell (skipping labels)
+   * @return {number}    The number of columns spanned by the cell
+   */
+  getCellSpan(i: number): number;
+
+  /**
+   * @param {number} i   The index of the cell (skipping labels)
+   * @return {number}    The table column in which the cell starts
+   */
+  getCellColumn(i: number): number;
+
   /**
    * @return {BBox[]}  An array of the bounding boxes for the mtd's in the row
    */
@@ -127,6 +144,13 @@ export function CommonMtrMixin<
       return this.childNodes;
     }
 
+    /**
+     * @return {number}   The number of table columns used by the row
+     */
+    get numColumns(): number {
+      return this.getCellColumn(this.numCells);
+    }
+
     /**
      * @param {number} i   The index of the child to get (skipping labels)
      * @return {C}         The ith child node wrapper
@@ -135,6 +159,27 @@ export function CommonMtrMixin<
       return this.childNodes[i];
     }
 
+    /**
+     * @param {number} i   The index of the cell (skipping labels)
+     * @return {number}    The number of columns spanned by the cell
+     */
+    public getCellSpan(i: number): number {
+      const span = parseInt(this.getChild(i).node.attributes.get('columnspan') as string);
+      return (span > 1 ? span : 1);
+    }
+
+    /**
+     * @param {number} i   The index of the cell (skipping labels)
+     * @return {number}    The table column in which the cell starts
+     */
+    public getCellColumn(i: number): number {
+      let column = 0;
+      for (let k = 0; k < i; k++) {
+        column += this.getCellSpan(k);
+      }
+      return column;
+    }
+
     /**
      * @return {BBox[]}  An array of the bounding boxes for the mtd's in the row
      */
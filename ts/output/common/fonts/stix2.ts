@@ -0,0 +1,62 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {FontPackageData} from '../FontPackage.js';
+import {CharOptions, DelimiterData} from '../FontData.js';
+import {delimiters} from './stix2/delimiters.js';
+
+/**
+ * The data for the STIX2 font that is the same for all output jax
+ */
+export const stix2Data: Omit<FontPackageData<CharOptions, DelimiterData>, 'chars'> = {
+  name: 'STIX2',
+  id: 'STX2',
+  variants: [
+    ['-smallop', 'normal'],
+    ['-largeop', 'normal'],
+    ['-size1', 'normal'],
+    ['-size2', 'normal'],
+    ['-size3', 'normal'],
+    ['-size4', 'normal'],
+    ['-size5', 'normal'],
+    ['-size6', 'normal'],
+    ['-size7', 'normal'],
+    ['-size8', 'normal'],
+    ['-size9', 'normal'],
+    ['-size10', 'normal'],
+    ['-size11', 'normal'],
+    ['-size12', 'normal'],
+    ['-parts', 'normal']
+  ],
+  sizeVariants: ['normal', '-size1', '-size2', '-size3', '-size4', '-size5', '-size6', '-size7', '-size8', '-size9', '-size10', '-size11', '-size12'],
+  stretchVariants: ['-parts'],
+  params: {
+    x_height: .473,
+    num1: .64,
+    num2: .585,
+    num3: .47,
+    denom1: .64,
+    denom2: .585,
+    sup1: .36,
+    sup2: .36,
+    sup3: .252,
+    sub1: .21,
+    sub2: .21,
+    sup_drop: .23,
+    sub_drop: .16,
+    axis_height: .258,
+    rule_thickness: .068,
+    big_op_spacing1: .135,
+    big_op_spacing2: .135,
+    big_op_spacing3: .3,
+    big_op_spacing4: .67,
+    scriptspace: .04
+  },
+  delimiters: delimiters
+};
@@ -0,0 +1,151 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {DelimiterMap, DelimiterData, V, H} from '../../FontData.js';
+
+export const delimiters: DelimiterMap<DelimiterData> = {
+  0x28: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.145, 2.385, 2.625, 2.865, 3.101, 3.341, 3.581, 3.821], stretch: [0x239B, 0x239C, 0x239D], HDW: [.736, .196, .484], min: 2.446},
+  0x29: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.145, 2.385, 2.625, 2.865, 3.101, 3.341, 3.581, 3.821], stretch: [0x239E, 0x239F, 0x23A0], HDW: [.736, .196, .484], min: 2.446},
+  0x2F: {dir: V, sizes: [.799, 1.26, 1.89, 2.52, 3.149]},
+  0x5B: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822], stretch: [0x23A1, 0x23A2, 0x23A3], HDW: [.736, .196, .585], min: 2.45},
+  0x5C: {dir: V, sizes: [.799, 1.26, 1.89, 2.52, 3.149]},
+  0x5D: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822], stretch: [0x23A4, 0x23A5, 0x23A6], HDW: [.736, .196, .585], min: 2.45},
+  0x5F: {dir: H, sizes: [.513], stretch: [0x5F, 0x5F, 0], HDW: [-0.077, .128, .512], min: .513},
+  0x7B: {dir: V, sizes: [.934, 1.188, 1.428, 1.668, 1.908, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822], stretch: [0x23A7, 0x23AA, 0x23A9, 0x23A8], HDW: [.736, .197, .6], min: 4.297},
+  0x7C: {dir: V, sizes: [.927], stretch: [0x7C, 0x7C, 0], HDW: [.706, .22, .267], min: .927},
+  0x7D: {dir: V, sizes: [.934, 1.188, 1.428, 1.668, 1.908, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822], stretch: [0x23AB, 0x23AA, 0x23AD, 0x23AC], HDW: [.736, .197, .6], min: 4.297},
+  0x302: {dir: H, sizes: [.283, .574, 1.003, 1.496, 1.932, 2.385]},
+  0x303: {dir: H, sizes: [.322, .574, 1.003, 1.496, 1.932, 2.385]},
+  0x305: {dir: H, sizes: [.401, .451, 1.166, 1.941, 2.561, 3.073], stretch: [0, 0x100000, 0x100000], HDW: [.738, -0.691, 0], min: .451},
+  0x30C: {dir: H, sizes: [.283, .574, 1.003, 1.496, 1.932, 2.385]},
+  0x330: {dir: H, sizes: [.322, .574, 1.003, 1.496, 1.932, 2.385]},
+  0x332: {dir: H, sizes: [.513, 1.025, 1.537, 2.049, 2.561, 3.073], stretch: [0, 0x5F, 0x5F], HDW: [-0.077, .128, 0], min: .513},
+  0x2016: {dir: V, sizes: [.927], stretch: [0x2016, 0x2016, 0], HDW: [.706, .22, .427], min: .927},
+  0x203E: {dir: H, sizes: [.513], stretch: [0x203E, 0x203E, 0], HDW: [.839, -0.792, .512], min: .513},
+  0x20D0: {dir: H, sizes: [.44, .893, 1.339, 1.787, 2.233, 3.073]},
+  0x20D1: {dir: H, sizes: [.44, .893, 1.339, 1.787, 2.233, 3.073]},
+  0x20D6: {dir: H, sizes: [.436, .893, 1.34, 1.787, 2.233, 3.073], stretch: [0x100001, 0x100002, 0], HDW: [.843, -0.58, 0], min: .893},
+  0x20D7: {dir: H, sizes: [.436, .893, 1.34, 1.787, 2.233, 3.073], stretch: [0, 0x100002, 0x100003], HDW: [.843, -0.58, 0], min: .893},
+  0x20E1: {dir: H, sizes: [.494], stretch: [0x100001, 0x100002, 0x100003], HDW: [.843, -0.58, 0], min: 1.686},
+  0x20EC: {dir: H, sizes: [.44, .893, 1.34, 1.787, 2.233, 3.073]},
+  0x20ED: {dir: H, sizes: [.44, .893, 1.34, 1.787, 2.233, 3.073]},
+  0x20EE: {dir: H, sizes: [.436, .893, 1.34, 1.787, 2.233, 3.073], stretch: [0x100004, 0x100005, 0], HDW: [-0.022, .285, 0], min: .893},
+  0x20EF: {dir: H, sizes: [.436, .893, 1.34, 1.787, 2.233, 3.073], stretch: [0, 0x100005, 0x100006], HDW: [-0.022, .285, 0], min: .893},
+  0x2140: {dir: V, sizes: [1.047, 1.486]},
+  0x2190: {dir: H, sizes: [.948], stretch: [0x100007, 0x100008, 0], HDW: [.46, -0.058, .948], min: .506},
+  0x2191: {dir: V, sizes: [.839], stretch: [0x2191, 0x100009, 0], HDW: [.678, .16, .523], min: .839},
+  0x2192: {dir: H, sizes: [.948], stretch: [0, 0x100008, 0x10000A], HDW: [.46, -0.058, .948], min: .505},
+  0x2193: {dir: V, sizes: [.839], stretch: [0, 0x100009, 0x2193], HDW: [.678, .16, .523], min: .839},
+  0x2194: {dir: H, sizes: [.948], stretch: [0x100007, 0x100008, 0x10000A], HDW: [.46, -0.058, .948], min: .911},
+  0x2195: {dir: V, sizes: [.978], stretch: [0x2191, 0x100009, 0x2193], HDW: [.747, .23, .523], min: 1.578},
+  0x21A4: {dir: H, sizes: [.948], stretch: [0x100007, 0x100008, 0x10000B], HDW: [.461, -0.058, .948], min: .978},
+  0x21A6: {dir: H, sizes: [.948], stretch: [0x10000C, 0x100008, 0x10000A], HDW: [.461, -0.058, .948], min: .978},
+  0x21A9: {dir: H, sizes: [.948], stretch: [0x100007, 0x100008, 0x10000D], HDW: [.566, -0.058, .948], min: 1.063},
+  0x21AA: {dir: H, sizes: [.948], stretch: [0x10000E, 0x100008, 0x10000A], HDW: [.566, -0.058, .948], min: 1.063},
+  0x21BC: {dir: H, sizes: [.978], stretch: [0x10000F, 0x100008, 0], HDW: [.506, -0.225, .978], min: .923},
+  0x21BD: {dir: H, sizes: [.978], stretch: [0x100010, 0x100008, 0], HDW: [.293, -0.012, .978], min: .923},
+  0x21C0: {dir: H, sizes: [.978], stretch: [0, 0x100008, 0x100011], HDW: [.506, -0.225, .978], min: .923},
+  0x21C1: {dir: H, sizes: [.978], stretch: [0, 0x100008, 0x100012], HDW: [.293, -0.012, .978], min: .923},
+  0x21D0: {dir: H, sizes: [.888], stretch: [0x21D0, 0x100013, 0x100014], HDW: [.564, .046, .887], min: 1.171},
+  0x21D1: {dir: V, sizes: [.839], stretch: [0x21D1, 0x100015, 0], HDW: [.678, .16, .72], min: .839},
+  0x21D2: {dir: H, sizes: [.887], stretch: [0x100016, 0x100013, 0x21D2], HDW: [.564, .046, .887], min: 1.171},
+  0x21D3: {dir: V, sizes: [.839], stretch: [0, 0x100015, 0x21D3], HDW: [.678, .16, .72], min: .839},
+  0x21D4: {dir: H, sizes: [.948], stretch: [0x21D0, 0x100013, 0x21D2], HDW: [.564, .046, .948], min: 1.675},
+  0x21D5: {dir: V, sizes: [.978], stretch: [0x21D1, 0x100015, 0x21D3], HDW: [.747, .23, .72], min: 1.578},
+  0x21DA: {dir: H, sizes: [.873], stretch: [0x21DA, 0x100017, 0], HDW: [.659, .143, .872], min: .873},
+  0x21DB: {dir: H, sizes: [.872], stretch: [0, 0x100017, 0x21DB], HDW: [.66, .142, .872], min: .872},
+  0x220F: {dir: V, sizes: [1.031, 1.331]},
+  0x2210: {dir: V, sizes: [1.031, 1.331]},
+  0x2211: {dir: V, sizes: [1.031, 1.326]},
+  0x221A: {dir: V, sizes: [1.188, 1.855, 2.371, 2.892], stretch: [0x100018, 0x100019, 0x10001A], HDW: [.922, .265, 1.212], min: 2.447},
+  0x221B: {dir: V, sizes: [1.203, 1.855, 2.371, 2.892], stretch: [0x100018, 0x100019, 0x10001B], HDW: [.937, .265, 1.212], min: 2.743},
+  0x221C: {dir: V, sizes: [1.2, 1.855, 2.371, 2.892], stretch: [0x100018, 0x100019, 0x10001C], HDW: [.934, .265, 1.212], min: 2.741},
+  0x2223: {dir: V, sizes: [.901], stretch: [0, 0x2223, 0x2223], HDW: [.706, .194, .272], min: .901},
+  0x2225: {dir: V, sizes: [.901], stretch: [0x2225, 0x2225, 0], HDW: [.706, .194, .535], min: .901},
+  0x222B: {dir: V, sizes: [.954, 2.347], stretch: [0x2320, 0x10001D, 0x2321], HDW: [.727, .226, .767], min: 3.426},
+  0x222C: {dir: V, sizes: [.954, 2.347]},
+  0x222D: {dir: V, sizes: [.954, 2.347]},
+  0x222E: {dir: V, sizes: [.954, 2.347]},
+  0x222F: {dir: V, sizes: [.954, 2.347]},
+  0x2230: {dir: V, sizes: [.954, 2.347]},
+  0x2231: {dir: V, sizes: [.954, 2.347]},
+  0x2232: {dir: V, sizes: [.954, 2.347]},
+  0x2233: {dir: V, sizes: [.954, 2.347]},
+  0x22C0: {dir: V, sizes: [1.047, 1.487]},
+  0x22C1: {dir: V, sizes: [1.047, 1.487]},
+  0x22C2: {dir: V, sizes: [1.057, 1.497]},
+  0x22C3: {dir: V, sizes: [1.058, 1.497]},
+  0x2308: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822], stretch: [0x23A1, 0x23A2, 0], HDW: [.736, .19, .585], min: 1.275},
+  0x2309: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822], stretch: [0x23A4, 0x23A5, 0], HDW: [.736, .19, .585], min: 1.275},
+  0x230A: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822], stretch: [0, 0x23A2, 0x23A3], HDW: [.736, .19, .585], min: 1.275},
+  0x230B: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822], stretch: [0, 0x23A5, 0x23A6], HDW: [.736, .19, .585], min: 1.275},
+  0x23B0: {dir: V, sizes: [1.026], stretch: [0x23A7, 0x23AA, 0x23AD], HDW: [.717, .308, .6], min: 2.45},
+  0x23B1: {dir: V, sizes: [1.026], stretch: [0x23AB, 0x23AA, 0x23A9], HDW: [.717, .308, .6], min: 2.45},
+  0x23B4: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x10001E, 0x10001F, 0x100020], HDW: [.876, -0.634, .63], min: 1.402},
+  0x23B5: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x100021, 0x100022, 0x100023], HDW: [-0.104, .346, .63], min: 1.402},
+  0x23DC: {dir: H, sizes: [.633, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x100024, 0x10001F, 0x100025], HDW: [.876, -0.542, .632], min: 1.814},
+  0x23DD: {dir: H, sizes: [.633, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x100026, 0x100022, 0x100027], HDW: [-0.012, .346, .632], min: 1.814},
+  0x23DE: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x100028, 0x10001F, 0x100029, 0x10002A], HDW: [.97, -0.542, .63], min: 2.657},
+  0x23DF: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601], stretch: [0x10002B, 0x100022, 0x10002C, 0x10002D], HDW: [-0.012, .44, .63], min: 2.657},
+  0x23E0: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601]},
+  0x23E1: {dir: H, sizes: [.631, 1.001, 1.501, 1.771, 2.181, 2.601]},
+  0x2772: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822]},
+  0x2773: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822]},
+  0x27E6: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822]},
+  0x27E7: {dir: V, sizes: [.927, 1.182, 1.422, 1.663, 1.903, 2.142, 2.383, 2.623, 2.864, 3.101, 3.341, 3.582, 3.822]},
+  0x27E8: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.147, 2.387, 2.627, 2.867, 3.103, 3.343, 3.583, 3.823]},
+  0x27E9: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.147, 2.387, 2.627, 2.867, 3.103, 3.343, 3.583, 3.823]},
+  0x27EA: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.147, 2.387, 2.627, 2.867, 3.103, 3.343, 3.583, 3.823]},
+  0x27EB: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.147, 2.387, 2.627, 2.867, 3.103, 3.343, 3.583, 3.823]},
+  0x27F0: {dir: V, sizes: [.839], stretch: [0x27F0, 0x10002E, 0], HDW: [.678, .16, 1.058], min: .839},
+  0x27F1: {dir: V, sizes: [.839], stretch: [0, 0x10002E, 0x27F1], HDW: [.678, .16, 1.058], min: .839},
+  0x290A: {dir: V, sizes: [.839], stretch: [0x290A, 0x10002F, 0], HDW: [.678, .16, .948], min: .839},
+  0x290B: {dir: V, sizes: [.839], stretch: [0, 0x10002F, 0x290B], HDW: [.678, .16, .948], min: .839},
+  0x294E: {dir: H, sizes: [.948], stretch: [0x10000F, 0x100008, 0x100011], HDW: [.506, -0.225, .948], min: 1.746},
+  0x2950: {dir: H, sizes: [.948], stretch: [0x100010, 0x100008, 0x100012], HDW: [.293, -0.012, .948], min: 1.746},
+  0x295A: {dir: H, sizes: [.948], stretch: [0x10000F, 0x100008, 0x10000B], HDW: [.506, -0.058, .948], min: 1.395},
+  0x295B: {dir: H, sizes: [.948], stretch: [0x10000C, 0x100008, 0x100011], HDW: [.506, -0.058, .948], min: 1.396},
+  0x295E: {dir: H, sizes: [.948], stretch: [0x100010, 0x100008, 0x10000B], HDW: [.461, -0.012, .948], min: 1.395},
+  0x295F: {dir: H, sizes: [.948], stretch: [0x10000C, 0x100008, 0x100012], HDW: [.461, -0.012, .948], min: 1.396},
+  0x2983: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822]},
+  0x2984: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822]},
+  0x2985: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822]},
+  0x2986: {dir: V, sizes: [.933, 1.187, 1.427, 1.667, 1.907, 2.146, 2.386, 2.626, 2.866, 3.102, 3.342, 3.582, 3.822]},
+  0x2A00: {dir: V, sizes: [1.047, 1.457]},
+  0x2A01: {dir: V, sizes: [1.047, 1.457]},
+  0x2A02: {dir: V, sizes: [1.047, 1.457]},
+  0x2A03: {dir: V, sizes: [1.058, 1.497]},
+  0x2A04: {dir: V, sizes: [1.058, 1.497]},
+  0x2A05: {dir: V, sizes: [1.047, 1.487]},
+  0x2A06: {dir: V, sizes: [1.047, 1.487]},
+  0x2A07: {dir: V, sizes: [1.047, 1.487]},
+  0x2A08: {dir: V, sizes: [1.047, 1.487]},
+  0x2A09: {dir: V, sizes: [1.047, 1.487]},
+  0x2A0A: {dir: V, sizes: [1.031, 1.326]},
+  0x2A0B: {dir: V, sizes: [1.65, 2.116]},
+  0x2A0C: {dir: V, sizes: [.954, 2.347]},
+  0x2A0D: {dir: V, sizes: [.954, 2.347]},
+  0x2A0E: {dir: V, sizes: [.954, 2.347]},
+  0x2A0F: {dir: V, sizes: [.954, 2.347]},
+  0x2A10: {dir: V, sizes: [.954, 2.347]},
+  0x2A11: {dir: V, sizes: [.954, 2.347]},
+  0x2A12: {dir: V, sizes: [.954, 2.347]},
+  0x2A13: {dir: V, sizes: [.954, 2.347]},
+  0x2A14: {dir: V, sizes: [.954, 2.347]},
+  0x2A15: {dir: V, sizes: [.954, 2.347]},
+  0x2A16: {dir: V, sizes: [.954, 2.347]},
+  0x2A17: {dir: V, sizes: [.954, 2.347]},
+  0x2A18: {dir: V, sizes: [.954, 2.347]},
+  0x2A19: {dir: V, sizes: [.954, 2.347]},
+  0x2A1A: {dir: V, sizes: [.954, 2.347]},
+  0x2A1B: {dir: V, sizes: [1.076, 2.5]},
+  0x2A1C: {dir: V, sizes: [1.075, 2.498]},
+  0x2AFC: {dir: V, sizes: [.901, 1.16, 1.404], stretch: [0x2AFC, 0x2AFC, 0], HDW: [.706, .194, .665], min: .901},
+  0x2AFF: {dir: V, sizes: [.927, 1.161, 1.405]},
+};
@@ -0,0 +1,60 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const largeop: CharMap<CharOptions> = {
+    0x220F: [.919, .411, 1.417],
+    0x2210: [.919, .411, 1.417],
+    0x2211: [.919, .406, 1.112],
+    0x222B: [1.429, .917, 1.032, {ic: .54}],
+    0x222C: [1.429, .917, 1.489, {ic: .54}],
+    0x222D: [1.429, .917, 1.946, {ic: .54}],
+    0x222E: [1.429, .917, 1.007, {ic: .54}],
+    0x222F: [1.429, .917, 1.45, {ic: .54}],
+    0x2230: [1.429, .917, 1.907, {ic: .54}],
+    0x2231: [1.428, .918, .989, {ic: .54}],
+    0x2232: [1.429, .917, 1.102, {ic: .54}],
+    0x2233: [1.429, .917, 1.159, {ic: .54}],
+    0x22C0: [1.536, -0.05, 1.295],
+    0x22C1: [1.536, -0.05, 1.295],
+    0x22C2: [1.546, -0.05, 1.295],
+    0x22C3: [1.536, -0.04, 1.295],
+    0x2A00: [1.521, -0.065, 1.592],
+    0x2A01: [1.521, -0.065, 1.592],
+    0x2A02: [1.521, -0.065, 1.592],
+    0x2A03: [1.536, -0.04, 1.295],
+    0x2A04: [1.536, -0.04, 1.295],
+    0x2A05: [1.536, -0.05, 1.18],
+    0x2A06: [1.536, -0.05, 1.18],
+    0x2A07: [1.536, -0.05, 1.566],
+    0x2A08: [1.536, -0.05, 1.566],
+    0x2A09: [1.536, -0.05, 1.517],
+    0x2A0A: [.919, .406, 1.112],
+    0x2A0B: [1.313, .802, 1.112],
+    0x2A0C: [1.429, .917, 2.363, {ic: .54}],
+    0x2A0D: [1.429, .917, 1.032, {ic: .54}],
+    0x2A0E: [1.429, .917, 1.032, {ic: .54}],
+    0x2A0F: [1.429, .917, 1.032, {ic: .54}],
+    0x2A10: [1.429, .917, 1.032, {ic: .54}],
+    0x2A11: [1.429, .917, 1.032, {ic: .54}],
+    0x2A12: [1.429, .917, 1.032, {ic: .54}],
+    0x2A13: [1.429, .917, 1.032, {ic: .54}],
+    0x2A14: [1.429, .917, 1.032, {ic: .54}],
+    0x2A15: [1.429, .917, 1.032, {ic: .54}],
+    0x2A16: [1.429, .917, 1.032, {ic: .54}],
+    0x2A17: [1.429, .917, 1.1, {ic: .54}],
+    0x2A18: [1.429, .917, 1.032, {ic: .54}],
+    0x2A19: [1.429, .917, 1.032, {ic: .54}],
+    0x2A1A: [1.429, .917, 1.032, {ic: .54}],
+    0x2A1B: [1.582, .917, 1.032, {ic: .54}],
+    0x2A1C: [1.429, 1.068, 1.032, {ic: .54}],
+    0x2AFC: [.974, .429, .665],
+    0x2AFF: [.975, .429, .461],
+};
@@ -0,0 +1,4618 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const normal: CharMap<CharOptions> = {
+    0x20: [0, 0, .235],
+    0x21: [.669, .008, .283],
+    0x22: [.706, -0.504, .334],
+    0x23: [.657, .023, .702],
+    0x24: [.705, .093, .495],
+    0x25: [.666, .021, .692],
+    0x26: [.662, .014, .736],
+    0x27: [.706, -0.505, .187],
+    0x28: [.736, .196, .357],
+    0x29: [.736, .196, .357],
+    0x2A: [.689, -0.315, .41],
+    0x2B: [.558, .04, .72],
+    0x2C: [.121, .132, .245],
+    0x2D: [.283, -0.218, .315],
+    0x2E: [.114, .008, .245],
+    0x2F: [.709, .089, .386],
+    0x30: [.642, .011, .495, {sk: .003}],
+    0x31: [.639, 0, .495, {sk: -0.007}],
+    0x32: [.644, 0, .495, {sk: -0.002}],
+    0x33: [.644, .013, .495, {sk: -0.007}],
+    0x34: [.645, 0, .495, {sk: .013}],
+    0x35: [.63, .013, .495, {sk: .043}],
+    0x36: [.646, .012, .495, {sk: .013}],
+    0x37: [.63, .008, .495, {sk: .028}],
+    0x38: [.647, .012, .495, {sk: .003}],
+    0x39: [.646, .013, .495, {sk: -0.002}],
+    0x3A: [.478, .008, .245],
+    0x3B: [.478, .132, .245],
+    0x3C: [.547, .025, .72],
+    0x3D: [.395, -0.123, .72],
+    0x3E: [.547, .025, .72],
+    0x3F: [.669, .008, .411],
+    0x40: [.626, .186, .905],
+    0x41: [.662, 0, .718, {sk: .001}],
+    0x42: [.657, 0, .618, {sk: .001}],
+    0x43: [.669, .011, .67, {sk: .045}],
+    0x44: [.657, 0, .73, {sk: -0.015}],
+    0x45: [.657, 0, .626, {sk: .017}],
+    0x46: [.657, 0, .588, {sk: .041}],
+    0x47: [.669, .011, .72, {sk: .02}],
+    0x48: [.657, 0, .777, {sk: .012}],
+    0x49: [.657, 0, .357, {sk: .007}],
+    0x4A: [.657, .012, .396, {sk: .042}],
+    0x4B: [.657, 0, .702, {sk: .019}],
+    0x4C: [.657, 0, .585, {sk: -0.102}],
+    0x4D: [.657, 0, .895, {sk: -0.007}],
+    0x4E: [.657, .008, .742, {sk: .009}],
+    0x4F: [.669, .012, .738, {sk: .001}],
+    0x50: [.657, 0, .569, {sk: .016}],
+    0x51: [.669, .173, .737, {sk: .002}],
+    0x52: [.657, 0, .659, {sk: -0.019}],
+    0x53: [.669, .015, .504, {sk: .008}],
+    0x54: [.657, 0, .603, {sk: -0.001}],
+    0x55: [.657, .012, .752, {sk: .024}],
+    0x56: [.657, .005, .68, {sk: .03}],
+    0x57: [.657, .006, .944, {sk: -0.002}],
+    0x58: [.657, 0, .664, {sk: .018}],
+    0x59: [.657, 0, .647, {sk: .027}],
+    0x5A: [.657, 0, .594, {sk: .013}],
+    0x5B: [.736, .196, .349],
+    0x5C: [.709, .089, .385],
+    0x5D: [.736, .196, .349],
+    0x5E: [.673, -0.309, .48],
+    0x5F: [-0.077, .128, .512],
+    0x60: [.674, -0.521, .222],
+    0x61: [.485, .007, .48, {sk: -0.01}],
+    0x62: [.706, .01, .522, {sk: -0.001}],
+    0x63: [.485, .01, .446, {sk: .027}],
+    0x64: [.706, .008, .539, {sk: .011}],
+    0x65: [.485, .01, .464, {sk: .008}],
+    0x66: [.713, 0, .307, {sk: .097}],
+    0x67: [.485, .235, .484, {sk: .008}],
+    0x68: [.706, 0, .577, {sk: -0.008}],
+    0x69: [.673, 0, .285, {sk: .003}],
+    0x6A: [.673, .235, .263, {sk: .009}],
+    0x6B: [.706, 0, .542, {sk: .009}],
+    0x6C: [.706, 0, .283, {sk: -0.001}],
+    0x6D: [.485, 0, .852, {sk: .004}],
+    0x6E: [.485, 0, .576, {sk: .002}],
+    0x6F: [.485, .01, .514, {sk: .003}],
+    0x70: [.485, .22, .537, {sk: .012}],
+    0x71: [.485, .22, .521, {sk: .01}],
+    0x72: [.488, 0, .38, {sk: .03}],
+    0x73: [.485, .011, .395, {sk: .008}],
+    0x74: [.61, .01, .315, {sk: .018}],
+    0x75: [.478, .01, .57, {sk: -0.005}],
+    0x76: [.473, .006, .481, {sk: .02}],
+    0x77: [.473, .006, .749, {sk: .006}],
+    0x78: [.473, 0, .479, {sk: .011}],
+    0x79: [.473, .235, .483, {sk: .019}],
+    0x7A: [.473, 0, .458, {sk: .011}],
+    0x7B: [.736, .197, .327],
+    0x7C: [.706, .22, .267],
+    0x7D: [.736, .197, .327],
+    0x7E: [.336, -0.181, .557],
+    0xA0: [0, 0, .235],
+    0xA1: [.482, .196, .282],
+    0xA2: [.657, .025, .495],
+    0xA3: [.644, .008, .495],
+    0xA4: [.537, 0, .617],
+    0xA5: [.63, 0, .495],
+    0xA6: [.679, .038, .267],
+    0xA7: [.652, .203, .491],
+    0xA8: [.672, -0.56, .392],
+    0xA9: [.676, .014, .781],
+    0xAA: [.643, -0.246, .41],
+    0xAB: [.442, -0.034, .517],
+    0xAC: [.416, -0.083, .72],
+    0xAD: [.283, -0.218, .315],
+    0xAE: [.722, -0.372, .413],
+    0xAF: [.61, -0.555, .35],
+    0xB0: [.698, -0.393, .409],
+    0xB1: [.576, .031, .72],
+    0xB2: [.738, -0.252, .373],
+    0xB3: [.738, -0.244, .374],
+    0xB4: [.674, -0.521, .222],
+    0xB5: [.472, .217, .556, {sk: -0.008}],
+    0xB6: [.657, .148, .605],
+    0xB7: [.317, -0.198, .282],
+    0xB8: [.004, .215, .247],
+    0xB9: [.735, -0.252, .343],
+    0xBA: [.643, -0.243, .432],
+    0xBB: [.442, -0.034, .517],
+    0xBC: [.692, .02, .861],
+    0xBD: [.692, .02, .889],
+    0xBE: [.692, .02, .861],
+    0xBF: [.482, .196, .411],
+    0xC0: [.826, 0, .718],
+    0xC1: [.826, 0, .718],
+    0xC2: [.836, 0, .718],
+    0xC3: [.816, 0, .718],
+    0xC4: [.816, 0, .718],
+    0xC5: [.889, 0, .718],
+    0xC6: [.657, 0, .894],
+    0xC7: [.669, .215, .67],
+    0xC8: [.826, 0, .626],
+    0xC9: [.826, 0, .626],
+    0xCA: [.836, 0, .626],
+    0xCB: [.816, 0, .626],
+    0xCC: [.826, 0, .357],
+    0xCD: [.826, 0, .357],
+    0xCE: [.836, 0, .357],
+    0xCF: [.816, 0, .357],
+    0xD0: [.657, 0, .737],
+    0xD1: [.816, .008, .742],
+    0xD2: [.826, .012, .738],
+    0xD3: [.826, .012, .738],
+    0xD4: [.836, .012, .738],
+    0xD5: [.816, .012, .738],
+    0xD6: [.816, .012, .738],
+    0xD7: [.541, .026, .72],
+    0xD8: [.675, .02, .737],
+    0xD9: [.826, .012, .752],
+    0xDA: [.826, .012, .752],
+    0xDB: [.836, .012, .752],
+    0xDC: [.816, .012, .752],
+    0xDD: [.826, 0, .647],
+    0xDE: [.657, 0, .572],
+    0xDF: [.713, .006, .563],
+    0xE0: [.674, .007, .48],
+    0xE1: [.674, .007, .48],
+    0xE2: [.674, .007, .48],
+    0xE3: [.642, .007, .48],
+    0xE4: [.672, .007, .48],
+    0xE5: [.729, .007, .48],
+    0xE6: [.485, .01, .709],
+    0xE7: [.485, .215, .446],
+    0xE8: [.674, .01, .464],
+    0xE9: [.674, .01, .464],
+    0xEA: [.674, .01, .464],
+    0xEB: [.672, .01, .464],
+    0xEC: [.674, 0, .285],
+    0xED: [.674, 0, .285],
+    0xEE: [.674, 0, .285],
+    0xEF: [.672, 0, .285],
+    0xF0: [.713, .01, .532],
+    0xF1: [.642, 0, .576],
+    0xF2: [.674, .01, .514],
+    0xF3: [.674, .01, .514],
+    0xF4: [.674, .01, .514],
+    0xF5: [.642, .01, .514],
+    0xF6: [.672, .01, .514],
+    0xF7: [.528, .01, .72],
+    0xF8: [.494, .016, .514],
+    0xF9: [.674, .01, .57],
+    0xFA: [.674, .01, .57],
+    0xFB: [.674, .01, .57],
+    0xFC: [.672, .01, .57],
+    0xFD: [.674, .235, .483],
+    0xFE: [.706, .22, .524],
+    0xFF: [.672, .235, .483],
+    0x100: [.779, 0, .718],
+    0x101: [.61, .007, .48],
+    0x102: [.865, 0, .718],
+    0x103: [.683, .007, .48],
+    0x104: [.662, .216, .719],
+    0x105: [.485, .216, .48],
+    0x106: [.826, .011, .67],
+    0x107: [.674, .01, .446],
+    0x108: [.836, .011, .67],
+    0x109: [.674, .01, .446],
+    0x10A: [.817, .011, .67],
+    0x10B: [.673, .01, .446],
+    0x10C: [.836, .011, .67],
+    0x10D: [.678, .01, .446],
+    0x10E: [.836, 0, .73],
+    0x10F: [.706, .008, .626],
+    0x110: [.657, 0, .733],
+    0x111: [.706, .008, .54],
+    0x112: [.779, 0, .626],
+    0x113: [.61, .01, .464],
+    0x114: [.865, 0, .626],
+    0x115: [.683, .01, .464],
+    0x116: [.817, 0, .626],
+    0x117: [.673, .01, .464],
+    0x118: [.657, .216, .625],
+    0x119: [.485, .216, .464],
+    0x11A: [.836, 0, .626],
+    0x11B: [.678, .01, .464],
+    0x11C: [.836, .011, .72],
+    0x11D: [.674, .235, .484],
+    0x11E: [.865, .011, .72],
+    0x11F: [.683, .235, .484],
+    0x120: [.817, .011, .72],
+    0x121: [.673, .235, .484],
+    0x122: [.669, .277, .72],
+    0x123: [.748, .235, .484],
+    0x124: [.836, 0, .777],
+    0x125: [.868, 0, .577],
+    0x126: [.657, 0, .788],
+    0x127: [.706, 0, .579],
+    0x128: [.816, 0, .357],
+    0x129: [.642, 0, .285],
+    0x12A: [.779, 0, .357],
+    0x12B: [.61, 0, .285],
+    0x12C: [.865, 0, .357],
+    0x12D: [.683, 0, .285],
+    0x12E: [.657, .216, .357],
+    0x12F: [.693, .216, .285],
+    0x130: [.817, 0, .357],
+    0x131: [.482, 0, .285, {sk: -0.002}],
+    0x132: [.657, .012, .753],
+    0x133: [.673, .235, .548],
+    0x134: [.836, .012, .396],
+    0x135: [.674, .235, .263],
+    0x136: [.657, .277, .702],
+    0x137: [.706, .277, .542],
+    0x138: [.479, 0, .542],
+    0x139: [.826, 0, .585],
+    0x13A: [.862, 0, .283],
+    0x13B: [.657, .277, .585],
+    0x13C: [.706, .277, .283],
+    0x13D: [.657, 0, .585],
+    0x13E: [.706, 0, .366],
+    0x13F: [.657, 0, .605],
+    0x140: [.706, 0, .357],
+    0x141: [.657, 0, .59],
+    0x142: [.706, 0, .29],
+    0x143: [.826, .008, .742],
+    0x144: [.674, 0, .576],
+    0x145: [.657, .277, .742],
+    0x146: [.485, .277, .576],
+    0x147: [.836, .008, .742],
+    0x148: [.678, 0, .576],
+    0x149: [.706, 0, .576],
+    0x14A: [.657, .235, .742],
+    0x14B: [.485, .235, .559],
+    0x14C: [.779, .012, .738],
+    0x14D: [.61, .01, .514],
+    0x14E: [.865, .012, .738],
+    0x14F: [.683, .01, .514],
+    0x150: [.826, .012, .738],
+    0x151: [.674, .01, .514],
+    0x152: [.669, .012, .945],
+    0x153: [.485, .01, .807],
+    0x154: [.826, 0, .659],
+    0x155: [.674, 0, .38],
+    0x156: [.657, .277, .659],
+    0x157: [.488, .277, .38],
+    0x158: [.836, 0, .659],
+    0x159: [.678, 0, .38],
+    0x15A: [.826, .015, .504],
+    0x15B: [.674, .011, .394],
+    0x15C: [.836, .015, .504],
+    0x15D: [.674, .011, .394],
+    0x15E: [.669, .215, .504],
+    0x15F: [.485, .215, .394],
+    0x160: [.836, .015, .504],
+    0x161: [.678, .011, .394],
+    0x162: [.657, .215, .603],
+    0x163: [.61, .215, .315],
+    0x164: [.836, 0, .603],
+    0x165: [.697, .01, .353],
+    0x166: [.657, 0, .603],
+    0x167: [.61, .01, .328],
+    0x168: [.816, .012, .752],
+    0x169: [.642, .01, .57],
+    0x16A: [.779, .012, .752],
+    0x16B: [.61, .01, .57],
+    0x16C: [.865, .012, .752],
+    0x16D: [.683, .01, .57],
+    0x16E: [.889, .012, .752],
+    0x16F: [.729, .01, .57],
+    0x170: [.826, .012, .752],
+    0x171: [.674, .01, .57],
+    0x172: [.657, .216, .753],
+    0x173: [.478, .216, .57],
+    0x174: [.836, .006, .944],
+    0x175: [.674, .006, .749],
+    0x176: [.836, 0, .647],
+    0x177: [.674, .235, .483],
+    0x178: [.816, 0, .647],
+    0x179: [.826, 0, .594],
+    0x17A: [.674, 0, .458],
+    0x17B: [.817, 0, .594],
+    0x17C: [.673, 0, .458],
+    0x17D: [.836, 0, .594],
+    0x17E: [.678, 0, .458],
+    0x17F: [.713, 0, .285],
+    0x180: [.706, .01, .522],
+    0x188: [.666, .01, .446],
+    0x190: [.665, .011, .518],
+    0x192: [.713, .235, .301],
+    0x195: [.706, .01, .798],
+    0x199: [.713, 0, .538],
+    0x19A: [.706, 0, .287],
+    0x19B: [.694, 0, .495],
+    0x19E: [.485, .22, .559],
+    0x1A0: [.798, .012, .737],
+    0x1A1: [.628, .01, .516],
+    0x1A5: [.713, .22, .522],
+    0x1AA: [.712, .235, .298],
+    0x1AB: [.61, .235, .321],
+    0x1AD: [.713, .01, .315],
+    0x1AF: [.83, .012, .762],
+    0x1B0: [.628, .01, .574],
+    0x1B5: [.657, 0, .594],
+    0x1BA: [.473, .235, .43],
+    0x1BB: [.7, 0, .508],
+    0x1BE: [.61, .011, .406],
+    0x1C0: [.706, 0, .25],
+    0x1C1: [.706, 0, .423],
+    0x1C2: [.706, 0, .422],
+    0x1C3: [.704, .008, .245],
+    0x1DE: [.899, 0, .718],
+    0x1DF: [.77, .007, .48],
+    0x1F0: [.678, .235, .263],
+    0x1FA: [1.026, 0, .718],
+    0x1FB: [.866, .007, .48],
+    0x1FC: [.826, 0, .894],
+    0x1FD: [.674, .01, .709],
+    0x1FE: [.826, .02, .737],
+    0x1FF: [.674, .016, .514],
+    0x218: [.669, .277, .504],
+    0x219: [.485, .277, .394],
+    0x21A: [.657, .277, .603],
+    0x21B: [.61, .277, .315],
+    0x221: [.706, .154, .674],
+    0x228: [.657, .215, .626],
+    0x229: [.485, .215, .464],
+    0x234: [.706, .154, .399],
+    0x235: [.485, .156, .702],
+    0x236: [.61, .156, .406],
+    0x237: [.482, .235, .263, {sk: -0.001}],
+    0x250: [.485, .007, .475],
+    0x251: [.485, .008, .542],
+    0x252: [.483, .01, .544],
+    0x253: [.713, .01, .518],
+    0x254: [.485, .01, .454],
+    0x255: [.485, .125, .447],
+    0x256: [.706, .235, .528],
+    0x257: [.713, .008, .542],
+    0x258: [.485, .01, .466],
+    0x259: [.485, .01, .464],
+    0x25A: [.485, .01, .642],
+    0x25B: [.486, .011, .399],
+    0x25C: [.486, .01, .398],
+    0x25D: [.486, .01, .575],
+    0x25E: [.486, .011, .5],
+    0x25F: [.482, .235, .272],
+    0x260: [.713, .235, .541],
+    0x261: [.485, .235, .521],
+    0x262: [.484, .009, .535],
+    0x263: [.473, .227, .479],
+    0x264: [.478, .012, .466],
+    0x265: [.482, .22, .553],
+    0x266: [.713, 0, .577],
+    0x267: [.713, .235, .562],
+    0x268: [.693, 0, .295],
+    0x269: [.482, .01, .286],
+    0x26A: [.473, 0, .287],
+    0x26B: [.706, 0, .29],
+    0x26C: [.706, 0, .318],
+    0x26D: [.706, .235, .248],
+    0x26E: [.706, .235, .59],
+    0x26F: [.482, .012, .846],
+    0x270: [.482, .22, .826],
+    0x271: [.485, .235, .835],
+    0x272: [.485, .235, .574],
+    0x273: [.485, .235, .563],
+    0x274: [.473, .007, .568],
+    0x275: [.485, .01, .514],
+    0x276: [.483, .008, .732],
+    0x277: [.486, .01, .672],
+    0x278: [.706, .22, .658],
+    0x279: [.473, .012, .38],
+    0x27A: [.706, .012, .374],
+    0x27B: [.473, .235, .375],
+    0x27C: [.488, .22, .378],
+    0x27D: [.488, .235, .373],
+    0x27E: [.481, 0, .371],
+    0x27F: [.481, 0, .371],
+    0x280: [.473, 0, .494],
+    0x281: [.473, 0, .494],
+    0x282: [.485, .235, .395],
+    0x283: [.713, .235, .253],
+    0x284: [.699, .235, .286],
+    0x285: [.483, .235, .361],
+    0x286: [.713, .235, .253],
+    0x287: [.483, .137, .315],
+    0x288: [.61, .235, .309],
+    0x289: [.478, .01, .58],
+    0x28A: [.473, .013, .548],
+    0x28B: [.483, .01, .53],
+    0x28C: [.479, 0, .495],
+    0x28D: [.479, 0, .764],
+    0x28E: [.709, 0, .492],
+    0x28F: [.473, 0, .454],
+    0x290: [.473, .235, .458],
+    0x291: [.473, .156, .458],
+    0x292: [.473, .235, .443],
+    0x293: [.473, .373, .443],
+    0x294: [.713, 0, .383],
+    0x295: [.712, 0, .383],
+    0x296: [.706, .013, .408],
+    0x297: [.485, .185, .437],
+    0x298: [.701, .012, .736],
+    0x299: [.473, 0, .485],
+    0x29A: [.486, .011, .5],
+    0x29B: [.666, .009, .536],
+    0x29C: [.473, 0, .599],
+    0x29D: [.673, .235, .263],
+    0x29E: [.473, .22, .542],
+    0x29F: [.473, 0, .44],
+    0x2A0: [.713, .22, .541],
+    0x2A1: [.713, 0, .393],
+    0x2A2: [.712, 0, .393],
+    0x2A3: [.706, .008, .83],
+    0x2A4: [.706, .235, .838],
+    0x2A5: [.706, .156, .829],
+    0x2A6: [.61, .012, .614],
+    0x2A7: [.713, .235, .513],
+    0x2A8: [.61, .01, .687],
+    0x2A9: [.713, .235, .866],
+    0x2AA: [.706, .012, .595],
+    0x2AB: [.706, 0, .58],
+    0x2AC: [.706, .009, .599],
+    0x2AD: [.657, .006, .479],
+    0x2AE: [.484, .22, .595],
+    0x2AF: [.484, .235, .6],
+    0x2B0: [.804, -0.252, .488],
+    0x2B1: [.835, -0.252, .488],
+    0x2B2: [.803, -0.064, .222],
+    0x2B3: [.646, -0.252, .325],
+    0x2B4: [.633, -0.239, .325],
+    0x2B5: [.633, -0.124, .325],
+    0x2B6: [.633, -0.252, .443],
+    0x2B7: [.633, -0.247, .653],
+    0x2B8: [.633, -0.082, .427],
+    0x2B9: [.703, -0.399, .296],
+    0x2BA: [.703, -0.399, .456],
+    0x2BB: [.71, -0.46, .245],
+    0x2BC: [.71, -0.459, .244],
+    0x2BD: [.71, -0.459, .244],
+    0x2BE: [.702, -0.49, .203],
+    0x2BF: [.702, -0.49, .203],
+    0x2C0: [.714, -0.362, .364],
+    0x2C1: [.714, -0.362, .364],
+    0x2C2: [.766, -0.436, .324],
+    0x2C3: [.766, -0.436, .324],
+    0x2C4: [.726, -0.476, .324],
+    0x2C5: [.726, -0.476, .324],
+    0x2C6: [.674, -0.521, .342],
+    0x2C7: [.678, -0.525, .342],
+    0x2C8: [.73, -0.459, .284],
+    0x2C9: [.61, -0.555, .35],
+    0x2CA: [.674, -0.521, .222],
+    0x2CB: [.674, -0.521, .222],
+    0x2CC: [.071, .2, .284],
+    0x2CD: [-0.107, .163, .342],
+    0x2CE: [-0.036, .189, .222],
+    0x2CF: [-0.036, .189, .223],
+    0x2D0: [.471, -0.019, .341],
+    0x2D1: [.471, -0.306, .341],
+    0x2D2: [.374, -0.077, .341],
+    0x2D3: [.374, -0.077, .341],
+    0x2D4: [.354, -0.162, .341],
+    0x2D5: [.354, -0.162, .341],
+    0x2D6: [.357, -0.16, .341],
+    0x2D7: [.277, -0.24, .341],
+    0x2D8: [.683, -0.529, .353],
+    0x2D9: [.673, -0.56, .194],
+    0x2DA: [.729, -0.53, .265],
+    0x2DB: [.004, .216, .277],
+    0x2DC: [.642, -0.533, .381],
+    0x2DD: [.674, -0.521, .35],
+    0x2DE: [.358, -0.213, .205],
+    0x2DF: [.738, -0.495, .302],
+    0x2E0: [.633, -0.078, .413],
+    0x2E1: [.804, -0.252, .244],
+    0x2E2: [.643, -0.242, .337],
+    0x2E3: [.633, -0.252, .445],
+    0x2E4: [.806, -0.252, .364],
+    0x2E5: [.678, 0, .423],
+    0x2E6: [.678, 0, .414],
+    0x2E7: [.678, 0, .414],
+    0x2E8: [.678, 0, .414],
+    0x2E9: [.678, 0, .414],
+    0x2EC: [.071, .151, .341],
+    0x2ED: [.711, -0.539, .38],
+    0x2F7: [-0.05, .159, .381],
+    0x300: [.674, -0.521, 0, {sk: -0.23}],
+    0x301: [.674, -0.521, 0, {sk: -0.23}],
+    0x302: [.674, -0.521, 0, {sk: -0.23}],
+    0x303: [.642, -0.533, 0, {sk: -0.23}],
+    0x304: [.61, -0.555, 0, {sk: -0.23}],
+    0x305: [.61, -0.555, 0, {sk: -0.2}],
+    0x306: [.683, -0.529, 0, {sk: -0.23}],
+    0x307: [.673, -0.56, 0, {sk: -0.23}],
+    0x308: [.672, -0.56, 0, {sk: -0.23}],
+    0x309: [.729, -0.521, 0, {sk: -0.23}],
+    0x30A: [.729, -0.53, 0, {sk: -0.236}],
+    0x30B: [.674, -0.521, 0, {sk: -0.23}],
+    0x30C: [.678, -0.525, 0, {sk: -0.23}],
+    0x30D: [.717, -0.512, 0],
+    0x30E: [.717, -0.512, 0],
+    0x30F: [.674, -0.521, 0],
+    0x310: [.748, -0.529, 0],
+    0x311: [.68, -0.519, 0],
+    0x312: [.748, -0.524, 0],
+    0x313: [.737, -0.513, 0],
+    0x314: [.737, -0.513, 0],
+    0x315: [.697, -0.499, 0],
+    0x316: [-0.056, .209, 0],
+    0x317: [-0.056, .209, 0],
+    0x318: [-0.055, .25, 0],
+    0x319: [-0.055, .25, 0],
+    0x31A: [.702, -0.503, 0],
+    0x31B: [.628, -0.448, 0],
+    0x31C: [-0.055, .255, 0],
+    0x31D: [-0.055, .206, 0],
+    0x31E: [-0.055, .206, 0],
+    0x31F: [-0.055, .252, 0],
+    0x320: [-0.135, .172, 0],
+    0x321: [.037, .235, 0],
+    0x322: [.037, .235, 0],
+    0x323: [-0.068, .181, 0],
+    0x324: [-0.068, .18, 0],
+    0x325: [-0.055, .254, 0],
+    0x326: [-0.053, .277, 0],
+    0x327: [.004, .215, 0],
+    0x328: [.004, .216, 0],
+    0x329: [-0.053, .228, 0],
+    0x32A: [-0.055, .178, 0],
+    0x32B: [-0.055, .175, 0],
+    0x32C: [-0.05, .203, 0],
+    0x32D: [-0.05, .203, 0],
+    0x32E: [-0.05, .204, 0],
+    0x32F: [-0.05, .204, 0],
+    0x330: [-0.05, .159, 0],
+    0x331: [-0.086, .141, 0],
+    0x332: [-0.086, .137, 0],
+    0x333: [-0.086, .248, 0],
+    0x334: [.312, -0.204, 0],
+    0x335: [.281, -0.236, 0, {sk: -0.23}],
+    0x336: [.281, -0.236, 0, {sk: -0.23}],
+    0x337: [.479, -0.267, 0, {sk: -0.23}],
+    0x338: [.678, .16, 0, {sk: -0.23}],
+    0x339: [-0.055, .255, 0],
+    0x33A: [-0.055, .178, 0],
+    0x33B: [-0.055, .233, 0],
+    0x33C: [-0.055, .182, 0],
+    0x33D: [.732, -0.539, 0],
+    0x33E: [.849, -0.511, 0],
+    0x33F: [.67, -0.508, 0],
+    0x346: [.67, -0.524, 0],
+    0x347: [-0.064, .219, 0],
+    0x34C: [.757, -0.523, 0],
+    0x34D: [-0.066, .283, 0, {sk: -0.23}],
+    0x359: [-0.04, .367, 0],
+    0x35C: [-0.078, .239, 0],
+    0x360: [.648, -0.526, 0],
+    0x361: [.697, -0.543, 0],
+    0x362: [-0.067, .277, 0],
+    0x37E: [.485, .142, .261],
+    0x384: [.689, -0.521, .165],
+    0x385: [.689, -0.521, .426],
+    0x386: [.662, 0, .718],
+    0x387: [.485, -0.366, .261],
+    0x388: [.657, 0, .745],
+    0x389: [.657, 0, .896],
+    0x38A: [.657, 0, .478],
+    0x38C: [.669, .012, .806],
+    0x38E: [.657, 0, .787],
+    0x38F: [.669, 0, .83],
+    0x390: [.699, .009, .259],
+    0x391: [.662, 0, .718, {sk: .001}],
+    0x392: [.657, 0, .618, {sk: .001}],
+    0x393: [.657, 0, .569, {sk: .046}],
+    0x394: [.662, 0, .667, {sk: .007}],
+    0x395: [.657, 0, .626, {sk: .017}],
+    0x396: [.657, 0, .594, {sk: .013}],
+    0x397: [.657, 0, .777, {sk: .002}],
+    0x398: [.668, .013, .738, {sk: .001}],
+    0x399: [.657, 0, .357, {sk: .007}],
+    0x39A: [.657, 0, .702, {sk: .014}],
+    0x39B: [.662, 0, .71, {sk: -0.005}],
+    0x39C: [.657, 0, .895, {sk: -0.002}],
+    0x39D: [.657, .008, .742, {sk: .009}],
+    0x39E: [.657, 0, .648, {sk: .006}],
+    0x39F: [.669, .012, .738, {sk: .001}],
+    0x3A0: [.657, 0, .759, {sk: .001}],
+    0x3A1: [.657, 0, .569, {sk: .016}],
+    0x3A3: [.657, 0, .604, {sk: .013}],
+    0x3A4: [.657, 0, .603, {sk: .004}],
+    0x3A5: [.657, 0, .647, {sk: .027}],
+    0x3A6: [.657, 0, .718, {sk: .001}],
+    0x3A7: [.657, 0, .664, {sk: .028}],
+    0x3A8: [.657, 0, .72],
+    0x3A9: [.669, 0, .777, {sk: .002}],
+    0x3AA: [.816, 0, .357],
+    0x3AB: [.816, 0, .647],
+    0x3AC: [.699, .014, .561],
+    0x3AD: [.699, .014, .381],
+    0x3AE: [.699, .219, .51],
+    0x3AF: [.699, .009, .259],
+    0x3B0: [.699, .01, .491],
+    0x3B1: [.478, .014, .561, {sk: .015}],
+    0x3B2: [.716, .217, .53, {sk: .065}],
+    0x3B3: [.476, .214, .466, {sk: .017}],
+    0x3B4: [.711, .014, .479, {sk: .041}],
+    0x3B5: [.481, .014, .381, {sk: .04}],
+    0x3B6: [.748, .227, .386, {sk: .087}],
+    0x3B7: [.48, .219, .51, {sk: .025}],
+    0x3B8: [.712, .015, .514, {sk: .013}],
+    0x3B9: [.473, .009, .259, {sk: .001}],
+    0x3BA: [.479, .012, .495, {sk: .033}],
+    0x3BB: [.706, .011, .506, {sk: -0.003}],
+    0x3BC: [.473, .217, .552, {sk: -0.006}],
+    0x3BD: [.479, .007, .453, {sk: .014}],
+    0x3BE: [.756, .228, .39, {sk: .055}],
+    0x3BF: [.481, .013, .475, {sk: .013}],
+    0x3C0: [.471, .009, .591, {sk: .04}],
+    0x3C1: [.481, .217, .515, {sk: .033}],
+    0x3C2: [.481, .227, .377, {sk: .047}],
+    0x3C3: [.471, .013, .545, {sk: -0.012}],
+    0x3C4: [.471, .009, .392, {sk: .034}],
+    0x3C5: [.481, .01, .491, {sk: -0.005}],
+    0x3C6: [.487, .217, .603, {sk: .009}],
+    0x3C7: [.479, .21, .462, {sk: .019}],
+    0x3C8: [.695, .217, .62, {sk: .02}],
+    0x3C9: [.477, .011, .66, {sk: .01}],
+    0x3CA: [.661, .009, .259],
+    0x3CB: [.661, .01, .491],
+    0x3CC: [.699, .013, .475],
+    0x3CD: [.699, .01, .491],
+    0x3CE: [.699, .011, .66],
+    0x3D0: [.716, .01, .438, {sk: .071}],
+    0x3D1: [.713, .01, .541, {sk: .01}],
+    0x3D2: [.664, 0, .616, {sk: .012}],
+    0x3D5: [.685, .22, .575, {sk: .038}],
+    0x3D6: [.471, .011, .821, {sk: .03}],
+    0x3D8: [.669, 0, .627, {sk: .002}],
+    0x3D9: [.481, .221, .475, {sk: .013}],
+    0x3DA: [.67, 0, .578, {sk: .036}],
+    0x3DB: [.481, .227, .49, {sk: .035}],
+    0x3DC: [.657, 0, .588, {sk: .046}],
+    0x3DD: [.471, .238, .386, {sk: .037}],
+    0x3DE: [.657, 0, .525, {sk: .018}],
+    0x3DF: [.663, .011, .434, {sk: .003}],
+    0x3E0: [.659, 0, .697, {sk: .012}],
+    0x3E1: [.687, .22, .458, {sk: -0.039}],
+    0x3F0: [.479, .012, .504, {sk: .018}],
+    0x3F1: [.481, .236, .467, {sk: .017}],
+    0x3F4: [.669, .012, .737, {sk: .002}],
+    0x3F5: [.481, .014, .38, {sk: .04}],
+    0x3F6: [.481, .014, .382, {sk: -0.011}],
+    0x400: [.826, 0, .626],
+    0x401: [.816, 0, .626],
+    0x402: [.657, .012, .731],
+    0x403: [.826, 0, .548],
+    0x404: [.669, .011, .668],
+    0x405: [.669, .015, .504],
+    0x406: [.657, 0, .357],
+    0x407: [.816, 0, .357],
+    0x408: [.657, .012, .396],
+    0x409: [.657, .012, .924],
+    0x40A: [.657, 0, 1.013],
+    0x40B: [.657, 0, .761],
+    0x40C: [.826, 0, .658],
+    0x40D: [.826, 0, .78],
+    0x40E: [.874, .015, .625],
+    0x40F: [.657, .21, .759],
+    0x410: [.662, 0, .718, {sk: .001}],
+    0x411: [.657, 0, .617, {sk: .012}],
+    0x412: [.657, 0, .618, {sk: .001}],
+    0x413: [.657, 0, .548, {sk: .046}],
+    0x414: [.657, .191, .663, {sk: .039}],
+    0x415: [.657, 0, .626, {sk: .017}],
+    0x416: [.667, 0, .937, {sk: .002}],
+    0x417: [.666, .012, .545, {sk: -0.002}],
+    0x418: [.657, 0, .78],
+    0x419: [.874, 0, .78],
+    0x41A: [.667, 0, .658, {sk: .021}],
+    0x41B: [.657, .012, .684, {sk: .048}],
+    0x41C: [.657, 0, .895, {sk: -0.007}],
+    0x41D: [.657, 0, .777, {sk: .002}],
+    0x41E: [.669, .012, .738, {sk: .001}],
+    0x41F: [.657, 0, .759, {sk: .001}],
+    0x420: [.657, 0, .569, {sk: .016}],
+    0x421: [.669, .011, .67, {sk: .045}],
+    0x422: [.657, 0, .603, {sk: .004}],
+    0x423: [.657, .015, .625, {sk: .028}],
+    0x424: [.67, .006, .725, {sk: .008}],
+    0x425: [.657, 0, .664, {sk: .018}],
+    0x426: [.657, .191, .756, {sk: -0.003}],
+    0x427: [.657, 0, .65, {sk: -0.02}],
+    0x428: [.657, 0, 1.053, {sk: .004}],
+    0x429: [.657, .191, 1.044, {sk: .003}],
+    0x42A: [.657, 0, .723, {sk: -0.051}],
+    0x42B: [.657, 0, .887, {sk: .007}],
+    0x42C: [.657, 0, .606, {sk: -0.113}],
+    0x42D: [.669, .011, .667, {sk: -0.023}],
+    0x42E: [.669, .012, 1.042, {sk: -0.021}],
+    0x42F: [.657, 0, .654, {sk: .033}],
+    0x430: [.485, .007, .48, {sk: -0.01}],
+    0x431: [.717, .01, .52, {sk: .01}],
+    0x432: [.473, 0, .505, {sk: .008}],
+    0x433: [.473, 0, .429, {sk: .026}],
+    0x434: [.473, .176, .53, {sk: .025}],
+    0x435: [.485, .01, .464, {sk: .008}],
+    0x436: [.482, 0, .754, {sk: .003}],
+    0x437: [.485, .01, .435, {sk: -0.012}],
+    0x438: [.473, 0, .609, {sk: .001}],
+    0x439: [.694, 0, .609, {sk: .001}],
+    0x43A: [.482, 0, .521, {sk: .01}],
+    0x43B: [.473, .009, .553, {sk: .044}],
+    0x43C: [.473, 0, .697, {sk: -0.003}],
+    0x43D: [.473, 0, .605, {sk: -0.002}],
+    0x43E: [.485, .01, .514, {sk: .003}],
+    0x43F: [.473, 0, .591],
+    0x440: [.485, .22, .537, {sk: .012}],
+    0x441: [.485, .01, .446, {sk: .017}],
+    0x442: [.473, 0, .456, {sk: .002}],
+    0x443: [.473, .235, .483, {sk: .019}],
+    0x444: [.706, .22, .71, {sk: -0.005}],
+    0x445: [.473, 0, .479, {sk: .011}],
+    0x446: [.473, .176, .59, {sk: -0.005}],
+    0x447: [.473, 0, .535, {sk: -0.012}],
+    0x448: [.473, 0, .812, {sk: .004}],
+    0x449: [.473, .176, .814, {sk: -0.002}],
+    0x44A: [.473, 0, .568, {sk: -0.054}],
+    0x44B: [.473, 0, .728, {sk: .006}],
+    0x44C: [.473, 0, .489, {sk: -0.094}],
+    0x44D: [.485, .01, .467, {sk: -0.008}],
+    0x44E: [.485, .01, .774, {sk: -0.012}],
+    0x44F: [.475, 0, .518, {sk: .031}],
+    0x450: [.674, .01, .464],
+    0x451: [.672, .01, .464],
+    0x452: [.706, .224, .563],
+    0x453: [.674, 0, .429],
+    0x454: [.485, .009, .46],
+    0x455: [.485, .011, .394],
+    0x456: [.673, 0, .285],
+    0x457: [.672, 0, .285],
+    0x458: [.673, .235, .263],
+    0x459: [.473, .009, .742],
+    0x45A: [.473, 0, .79],
+    0x45B: [.706, 0, .579],
+    0x45C: [.674, 0, .521],
+    0x45D: [.674, 0, .609],
+    0x45E: [.694, .221, .483],
+    0x45F: [.473, .195, .587],
+    0x462: [.733, 0, .727, {sk: -0.063}],
+    0x463: [.706, 0, .561, {sk: -0.05}],
+    0x46A: [.657, 0, .881, {sk: .005}],
+    0x46B: [.473, 0, .667, {sk: .002}],
+    0x472: [.669, .012, .737, {sk: .002}],
+    0x473: [.485, .01, .514, {sk: .003}],
+    0x474: [.671, .005, .705, {sk: .008}],
+    0x475: [.48, .006, .52],
+    0x490: [.806, 0, .525],
+    0x491: [.606, 0, .404],
+    0x1D00: [.477, 0, .511],
+    0x1D07: [.473, 0, .495],
+    0x1D1C: [.473, .01, .584],
+    0x1D81: [.706, .235, .539],
+    0x1D84: [.706, .235, .542],
+    0x1D85: [.706, .235, .283],
+    0x1D8A: [.485, .235, .395],
+    0x1D8D: [.473, .235, .479],
+    0x1D8E: [.473, .235, .458],
+    0x1D98: [.713, .235, .368],
+    0x1D9B: [.644, -0.247, .462],
+    0x1DA3: [.633, -0.081, .488],
+    0x1E00: [.662, .254, .718],
+    0x1E01: [.485, .254, .48],
+    0x1E02: [.817, 0, .618],
+    0x1E03: [.853, .01, .522],
+    0x1E04: [.657, .181, .618],
+    0x1E05: [.706, .181, .522],
+    0x1E06: [.657, .141, .618],
+    0x1E07: [.706, .141, .522],
+    0x1E08: [.826, .215, .67],
+    0x1E09: [.674, .215, .446],
+    0x1E0A: [.817, 0, .73],
+    0x1E0B: [.853, .008, .539],
+    0x1E0C: [.657, .181, .73],
+    0x1E0D: [.706, .181, .539],
+    0x1E0E: [.657, .141, .73],
+    0x1E0F: [.706, .141, .539],
+    0x1E10: [.657, .277, .73],
+    0x1E11: [.706, .277, .539],
+    0x1E12: [.657, .203, .73],
+    0x1E13: [.706, .203, .539],
+    0x1E14: [.936, 0, .626],
+    0x1E15: [.814, .01, .464],
+    0x1E16: [.936, 0, .626],
+    0x1E17: [.814, .01, .464],
+    0x1E18: [.657, .203, .626],
+    0x1E19: [.485, .203, .464],
+    0x1E1A: [.657, .159, .626],
+    0x1E1B: [.485, .159, .464],
+    0x1E1C: [.865, .215, .626],
+    0x1E1D: [.683, .215, .464],
+    0x1E1E: [.817, 0, .588],
+    0x1E1F: [.853, 0, .307],
+    0x1E20: [.779, .011, .72],
+    0x1E21: [.61, .235, .484],
+    0x1E22: [.817, 0, .777],
+    0x1E23: [.853, 0, .577],
+    0x1E24: [.657, .181, .777],
+    0x1E25: [.706, .181, .577],
+    0x1E26: [.816, 0, .777],
+    0x1E27: [.852, 0, .577],
+    0x1E28: [.657, .215, .777],
+    0x1E29: [.706, .215, .577],
+    0x1E2A: [.657, .204, .777],
+    0x1E2B: [.706, .204, .577],
+    0x1E2C: [.657, .159, .357],
+    0x1E2D: [.673, .159, .285],
+    0x1E2E: [.966, 0, .357],
+    0x1E2F: [.834, 0, .285],
+    0x1E30: [.826, 0, .702],
+    0x1E31: [.862, 0, .542],
+    0x1E32: [.657, .181, .702],
+    0x1E33: [.706, .181, .542],
+    0x1E34: [.657, .141, .702],
+    0x1E35: [.706, .141, .542],
+    0x1E36: [.657, .181, .585],
+    0x1E37: [.706, .181, .283],
+    0x1E38: [.779, .181, .585],
+    0x1E39: [.815, .181, .283],
+    0x1E3A: [.657, .141, .585],
+    0x1E3B: [.706, .141, .283],
+    0x1E3C: [.657, .203, .585],
+    0x1E3D: [.706, .203, .283],
+    0x1E3E: [.826, 0, .895],
+    0x1E3F: [.674, 0, .852],
+    0x1E40: [.817, 0, .895],
+    0x1E41: [.673, 0, .852],
+    0x1E42: [.657, .181, .895],
+    0x1E43: [.485, .181, .852],
+    0x1E44: [.817, .008, .742],
+    0x1E45: [.673, 0, .576],
+    0x1E46: [.657, .181, .742],
+    0x1E47: [.485, .181, .576],
+    0x1E48: [.657, .141, .742],
+    0x1E49: [.485, .141, .576],
+    0x1E4A: [.657, .203, .742],
+    0x1E4B: [.485, .203, .576],
+    0x1E4C: [.956, .012, .738],
+    0x1E4D: [.834, .01, .514],
+    0x1E4E: [.936, .012, .738],
+    0x1E4F: [.802, .01, .514],
+    0x1E50: [.936, .012, .738],
+    0x1E51: [.814, .01, .514],
+    0x1E52: [.936, .012, .738],
+    0x1E53: [.814, .01, .514],
+    0x1E54: [.826, 0, .569],
+    0x1E55: [.674, .22, .537],
+    0x1E56: [.817, 0, .569],
+    0x1E57: [.673, .22, .537],
+    0x1E58: [.817, 0, .659],
+    0x1E59: [.673, 0, .38],
+    0x1E5A: [.657, .181, .659],
+    0x1E5B: [.488, .181, .38],
+    0x1E5C: [.779, .181, .659],
+    0x1E5D: [.61, .181, .38],
+    0x1E5E: [.657, .141, .659],
+    0x1E5F: [.488, .141, .38],
+    0x1E60: [.817, .015, .504],
+    0x1E61: [.673, .011, .394],
+    0x1E62: [.669, .181, .504],
+    0x1E63: [.485, .181, .394],
+    0x1E64: [.868, .015, .504],
+    0x1E65: [.739, .011, .394],
+    0x1E66: [.927, .015, .504],
+    0x1E67: [.772, .011, .394],
+    0x1E68: [.817, .181, .504],
+    0x1E69: [.673, .181, .394],
+    0x1E6A: [.817, 0, .603],
+    0x1E6B: [.773, .01, .315],
+    0x1E6C: [.657, .181, .603],
+    0x1E6D: [.61, .181, .315],
+    0x1E6E: [.657, .141, .603],
+    0x1E6F: [.61, .141, .315],
+    0x1E70: [.657, .203, .603],
+    0x1E71: [.61, .203, .315],
+    0x1E72: [.657, .18, .752],
+    0x1E73: [.478, .18, .57],
+    0x1E74: [.657, .159, .752],
+    0x1E75: [.478, .159, .57],
+    0x1E76: [.657, .203, .752],
+    0x1E77: [.478, .203, .57],
+    0x1E78: [.956, .012, .752],
+    0x1E79: [.834, .01, .57],
+    0x1E7A: [.916, .012, .752],
+    0x1E7B: [.782, .01, .57],
+    0x1E7C: [.816, .005, .68],
+    0x1E7D: [.642, .006, .481],
+    0x1E7E: [.657, .181, .68],
+    0x1E7F: [.473, .181, .481],
+    0x1E80: [.826, .006, .944],
+    0x1E81: [.674, .006, .749],
+    0x1E82: [.826, .006, .944],
+    0x1E83: [.674, .006, .749],
+    0x1E84: [.816, .006, .944],
+    0x1E85: [.672, .006, .749],
+    0x1E86: [.817, .006, .944],
+    0x1E87: [.673, .006, .749],
+    0x1E88: [.657, .181, .944],
+    0x1E89: [.473, .181, .749],
+    0x1E8A: [.817, 0, .664],
+    0x1E8B: [.673, 0, .479],
+    0x1E8C: [.816, 0, .664],
+    0x1E8D: [.672, 0, .479],
+    0x1E8E: [.817, 0, .647],
+    0x1E8F: [.673, .235, .483],
+    0x1E90: [.836, 0, .594],
+    0x1E91: [.674, 0, .458],
+    0x1E92: [.657, .181, .594],
+    0x1E93: [.473, .181, .458],
+    0x1E94: [.657, .141, .594],
+    0x1E95: [.473, .141, .458],
+    0x1E96: [.706, .141, .577],
+    0x1E97: [.772, .01, .315],
+    0x1E98: [.729, .006, .749],
+    0x1E99: [.729, .235, .483],
+    0x1E9A: [.73, .007, .48],
+    0x1E9B: [.853, 0, .285],
+    0x1E9C: [.713, 0, .3],
+    0x1E9D: [.713, 0, .285],
+    0x1E9E: [.67, .012, .684],
+    0x1E9F: [.716, .01, .517],
+    0x1EA0: [.662, .181, .718],
+    0x1EA1: [.485, .181, .48],
+    0x1EA2: [.899, 0, .718],
+    0x1EA3: [.729, .007, .48],
+    0x1EA4: [.881, 0, .718],
+    0x1EA5: [.754, .007, .48],
+    0x1EA6: [.881, 0, .718],
+    0x1EA7: [.754, .007, .48],
+    0x1EA8: [.957, 0, .718],
+    0x1EA9: [.809, .007, .48],
+    0x1EAA: [.939, 0, .718],
+    0x1EAB: [.8, .007, .48],
+    0x1EAC: [.836, .181, .718],
+    0x1EAD: [.674, .181, .48],
+    0x1EAE: [.916, 0, .718],
+    0x1EAF: [.764, .007, .48],
+    0x1EB0: [.916, 0, .718],
+    0x1EB1: [.764, .007, .48],
+    0x1EB2: [.982, 0, .718],
+    0x1EB3: [.819, .007, .48],
+    0x1EB4: [.965, 0, .718],
+    0x1EB5: [.808, .007, .48],
+    0x1EB6: [.865, .181, .718],
+    0x1EB7: [.683, .181, .48],
+    0x1EB8: [.657, .181, .626],
+    0x1EB9: [.485, .181, .464],
+    0x1EBA: [.899, 0, .626],
+    0x1EBB: [.729, .01, .464],
+    0x1EBC: [.816, 0, .626],
+    0x1EBD: [.642, .01, .464],
+    0x1EBE: [.881, 0, .626],
+    0x1EBF: [.754, .01, .464],
+    0x1EC0: [.881, 0, .626],
+    0x1EC1: [.754, .01, .464],
+    0x1EC2: [.957, 0, .626],
+    0x1EC3: [.809, .01, .464],
+    0x1EC4: [.939, 0, .626],
+    0x1EC5: [.8, .01, .464],
+    0x1EC6: [.836, .181, .626],
+    0x1EC7: [.674, .181, .464],
+    0x1EC8: [.899, 0, .357],
+    0x1EC9: [.729, 0, .285],
+    0x1ECA: [.657, .181, .357],
+    0x1ECB: [.673, .181, .285],
+    0x1ECC: [.669, .181, .738],
+    0x1ECD: [.485, .181, .514],
+    0x1ECE: [.899, .012, .738],
+    0x1ECF: [.729, .01, .514],
+    0x1ED0: [.881, .012, .738],
+    0x1ED1: [.754, .01, .514],
+    0x1ED2: [.881, .012, .738],
+    0x1ED3: [.754, .01, .514],
+    0x1ED4: [.957, .012, .738],
+    0x1ED5: [.809, .01, .514],
+    0x1ED6: [.939, .012, .738],
+    0x1ED7: [.8, .01, .514],
+    0x1ED8: [.836, .181, .738],
+    0x1ED9: [.674, .181, .514],
+    0x1EDA: [.826, .012, .737],
+    0x1EDB: [.674, .01, .516],
+    0x1EDC: [.826, .012, .737],
+    0x1EDD: [.674, .01, .516],
+    0x1EDE: [.899, .012, .737],
+    0x1EDF: [.729, .01, .516],
+    0x1EE0: [.816, .012, .737],
+    0x1EE1: [.642, .01, .516],
+    0x1EE2: [.798, .181, .737],
+    0x1EE3: [.628, .181, .516],
+    0x1EE4: [.657, .181, .752],
+    0x1EE5: [.478, .181, .57],
+    0x1EE6: [.899, .012, .752],
+    0x1EE7: [.729, .01, .57],
+    0x1EE8: [.83, .012, .762],
+    0x1EE9: [.674, .01, .574],
+    0x1EEA: [.83, .012, .762],
+    0x1EEB: [.674, .01, .574],
+    0x1EEC: [.899, .012, .762],
+    0x1EED: [.729, .01, .574],
+    0x1EEE: [.83, .012, .762],
+    0x1EEF: [.642, .01, .574],
+    0x1EF0: [.83, .181, .762],
+    0x1EF1: [.628, .181, .574],
+    0x1EF2: [.826, 0, .647],
+    0x1EF3: [.674, .235, .483],
+    0x1EF4: [.657, .181, .647],
+    0x1EF5: [.473, .235, .483],
+    0x1EF6: [.899, 0, .647],
+    0x1EF7: [.729, .235, .483],
+    0x1EF8: [.816, 0, .647],
+    0x1EF9: [.642, .235, .483],
+    0x2000: [0, 0, .5],
+    0x2001: [0, 0, 1],
+    0x2002: [0, 0, .5],
+    0x2003: [0, 0, 1],
+    0x2004: [0, 0, .334],
+    0x2005: [0, 0, .25],
+    0x2006: [0, 0, .167],
+    0x2007: [0, 0, .56],
+    0x2008: [0, 0, .297],
+    0x2009: [0, 0, .125],
+    0x200A: [0, 0, .063],
+    0x200B: [0, 0, 0],
+    0x200C: [.773, .262, 0],
+    0x200D: [.888, .262, 0],
+    0x2010: [.283, -0.218, .315],
+    0x2011: [.283, -0.218, .315],
+    0x2012: [.279, -0.222, .495],
+    0x2013: [.279, -0.222, .5],
+    0x2014: [.279, -0.222, 1],
+    0x2015: [.279, -0.222, .94],
+    0x2016: [.706, .22, .427],
+    0x2017: [-0.077, .239, .512],
+    0x2018: [.71, -0.468, .245],
+    0x2019: [.706, -0.463, .245],
+    0x201A: [.117, .126, .243],
+    0x201B: [.706, -0.463, .243],
+    0x201C: [.71, -0.468, .435],
+    0x201D: [.706, -0.463, .434],
+    0x201E: [.117, .126, .433],
+    0x201F: [.706, -0.463, .434],
+    0x2020: [.692, .153, .512],
+    0x2021: [.692, .157, .512],
+    0x2022: [.383, -0.131, .457],
+    0x2025: [.111, .008, .5],
+    0x2026: [.114, .008, .887],
+    0x202F: [0, 0, .125],
+    0x2030: [.666, .021, 1.017],
+    0x2031: [.666, .021, 1.342],
+    0x2032: [.703, -0.399, .296],
+    0x2033: [.703, -0.398, .436],
+    0x2034: [.703, -0.398, .576],
+    0x2035: [.703, -0.399, .296],
+    0x2036: [.703, -0.398, .436],
+    0x2037: [.703, -0.398, .576],
+    0x2038: [.109, .167, .523],
+    0x2039: [.442, -0.034, .307],
+    0x203A: [.442, -0.034, .307],
+    0x203B: [.554, .034, .701],
+    0x203C: [.669, .008, .565],
+    0x203E: [.839, -0.792, .512],
+    0x2040: [.726, -0.524, .81],
+    0x2043: [.34, -0.176, .352],
+    0x2044: [.692, .02, .205],
+    0x2047: [.669, .008, .822],
+    0x204B: [.657, .148, .605],
+    0x204C: [.383, -0.131, .479],
+    0x204D: [.383, -0.131, .479],
+    0x204E: [.221, .153, .41],
+    0x204F: [.478, .132, .245],
+    0x2050: [.702, .036, .809],
+    0x2051: [.733, .053, .41],
+    0x2052: [.723, .205, .482],
+    0x2057: [.703, -0.398, .727],
+    0x205F: [0, 0, .222],
+    0x2061: [0, 0, 0],
+    0x2062: [0, 0, 0],
+    0x2063: [0, 0, 0],
+    0x2064: [0, 0, 0],
+    0x2070: [.735, -0.244, .412],
+    0x2071: [.803, -0.252, .245],
+    0x2074: [.735, -0.252, .403],
+    0x2075: [.726, -0.244, .358],
+    0x2076: [.738, -0.243, .39],
+    0x2077: [.726, -0.247, .364],
+    0x2078: [.739, -0.243, .374],
+    0x2079: [.738, -0.243, .39],
+    0x207A: [.685, -0.248, .536],
+    0x207B: [.493, -0.439, .536],
+    0x207C: [.579, -0.353, .534],
+    0x207D: [.831, -0.136, .268],
+    0x207E: [.831, -0.136, .268],
+    0x207F: [.643, -0.252, .491],
+    0x2080: [.254, .237, .412],
+    0x2081: [.254, .229, .333],
+    0x2082: [.257, .229, .373],
+    0x2083: [.257, .237, .374],
+    0x2084: [.254, .229, .403],
+    0x2085: [.245, .237, .358],
+    0x2086: [.257, .238, .39],
+    0x2087: [.245, .234, .364],
+    0x2088: [.258, .238, .374],
+    0x2089: [.257, .238, .39],
+    0x208A: [.204, .233, .536],
+    0x208B: [.012, .042, .536],
+    0x208C: [.098, .128, .534],
+    0x208D: [.35, .345, .268],
+    0x208E: [.35, .345, .268],
+    0x20A3: [.63, 0, .495],
+    0x20A4: [.644, .008, .495],
+    0x20A7: [.63, .011, 1.193],
+    0x20AB: [.637, 0, .495],
+    0x20AC: [.644, .013, .495],
+    0x20B9: [.63, 0, .495],
+    0x20BA: [.63, 0, .495],
+    0x20BD: [.63, 0, .495],
+    0x20D0: [.843, -0.688, 0, {sk: -0.23}],
+    0x20D1: [.843, -0.688, 0, {sk: -0.23}],
+    0x20D2: [.678, .16, 0, {sk: -0.23}],
+    0x20D3: [.515, .16, 0],
+    0x20D4: [.815, -0.548, 0, {sk: -0.23}],
+    0x20D5: [.815, -0.548, 0, {sk: -0.23}],
+    0x20D6: [.843, -0.58, 0, {sk: -0.23}],
+    0x20D7: [.843, -0.58, 0, {sk: -0.23}],
+    0x20D8: [.439, -0.132, 0],
+    0x20D9: [.439, -0.132, 0, {sk: -0.23}],
+    0x20DA: [.438, -0.131, 0, {sk: -0.23}],
+    0x20DB: [.637, -0.535, 0, {sk: -0.23}],
+    0x20DC: [.637, -0.535, 0, {sk: -0.23}],
+    0x20DD: [.742, .227, 0],
+    0x20DE: [.798, .185, 0],
+    0x20DF: [.863, .349, 0],
+    0x20E1: [.843, -0.58, 0, {sk: -0.23}],
+    0x20E4: [1.047, .159, 0],
+    0x20E5: [.678, .16, 0],
+    0x20E6: [.678, .16, 0],
+    0x20E7: [.742, .183, 0],
+    0x20E8: [-0.122, .223, 0],
+    0x20E9: [.697, -0.551, 0],
+    0x20EA: [.429, -0.089, 0],
+    0x20EB: [.774, .222, 0],
+    0x20EC: [-0.122, .277, 0],
+    0x20ED: [-0.122, .277, 0],
+    0x20EE: [-0.022, .285, 0],
+    0x20EF: [-0.022, .285, 0],
+    0x20F0: [.838, -0.528, 0],
+    0x2100: [.692, .02, .939],
+    0x2101: [.692, .02, .936],
+    0x2102: [.669, .015, .695, {sk: .033}],
+    0x2103: [.698, .011, 1.028],
+    0x2104: [.657, 0, .646],
+    0x2105: [.692, .02, .953],
+    0x2106: [.692, .02, 1.072],
+    0x2107: [.692, .015, .612, {sk: .014}],
+    0x2108: [.669, .011, .669],
+    0x2109: [.698, 0, .949],
+    0x210A: [.479, .225, .657, {sk: .122}],
+    0x210B: [.665, .009, .951, {ic: .04, sk: .155}],
+    0x210C: [.671, .207, .728, {sk: .076}],
+    0x210D: [.657, 0, .715, {sk: .003}],
+    0x210E: [.706, .01, .569, {ic: .01, sk: .106}],
+    0x210F: [.706, .01, .569, {ic: .01, sk: .106}],
+    0x2110: [.664, .01, .496, {ic: .055, sk: .152}],
+    0x2111: [.671, .033, .673, {sk: .034}],
+    0x2112: [.669, .009, .699, {ic: .01, sk: .131}],
+    0x2113: [.67, .01, .529, {ic: .025, sk: .186}],
+    0x2114: [.706, .01, .787],
+    0x2115: [.657, 0, .692, {sk: .019}],
+    0x2116: [.668, .008, 1.07],
+    0x2117: [.676, .014, .781],
+    0x2118: [.56, .222, .846, {sk: .097}],
+    0x2119: [.657, 0, .665, {sk: -0.012}],
+    0x211A: [.669, .065, .751, {sk: .005}],
+    0x211B: [.697, .008, .789, {ic: .01, sk: .146}],
+    0x211C: [.68, .022, .778, {sk: .031}],
+    0x211D: [.657, 0, .729, {sk: -0.034}],
+    0x211E: [.657, .076, .725, {sk: -0.067}],
+    0x211F: [.845, .223, .659],
+    0x2120: [.665, -0.243, .937],
+    0x2121: [.657, -0.252, 1.2],
+    0x2122: [.651, -0.316, .881],
+    0x2123: [.845, .223, .68],
+    0x2124: [.657, 0, .648, {sk: .016}],
+    0x2125: [.678, .223, .434],
+    0x2126: [.669, 0, .763, {sk: -0.001}],
+    0x2127: [.657, .012, .763, {sk: -0.001}],
+    0x2128: [.671, .197, .641, {sk: .04}],
+    0x2129: [.474, 0, .368, {sk: .006}],
+    0x212A: [.657, 0, .702],
+    0x212B: [.826, 0, .722],
+    0x212C: [.695, 0, .754, {ic: .02, sk: .153}],
+    0x212D: [.67, .023, .639, {sk: .031}],
+    0x212E: [.692, .018, .863],
+    0x212F: [.479, .012, .527, {sk: .097}],
+    0x2130: [.669, .012, .572, {ic: .02, sk: .134}],
+    0x2131: [.684, .016, .713, {ic: .06, sk: .204}],
+    0x2132: [.657, 0, .588],
+    0x2133: [.675, .013, 1.038, {ic: .04, sk: .121}],
+    0x2134: [.479, .012, .691, {sk: .095}],
+    0x2135: [.693, .014, .698, {sk: -0.004}],
+    0x2136: [.693, .02, .654, {sk: .003}],
+    0x2137: [.693, .02, .517, {sk: .015}],
+    0x2138: [.693, .02, .613, {sk: -0.009}],
+    0x2139: [.705, 0, .361],
+    0x213A: [.652, .012, .907],
+    0x213B: [.661, -0.252, 1.216],
+    0x213C: [.456, .013, .689, {sk: -0.024}],
+    0x213D: [.466, .223, .552, {sk: .024}],
+    0x213E: [.657, 0, .55, {sk: .035}],
+    0x213F: [.657, 0, .714, {sk: .003}],
+    0x2140: [.781, .265, .945, {sk: -0.022}],
+    0x2141: [.692, .015, .711, {sk: -0.005}],
+    0x2142: [.678, 0, .572, {sk: -0.016}],
+    0x2143: [.678, 0, .572, {sk: -0.016}],
+    0x2144: [.678, 0, .645, {sk: -0.002}],
+    0x2145: [.657, 0, .717, {ic: .025, sk: .052}],
+    0x2146: [.699, .011, .607, {ic: .035, sk: .127}],
+    0x2147: [.461, .012, .52, {sk: .055}],
+    0x2148: [.683, 0, .285, {ic: .035, sk: .108}],
+    0x2149: [.683, .222, .284, {ic: .035, sk: .108}],
+    0x214A: [.708, 0, .68],
+    0x214B: [.662, .014, .736],
+    0x214C: [.669, .014, .794],
+    0x214D: [.692, .02, 1.01],
+    0x214E: [.532, 0, .473],
+    0x214F: [.458, .012, 1.161],
+    0x2153: [.692, .02, .899],
+    0x2154: [.692, .02, .948],
+    0x2155: [.692, .02, .867],
+    0x2156: [.692, .02, .916],
+    0x2157: [.692, .02, .896],
+    0x2158: [.692, .02, .929],
+    0x2159: [.692, .02, .871],
+    0x215A: [.692, .02, .871],
+    0x215B: [.692, .02, .887],
+    0x215C: [.692, .02, .911],
+    0x215D: [.692, .02, .891],
+    0x215E: [.692, .02, .847],
+    0x2190: [.46, -0.059, .948],
+    0x2191: [.678, .16, .523],
+    0x2192: [.459, -0.058, .948],
+    0x2193: [.678, .16, .523],
+    0x2194: [.46, -0.058, .948],
+    0x2195: [.747, .23, .523],
+    0x2196: [.678, .16, .948],
+    0x2197: [.678, .16, .948],
+    0x2198: [.678, .16, .948],
+    0x2199: [.678, .16, .948],
+    0x219A: [.461, -0.059, .948],
+    0x219B: [.461, -0.059, .948],
+    0x219C: [.421, -0.104, .948],
+    0x219D: [.421, -0.104, .948],
+    0x219E: [.46, -0.059, .948],
+    0x219F: [.678, .158, .523],
+    0x21A0: [.46, -0.059, .948],
+    0x21A1: [.678, .158, .523],
+    0x21A2: [.46, -0.059, .948],
+    0x21A3: [.46, -0.059, .948],
+    0x21A4: [.461, -0.058, .948],
+    0x21A5: [.678, .158, .523],
+    0x21A6: [.461, -0.058, .948],
+    0x21A7: [.678, .158, .523],
+    0x21A8: [.678, .158, .523],
+    0x21A9: [.566, -0.058, .948],
+    0x21AA: [.566, -0.058, .948],
+    0x21AB: [.566, 0, .948],
+    0x21AC: [.566, 0, .948],
+    0x21AD: [.46, -0.059, 1.229],
+    0x21AE: [.461, -0.059, .948],
+    0x21AF: [.678, .158, .523],
+    0x21B0: [.678, .16, .474],
+    0x21B1: [.678, .16, .474],
+    0x21B2: [.678, .158, .474],
+    0x21B3: [.678, .158, .474],
+    0x21B4: [.678, .158, .948],
+    0x21B5: [.678, .16, .948],
+    0x21B6: [.547, 0, .948],
+    0x21B7: [.547, 0, .948],
+    0x21B8: [.749, .16, .948],
+    0x21B9: [.612, .094, .948],
+    0x21BA: [.702, .119, .997],
+    0x21BB: [.702, .119, .997],
+    0x21BC: [.506, -0.225, .978],
+    0x21BD: [.293, -0.012, .978],
+    0x21BE: [.678, .16, .523],
+    0x21BF: [.678, .16, .523],
+    0x21C0: [.506, -0.225, .978],
+    0x21C1: [.293, -0.012, .978],
+    0x21C2: [.678, .16, .523],
+    0x21C3: [.678, .16, .523],
+    0x21C4: [.612, .094, .948],
+    0x21C5: [.678, .16, .791],
+    0x21C6: [.612, .094, .948],
+    0x21C7: [.613, .094, .948],
+    0x21C8: [.678, .16, .791],
+    0x21C9: [.613, .094, .948],
+    0x21CA: [.678, .16, .791],
+    0x21CB: [.552, .034, .948],
+    0x21CC: [.552, .034, .948],
+    0x21CD: [.564, .046, .948],
+    0x21CE: [.529, .01, .948],
+    0x21CF: [.564, .046, .948],
+    0x21D0: [.564, .046, .887],
+    0x21D1: [.678, .16, .72],
+    0x21D2: [.564, .046, .887],
+    0x21D3: [.678, .16, .72],
+    0x21D4: [.529, .01, .948],
+    0x21D5: [.747, .23, .72],
+    0x21D6: [.678, .16, .948],
+    0x21D7: [.678, .16, .948],
+    0x21D8: [.678, .16, .948],
+    0x21D9: [.678, .16, .948],
+    0x21DA: [.659, .143, .872],
+    0x21DB: [.66, .142, .872],
+    0x21DC: [.46, -0.059, .948],
+    0x21DD: [.46, -0.059, .948],
+    0x21DE: [.678, .16, .523],
+    0x21DF: [.678, .16, .523],
+    0x21E0: [.46, -0.059, .948],
+    0x21E1: [.678, .16, .523],
+    0x21E2: [.46, -0.059, .948],
+    0x21E3: [.678, .16, .523],
+    0x21E4: [.461, -0.059, .948],
+    0x21E5: [.461, -0.059, .948],
+    0x21E6: [.564, .046, .948],
+    0x21E7: [.678, .16, .72],
+    0x21E8: [.564, .046, .948],
+    0x21E9: [.678, .16, .72],
+    0x21EA: [.706, .189, .72],
+    0x21F4: [.459, -0.058, .948],
+    0x21F5: [.678, .16, .791],
+    0x21F6: [.756, .238, .948],
+    0x21F7: [.461, -0.059, .948],
+    0x21F8: [.461, -0.059, .948],
+    0x21F9: [.461, -0.059, .948],
+    0x21FA: [.461, -0.059, .948],
+    0x21FB: [.461, -0.059, .948],
+    0x21FC: [.461, -0.059, .948],
+    0x21FD: [.46, -0.058, .948],
+    0x21FE: [.46, -0.058, .948],
+    0x21FF: [.46, -0.058, .948],
+    0x2200: [.678, 0, .573],
+    0x2201: [.778, .016, .474],
+    0x2202: [.711, .012, .478],
+    0x2203: [.678, 0, .573],
+    0x2204: [.793, .125, .573],
+    0x2205: [.597, .081, .78],
+    0x2206: [.69, 0, .748],
+    0x2207: [.678, .013, .748],
+    0x2208: [.543, .026, .72],
+    0x2209: [.678, .161, .72],
+    0x220A: [.47, -0.046, .497],
+    0x220B: [.543, .026, .72],
+    0x220C: [.678, .161, .72],
+    0x220D: [.47, -0.046, .497],
+    0x220E: [.654, 0, .558],
+    0x220F: [.782, .248, 1.135],
+    0x2210: [.782, .248, 1.135],
+    0x2211: [.782, .248, .936],
+    0x2212: [.293, -0.225, .72],
+    0x2213: [.518, .089, .72],
+    0x2214: [.759, .042, .72],
+    0x2215: [.727, .228, .535],
+    0x2216: [.727, .228, .535],
+    0x2217: [.482, -0.034, .536],
+    0x2218: [.428, -0.09, .436],
+    0x2219: [.384, -0.132, .457],
+    0x221A: [.922, .265, .794],
+    0x221B: [.937, .265, .794],
+    0x221C: [.934, .265, .794],
+    0x221D: [.44, 0, .72],
+    0x221E: [.44, 0, .953],
+    0x221F: [.598, 0, .72],
+    0x2220: [.56, 0, .72],
+    0x2221: [.56, .074, .72],
+    0x2222: [.531, .012, .72],
+    0x2223: [.706, .194, .272],
+    0x2224: [.706, .194, .413],
+    0x2225: [.706, .194, .535],
+    0x2226: [.706, .194, .623],
+    0x2227: [.549, .03, .636],
+    0x2228: [.549, .03, .636],
+    0x2229: [.549, .032, .636],
+    0x222A: [.549, .032, .636],
+    0x222B: [.727, .226, .684, {ic: .23}],
+    0x222C: [.727, .226, 1.016, {ic: .23}],
+    0x222D: [.727, .226, 1.348, {ic: .23}],
+    0x222E: [.727, .226, .684, {ic: .23}],
+    0x222F: [.727, .226, 1.016, {ic: .23}],
+    0x2230: [.727, .226, 1.348, {ic: .23}],
+    0x2231: [.728, .225, .684, {ic: .23}],
+    0x2232: [.728, .225, .684, {ic: .23}],
+    0x2233: [.727, .226, .684, {ic: .23}],
+    0x2234: [.533, .017, .635],
+    0x2235: [.533, .017, .635],
+    0x2236: [.533, .014, .523],
+    0x2237: [.533, .014, .72],
+    0x2238: [.523, -0.225, .72],
+    0x2239: [.523, .005, .72],
+    0x223A: [.523, .005, .72],
+    0x223B: [.533, .014, .72],
+    0x223C: [.37, -0.151, .72],
+    0x223D: [.37, -0.151, .72],
+    0x223E: [.423, -0.092, .72],
+    0x223F: [.478, -0.04, .72],
+    0x2240: [.56, .043, .293],
+    0x2241: [.434, -0.09, .72],
+    0x2242: [.455, -0.056, .72],
+    0x2243: [.455, -0.056, .72],
+    0x2244: [.531, .036, .72],
+    0x2245: [.545, .028, .72],
+    0x2246: [.618, .11, .72],
+    0x2247: [.662, .207, .72],
+    0x2248: [.486, -0.025, .72],
+    0x2249: [.562, .05, .72],
+    0x224A: [.565, .046, .72],
+    0x224B: [.545, .027, .72],
+    0x224C: [.545, .028, .72],
+    0x224D: [.516, -0.008, .72],
+    0x224E: [.482, -0.036, .72],
+    0x224F: [.482, -0.123, .72],
+    0x2250: [.625, -0.123, .72],
+    0x2251: [.625, .109, .72],
+    0x2252: [.625, .108, .72],
+    0x2253: [.625, .109, .72],
+    0x2254: [.427, -0.091, .844],
+    0x2255: [.427, -0.091, .844],
+    0x2256: [.426, -0.092, .72],
+    0x2257: [.77, -0.123, .72],
+    0x2258: [.746, -0.123, .72],
+    0x2259: [.873, -0.123, .72],
+    0x225A: [.873, -0.123, .72],
+    0x225B: [.774, -0.123, .72],
+    0x225C: [.873, -0.123, .72],
+    0x225D: [.843, -0.123, .72],
+    0x225E: [.72, -0.123, .72],
+    0x225F: [.883, -0.123, .72],
+    0x2260: [.678, .16, .72],
+    0x2261: [.489, -0.028, .72],
+    0x2262: [.678, .16, .72],
+    0x2263: [.557, .039, .72],
+    0x2264: [.623, .106, .72],
+    0x2265: [.623, .106, .72],
+    0x2266: [.735, .216, .72],
+    0x2267: [.735, .216, .72],
+    0x2268: [.764, .266, .72],
+    0x2269: [.764, .266, .72],
+    0x226A: [.545, .027, .955],
+    0x226B: [.545, .027, .955],
+    0x226C: [.747, .23, .477],
+    0x226D: [.585, .068, .72],
+    0x226E: [.678, .16, .72],
+    0x226F: [.678, .16, .72],
+    0x2270: [.747, .235, .72],
+    0x2271: [.747, .235, .72],
+    0x2272: [.68, .168, .72],
+    0x2273: [.68, .168, .72],
+    0x2274: [.748, .234, .72],
+    0x2275: [.747, .235, .72],
+    0x2276: [.722, .209, .72],
+    0x2277: [.722, .209, .72],
+    0x2278: [.768, .256, .72],
+    0x2279: [.768, .256, .72],
+    0x227A: [.545, .027, .72],
+    0x227B: [.545, .027, .72],
+    0x227C: [.643, .123, .72],
+    0x227D: [.644, .122, .72],
+    0x227E: [.68, .168, .72],
+    0x227F: [.68, .168, .72],
+    0x2280: [.678, .16, .72],
+    0x2281: [.678, .16, .72],
+    0x2282: [.543, .026, .72],
+    0x2283: [.543, .026, .72],
+    0x2284: [.678, .16, .72],
+    0x2285: [.678, .16, .72],
+    0x2286: [.621, .106, .72],
+    0x2287: [.621, .106, .72],
+    0x2288: [.747, .235, .72],
+    0x2289: [.747, .235, .72],
+    0x228A: [.641, .221, .72],
+    0x228B: [.641, .221, .72],
+    0x228C: [.549, .032, .636],
+    0x228D: [.549, .032, .636],
+    0x228E: [.549, .032, .636],
+    0x228F: [.543, .026, .72],
+    0x2290: [.543, .026, .72],
+    0x2291: [.621, .106, .72],
+    0x2292: [.621, .106, .72],
+    0x2293: [.549, .032, .635],
+    0x2294: [.549, .032, .635],
+    0x2295: [.638, .122, .862],
+    0x2296: [.638, .122, .862],
+    0x2297: [.638, .122, .862],
+    0x2298: [.638, .122, .862],
+    0x2299: [.638, .122, .862],
+    0x229A: [.638, .122, .862],
+    0x229B: [.638, .122, .862],
+    0x229C: [.638, .122, .862],
+    0x229D: [.638, .122, .862],
+    0x229E: [.678, .162, .932],
+    0x229F: [.678, .162, .932],
+    0x22A0: [.678, .162, .932],
+    0x22A1: [.678, .161, .932],
+    0x22A2: [.678, 0, .72],
+    0x22A3: [.678, 0, .72],
+    0x22A4: [.678, 0, .72],
+    0x22A5: [.678, 0, .72],
+    0x22A6: [.678, 0, .509],
+    0x22A7: [.678, 0, .51],
+    0x22A8: [.678, 0, .72],
+    0x22A9: [.678, 0, .88],
+    0x22AA: [.678, 0, .88],
+    0x22AB: [.678, 0, .88],
+    0x22AC: [.678, 0, .805],
+    0x22AD: [.678, 0, .805],
+    0x22AE: [.678, 0, .991],
+    0x22AF: [.678, 0, .991],
+    0x22B0: [.564, .046, .72],
+    0x22B1: [.564, .046, .72],
+    0x22B2: [.543, .026, .72],
+    0x22B3: [.543, .026, .72],
+    0x22B4: [.621, .106, .72],
+    0x22B5: [.621, .106, .72],
+    0x22B6: [.412, -0.105, 1.172],
+    0x22B7: [.412, -0.105, 1.172],
+    0x22B8: [.412, -0.105, .869],
+    0x22B9: [.56, .042, .72],
+    0x22BA: [.461, .217, .491],
+    0x22BB: [.549, .143, .635],
+    0x22BC: [.661, .03, .635],
+    0x22BD: [.661, .03, .635],
+    0x22BE: [.598, 0, .72],
+    0x22BF: [.678, .162, .933],
+    0x22C0: [.781, .265, .946],
+    0x22C1: [.781, .265, .946],
+    0x22C2: [.796, .26, .946],
+    0x22C3: [.786, .271, .946],
+    0x22C4: [.499, -0.016, .535],
+    0x22C5: [.32, -0.197, .293],
+    0x22C6: [.611, .015, .716],
+    0x22C7: [.558, .039, .72],
+    0x22C8: [.596, .082, .829],
+    0x22C9: [.596, .082, .829],
+    0x22CA: [.596, .082, .829],
+    0x22CB: [.596, .082, .829],
+    0x22CC: [.596, .082, .829],
+    0x22CD: [.455, -0.056, .72],
+    0x22CE: [.545, .026, .594],
+    0x22CF: [.545, .026, .594],
+    0x22D0: [.543, .026, .72],
+    0x22D1: [.543, .026, .72],
+    0x22D2: [.549, .032, .635],
+    0x22D3: [.549, .032, .635],
+    0x22D4: [.646, .032, .635],
+    0x22D5: [.706, .194, .72],
+    0x22D6: [.547, .025, .72],
+    0x22D7: [.547, .025, .72],
+    0x22D8: [.547, .025, 1.304],
+    0x22D9: [.547, .025, 1.304],
+    0x22DA: [.85, .332, .72],
+    0x22DB: [.85, .332, .72],
+    0x22DC: [.621, .106, .72],
+    0x22DD: [.621, .106, .72],
+    0x22DE: [.642, .124, .72],
+    0x22DF: [.642, .124, .72],
+    0x22E0: [.747, .235, .72],
+    0x22E1: [.747, .235, .72],
+    0x22E2: [.747, .235, .72],
+    0x22E3: [.747, .235, .72],
+    0x22E4: [.642, .221, .72],
+    0x22E5: [.642, .221, .72],
+    0x22E6: [.685, .286, .72],
+    0x22E7: [.685, .286, .72],
+    0x22E8: [.686, .286, .72],
+    0x22E9: [.686, .286, .72],
+    0x22EA: [.678, .16, .65],
+    0x22EB: [.678, .16, .65],
+    0x22EC: [.747, .235, .65],
+    0x22ED: [.747, .235, .65],
+    0x22EE: [.626, .107, .519],
+    0x22EF: [.318, -0.199, .953],
+    0x22F0: [.536, .017, .962],
+    0x22F1: [.536, .017, .962],
+    0x22F2: [.543, .026, .838],
+    0x22F3: [.543, .026, .72],
+    0x22F4: [.47, -0.046, .497],
+    0x22F5: [.733, .026, .72],
+    0x22F6: [.701, .026, .72],
+    0x22F7: [.627, -0.046, .497],
+    0x22F8: [.543, .184, .72],
+    0x22F9: [.543, .026, .72],
+    0x22FA: [.543, .026, .838],
+    0x22FB: [.543, .026, .72],
+    0x22FC: [.47, -0.046, .497],
+    0x22FD: [.701, .026, .72],
+    0x22FE: [.627, -0.046, .497],
+    0x22FF: [.678, .162, .932],
+    0x2300: [.498, -0.014, .62],
+    0x2301: [.396, -0.124, .598],
+    0x2302: [.792, 0, .948],
+    0x2303: [.668, -0.347, .63],
+    0x2304: [.306, .015, .63],
+    0x2305: [.591, 0, .635],
+    0x2306: [.745, 0, .635],
+    0x2307: [.736, .196, .47],
+    0x2308: [.736, .19, .349],
+    0x2309: [.736, .19, .349],
+    0x230A: [.736, .19, .349],
+    0x230B: [.736, .19, .349],
+    0x230C: [.17, .22, .474],
+    0x230D: [.17, .22, .474],
+    0x230E: [.897, -0.507, .474],
+    0x230F: [.897, -0.507, .474],
+    0x2310: [.402, -0.118, .614],
+    0x2311: [.449, -0.066, .535],
+    0x2312: [.339, 0, .78],
+    0x2313: [.339, 0, .78],
+    0x2314: [.587, -0.128, .604],
+    0x2315: [.596, .194, .867],
+    0x2316: [.766, .252, 1.126],
+    0x2317: [.767, .251, 1.126],
+    0x2318: [.678, .16, .948],
+    0x2319: [.402, -0.118, .614],
+    0x231A: [.687, .071, .72],
+    0x231B: [.657, 0, .633],
+    0x231C: [.678, -0.287, .474],
+    0x231D: [.678, -0.287, .474],
+    0x231E: [.168, .222, .474],
+    0x231F: [.168, .222, .474],
+    0x2320: [1.629, 0, .767],
+    0x2321: [1.895, 0, .767],
+    0x2322: [.368, -0.15, 1.043],
+    0x2323: [.368, -0.15, 1.043],
+    0x2324: [.668, -0.347, .63],
+    0x2325: [.657, 0, .695],
+    0x2326: [.657, 0, .987],
+    0x2327: [.788, .131, .934],
+    0x2328: [.603, -0.042, 1.235],
+    0x2329: [.73, .218, .409],
+    0x232A: [.73, .218, .409],
+    0x232B: [.657, 0, .987],
+    0x232C: [.708, .191, .948],
+    0x232D: [.606, .09, 1.009],
+    0x232E: [.461, .144, .639],
+    0x232F: [.415, -0.103, .592],
+    0x2330: [.665, 0, .685],
+    0x2331: [.657, 0, .734],
+    0x2332: [.575, .058, .91],
+    0x2333: [.427, -0.13, .81],
+    0x2334: [.409, -0.062, .657],
+    0x2335: [.409, -0.045, .577],
+    0x2336: [.736, .196, .678],
+    0x2337: [.736, .196, .488],
+    0x2338: [.736, .196, .678],
+    0x2339: [.736, .196, .678],
+    0x233A: [.736, .196, .678],
+    0x233B: [.736, .196, .678],
+    0x233C: [.736, .196, .678],
+    0x233D: [.736, .196, .832],
+    0x233E: [.636, .096, .832],
+    0x233F: [.736, .196, .638],
+    0x2340: [.736, .196, .638],
+    0x2341: [.736, .196, .678],
+    0x2342: [.736, .196, .678],
+    0x2343: [.736, .196, .678],
+    0x2344: [.736, .196, .678],
+    0x2345: [.736, .196, .783],
+    0x2346: [.736, .196, .783],
+    0x2347: [.736, .196, .678],
+    0x2348: [.736, .196, .678],
+    0x2349: [.736, .196, .832],
+    0x234A: [.736, .196, .678],
+    0x234B: [.736, .196, .746],
+    0x234C: [.726, .206, .678],
+    0x234D: [.736, .196, .678],
+    0x234E: [.736, .196, .678],
+    0x234F: [.746, .196, .712],
+    0x2350: [.736, .196, .678],
+    0x2351: [.736, .196, .678],
+    0x2352: [.736, .196, .746],
+    0x2353: [.736, .196, .678],
+    0x2354: [.736, .196, .678],
+    0x2355: [.736, .196, .678],
+    0x2356: [.736, .206, .712],
+    0x2357: [.736, .196, .678],
+    0x2358: [.497, .115, .678],
+    0x2359: [.662, .115, .688],
+    0x235A: [.499, .115, .678],
+    0x235B: [.413, .115, .678],
+    0x235C: [.525, .115, .678],
+    0x235D: [.718, 0, .726],
+    0x235E: [.736, .196, .678],
+    0x235F: [.638, .122, .862],
+    0x2360: [.736, .196, .678],
+    0x2361: [.736, .196, .678],
+    0x2362: [.736, .116, .686],
+    0x2363: [.584, .01, .54],
+    0x2364: [.584, .012, .54],
+    0x2365: [.797, .096, .832],
+    0x2366: [.736, .196, .746],
+    0x2367: [.736, .196, .844],
+    0x2368: [.583, -0.187, .554],
+    0x2369: [.736, -0.009, .572],
+    0x236A: [.435, -0.045, .347],
+    0x236B: [.657, .005, .686],
+    0x236C: [.665, .012, .651],
+    0x236D: [.736, .196, .844],
+    0x236E: [.649, .115, .678],
+    0x236F: [.736, .196, .678],
+    0x2370: [.736, .196, .678],
+    0x2371: [.706, .012, .766],
+    0x2372: [.718, 0, .766],
+    0x2373: [.473, .005, .288],
+    0x2374: [.485, .217, .528],
+    0x2375: [.476, .004, .7],
+    0x2376: [.478, .121, .561],
+    0x2377: [.481, .121, .44],
+    0x2378: [.473, .121, .288],
+    0x2379: [.477, .121, .66],
+    0x237A: [.485, .014, .589],
+    0x237B: [.668, .012, .601],
+    0x237C: [.598, .226, .892],
+    0x237D: [.245, 0, .747],
+    0x237E: [.669, 0, .937],
+    0x237F: [.657, 0, .337],
+    0x2380: [.571, .104, .856],
+    0x2381: [.571, -0.061, .96],
+    0x2382: [.571, -0.061, .838],
+    0x2383: [.722, -0.013, 1.115],
+    0x2384: [.657, 0, 1.022],
+    0x2385: [.657, 0, .823],
+    0x2386: [.731, .03, 1.011],
+    0x2387: [.657, 0, .695],
+    0x2388: [.802, .162, .96],
+    0x2389: [.669, .012, .787],
+    0x238A: [.669, .012, .787],
+    0x238B: [.657, .012, .805],
+    0x238C: [.597, -0.036, .778],
+    0x238D: [.657, 0, .858],
+    0x238E: [.657, 0, .746],
+    0x238F: [.657, .058, .813],
+    0x2390: [.655, .06, .813],
+    0x2391: [.655, .06, .813],
+    0x2392: [.657, .058, .813],
+    0x2393: [.395, -0.123, .935],
+    0x2394: [.648, .13, .948],
+    0x2395: [.736, .196, .678],
+    0x2396: [.657, 0, .545],
+    0x2397: [.672, -0.042, .75],
+    0x2398: [.672, -0.042, .75],
+    0x2399: [.677, -0.072, .836],
+    0x239A: [.595, -0.072, .836],
+    0x239B: [1.272, 0, .484],
+    0x239C: [1.25, .001, .484],
+    0x239D: [1.272, 0, .484],
+    0x239E: [1.272, 0, .484],
+    0x239F: [1.25, .001, .484],
+    0x23A0: [1.272, 0, .484],
+    0x23A1: [1.274, 0, .585],
+    0x23A2: [1, 0, .585],
+    0x23A3: [1.274, 0, .585],
+    0x23A4: [1.274, 0, .585],
+    0x23A5: [1, 0, .585],
+    0x23A6: [1.274, 0, .585],
+    0x23A7: [1.274, 0, .6],
+    0x23A8: [1.946, 0, .6],
+    0x23A9: [1.274, 0, .6],
+    0x23AA: [1, 0, .6],
+    0x23AB: [1.274, 0, .6],
+    0x23AC: [1.946, 0, .6],
+    0x23AD: [1.274, 0, .6],
+    0x23AE: [.65, 0, .704],
+    0x23AF: [.293, -0.225, .322],
+    0x23B0: [.717, .308, .614],
+    0x23B1: [.717, .308, .614],
+    0x23B2: [1.536, .005, 1.517],
+    0x23B3: [1.536, .005, 1.517],
+    0x23B4: [.778, -0.588, .63],
+    0x23B5: [-0.062, .252, .63],
+    0x23B6: [.507, -0.011, .948],
+    0x23B7: [.932, .062, .725],
+    0x23B8: [.887, .363, .495],
+    0x23B9: [.887, .363, .495],
+    0x23BA: [.657, -0.582, .725],
+    0x23BB: [.507, -0.432, .725],
+    0x23BC: [.207, -0.132, .725],
+    0x23BD: [.057, .018, .725],
+    0x23BE: [.727, .07, .529],
+    0x23BF: [.727, .07, .529],
+    0x23C0: [.727, .07, .66],
+    0x23C1: [.727, .07, .794],
+    0x23C2: [.727, .07, .794],
+    0x23C3: [.727, .07, .73],
+    0x23C4: [.727, .07, .794],
+    0x23C5: [.727, .07, .794],
+    0x23C6: [.727, .07, .734],
+    0x23C7: [.727, .07, .794],
+    0x23C8: [.727, .07, .794],
+    0x23C9: [.727, .07, .794],
+    0x23CA: [.727, .07, .794],
+    0x23CB: [.727, .07, .529],
+    0x23CC: [.727, .07, .529],
+    0x23CD: [.699, 0, .817],
+    0x23CE: [.748, .231, .948],
+    0x23CF: [.723, -0.108, .634],
+    0x23D0: [.414, -0.103, .523],
+    0x23D1: [.34, -0.184, .573],
+    0x23D2: [.441, -0.184, .573],
+    0x23D3: [.34, -0.07, .573],
+    0x23D4: [.441, -0.184, 1.07],
+    0x23D5: [.34, -0.07, 1.07],
+    0x23D6: [.34, -0.184, .996],
+    0x23D7: [.513, -0.215, 1.07],
+    0x23D8: [.513, -0.215, 1.071],
+    0x23D9: [.513, -0.215, 1.071],
+    0x23DA: [.624, -0.049, .88],
+    0x23DB: [.537, -0.099, 1.211],
+    0x23DC: [.82, -0.583, .632],
+    0x23DD: [-0.06, .297, .632],
+    0x23DE: [.826, -0.588, .63],
+    0x23DF: [-0.062, .3, .63],
+    0x23E0: [.778, -0.576, .63],
+    0x23E1: [-0.062, .264, .63],
+    0x23E2: [.571, .055, 1.171],
+    0x23E3: [.696, .183, .932],
+    0x23E4: [.293, -0.225, 1.12],
+    0x23E5: [.539, .021, 1.042],
+    0x23E6: [.444, -0.073, .948],
+    0x23E7: [.62, .1, .817],
+    0x23E8: [.254, .237, .725],
+    0x23E9: [.583, -0.089, .796],
+    0x23EA: [.583, -0.089, .796],
+    0x23EB: [.691, .015, .614],
+    0x23EC: [.668, .038, .614],
+    0x23ED: [.583, -0.089, 1.003],
+    0x23EE: [.583, -0.089, 1.003],
+    0x23EF: [.583, -0.089, .871],
+    0x23F0: [.657, 0, .722],
+    0x23F1: [.725, .012, .781],
+    0x23F2: [.669, .012, .781],
+    0x23F3: [.657, 0, .606],
+    0x23F4: [.583, -0.089, .503],
+    0x23F5: [.583, -0.089, .503],
+    0x23F6: [.6, -0.113, .5],
+    0x23F7: [.559, -0.072, .5],
+    0x23F8: [.58, -0.094, .63],
+    0x23F9: [.58, -0.094, .63],
+    0x23FA: [.613, -0.062, .63],
+    0x23FB: [.669, .012, .787],
+    0x23FC: [.669, .012, .787],
+    0x23FD: [.669, .012, .304],
+    0x23FE: [.664, .012, .734],
+    0x23FF: [.535, -0.114, .731],
+    0x2422: [.706, .012, .546],
+    0x2423: [.016, .123, .512],
+    0x2460: [.706, .049, .855],
+    0x2461: [.706, .049, .855],
+    0x2462: [.706, .049, .855],
+    0x2463: [.706, .049, .855],
+    0x2464: [.706, .049, .855],
+    0x2465: [.706, .049, .855],
+    0x2466: [.706, .049, .855],
+    0x2467: [.706, .049, .855],
+    0x2468: [.706, .049, .855],
+    0x2469: [.706, .049, .855],
+    0x246A: [.706, .049, .855],
+    0x246B: [.706, .049, .855],
+    0x246C: [.706, .049, .855],
+    0x246D: [.706, .049, .855],
+    0x246E: [.706, .049, .855],
+    0x246F: [.706, .049, .855],
+    0x2470: [.706, .049, .855],
+    0x2471: [.706, .049, .855],
+    0x2472: [.706, .049, .855],
+    0x2473: [.706, .049, .855],
+    0x2474: [.736, .196, 1.039],
+    0x2475: [.736, .196, 1.121],
+    0x2476: [.736, .196, 1.119],
+    0x2477: [.736, .196, 1.159],
+    0x2478: [.736, .196, 1.095],
+    0x2479: [.736, .196, 1.133],
+    0x247A: [.736, .196, 1.108],
+    0x247B: [.736, .196, 1.117],
+    0x247C: [.736, .196, 1.132],
+    0x247D: [.736, .196, 1.568],
+    0x247E: [.736, .196, 1.404],
+    0x247F: [.736, .196, 1.506],
+    0x2480: [.736, .196, 1.494],
+    0x2481: [.736, .196, 1.514],
+    0x2482: [.736, .196, 1.47],
+    0x2483: [.736, .196, 1.513],
+    0x2484: [.736, .196, 1.458],
+    0x2485: [.736, .196, 1.502],
+    0x2486: [.736, .196, 1.517],
+    0x2487: [.736, .196, 1.65],
+    0x2488: [.639, .008, .63],
+    0x2489: [.644, .008, .712],
+    0x248A: [.644, .013, .686],
+    0x248B: [.645, .008, .72],
+    0x248C: [.63, .013, .666],
+    0x248D: [.646, .014, .714],
+    0x248E: [.63, .008, .609],
+    0x248F: [.647, .012, .708],
+    0x2490: [.646, .013, .668],
+    0x2491: [.642, .011, 1.129],
+    0x2492: [.639, .008, .995],
+    0x2493: [.644, .008, 1.097],
+    0x2494: [.644, .013, 1.06],
+    0x2495: [.645, .008, 1.075],
+    0x2496: [.639, .013, 1.041],
+    0x2497: [.646, .014, 1.094],
+    0x2498: [.639, .008, .959],
+    0x2499: [.647, .012, 1.093],
+    0x249A: [.646, .013, 1.053],
+    0x249B: [.644, .011, 1.211],
+    0x249C: [.736, .196, 1.134],
+    0x249D: [.736, .196, 1.176],
+    0x249E: [.736, .196, 1.1],
+    0x249F: [.736, .196, 1.193],
+    0x24A0: [.736, .196, 1.118],
+    0x24A1: [.736, .196, 1.041],
+    0x24A2: [.736, .235, 1.137],
+    0x24A3: [.736, .196, 1.231],
+    0x24A4: [.736, .196, .939],
+    0x24A5: [.736, .235, 1.037],
+    0x24A6: [.736, .196, 1.196],
+    0x24A7: [.736, .196, .937],
+    0x24A8: [.736, .196, 1.506],
+    0x24A9: [.736, .196, 1.23],
+    0x24AA: [.736, .196, 1.168],
+    0x24AB: [.736, .22, 1.191],
+    0x24AC: [.736, .22, 1.175],
+    0x24AD: [.736, .196, 1.034],
+    0x24AE: [.736, .196, 1.049],
+    0x24AF: [.736, .196, .969],
+    0x24B0: [.736, .196, 1.224],
+    0x24B1: [.736, .196, 1.135],
+    0x24B2: [.736, .196, 1.403],
+    0x24B3: [.736, .196, 1.133],
+    0x24B4: [.736, .235, 1.157],
+    0x24B5: [.736, .196, 1.112],
+    0x24B6: [.706, .049, .855],
+    0x24B7: [.706, .049, .855],
+    0x24B8: [.706, .049, .855],
+    0x24B9: [.706, .049, .855],
+    0x24BA: [.706, .049, .855],
+    0x24BB: [.706, .049, .855],
+    0x24BC: [.706, .049, .855],
+    0x24BD: [.706, .049, .855],
+    0x24BE: [.706, .049, .855],
+    0x24BF: [.706, .049, .855],
+    0x24C0: [.706, .049, .855],
+    0x24C1: [.706, .049, .855],
+    0x24C2: [.706, .049, .855],
+    0x24C3: [.706, .049, .855],
+    0x24C4: [.706, .049, .855],
+    0x24C5: [.706, .049, .855],
+    0x24C6: [.706, .049, .855],
+    0x24C7: [.706, .049, .855],
+    0x24C8: [.706, .049, .855],
+    0x24C9: [.706, .049, .855],
+    0x24CA: [.706, .049, .855],
+    0x24CB: [.706, .049, .855],
+    0x24CC: [.706, .049, .855],
+    0x24CD: [.706, .049, .855],
+    0x24CE: [.706, .049, .855],
+    0x24CF: [.706, .049, .855],
+    0x24D0: [.706, .049, .855],
+    0x24D1: [.706, .049, .855],
+    0x24D2: [.706, .049, .855],
+    0x24D3: [.706, .049, .855],
+    0x24D4: [.706, .049, .855],
+    0x24D5: [.706, .049, .855],
+    0x24D6: [.706, .049, .855],
+    0x24D7: [.706, .049, .855],
+    0x24D8: [.706, .049, .855],
+    0x24D9: [.706, .049, .855],
+    0x24DA: [.706, .049, .855],
+    0x24DB: [.706, .049, .855],
+    0x24DC: [.706, .049, .855],
+    0x24DD: [.706, .049, .855],
+    0x24DE: [.706, .049, .855],
+    0x24DF: [.706, .049, .855],
+    0x24E0: [.706, .049, .855],
+    0x24E1: [.706, .049, .855],
+    0x24E2: [.706, .049, .855],
+    0x24E3: [.706, .049, .855],
+    0x24E4: [.706, .049, .855],
+    0x24E5: [.706, .049, .855],
+    0x24E6: [.706, .049, .855],
+    0x24E7: [.706, .049, .855],
+    0x24E8: [.706, .049, .855],
+    0x24E9: [.706, .049, .855],
+    0x24EA: [.706, .049, .855],
+    0x24EB: [.706, .049, .855],
+    0x24EC: [.706, .049, .855],
+    0x24ED: [.706, .049, .855],
+    0x24EE: [.706, .049, .855],
+    0x24EF: [.706, .049, .855],
+    0x24F0: [.706, .049, .855],
+    0x24F1: [.706, .049, .855],
+    0x24F2: [.706, .049, .855],
+    0x24F3: [.706, .049, .855],
+    0x24F4: [.706, .049, .855],
+    0x24F5: [.716, .059, .855],
+    0x24F6: [.716, .059, .855],
+    0x24F7: [.716, .059, .855],
+    0x24F8: [.716, .059, .855],
+    0x24F9: [.716, .059, .855],
+    0x24FA: [.716, .059, .855],
+    0x24FB: [.716, .059, .855],
+    0x24FC: [.716, .059, .855],
+    0x24FD: [.716, .059, .855],
+    0x24FE: [.716, .059, .855],
+    0x24FF: [.706, .049, .855],
+    0x2500: [.348, -0.273, .725],
+    0x2502: [.932, .311, .725],
+    0x2506: [.932, .311, .725],
+    0x2508: [.348, -0.273, .725],
+    0x250A: [.932, .311, .725],
+    0x250C: [.348, .311, .725],
+    0x2510: [.348, .311, .725],
+    0x2514: [.932, -0.273, .725],
+    0x2518: [.932, -0.273, .725],
+    0x251C: [.932, .311, .725],
+    0x2524: [.932, .311, .725],
+    0x252C: [.348, .311, .725],
+    0x2534: [.932, -0.273, .725],
+    0x253C: [.932, .311, .725],
+    0x2550: [.443, -0.178, .725],
+    0x2551: [.932, .311, .725],
+    0x2552: [.443, .311, .725],
+    0x2553: [.348, .311, .725],
+    0x2554: [.443, .311, .725],
+    0x2555: [.443, .311, .725],
+    0x2556: [.348, .311, .725],
+    0x2557: [.443, .311, .725],
+    0x2558: [.932, -0.178, .725],
+    0x2559: [.932, -0.273, .725],
+    0x255A: [.932, -0.178, .725],
+    0x255B: [.932, -0.178, .725],
+    0x255C: [.932, -0.273, .725],
+    0x255D: [.932, -0.178, .725],
+    0x255E: [.932, .311, .725],
+    0x255F: [.932, .311, .725],
+    0x2560: [.932, .311, .725],
+    0x2561: [.932, .311, .725],
+    0x2562: [.932, .311, .725],
+    0x2563: [.932, .311, .725],
+    0x2564: [.443, .311, .725],
+    0x2565: [.348, .311, .725],
+    0x2566: [.443, .311, .725],
+    0x2567: [.932, -0.178, .725],
+    0x2568: [.932, -0.273, .725],
+    0x2569: [.932, -0.178, .725],
+    0x256A: [.932, .311, .725],
+    0x256B: [.932, .311, .725],
+    0x256C: [.932, .311, .725],
+    0x2571: [.932, .311, .725],
+    0x2572: [.932, .311, .725],
+    0x2580: [.932, -0.311, 1.242],
+    0x2584: [.31, .311, 1.242],
+    0x2588: [.932, .311, 1.242],
+    0x258C: [.932, .311, 1.241],
+    0x2590: [.932, .311, 1.241],
+    0x2591: [.88, .264, 1.229],
+    0x2592: [.895, .28, 1.229],
+    0x2593: [.895, .28, 1.229],
+    0x25A0: [.678, .162, .932],
+    0x25A1: [.678, .162, .932],
+    0x25A2: [.678, .162, .932],
+    0x25A3: [.678, .162, .932],
+    0x25A4: [.678, .162, .932],
+    0x25A5: [.678, .162, .932],
+    0x25A6: [.678, .162, .932],
+    0x25A7: [.678, .162, .932],
+    0x25A8: [.678, .162, .932],
+    0x25A9: [.678, .162, .932],
+    0x25AA: [.471, -0.041, .495],
+    0x25AB: [.471, -0.041, .495],
+    0x25AC: [.48, .012, 1.044],
+    0x25AD: [.48, .012, 1.044],
+    0x25AE: [.741, .226, .573],
+    0x25AF: [.741, .226, .573],
+    0x25B0: [.526, .012, 1.167],
+    0x25B1: [.526, .012, 1.167],
+    0x25B2: [.83, .13, 1.172],
+    0x25B3: [.83, .13, 1.172],
+    0x25B4: [.566, -0.028, .676],
+    0x25B5: [.566, -0.028, .676],
+    0x25B6: [.809, .292, 1.068],
+    0x25B7: [.81, .291, 1.068],
+    0x25B8: [.569, .05, .676],
+    0x25B9: [.568, .051, .676],
+    0x25BA: [.568, .051, .952],
+    0x25BB: [.568, .051, .952],
+    0x25BC: [.83, .13, 1.172],
+    0x25BD: [.83, .13, 1.172],
+    0x25BE: [.488, .049, .676],
+    0x25BF: [.488, .049, .676],
+    0x25C0: [.809, .292, 1.068],
+    0x25C1: [.81, .291, 1.068],
+    0x25C2: [.568, .051, .676],
+    0x25C3: [.567, .052, .676],
+    0x25C4: [.568, .051, .952],
+    0x25C5: [.568, .051, .952],
+    0x25C6: [.762, .248, 1.089],
+    0x25C7: [.762, .248, 1.089],
+    0x25C8: [.762, .248, 1.089],
+    0x25C9: [.638, .122, .862],
+    0x25CA: [.814, .296, .809],
+    0x25CB: [.638, .122, .862],
+    0x25CC: [.488, .012, .578],
+    0x25CD: [.696, .18, .932],
+    0x25CE: [.638, .122, .862],
+    0x25CF: [.638, .122, .862],
+    0x25D0: [.638, .122, .862],
+    0x25D1: [.638, .122, .862],
+    0x25D2: [.638, .122, .862],
+    0x25D3: [.638, .122, .862],
+    0x25D4: [.638, .122, .862],
+    0x25D5: [.638, .122, .862],
+    0x25D6: [.696, .18, .594],
+    0x25D7: [.696, .18, .594],
+    0x25D8: [.678, .162, .932],
+    0x25D9: [.678, .162, .932],
+    0x25DA: [.678, -0.258, .932],
+    0x25DB: [.258, .162, .932],
+    0x25DC: [.696, -0.258, .932],
+    0x25DD: [.696, -0.258, .932],
+    0x25DE: [.258, .18, .932],
+    0x25DF: [.258, .18, .932],
+    0x25E0: [.696, -0.257, .932],
+    0x25E1: [.258, .18, .932],
+    0x25E2: [.678, .162, .933],
+    0x25E3: [.678, .162, .933],
+    0x25E4: [.678, .162, .933],
+    0x25E5: [.678, .162, .933],
+    0x25E6: [.454, -0.06, .535],
+    0x25E7: [.678, .161, .932],
+    0x25E8: [.678, .161, .932],
+    0x25E9: [.678, .161, .932],
+    0x25EA: [.678, .161, .932],
+    0x25EB: [.678, .161, .932],
+    0x25EC: [.83, .13, 1.172],
+    0x25ED: [.83, .13, 1.172],
+    0x25EE: [.83, .13, 1.172],
+    0x25EF: [.804, .289, 1.236],
+    0x25F0: [.678, .162, .932],
+    0x25F1: [.678, .162, .932],
+    0x25F2: [.678, .162, .932],
+    0x25F3: [.678, .162, .932],
+    0x25F4: [.638, .122, .862],
+    0x25F5: [.638, .122, .862],
+    0x25F6: [.638, .122, .862],
+    0x25F7: [.638, .122, .862],
+    0x25F8: [.678, .162, .933],
+    0x25F9: [.678, .162, .933],
+    0x25FA: [.678, .162, .933],
+    0x25FB: [.594, .078, .764],
+    0x25FC: [.594, .078, .764],
+    0x25FD: [.525, .013, .615],
+    0x25FE: [.526, .012, .615],
+    0x25FF: [.678, .162, .933],
+    0x2600: [.657, 0, .747],
+    0x2601: [.571, -0.148, .788],
+    0x2602: [.705, .012, .77],
+    0x2603: [.667, .012, .789],
+    0x2604: [.721, .012, .715],
+    0x2605: [.67, .068, .891],
+    0x2606: [.67, .068, .891],
+    0x2607: [.657, 0, .497],
+    0x2608: [.657, 0, .785],
+    0x2609: [.597, .081, .78],
+    0x260A: [.648, -0.018, .892],
+    0x260B: [.648, -0.018, .892],
+    0x260C: [.649, .134, .595],
+    0x260D: [.648, -0.018, .651],
+    0x260E: [.692, 0, 1.024],
+    0x260F: [.669, 0, 1.068],
+    0x2610: [.633, -0.03, .763],
+    0x2611: [.633, -0.03, .763],
+    0x2612: [.678, .162, .932],
+    0x2613: [.685, .011, .693],
+    0x2614: [.809, .012, .77],
+    0x2615: [.75, .012, .661],
+    0x2616: [.668, 0, .739],
+    0x2617: [.668, 0, .739],
+    0x2618: [.663, .008, .71],
+    0x2619: [.588, -0.071, .692],
+    0x261A: [.555, -0.065, 1.014],
+    0x261B: [.555, -0.065, 1.014],
+    0x261C: [.555, -0.065, 1.021],
+    0x261D: [.797, .144, .685],
+    0x261E: [.555, -0.065, 1.021],
+    0x261F: [.764, .177, .685],
+    0x2620: [.669, .012, .766],
+    0x2621: [.645, .036, .634],
+    0x2622: [.669, .012, .781],
+    0x2623: [.669, .012, .811],
+    0x2624: [.706, .012, .819],
+    0x2625: [.668, 0, .481],
+    0x2626: [.657, 0, .501],
+    0x2627: [.657, .01, .58],
+    0x2628: [.657, 0, .491],
+    0x2629: [.657, 0, .731],
+    0x262A: [.67, .012, .749],
+    0x262B: [.66, .031, .821],
+    0x262C: [.718, .012, .697],
+    0x262D: [.661, .007, .786],
+    0x262E: [.669, .012, .781],
+    0x262F: [.669, .012, .785],
+    0x2630: [.657, 0, .89],
+    0x2631: [.657, 0, .89],
+    0x2632: [.657, 0, .89],
+    0x2633: [.657, 0, .89],
+    0x2634: [.657, 0, .89],
+    0x2635: [.657, 0, .89],
+    0x2636: [.657, 0, .89],
+    0x2637: [.657, 0, .89],
+    0x2638: [.666, .015, .762],
+    0x2639: [.745, .084, 1.177],
+    0x263A: [.745, .084, 1.177],
+    0x263B: [.745, .084, 1.177],
+    0x263C: [.638, .125, .857],
+    0x263D: [.745, .084, .656],
+    0x263E: [.745, .084, .656],
+    0x263F: [.719, .203, .617],
+    0x2640: [.653, .138, .617],
+    0x2641: [.653, .138, .617],
+    0x2642: [.649, .134, .676],
+    0x2643: [.749, .18, .993],
+    0x2644: [.812, .144, .993],
+    0x2645: [.657, .166, .843],
+    0x2646: [.778, .113, .86],
+    0x2647: [.747, .113, .647],
+    0x2648: [.778, .113, .987],
+    0x2649: [.658, .143, .799],
+    0x264A: [.657, .019, .865],
+    0x264B: [.653, -0.003, 1.047],
+    0x264C: [.669, .166, .908],
+    0x264D: [.669, .16, 1.127],
+    0x264E: [.662, -0.051, .804],
+    0x264F: [.669, .166, 1.176],
+    0x2650: [.657, .009, .666],
+    0x2651: [.666, .012, .663],
+    0x2652: [.565, -0.092, 1.028],
+    0x2653: [.657, 0, .715],
+    0x2654: [.683, .015, .72],
+    0x2655: [.695, .015, .746],
+    0x2656: [.678, 0, .678],
+    0x2657: [.71, 0, .721],
+    0x2658: [.719, 0, .685],
+    0x2659: [.7, 0, .543],
+    0x265A: [.683, .015, .72],
+    0x265B: [.695, .015, .746],
+    0x265C: [.678, 0, .678],
+    0x265D: [.71, 0, .721],
+    0x265E: [.719, 0, .685],
+    0x265F: [.7, 0, .543],
+    0x2660: [.623, .102, .72],
+    0x2661: [.617, .108, .72],
+    0x2662: [.623, .108, .72],
+    0x2663: [.617, .102, .72],
+    0x2664: [.623, .102, .72],
+    0x2665: [.617, .108, .72],
+    0x2666: [.623, .108, .72],
+    0x2667: [.617, .102, .72],
+    0x2668: [.74, .013, .816],
+    0x2669: [.704, .128, .429],
+    0x266A: [.719, .128, .542],
+    0x266B: [.835, .128, .827],
+    0x266C: [.835, .128, .827],
+    0x266D: [.786, .01, .468],
+    0x266E: [.786, .186, .441],
+    0x266F: [.786, .187, .451],
+    0x2670: [.665, .01, .577],
+    0x2671: [.668, .015, .577],
+    0x2672: [.658, .047, .813],
+    0x2673: [.696, .047, .84],
+    0x2674: [.696, .047, .84],
+    0x2675: [.696, .047, .84],
+    0x2676: [.696, .047, .84],
+    0x2677: [.696, .047, .84],
+    0x2678: [.696, .047, .84],
+    0x2679: [.696, .047, .84],
+    0x267A: [.696, .047, .84],
+    0x267B: [.696, .049, .856],
+    0x267C: [.696, .015, .811],
+    0x267D: [.696, .015, .811],
+    0x267E: [.793, .278, 1.214],
+    0x267F: [.668, .012, .678],
+    0x2680: [.685, .024, 1.057],
+    0x2681: [.685, .024, 1.057],
+    0x2682: [.685, .024, 1.057],
+    0x2683: [.685, .024, 1.057],
+    0x2684: [.685, .024, 1.057],
+    0x2685: [.685, .024, 1.057],
+    0x2686: [.703, .043, 1.057],
+    0x2687: [.703, .043, 1.057],
+    0x2688: [.703, .043, 1.057],
+    0x2689: [.703, .043, 1.057],
+    0x268A: [.388, -0.268, .87],
+    0x268B: [.388, -0.268, .87],
+    0x268C: [.522, -0.134, .87],
+    0x268D: [.522, -0.134, .87],
+    0x268E: [.522, -0.134, .87],
+    0x268F: [.522, -0.134, .87],
+    0x2690: [.657, .17, .686],
+    0x2691: [.657, .17, .686],
+    0x2692: [.658, .01, .834],
+    0x2693: [.669, .012, .738],
+    0x2694: [.658, .014, .809],
+    0x2695: [.706, .042, .466],
+    0x2696: [.736, .001, .923],
+    0x2697: [.669, 0, .736],
+    0x2698: [.669, .001, .664],
+    0x2699: [.657, 0, .767],
+    0x269A: [.706, .012, .8],
+    0x269B: [.795, .113, .925],
+    0x269C: [.77, .081, .781],
+    0x269D: [.774, .075, .896],
+    0x269E: [.629, -0.031, .645],
+    0x269F: [.629, -0.031, .645],
+    0x26A0: [1.047, .159, 1.546],
+    0x26A1: [.654, .02, .52],
+    0x26A2: [.668, .123, .855],
+    0x26A3: [.777, .097, .981],
+    0x26A4: [.854, .188, .93],
+    0x26A5: [.803, .288, .676],
+    0x26A6: [.692, .027, .811],
+    0x26A7: [.807, .182, .942],
+    0x26A8: [.816, .088, .625],
+    0x26A9: [.571, -0.086, .964],
+    0x26AA: [.597, .081, .78],
+    0x26AB: [.597, .081, .78],
+    0x26AC: [.498, -0.014, .578],
+    0x26AD: [.57, -0.086, .825],
+    0x26AE: [.57, -0.086, 1.158],
+    0x26AF: [.57, -0.086, 1.145],
+    0x26B0: [.558, -0.095, 1.111],
+    0x26B1: [.657, 0, .509],
+    0x26B2: [.653, .138, .617],
+    0x26B3: [.669, .122, .524],
+    0x26B4: [.668, .122, .519],
+    0x26B5: [.657, .122, .506],
+    0x26B6: [.657, .024, .688],
+    0x26B7: [.697, .115, .525],
+    0x26B8: [.669, .122, .468],
+    0x26B9: [.595, -0.079, .63],
+    0x26BA: [.606, -0.089, .669],
+    0x26BB: [.586, -0.069, .695],
+    0x26BC: [.657, 0, .651],
+    0x26BD: [.669, .012, .781],
+    0x26BE: [.669, .012, .781],
+    0x26BF: [.657, 0, .817],
+    0x26C0: [.569, -0.086, .728],
+    0x26C1: [.639, -0.018, .748],
+    0x26C2: [.569, -0.086, .728],
+    0x26C3: [.639, -0.018, .748],
+    0x26C4: [.658, .012, .713],
+    0x26C5: [.657, 0, .918],
+    0x26C6: [.571, .053, .788],
+    0x26C7: [.658, .012, .713],
+    0x26C8: [.616, .074, .788],
+    0x26C9: [.657, .011, .739],
+    0x26CA: [.657, .011, .739],
+    0x26CB: [.657, 0, .817],
+    0x26CC: [.657, 0, .717],
+    0x26CD: [.66, 0, 1.031],
+    0x26CE: [.657, .012, .74],
+    0x26CF: [.666, .012, .753],
+    0x26D0: [.697, .012, .863],
+    0x26D1: [.666, .012, .803],
+    0x26D2: [.669, .012, .781],
+    0x26D3: [.657, 0, .746],
+    0x26D4: [.669, .012, .781],
+    0x26D5: [.673, .015, .746],
+    0x26D6: [.687, .029, .775],
+    0x26D7: [.687, .028, .776],
+    0x26D8: [.657, 0, .703],
+    0x26D9: [.657, 0, .703],
+    0x26DA: [.657, 0, .837],
+    0x26DB: [.657, .012, .764],
+    0x26DC: [.657, 0, .751],
+    0x26DD: [.657, 0, .817],
+    0x26DE: [.657, 0, .817],
+    0x26DF: [.657, .012, 1.258],
+    0x26E0: [.657, 0, .78],
+    0x26E1: [.657, 0, .756],
+    0x26E2: [.791, .082, .717],
+    0x26E3: [.657, .012, .638],
+    0x26E4: [.707, .031, .788],
+    0x26E5: [.706, .032, .788],
+    0x26E6: [.706, .032, .788],
+    0x26E7: [.688, .05, .788],
+    0x26E8: [.657, .06, .761],
+    0x26E9: [.666, 0, .837],
+    0x26EA: [.832, 0, .872],
+    0x26EB: [.647, 0, .919],
+    0x26EC: [.663, .005, .797],
+    0x26ED: [.657, 0, .737],
+    0x26EE: [.657, 0, .845],
+    0x26EF: [.657, 0, .737],
+    0x26F0: [.682, 0, .927],
+    0x26F1: [.704, 0, .899],
+    0x26F2: [.668, 0, .78],
+    0x26F3: [.663, .012, .717],
+    0x26F4: [.688, 0, 1.115],
+    0x26F5: [.703, .012, .793],
+    0x26F6: [.657, 0, .817],
+    0x26F7: [.669, .01, .778],
+    0x26F8: [.658, 0, .729],
+    0x26F9: [.669, 0, .649],
+    0x26FA: [.677, .015, .823],
+    0x26FB: [.669, .012, .742],
+    0x26FC: [.657, 0, .784],
+    0x26FD: [.62, 0, .779],
+    0x26FE: [.657, 0, .817],
+    0x26FF: [.657, .17, .686],
+    0x2702: [.626, -0.084, .984],
+    0x2709: [.568, -0.141, .706],
+    0x2713: [.724, .013, .773],
+    0x2720: [.606, .089, .785],
+    0x272A: [.627, .109, .808],
+    0x2736: [.631, .111, .711],
+    0x273D: [.626, .111, .698],
+    0x2772: [.736, .19, .37],
+    0x2773: [.736, .19, .37],
+    0x2776: [.706, .049, .855],
+    0x2777: [.706, .049, .855],
+    0x2778: [.706, .049, .855],
+    0x2779: [.706, .049, .855],
+    0x277A: [.706, .049, .855],
+    0x277B: [.706, .049, .855],
+    0x277C: [.706, .049, .855],
+    0x277D: [.706, .049, .855],
+    0x277E: [.706, .049, .855],
+    0x277F: [.706, .049, .855],
+    0x2780: [.722, .015, .807],
+    0x2781: [.722, .015, .807],
+    0x2782: [.722, .015, .807],
+    0x2783: [.722, .015, .807],
+    0x2784: [.722, .015, .807],
+    0x2785: [.722, .015, .807],
+    0x2786: [.722, .015, .807],
+    0x2787: [.722, .015, .807],
+    0x2788: [.722, .015, .807],
+    0x2789: [.722, .015, .807],
+    0x278A: [.722, .015, .807],
+    0x278B: [.722, .015, .807],
+    0x278C: [.722, .015, .807],
+    0x278D: [.722, .015, .807],
+    0x278E: [.722, .015, .807],
+    0x278F: [.722, .015, .807],
+    0x2790: [.722, .015, .807],
+    0x2791: [.722, .015, .807],
+    0x2792: [.722, .015, .807],
+    0x2793: [.722, .015, .807],
+    0x279B: [.443, -0.071, .94],
+    0x27C0: [.598, 0, .72],
+    0x27C1: [.83, .13, 1.172],
+    0x27C2: [.678, 0, .709],
+    0x27C3: [.541, .028, .72],
+    0x27C4: [.541, .028, .72],
+    0x27C5: [.719, .203, .466],
+    0x27C6: [.719, .203, .466],
+    0x27C7: [.549, .03, .635],
+    0x27C8: [.546, .026, .989],
+    0x27C9: [.546, .026, .989],
+    0x27CB: [.678, .16, .858],
+    0x27CC: [.825, .218, .333],
+    0x27CD: [.678, .16, .858],
+    0x27D0: [.762, .248, 1.089],
+    0x27D1: [.549, .03, .635],
+    0x27D2: [.549, .032, .635],
+    0x27D3: [.598, 0, .72],
+    0x27D4: [.598, 0, .72],
+    0x27D5: [.596, .082, 1.043],
+    0x27D6: [.596, .082, 1.043],
+    0x27D7: [.596, .082, 1.257],
+    0x27D8: [.735, .218, .887],
+    0x27D9: [.735, .218, .887],
+    0x27DA: [.678, 0, 1.409],
+    0x27DB: [.678, 0, 1.409],
+    0x27DC: [.412, -0.105, .869],
+    0x27DD: [.461, -0.058, 1.612],
+    0x27DE: [.461, -0.058, 1.612],
+    0x27DF: [.709, .192, .514],
+    0x27E0: [.814, .296, .809],
+    0x27E1: [.603, .089, .782],
+    0x27E2: [.603, .089, .822],
+    0x27E3: [.603, .089, .822],
+    0x27E4: [.678, .162, 1.21],
+    0x27E5: [.678, .162, 1.21],
+    0x27E6: [.736, .19, .504],
+    0x27E7: [.736, .19, .504],
+    0x27E8: [.736, .196, .339],
+    0x27E9: [.736, .196, .339],
+    0x27EA: [.736, .196, .549],
+    0x27EB: [.736, .196, .549],
+    0x27EC: [.732, .186, .441],
+    0x27ED: [.732, .186, .441],
+    0x27EE: [.729, .186, .255],
+    0x27EF: [.729, .186, .255],
+    0x27F0: [.678, .16, 1.058],
+    0x27F1: [.678, .16, 1.058],
+    0x27F2: [.641, .119, .997],
+    0x27F3: [.641, .119, .997],
+    0x27F4: [.582, .063, 1.229],
+    0x27F5: [.46, -0.059, 1.612],
+    0x27F6: [.46, -0.058, 1.612],
+    0x27F7: [.46, -0.058, 1.612],
+    0x27F8: [.564, .046, 1.612],
+    0x27F9: [.564, .046, 1.612],
+    0x27FA: [.529, .01, 1.612],
+    0x27FB: [.461, -0.058, 1.612],
+    0x27FC: [.461, -0.058, 1.612],
+    0x27FD: [.564, .046, 1.612],
+    0x27FE: [.564, .046, 1.612],
+    0x27FF: [.46, -0.059, 1.612],
+    0x2900: [.461, -0.058, .948],
+    0x2901: [.461, -0.058, .948],
+    0x2902: [.564, .046, .948],
+    0x2903: [.564, .046, .948],
+    0x2904: [.564, .046, .948],
+    0x2905: [.461, -0.058, .948],
+    0x2906: [.564, .046, .948],
+    0x2907: [.564, .046, .948],
+    0x2908: [.678, .16, .523],
+    0x2909: [.678, .16, .523],
+    0x290A: [.678, .16, .948],
+    0x290B: [.678, .16, .948],
+    0x290C: [.46, -0.058, .948],
+    0x290D: [.46, -0.058, .948],
+    0x290E: [.46, -0.058, .948],
+    0x290F: [.46, -0.058, .948],
+    0x2910: [.46, -0.058, 1.446],
+    0x2911: [.46, -0.058, .948],
+    0x2912: [.678, .16, .523],
+    0x2913: [.678, .16, .523],
+    0x2914: [.461, -0.058, .948],
+    0x2915: [.461, -0.058, .948],
+    0x2916: [.46, -0.058, .948],
+    0x2917: [.461, -0.058, .948],
+    0x2918: [.461, -0.058, .948],
+    0x2919: [.46, -0.058, .948],
+    0x291A: [.46, -0.058, .948],
+    0x291B: [.46, -0.058, .948],
+    0x291C: [.46, -0.058, .948],
+    0x291D: [.46, -0.058, .948],
+    0x291E: [.46, -0.058, .948],
+    0x291F: [.461, -0.058, .948],
+    0x2920: [.461, -0.058, .948],
+    0x2921: [.678, .16, .948],
+    0x2922: [.676, .16, .948],
+    0x2923: [.678, .16, .948],
+    0x2924: [.678, .16, .948],
+    0x2925: [.678, .16, .948],
+    0x2926: [.678, .16, .948],
+    0x2927: [.678, .16, .948],
+    0x2928: [.678, .16, .948],
+    0x2929: [.678, .16, .948],
+    0x292A: [.678, .16, .948],
+    0x292B: [.678, .16, .948],
+    0x292C: [.678, .16, .948],
+    0x292D: [.678, .16, .948],
+    0x292E: [.678, .16, .948],
+    0x292F: [.678, .16, .948],
+    0x2930: [.678, .158, .948],
+    0x2931: [.678, .16, .948],
+    0x2932: [.678, .16, .948],
+    0x2933: [.46, -0.058, .948],
+    0x2934: [.575, 0, .948],
+    0x2935: [.575, 0, .948],
+    0x2936: [.505, .167, .803],
+    0x2937: [.505, .167, .803],
+    0x2938: [.673, .157, .523],
+    0x2939: [.673, .157, .523],
+    0x293A: [.433, -0.08, .948],
+    0x293B: [.433, -0.08, .948],
+    0x293C: [.433, -0.065, .948],
+    0x293D: [.433, .03, .948],
+    0x293E: [.576, .119, .948],
+    0x293F: [.576, .119, .948],
+    0x2940: [.807, .119, .948],
+    0x2941: [.807, .119, .948],
+    0x2942: [.612, .094, .948],
+    0x2943: [.612, .094, .948],
+    0x2944: [.612, .094, .948],
+    0x2945: [.46, .071, .948],
+    0x2946: [.46, .071, .948],
+    0x2947: [.46, -0.058, .948],
+    0x2948: [.46, -0.058, .948],
+    0x2949: [.678, .158, .523],
+    0x294A: [.449, -0.068, .948],
+    0x294B: [.449, -0.068, .948],
+    0x294C: [.678, .16, .523],
+    0x294D: [.678, .16, .523],
+    0x294E: [.449, -0.225, .948],
+    0x294F: [.678, .16, .523],
+    0x2950: [.293, -0.068, .948],
+    0x2951: [.678, .16, .523],
+    0x2952: [.459, -0.059, .948],
+    0x2953: [.459, -0.059, .948],
+    0x2954: [.678, .16, .523],
+    0x2955: [.678, .16, .523],
+    0x2956: [.459, -0.059, .948],
+    0x2957: [.459, -0.059, .948],
+    0x2958: [.678, .16, .523],
+    0x2959: [.678, .16, .523],
+    0x295A: [.459, -0.059, .948],
+    0x295B: [.459, -0.059, .948],
+    0x295C: [.678, .16, .523],
+    0x295D: [.678, .16, .523],
+    0x295E: [.459, -0.059, .948],
+    0x295F: [.459, -0.059, .948],
+    0x2960: [.678, .16, .523],
+    0x2961: [.678, .16, .523],
+    0x2962: [.552, .034, .948],
+    0x2963: [.678, .16, .72],
+    0x2964: [.552, .034, .948],
+    0x2965: [.678, .16, .72],
+    0x2966: [.552, -0.123, .948],
+    0x2967: [.395, .034, .948],
+    0x2968: [.552, -0.123, .948],
+    0x2969: [.395, .034, .948],
+    0x296A: [.552, -0.123, .948],
+    0x296B: [.395, .034, .948],
+    0x296C: [.552, -0.123, .948],
+    0x296D: [.395, .034, .948],
+    0x296E: [.678, .16, .72],
+    0x296F: [.678, .16, .72],
+    0x2970: [.395, -0.123, .948],
+    0x2971: [.578, -0.058, .948],
+    0x2972: [.52, -0.058, .948],
+    0x2973: [.46, .002, .948],
+    0x2974: [.46, .002, .948],
+    0x2975: [.46, .145, .948],
+    0x2976: [.621, .29, .72],
+    0x2977: [.545, .027, .948],
+    0x2978: [.622, .289, .72],
+    0x2979: [.642, .269, .72],
+    0x297A: [.545, .027, .948],
+    0x297B: [.642, .269, .72],
+    0x297C: [.523, .005, .948],
+    0x297D: [.523, .005, .948],
+    0x297E: [.595, .077, .72],
+    0x297F: [.595, .077, .72],
+    0x2980: [.711, .194, .608],
+    0x2981: [.498, -0.014, .578],
+    0x2982: [.579, .061, .515],
+    0x2983: [.736, .196, .439],
+    0x2984: [.736, .196, .439],
+    0x2985: [.736, .196, .466],
+    0x2986: [.736, .196, .466],
+    0x2987: [.736, .185, .394],
+    0x2988: [.736, .185, .394],
+    0x2989: [.736, .218, .523],
+    0x298A: [.736, .218, .523],
+    0x298B: [.736, .218, .48],
+    0x298C: [.736, .218, .48],
+    0x298D: [.736, .218, .48],
+    0x298E: [.736, .218, .48],
+    0x298F: [.736, .218, .48],
+    0x2990: [.736, .218, .48],
+    0x2991: [.736, .218, .409],
+    0x2992: [.736, .218, .409],
+    0x2993: [.664, .147, .72],
+    0x2994: [.664, .147, .72],
+    0x2995: [.664, .147, .72],
+    0x2996: [.664, .147, .72],
+    0x2997: [.736, .218, .499],
+    0x2998: [.736, .218, .499],
+    0x2999: [.677, .159, .216],
+    0x299A: [.678, .16, .523],
+    0x299B: [.56, .074, .72],
+    0x299C: [.598, 0, .72],
+    0x299D: [.598, 0, .72],
+    0x299E: [.56, 0, .72],
+    0x299F: [.405, 0, .72],
+    0x29A0: [.529, .014, .72],
+    0x29A1: [.623, -0.012, .72],
+    0x29A2: [.56, 0, .72],
+    0x29A3: [.56, 0, .72],
+    0x29A4: [.56, .205, .72],
+    0x29A5: [.56, .205, .72],
+    0x29A6: [.56, 0, .921],
+    0x29A7: [.56, 0, .921],
+    0x29A8: [.588, .074, .72],
+    0x29A9: [.588, .074, .72],
+    0x29AA: [.592, .07, .72],
+    0x29AB: [.592, .07, .72],
+    0x29AC: [.575, .06, .723],
+    0x29AD: [.575, .06, .723],
+    0x29AE: [.575, .06, .723],
+    0x29AF: [.575, .06, .725],
+    0x29B0: [.597, .081, .78],
+    0x29B1: [.734, .081, .78],
+    0x29B2: [.838, .081, .78],
+    0x29B3: [.852, .081, .78],
+    0x29B4: [.852, .081, .78],
+    0x29B5: [.638, .122, .932],
+    0x29B6: [.638, .122, .862],
+    0x29B7: [.638, .122, .862],
+    0x29B8: [.638, .122, .862],
+    0x29B9: [.638, .122, .862],
+    0x29BA: [.638, .122, .862],
+    0x29BB: [.638, .122, .862],
+    0x29BC: [.638, .122, .862],
+    0x29BD: [.903, .184, .862],
+    0x29BE: [.638, .122, .862],
+    0x29BF: [.638, .122, .862],
+    0x29C0: [.638, .122, .862],
+    0x29C1: [.638, .122, .862],
+    0x29C2: [.638, .122, 1.117],
+    0x29C3: [.638, .122, 1.117],
+    0x29C4: [.678, .162, .932],
+    0x29C5: [.678, .162, .932],
+    0x29C6: [.678, .162, .932],
+    0x29C7: [.678, .162, .932],
+    0x29C8: [.678, .162, .932],
+    0x29C9: [.729, .212, 1.071],
+    0x29CA: [1.027, .13, 1.172],
+    0x29CB: [.83, .265, 1.172],
+    0x29CC: [.83, .13, 1.172],
+    0x29CD: [.83, .13, 1.193],
+    0x29CE: [.715, .198, .798],
+    0x29CF: [.543, .026, .877],
+    0x29D0: [.543, .026, .877],
+    0x29D1: [.596, .082, .829],
+    0x29D2: [.596, .082, .829],
+    0x29D3: [.596, .082, .829],
+    0x29D4: [.596, .082, .829],
+    0x29D5: [.596, .082, .829],
+    0x29D6: [.616, .103, .829],
+    0x29D7: [.616, .103, .829],
+    0x29D8: [.635, .119, .523],
+    0x29D9: [.635, .119, .523],
+    0x29DA: [.635, .119, .704],
+    0x29DB: [.635, .119, .704],
+    0x29DC: [.44, 0, .948],
+    0x29DD: [.668, 0, .948],
+    0x29DE: [.711, .194, .948],
+    0x29DF: [.412, -0.105, 1.172],
+    0x29E0: [.678, .161, .932],
+    0x29E1: [.524, .008, .683],
+    0x29E2: [.424, 0, .809],
+    0x29E3: [.678, .16, .72],
+    0x29E4: [.862, .16, .72],
+    0x29E5: [.678, .16, .72],
+    0x29E6: [.598, .08, .817],
+    0x29E7: [.711, .194, .643],
+    0x29E8: [.83, .13, 1.172],
+    0x29E9: [.83, .13, 1.172],
+    0x29EA: [.762, .247, .78],
+    0x29EB: [.814, .296, .809],
+    0x29EC: [.761, .247, .78],
+    0x29ED: [.761, .247, .78],
+    0x29EE: [.765, .249, .78],
+    0x29EF: [.765, .249, .78],
+    0x29F0: [.765, .249, .78],
+    0x29F1: [.765, .249, .78],
+    0x29F2: [.765, .249, .78],
+    0x29F3: [.765, .249, .78],
+    0x29F4: [.533, .014, .948],
+    0x29F5: [.727, .228, .535],
+    0x29F6: [.783, .082, .532],
+    0x29F7: [.678, .082, .532],
+    0x29F8: [.711, .333, .616],
+    0x29F9: [.711, .333, .616],
+    0x29FA: [.545, .026, .72],
+    0x29FB: [.545, .026, .72],
+    0x29FC: [.736, .196, .426],
+    0x29FD: [.736, .196, .426],
+    0x29FE: [.553, .037, .78],
+    0x29FF: [.323, -0.194, .78],
+    0x2A00: [.781, .265, 1.153],
+    0x2A01: [.781, .265, 1.153],
+    0x2A02: [.781, .265, 1.153],
+    0x2A03: [.786, .271, .946],
+    0x2A04: [.786, .271, .946],
+    0x2A05: [.781, .265, .946],
+    0x2A06: [.781, .265, .946],
+    0x2A07: [.781, .265, 1.208],
+    0x2A08: [.781, .265, 1.208],
+    0x2A09: [.781, .265, 1.045],
+    0x2A0A: [.782, .248, .936],
+    0x2A0B: [1.078, .571, .936],
+    0x2A0C: [.727, .226, 1.68, {ic: .23}],
+    0x2A0D: [.727, .226, .684, {ic: .23}],
+    0x2A0E: [.727, .226, .684, {ic: .23}],
+    0x2A0F: [.727, .226, .684, {ic: .23}],
+    0x2A10: [.727, .226, .684, {ic: .23}],
+    0x2A11: [.727, .226, .684, {ic: .23}],
+    0x2A12: [.727, .226, .684, {ic: .23}],
+    0x2A13: [.727, .226, .684, {ic: .23}],
+    0x2A14: [.727, .226, .711, {ic: .23}],
+    0x2A15: [.727, .226, .684, {ic: .23}],
+    0x2A16: [.727, .226, .684, {ic: .23}],
+    0x2A17: [.727, .226, .864, {ic: .23}],
+    0x2A18: [.727, .226, .684, {ic: .23}],
+    0x2A19: [.727, .226, .684, {ic: .23}],
+    0x2A1A: [.727, .226, .684, {ic: .23}],
+    0x2A1B: [.849, .226, .684, {ic: .23}],
+    0x2A1C: [.727, .347, .684, {ic: .23}],
+    0x2A1D: [.788, .258, 1.3],
+    0x2A1E: [.782, .264, 1.042],
+    0x2A1F: [.579, .298, .515],
+    0x2A20: [.648, .13, 1.205],
+    0x2A21: [.824, .307, .56],
+    0x2A22: [.838, .042, .72],
+    0x2A23: [.724, .042, .72],
+    0x2A24: [.721, .042, .72],
+    0x2A25: [.56, .241, .72],
+    0x2A26: [.56, .203, .72],
+    0x2A27: [.56, .215, .72],
+    0x2A28: [.56, .042, .72],
+    0x2A29: [.569, -0.225, .72],
+    0x2A2A: [.293, .005, .72],
+    0x2A2B: [.523, .005, .72],
+    0x2A2C: [.523, .005, .72],
+    0x2A2D: [.638, .122, .741],
+    0x2A2E: [.638, .122, .741],
+    0x2A2F: [.457, -0.06, .502],
+    0x2A30: [.702, .026, .655],
+    0x2A31: [.541, .133, .655],
+    0x2A32: [.541, .046, .655],
+    0x2A33: [.551, .033, .72],
+    0x2A34: [.638, .122, .69],
+    0x2A35: [.638, .122, .69],
+    0x2A36: [.829, .122, .862],
+    0x2A37: [.77, .254, 1.126],
+    0x2A38: [.638, .122, .862],
+    0x2A39: [.83, .13, 1.172],
+    0x2A3A: [.83, .13, 1.172],
+    0x2A3B: [.83, .13, 1.172],
+    0x2A3C: [.402, -0.118, .614],
+    0x2A3D: [.402, -0.118, .614],
+    0x2A3E: [.499, .174, .307],
+    0x2A3F: [.678, 0, .71],
+    0x2A40: [.549, .032, .635],
+    0x2A41: [.549, .032, .635],
+    0x2A42: [.684, .032, .635],
+    0x2A43: [.684, .032, .635],
+    0x2A44: [.549, .032, .635],
+    0x2A45: [.549, .032, .635],
+    0x2A46: [.936, .416, .635],
+    0x2A47: [.936, .416, .635],
+    0x2A48: [.936, .416, .635],
+    0x2A49: [.936, .416, .635],
+    0x2A4A: [.54, .04, 1.104],
+    0x2A4B: [.539, .041, 1.104],
+    0x2A4C: [.616, .032, .635],
+    0x2A4D: [.549, .1, .635],
+    0x2A4E: [.549, .032, .635],
+    0x2A4F: [.549, .032, .635],
+    0x2A50: [.616, .032, .635],
+    0x2A51: [.727, .03, .635],
+    0x2A52: [.727, .03, .635],
+    0x2A53: [.549, .03, .635],
+    0x2A54: [.549, .03, .635],
+    0x2A55: [.549, .03, .798],
+    0x2A56: [.549, .03, .798],
+    0x2A57: [.549, .03, .723],
+    0x2A58: [.549, .03, .723],
+    0x2A59: [.599, .079, .635],
+    0x2A5A: [.549, .03, .635],
+    0x2A5B: [.549, .03, .635],
+    0x2A5C: [.549, .03, .635],
+    0x2A5D: [.549, .03, .635],
+    0x2A5E: [.815, .03, .635],
+    0x2A5F: [.549, .143, .635],
+    0x2A60: [.549, .296, .635],
+    0x2A61: [.49, 0, .635],
+    0x2A62: [.825, .03, .635],
+    0x2A63: [.549, .296, .635],
+    0x2A64: [.81, .291, 1.068],
+    0x2A65: [.81, .291, 1.068],
+    0x2A66: [.395, .108, .72],
+    0x2A67: [.72, -0.028, .72],
+    0x2A68: [.711, .194, .72],
+    0x2A69: [.678, .16, .72],
+    0x2A6A: [.533, -0.151, .72],
+    0x2A6B: [.533, .014, .72],
+    0x2A6C: [.556, .039, .72],
+    0x2A6D: [.72, .028, .72],
+    0x2A6E: [.867, -0.123, .72],
+    0x2A6F: [.724, -0.025, .72],
+    0x2A70: [.665, .15, .72],
+    0x2A71: [.663, .145, .72],
+    0x2A72: [.663, .145, .72],
+    0x2A73: [.545, .028, .72],
+    0x2A74: [.427, -0.091, 1.039],
+    0x2A75: [.395, -0.123, 1.021],
+    0x2A76: [.395, -0.123, 1.47],
+    0x2A77: [.625, .109, .72],
+    0x2A78: [.72, -0.028, .72],
+    0x2A79: [.545, .027, .72],
+    0x2A7A: [.545, .027, .72],
+    0x2A7B: [.825, .027, .72],
+    0x2A7C: [.825, .027, .72],
+    0x2A7D: [.64, .141, .72],
+    0x2A7E: [.64, .141, .72],
+    0x2A7F: [.64, .141, .72],
+    0x2A80: [.64, .141, .72],
+    0x2A81: [.64, .141, .72],
+    0x2A82: [.64, .141, .72],
+    0x2A83: [.795, .141, .72],
+    0x2A84: [.795, .141, .72],
+    0x2A85: [.764, .282, .72],
+    0x2A86: [.764, .282, .72],
+    0x2A87: [.643, .221, .72],
+    0x2A88: [.643, .221, .72],
+    0x2A89: [.764, .317, .72],
+    0x2A8A: [.764, .317, .72],
+    0x2A8B: [.952, .434, .72],
+    0x2A8C: [.952, .434, .72],
+    0x2A8D: [.764, .18, .72],
+    0x2A8E: [.764, .18, .72],
+    0x2A8F: [.888, .37, .72],
+    0x2A90: [.888, .37, .72],
+    0x2A91: [.864, .346, .72],
+    0x2A92: [.864, .346, .72],
+    0x2A93: [.887, .37, .72],
+    0x2A94: [.887, .37, .72],
+    0x2A95: [.654, .125, .72],
+    0x2A96: [.654, .125, .72],
+    0x2A97: [.654, .125, .72],
+    0x2A98: [.654, .125, .72],
+    0x2A99: [.735, .216, .72],
+    0x2A9A: [.735, .216, .72],
+    0x2A9B: [.743, .226, .72],
+    0x2A9C: [.743, .226, .72],
+    0x2A9D: [.68, .168, .72],
+    0x2A9E: [.68, .168, .72],
+    0x2A9F: [.792, .274, .72],
+    0x2AA0: [.792, .274, .72],
+    0x2AA1: [.545, .027, .72],
+    0x2AA2: [.545, .027, .72],
+    0x2AA3: [.623, .106, .955],
+    0x2AA4: [.545, .027, .801],
+    0x2AA5: [.545, .027, .875],
+    0x2AA6: [.545, .027, .72],
+    0x2AA7: [.545, .027, .72],
+    0x2AA8: [.64, .141, .72],
+    0x2AA9: [.641, .141, .72],
+    0x2AAA: [.55, .032, .72],
+    0x2AAB: [.55, .032, .72],
+    0x2AAC: [.627, .106, .72],
+    0x2AAD: [.627, .106, .72],
+    0x2AAE: [.576, -0.028, .72],
+    0x2AAF: [.623, .106, .72],
+    0x2AB0: [.623, .106, .72],
+    0x2AB1: [.643, .221, .72],
+    0x2AB2: [.643, .221, .72],
+    0x2AB3: [.734, .216, .72],
+    0x2AB4: [.734, .216, .72],
+    0x2AB5: [.765, .266, .72],
+    0x2AB6: [.765, .266, .72],
+    0x2AB7: [.765, .282, .72],
+    0x2AB8: [.765, .282, .72],
+    0x2AB9: [.765, .317, .72],
+    0x2ABA: [.765, .317, .72],
+    0x2ABB: [.545, .027, .955],
+    0x2ABC: [.545, .027, .955],
+    0x2ABD: [.545, .027, .72],
+    0x2ABE: [.545, .027, .72],
+    0x2ABF: [.621, .106, .72],
+    0x2AC0: [.621, .106, .72],
+    0x2AC1: [.621, .106, .72],
+    0x2AC2: [.621, .106, .72],
+    0x2AC3: [.726, .106, .72],
+    0x2AC4: [.726, .106, .72],
+    0x2AC5: [.734, .216, .72],
+    0x2AC6: [.734, .216, .72],
+    0x2AC7: [.681, .168, .72],
+    0x2AC8: [.681, .168, .72],
+    0x2AC9: [.764, .281, .72],
+    0x2ACA: [.764, .281, .72],
+    0x2ACB: [.734, .327, .72],
+    0x2ACC: [.734, .327, .72],
+    0x2ACD: [.571, .055, 1.384],
+    0x2ACE: [.571, .055, 1.384],
+    0x2ACF: [.545, .027, .72],
+    0x2AD0: [.545, .027, .72],
+    0x2AD1: [.623, .106, .72],
+    0x2AD2: [.623, .106, .72],
+    0x2AD3: [.732, .214, .72],
+    0x2AD4: [.732, .214, .72],
+    0x2AD5: [.732, .214, .72],
+    0x2AD6: [.732, .214, .72],
+    0x2AD7: [.545, .027, 1.28],
+    0x2AD8: [.545, .027, 1.28],
+    0x2AD9: [.549, .032, .635],
+    0x2ADA: [.713, .131, .635],
+    0x2ADB: [.711, .1, .635],
+    0x2ADC: [.57, .01, .635],
+    0x2ADD: [.57, .01, .635],
+    0x2ADE: [.678, 0, .509],
+    0x2ADF: [.38, 0, .72],
+    0x2AE0: [.38, 0, .72],
+    0x2AE1: [.678, 0, .72],
+    0x2AE2: [.678, 0, .72],
+    0x2AE3: [.678, 0, .88],
+    0x2AE4: [.678, 0, .72],
+    0x2AE5: [.678, 0, .88],
+    0x2AE6: [.678, 0, .72],
+    0x2AE7: [.584, 0, .72],
+    0x2AE8: [.584, 0, .72],
+    0x2AE9: [.707, .19, .72],
+    0x2AEA: [.678, 0, .72],
+    0x2AEB: [.678, 0, .72],
+    0x2AEC: [.5, -0.018, .614],
+    0x2AED: [.5, -0.018, .614],
+    0x2AEE: [.706, .194, .413],
+    0x2AEF: [.676, .158, .514],
+    0x2AF0: [.676, .158, .514],
+    0x2AF1: [.709, .192, .514],
+    0x2AF2: [.711, .194, .535],
+    0x2AF3: [.711, .194, .72],
+    0x2AF4: [.711, .194, .72],
+    0x2AF5: [.711, .194, .72],
+    0x2AF6: [.622, .105, .72],
+    0x2AF7: [.677, .159, 1.198],
+    0x2AF8: [.677, .159, 1.198],
+    0x2AF9: [.743, .226, .72],
+    0x2AFA: [.743, .226, .72],
+    0x2AFB: [.727, .228, .915],
+    0x2AFC: [.706, .194, .665],
+    0x2AFD: [.727, .228, .726],
+    0x2AFE: [.706, 0, .425],
+    0x2AFF: [.706, .22, .425],
+    0x2B12: [.678, .161, .932],
+    0x2B13: [.678, .161, .932],
+    0x2B14: [.678, .161, .932],
+    0x2B15: [.678, .161, .932],
+    0x2B16: [.762, .248, 1.089],
+    0x2B17: [.762, .248, 1.089],
+    0x2B18: [.762, .248, 1.089],
+    0x2B19: [.762, .248, 1.089],
+    0x2B1A: [.678, .161, .932],
+    0x2B1B: [.798, .185, 1.065],
+    0x2B1C: [.798, .185, 1.065],
+    0x2B1D: [.34, -0.176, .246],
+    0x2B1E: [.34, -0.176, .246],
+    0x2B1F: [.706, .108, .932],
+    0x2B20: [.706, .108, .932],
+    0x2B21: [.696, .183, .932],
+    0x2B22: [.696, .183, .932],
+    0x2B23: [.648, .13, .948],
+    0x2B24: [.804, .289, 1.236],
+    0x2B25: [.595, .099, .797],
+    0x2B26: [.595, .099, .797],
+    0x2B27: [.623, .108, .557],
+    0x2B28: [.623, .108, .557],
+    0x2B29: [.499, -0.016, .535],
+    0x2B2A: [.499, -0.016, .365],
+    0x2B2B: [.499, -0.016, .365],
+    0x2B2C: [.512, -0.004, .862],
+    0x2B2D: [.512, -0.004, .862],
+    0x2B2E: [.638, .122, .61],
+    0x2B2F: [.638, .122, .61],
+    0x2B30: [.459, -0.058, .948],
+    0x2B31: [.756, .238, .948],
+    0x2B32: [.582, .063, 1.229],
+    0x2B33: [.46, -0.059, 1.612],
+    0x2B34: [.461, -0.058, .948],
+    0x2B35: [.461, -0.058, .948],
+    0x2B36: [.461, -0.058, .948],
+    0x2B37: [.46, -0.058, 1.446],
+    0x2B38: [.46, -0.058, .948],
+    0x2B39: [.461, -0.058, .948],
+    0x2B3A: [.461, -0.058, .948],
+    0x2B3B: [.46, -0.058, .948],
+    0x2B3C: [.461, -0.058, .948],
+    0x2B3D: [.461, -0.058, .948],
+    0x2B3E: [.46, -0.058, .948],
+    0x2B3F: [.46, -0.058, .948],
+    0x2B40: [.578, -0.058, .948],
+    0x2B41: [.52, -0.058, .948],
+    0x2B42: [.46, .145, .948],
+    0x2B43: [.545, .027, .948],
+    0x2B44: [.545, .027, .948],
+    0x2B45: [.718, .2, .95],
+    0x2B46: [.718, .2, .95],
+    0x2B47: [.52, -0.058, .948],
+    0x2B48: [.46, .145, .948],
+    0x2B49: [.52, -0.058, .948],
+    0x2B4A: [.46, .145, .948],
+    0x2B4B: [.46, .002, .948],
+    0x2B4C: [.46, .002, .948],
+    0x2B50: [.634, .031, .813],
+    0x2B51: [.634, .031, .813],
+    0x2B52: [.611, .014, .717],
+    0x2B53: [.729, .129, .886],
+    0x2B54: [.729, .13, .886],
+    0x3012: [.678, 0, .72],
+    0x3030: [.427, -0.095, 1.446],
+    0x306E: [.677, .042, .922],
+    0xA727: [.706, .235, .562],
+    0xA792: [.669, .011, .699, {sk: .041}],
+    0xE000: [.624, .026, 1.212],
+    0xE001: [.683, -0.042, 1.212],
+    0xE002: [1.046, 0, 1.22],
+    0xE003: [1.485, 0, 1.342],
+    0xE004: [.461, -0.06, .948],
+    0xE005: [.542, -0.058, .948],
+    0xE00A: [.551, -0.056, .72],
+    0xE00B: [.556, .038, .72],
+    0xE00E: [.866, .348, .72],
+    0xE00F: [.747, .235, .72],
+    0xE010: [.747, .235, .72],
+    0xE011: [.866, .348, .72],
+    0xE016: [.837, .319, .72],
+    0xE018: [.837, .319, .72],
+    0xE01E: [.621, .113, .72],
+    0xE023: [.711, .194, .72],
+    0xE025: [.741, .242, .72],
+    0xE026: [.678, .16, .72],
+    0xE027: [.678, .16, .72],
+    0xE028: [.679, .159, .955],
+    0xE029: [.678, .16, .955],
+    0xE02A: [.678, .16, 1.27],
+    0xE02B: [.678, .16, 1.27],
+    0xE02F: [.678, .16, .72],
+    0xE035: [.616, .101, .497],
+    0xE037: [.678, .16, .72],
+    0xE038: [.706, .194, .749],
+    0xE039: [.678, .16, .72],
+    0xE03A: [.83, .16, .482],
+    0xE03B: [.753, .16, .72],
+    0xE03C: [.678, .16, .72],
+    0xE03D: [.616, .101, .497],
+    0xE040: [.425, -0.094, .72],
+    0xE041: [.933, -0.443, .491],
+    0xE042: [.773, -0.435, .451],
+    0xE043: [.837, .319, .72],
+    0xE044: [.837, .319, .72],
+    0xE045: [.837, .319, .72],
+    0xE046: [.837, .319, .72],
+    0xE04B: [.763, .248, .72],
+    0xE04C: [.865, .349, .72],
+    0xE04D: [.547, .02, .72],
+    0xE04E: [.865, .349, .72],
+    0xE04F: [.763, .248, .72],
+    0xE050: [.678, .16, .72],
+    0xE051: [.678, .16, .72],
+    0xE052: [.574, .057, .72],
+    0xE053: [.461, 0, .647],
+    0xE054: [.528, .01, .704],
+    0xE055: [.486, .015, .584],
+    0xE056: [.47, .012, .647],
+    0xE057: [.47, .013, .639],
+    0xE059: [.747, .23, .72],
+    0xE05A: [.747, .23, .72],
+    0xE05B: [.574, -0.03, .72],
+    0xE05C: [.547, .02, .72],
+    0xE05D: [.47, .01, .463],
+    0xE05E: [.715, -0.56, 0],
+    0xE060: [-0.144, .299, 0],
+    0xE061: [-0.145, .4, 0],
+    0xE062: [-0.145, .498, 0],
+    0xE063: [.751, -0.52, 0],
+    0xE064: [.795, -0.56, 0],
+    0xE065: [-0.145, .38, 0],
+    0xE066: [.788, -0.56, 0],
+    0xE067: [-0.145, .38, 0],
+    0xE068: [.699, .294, .536],
+    0xE06B: [.616, .101, .497],
+    0xE06C: [.616, .101, .497],
+    0xE06D: [.804, .161, .72],
+    0xE06E: [.804, .161, .72],
+    0xE06F: [.804, .132, .72],
+    0xE070: [.804, .132, .72],
+    0xE075: [.641, .122, .72],
+    0xE076: [.641, .122, .72],
+    0xE077: [.742, .242, .72],
+    0xE07C: [.776, .258, .72],
+    0xE07D: [.776, .258, .72],
+    0xE07E: [.749, .233, .72],
+    0xE07F: [.749, .233, .72],
+    0xE080: [.837, .319, .72],
+    0xE081: [.837, .319, .72],
+    0xE082: [.747, .235, .72],
+    0xE083: [.747, .235, .72],
+    0xE084: [.726, .206, .72],
+    0xE085: [.726, .206, .72],
+    0xE086: [.837, .319, .72],
+    0xE087: [.837, .319, .72],
+    0xE088: [.837, .319, .72],
+    0xE089: [.837, .319, .72],
+    0xE092: [.736, .303, .72],
+    0xE093: [.736, .303, .72],
+    0xE094: [.736, .246, .72],
+    0xE095: [.736, .246, .72],
+    0xE096: [.837, .319, .72],
+    0xE097: [.837, .319, .72],
+    0xE098: [.706, .194, .72],
+    0xE099: [.58, .188, .626],
+    0xE09A: [.736, .218, .725],
+    0xE09B: [.736, .218, .725],
+    0xE09F: [.678, .16, .923],
+    0xE0A0: [.678, .16, .923],
+    0xE0A1: [.692, .015, .751],
+    0xE0A2: [.471, .223, .574],
+    0xE0A4: [.481, .239, .387],
+    0xE0A5: [.685, -0.436, .406],
+    0xE0A6: [.221, .148, .454],
+    0xE0A7: [.719, -0.518, .385],
+    0xE0A8: [.678, .16, .508],
+    0xE0A9: [.515, -0.171, .662],
+    0xE0AA: [.719, -0.518, .385],
+    0xE0AB: [.678, .16, .508],
+    0xE0AC: [.719, -0.518, .481],
+    0xE0AD: [.678, .16, .653],
+    0xE0AE: [.678, 0, .433],
+    0xE0AF: [.678, 0, .433],
+    0xE0B0: [.752, -0.543, 0],
+    0xE0B1: [-0.051, .26, 0],
+    0xE0B2: [-0.051, .26, 0],
+    0xE0B3: [.717, .235, .572],
+    0xE0B4: [.569, -0.225, .32],
+    0xE0B5: [.569, -0.225, .32],
+    0xE0B6: [.46, -0.058, 0],
+    0xE0B7: [.332, -0.187, .287],
+    0xE0B8: [.965, .012, 1.376],
+    0xE0B9: [.965, .012, 1.376],
+    0xE0BB: [.637, .104, .72],
+    0xE0BC: [.56, .042, .72],
+    0xE0BD: [.678, .223, .727],
+    0xE0BE: [.775, .223, 1.128],
+    0xE0BF: [.856, .242, .651],
+    0xE0C0: [.856, .242, .651],
+    0xE0C1: [.856, .242, .651],
+    0xE0C2: [.856, .242, .651],
+    0xE0C3: [.395, -0.123, .768],
+    0xE0C4: [.489, -0.028, .768],
+    0xE0C5: [.489, -0.028, .768],
+    0xE0C6: [.293, -0.225, .768],
+    0xE0C7: [.411, -0.123, .768],
+    0xE0C8: [.395, -0.123, 1.024],
+    0xE0C9: [.489, -0.028, 1.024],
+    0xE0CA: [.557, .039, 1.024],
+    0xE0CB: [.395, -0.123, .768],
+    0xE0CC: [.489, -0.028, .768],
+    0xE0CD: [.557, .039, .768],
+    0xE0CE: [.856, .242, .651],
+    0xE0CF: [.856, .242, .651],
+    0xE0D0: [.856, .242, .651],
+    0xE0D1: [.856, .242, .651],
+    0xE0D2: [.708, .191, .948],
+    0xE0D3: [.648, .13, .948],
+    0xE0D4: [.648, .13, .948],
+    0xE0D5: [.293, -0.225, 1.024],
+    0xE0D6: [.395, -0.123, .768],
+    0xE0D7: [.597, .081, .78],
+    0xE0D8: [.598, 0, .409],
+    0xE0D9: [.681, 0, .261],
+    0xE0DA: [.681, 0, .397],
+    0xE0DB: [.624, .107, 1.507],
+    0xE0DC: [.362, -0.155, 1.161],
+    0xE0DD: [.955, 0, .528],
+    0xE0DE: [.955, 0, .512],
+    0xE0DF: [.772, 0, .796],
+    0xE0E0: [.942, 0, .512],
+    0xE0E1: [.775, 0, .398],
+    0xE0E2: [.772, 0, .512],
+    0xE0E3: [.653, .137, .862],
+    0xE0E4: [.791, .082, .717],
+    0xE0E5: [.706, .194, .535],
+    0xE0E6: [.706, .194, .535],
+    0xE0E7: [.83, .13, .79],
+    0xE0E8: [.545, .027, 1.103],
+    0xE0E9: [.56, .042, .72],
+    0xE0EA: [.677, .162, .932],
+    0xE0EB: [.58, .06, .733],
+    0xE0EC: [.882, -0.123, .72],
+    0xE0ED: [.838, .32, .523],
+    0xE0EE: [.769, .16, .948],
+    0xE0EF: [.56, .042, .702],
+    0xE0F1: [.067, 0, .399],
+    0xE0F2: [.958, .161, 1.084],
+    0xE0F3: [.678, .16, 1.084],
+    0xE0F4: [.71, .172, .791],
+    0xE0F5: [.688, .15, .948],
+    0xE0F6: [.765, .117, .931],
+    0xE0F7: [.744, .105, .979],
+    0xE0F8: [.485, .091, .512],
+    0xE0F9: [.696, 0, .785],
+    0xE0FA: [.485, .091, .304],
+    0xE0FB: [.696, 0, 1.792],
+    0xE0FC: [.696, 0, 1.664],
+    0xE0FD: [.696, 0, 1.664],
+    0xE0FE: [.696, 0, 1.664],
+    0xE0FF: [.696, 0, 1.664],
+    0xE100: [.696, 0, 2.081],
+    0xE101: [.696, 0, 1.664],
+    0xE102: [.696, 0, 1.646],
+    0xE103: [.696, 0, 2.351],
+    0xE104: [.419, -0.259, .102],
+    0xE105: [.696, 0, 2.081],
+    0xE106: [.696, 0, 2.081],
+    0xE107: [.696, 0, 1.664],
+    0xE108: [.696, 0, 1.664],
+    0xE109: [.799, .286, .335],
+    0xE10A: [.799, .286, .256],
+    0xE10C: [.393, -0.125, .409],
+    0xE10D: [.393, -0.125, .409],
+    0xE110: [.442, -0.028, .667],
+    0xE111: [.442, -0.028, .667],
+    0xE112: [.678, .16, .948],
+    0xE113: [.678, .16, .948],
+    0xE114: [.678, .16, .948],
+    0xE115: [.678, .16, .948],
+    0xE116: [.219, -0.109, .523],
+    0xE117: [.293, -0.225, .234],
+    0xE118: [.277, -0.137, .283],
+    0xE119: [.277, -0.137, .283],
+    0xE11A: [.678, .16, .523],
+    0xE11B: [.678, .16, .523],
+    0xE11C: [.678, .16, .948],
+    0xE11D: [.678, .16, .948],
+    0xE11E: [.678, .16, .948],
+    0xE11F: [.678, .16, .948],
+    0xE120: [.421, -0.096, .523],
+    0xE121: [.297, -0.222, .318],
+    0xE122: [.391, -0.126, .376],
+    0xE123: [.392, -0.127, .376],
+    0xE124: [.678, .16, .523],
+    0xE125: [.678, .16, .523],
+    0xE126: [.46, -0.058, .948],
+    0xE127: [.46, -0.058, .948],
+    0xE128: [.678, .159, .948],
+    0xE129: [.678, .16, .948],
+    0xE12A: [.678, .16, .948],
+    0xE12B: [.677, .16, .948],
+    0xE12C: [.413, -0.103, .523],
+    0xE12D: [.412, -0.102, .523],
+    0xE12E: [.297, -0.222, .38],
+    0xE12F: [.297, -0.222, .38],
+    0xE130: [.382, -0.137, .388],
+    0xE131: [.382, -0.137, .388],
+    0xE132: [.382, -0.137, .388],
+    0xE133: [.382, -0.137, .388],
+    0xE13A: [.965, .012, .752],
+    0xE13F: [-0.129, .268, .333],
+    0xE14C: [.676, .162, .877],
+    0xE14D: [.676, .162, .877],
+    0xE14E: [.677, .161, .72],
+    0xE14F: [.677, .161, .72],
+    0xE150: [.138, .316, .752],
+    0xE151: [.138, .316, .752],
+    0xE152: [.454, 0, .752],
+    0xE153: [.454, 0, .752],
+    0xE154: [.657, 0, .652, {sk: .094}],
+    0xE155: [.657, 0, .666, {ic: .02, sk: .077}],
+    0xE156: [.657, 0, .599, {ic: .05, sk: .111}],
+    0xE157: [.657, 0, .581, {ic: .08, sk: .12}],
+    0xE158: [.669, .012, .714, {ic: .02, sk: .128}],
+    0xE159: [.657, 0, .309, {ic: .02, sk: .106}],
+    0xE15A: [.657, .012, .519, {ic: .03, sk: .071}],
+    0xE15B: [.657, 0, .721, {ic: .05, sk: .08}],
+    0xE15C: [.657, 0, .568, {sk: -0.024}],
+    0xE15D: [.657, 0, .859, {ic: .02, sk: .091}],
+    0xE15E: [.669, .012, .757, {ic: .025, sk: .102}],
+    0xE15F: [.669, .012, .649, {ic: .015, sk: .096}],
+    0xE160: [.657, 0, .611, {ic: .09, sk: .105}],
+    0xE161: [.657, .012, .685, {ic: .04, sk: .098}],
+    0xE162: [.657, 0, .673, {ic: .1, sk: .104}],
+    0xE163: [.657, 0, .976, {ic: .08, sk: .142}],
+    0xE164: [.657, 0, .674, {ic: .07, sk: .103}],
+    0xE165: [.657, 0, .661, {ic: .1, sk: .1}],
+    0xE166: [.461, .01, .57, {sk: .055}],
+    0xE167: [.706, .01, .598, {sk: .091}],
+    0xE168: [.461, .013, .521, {sk: .065}],
+    0xE169: [.713, 0, .385, {ic: .12, sk: .178}],
+    0xE16A: [.461, .223, .599, {sk: .051}],
+    0xE16B: [.706, 0, .576, {sk: .092}],
+    0xE16C: [.706, 0, .57, {sk: .095}],
+    0xE16D: [.706, 0, .285, {ic: .035, sk: .118}],
+    0xE16E: [.465, 0, .878, {sk: .051}],
+    0xE16F: [.465, 0, .577, {sk: .062}],
+    0xE170: [.461, .013, .551, {sk: .065}],
+    0xE171: [.461, .22, .597, {sk: .052}],
+    0xE172: [.462, .22, .605, {sk: .058}],
+    0xE173: [.465, 0, .436, {sk: .082}],
+    0xE174: [.461, .01, .5, {sk: .065}],
+    0xE175: [.648, .013, .359, {sk: .101}],
+    0xE176: [.455, .011, .576, {sk: .052}],
+    0xE177: [.455, 0, .482, {ic: .045, sk: .059}],
+    0xE178: [.455, 0, .712, {ic: .035, sk: .064}],
+    0xE179: [.455, 0, .518, {sk: .056}],
+    0xE17A: [.455, .221, .498, {ic: .045, sk: .061}],
+    0xE17B: [.455, 0, .478, {sk: .071}],
+    0xE17C: [.699, .01, .511],
+    0xE17D: [.657, 0, .554, {sk: .013}],
+    0xE17E: [.657, 0, .599, {sk: -0.009}],
+    0xE17F: [.657, 0, .508, {sk: .036}],
+    0xE180: [.657, 0, .6, {sk: .01}],
+    0xE181: [.657, 0, .537, {sk: .022}],
+    0xE182: [.657, 0, .55, {sk: .015}],
+    0xE183: [.657, 0, .665, {sk: -0.002}],
+    0xE184: [.668, .012, .678, {sk: .001}],
+    0xE185: [.657, 0, .268, {sk: .001}],
+    0xE186: [.657, 0, .591, {sk: .005}],
+    0xE187: [.657, 0, .525, {sk: .008}],
+    0xE188: [.657, 0, .741],
+    0xE189: [.657, 0, .66, {sk: .005}],
+    0xE18A: [.657, 0, .543, {sk: -0.001}],
+    0xE18B: [.668, .012, .678, {sk: .001}],
+    0xE18C: [.657, 0, .658, {sk: .006}],
+    0xE18D: [.657, 0, .578, {sk: .001}],
+    0xE18E: [.668, .012, .678, {sk: .001}],
+    0xE18F: [.657, 0, .548, {sk: .006}],
+    0xE190: [.657, 0, .547, {sk: .002}],
+    0xE191: [.657, 0, .485, {sk: .003}],
+    0xE192: [.678, .022, .733, {sk: .004}],
+    0xE193: [.657, 0, .523, {sk: .009}],
+    0xE194: [.657, 0, .712, {sk: .004}],
+    0xE195: [.668, 0, .692, {sk: -0.001}],
+    0xE196: [.485, .012, .543, {sk: .009}],
+    0xE197: [.718, .204, .547, {sk: .007}],
+    0xE198: [.485, .204, .469, {sk: .016}],
+    0xE199: [.718, .012, .514, {sk: .033}],
+    0xE19A: [.485, .012, .434, {sk: .023}],
+    0xE19B: [.706, .179, .41, {sk: .045}],
+    0xE19C: [.485, .204, .524, {sk: .008}],
+    0xE19D: [.718, .012, .505, {sk: .008}],
+    0xE19E: [.474, .012, .254, {sk: .003}],
+    0xE19F: [.485, .008, .478, {sk: .021}],
+    0xE1A0: [.718, .008, .479, {sk: -0.049}],
+    0xE1A1: [.474, .204, .544, {sk: -0.002}],
+    0xE1A2: [.485, 0, .459, {sk: .011}],
+    0xE1A3: [.706, .179, .417, {sk: .032}],
+    0xE1A4: [.485, .012, .518, {sk: .001}],
+    0xE1A5: [.468, .012, .567, {sk: .017}],
+    0xE1A6: [.485, .204, .532, {sk: .014}],
+    0xE1A7: [.485, .176, .418, {sk: .031}],
+    0xE1A8: [.47, .012, .529, {sk: .006}],
+    0xE1A9: [.468, .012, .445, {sk: .008}],
+    0xE1AA: [.485, .012, .494, {sk: -0.007}],
+    0xE1AB: [.489, .204, .659, {sk: .006}],
+    0xE1AC: [.485, .216, .466, {sk: .007}],
+    0xE1AD: [.619, .204, .667, {sk: .002}],
+    0xE1AE: [.485, .012, .678, {sk: .001}],
+    0xE1AF: [.485, .012, .454, {sk: .028}],
+    0xE1B0: [.718, .012, .505, {sk: -0.002}],
+    0xE1B1: [.619, .204, .659, {sk: .001}],
+    0xE1B2: [.485, .223, .501, {sk: .005}],
+    0xE1B3: [.468, .012, .728, {sk: .006}],
+    0xE1B4: [.669, .012, .691, {ic: .04, sk: .135}],
+    0xE1B5: [.657, 0, .717, {ic: .02, sk: .092}],
+    0xE1B6: [.657, 0, .693, {ic: .02, sk: .104}],
+    0xE1B7: [.657, 0, .667, {ic: .04, sk: .082}],
+    0xE1B8: [.669, .065, .757, {ic: .025, sk: .102}],
+    0xE1B9: [.657, 0, .72, {ic: .025, sk: .055}],
+    0xE1BA: [.657, 0, .629, {ic: .045, sk: .116}],
+    0xE1BB: [.657, 0, .54, {ic: .085, sk: .09}],
+    0xE1BE: [.706, .012, .513, {sk: .074}],
+    0xE1BF: [.657, 0, .522, {sk: .109}],
+    0xE1C0: [.657, 0, .596, {ic: .01, sk: .062}],
+    0xE1C1: [.657, 0, .489, {ic: .07, sk: .126}],
+    0xE1C2: [.657, 0, .54, {sk: .105}],
+    0xE1C3: [.657, 0, .515, {ic: .04, sk: .103}],
+    0xE1C4: [.657, 0, .525, {ic: .035, sk: .098}],
+    0xE1C5: [.657, 0, .637, {ic: .01, sk: .092}],
+    0xE1C6: [.669, .012, .655, {ic: .015, sk: .093}],
+    0xE1C7: [.657, 0, .259, {ic: .01, sk: .091}],
+    0xE1C8: [.657, 0, .572, {ic: .05, sk: .094}],
+    0xE1C9: [.657, 0, .499, {sk: .111}],
+    0xE1CA: [.657, 0, .721, {ic: .01, sk: .095}],
+    0xE1CB: [.657, 0, .633, {ic: .01, sk: .094}],
+    0xE1CC: [.657, 0, .525, {ic: .025, sk: .098}],
+    0xE1CD: [.668, .012, .648, {ic: .015, sk: .096}],
+    0xE1CE: [.657, 0, .64, {ic: .01, sk: .095}],
+    0xE1CF: [.657, 0, .564, {ic: .03, sk: .078}],
+    0xE1D0: [.669, .012, .655, {ic: .015, sk: .093}],
+    0xE1D1: [.657, 0, .532, {ic: .02, sk: .089}],
+    0xE1D2: [.657, 0, .522, {ic: .08, sk: .099}],
+    0xE1D3: [.657, 0, .472, {ic: .09, sk: .094}],
+    0xE1D4: [.679, .021, .72, {ic: .02, sk: .105}],
+    0xE1D5: [.657, 0, .506, {ic: .06, sk: .092}],
+    0xE1D6: [.657, 0, .685, {ic: .06, sk: .098}],
+    0xE1D7: [.669, 0, .679, {ic: .015, sk: .086}],
+    0xE1D8: [.485, .012, .524, {sk: .078}],
+    0xE1D9: [.718, .204, .525, {ic: .02, sk: .108}],
+    0xE1DA: [.485, .208, .451, {sk: .055}],
+    0xE1DB: [.718, .012, .492, {ic: .03, sk: .149}],
+    0xE1DC: [.485, .012, .396, {sk: .092}],
+    0xE1DD: [.712, .182, .393, {ic: .09, sk: .154}],
+    0xE1DE: [.485, .204, .509, {sk: .066}],
+    0xE1DF: [.718, .012, .503, {ic: .025, sk: .124}],
+    0xE1E0: [.474, .012, .243, {sk: .069}],
+    0xE1E1: [.483, .008, .452, {sk: .074}],
+    0xE1E2: [.718, .008, .419, {sk: .041}],
+    0xE1E3: [.474, .204, .507, {sk: .067}],
+    0xE1E4: [.485, .007, .441, {sk: .045}],
+    0xE1E5: [.695, .182, .393, {ic: .095, sk: .134}],
+    0xE1E6: [.485, .012, .498, {sk: .071}],
+    0xE1E7: [.468, .012, .543, {sk: .079}],
+    0xE1E8: [.485, .204, .519, {sk: .076}],
+    0xE1E9: [.485, .182, .414, {sk: .093}],
+    0xE1EA: [.47, .012, .52, {sk: .06}],
+    0xE1EB: [.468, .012, .428, {sk: .061}],
+    0xE1EC: [.484, .012, .484, {sk: .048}],
+    0xE1ED: [.501, .204, .621, {sk: .085}],
+    0xE1EE: [.485, .216, .429, {sk: .056}],
+    0xE1EF: [.619, .204, .62, {sk: .085}],
+    0xE1F0: [.485, .012, .654, {sk: .058}],
+    0xE1F1: [.485, .012, .431, {sk: .095}],
+    0xE1F2: [.718, .012, .488, {ic: .025, sk: .106}],
+    0xE1F3: [.619, .204, .634, {sk: .093}],
+    0xE1F4: [.485, .223, .519, {sk: .081}],
+    0xE1F5: [.468, .012, .716, {sk: .062}],
+    0xE1F6: [.657, 0, .6],
+    0xE28C: [.485, -0.232, 0],
+    0xE28D: [.751, -0.495, 0],
+    0xE28E: [.637, .104, .72],
+    0xE28F: [.138, 0, .333],
+    0xE290: [.138, 0, .648],
+    0xE291: [.978, -0.839, .333],
+    0xE292: [.678, 0, 1.421],
+    0xE293: [.781, .266, 1.84],
+    0xE2FC: [.788, .194, .718, {sk: .001}],
+    0xE2FE: [.788, .194, .618, {sk: .001}],
+    0xE300: [.788, .194, .569, {sk: .016}],
+    0xE302: [.788, .194, .667, {sk: .007}],
+    0xE304: [.788, .194, .626, {sk: .017}],
+    0xE306: [.788, .194, .594, {sk: .013}],
+    0xE308: [.788, .194, .777, {sk: .012}],
+    0xE30A: [.788, .194, .738, {sk: .001}],
+    0xE30C: [.788, .194, .357, {sk: .007}],
+    0xE30E: [.788, .194, .702, {sk: .019}],
+    0xE310: [.788, .194, .71, {sk: -0.005}],
+    0xE312: [.788, .194, .895, {sk: -0.007}],
+    0xE314: [.788, .194, .742, {sk: .009}],
+    0xE316: [.788, .194, .648, {sk: .006}],
+    0xE318: [.788, .194, .737, {sk: .002}],
+    0xE31A: [.788, .194, .759, {sk: .001}],
+    0xE31C: [.788, .194, .569, {sk: .016}],
+    0xE31E: [.788, .194, .604, {sk: .013}],
+    0xE320: [.788, .194, .603, {sk: -0.001}],
+    0xE322: [.788, .194, .647, {sk: .027}],
+    0xE324: [.788, .194, .718, {sk: .001}],
+    0xE326: [.788, .194, .664, {sk: .018}],
+    0xE328: [.788, .194, .72],
+    0xE32A: [.788, .194, .777, {sk: .002}],
+    0xE364: [.788, .194, .577, {sk: .037}],
+    0xE368: [.788, .194, .588, {sk: .041}],
+    0xE36C: [.788, .194, .525, {sk: .018}],
+    0xE370: [.788, .194, .697, {sk: .012}],
+    0xE3C2: [.678, .16, .72],
+    0xE3C3: [.642, .138, .72],
+    0xE3C4: [.642, .138, .72],
+    0xE3C7: [.678, .16, .923],
+    0xE3C8: [.678, .16, .923],
+    0xFB00: [.713, 0, .609],
+    0xFB01: [.717, 0, .592],
+    0xFB02: [.713, 0, .604],
+    0xFB03: [.717, 0, .894],
+    0xFB04: [.713, 0, .906],
+    0xFFFD: [.678, .222, .893],
+    0x1D400: [.662, 0, .749, {sk: .001}],
+    0x1D401: [.657, 0, .672, {sk: -0.006}],
+    0x1D402: [.669, .012, .685, {sk: .038}],
+    0x1D403: [.657, 0, .766, {sk: -0.023}],
+    0x1D404: [.657, 0, .66, {sk: .02}],
+    0x1D405: [.657, 0, .618, {sk: .031}],
+    0x1D406: [.669, .011, .739, {sk: .001}],
+    0x1D407: [.657, 0, .844, {sk: -0.002}],
+    0x1D408: [.657, 0, .405, {sk: .003}],
+    0x1D409: [.657, .013, .47, {sk: .045}],
+    0x1D40A: [.657, 0, .786, {sk: .007}],
+    0x1D40B: [.657, 0, .648, {sk: -0.119}],
+    0x1D40C: [.657, 0, .996, {sk: -0.008}],
+    0x1D40D: [.657, .007, .795, {sk: .013}],
+    0x1D40E: [.669, .014, .748, {sk: .001}],
+    0x1D40F: [.657, 0, .648, {sk: .006}],
+    0x1D410: [.669, .175, .748, {sk: .001}],
+    0x1D411: [.657, 0, .729, {sk: -0.014}],
+    0x1D412: [.668, .013, .529, {sk: -0.004}],
+    0x1D413: [.657, 0, .659, {sk: .001}],
+    0x1D414: [.657, .014, .799, {sk: .036}],
+    0x1D415: [.657, .005, .71, {sk: .035}],
+    0x1D416: [.657, .008, 1.046, {sk: .022}],
+    0x1D417: [.657, 0, .7, {sk: .02}],
+    0x1D418: [.657, 0, .676, {sk: .032}],
+    0x1D419: [.657, 0, .618, {sk: .021}],
+    0x1D41A: [.486, .011, .528, {sk: -0.014}],
+    0x1D41B: [.706, .011, .566, {sk: -0.003}],
+    0x1D41C: [.486, .011, .496, {sk: .017}],
+    0x1D41D: [.706, .01, .576, {sk: .012}],
+    0x1D41E: [.485, .011, .503, {sk: .009}],
+    0x1D41F: [.717, 0, .376, {sk: .102}],
+    0x1D420: [.482, .235, .531, {sk: -0.005}],
+    0x1D421: [.706, 0, .632, {sk: -0.016}],
+    0x1D422: [.701, 0, .331, {sk: -0.005}],
+    0x1D423: [.701, .235, .284, {sk: .008}],
+    0x1D424: [.706, 0, .605, {sk: -0.002}],
+    0x1D425: [.706, 0, .327, {sk: -0.013}],
+    0x1D426: [.485, 0, .93, {sk: -0.015}],
+    0x1D427: [.485, 0, .631, {sk: -0.005}],
+    0x1D428: [.485, .01, .54],
+    0x1D429: [.486, .22, .574, {sk: .003}],
+    0x1D42A: [.485, .22, .574, {sk: .013}],
+    0x1D42B: [.488, 0, .43, {sk: .015}],
+    0x1D42C: [.485, .012, .428, {sk: -0.004}],
+    0x1D42D: [.615, .014, .369, {sk: -0.004}],
+    0x1D42E: [.478, .01, .619, {sk: -0.009}],
+    0x1D42F: [.473, .007, .566, {sk: .017}],
+    0x1D430: [.473, .007, .877, {sk: .012}],
+    0x1D431: [.473, 0, .555, {sk: .008}],
+    0x1D432: [.473, .235, .569, {sk: .026}],
+    0x1D433: [.473, 0, .476, {sk: .017}],
+    0x1D434: [.661, 0, .681, {sk: .14}],
+    0x1D435: [.657, 0, .593, {ic: .03, sk: .084}],
+    0x1D436: [.67, .011, .656, {ic: .05, sk: .152}],
+    0x1D437: [.657, 0, .702, {ic: .02, sk: .069}],
+    0x1D438: [.657, 0, .614, {ic: .03, sk: .103}],
+    0x1D439: [.657, 0, .583, {ic: .065, sk: .119}],
+    0x1D43A: [.67, .011, .697, {ic: .025, sk: .132}],
+    0x1D43B: [.657, 0, .757, {ic: .045, sk: .102}],
+    0x1D43C: [.657, 0, .343, {ic: .045, sk: .099}],
+    0x1D43D: [.657, .012, .398, {ic: .06, sk: .136}],
+    0x1D43E: [.657, 0, .655, {ic: .065, sk: .123}],
+    0x1D43F: [.657, 0, .569, {sk: .006}],
+    0x1D440: [.657, 0, .869, {ic: .045, sk: .086}],
+    0x1D441: [.657, .008, .714, {ic: .065, sk: .103}],
+    0x1D442: [.669, .012, .707, {ic: .02, sk: .097}],
+    0x1D443: [.657, 0, .569, {ic: .035, sk: .096}],
+    0x1D444: [.669, .173, .707, {ic: .02, sk: .097}],
+    0x1D445: [.657, 0, .62, {ic: .015, sk: .07}],
+    0x1D446: [.667, .015, .534, {ic: .03, sk: .108}],
+    0x1D447: [.657, 0, .61, {ic: .065, sk: .1}],
+    0x1D448: [.657, .012, .731, {ic: .075, sk: .115}],
+    0x1D449: [.657, .005, .64, {ic: .1, sk: .12}],
+    0x1D44A: [.657, .006, .913, {ic: .1, sk: .094}],
+    0x1D44B: [.657, 0, .637, {ic: .08, sk: .112}],
+    0x1D44C: [.657, 0, .607, {ic: .11, sk: .117}],
+    0x1D44D: [.657, 0, .606, {ic: .035, sk: .097}],
+    0x1D44E: [.479, .012, .555, {sk: .063}],
+    0x1D44F: [.705, .012, .518, {ic: .005, sk: .091}],
+    0x1D450: [.479, .012, .414, {sk: .083}],
+    0x1D451: [.705, .012, .556, {ic: .02, sk: .102}],
+    0x1D452: [.479, .012, .424, {sk: .088}],
+    0x1D453: [.711, .225, .577, {ic: .02, sk: .182}],
+    0x1D454: [.479, .225, .503, {sk: .049}],
+    0x1D456: [.665, .009, .274, {ic: .02, sk: .083}],
+    0x1D457: [.665, .225, .431, {ic: .02, sk: .145}],
+    0x1D458: [.705, .01, .533, {ic: .005, sk: .084}],
+    0x1D459: [.705, .009, .278, {ic: .02, sk: .081}],
+    0x1D45A: [.479, .01, .83, {sk: .065}],
+    0x1D45B: [.479, .01, .565, {sk: .058}],
+    0x1D45C: [.479, .01, .486, {sk: .057}],
+    0x1D45D: [.479, .22, .598, {sk: .111}],
+    0x1D45E: [.479, .22, .517, {sk: .082}],
+    0x1D45F: [.479, 0, .412, {sk: .059}],
+    0x1D460: [.479, .011, .386, {sk: .072}],
+    0x1D461: [.593, .009, .338, {ic: .015, sk: .061}],
+    0x1D462: [.477, .01, .565, {sk: .053}],
+    0x1D463: [.479, .009, .504, {ic: .015, sk: .068}],
+    0x1D464: [.479, .009, .727, {ic: .015, sk: .077}],
+    0x1D465: [.479, .01, .559, {ic: .01, sk: .066}],
+    0x1D466: [.482, .22, .51, {ic: .015, sk: .075}],
+    0x1D467: [.467, 0, .493, {ic: .01, sk: .064}],
+    0x1D468: [.662, 0, .709, {sk: .126}],
+    0x1D469: [.657, 0, .655, {ic: .03, sk: .093}],
+    0x1D46A: [.669, .012, .692, {ic: .05, sk: .149}],
+    0x1D46B: [.657, 0, .754, {ic: .02, sk: .063}],
+    0x1D46C: [.657, 0, .646, {ic: .03, sk: .112}],
+    0x1D46D: [.657, 0, .611, {ic: .065, sk: .13}],
+    0x1D46E: [.669, .011, .727, {ic: .025, sk: .122}],
+    0x1D46F: [.657, 0, .818, {ic: .045, sk: .101}],
+    0x1D470: [.657, 0, .389, {ic: .045, sk: .106}],
+    0x1D471: [.657, .013, .468, {ic: .06, sk: .136}],
+    0x1D472: [.657, 0, .727, {ic: .065, sk: .117}],
+    0x1D473: [.657, 0, .636, {sk: -0.018}],
+    0x1D474: [.657, 0, .968, {ic: .045, sk: .086}],
+    0x1D475: [.657, .007, .761, {ic: .065, sk: .115}],
+    0x1D476: [.669, .014, .749, {ic: .02, sk: .116}],
+    0x1D477: [.657, 0, .642, {ic: .035, sk: .099}],
+    0x1D478: [.669, .175, .748, {ic: .02, sk: .116}],
+    0x1D479: [.657, 0, .694, {ic: .015, sk: .073}],
+    0x1D47A: [.668, .013, .562, {ic: .03, sk: .109}],
+    0x1D47B: [.657, 0, .665, {ic: .065, sk: .108}],
+    0x1D47C: [.657, .014, .77, {ic: .075, sk: .125}],
+    0x1D47D: [.657, .005, .697, {ic: .1, sk: .137}],
+    0x1D47E: [.657, .008, .997, {ic: .1, sk: .127}],
+    0x1D47F: [.657, 0, .654, {ic: .08, sk: .123}],
+    0x1D480: [.657, 0, .652, {ic: .11, sk: .129}],
+    0x1D481: [.657, 0, .637, {ic: .035, sk: .117}],
+    0x1D482: [.481, .015, .608, {sk: .066}],
+    0x1D483: [.705, .014, .578, {ic: .005, sk: .091}],
+    0x1D484: [.481, .014, .462, {sk: .079}],
+    0x1D485: [.705, .014, .608, {ic: .02, sk: .096}],
+    0x1D486: [.482, .015, .479, {sk: .071}],
+    0x1D487: [.712, .23, .695, {ic: .01, sk: .203}],
+    0x1D488: [.479, .23, .527, {sk: .047}],
+    0x1D489: [.706, .012, .637, {ic: .005, sk: .102}],
+    0x1D48A: [.698, .012, .35, {ic: .02, sk: .085}],
+    0x1D48B: [.698, .23, .5, {ic: .07, sk: .2}],
+    0x1D48C: [.705, .01, .633, {ic: .005, sk: .084}],
+    0x1D48D: [.705, .012, .334, {ic: .02, sk: .083}],
+    0x1D48E: [.482, .012, .897, {sk: .062}],
+    0x1D48F: [.481, .012, .632, {sk: .049}],
+    0x1D490: [.481, .013, .53, {sk: .055}],
+    0x1D491: [.481, .22, .648, {sk: .096}],
+    0x1D492: [.481, .22, .548, {sk: .076}],
+    0x1D493: [.479, 0, .478, {sk: .051}],
+    0x1D494: [.481, .016, .474, {sk: .078}],
+    0x1D495: [.593, .014, .371, {ic: .001, sk: .06}],
+    0x1D496: [.479, .012, .653, {sk: .054}],
+    0x1D497: [.481, .011, .568, {ic: .015, sk: .071}],
+    0x1D498: [.483, .009, .801, {ic: .015, sk: .09}],
+    0x1D499: [.483, .011, .604, {ic: .01, sk: .058}],
+    0x1D49A: [.485, .22, .631, {ic: .015, sk: .105}],
+    0x1D49B: [.468, .086, .496, {ic: .01, sk: .062}],
+    0x1D49C: [.673, .012, .778, {ic: .02, sk: .251}],
+    0x1D49E: [.669, .012, .63, {ic: .04, sk: .13}],
+    0x1D49F: [.695, 0, .84, {ic: .03, sk: .12}],
+    0x1D4A2: [.669, .133, .615, {ic: .04, sk: .118}],
+    0x1D4A5: [.664, .127, .551, {ic: .05, sk: .165}],
+    0x1D4A6: [.67, .01, .857, {ic: .04, sk: .172}],
+    0x1D4A9: [.675, .009, .909, {ic: .055, sk: .136}],
+    0x1D4AA: [.669, .012, .737, {ic: .03, sk: .112}],
+    0x1D4AB: [.697, .009, .703, {ic: .03, sk: .159}],
+    0x1D4AC: [.669, .051, .697, {ic: .03, sk: .097}],
+    0x1D4AE: [.669, .013, .572, {ic: .02, sk: .114}],
+    0x1D4AF: [.684, .016, .714, {ic: .065, sk: .143}],
+    0x1D4B0: [.672, .012, .764, {ic: .045, sk: .118}],
+    0x1D4B1: [.669, .011, .675, {ic: .07, sk: .143}],
+    0x1D4B2: [.669, .006, 1.014, {ic: .07, sk: .133}],
+    0x1D4B3: [.669, .009, .772, {ic: .04, sk: .134}],
+    0x1D4B4: [.674, .13, .642, {ic: .05, sk: .109}],
+    0x1D4B5: [.669, .011, .693, {ic: .01, sk: .094}],
+    0x1D4B6: [.479, .012, .666, {sk: .117}],
+    0x1D4B7: [.71, .015, .602, {ic: .02, sk: .129}],
+    0x1D4B8: [.479, .012, .583, {sk: .149}],
+    0x1D4B9: [.71, .012, .71, {ic: .11, sk: .155}],
+    0x1D4BB: [.71, .225, .506, {ic: .11, sk: .237}],
+    0x1D4BD: [.71, .017, .693, {ic: .02, sk: .164}],
+    0x1D4BE: [.682, .011, .379, {ic: .02, sk: .091}],
+    0x1D4BF: [.682, .225, .404, {ic: .02, sk: .118}],
+    0x1D4C0: [.71, .017, .685, {ic: .02, sk: .168}],
+    0x1D4C1: [.71, .012, .422, {ic: .08, sk: .194}],
+    0x1D4C2: [.479, .017, .858, {sk: .071}],
+    0x1D4C3: [.479, .017, .625, {sk: .078}],
+    0x1D4C5: [.516, .225, .612, {sk: .074}],
+    0x1D4C6: [.512, .22, .623, {sk: .139}],
+    0x1D4C7: [.479, .017, .505, {ic: .05, sk: .113}],
+    0x1D4C8: [.492, .012, .469, {sk: .116}],
+    0x1D4C9: [.571, .012, .519, {ic: .015, sk: .121}],
+    0x1D4CA: [.479, .012, .635, {sk: .063}],
+    0x1D4CB: [.479, .012, .617, {ic: .04, sk: .047}],
+    0x1D4CC: [.479, .012, .861, {ic: .04, sk: .07}],
+    0x1D4CD: [.479, .05, .596, {sk: .052}],
+    0x1D4CE: [.479, .225, .63, {sk: .065}],
+    0x1D4CF: [.479, .023, .55, {sk: .075}],
+    0x1D4D0: [.673, .014, .827, {ic: .02, sk: .237}],
+    0x1D4D1: [.697, 0, .796, {ic: .02, sk: .142}],
+    0x1D4D2: [.669, .012, .668, {ic: .04, sk: .136}],
+    0x1D4D3: [.697, 0, .867, {ic: .03, sk: .117}],
+    0x1D4D4: [.669, .012, .601, {ic: .03, sk: .13}],
+    0x1D4D5: [.697, .016, .768, {ic: .07, sk: .186}],
+    0x1D4D6: [.668, .133, .671, {ic: .03, sk: .1}],
+    0x1D4D7: [.665, .014, 1.003, {ic: .05, sk: .159}],
+    0x1D4D8: [.664, .014, .554, {ic: .06, sk: .163}],
+    0x1D4D9: [.664, .133, .568, {ic: .05, sk: .166}],
+    0x1D4DA: [.668, .014, .926, {ic: .05, sk: .147}],
+    0x1D4DB: [.668, .014, .71, {ic: .01, sk: .125}],
+    0x1D4DC: [.668, .014, 1.057, {ic: .06, sk: .122}],
+    0x1D4DD: [.668, .014, .919, {ic: .065, sk: .141}],
+    0x1D4DE: [.669, .012, .787, {ic: .03, sk: .107}],
+    0x1D4DF: [.697, .014, .777, {ic: .03, sk: .152}],
+    0x1D4E0: [.669, .073, .718, {ic: .03, sk: .086}],
+    0x1D4E1: [.697, .014, .887, {ic: .02, sk: .107}],
+    0x1D4E2: [.669, .012, .59, {ic: .01, sk: .115}],
+    0x1D4E3: [.697, .016, .768, {ic: .065, sk: .146}],
+    0x1D4E4: [.672, .014, .817, {ic: .054, sk: .107}],
+    0x1D4E5: [.668, .011, .717, {ic: .075, sk: .132}],
+    0x1D4E6: [.668, .005, 1.047, {ic: .075, sk: .127}],
+    0x1D4E7: [.668, .014, .822, {ic: .04, sk: .124}],
+    0x1D4E8: [.674, .133, .698, {ic: .05, sk: .096}],
+    0x1D4E9: [.668, .014, .706, {ic: .01, sk: .097}],
+    0x1D4EA: [.481, .011, .751, {sk: .085}],
+    0x1D4EB: [.71, .017, .652, {ic: .02, sk: .114}],
+    0x1D4EC: [.48, .012, .648, {sk: .126}],
+    0x1D4ED: [.71, .011, .773, {ic: .11, sk: .144}],
+    0x1D4EE: [.481, .012, .596, {sk: .082}],
+    0x1D4EF: [.71, .225, .561, {ic: .11, sk: .23}],
+    0x1D4F0: [.481, .225, .72, {sk: .1}],
+    0x1D4F1: [.71, .017, .751, {ic: .02, sk: .145}],
+    0x1D4F2: [.726, .011, .431, {ic: .02, sk: .095}],
+    0x1D4F3: [.726, .225, .425, {ic: .02, sk: .118}],
+    0x1D4F4: [.71, .017, .744, {ic: .02, sk: .148}],
+    0x1D4F5: [.71, .011, .461, {ic: .08, sk: .195}],
+    0x1D4F6: [.481, .017, .965, {sk: .058}],
+    0x1D4F7: [.481, .017, .706, {sk: .077}],
+    0x1D4F8: [.481, .012, .762, {sk: .079}],
+    0x1D4F9: [.515, .225, .681, {sk: .05}],
+    0x1D4FA: [.515, .22, .703, {sk: .109}],
+    0x1D4FB: [.481, .017, .569, {ic: .05, sk: .096}],
+    0x1D4FC: [.496, .011, .501, {sk: .11}],
+    0x1D4FD: [.571, .011, .529, {ic: .015, sk: .126}],
+    0x1D4FE: [.481, .011, .727, {sk: .057}],
+    0x1D4FF: [.482, .012, .641, {ic: .04, sk: .06}],
+    0x1D500: [.482, .012, .904, {ic: .04, sk: .078}],
+    0x1D501: [.481, .05, .636, {sk: .077}],
+    0x1D502: [.481, .225, .695, {sk: .063}],
+    0x1D503: [.479, .025, .55, {sk: .085}],
+    0x1D504: [.671, .023, .697, {sk: .072}],
+    0x1D505: [.68, .023, .725, {sk: .068}],
+    0x1D507: [.671, .023, .767, {sk: .037}],
+    0x1D508: [.67, .023, .645, {sk: .038}],
+    0x1D509: [.671, .207, .677, {sk: .002}],
+    0x1D50A: [.671, .023, .712, {sk: .024}],
+    0x1D50D: [.662, .197, .682, {sk: .029}],
+    0x1D50E: [.671, .022, .747, {sk: .037}],
+    0x1D50F: [.671, .024, .591, {sk: .035}],
+    0x1D510: [.67, .023, .956, {sk: .052}],
+    0x1D511: [.669, .022, .732, {sk: .064}],
+    0x1D512: [.666, .023, .73, {sk: .025}],
+    0x1D513: [.669, .198, .727, {sk: .057}],
+    0x1D514: [.666, .062, .766, {sk: .007}],
+    0x1D516: [.671, .023, .754, {sk: .043}],
+    0x1D517: [.671, .024, .676, {sk: .032}],
+    0x1D518: [.671, .023, .697, {sk: .022}],
+    0x1D519: [.67, .023, .734, {sk: .073}],
+    0x1D51A: [.67, .023, .95, {sk: .075}],
+    0x1D51B: [.671, .026, .675, {sk: .033}],
+    0x1D51C: [.67, .197, .678, {sk: .041}],
+    0x1D51E: [.487, .02, .516, {sk: .002}],
+    0x1D51F: [.715, .02, .503, {sk: -0.001}],
+    0x1D520: [.494, .02, .37, {sk: .025}],
+    0x1D521: [.715, .02, .499, {sk: .021}],
+    0x1D522: [.493, .02, .394, {sk: .008}],
+    0x1D523: [.713, .231, .319, {sk: .041}],
+    0x1D524: [.487, .231, .486, {sk: .037}],
+    0x1D525: [.715, .231, .504, {sk: .018}],
+    0x1D526: [.695, .019, .388, {sk: -0.009}],
+    0x1D527: [.695, .214, .334, {sk: .033}],
+    0x1D528: [.715, .02, .44, {sk: -0.005}],
+    0x1D529: [.715, .02, .403, {sk: -0.001}],
+    0x1D52A: [.487, .031, .883, {sk: .009}],
+    0x1D52B: [.487, .031, .647, {sk: .007}],
+    0x1D52C: [.487, .02, .493, {sk: .014}],
+    0x1D52D: [.608, .231, .538, {sk: .031}],
+    0x1D52E: [.487, .231, .505, {sk: .018}],
+    0x1D52F: [.487, .02, .45, {sk: .025}],
+    0x1D530: [.636, .02, .511, {sk: .015}],
+    0x1D531: [.66, .02, .378, {sk: .011}],
+    0x1D532: [.491, .02, .636, {sk: .002}],
+    0x1D533: [.608, .02, .504, {sk: .008}],
+    0x1D534: [.608, .029, .742, {sk: .019}],
+    0x1D535: [.487, .191, .444, {sk: -0.002}],
+    0x1D536: [.608, .231, .5, {sk: .02}],
+    0x1D537: [.488, .231, .453, {sk: .014}],
+    0x1D538: [.657, 0, .647, {sk: .007}],
+    0x1D539: [.657, 0, .672, {sk: -0.016}],
+    0x1D53B: [.657, 0, .722, {sk: -0.031}],
+    0x1D53C: [.657, 0, .603, {sk: .019}],
+    0x1D53D: [.657, 0, .585, {sk: .028}],
+    0x1D53E: [.669, .012, .714, {sk: .023}],
+    0x1D540: [.657, 0, .311, {sk: .005}],
+    0x1D541: [.657, .012, .523, {sk: -0.001}],
+    0x1D542: [.657, 0, .718, {sk: -0.009}],
+    0x1D543: [.657, 0, .572, {sk: -0.126}],
+    0x1D544: [.657, 0, .854, {sk: .003}],
+    0x1D546: [.669, .012, .751, {sk: .005}],
+    0x1D54A: [.669, .012, .642, {sk: .019}],
+    0x1D54B: [.657, 0, .609, {sk: .001}],
+    0x1D54C: [.657, .012, .683, {sk: .009}],
+    0x1D54D: [.657, 0, .672, {sk: .024}],
+    0x1D54E: [.657, 0, .976, {sk: .052}],
+    0x1D54F: [.657, 0, .667, {sk: .017}],
+    0x1D550: [.657, 0, .66, {sk: .02}],
+    0x1D552: [.467, .01, .556, {sk: .022}],
+    0x1D553: [.699, .01, .592, {sk: .004}],
+    0x1D554: [.465, .01, .508, {sk: .011}],
+    0x1D555: [.699, .01, .588, {sk: .016}],
+    0x1D556: [.465, .013, .521, {sk: .01}],
+    0x1D557: [.713, 0, .375, {sk: .073}],
+    0x1D558: [.465, .223, .597, {sk: .012}],
+    0x1D559: [.706, 0, .562, {sk: .009}],
+    0x1D55A: [.688, 0, .28],
+    0x1D55B: [.688, .222, .28, {sk: -0.005}],
+    0x1D55C: [.706, 0, .569, {sk: .006}],
+    0x1D55D: [.706, 0, .28, {sk: .01}],
+    0x1D55E: [.465, 0, .856, {sk: .002}],
+    0x1D55F: [.465, 0, .564, {sk: .008}],
+    0x1D560: [.465, .013, .547, {sk: -0.003}],
+    0x1D561: [.465, .22, .597, {sk: -0.008}],
+    0x1D562: [.465, .22, .598, {sk: .011}],
+    0x1D563: [.465, 0, .433, {sk: .019}],
+    0x1D564: [.465, .01, .508, {sk: .006}],
+    0x1D565: [.648, .013, .353, {sk: .004}],
+    0x1D566: [.455, .011, .563, {sk: -0.001}],
+    0x1D567: [.456, 0, .483, {sk: .009}],
+    0x1D568: [.455, 0, .715, {sk: .033}],
+    0x1D569: [.456, 0, .518, {sk: .001}],
+    0x1D56A: [.456, .221, .499, {sk: .011}],
+    0x1D56B: [.455, 0, .485, {sk: .018}],
+    0x1D56C: [.678, .025, .771, {sk: .065}],
+    0x1D56D: [.676, .018, .754, {sk: .053}],
+    0x1D56E: [.682, .018, .692, {sk: .044}],
+    0x1D56F: [.679, .018, .79, {sk: .017}],
+    0x1D570: [.682, .018, .707, {sk: .047}],
+    0x1D571: [.679, .196, .715, {sk: .023}],
+    0x1D572: [.679, .018, .742, {sk: .019}],
+    0x1D573: [.679, .197, .747, {sk: .047}],
+    0x1D574: [.679, .02, .702, {sk: .049}],
+    0x1D575: [.681, .198, .714, {sk: .043}],
+    0x1D576: [.679, .025, .765, {sk: .038}],
+    0x1D577: [.679, .025, .623, {sk: .019}],
+    0x1D578: [.679, .025, 1.009, {sk: .026}],
+    0x1D579: [.679, .025, .767, {sk: .047}],
+    0x1D57A: [.672, .018, .79, {sk: .015}],
+    0x1D57B: [.679, .198, .754, {sk: .043}],
+    0x1D57C: [.672, .056, .833, {sk: -0.006}],
+    0x1D57D: [.676, .025, .782, {sk: .039}],
+    0x1D57E: [.682, .018, .75, {sk: .03}],
+    0x1D57F: [.682, .025, .705, {sk: .028}],
+    0x1D580: [.678, .023, .772, {sk: .029}],
+    0x1D581: [.679, .018, .758, {sk: .051}],
+    0x1D582: [.679, .018, .998, {sk: .081}],
+    0x1D583: [.679, .023, .733, {sk: .034}],
+    0x1D584: [.679, .199, .752, {sk: .054}],
+    0x1D585: [.679, .187, .671, {sk: .045}],
+    0x1D586: [.485, .02, .605, {sk: -0.007}],
+    0x1D587: [.717, .02, .561, {sk: -0.01}],
+    0x1D588: [.484, .02, .476, {sk: .012}],
+    0x1D589: [.714, .02, .549, {sk: .026}],
+    0x1D58A: [.492, .02, .48],
+    0x1D58B: [.718, .231, .373, {sk: .034}],
+    0x1D58C: [.485, .231, .57, {sk: .035}],
+    0x1D58D: [.715, .231, .58, {sk: .01}],
+    0x1D58E: [.718, .025, .435, {sk: -0.007}],
+    0x1D58F: [.718, .219, .404, {sk: .028}],
+    0x1D590: [.715, .02, .48, {sk: -0.01}],
+    0x1D591: [.715, .02, .444, {sk: -0.002}],
+    0x1D592: [.485, .02, .964, {sk: -0.002}],
+    0x1D593: [.485, .02, .697, {sk: .002}],
+    0x1D594: [.485, .02, .558, {sk: .001}],
+    0x1D595: [.605, .231, .646, {sk: .037}],
+    0x1D596: [.485, .231, .578, {sk: .011}],
+    0x1D597: [.485, .02, .535, {sk: .013}],
+    0x1D598: [.658, .02, .558, {sk: .021}],
+    0x1D599: [.651, .02, .454, {sk: -0.027}],
+    0x1D59A: [.489, .02, .697, {sk: -0.008}],
+    0x1D59B: [.605, .02, .577, {sk: .012}],
+    0x1D59C: [.605, .029, .856, {sk: .022}],
+    0x1D59D: [.485, .214, .525, {sk: .008}],
+    0x1D59E: [.605, .231, .602, {sk: .019}],
+    0x1D59F: [.485, .231, .484, {sk: -0.002}],
+    0x1D5A0: [.657, 0, .556, {sk: .007}],
+    0x1D5A1: [.657, 0, .601, {sk: -0.01}],
+    0x1D5A2: [.668, .012, .584, {sk: .048}],
+    0x1D5A3: [.657, 0, .63, {sk: -0.025}],
+    0x1D5A4: [.657, 0, .539, {sk: .021}],
+    0x1D5A5: [.657, 0, .506, {sk: .037}],
+    0x1D5A6: [.668, .012, .631, {sk: .035}],
+    0x1D5A7: [.657, 0, .667, {sk: .002}],
+    0x1D5A8: [.657, 0, .27],
+    0x1D5A9: [.657, .012, .491, {sk: -0.005}],
+    0x1D5AA: [.657, 0, .593, {sk: .004}],
+    0x1D5AB: [.657, 0, .497, {sk: .012}],
+    0x1D5AC: [.657, 0, .743, {sk: .004}],
+    0x1D5AD: [.657, 0, .662, {sk: .004}],
+    0x1D5AE: [.668, .012, .68],
+    0x1D5AF: [.657, 0, .58],
+    0x1D5B0: [.668, .165, .68],
+    0x1D5B1: [.657, 0, .583, {sk: -0.001}],
+    0x1D5B2: [.668, .012, .546, {sk: .017}],
+    0x1D5B3: [.657, 0, .549, {sk: .001}],
+    0x1D5B4: [.657, .012, .66],
+    0x1D5B5: [.657, 0, .527, {sk: .007}],
+    0x1D5B6: [.657, 0, .804, {sk: .003}],
+    0x1D5B7: [.657, 0, .525, {sk: .008}],
+    0x1D5B8: [.657, 0, .487, {sk: .007}],
+    0x1D5B9: [.657, 0, .552, {sk: .014}],
+    0x1D5BA: [.485, .012, .488, {sk: .006}],
+    0x1D5BB: [.706, .012, .536, {sk: -0.008}],
+    0x1D5BC: [.485, .012, .441, {sk: .03}],
+    0x1D5BD: [.706, .012, .537, {sk: .012}],
+    0x1D5BE: [.485, .012, .48, {sk: .015}],
+    0x1D5BF: [.718, 0, .282, {sk: .074}],
+    0x1D5C0: [.485, .229, .488, {sk: .011}],
+    0x1D5C1: [.694, 0, .527, {sk: -0.003}],
+    0x1D5C2: [.675, 0, .239, {sk: .011}],
+    0x1D5C3: [.675, .229, .239, {sk: .011}],
+    0x1D5C4: [.706, 0, .479, {sk: .021}],
+    0x1D5C5: [.706, .012, .247, {sk: .007}],
+    0x1D5C6: [.485, 0, .803, {sk: -0.001}],
+    0x1D5C7: [.485, 0, .529, {sk: .006}],
+    0x1D5C8: [.485, .012, .525, {sk: -0.002}],
+    0x1D5C9: [.485, .22, .537, {sk: .002}],
+    0x1D5CA: [.485, .22, .537, {sk: .002}],
+    0x1D5CB: [.485, 0, .336, {sk: .042}],
+    0x1D5CC: [.485, .012, .406, {sk: .007}],
+    0x1D5CD: [.607, .012, .327, {sk: .007}],
+    0x1D5CE: [.474, .012, .527, {sk: -0.003}],
+    0x1D5CF: [.474, 0, .453, {sk: .004}],
+    0x1D5D0: [.474, 0, .696, {sk: .002}],
+    0x1D5D1: [.474, 0, .433, {sk: .004}],
+    0x1D5D2: [.474, .224, .453, {sk: .004}],
+    0x1D5D3: [.469, 0, .411, {sk: .015}],
+    0x1D5D4: [.657, 0, .58],
+    0x1D5D5: [.657, 0, .616, {sk: -0.008}],
+    0x1D5D6: [.669, .012, .592, {sk: .054}],
+    0x1D5D7: [.657, 0, .645, {sk: -0.022}],
+    0x1D5D8: [.657, 0, .556, {sk: .012}],
+    0x1D5D9: [.657, 0, .531, {sk: .025}],
+    0x1D5DA: [.669, .012, .649, {sk: .036}],
+    0x1D5DB: [.657, 0, .684, {sk: .003}],
+    0x1D5DC: [.657, 0, .301],
+    0x1D5DD: [.657, .012, .515, {sk: .003}],
+    0x1D5DE: [.657, 0, .622, {sk: .009}],
+    0x1D5DF: [.657, 0, .524, {sk: -0.002}],
+    0x1D5E0: [.657, 0, .773, {sk: .004}],
+    0x1D5E1: [.657, 0, .676, {sk: .002}],
+    0x1D5E2: [.669, .012, .696, {sk: .002}],
+    0x1D5E3: [.657, 0, .604, {sk: -0.002}],
+    0x1D5E4: [.669, .181, .696, {sk: .002}],
+    0x1D5E5: [.657, 0, .619, {sk: -0.009}],
+    0x1D5E6: [.669, .012, .564, {sk: .013}],
+    0x1D5E7: [.657, 0, .565, {sk: -0.002}],
+    0x1D5E8: [.657, .012, .676, {sk: .002}],
+    0x1D5E9: [.657, 0, .561, {sk: .005}],
+    0x1D5EA: [.657, 0, .827, {sk: .007}],
+    0x1D5EB: [.657, 0, .57, {sk: .01}],
+    0x1D5EC: [.657, 0, .528, {sk: .001}],
+    0x1D5ED: [.657, 0, .553, {sk: .014}],
+    0x1D5EE: [.485, .012, .509, {sk: .006}],
+    0x1D5EF: [.706, .012, .553, {sk: -0.006}],
+    0x1D5F0: [.485, .012, .452, {sk: .034}],
+    0x1D5F1: [.706, .012, .553, {sk: .024}],
+    0x1D5F2: [.485, .012, .499, {sk: .011}],
+    0x1D5F3: [.717, 0, .324, {sk: .068}],
+    0x1D5F4: [.485, .229, .515, {sk: .003}],
+    0x1D5F5: [.706, 0, .551, {sk: -0.005}],
+    0x1D5F6: [.701, 0, .264, {sk: .008}],
+    0x1D5F7: [.687, .229, .265, {sk: .008}],
+    0x1D5F8: [.706, 0, .524, {sk: .008}],
+    0x1D5F9: [.706, .012, .273, {sk: .009}],
+    0x1D5FA: [.485, 0, .827, {sk: .007}],
+    0x1D5FB: [.485, 0, .552, {sk: .004}],
+    0x1D5FC: [.485, .012, .537, {sk: .002}],
+    0x1D5FD: [.485, .22, .553, {sk: .004}],
+    0x1D5FE: [.485, .22, .553, {sk: .004}],
+    0x1D5FF: [.485, 0, .38, {sk: .04}],
+    0x1D600: [.485, .012, .426, {sk: .012}],
+    0x1D601: [.607, .012, .365, {sk: .008}],
+    0x1D602: [.473, .012, .548, {sk: .001}],
+    0x1D603: [.473, 0, .5, {sk: .005}],
+    0x1D604: [.473, 0, .745, {sk: .008}],
+    0x1D605: [.473, 0, .49, {sk: .005}],
+    0x1D606: [.473, .228, .499, {sk: .006}],
+    0x1D607: [.468, 0, .441, {sk: .02}],
+    0x1D608: [.657, 0, .522, {sk: .109}],
+    0x1D609: [.657, 0, .596, {ic: .01, sk: .062}],
+    0x1D60A: [.668, .012, .563, {ic: .03, sk: .129}],
+    0x1D60B: [.657, 0, .606, {ic: .015, sk: .057}],
+    0x1D60C: [.657, 0, .515, {ic: .04, sk: .103}],
+    0x1D60D: [.657, 0, .485, {ic: .07, sk: .118}],
+    0x1D60E: [.668, .012, .602, {ic: .01, sk: .119}],
+    0x1D60F: [.657, 0, .637, {ic: .01, sk: .092}],
+    0x1D610: [.657, 0, .259, {ic: .01, sk: .091}],
+    0x1D611: [.657, .012, .467, {ic: .02, sk: .087}],
+    0x1D612: [.657, 0, .572, {ic: .05, sk: .094}],
+    0x1D613: [.657, 0, .474, {ic: .005, sk: .103}],
+    0x1D614: [.657, 0, .721, {ic: .01, sk: .095}],
+    0x1D615: [.657, 0, .633, {ic: .01, sk: .094}],
+    0x1D616: [.668, .012, .648, {ic: .015, sk: .096}],
+    0x1D617: [.657, 0, .564, {ic: .03, sk: .078}],
+    0x1D618: [.668, .163, .648, {ic: .015, sk: .096}],
+    0x1D619: [.657, 0, .568, {ic: .025, sk: .076}],
+    0x1D61A: [.668, .012, .518, {ic: .015, sk: .101}],
+    0x1D61B: [.657, 0, .522, {ic: .08, sk: .099}],
+    0x1D61C: [.657, .012, .63, {ic: .02, sk: .095}],
+    0x1D61D: [.657, 0, .508, {ic: .09, sk: .086}],
+    0x1D61E: [.657, 0, .774, {ic: .07, sk: .093}],
+    0x1D61F: [.657, 0, .506, {ic: .06, sk: .092}],
+    0x1D620: [.657, 0, .472, {ic: .09, sk: .094}],
+    0x1D621: [.657, 0, .525, {ic: .035, sk: .098}],
+    0x1D622: [.485, .012, .52, {sk: .08}],
+    0x1D623: [.706, .012, .519, {ic: .005, sk: .091}],
+    0x1D624: [.485, .012, .421, {sk: .095}],
+    0x1D625: [.706, .012, .518, {ic: .025, sk: .141}],
+    0x1D626: [.485, .012, .465, {sk: .073}],
+    0x1D627: [.718, 0, .274, {ic: .11, sk: .173}],
+    0x1D628: [.485, .229, .476, {sk: .062}],
+    0x1D629: [.706, 0, .506, {sk: .097}],
+    0x1D62A: [.673, 0, .229, {ic: .025, sk: .106}],
+    0x1D62B: [.673, .229, .35, {ic: .025, sk: .155}],
+    0x1D62C: [.706, 0, .461, {ic: .005, sk: .12}],
+    0x1D62D: [.706, .012, .24, {ic: .025, sk: .11}],
+    0x1D62E: [.485, 0, .774, {sk: .053}],
+    0x1D62F: [.485, 0, .509, {sk: .066}],
+    0x1D630: [.485, .012, .499, {sk: .066}],
+    0x1D631: [.485, .22, .518, {sk: .051}],
+    0x1D632: [.485, .22, .52, {sk: .07}],
+    0x1D633: [.485, 0, .331, {ic: .03, sk: .105}],
+    0x1D634: [.485, .012, .389, {sk: .061}],
+    0x1D635: [.605, .012, .314, {ic: .02, sk: .093}],
+    0x1D636: [.474, .012, .511, {sk: .055}],
+    0x1D637: [.474, 0, .434, {ic: .035, sk: .053}],
+    0x1D638: [.474, 0, .684, {ic: .015, sk: .048}],
+    0x1D639: [.474, 0, .416, {ic: .035, sk: .067}],
+    0x1D63A: [.474, .224, .434, {ic: .04, sk: .053}],
+    0x1D63B: [.468, 0, .397, {ic: .01, sk: .087}],
+    0x1D63C: [.657, 0, .553, {sk: .104}],
+    0x1D63D: [.657, 0, .613, {ic: .01, sk: .064}],
+    0x1D63E: [.669, .012, .577, {ic: .03, sk: .132}],
+    0x1D63F: [.657, 0, .626, {ic: .015, sk: .057}],
+    0x1D640: [.657, 0, .534, {ic: .04, sk: .103}],
+    0x1D641: [.657, 0, .51, {ic: .06, sk: .115}],
+    0x1D642: [.669, .012, .621, {ic: .01, sk: .11}],
+    0x1D643: [.657, 0, .661, {ic: .01, sk: .095}],
+    0x1D644: [.657, 0, .293, {ic: .01, sk: .099}],
+    0x1D645: [.657, .012, .495, {ic: .02, sk: .093}],
+    0x1D646: [.657, 0, .61, {ic: .04, sk: .095}],
+    0x1D647: [.657, 0, .504, {ic: .005, sk: .088}],
+    0x1D648: [.657, 0, .75, {ic: .01, sk: .095}],
+    0x1D649: [.657, 0, .652, {ic: .01, sk: .094}],
+    0x1D64A: [.669, .012, .669, {ic: .015, sk: .086}],
+    0x1D64B: [.657, 0, .59, {ic: .03, sk: .075}],
+    0x1D64C: [.669, .176, .669, {ic: .015, sk: .086}],
+    0x1D64D: [.657, 0, .602, {ic: .025, sk: .069}],
+    0x1D64E: [.669, .012, .537, {ic: .015, sk: .102}],
+    0x1D64F: [.657, 0, .54, {ic: .08, sk: .1}],
+    0x1D650: [.657, .012, .652, {ic: .02, sk: .094}],
+    0x1D651: [.657, 0, .556, {ic: .09, sk: .092}],
+    0x1D652: [.657, 0, .805, {ic: .07, sk: .098}],
+    0x1D653: [.657, 0, .555, {ic: .06, sk: .098}],
+    0x1D654: [.657, 0, .512, {ic: .09, sk: .099}],
+    0x1D655: [.657, 0, .535, {ic: .035, sk: .098}],
+    0x1D656: [.485, .012, .533, {sk: .084}],
+    0x1D657: [.706, .012, .534, {ic: .005, sk: .093}],
+    0x1D658: [.485, .012, .429, {sk: .096}],
+    0x1D659: [.706, .012, .528, {ic: .045, sk: .126}],
+    0x1D65A: [.485, .012, .479, {sk: .071}],
+    0x1D65B: [.717, 0, .311, {ic: .12, sk: .185}],
+    0x1D65C: [.485, .229, .509, {sk: .056}],
+    0x1D65D: [.706, 0, .527, {ic: .005, sk: .097}],
+    0x1D65E: [.691, 0, .253, {ic: .045, sk: .099}],
+    0x1D65F: [.691, .229, .385, {ic: .045, sk: .168}],
+    0x1D660: [.706, 0, .503, {ic: .005, sk: .109}],
+    0x1D661: [.706, .012, .263, {ic: .045, sk: .114}],
+    0x1D662: [.485, 0, .799, {sk: .051}],
+    0x1D663: [.485, 0, .531, {sk: .055}],
+    0x1D664: [.485, .012, .515, {sk: .063}],
+    0x1D665: [.485, .22, .534, {sk: .053}],
+    0x1D666: [.485, .22, .533, {sk: .074}],
+    0x1D667: [.485, 0, .367, {ic: .04, sk: .097}],
+    0x1D668: [.485, .012, .408, {sk: .061}],
+    0x1D669: [.607, .012, .35, {ic: .03, sk: .09}],
+    0x1D66A: [.473, .012, .526, {sk: .057}],
+    0x1D66B: [.473, 0, .477, {ic: .035, sk: .057}],
+    0x1D66C: [.473, 0, .72, {ic: .015, sk: .05}],
+    0x1D66D: [.473, 0, .467, {ic: .035, sk: .062}],
+    0x1D66E: [.473, .228, .477, {ic: .04, sk: .057}],
+    0x1D66F: [.468, 0, .425, {ic: .01, sk: .083}],
+    0x1D670: [.657, 0, .6, {sk: -0.01}],
+    0x1D671: [.657, .001, .6, {sk: -0.01}],
+    0x1D672: [.669, .012, .6],
+    0x1D673: [.657, 0, .6, {sk: -0.01}],
+    0x1D674: [.657, .002, .6],
+    0x1D675: [.657, 0, .6, {sk: .01}],
+    0x1D676: [.669, .012, .6],
+    0x1D677: [.657, 0, .6],
+    0x1D678: [.657, 0, .6],
+    0x1D679: [.657, .012, .6, {sk: .01}],
+    0x1D67A: [.657, 0, .6, {sk: .01}],
+    0x1D67B: [.657, 0, .6, {sk: -0.1}],
+    0x1D67C: [.657, 0, .6],
+    0x1D67D: [.657, 0, .6],
+    0x1D67E: [.669, .012, .6],
+    0x1D67F: [.657, 0, .6],
+    0x1D680: [.669, .22, .6],
+    0x1D681: [.657, 0, .6, {sk: -0.02}],
+    0x1D682: [.669, .012, .6],
+    0x1D683: [.657, 0, .6],
+    0x1D684: [.657, .01, .6],
+    0x1D685: [.657, 0, .6],
+    0x1D686: [.657, 0, .6],
+    0x1D687: [.657, .002, .6, {sk: .01}],
+    0x1D688: [.657, 0, .6],
+    0x1D689: [.657, 0, .6],
+    0x1D68A: [.465, .012, .54],
+    0x1D68B: [.706, .012, .54, {sk: -0.01}],
+    0x1D68C: [.466, .012, .54, {sk: .02}],
+    0x1D68D: [.706, .012, .54, {sk: .02}],
+    0x1D68E: [.465, .012, .54, {sk: .005}],
+    0x1D68F: [.707, 0, .54, {sk: .05}],
+    0x1D690: [.465, .226, .54],
+    0x1D691: [.706, 0, .54, {sk: -0.01}],
+    0x1D692: [.677, 0, .54],
+    0x1D693: [.677, .226, .54],
+    0x1D694: [.706, 0, .54, {sk: -0.01}],
+    0x1D695: [.706, 0, .54, {sk: -0.01}],
+    0x1D696: [.465, 0, .54],
+    0x1D697: [.465, 0, .54],
+    0x1D698: [.465, .012, .54],
+    0x1D699: [.465, .222, .54],
+    0x1D69A: [.465, .222, .54, {sk: .02}],
+    0x1D69B: [.467, 0, .54],
+    0x1D69C: [.465, .012, .54],
+    0x1D69D: [.63, .012, .54, {sk: .01}],
+    0x1D69E: [.456, .012, .54, {sk: -0.01}],
+    0x1D69F: [.458, 0, .54],
+    0x1D6A0: [.458, 0, .54],
+    0x1D6A1: [.456, 0, .54],
+    0x1D6A2: [.458, .226, .54],
+    0x1D6A3: [.456, 0, .54],
+    0x1D6A4: [.476, .009, .274, {ic: .005, sk: .043}],
+    0x1D6A5: [.476, .225, .431, {ic: .005, sk: .11}],
+    0x1D6A8: [.662, 0, .749, {sk: .006}],
+    0x1D6A9: [.657, 0, .672, {sk: .004}],
+    0x1D6AA: [.657, 0, .624, {sk: .023}],
+    0x1D6AB: [.662, 0, .752, {sk: .004}],
+    0x1D6AC: [.657, 0, .66, {sk: .01}],
+    0x1D6AD: [.657, 0, .618, {sk: .021}],
+    0x1D6AE: [.657, 0, .844, {sk: -0.002}],
+    0x1D6AF: [.669, .014, .768, {sk: .001}],
+    0x1D6B0: [.657, 0, .405, {sk: .003}],
+    0x1D6B1: [.657, 0, .786, {sk: -0.003}],
+    0x1D6B2: [.662, 0, .749, {sk: .001}],
+    0x1D6B3: [.657, 0, .996, {sk: .002}],
+    0x1D6B4: [.657, .007, .795, {sk: .023}],
+    0x1D6B5: [.657, 0, .643, {sk: -0.001}],
+    0x1D6B6: [.669, .014, .748, {sk: .001}],
+    0x1D6B7: [.657, 0, .809, {sk: -0.004}],
+    0x1D6B8: [.657, 0, .648, {sk: .016}],
+    0x1D6B9: [.669, .014, .748, {sk: .001}],
+    0x1D6BA: [.657, 0, .618, {sk: .001}],
+    0x1D6BB: [.657, 0, .659, {sk: .001}],
+    0x1D6BC: [.657, 0, .676, {sk: .022}],
+    0x1D6BD: [.657, 0, .778, {sk: .001}],
+    0x1D6BE: [.657, 0, .7, {sk: .02}],
+    0x1D6BF: [.657, 0, .83, {sk: .005}],
+    0x1D6C0: [.669, 0, .814, {sk: .003}],
+    0x1D6C1: [.657, .005, .752, {sk: .014}],
+    0x1D6C2: [.478, .021, .565, {sk: .018}],
+    0x1D6C3: [.716, .217, .532, {sk: .064}],
+    0x1D6C4: [.476, .214, .493, {sk: .034}],
+    0x1D6C5: [.711, .018, .48, {sk: .04}],
+    0x1D6C6: [.481, .013, .399, {sk: .026}],
+    0x1D6C7: [.751, .227, .394, {sk: .083}],
+    0x1D6C8: [.48, .269, .511, {sk: .035}],
+    0x1D6C9: [.712, .015, .518, {sk: .011}],
+    0x1D6CA: [.473, .009, .298, {sk: .001}],
+    0x1D6CB: [.478, .012, .537, {sk: .032}],
+    0x1D6CC: [.706, .011, .53, {sk: -0.025}],
+    0x1D6CD: [.473, .217, .582, {sk: -0.001}],
+    0x1D6CE: [.479, .002, .508, {sk: .006}],
+    0x1D6CF: [.775, .228, .41, {sk: .065}],
+    0x1D6D0: [.481, .013, .478, {sk: .011}],
+    0x1D6D1: [.471, .009, .594, {sk: .033}],
+    0x1D6D2: [.481, .217, .524, {sk: .028}],
+    0x1D6D3: [.481, .227, .385, {sk: .043}],
+    0x1D6D4: [.471, .013, .559, {sk: .001}],
+    0x1D6D5: [.471, .009, .398, {sk: .031}],
+    0x1D6D6: [.481, .013, .521, {sk: .01}],
+    0x1D6D7: [.487, .217, .616, {sk: .012}],
+    0x1D6D8: [.477, .213, .507, {sk: .027}],
+    0x1D6D9: [.695, .217, .66, {sk: .03}],
+    0x1D6DA: [.485, .011, .679, {sk: .021}],
+    0x1D6DB: [.716, .012, .496, {sk: .022}],
+    0x1D6DC: [.481, .012, .393, {sk: .034}],
+    0x1D6DD: [.713, .01, .552, {sk: .004}],
+    0x1D6DE: [.484, .013, .574, {sk: .023}],
+    0x1D6DF: [.685, .22, .578, {sk: .026}],
+    0x1D6E0: [.481, .239, .481, {sk: .025}],
+    0x1D6E1: [.471, .011, .852, {sk: .024}],
+    0x1D6E2: [.661, 0, .681, {sk: .14}],
+    0x1D6E3: [.657, 0, .593, {ic: .03, sk: .084}],
+    0x1D6E4: [.657, 0, .57, {ic: .08, sk: .125}],
+    0x1D6E5: [.662, 0, .633, {sk: .154}],
+    0x1D6E6: [.657, 0, .614, {ic: .035, sk: .103}],
+    0x1D6E7: [.657, 0, .606, {ic: .035, sk: .097}],
+    0x1D6E8: [.657, 0, .757, {ic: .045, sk: .102}],
+    0x1D6E9: [.669, .012, .717, {ic: .02, sk: .102}],
+    0x1D6EA: [.657, 0, .343, {ic: .045, sk: .104}],
+    0x1D6EB: [.657, 0, .655, {ic: .065, sk: .113}],
+    0x1D6EC: [.662, 0, .685, {sk: .123}],
+    0x1D6ED: [.657, 0, .869, {ic: .045, sk: .106}],
+    0x1D6EE: [.657, .008, .714, {ic: .065, sk: .118}],
+    0x1D6EF: [.657, 0, .635, {ic: .035, sk: .083}],
+    0x1D6F0: [.669, .012, .707, {sk: .097}],
+    0x1D6F1: [.657, 0, .741, {ic: .055, sk: .105}],
+    0x1D6F2: [.657, 0, .569, {ic: .035, sk: .096}],
+    0x1D6F3: [.669, .012, .707, {sk: .097}],
+    0x1D6F4: [.657, 0, .614, {ic: .03, sk: .083}],
+    0x1D6F5: [.657, 0, .61, {ic: .065, sk: .1}],
+    0x1D6F6: [.664, 0, .596, {ic: .08, sk: .112}],
+    0x1D6F7: [.657, 0, .723, {ic: .02, sk: .099}],
+    0x1D6F8: [.657, 0, .637, {ic: .08, sk: .122}],
+    0x1D6F9: [.657, 0, .72, {ic: .08, sk: .1}],
+    0x1D6FA: [.669, 0, .792, {ic: .02, sk: .094}],
+    0x1D6FB: [.657, .006, .626, {ic: .08, sk: .097}],
+    0x1D6FC: [.479, .014, .585, {sk: .038}],
+    0x1D6FD: [.717, .216, .55, {ic: .03, sk: .145}],
+    0x1D6FE: [.475, .214, .5, {sk: .065}],
+    0x1D6FF: [.71, .014, .519, {ic: .02, sk: .136}],
+    0x1D700: [.481, .014, .394, {sk: .063}],
+    0x1D701: [.75, .22, .478, {ic: .02, sk: .141}],
+    0x1D702: [.481, .217, .509, {sk: .086}],
+    0x1D703: [.717, .014, .514, {ic: .025, sk: .123}],
+    0x1D704: [.473, .009, .249, {sk: .066}],
+    0x1D705: [.479, .011, .51, {ic: .01, sk: .075}],
+    0x1D706: [.705, .012, .525, {sk: .078}],
+    0x1D707: [.473, .217, .588, {sk: .061}],
+    0x1D708: [.479, .007, .496, {sk: .067}],
+    0x1D709: [.764, .22, .49, {ic: .025, sk: .13}],
+    0x1D70A: [.481, .014, .466, {sk: .077}],
+    0x1D70B: [.473, .009, .634, {sk: .078}],
+    0x1D70C: [.481, .216, .547, {sk: .097}],
+    0x1D70D: [.481, .219, .403, {sk: .074}],
+    0x1D70E: [.473, .014, .57, {sk: .045}],
+    0x1D70F: [.473, .008, .464, {sk: .068}],
+    0x1D710: [.482, .01, .506, {sk: .062}],
+    0x1D711: [.49, .217, .607, {sk: .077}],
+    0x1D712: [.479, .208, .641, {sk: .115}],
+    0x1D713: [.695, .217, .632, {sk: .129}],
+    0x1D714: [.477, .011, .66, {sk: .07}],
+    0x1D715: [.711, .014, .495, {ic: .015, sk: .108}],
+    0x1D716: [.481, .014, .411, {sk: .08}],
+    0x1D717: [.713, .01, .562, {ic: .025, sk: .119}],
+    0x1D718: [.479, .012, .564, {sk: .068}],
+    0x1D719: [.695, .216, .587, {sk: .122}],
+    0x1D71A: [.481, .235, .475, {sk: .073}],
+    0x1D71B: [.473, .011, .865, {sk: .083}],
+    0x1D71C: [.662, 0, .709, {sk: .126}],
+    0x1D71D: [.657, 0, .655, {ic: .03, sk: .093}],
+    0x1D71E: [.657, 0, .625, {ic: .08, sk: .128}],
+    0x1D71F: [.662, 0, .682, {sk: .144}],
+    0x1D720: [.657, 0, .646, {ic: .03, sk: .112}],
+    0x1D721: [.657, 0, .637, {ic: .035, sk: .117}],
+    0x1D722: [.657, 0, .818, {ic: .045, sk: .101}],
+    0x1D723: [.669, .014, .769, {ic: .02, sk: .106}],
+    0x1D724: [.657, 0, .389, {ic: .045, sk: .101}],
+    0x1D725: [.657, 0, .727, {ic: .065, sk: .107}],
+    0x1D726: [.662, 0, .709, {sk: .126}],
+    0x1D727: [.657, 0, .968, {ic: .045, sk: .106}],
+    0x1D728: [.657, .007, .761, {ic: .065, sk: .11}],
+    0x1D729: [.657, 0, .651, {ic: .035, sk: .105}],
+    0x1D72A: [.669, .014, .749, {ic: .02, sk: .106}],
+    0x1D72B: [.657, 0, .808, {ic: .055, sk: .096}],
+    0x1D72C: [.657, 0, .642, {ic: .035, sk: .099}],
+    0x1D72D: [.669, .014, .749, {ic: .02, sk: .106}],
+    0x1D72E: [.657, 0, .646, {ic: .03, sk: .087}],
+    0x1D72F: [.657, 0, .665, {ic: .065, sk: .103}],
+    0x1D730: [.664, 0, .645, {ic: .09, sk: .118}],
+    0x1D731: [.657, 0, .775, {ic: .02, sk: .098}],
+    0x1D732: [.657, 0, .654, {ic: .08, sk: .103}],
+    0x1D733: [.657, 0, .854, {ic: .08, sk: .093}],
+    0x1D734: [.668, 0, .837, {ic: .02, sk: .102}],
+    0x1D735: [.657, .005, .641, {ic: .08, sk: .1}],
+    0x1D736: [.481, .012, .584, {sk: .053}],
+    0x1D737: [.717, .216, .549, {ic: .03, sk: .156}],
+    0x1D738: [.476, .195, .541, {sk: .1}],
+    0x1D739: [.709, .012, .492, {ic: .04, sk: .149}],
+    0x1D73A: [.476, .012, .399, {sk: .091}],
+    0x1D73B: [.751, .232, .473, {ic: .07, sk: .194}],
+    0x1D73C: [.48, .217, .52, {sk: .09}],
+    0x1D73D: [.712, .015, .514, {ic: .035, sk: .133}],
+    0x1D73E: [.473, .009, .294, {sk: .063}],
+    0x1D73F: [.478, .012, .559, {ic: .02, sk: .091}],
+    0x1D740: [.706, .011, .573, {sk: .099}],
+    0x1D741: [.473, .217, .609, {sk: .066}],
+    0x1D742: [.479, .002, .506, {sk: .082}],
+    0x1D743: [.775, .223, .488, {ic: .05, sk: .161}],
+    0x1D744: [.482, .012, .481, {sk: .07}],
+    0x1D745: [.473, .009, .639, {sk: .101}],
+    0x1D746: [.481, .217, .518, {sk: .101}],
+    0x1D747: [.481, .221, .439, {sk: .086}],
+    0x1D748: [.475, .012, .623, {sk: .029}],
+    0x1D749: [.474, .008, .471, {sk: .07}],
+    0x1D74A: [.482, .01, .51, {sk: .065}],
+    0x1D74B: [.487, .216, .598, {sk: .081}],
+    0x1D74C: [.477, .213, .65, {ic: .015, sk: .13}],
+    0x1D74D: [.695, .217, .667, {sk: .157}],
+    0x1D74E: [.481, .011, .676, {sk: .082}],
+    0x1D74F: [.712, .012, .487, {ic: .02, sk: .122}],
+    0x1D750: [.481, .012, .405, {sk: .098}],
+    0x1D751: [.713, .01, .534, {ic: .03, sk: .118}],
+    0x1D752: [.484, .013, .556, {sk: .082}],
+    0x1D753: [.685, .222, .565, {sk: .148}],
+    0x1D754: [.481, .24, .525, {sk: .113}],
+    0x1D755: [.473, .011, .91, {sk: .095}],
+    0x1D756: [.657, 0, .58, {sk: .01}],
+    0x1D757: [.657, 0, .616, {sk: -0.008}],
+    0x1D758: [.657, 0, .529, {sk: .036}],
+    0x1D759: [.657, 0, .645, {sk: .008}],
+    0x1D75A: [.657, 0, .556, {sk: .022}],
+    0x1D75B: [.657, 0, .553, {sk: .024}],
+    0x1D75C: [.657, 0, .684, {sk: -0.002}],
+    0x1D75D: [.669, .012, .696, {sk: .002}],
+    0x1D75E: [.657, 0, .301],
+    0x1D75F: [.657, 0, .622, {sk: .009}],
+    0x1D760: [.657, 0, .561],
+    0x1D761: [.657, 0, .773, {sk: .004}],
+    0x1D762: [.657, 0, .676, {sk: .002}],
+    0x1D763: [.657, 0, .577, {sk: .002}],
+    0x1D764: [.669, .012, .696, {sk: .002}],
+    0x1D765: [.657, 0, .674, {sk: .003}],
+    0x1D766: [.657, 0, .604, {sk: -0.002}],
+    0x1D767: [.669, .012, .696, {sk: .002}],
+    0x1D768: [.657, 0, .559, {sk: .001}],
+    0x1D769: [.657, 0, .565, {sk: .003}],
+    0x1D76A: [.657, 0, .528, {sk: .001}],
+    0x1D76B: [.679, .022, .769, {sk: .001}],
+    0x1D76C: [.657, 0, .57, {sk: .01}],
+    0x1D76D: [.657, 0, .759, {sk: .001}],
+    0x1D76E: [.669, 0, .721],
+    0x1D76F: [.657, 0, .645, {sk: .003}],
+    0x1D770: [.485, .012, .572, {sk: .024}],
+    0x1D771: [.718, .204, .578, {sk: -0.009}],
+    0x1D772: [.485, .204, .51, {sk: .005}],
+    0x1D773: [.718, .012, .529, {sk: .026}],
+    0x1D774: [.485, .012, .454, {sk: .023}],
+    0x1D775: [.706, .178, .446, {sk: .027}],
+    0x1D776: [.485, .204, .542, {sk: -0.001}],
+    0x1D777: [.718, .012, .529, {sk: -0.004}],
+    0x1D778: [.473, .012, .287, {sk: -0.003}],
+    0x1D779: [.485, .01, .522, {sk: .009}],
+    0x1D77A: [.718, .01, .527, {sk: -0.043}],
+    0x1D77B: [.473, .204, .572, {sk: -0.006}],
+    0x1D77C: [.485, 0, .501, {sk: .01}],
+    0x1D77D: [.706, .178, .45, {sk: .025}],
+    0x1D77E: [.485, .012, .534, {sk: -0.002}],
+    0x1D77F: [.468, .012, .609, {sk: .016}],
+    0x1D780: [.485, .204, .549, {sk: .006}],
+    0x1D781: [.485, .177, .431, {sk: .035}],
+    0x1D782: [.47, .012, .553, {sk: -0.001}],
+    0x1D783: [.468, .012, .473, {sk: .014}],
+    0x1D784: [.485, .012, .513, {sk: -0.016}],
+    0x1D785: [.492, .204, .708, {sk: .011}],
+    0x1D786: [.485, .211, .505, {sk: .008}],
+    0x1D787: [.619, .204, .721],
+    0x1D788: [.485, .012, .718, {sk: .001}],
+    0x1D789: [.718, .012, .55, {sk: .005}],
+    0x1D78A: [.485, .012, .477, {sk: .022}],
+    0x1D78B: [.718, .012, .529, {sk: -0.004}],
+    0x1D78C: [.485, .015, .549, {sk: .006}],
+    0x1D78D: [.619, .204, .708, {sk: .001}],
+    0x1D78E: [.485, .222, .527, {sk: .007}],
+    0x1D78F: [.468, .012, .821],
+    0x1D790: [.657, 0, .553, {sk: .104}],
+    0x1D791: [.657, 0, .613, {ic: .01, sk: .064}],
+    0x1D792: [.657, 0, .504, {ic: .07, sk: .118}],
+    0x1D793: [.657, 0, .582, {sk: .109}],
+    0x1D794: [.657, 0, .534, {ic: .04, sk: .103}],
+    0x1D795: [.657, 0, .535, {ic: .035, sk: .093}],
+    0x1D796: [.657, 0, .661, {ic: .01, sk: .09}],
+    0x1D797: [.669, .012, .673, {ic: .015, sk: .084}],
+    0x1D798: [.657, 0, .293, {ic: .01, sk: .104}],
+    0x1D799: [.657, 0, .61, {ic: .05, sk: .105}],
+    0x1D79A: [.657, 0, .537, {sk: .112}],
+    0x1D79B: [.657, 0, .75, {ic: .01, sk: .095}],
+    0x1D79C: [.657, 0, .652, {ic: .01, sk: .094}],
+    0x1D79D: [.657, 0, .552, {ic: .025, sk: .094}],
+    0x1D79E: [.669, .012, .669, {ic: .015, sk: .086}],
+    0x1D79F: [.657, 0, .661, {ic: .01, sk: .09}],
+    0x1D7A0: [.657, 0, .59, {ic: .03, sk: .075}],
+    0x1D7A1: [.669, .012, .673, {ic: .015, sk: .084}],
+    0x1D7A2: [.657, 0, .538, {ic: .02, sk: .091}],
+    0x1D7A3: [.657, 0, .54, {ic: .08, sk: .095}],
+    0x1D7A4: [.657, 0, .512, {ic: .09, sk: .099}],
+    0x1D7A5: [.679, .021, .746, {ic: .02, sk: .107}],
+    0x1D7A6: [.657, 0, .555, {ic: .06, sk: .098}],
+    0x1D7A7: [.657, 0, .723, {ic: .06, sk: .099}],
+    0x1D7A8: [.669, 0, .709, {ic: .015, sk: .086}],
+    0x1D7A9: [.657, 0, .582, {ic: .085, sk: .089}],
+    0x1D7AA: [.485, .011, .547, {sk: .087}],
+    0x1D7AB: [.718, .204, .554, {ic: .02, sk: .103}],
+    0x1D7AC: [.485, .179, .488, {sk: .066}],
+    0x1D7AD: [.718, .011, .508, {ic: .03, sk: .141}],
+    0x1D7AE: [.485, .011, .41, {sk: .085}],
+    0x1D7AF: [.711, .179, .422, {ic: .09, sk: .139}],
+    0x1D7B0: [.485, .204, .525, {sk: .058}],
+    0x1D7B1: [.718, .011, .514, {ic: .025, sk: .113}],
+    0x1D7B2: [.474, .011, .264, {sk: .058}],
+    0x1D7B3: [.487, .009, .488, {sk: .066}],
+    0x1D7B4: [.718, .01, .448, {sk: .061}],
+    0x1D7B5: [.474, .204, .536, {sk: .062}],
+    0x1D7B6: [.485, .01, .478, {sk: .051}],
+    0x1D7B7: [.692, .179, .423, {ic: .095, sk: .119}],
+    0x1D7B8: [.485, .011, .514, {sk: .058}],
+    0x1D7B9: [.474, .011, .579, {sk: .071}],
+    0x1D7BA: [.485, .204, .536, {sk: .062}],
+    0x1D7BB: [.485, .179, .436, {sk: .092}],
+    0x1D7BC: [.474, .011, .54, {sk: .07}],
+    0x1D7BD: [.474, .011, .452, {sk: .064}],
+    0x1D7BE: [.483, .011, .504, {sk: .048}],
+    0x1D7BF: [.501, .204, .671, {sk: .075}],
+    0x1D7C0: [.484, .211, .464, {sk: .058}],
+    0x1D7C1: [.619, .204, .676, {sk: .087}],
+    0x1D7C2: [.484, .011, .691, {sk: .06}],
+    0x1D7C3: [.718, .011, .537, {ic: .02, sk: .102}],
+    0x1D7C4: [.484, .012, .465, {sk: .093}],
+    0x1D7C5: [.718, .011, .512, {ic: .025, sk: .104}],
+    0x1D7C6: [.485, .012, .562, {sk: .064}],
+    0x1D7C7: [.619, .204, .681, {sk: .1}],
+    0x1D7C8: [.485, .225, .521, {sk: .065}],
+    0x1D7C9: [.468, .011, .798, {sk: .061}],
+    0x1D7CA: [.657, 0, .619, {sk: .031}],
+    0x1D7CB: [.471, .238, .406, {sk: .032}],
+    0x1D7CE: [.642, .011, .589, {sk: .001}],
+    0x1D7CF: [.639, 0, .494, {sk: -0.017}],
+    0x1D7D0: [.649, 0, .485, {sk: -0.002}],
+    0x1D7D1: [.653, .015, .505, {sk: -0.022}],
+    0x1D7D2: [.645, 0, .543, {sk: .029}],
+    0x1D7D3: [.63, .022, .5, {sk: .03}],
+    0x1D7D4: [.646, .014, .54, {sk: .02}],
+    0x1D7D5: [.63, .008, .487, {sk: .027}],
+    0x1D7D6: [.649, .014, .526, {sk: .007}],
+    0x1D7D7: [.646, .013, .538, {sk: -0.009}],
+    0x1D7D8: [.642, .011, .57],
+    0x1D7D9: [.654, 0, .404, {sk: -0.012}],
+    0x1D7DA: [.642, .001, .518, {sk: -0.009}],
+    0x1D7DB: [.642, .011, .511, {sk: .01}],
+    0x1D7DC: [.642, 0, .556, {sk: .072}],
+    0x1D7DD: [.63, .011, .522, {sk: .069}],
+    0x1D7DE: [.642, .011, .577, {sk: .032}],
+    0x1D7DF: [.63, 0, .524, {sk: .028}],
+    0x1D7E0: [.642, .011, .558, {sk: -0.004}],
+    0x1D7E1: [.642, .007, .577, {sk: -0.008}],
+    0x1D7E2: [.641, .012, .508, {sk: -0.004}],
+    0x1D7E3: [.63, 0, .508, {sk: -0.024}],
+    0x1D7E4: [.641, 0, .508, {sk: -0.014}],
+    0x1D7E5: [.641, .012, .508, {sk: -0.019}],
+    0x1D7E6: [.63, 0, .508, {sk: .046}],
+    0x1D7E7: [.63, .012, .508, {sk: .016}],
+    0x1D7E8: [.641, .012, .508, {sk: .026}],
+    0x1D7E9: [.63, 0, .508, {sk: .006}],
+    0x1D7EA: [.641, .012, .508, {sk: .006}],
+    0x1D7EB: [.641, .012, .508, {sk: -0.014}],
+    0x1D7EC: [.643, .012, .534, {sk: -0.002}],
+    0x1D7ED: [.631, 0, .534, {sk: -0.012}],
+    0x1D7EE: [.643, 0, .534, {sk: -0.027}],
+    0x1D7EF: [.643, .012, .534, {sk: -0.027}],
+    0x1D7F0: [.631, 0, .534, {sk: .033}],
+    0x1D7F1: [.631, .012, .534, {sk: .013}],
+    0x1D7F2: [.643, .012, .534, {sk: .038}],
+    0x1D7F3: [.631, 0, .534, {sk: .013}],
+    0x1D7F4: [.643, .012, .534, {sk: .003}],
+    0x1D7F5: [.643, .012, .534, {sk: -0.017}],
+    0x1D7F6: [.641, .012, .6],
+    0x1D7F7: [.63, 0, .6],
+    0x1D7F8: [.642, 0, .6, {sk: -0.01}],
+    0x1D7F9: [.642, .012, .6],
+    0x1D7FA: [.63, 0, .6],
+    0x1D7FB: [.63, .012, .6],
+    0x1D7FC: [.642, .012, .6, {sk: .02}],
+    0x1D7FD: [.63, 0, .6, {sk: .02}],
+    0x1D7FE: [.641, .012, .6],
+    0x1D7FF: [.642, .012, .6],
+    0x1EEF0: [.532, .012, 1.368],
+    0x1EEF1: [.494, .025, 1.771],
+};
@@ -0,0 +1,61 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const parts: CharMap<CharOptions> = {
+    0x100000: [.738, -0.691, .45],
+    0x100001: [.843, -0.58, .892],
+    0x100002: [.735, -0.688, .512],
+    0x100003: [.843, -0.58, .892],
+    0x100004: [-0.022, .285, .892],
+    0x100005: [-0.13, .177, .512],
+    0x100006: [-0.022, .285, .892],
+    0x100007: [.46, -0.058, .505],
+    0x100008: [.293, -0.225, .596],
+    0x100009: [.6, 0, .523],
+    0x10000A: [.46, -0.058, .505],
+    0x10000B: [.461, -0.058, .572],
+    0x10000C: [.461, -0.058, .572],
+    0x10000D: [.566, -0.225, .657],
+    0x10000E: [.566, -0.225, .657],
+    0x10000F: [.506, -0.225, .922],
+    0x100010: [.293, -0.012, .922],
+    0x100011: [.506, -0.225, .923],
+    0x100012: [.293, -0.012, .923],
+    0x100013: [.395, -0.123, .322],
+    0x100014: [.395, -0.123, .383],
+    0x100015: [.414, -0.103, .72],
+    0x100016: [.395, -0.123, .383],
+    0x100017: [.497, -0.02, .322],
+    0x100018: [.641, 0, 1.212],
+    0x100019: [.65, 0, 1.212],
+    0x10001A: [1.899, .005, 1.212],
+    0x10001B: [2.195, .005, 1.212],
+    0x10001C: [2.193, .005, 1.212],
+    0x10001D: [1.25, 0, .767],
+    0x10001E: [.876, -0.634, .75],
+    0x10001F: [.876, -0.787, .75],
+    0x100020: [.876, -0.634, .75],
+    0x100021: [-0.104, .346, .75],
+    0x100022: [-0.257, .346, .75],
+    0x100023: [-0.104, .346, .75],
+    0x100024: [.876, -0.542, .956],
+    0x100025: [.876, -0.542, .956],
+    0x100026: [-0.012, .346, .956],
+    0x100027: [-0.012, .346, .956],
+    0x100028: [.876, -0.542, .956],
+    0x100029: [.876, -0.542, .956],
+    0x10002A: [.97, -0.787, .942],
+    0x10002B: [-0.012, .346, .956],
+    0x10002C: [-0.012, .346, .956],
+    0x10002D: [-0.257, .44, .942],
+    0x10002E: [.414, -0.103, 1.058],
+    0x10002F: [.414, -0.103, .948],
+};
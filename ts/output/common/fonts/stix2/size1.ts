@@ -0,0 +1,110 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size1: CharMap<CharOptions> = {
+    0x28: [.863, .323, .381],
+    0x29: [.863, .323, .381],
+    0x2F: [1.091, .168, .593],
+    0x5B: [.863, .323, .37],
+    0x5C: [1.091, .168, .593],
+    0x5D: [.863, .323, .37],
+    0x7B: [.863, .324, .35],
+    0x7D: [.863, .324, .35],
+    0x302: [.754, -0.536, .573],
+    0x303: [.711, -0.591, .573],
+    0x305: [.738, -0.691, .45],
+    0x30C: [.754, -0.536, .573],
+    0x330: [-0.12, .276, .573],
+    0x332: [-0.13, .181, 1.024],
+    0x20D0: [.843, -0.688, .892],
+    0x20D1: [.843, -0.688, .892],
+    0x20D6: [.843, -0.58, .892],
+    0x20D7: [.843, -0.58, .892],
+    0x20EC: [-0.122, .277, .892],
+    0x20ED: [-0.122, .277, .892],
+    0x20EE: [-0.022, .285, .892],
+    0x20EF: [-0.022, .285, .892],
+    0x2140: [1.536, -0.051, 1.289],
+    0x220F: [.919, .411, 1.417],
+    0x2210: [.919, .411, 1.417],
+    0x2211: [.919, .406, 1.112],
+    0x221A: [1.589, .265, 1.041],
+    0x221B: [1.589, .265, 1.041],
+    0x221C: [1.589, .265, 1.041],
+    0x222B: [1.429, .917, 1.032, {ic: .54}],
+    0x222C: [1.429, .917, 1.489, {ic: .54}],
+    0x222D: [1.429, .917, 1.946, {ic: .54}],
+    0x222E: [1.429, .917, 1.007, {ic: .54}],
+    0x222F: [1.429, .917, 1.45, {ic: .54}],
+    0x2230: [1.429, .917, 1.907, {ic: .54}],
+    0x2231: [1.428, .918, .989, {ic: .54}],
+    0x2232: [1.429, .917, 1.102, {ic: .54}],
+    0x2233: [1.429, .917, 1.159, {ic: .54}],
+    0x22C0: [1.536, -0.05, 1.295],
+    0x22C1: [1.536, -0.05, 1.295],
+    0x22C2: [1.546, -0.05, 1.295],
+    0x22C3: [1.536, -0.04, 1.295],
+    0x2308: [.863, .318, .37],
+    0x2309: [.863, .318, .37],
+    0x230A: [.863, .318, .37],
+    0x230B: [.863, .318, .37],
+    0x23B4: [.778, -0.588, 1],
+    0x23B5: [-0.062, .252, 1],
+    0x23DC: [.82, -0.58, 1],
+    0x23DD: [-0.06, .3, 1],
+    0x23DE: [.828, -0.588, 1],
+    0x23DF: [-0.06, .3, 1],
+    0x23E0: [.778, -0.576, 1],
+    0x23E1: [-0.062, .264, 1],
+    0x2772: [.863, .318, .394],
+    0x2773: [.863, .318, .394],
+    0x27E6: [.863, .318, .534],
+    0x27E7: [.863, .318, .534],
+    0x27E8: [.863, .323, .369],
+    0x27E9: [.863, .323, .369],
+    0x27EA: [.863, .323, .594],
+    0x27EB: [.863, .323, .594],
+    0x2983: [.863, .323, .473],
+    0x2984: [.863, .323, .473],
+    0x2985: [.863, .323, .49],
+    0x2986: [.863, .323, .49],
+    0x2A00: [1.521, -0.065, 1.592],
+    0x2A01: [1.521, -0.065, 1.592],
+    0x2A02: [1.521, -0.065, 1.592],
+    0x2A03: [1.536, -0.04, 1.295],
+    0x2A04: [1.536, -0.04, 1.295],
+    0x2A05: [1.536, -0.05, 1.18],
+    0x2A06: [1.536, -0.05, 1.18],
+    0x2A07: [1.536, -0.05, 1.566],
+    0x2A08: [1.536, -0.05, 1.566],
+    0x2A09: [1.536, -0.05, 1.517],
+    0x2A0A: [.919, .406, 1.112],
+    0x2A0B: [1.313, .802, 1.112],
+    0x2A0C: [1.429, .917, 2.363, {ic: .54}],
+    0x2A0D: [1.429, .917, 1.032, {ic: .54}],
+    0x2A0E: [1.429, .917, 1.032, {ic: .54}],
+    0x2A0F: [1.429, .917, 1.032, {ic: .54}],
+    0x2A10: [1.429, .917, 1.032, {ic: .54}],
+    0x2A11: [1.429, .917, 1.032, {ic: .54}],
+    0x2A12: [1.429, .917, 1.032, {ic: .54}],
+    0x2A13: [1.429, .917, 1.032, {ic: .54}],
+    0x2A14: [1.429, .917, 1.032, {ic: .54}],
+    0x2A15: [1.429, .917, 1.032, {ic: .54}],
+    0x2A16: [1.429, .917, 1.032, {ic: .54}],
+    0x2A17: [1.429, .917, 1.1, {ic: .54}],
+    0x2A18: [1.429, .917, 1.032, {ic: .54}],
+    0x2A19: [1.429, .917, 1.032, {ic: .54}],
+    0x2A1A: [1.429, .917, 1.032, {ic: .54}],
+    0x2A1B: [1.582, .917, 1.032, {ic: .54}],
+    0x2A1C: [1.429, 1.068, 1.032, {ic: .54}],
+    0x2AFC: [.852, .307, .665],
+    0x2AFF: [.853, .307, .447],
+};
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size10: CharMap<CharOptions> = {
+    0x28: [1.94, 1.4, .587],
+    0x29: [1.94, 1.4, .587],
+    0x5B: [1.94, 1.401, .548],
+    0x5D: [1.94, 1.401, .548],
+    0x7B: [1.94, 1.401, .545],
+    0x7D: [1.94, 1.401, .545],
+    0x2308: [1.94, 1.4, .548],
+    0x2309: [1.94, 1.4, .548],
+    0x230A: [1.94, 1.4, .548],
+    0x230B: [1.94, 1.4, .548],
+    0x2772: [1.94, 1.4, .599],
+    0x2773: [1.94, 1.4, .599],
+    0x27E6: [1.94, 1.4, .79],
+    0x27E7: [1.94, 1.4, .79],
+    0x27E8: [1.941, 1.401, .619],
+    0x27E9: [1.941, 1.401, .619],
+    0x27EA: [1.941, 1.401, .971],
+    0x27EB: [1.941, 1.401, .971],
+    0x2983: [1.94, 1.401, .758],
+    0x2984: [1.94, 1.401, .758],
+    0x2985: [1.941, 1.4, .693],
+    0x2986: [1.941, 1.4, .693],
+};
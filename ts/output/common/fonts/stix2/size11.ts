@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size11: CharMap<CharOptions> = {
+    0x28: [2.06, 1.52, .61],
+    0x29: [2.06, 1.52, .61],
+    0x5B: [2.06, 1.521, .567],
+    0x5D: [2.06, 1.521, .567],
+    0x7B: [2.06, 1.521, .566],
+    0x7D: [2.06, 1.521, .566],
+    0x2308: [2.06, 1.521, .567],
+    0x2309: [2.06, 1.521, .567],
+    0x230A: [2.06, 1.521, .567],
+    0x230B: [2.06, 1.521, .567],
+    0x2772: [2.06, 1.521, .622],
+    0x2773: [2.06, 1.521, .622],
+    0x27E6: [2.06, 1.521, .819],
+    0x27E7: [2.06, 1.521, .819],
+    0x27E8: [2.061, 1.521, .647],
+    0x27E9: [2.061, 1.521, .647],
+    0x27EA: [2.061, 1.521, 1.013],
+    0x27EB: [2.061, 1.521, 1.013],
+    0x2983: [2.06, 1.521, .789],
+    0x2984: [2.06, 1.521, .789],
+    0x2985: [2.061, 1.52, .715],
+    0x2986: [2.061, 1.52, .715],
+};
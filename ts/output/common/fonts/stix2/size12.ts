@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size12: CharMap<CharOptions> = {
+    0x28: [2.18, 1.64, .633],
+    0x29: [2.18, 1.64, .633],
+    0x5B: [2.18, 1.641, .587],
+    0x5D: [2.18, 1.641, .587],
+    0x7B: [2.18, 1.641, .588],
+    0x7D: [2.18, 1.641, .588],
+    0x2308: [2.18, 1.641, .587],
+    0x2309: [2.18, 1.641, .587],
+    0x230A: [2.18, 1.641, .587],
+    0x230B: [2.18, 1.641, .587],
+    0x2772: [2.18, 1.641, .645],
+    0x2773: [2.18, 1.641, .645],
+    0x27E6: [2.18, 1.641, .847],
+    0x27E7: [2.18, 1.641, .847],
+    0x27E8: [2.181, 1.641, .675],
+    0x27E9: [2.181, 1.641, .675],
+    0x27EA: [2.181, 1.641, 1.055],
+    0x27EB: [2.181, 1.641, 1.055],
+    0x2983: [2.18, 1.641, .821],
+    0x2984: [2.18, 1.641, .821],
+    0x2985: [2.181, 1.64, .738],
+    0x2986: [2.181, 1.64, .738],
+};
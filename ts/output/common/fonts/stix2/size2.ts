@@ -0,0 +1,64 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size2: CharMap<CharOptions> = {
+    0x28: [.983, .443, .404],
+    0x29: [.983, .443, .404],
+    0x2F: [1.603, .286, .825],
+    0x5B: [.983, .443, .39],
+    0x5C: [1.603, .286, .825],
+    0x5D: [.983, .443, .39],
+    0x7B: [.983, .444, .372],
+    0x7D: [.983, .444, .372],
+    0x302: [.754, -0.536, 1.002],
+    0x303: [.747, -0.591, 1.002],
+    0x305: [.738, -0.691, 1.165],
+    0x30C: [.754, -0.536, 1.002],
+    0x330: [-0.12, .276, 1.002],
+    0x332: [-0.13, .181, 1.536],
+    0x20D0: [.843, -0.688, 1.338],
+    0x20D1: [.843, -0.688, 1.338],
+    0x20D6: [.843, -0.58, 1.339],
+    0x20D7: [.843, -0.58, 1.339],
+    0x20EC: [-0.122, .277, 1.339],
+    0x20ED: [-0.122, .277, 1.339],
+    0x20EE: [-0.022, .285, 1.339],
+    0x20EF: [-0.022, .285, 1.339],
+    0x221A: [2.105, .265, 1.177],
+    0x221B: [2.105, .265, 1.177],
+    0x221C: [2.105, .265, 1.177],
+    0x2308: [.983, .438, .39],
+    0x2309: [.983, .438, .39],
+    0x230A: [.983, .438, .39],
+    0x230B: [.983, .438, .39],
+    0x23B4: [.778, -0.588, 1.5],
+    0x23B5: [-0.062, .252, 1.5],
+    0x23DC: [.82, -0.58, 1.5],
+    0x23DD: [-0.06, .3, 1.5],
+    0x23DE: [.835, -0.588, 1.5],
+    0x23DF: [-0.053, .3, 1.5],
+    0x23E0: [.778, -0.576, 1.5],
+    0x23E1: [-0.062, .264, 1.5],
+    0x2772: [.983, .438, .417],
+    0x2773: [.983, .438, .417],
+    0x27E6: [.983, .438, .563],
+    0x27E7: [.983, .438, .563],
+    0x27E8: [.983, .443, .397],
+    0x27E9: [.983, .443, .397],
+    0x27EA: [.983, .443, .636],
+    0x27EB: [.983, .443, .636],
+    0x2983: [.983, .443, .504],
+    0x2984: [.983, .443, .504],
+    0x2985: [.983, .443, .513],
+    0x2986: [.983, .443, .513],
+    0x2AFC: [.974, .429, .665],
+    0x2AFF: [.975, .429, .461],
+};
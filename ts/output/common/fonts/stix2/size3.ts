@@ -0,0 +1,62 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size3: CharMap<CharOptions> = {
+    0x28: [1.103, .563, .427],
+    0x29: [1.103, .563, .427],
+    0x2F: [2.115, .404, 1.127],
+    0x5B: [1.103, .563, .409],
+    0x5C: [2.115, .404, 1.127],
+    0x5D: [1.103, .563, .409],
+    0x7B: [1.103, .564, .393],
+    0x7D: [1.103, .564, .393],
+    0x302: [.756, -0.536, 1.495],
+    0x303: [.761, -0.591, 1.495],
+    0x305: [.738, -0.691, 1.94],
+    0x30C: [.756, -0.536, 1.495],
+    0x330: [-0.12, .29, 1.495],
+    0x332: [-0.13, .181, 2.048],
+    0x20D0: [.843, -0.688, 1.786],
+    0x20D1: [.843, -0.688, 1.786],
+    0x20D6: [.843, -0.58, 1.786],
+    0x20D7: [.843, -0.58, 1.786],
+    0x20EC: [-0.122, .277, 1.786],
+    0x20ED: [-0.122, .277, 1.786],
+    0x20EE: [-0.022, .285, 1.786],
+    0x20EF: [-0.022, .285, 1.786],
+    0x221A: [2.626, .265, 1.17],
+    0x221B: [2.626, .265, 1.17],
+    0x221C: [2.626, .265, 1.17],
+    0x2308: [1.103, .559, .409],
+    0x2309: [1.103, .559, .409],
+    0x230A: [1.103, .559, .409],
+    0x230B: [1.103, .559, .409],
+    0x23B4: [.778, -0.588, 1.77],
+    0x23B5: [-0.062, .252, 1.77],
+    0x23DC: [.825, -0.579, 1.77],
+    0x23DD: [-0.055, .301, 1.77],
+    0x23DE: [.835, -0.588, 1.77],
+    0x23DF: [-0.053, .3, 1.77],
+    0x23E0: [.778, -0.576, 1.77],
+    0x23E1: [-0.062, .264, 1.77],
+    0x2772: [1.103, .559, .44],
+    0x2773: [1.103, .559, .44],
+    0x27E6: [1.103, .559, .591],
+    0x27E7: [1.103, .559, .591],
+    0x27E8: [1.103, .563, .424],
+    0x27E9: [1.103, .563, .424],
+    0x27EA: [1.103, .563, .678],
+    0x27EB: [1.103, .563, .678],
+    0x2983: [1.103, .563, .536],
+    0x2984: [1.103, .563, .536],
+    0x2985: [1.103, .563, .535],
+    0x2986: [1.103, .563, .535],
+};
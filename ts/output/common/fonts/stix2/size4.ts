@@ -0,0 +1,59 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size4: CharMap<CharOptions> = {
+    0x28: [1.223, .683, .45],
+    0x29: [1.223, .683, .45],
+    0x2F: [2.627, .521, 1.34],
+    0x5B: [1.223, .683, .429],
+    0x5C: [2.627, .521, 1.34],
+    0x5D: [1.223, .683, .429],
+    0x7B: [1.223, .684, .415],
+    0x7D: [1.223, .684, .415],
+    0x302: [.756, -0.536, 1.931],
+    0x303: [.758, -0.591, 1.931],
+    0x305: [.738, -0.687, 2.56],
+    0x30C: [.756, -0.536, 1.931],
+    0x330: [-0.12, .287, 1.931],
+    0x332: [-0.13, .181, 2.56],
+    0x20D0: [.843, -0.688, 2.232],
+    0x20D1: [.843, -0.688, 2.232],
+    0x20D6: [.843, -0.58, 2.232],
+    0x20D7: [.843, -0.58, 2.232],
+    0x20EC: [-0.122, .277, 2.232],
+    0x20ED: [-0.122, .277, 2.232],
+    0x20EE: [-0.022, .285, 2.232],
+    0x20EF: [-0.022, .285, 2.232],
+    0x2308: [1.223, .679, .429],
+    0x2309: [1.223, .679, .429],
+    0x230A: [1.223, .679, .429],
+    0x230B: [1.223, .679, .429],
+    0x23B4: [.778, -0.588, 2.18],
+    0x23B5: [-0.062, .252, 2.18],
+    0x23DC: [.83, -0.579, 2.18],
+    0x23DD: [-0.05, .301, 2.18],
+    0x23DE: [.835, -0.588, 2.18],
+    0x23DF: [-0.053, .3, 2.18],
+    0x23E0: [.778, -0.576, 2.18],
+    0x23E1: [-0.062, .264, 2.18],
+    0x2772: [1.223, .679, .463],
+    0x2773: [1.223, .679, .463],
+    0x27E6: [1.223, .679, .62],
+    0x27E7: [1.223, .679, .62],
+    0x27E8: [1.223, .683, .452],
+    0x27E9: [1.223, .683, .452],
+    0x27EA: [1.223, .683, .72],
+    0x27EB: [1.223, .683, .72],
+    0x2983: [1.223, .683, .568],
+    0x2984: [1.223, .683, .568],
+    0x2985: [1.223, .683, .558],
+    0x2986: [1.223, .683, .558],
+};
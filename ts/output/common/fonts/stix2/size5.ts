@@ -0,0 +1,57 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size5: CharMap<CharOptions> = {
+    0x28: [1.342, .802, .473],
+    0x29: [1.342, .802, .473],
+    0x5B: [1.342, .803, .449],
+    0x5D: [1.342, .803, .449],
+    0x7B: [1.342, .803, .437],
+    0x7D: [1.342, .803, .437],
+    0x302: [.756, -0.536, 2.384],
+    0x303: [.757, -0.591, 2.384],
+    0x305: [.738, -0.691, 3.072],
+    0x30C: [.756, -0.536, 2.384],
+    0x330: [-0.12, .287, 2.384],
+    0x332: [-0.13, .181, 3.072],
+    0x20D0: [.843, -0.688, 3.072],
+    0x20D1: [.843, -0.688, 3.072],
+    0x20D6: [.843, -0.58, 3.072],
+    0x20D7: [.843, -0.58, 3.072],
+    0x20EC: [-0.122, .277, 3.072],
+    0x20ED: [-0.122, .277, 3.072],
+    0x20EE: [-0.022, .285, 3.072],
+    0x20EF: [-0.022, .285, 3.072],
+    0x2308: [1.342, .799, .449],
+    0x2309: [1.342, .799, .449],
+    0x230A: [1.342, .799, .449],
+    0x230B: [1.342, .799, .449],
+    0x23B4: [.778, -0.588, 2.6],
+    0x23B5: [-0.062, .252, 2.6],
+    0x23DC: [.84, -0.579, 2.6],
+    0x23DD: [-0.04, .301, 2.6],
+    0x23DE: [.835, -0.588, 2.6],
+    0x23DF: [-0.053, .3, 2.6],
+    0x23E0: [.778, -0.576, 2.6],
+    0x23E1: [-0.062, .264, 2.6],
+    0x2772: [1.342, .799, .485],
+    0x2773: [1.342, .799, .485],
+    0x27E6: [1.342, .799, .648],
+    0x27E7: [1.342, .799, .648],
+    0x27E8: [1.343, .803, .48],
+    0x27E9: [1.343, .803, .48],
+    0x27EA: [1.343, .803, .761],
+    0x27EB: [1.343, .803, .761],
+    0x2983: [1.342, .803, .599],
+    0x2984: [1.342, .803, .599],
+    0x2985: [1.343, .802, .58],
+    0x2986: [1.343, .802, .58],
+};
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size6: CharMap<CharOptions> = {
+    0x28: [1.462, .922, .496],
+    0x29: [1.462, .922, .496],
+    0x5B: [1.462, .923, .469],
+    0x5D: [1.462, .923, .469],
+    0x7B: [1.462, .923, .458],
+    0x7D: [1.462, .923, .458],
+    0x2308: [1.462, .92, .469],
+    0x2309: [1.462, .92, .469],
+    0x230A: [1.462, .92, .469],
+    0x230B: [1.462, .92, .469],
+    0x2772: [1.462, .92, .508],
+    0x2773: [1.462, .92, .508],
+    0x27E6: [1.462, .92, .676],
+    0x27E7: [1.462, .92, .676],
+    0x27E8: [1.463, .923, .508],
+    0x27E9: [1.463, .923, .508],
+    0x27EA: [1.463, .923, .803],
+    0x27EB: [1.463, .923, .803],
+    0x2983: [1.462, .923, .631],
+    0x2984: [1.462, .923, .631],
+    0x2985: [1.463, .922, .603],
+    0x2986: [1.463, .922, .603],
+};
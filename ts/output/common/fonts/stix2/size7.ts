@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size7: CharMap<CharOptions> = {
+    0x28: [1.582, 1.042, .519],
+    0x29: [1.582, 1.042, .519],
+    0x5B: [1.582, 1.043, .488],
+    0x5D: [1.582, 1.043, .488],
+    0x7B: [1.582, 1.043, .48],
+    0x7D: [1.582, 1.043, .48],
+    0x2308: [1.582, 1.04, .488],
+    0x2309: [1.582, 1.04, .488],
+    0x230A: [1.582, 1.04, .488],
+    0x230B: [1.582, 1.04, .488],
+    0x2772: [1.582, 1.04, .531],
+    0x2773: [1.582, 1.04, .531],
+    0x27E6: [1.582, 1.04, .705],
+    0x27E7: [1.582, 1.04, .705],
+    0x27E8: [1.583, 1.043, .536],
+    0x27E9: [1.583, 1.043, .536],
+    0x27EA: [1.583, 1.043, .845],
+    0x27EB: [1.583, 1.043, .845],
+    0x2983: [1.582, 1.043, .663],
+    0x2984: [1.582, 1.043, .663],
+    0x2985: [1.583, 1.042, .625],
+    0x2986: [1.583, 1.042, .625],
+};
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size8: CharMap<CharOptions> = {
+    0x28: [1.702, 1.162, .542],
+    0x29: [1.702, 1.162, .542],
+    0x5B: [1.702, 1.163, .508],
+    0x5D: [1.702, 1.163, .508],
+    0x7B: [1.702, 1.163, .501],
+    0x7D: [1.702, 1.163, .501],
+    0x2308: [1.702, 1.161, .508],
+    0x2309: [1.702, 1.161, .508],
+    0x230A: [1.702, 1.161, .508],
+    0x230B: [1.702, 1.161, .508],
+    0x2772: [1.702, 1.161, .554],
+    0x2773: [1.702, 1.161, .554],
+    0x27E6: [1.702, 1.161, .733],
+    0x27E7: [1.702, 1.161, .733],
+    0x27E8: [1.703, 1.163, .564],
+    0x27E9: [1.703, 1.163, .564],
+    0x27EA: [1.703, 1.163, .887],
+    0x27EB: [1.703, 1.163, .887],
+    0x2983: [1.702, 1.163, .694],
+    0x2984: [1.702, 1.163, .694],
+    0x2985: [1.703, 1.162, .648],
+    0x2986: [1.703, 1.162, .648],
+};
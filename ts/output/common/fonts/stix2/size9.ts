@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const size9: CharMap<CharOptions> = {
+    0x28: [1.82, 1.28, .564],
+    0x29: [1.82, 1.28, .564],
+    0x5B: [1.82, 1.281, .528],
+    0x5D: [1.82, 1.281, .528],
+    0x7B: [1.82, 1.281, .523],
+    0x7D: [1.82, 1.281, .523],
+    0x2308: [1.82, 1.28, .528],
+    0x2309: [1.82, 1.28, .528],
+    0x230A: [1.82, 1.28, .528],
+    0x230B: [1.82, 1.28, .528],
+    0x2772: [1.82, 1.28, .577],
+    0x2773: [1.82, 1.28, .577],
+    0x27E6: [1.82, 1.28, .762],
+    0x27E7: [1.82, 1.28, .762],
+    0x27E8: [1.821, 1.281, .591],
+    0x27E9: [1.821, 1.281, .591],
+    0x27EA: [1.821, 1.281, .929],
+    0x27EB: [1.821, 1.281, .929],
+    0x2983: [1.82, 1.281, .726],
+    0x2984: [1.82, 1.281, .726],
+    0x2985: [1.821, 1.28, .67],
+    0x2986: [1.821, 1.28, .67],
+};
@@ -0,0 +1,60 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {CharMap, CharOptions} from '../../FontData.js';
+
+export const smallop: CharMap<CharOptions> = {
+    0x220F: [.782, .248, 1.135],
+    0x2210: [.782, .248, 1.135],
+    0x2211: [.782, .248, .936],
+    0x222B: [.727, .226, .684, {ic: .23}],
+    0x222C: [.727, .226, 1.016, {ic: .23}],
+    0x222D: [.727, .226, 1.348, {ic: .23}],
+    0x222E: [.727, .226, .684, {ic: .23}],
+    0x222F: [.727, .226, 1.016, {ic: .23}],
+    0x2230: [.727, .226, 1.348, {ic: .23}],
+    0x2231: [.728, .225, .684, {ic: .23}],
+    0x2232: [.728, .225, .684, {ic: .23}],
+    0x2233: [.727, .226, .684, {ic: .23}],
+    0x22C0: [.781, .265, .946],
+    0x22C1: [.781, .265, .946],
+    0x22C2: [.796, .26, .946],
+    0x22C3: [.786, .271, .946],
+    0x2A00: [.781, .265, 1.153],
+    0x2A01: [.781, .265, 1.153],
+    0x2A02: [.781, .265, 1.153],
+    0x2A03: [.786, .271, .946],
+    0x2A04: [.786, .271, .946],
+    0x2A05: [.781, .265, .946],
+    0x2A06: [.781, .265, .946],
+    0x2A07: [.781, .265, 1.208],
+    0x2A08: [.781, .265, 1.208],
+    0x2A09: [.781, .265, 1.045],
+    0x2A0A: [.782, .248, .936],
+    0x2A0B: [1.078, .571, .936],
+    0x2A0C: [.727, .226, 1.68, {ic: .23}],
+    0x2A0D: [.727, .226, .684, {ic: .23}],
+    0x2A0E: [.727, .226, .684, {ic: .23}],
+    0x2A0F: [.727, .226, .684, {ic: .23}],
+    0x2A10: [.727, .226, .684, {ic: .23}],
+    0x2A11: [.727, .226, .684, {ic: .23}],
+    0x2A12: [.727, .226, .684, {ic: .23}],
+    0x2A13: [.727, .226, .684, {ic: .23}],
+    0x2A14: [.727, .226, .711, {ic: .23}],
+    0x2A15: [.727, .226, .684, {ic: .23}],
+    0x2A16: [.727, .226, .684, {ic: .23}],
+    0x2A17: [.727, .226, .864, {ic: .23}],
+    0x2A18: [.727, .226, .684, {ic: .23}],
+    0x2A19: [.727, .226, .684, {ic: .23}],
+    0x2A1A: [.727, .226, .684, {ic: .23}],
+    0x2A1B: [.849, .226, .684, {ic: .23}],
+    0x2A1C: [.727, .347, .684, {ic: .23}],
+    0x2AFC: [.706, .194, .665],
+    0x2AFF: [.706, .22, .425],
+};
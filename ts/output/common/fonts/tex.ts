@@ -40,6 +40,11 @@ export function CommonTeXFontMixin<
 
   return class extends Base {
 
+    /**
+     * The name of the font
+     */
+    public static NAME = 'TeX';
+
     /**
      *  Add the extra variants for the TeX fonts
      */
@@ -79,11 +84,9 @@ export function CommonTeXFontMixin<
     protected static defaultSizeVariants = ['normal', '-smallop', '-largeop', '-size3', '-size4'];
 
     /**
-     * @override
+     *  The variants that contain the parts of the stretchy delimiters
      */
-    protected getDelimiterData(n: number) {
-      return this.getChar('-smallop', n) || this.getChar('-size4', n);
-    }
+    protected static defaultStretchVariants = ['-smallop', '-size4'];
 
   };
 
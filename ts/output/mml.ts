@@ -0,0 +1,322 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements an OutputJax that produces native presentation MathML
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {AbstractOutputJax} from '../core/OutputJax.js';
+import {MathDocument} from '../core/MathDocument.js';
+import {MathItem, STATE} from '../core/MathItem.js';
+import {MmlNode} from '../core/MmlTree/MmlNode.js';
+import {SerializedMmlVisitor} from '../core/MmlTree/SerializedMmlVisitor.js';
+import {OptionList} from '../util/Options.js';
+import {StyleList as CssStyleList, CssStyles} from '../util/StyleList.js';
+import {percent, em, length2em} from '../util/lengths.js';
+
+/*****************************************************************/
+/**
+ *  A serializer that can drop the TeX class hints and add the
+ *  original source as an annotation in a semantics element.
+ */
+export class MMLVisitor extends SerializedMmlVisitor {
+
+  /**
+   * The options controlling the serialization
+   */
+  public options: OptionList = {
+    texHints: true,         // True means include data-mjx-texclass attributes for TeXAtom elements
+    encoding: ''            // The encoding for the source annotation ('' means no annotation)
+  };
+
+  /**
+   * The source string for the expression being serialized
+   */
+  protected source: string = '';
+
+  /**
+   * @param {MmlNode} node      The internal MathML node to serialize
+   * @param {string} source     The original source of the expression
+   * @param {OptionList} options The options controlling the serialization
+   * @override
+   */
+  public visitTree(node: MmlNode, source: string = '', options: OptionList = {}) {
+    this.source = source;
+    Object.assign(this.options, options);
+    return this.visitNode(node, '');
+  }
+
+  /**
+   * @override
+   */
+  public visitTeXAtomNode(node: MmlNode, space: string) {
+    if (this.options.texHints) {
+      return super.visitTeXAtomNode(node, space);
+    }
+    if (node.childNodes[0] && node.childNodes[0].childNodes.length === 1) {
+      return this.visitNode(node.childNodes[0], space);
+    }
+    return space + '<mrow' + this.getAttributes(node) + '>\n'
+      + this.childNodeMml(node, space + '  ', '\n')
+      + space + '</mrow>';
+  }
+
+  /**
+   * @param {MmlNode} node    The math node to visit
+   * @param {string} space    The number of spaces to use for indentation
+   * @returns {string}        The serialized math element
+   */
+  public visitMathNode(node: MmlNode, space: string): string {
+    if (!this.options.encoding) {
+      return super.visitDefault(node, space);
+    }
+    const addRow = node.childNodes.length && node.childNodes[0].childNodes.length > 1;
+    return space + '<math' + this.getAttributes(node) + '>\n'
+      + space + '  <semantics>\n'
+      + (addRow ? space + '    <mrow>\n' : '')
+      + this.childNodeMml(node, space + (addRow ? '      ' : '    '), '\n')
+      + (addRow ? space + '    </mrow>\n' : '')
+      + space + '    <annotation encoding="' + this.options.encoding + '">'
+      + this.quoteHTML(this.source) + '</annotation>\n'
+      + space + '  </semantics>\n'
+      + space + '</math>';
+  }
+
+}
+
+/*****************************************************************/
+/**
+ *  Implements the MML class (extends AbstractOutputJax)
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export class MML<N, T, D> extends AbstractOutputJax<N, T, D> {
+
+  /**
+   * The name of this output jax
+   */
+  public static NAME: string = 'MML';
+
+  /**
+   * @override
+   */
+  public static OPTIONS: OptionList = {
+    ...AbstractOutputJax.OPTIONS,
+    scale: 1,                      // global scaling factor for all expressions
+    exFactor: .5,                  // default size of ex in em units
+    displayAlign: 'center',        // default for indentalign when set to 'auto'
+    displayIndent: '0',            // default for indentshift when set to 'auto'
+    texHints: true,                // true to include data-mjx-texclass attributes
+    semantics: false,              // true to include the original source as an annotation
+    annotationEncodings: {         // the encodings to use for the source annotations
+      TeX: 'application/x-tex',
+      AsciiMath: 'text/x-asciimath'
+    },
+    visitor: null                  // the MMLVisitor instance to use for serializing the MathML
+  };
+
+  /**
+   *  The default styles for the MathML output
+   */
+  public static commonStyles: CssStyleList = {
+    'mjx-container[jax="MML"]': {
+      direction: 'ltr'
+    },
+    'mjx-container[jax="MML"][display="true"]': {
+      display: 'block',
+      'text-align': 'center',
+      margin: '1em 0'
+    },
+    'mjx-container[jax="MML"][display="true"] > math': {
+      display: 'inline-block'
+    },
+    'mjx-container[jax="MML"][justify="left"]': {
+      'text-align': 'left'
+    },
+    'mjx-container[jax="MML"][justify="right"]': {
+      'text-align': 'right'
+    }
+  };
+
+  /**
+   * The ID for the stylesheet element for the styles for the MathML output
+   */
+  public static STYLESHEETID = 'MJX-MML-styles';
+
+  /**
+   * The serializer used to produce the MathML
+   */
+  public visitor: MMLVisitor;
+
+  /**
+   * Used for collecting styles needed for the output jax
+   */
+  public cssStyles: CssStyles;
+
+  /**
+   * The MathDocument for the math we find
+   */
+  public document: MathDocument<N, T, D>;
+
+  /**
+   * @override
+   * @constructor
+   */
+  constructor(options: OptionList = null) {
+    super(options);
+    this.visitor = this.options.visitor || new MMLVisitor();
+    this.cssStyles = new CssStyles();
+  }
+
+  /**
+   * @override
+   */
+  public typeset(math: MathItem<N, T, D>, html: MathDocument<N, T, D>) {
+    this.setDocument(html);
+    const container = this.adaptor.node('mjx-container', {'class': 'MathJax', jax: MML.NAME});
+    const scale = math.metrics.scale * this.options.scale;
+    if (scale !== 1) {
+      this.adaptor.setStyle(container, 'fontSize', percent(scale));
+    }
+    this.adaptor.append(container, this.toMathML(math));
+    if (math.display) {
+      this.handleDisplay(math, container);
+    }
+    this.executeFilters(this.postFilters, math, html, container);
+    return container;
+  }
+
+  /**
+   * The MathML output is self-contained, so it can always be reused
+   *
+   * @override
+   */
+  public canCacheOutput(_math: MathItem<N, T, D>) {
+    return true;
+  }
+
+  /**
+   * @param {MathItem} math   The MathItem whose MathML is to be created
+   * @return {N}              The MathML DOM node for the expression
+   */
+  public toMathML(math: MathItem<N, T, D>): N {
+    const mml = this.serialize(math);
+    const doc = this.adaptor.parse('<html><body>' + mml + '</body></html>', 'text/html');
+    return this.adaptor.firstChild(this.adaptor.body(doc)) as N;
+  }
+
+  /**
+   * @param {MathItem} math   The MathItem whose MathML is to be serialized
+   * @return {string}         The serialized MathML for the expression
+   */
+  public serialize(math: MathItem<N, T, D>): string {
+    const name = math.inputJax.name;
+    const encoding = (this.options.semantics && this.options.annotationEncodings[name]) || '';
+    return this.visitor.visitTree(math.root, math.math, {texHints: this.options.texHints, encoding});
+  }
+
+  /**
+   * Set the alignment and indentation for displayed math
+   *
+   * @param {MathItem} math  The MathItem being displayed
+   * @param {N} container    The container for the math
+   */
+  protected handleDisplay(math: MathItem<N, T, D>, container: N) {
+    const adaptor = this.adaptor;
+    adaptor.setAttribute(container, 'display', 'true');
+    let {indentalign, indentshift} = math.root.attributes.getList('indentalign', 'indentshift');
+    if (indentalign === 'auto') {
+      indentalign = this.options.displayAlign;
+    }
+    if (indentshift === 'auto') {
+      indentshift = this.options.displayIndent;
+    }
+    if (indentalign !== 'center') {
+      adaptor.setAttribute(container, 'justify', indentalign as string);
+    }
+    const shift = length2em(indentshift as string, math.metrics.containerWidth / math.metrics.em,
+                            1, math.metrics.em);
+    if (shift) {
+      adaptor.setStyle(adaptor.firstChild(container) as N,
+                       indentalign === 'right' ? 'margin-right' : 'margin-left', em(shift));
+    }
+  }
+
+  /**
+   * @override
+   */
+  public escaped(math: MathItem<N, T, D>, html: MathDocument<N, T, D>) {
+    this.setDocument(html);
+    return this.adaptor.node('span', {}, [this.adaptor.text(math.math)]);
+  }
+
+  /**
+   * Get the font size of the containers for the math (the native MathML
+   * renderer handles the sizes of the math itself).
+   *
+   * @override
+   */
+  public getMetrics(html: MathDocument<N, T, D>) {
+    this.setDocument(html);
+    const adaptor = this.adaptor;
+    const sizes: Map<N, [number, number]> = new Map();
+    for (const math of html.math) {
+      const parent = adaptor.parent(math.start.node);
+      if (math.state() < STATE.METRICS && parent) {
+        if (!sizes.has(parent)) {
+          sizes.set(parent, [adaptor.fontSize(parent), adaptor.nodeSize(parent)[0]]);
+        }
+        const [em, width] = sizes.get(parent);
+        const ex = em * this.options.exFactor;
+        math.setMetrics(em, ex, width || 80 * ex, 1000000, 1);
+        math.state(STATE.METRICS);
+      }
+    }
+  }
+
+  /**
+   * @override
+   */
+  public styleSheet(html: MathDocument<N, T, D>) {
+    this.setDocument(html);
+    this.cssStyles.clear();
+    this.cssStyles.addStyles((this.constructor as typeof MML).commonStyles);
+    if ('getStyles' in html) {
+      for (const styles of ((html as any).getStyles() as CssStyleList[])) {
+        this.cssStyles.addStyles(styles);
+      }
+    }
+    return this.adaptor.node('style', {id: MML.STYLESHEETID}, [
+      this.adaptor.text('\n' + this.cssStyles.cssText + '\n')
+    ]);
+  }
+
+  /**
+   * @param {MathDocument} html  The document to be used
+   */
+  protected setDocument(html: MathDocument<N, T, D>) {
+    if (html) {
+      this.document = html;
+      this.adaptor.document = html.document;
+    }
+  }
+
+}
@@ -28,10 +28,12 @@ import {MathItem} from '../core/MathItem.js';
 import {MmlNode} from '../core/MmlTree/MmlNode.js';
 import {SVGWrapper} from './svg/Wrapper.js';
 import {SVGWrapperFactory} from './svg/WrapperFactory.js';
-import {SVGFontData} from './svg/FontData.js';
+import {SVGFontData, SVGFontDataClass} from './svg/FontData.js';
 import {TeXFont} from './svg/fonts/tex.js';
 import {StyleList as CssStyleList} from '../util/StyleList.js';
 import {FontCache} from './svg/FontCache.js';
+import {Standalone} from './svg/Standalone.js';
+import {UnknownFont} from './svg/UnknownFont.js';
 import {unicodeChars} from '../util/string.js';
 import {percent} from '../util/lengths.js';
 
@@ -63,6 +65,10 @@ CommonOutputJax<N, T, D, SVGWrapper<N, T, D>, SVGWrapperFactory<N, T, D>, SVGFon
     titleID: 0,                     // initial id number to use for aria-labeledby titles
     fontCache: 'local',             // or 'global' or 'none'
     localID: null,                  // ID to use for local font cache (for single equation processing)
+    unknownFont: null,              // contents of a font file whose glyphs are used (as paths) for
+                                    //   characters not in the MathJax font (null means use <text>),
+                                    //   or an object giving the files for the normal, bold, italic,
+                                    //   and bold-italic styles (missing styles are synthesized)
   };
 
   /**
@@ -90,6 +96,11 @@ CommonOutputJax<N, T, D, SVGWrapper<N, T, D>, SVGWrapperFactory<N, T, D>, SVGFon
    */
   public static STYLESHEETID = 'MJX-SVG-styles';
 
+  /**
+   * The fonts that can be selected by name
+   */
+  public static fonts: Map<string, SVGFontDataClass> = new Map([[TeXFont.NAME, TeXFont]]);
+
   /**
    * Stores the CHTMLWrapper factory
    */
@@ -100,6 +111,16 @@ CommonOutputJax<N, T, D, SVGWrapper<N, T, D>, SVGWrapperFactory<N, T, D>, SVGFon
    */
   public fontCache: FontCache<N, T, D>;
 
+  /**
+   * The exporter for self-contained SVG documents
+   */
+  public standalone: Standalone<N, T, D>;
+
+  /**
+   * The glyphs for characters not in the MathJax font (null if they use <text> elements)
+   */
+  public unknownFont: UnknownFont = null;
+
   /**
    * Minimum width for tables with labels,
    */
@@ -126,6 +147,10 @@ CommonOutputJax<N, T, D, SVGWrapper<N, T, D>, SVGWrapperFactory<N, T, D>, SVGFon
   constructor(options: OptionList = null) {
     super(options, SVGWrapperFactory as any, TeXFont);
     this.fontCache = new FontCache(this);
+    this.standalone = new Standalone(this);
+    if (this.options.unknownFont) {
+      this.unknownFont = new UnknownFont(this.options.unknownFont);
+    }
   }
 
   /**
@@ -144,6 +169,26 @@ CommonOutputJax<N, T, D, SVGWrapper<N, T, D>, SVGWrapperFactory<N, T, D>, SVGFon
     this.fontCache.clearCache();
   }
 
+  /**
+   * @param {MathItem} math         The math item to export
+   * @param {MathDocument} html     The document containing the math item
+   * @param {OptionList} options    The options for the export (see Standalone.OPTIONS)
+   * @return {string}               The math as a serialized, self-contained SVG document
+   */
+  public standaloneSVG(math: MathItem<N, T, D>, html: MathDocument<N, T, D>, options: OptionList = {}): string {
+    return this.standalone.fromMathItem(math, html, options);
+  }
+
+  /**
+   * The global font cache is part of the page, not the output, so the output
+   * can't be reused when it is in effect.
+   *
+   * @override
+   */
+  public canCacheOutput(_math: MathItem<N, T, D>) {
+    return this.options.fontCache !== 'global';
+  }
+
   /**
    * @override
    */
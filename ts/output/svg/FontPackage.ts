@@ -0,0 +1,72 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements font packages for the SVG output jax
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SVGFontData, SVGFontDataClass, SVGCharOptions, SVGVariantData, SVGDelimiterData,
+        CharStringMap, AddPaths} from './FontData.js';
+import {FontPackageData, CommonFontPackageMixin} from '../common/FontPackage.js';
+
+/*****************************************************************/
+
+/**
+ * The data for an SVG font package (the common data plus the glyph paths)
+ */
+export interface SVGFontPackageData extends FontPackageData<SVGCharOptions, SVGDelimiterData> {
+  paths?: {[variant: string]: CharStringMap};     // the SVG path data for the characters in each variant
+                                                  //   (if they aren't already in the chars)
+  content?: {[variant: string]: CharStringMap};   // the strings to use for remapped characters
+  cacheIds: {[variant: string]: string};          // the ids for the variants in the font cache
+}
+
+/*****************************************************************/
+/**
+ * Create the FontData class for an SVG font package
+ *
+ * @param {SVGFontPackageData} data   The data for the package
+ * @return {SVGFontDataClass}         The FontData class for the package
+ */
+export function SVGFontPackage(data: SVGFontPackageData): SVGFontDataClass {
+  const content = data.content || {};
+  for (const name of Object.keys(data.paths || {})) {
+    AddPaths(data.chars[name], data.paths[name], content[name] || {});
+  }
+
+  return class extends
+  CommonFontPackageMixin<SVGCharOptions, SVGVariantData, SVGDelimiterData, SVGFontDataClass>(SVGFontData, data) {
+
+    /**
+     * @override
+     */
+    constructor() {
+      super();
+      //
+      //  Add the cacheIDs to the variants (using the package id so that
+      //  they don't conflict with the ones from other fonts)
+      //
+      for (const variant of Object.keys(data.cacheIds)) {
+        this.variant[variant].cacheID = data.id + '-' + data.cacheIds[variant];
+      }
+    }
+
+  };
+
+}
@@ -0,0 +1,340 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the export of SVG output as self-contained SVG documents
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SVG, SVGNS, XLINKNS} from '../svg.js';
+import {MathItem} from '../../core/MathItem.js';
+import {MathDocument} from '../../core/MathDocument.js';
+import {OptionList, userOptions, defaultOptions} from '../../util/Options.js';
+
+/**
+ * The namespace used for the MathJax elements in the <metadata>
+ */
+export const MJXNS = 'https://www.mathjax.org/namespace';
+
+/**
+ * The number of each unit in a pixel
+ */
+export const UNITS: {[unit: string]: number} = {
+  px: 1,
+  pt: 72 / 96,
+  pc: 6 / 96,
+  in: 1 / 96,
+  cm: 2.54 / 96,
+  mm: 25.4 / 96
+};
+
+/**
+ * A presentation-attribute version of a rule from the SVG stylesheet
+ */
+export type StandaloneRule = {
+  kind: string,                 // the element kind ('*' for any)
+  parent?: string,              // the data-mml-node value of the parent element
+  has?: string,                 // an attribute the element must have
+  className?: string,           // a class the element must have
+  attributes: OptionList        // the attributes to set for matching elements
+};
+
+/*****************************************************************/
+/**
+ *  Converts the output of the SVG jax to a self-contained SVG document.
+ *  The result has explicit sizes in absolute units, includes the font
+ *  paths that it uses (even when the global font cache is in effect),
+ *  replaces the rules of the SVG stylesheet by presentation attributes,
+ *  and records the original source in a <metadata> element, so it can
+ *  be used as an image file without MathJax's CSS.
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export class Standalone<N, T, D> {
+
+  /**
+   * The default options
+   */
+  public static OPTIONS: OptionList = {
+    units: 'pt',             // the units for the width and height (px, pt, pc, in, cm, or mm)
+    ex: 8,                   // the size of an ex in pixels (when not given by a MathItem)
+    color: 'black',          // the color to use for currentColor (null to leave currentColor)
+    source: null,            // the original source of the math
+    format: null,            // the format of the source (e.g., TeX or MathML)
+    display: null,           // true for display math, false for in-line math (null if unknown)
+    title: null,             // the text for the <title> element
+    desc: null,              // the text for the <desc> element
+    speech: true,            // true to use speech in the output for the title (or desc, if a title is given)
+    xmlDeclaration: true     // true to include the <?xml?> declaration in the serialized document
+  };
+
+  /**
+   * The stylesheet rules that are needed in the output, as presentation attributes
+   */
+  public static rules: StandaloneRule[] = [
+    {kind: 'svg', attributes: {overflow: 'visible'}},
+    {kind: 'path', attributes: {'stroke-width': 3}},
+    {kind: 'a', attributes: {fill: 'blue', stroke: 'blue'}},
+    {kind: 'g', parent: 'merror', attributes: {fill: 'red', stroke: 'red'}},
+    {kind: 'rect', parent: 'merror', has: 'data-background', attributes: {fill: 'yellow', stroke: 'none'}},
+    {kind: 'line', parent: 'mtable', has: 'data-line', attributes: {'stroke-width': '70px', fill: 'none'}},
+    {kind: 'rect', parent: 'mtable', has: 'data-frame', attributes: {'stroke-width': '70px', fill: 'none'}},
+    {kind: '*', parent: 'mtable', className: 'mjx-dashed', attributes: {'stroke-dasharray': 140}},
+    {kind: '*', parent: 'mtable', className: 'mjx-dotted',
+     attributes: {'stroke-linecap': 'round', 'stroke-dasharray': '0,140'}}
+  ];
+
+  /**
+   * The SVG jax that owns this exporter
+   */
+  protected jax: SVG<N, T, D>;
+
+  /**
+   * @param {SVG} jax  The SVG jax owning this exporter
+   */
+  constructor(jax: SVG<N, T, D>) {
+    this.jax = jax;
+  }
+
+  /**
+   * @param {MathItem} math         The math item to export (it is typeset, if needed)
+   * @param {MathDocument} html     The document containing the math item
+   * @param {OptionList} options    The options for the export
+   * @return {string}               The serialized SVG document
+   */
+  public fromMathItem(math: MathItem<N, T, D>, html: MathDocument<N, T, D>, options: OptionList = {}): string {
+    math.compile(html);
+    math.typeset(html);
+    return this.fromNode(math.typesetRoot, {
+      ex: math.metrics.ex,
+      source: math.math,
+      format: math.inputJax.name,
+      display: math.display,
+      ...options
+    });
+  }
+
+  /**
+   * @param {N} node               The mjx-container (or svg element) produced by the SVG jax
+   * @param {OptionList} options   The options for the export
+   * @return {string}              The serialized SVG document
+   */
+  public fromNode(node: N, options: OptionList = {}): string {
+    const CLASS = this.constructor as typeof Standalone;
+    options = userOptions(defaultOptions({}, CLASS.OPTIONS), options);
+    const svg = this.export(node, options);
+    const xml = this.jax.adaptor.outerHTML(svg);
+    return (options.xmlDeclaration ? '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' : '') + xml;
+  }
+
+  /**
+   * @param {N} node               The mjx-container (or svg element) produced by the SVG jax
+   * @param {OptionList} options   The (complete) options for the export
+   * @return {N}                   The self-contained svg element
+   */
+  public export(node: N, options: OptionList): N {
+    const adaptor = this.jax.adaptor;
+    const root = (adaptor.kind(node) === 'svg' ? node : adaptor.tags(node, 'svg')[0]);
+    if (!root) {
+      throw new Error('No SVG output found to export');
+    }
+    const speech = this.getSpeech(node, root);
+    const svg = adaptor.clone(root);
+    this.setSize(svg, options.ex * this.jax.options.scale, options.units);
+    this.addDefs(svg);
+    this.setAttributes(svg, options.color);
+    for (const name of ['style', 'role', 'focusable', 'aria-labeledby', 'aria-label', 'aria-hidden']) {
+      adaptor.removeAttribute(svg, name);
+    }
+    adaptor.setAttribute(svg, 'xmlns', SVGNS);
+    adaptor.setAttribute(svg, 'xmlns:xlink', XLINKNS);
+    adaptor.setAttribute(svg, 'version', '1.1');
+    this.addMetadata(svg, options);
+    this.addTitles(svg, speech, options);
+    return svg;
+  }
+
+  /**
+   * @param {N} node   The mjx-container (or svg element)
+   * @param {N} svg    The svg element
+   * @return {string}  The speech string for the expression (if any)
+   */
+  protected getSpeech(node: N, svg: N): string {
+    const adaptor = this.jax.adaptor;
+    const title = adaptor.childNodes(svg).filter(child => adaptor.kind(child) === 'title')[0] as N;
+    return (title ? adaptor.textContent(title) : adaptor.getAttribute(node, 'aria-label')) || '';
+  }
+
+  /**
+   * Set the width, height, and viewBox in absolute units
+   *
+   * @param {N} svg         The svg element
+   * @param {number} ex     The size of an ex in pixels
+   * @param {string} units  The units to use
+   */
+  protected setSize(svg: N, ex: number, units: string) {
+    const adaptor = this.jax.adaptor;
+    const factor = ex * (UNITS[units] || 1);
+    const unit = (UNITS[units] ? units : 'px');
+    const width = adaptor.getAttribute(svg, 'width') || '';
+    const w = parseFloat(width.match(/ex$/) ? width : adaptor.getStyle(svg, 'min-width')) || 0;
+    const h = parseFloat(adaptor.getAttribute(svg, 'height')) || 0;
+    if (!adaptor.getAttribute(svg, 'viewBox')) {
+      //
+      //  Width 100% output is scaled to pixels within the svg element
+      //
+      adaptor.setAttribute(svg, 'viewBox', [0, 0, this.jax.fixed(w * ex, 3), this.jax.fixed(h * ex, 3)].join(' '));
+    }
+    adaptor.setAttribute(svg, 'width', this.jax.fixed(w * factor, 3) + unit);
+    adaptor.setAttribute(svg, 'height', this.jax.fixed(h * factor, 3) + unit);
+  }
+
+  /**
+   * Add the paths from the global font cache that are used by the svg element
+   *
+   * @param {N} svg   The svg element
+   */
+  protected addDefs(svg: N) {
+    const adaptor = this.jax.adaptor;
+    const defined = new Set<string>();
+    const needed = new Set<string>();
+    this.walk(svg, (node: N) => {
+      const id = adaptor.getAttribute(node, 'id');
+      if (id) {
+        defined.add(id);
+      }
+      const href = adaptor.getAttribute(node, 'xlink:href') || adaptor.getAttribute(node, 'href') || '';
+      if (adaptor.kind(node) === 'use' && href.charAt(0) === '#') {
+        needed.add(href.substr(1));
+      }
+    });
+    const cache = this.jax.fontCache.getCache();
+    if (!cache) return;
+    const defs = this.jax.svg('defs');
+    for (const path of adaptor.childNodes(cache) as N[]) {
+      const id = adaptor.getAttribute(path, 'id');
+      if (needed.has(id) && !defined.has(id)) {
+        adaptor.append(defs, adaptor.clone(path));
+      }
+    }
+    if (adaptor.childNodes(defs).length) {
+      adaptor.insert(defs, adaptor.firstChild(svg));
+    }
+  }
+
+  /**
+   * Replace the stylesheet rules by attributes, and currentColor by the given color
+   *
+   * @param {N} svg          The svg element
+   * @param {string} color   The color to use for currentColor (or null)
+   */
+  protected setAttributes(svg: N, color: string) {
+    const adaptor = this.jax.adaptor;
+    const rules = (this.constructor as typeof Standalone).rules;
+    this.walk(svg, (node: N, parent: N) => {
+      const kind = adaptor.kind(node);
+      const mml = (parent ? adaptor.getAttribute(parent, 'data-mml-node') : null);
+      for (const rule of rules) {
+        if ((rule.kind === '*' || rule.kind === kind) &&
+            (!rule.parent || rule.parent === mml) &&
+            (!rule.has || adaptor.hasAttribute(node, rule.has)) &&
+            (!rule.className || adaptor.hasClass(node, rule.className))) {
+          for (const name of Object.keys(rule.attributes)) {
+            adaptor.setAttribute(node, name, rule.attributes[name]);
+          }
+        }
+      }
+      if (color) {
+        for (const name of ['fill', 'stroke', 'color']) {
+          if (adaptor.getAttribute(node, name) === 'currentColor') {
+            adaptor.setAttribute(node, name, color);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Add the <metadata> element with the original source
+   *
+   * @param {N} svg                The svg element
+   * @param {OptionList} options   The options for the export
+   */
+  protected addMetadata(svg: N, options: OptionList) {
+    if (options.source == null) return;
+    const adaptor = this.jax.adaptor;
+    const math = this.jax.svg('mjx:source', {'xmlns:mjx': MJXNS}, [this.jax.text(options.source)]);
+    if (options.format) {
+      adaptor.setAttribute(math, 'format', options.format);
+    }
+    if (options.display !== null) {
+      adaptor.setAttribute(math, 'display', options.display ? 'block' : 'inline');
+    }
+    adaptor.insert(this.jax.svg('metadata', {}, [math]), adaptor.firstChild(svg));
+  }
+
+  /**
+   * Add the <title> and <desc> elements (replacing any existing title)
+   *
+   * @param {N} svg                The svg element
+   * @param {string} speech        The speech string for the expression
+   * @param {OptionList} options   The options for the export
+   */
+  protected addTitles(svg: N, speech: string, options: OptionList) {
+    const adaptor = this.jax.adaptor;
+    for (const child of adaptor.childNodes(svg) as N[]) {
+      if (adaptor.kind(child) === 'title') {
+        adaptor.remove(child);
+      }
+    }
+    let {title, desc} = options;
+    if (options.speech && speech) {
+      if (title == null) {
+        title = speech;
+      } else if (desc == null) {
+        desc = speech;
+      }
+    }
+    if (desc != null) {
+      adaptor.insert(this.jax.svg('desc', {}, [this.jax.text(desc)]), adaptor.firstChild(svg));
+    }
+    if (title != null) {
+      adaptor.insert(this.jax.svg('title', {}, [this.jax.text(title)]), adaptor.firstChild(svg));
+    }
+  }
+
+  /**
+   * Call a function for every element in a tree
+   *
+   * @param {N} node                                The root of the tree
+   * @param {(node: N, parent: N) => void} action   The function to call
+   * @param {N} parent                              The parent of the node
+   */
+  protected walk(node: N, action: (node: N, parent: N) => void, parent: N = null) {
+    const adaptor = this.jax.adaptor;
+    action(node, parent);
+    for (const child of adaptor.childNodes(node) as N[]) {
+      if (adaptor.kind(child) !== '#text' && adaptor.kind(child) !== '#comment') {
+        this.walk(child, action, node);
+      }
+    }
+  }
+
+}
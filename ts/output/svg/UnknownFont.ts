@@ -0,0 +1,158 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the glyph data for characters that aren't
+ *                in the MathJax font, taken from a local font file
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SVGCharData} from './FontData.js';
+import {OpenTypeFont, PathCommand, svgPathData, pathBBox} from '../../util/OpenType.js';
+
+/**
+ * The contents of the font file (used for the normal style), or of the
+ *   files for the individual styles (normal, bold, italic, and bold-italic)
+ */
+export type UnknownFontFiles = Uint8Array | {[style: string]: Uint8Array};
+
+/*****************************************************************/
+/**
+ *  The UnknownFont class converts the glyphs of OpenType or TrueType
+ *  fonts into SVG character data, so that characters not in the MathJax
+ *  font can be drawn as paths rather than as <text> elements.  There can
+ *  be a font for each of the normal, bold, italic, and bold-italic styles;
+ *  a style without a font is synthesized from the closest one that is
+ *  available, by slanting its glyphs for italic, and thickening them for bold.
+ */
+export class UnknownFont {
+
+  /**
+   * The fonts to try for each style (in order), when the style has no font of its own
+   */
+  public static fallbacks: {[style: string]: string[]} = {
+    normal: ['normal'],
+    bold: ['bold', 'normal'],
+    italic: ['italic', 'normal'],
+    'bold-italic': ['bold-italic', 'bold', 'italic', 'normal']
+  };
+
+  /**
+   * The slant (horizontal shift per unit of height) used for synthesized italics
+   */
+  public static slant = .25;
+
+  /**
+   * The amount (in ems) that glyphs are thickened for synthesized bold
+   */
+  public static embolden = .04;
+
+  /**
+   * The fonts for the styles that have them
+   */
+  protected fonts: {[style: string]: OpenTypeFont} = {};
+
+  /**
+   * The character data already computed for each style (null for characters not in the font)
+   */
+  protected chars: {[style: string]: Map<number, SVGCharData>} = {};
+
+  /**
+   * @param {UnknownFontFiles} data   The contents of the font file(s)
+   */
+  constructor(data: UnknownFontFiles) {
+    const files = (data instanceof Uint8Array ? {normal: data} : data);
+    for (const style of Object.keys(files)) {
+      if (!UnknownFont.fallbacks.hasOwnProperty(style)) {
+        throw new Error('Unknown font style "' + style + '"');
+      }
+      if (files[style]) {
+        this.fonts[style] = new OpenTypeFont(files[style]);
+      }
+    }
+  }
+
+  /**
+   * @param {number} n          The code point of the character
+   * @param {string} style      The style (normal, bold, italic, or bold-italic) to use
+   * @return {SVGCharData}      The data for the character (in ems, with the path
+   *                              in 1000 units per em), or null if it isn't in the font
+   */
+  public getChar(n: number, style: string = 'normal'): SVGCharData {
+    const chars = this.chars[style] || (this.chars[style] = new Map());
+    if (!chars.has(n)) {
+      chars.set(n, this.charData(n, style));
+    }
+    return chars.get(n);
+  }
+
+  /**
+   * @param {number} n          The code point of the character
+   * @param {string} style      The style to use
+   * @return {SVGCharData}      The data for the character, or null if it isn't in the font
+   */
+  protected charData(n: number, style: string): SVGCharData {
+    const source = (UnknownFont.fallbacks[style] || []).filter(name => this.fonts[name])[0];
+    const font = this.fonts[source];
+    const glyph = (font ? font.cmap.get(n) : 0);
+    if (!glyph) {
+      return null;
+    }
+    const em = font.unitsPerEm;
+    let path = font.path(glyph);
+    let w = font.advance(glyph);
+    if (style.match(/italic/) && !source.match(/italic/)) {
+      path = this.slant(path, UnknownFont.slant);
+    }
+    if (style.match(/bold/) && !source.match(/bold/)) {
+      path = this.embolden(path, UnknownFont.embolden * em);
+      w += UnknownFont.embolden * em;
+    }
+    const [ , yMin, , yMax] = pathBBox(path);
+    return [
+      Math.max(0, yMax / em), Math.max(0, -yMin / em), w / em,
+      {p: svgPathData(path, 1000 / em)}
+    ];
+  }
+
+  /**
+   * @param {PathCommand[]} path   The path to slant
+   * @param {number} slant         The horizontal shift per unit of height
+   * @return {PathCommand[]}       The slanted path
+   */
+  protected slant(path: PathCommand[], slant: number): PathCommand[] {
+    return path.map(([cmd, ...coords]) =>
+      [cmd, ...coords.map((v, i) => (i % 2 ? v : v + slant * coords[i + 1]))] as PathCommand
+    );
+  }
+
+  /**
+   * Thicken the path by overprinting it with a copy shifted to the right
+   *   (the outlines are filled with the nonzero rule, so the copies merge)
+   *
+   * @param {PathCommand[]} path   The path to thicken
+   * @param {number} dx            The amount to thicken it (in font units)
+   * @return {PathCommand[]}       The thickened path
+   */
+  protected embolden(path: PathCommand[], dx: number): PathCommand[] {
+    return path.concat(path.map(([cmd, ...coords]) =>
+      [cmd, ...coords.map((v, i) => (i % 2 ? v : v + dx))] as PathCommand
+    ));
+  }
+
+}
@@ -25,7 +25,7 @@ import {OptionList} from '../../util/Options.js';
 import {CommonWrapper, AnyWrapperClass, Constructor} from '../common/Wrapper.js';
 import {SVG, XLINKNS} from '../svg.js';
 import {SVGWrapperFactory} from './WrapperFactory.js';
-import {SVGFontData, SVGDelimiterData, SVGCharOptions} from './FontData.js';
+import {SVGFontData, SVGDelimiterData, SVGCharOptions, SVGCharData} from './FontData.js';
 
 export {Constructor, StringMap} from '../common/Wrapper.js';
 
@@ -214,7 +214,8 @@ CommonWrapper<
    * Don't copy those in the skipAttributes list, or anything that already exists
    * as a property of the node (e.g., no "onlick", etc.).  If a name in the
    * skipAttributes object is set to false, then the attribute WILL be copied.
-   * Add the class to any other classes already in use.
+   * Add the class to any other classes already in use, and copy the
+   * properties listed in dataProperties as data attributes.
    */
   protected handleAttributes() {
     const attributes = this.node.attributes;
@@ -232,6 +233,13 @@ CommonWrapper<
         this.adaptor.addClass(this.element, name);
       }
     }
+    const data = SVGWrapper.dataProperties;
+    for (const name of Object.keys(data)) {
+      const value = this.node.getProperty(name);
+      if (value !== undefined) {
+        this.adaptor.setAttribute(this.element, data[name], String(value));
+      }
+    }
   }
 
   /*******************************************************************/
@@ -284,6 +292,42 @@ CommonWrapper<
     return w;
   }
 
+  /**
+   * Use the glyphs from the unknown-character font (if there is one) for
+   * characters that aren't in the MathJax font, so that they are drawn as paths
+   *
+   * @override
+   */
+  protected getVariantChar(variant: string, n: number): SVGCharData {
+    const char = super.getVariantChar(variant, n);
+    const font = this.jax.unknownFont;
+    if (!char[3].unknown || !font) {
+      return char;
+    }
+    const style = this.unknownFontStyle(variant);
+    return (style && font.getChar(n, style)) || char;
+  }
+
+  /**
+   * The unknown-character font supplies the normal, bold, italic, and bold-italic
+   * styles of the normal variant's CSS font family, so it is used only for variants
+   * whose text would be in that family (others use <text>)
+   *
+   * @param {string} variant    The name of the variant being used
+   * @return {string}           The style of the unknown-character font to use
+   *                              (or null if the font can't supply the variant)
+   */
+  protected unknownFontStyle(variant: string): string {
+    if (variant === '-explicitFont') {
+      return null;
+    }
+    const [family, italic, bold] = this.font.getCssFont(variant);
+    if (family !== this.font.getCssFont('normal')[0]) {
+      return null;
+    }
+    return (bold ? (italic ? 'bold-italic' : 'bold') : (italic ? 'italic' : 'normal'));
+  }
+
   /**
    * @param {string} variant    The name of the variant being used
    * @param {string} C          The hex string for the character code
@@ -51,6 +51,8 @@ import {SVGmenclose} from './Wrappers/menclose.js';
 import {SVGsemantics, SVGannotation, SVGannotationXML, SVGxml} from './Wrappers/semantics.js';
 import {SVGmglyph} from './Wrappers/mglyph.js';
 import {SVGTeXAtom} from './Wrappers/TeXAtom.js';
+import {SVGCdDiagram} from './Wrappers/CdDiagram.js';
+import {SVGChemStructure} from './Wrappers/ChemStructure.js';
 import {SVGTextNode} from './Wrappers/TextNode.js';
 
 export const SVGWrappers: {[kind: string]: WrapperConstructor}  = {
@@ -89,6 +91,8 @@ export const SVGWrappers: {[kind: string]: WrapperConstructor}  = {
   [SVGxml.kind]: SVGxml,
   [SVGmglyph.kind]: SVGmglyph,
   [SVGTeXAtom.kind]: SVGTeXAtom,
+  [SVGCdDiagram.kind]: SVGCdDiagram,
+  [SVGChemStructure.kind]: SVGChemStructure,
   [SVGTextNode.kind]: SVGTextNode,
   [SVGWrapper.kind]: SVGWrapper
 };
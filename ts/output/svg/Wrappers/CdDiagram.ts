@@ -0,0 +1,118 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the SVGCdDiagram wrapper for the CdDiagram object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SVGWrapper, SVGConstructor} from '../Wrapper.js';
+import {CommonCdDiagramMixin, CdPath, CdSizes} from '../../common/Wrappers/CdDiagram.js';
+import {CdDiagram} from '../../../core/MmlTree/MmlNodes/CdDiagram.js';
+import {OptionList} from '../../../util/Options.js';
+
+/*****************************************************************/
+/**
+ * The SVGCdDiagram wrapper for the CdDiagram object
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+// @ts-ignore
+export class SVGCdDiagram<N, T, D> extends
+CommonCdDiagramMixin<SVGConstructor<any, any, any>>(SVGWrapper) {
+
+  /**
+   * The CdDiagram wrapper
+   */
+  public static kind = CdDiagram.prototype.kind;
+
+  /**
+   * @override
+   */
+  public toSVG(parent: N) {
+    const svg = this.standardSVGnode(parent);
+    const {places, paths, masks, dx} = this.getLayout();
+    //
+    //  Place the table
+    //
+    this.childNodes[0].toSVG(svg);
+    this.childNodes[0].place(dx, 0);
+    //
+    //  Draw the arrows
+    //
+    const arrows = this.adaptor.append(svg, this.svg('g', {'data-arrows': true})) as N;
+    this.place(dx, 0, arrows);
+    for (const path of paths) {
+      this.adaptor.append(arrows, this.path(path));
+    }
+    //
+    //  Keep the arrows from being drawn under the labels that sit on them
+    //
+    if (masks.length) {
+      const id = this.maskID();
+      this.adaptor.append(svg, this.mask(id));
+      this.adaptor.setAttribute(arrows, 'mask', 'url(#' + id + ')');
+    }
+    //
+    //  Place the labels
+    //
+    for (let i = 1; i < this.childNodes.length; i++) {
+      const child = this.childNodes[i];
+      const [x, y] = [places[i][0] + dx, places[i][1]];
+      child.toSVG(svg);
+      child.place(x, y);
+    }
+  }
+
+  /**
+   * @param {string} id   The id for the mask
+   * @return {N}          The mask that hides the arrows where the masked labels are
+   */
+  protected mask(id: string): N {
+    const [area, ...labels] = this.getMaskBoxes();
+    const rect = ([x, y, w, h]: number[], fill: string) => this.svg('rect', {
+      x: this.fixed(x), y: this.fixed(y), width: this.fixed(w), height: this.fixed(h), fill
+    });
+    return this.svg('mask', {
+      id, maskUnits: 'userSpaceOnUse',
+      x: this.fixed(area[0]), y: this.fixed(area[1]), width: this.fixed(area[2]), height: this.fixed(area[3])
+    }, [rect(area, 'white'), ...labels.map(box => rect(box, 'black'))]);
+  }
+
+  /**
+   * @param {CdPath} path   The path to be drawn
+   * @return {N}            The SVG path element for it
+   */
+  protected path(path: CdPath): N {
+    const def: OptionList = {
+      d: path.path.map(x => (typeof x === 'string' ? x : this.fixed(x))).join(' '),
+      style: {'stroke-width': this.fixed(CdSizes.thickness)},
+      'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+      fill: 'none'
+    };
+    if (path.dash === 'dashed') {
+      def['stroke-dasharray'] = this.fixed(.25) + ' ' + this.fixed(.2);
+    } else if (path.dash === 'dotted') {
+      def['stroke-dasharray'] = '0 ' + this.fixed(.15);
+    }
+    return this.svg('path', def);
+  }
+
+}
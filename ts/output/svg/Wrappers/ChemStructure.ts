@@ -0,0 +1,82 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the SVGChemStructure wrapper for the ChemStructure object
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {SVGWrapper, SVGConstructor} from '../Wrapper.js';
+import {CommonChemStructureMixin, ChemPath, ChemSizes} from '../../common/Wrappers/ChemStructure.js';
+import {ChemStructure} from '../../../core/MmlTree/MmlNodes/ChemStructure.js';
+
+/*****************************************************************/
+/**
+ * The SVGChemStructure wrapper for the ChemStructure object
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+// @ts-ignore
+export class SVGChemStructure<N, T, D> extends
+CommonChemStructureMixin<SVGConstructor<any, any, any>>(SVGWrapper) {
+
+  /**
+   * The ChemStructure wrapper
+   */
+  public static kind = ChemStructure.prototype.kind;
+
+  /**
+   * @override
+   */
+  public toSVG(parent: N) {
+    const svg = this.standardSVGnode(parent);
+    const {places, paths, dx} = this.getLayout();
+    //
+    //  Draw the bonds
+    //
+    const bonds = this.adaptor.append(svg, this.svg('g', {'data-bonds': true})) as N;
+    this.place(dx, 0, bonds);
+    for (const path of paths) {
+      this.adaptor.append(bonds, this.path(path));
+    }
+    //
+    //  Place the atoms
+    //
+    for (const i of this.childNodes.keys()) {
+      const child = this.childNodes[i];
+      child.toSVG(svg);
+      child.place(places[i][0] + dx, places[i][1]);
+    }
+  }
+
+  /**
+   * @param {ChemPath} path   The path to be drawn
+   * @return {N}              The SVG path element for it
+   */
+  protected path(path: ChemPath): N {
+    return this.svg('path', {
+      d: path.path.map(x => (typeof x === 'string' ? x : this.fixed(x))).join(' '),
+      style: {'stroke-width': this.fixed(ChemSizes.thickness)},
+      'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+      fill: (path.fill ? 'currentColor' : 'none')
+    });
+  }
+
+}
@@ -131,7 +131,7 @@ CommonMoMixin<SVGConstructor<any, any, any>>(SVGWrapper) {
    * @return {SVGCharData}     The full CharData object, with CharOptions guaranteed to be defined
    */
   protected getChar(n: number): SVGCharData {
-    const char = this.font.getChar('-size4', n) || [0, 0, 0, null];
+    const char = this.font.getChar(this.font.getStretchVariant(n), n) || [0, 0, 0, null];
     return [char[0], char[1], char[2], char[3] || {}] as [number, number, number, SVGCharOptions];
   }
 
@@ -143,7 +143,7 @@ CommonMoMixin<SVGConstructor<any, any, any>>(SVGWrapper) {
    * @return {number}    The width of the character placed
    */
   protected addGlyph(n: number, x: number, y: number, parent: N = null): number {
-    return this.placeChar(n, x, y, parent || this.element, '-size4');
+    return this.placeChar(n, x, y, parent || this.element, this.font.getStretchVariant(n));
   }
 
   /***********************************************************/
@@ -48,8 +48,32 @@ CommonMrowMixin<SVGConstructor<any, any, any>>(SVGWrapper) {
    */
   public toSVG(parent: N) {
     const svg = (this.node.isInferred ? (this.element = parent) : this.standardSVGnode(parent));
-    this.addChildren(svg);
-    // FIXME:  handle line breaks
+    if (this.isLinebroken) {
+      this.addLines(svg);
+    } else {
+      this.addChildren(svg);
+    }
+  }
+
+  /**
+   * Place the children of each line of a broken row into a group
+   *   positioned at the line's offset.
+   *
+   * @param {N} svg  The SVG node where the lines are to be added
+   */
+  protected addLines(svg: N) {
+    for (const line of this.lines) {
+      const g = this.adaptor.append(svg, this.svg('g', {'data-mjx-linebox': true})) as N;
+      let x = 0;
+      for (const child of this.childNodes.slice(line.start, line.end)) {
+        child.toSVG(g);
+        if (child.element) {
+          child.place(x + child.bbox.L * child.bbox.rscale, 0);
+        }
+        x += (child.bbox.L + child.bbox.w + child.bbox.R) * child.bbox.rscale;
+      }
+      this.place(line.x, -line.y, g);
+    }
   }
 
 }
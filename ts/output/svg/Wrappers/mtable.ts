@@ -113,7 +113,7 @@ CommonMtableMixin<SVGmtd<any, any, any>, SVGmtr<any, any, any>, SVGConstructor<a
     const {H, D} = this.getTableData();
     const HD = this.getEqualRowHeight();
     const rSpace = this.getRowHalfSpacing();
-    const rLines = [this.fLine, ...this.rLines, this.fLine];
+    const rLines = [this.fLine + this.rEdges[0], ...this.rLines, this.fLine + this.rEdges[1]];
     let y = this.getBBox().h - rLines[0];
     for (let i = 0; i < this.numRows; i++) {
       const row = this.childNodes[i];
@@ -151,51 +151,96 @@ CommonMtableMixin<SVGmtd<any, any, any>, SVGmtr<any, any, any>, SVGConstructor<a
   }
 
   /**
-   * Add vertical lines between columns
+   * Add vertical lines between columns (and the cell borders along the left and right edges)
    *
    * @param {N} svg   The container for the table
    */
   protected handleColumnLines(svg: N) {
-    if (this.node.attributes.get('columnlines') === 'none') return;
-    const lines = this.getColumnAttributes('columnlines');
-    if (!lines) return;
-    const cSpace = this.getColumnHalfSpacing();
-    const cLines = this.cLines;
-    const cWidth = this.getComputedWidths();
-    let x = this.fLine;
-    for (let i = 0; i < lines.length; i++) {
-      x += cSpace[i] + cWidth[i] + cSpace[i + 1];
-      if (lines[i] !== 'none') {
-        this.adaptor.append(svg, this.makeVLine(x, lines[i], cLines[i]));
+    const {h, d} = this.getBBox();
+    const cLines = [this.cEdges[0], ...this.cLines, this.cEdges[1]];
+    const rLines = [this.rEdges[0], ...this.rLines, this.rEdges[1]];
+    const X = this.getColumnLinePositions();
+    const Y = this.getRowLinePositions();
+    const [n, m] = [this.numCols, this.numRows];
+    for (let i = 0; i <= n; i++) {
+      if (!cLines[i]) continue;
+      //
+      //  Draw one line for each run of rows with the same style
+      //
+      for (let j = 0, k = 1; j < m; j = k++) {
+        const style = this.vLines[j][i];
+        while (k < m && this.vLines[k][i] === style) k++;
+        if (style === 'none') continue;
+        const y0 = (k === m ? -d : Y[k] - rLines[k] / 2);
+        const y1 = (j === 0 ? h : Y[j] - rLines[j] / 2);
+        this.adaptor.append(svg, this.makeVLine(X[i], style, cLines[i], y0, y1));
       }
-      x += cLines[i];
     }
   }
 
   /**
-   * Add horizontal lines between rows
+   * Add horizontal lines between rows (and the cell borders along the top and bottom edges)
    *
    * @param {N} svg   The container for the table
    */
   protected handleRowLines(svg: N) {
-    if (this.node.attributes.get('rowlines') === 'none') return;
-    const lines = this.getRowAttributes('rowlines');
-    if (!lines) return;
+    const w = this.getBBox().w;
+    const cLines = [this.cEdges[0], ...this.cLines, this.cEdges[1]];
+    const rLines = [this.rEdges[0], ...this.rLines, this.rEdges[1]];
+    const X = this.getColumnLinePositions();
+    const Y = this.getRowLinePositions();
+    const [n, m] = [this.numCols, this.numRows];
+    for (let j = 0; j <= m; j++) {
+      if (!rLines[j]) continue;
+      //
+      //  Draw one line for each run of columns with the same style
+      //
+      for (let i = 0, k = 1; i < n; i = k++) {
+        const style = this.hLines[j][i];
+        while (k < n && this.hLines[j][k] === style) k++;
+        if (style === 'none') continue;
+        const x0 = (i === 0 ? 0 : X[i] + cLines[i] / 2);
+        const x1 = (k === n ? w : X[k] + cLines[k] / 2);
+        this.adaptor.append(svg, this.makeHLine(Y[j], style, rLines[j], x0, x1));
+      }
+    }
+  }
+
+  /**
+   * @return {number[]}   The x positions of the left sides of the lines to the left of each column
+   *                        (the last one is for the line at the right of the table)
+   */
+  protected getColumnLinePositions(): number[] {
+    const cSpace = this.getColumnHalfSpacing();
+    const cLines = [this.cEdges[0], ...this.cLines, this.cEdges[1]];
+    const cWidth = this.getComputedWidths();
+    let x = this.fLine;
+    const X = [x];
+    for (let i = 0; i < this.numCols; i++) {
+      x += cLines[i] + cSpace[i] + cWidth[i] + cSpace[i + 1];
+      X.push(x);
+    }
+    return X;
+  }
+
+  /**
+   * @return {number[]}   The y positions of the tops of the lines above each row
+   *                        (the last one is for the line at the bottom of the table)
+   */
+  protected getRowLinePositions(): number[] {
     const equal = this.node.attributes.get('equalrows') as boolean;
     const {H, D} = this.getTableData();
     const HD = this.getEqualRowHeight();
     const rSpace = this.getRowHalfSpacing();
-    const rLines = this.rLines;
+    const rLines = [this.rEdges[0], ...this.rLines, this.rEdges[1]];
     let y = this.getBBox().h - this.fLine;
-    for (let i = 0; i < lines.length; i++) {
-      const [rH, rD] = this.getRowHD(equal, HD, H[i], D[i]);
-      y -= rSpace[i] + rH + rD + rSpace[i + 1];
-      if (lines[i] !== 'none') {
-        this.adaptor.append(svg, this.makeHLine(y, lines[i], rLines[i]));
-      }
-      y -= rLines[i];
+    const Y = [y];
+    for (let j = 0; j < this.numRows; j++) {
+      const [rH, rD] = this.getRowHD(equal, HD, H[j], D[j]);
+      y -= rLines[j] + rSpace[j] + rH + rD + rSpace[j + 1];
+      Y.push(y);
     }
-
+    return Y;
   }
 
   /**
@@ -262,15 +307,17 @@ CommonMtableMixin<SVGmtd<any, any, any>, SVGmtr<any, any, any>, SVGConstructor<a
    * @param {number} x       The x location of the line
    * @param {string} style   The border style for the line
    * @param {number} t       The line thickness
+   * @param {number=} y0     The bottom of the line (the bottom of the table by default)
+   * @param {number=} y1     The top of the line (the top of the table by default)
    * @returns {N}            The SVG element for the line
    */
-  protected makeVLine(x: number, style: string, t: number): N {
+  protected makeVLine(x: number, style: string, t: number, y0: number = null, y1: number = null): N {
     const {h, d} = this.getBBox();
     const dt = (style === 'dotted' ? t / 2 : 0);
     const X = this.fixed(x + t / 2);
     return this.svg('line', this.setLineThickness(t, style, {
       'data-line': 'v', 'class': this.lineClass(style),
-      x1: X, y1: this.fixed(dt - d), x2: X, y2: this.fixed(h - dt)
+      x1: X, y1: this.fixed((y0 === null ? -d : y0) + dt), x2: X, y2: this.fixed((y1 === null ? h : y1) - dt)
     }));
   }
 
@@ -278,15 +325,17 @@ CommonMtableMixin<SVGmtd<any, any, any>, SVGmtr<any, any, any>, SVGConstructor<a
    * @param {number} y       The y location of the line
    * @param {string} style   The border style for the line
    * @param {number} t       The line thickness
+   * @param {number=} x0     The left end of the line (the left of the table by default)
+   * @param {number=} x1     The right end of the line (the right of the table by default)
    * @returns {N}            The SVG element for the line
    */
-  protected makeHLine(y: number, style: string, t: number): N {
+  protected makeHLine(y: number, style: string, t: number, x0: number = 0, x1: number = null): N {
     const w = this.getBBox().w;
     const dt = (style === 'dotted' ? t / 2 : 0);
     const Y = this.fixed(y - t / 2);
     return this.svg('line', this.setLineThickness(t, style, {
       'data-line': 'h', 'class': this.lineClass(style),
-      x1: this.fixed(dt), y1: Y, x2: this.fixed(w - dt), y2: Y
+      x1: this.fixed(x0 + dt), y1: Y, x2: this.fixed((x1 === null ? w : x1) - dt), y2: Y
     }));
   }
 
@@ -346,7 +395,7 @@ CommonMtableMixin<SVGmtd<any, any, any>, SVGmtr<any, any, any>, SVGConstructor<a
     //  Start with frame size and add in spacing, height and depth,
     //    and line thickness for each non-labeled row.
     //
-    let y = h - this.fLine;
+    let y = h - this.fLine - this.rEdges[0];
     let current = adaptor.firstChild(this.labels) as N;
     for (let i = 0; i < this.numRows; i++) {
       const row = this.childNodes[i] as SVGmtr<N, T, D>;
@@ -104,17 +104,20 @@ CommonMtrMixin<SVGmtd<any, any, any>, SVGConstructor<any, any, any>>(SVGWrapper)
    * @param {N} svg   The container for the table
    */
   protected placeCells(svg: N) {
-    const cSpace = this.parent.getColumnHalfSpacing();
-    const cLines = [this.parent.fLine, ...this.parent.cLines, this.parent.fLine];
-    const cWidth = this.parent.getComputedWidths();
+    const table = this.parent;
+    const cSpace = table.getColumnHalfSpacing();
+    const cLines = [table.fLine + table.cEdges[0], ...table.cLines, table.fLine + table.cEdges[1]];
+    const cWidth = table.getComputedWidths();
     let x = cLines[0];
-    for (let i = 0; i < this.numCells; i++) {
+    for (let i = 0, k = 0; i < this.numCells; i++) {
       const child = this.getChild(i);
+      const n = this.getCellSpan(i);
       child.toSVG(svg);
       x += this.placeCell(child, {
-        x: x, y: 0, lSpace: cSpace[i], rSpace: cSpace[i + 1], w: cWidth[i],
-        lLine: cLines[i], rLine: cLines[i + 1]
+        x: x, y: 0, lSpace: cSpace[k], rSpace: cSpace[k + n], w: table.getSpanWidth(k, n, cWidth),
+        lLine: cLines[k], rLine: cLines[k + n]
       });
+      k += n;
     }
   }
 
@@ -0,0 +1,70 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+
+import {SVGFontPackage} from '../FontPackage.js';
+import {stix2Data} from '../../common/fonts/stix2.js';
+import {normal} from './stix2/normal.js';
+import {smallop} from './stix2/smallop.js';
+import {largeop} from './stix2/largeop.js';
+import {size1} from './stix2/size1.js';
+import {size2} from './stix2/size2.js';
+import {size3} from './stix2/size3.js';
+import {size4} from './stix2/size4.js';
+import {size5} from './stix2/size5.js';
+import {size6} from './stix2/size6.js';
+import {size7} from './stix2/size7.js';
+import {size8} from './stix2/size8.js';
+import {size9} from './stix2/size9.js';
+import {size10} from './stix2/size10.js';
+import {size11} from './stix2/size11.js';
+import {size12} from './stix2/size12.js';
+import {parts} from './stix2/parts.js';
+
+/**
+ * The STIX2 font for the SVG output jax
+ */
+export const Stix2Font = SVGFontPackage({
+  ...stix2Data,
+  chars: {
+    'normal': normal,
+    '-smallop': smallop,
+    '-largeop': largeop,
+    '-size1': size1,
+    '-size2': size2,
+    '-size3': size3,
+    '-size4': size4,
+    '-size5': size5,
+    '-size6': size6,
+    '-size7': size7,
+    '-size8': size8,
+    '-size9': size9,
+    '-size10': size10,
+    '-size11': size11,
+    '-size12': size12,
+    '-parts': parts
+  },
+  cacheIds: {
+    'normal': 'N',
+    '-smallop': 'SO',
+    '-largeop': 'LO',
+    '-size1': 'S1',
+    '-size2': 'S2',
+    '-size3': 'S3',
+    '-size4': 'S4',
+    '-size5': 'S5',
+    '-size6': 'S6',
+    '-size7': 'S7',
+    '-size8': 'S8',
+    '-size9': 'S9',
+    '-size10': 'S10',
+    '-size11': 'S11',
+    '-size12': 'S12',
+    '-parts': 'P'
+  }
+});
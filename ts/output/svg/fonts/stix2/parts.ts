@@ -0,0 +1,61 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {parts as font} from '../../../common/fonts/stix2/parts.js';
+
+export const parts: SVGCharMap = AddPaths(font, {
+    0x100000: '450 691H0V738H450',
+    0x100001: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H892V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x100002: '512 688H0V735H512',
+    0x100003: '892 718V705L750 580L733 600L768 636Q779 648 786 657Q793 665 793 675Q793 683 786 686Q779 688 768 688H0V735H768Q779 735 786 738Q793 740 793 748Q793 759 786 767Q779 775 768 787L733 823L750 843',
+    0x100004: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H892V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x100005: '512 -177H0V-130H512',
+    0x100006: '892 -147V-160L750 -285L733 -265L768 -229Q779 -217 786 -208Q793 -200 793 -190Q793 -182 786 -179Q779 -177 768 -177H0V-130H768Q779 -130 786 -127Q793 -125 793 -117Q793 -106 786 -98Q779 -90 768 -78L733 -42L750 -22',
+    0x100007: '505 225H248Q240 225 231 218Q221 211 221 203Q221 191 235 177Q258 155 281 129Q303 103 319 78L299 58Q249 116 190 170Q130 223 56 254V264Q130 296 190 349Q249 402 300 460L320 440Q303 415 281 391Q259 366 236 342Q222 328 222 313Q222 306 229 300Q235 293 249 293H505',
+    0x100008: '596 225H0V293H596',
+    0x100009: '227 600H295V0H227',
+    0x10000A: '448 264V254Q375 223 315 170Q255 117 205 58L184 78Q202 103 224 128Q245 152 268 176Q283 191 283 205Q283 213 277 219Q270 225 256 225H0V293H257Q265 293 275 301Q284 308 284 315Q284 326 269 341Q247 362 225 389Q202 415 185 440L206 460Q256 402 316 349Q375 295 448 264',
+    0x10000B: '0 225V293H450V461H501V58H450V225',
+    0x10000C: '572 293V225H122V58H71V461H122V293',
+    0x10000D: '0 225V293H401Q447 293 483 319Q518 344 518 394Q518 441 492 470Q465 498 419 498H322V566H422Q461 566 499 546Q536 526 561 488Q585 450 585 395Q585 337 557 300Q528 262 487 244Q445 225 405 225',
+    0x10000E: '657 293V225H252Q212 225 171 244Q129 262 101 300Q72 337 72 395Q72 450 97 488Q121 526 159 546Q196 566 235 566H335V498H238Q192 498 166 470Q139 441 139 394Q139 344 175 319Q210 293 256 293',
+    0x10000F: '922 225H55V229Q120 277 170 322Q220 366 265 411Q310 456 360 506L384 483Q354 449 326 418Q297 387 278 363Q259 339 259 325Q259 313 266 303Q273 293 303 293H922',
+    0x100010: '922 225H303Q273 225 266 215Q259 205 259 192Q259 179 278 155Q297 130 326 100Q354 69 384 35L360 12Q310 62 265 107Q220 151 170 196Q120 241 55 289V293H922',
+    0x100011: '867 225H0V293H620Q650 293 657 303Q664 313 664 325Q664 339 645 363Q626 387 598 418Q569 449 539 483L562 506Q613 456 658 411Q703 366 753 322Q802 277 867 229',
+    0x100012: '867 293V289Q802 241 753 196Q703 151 658 107Q613 62 562 12L539 35Q569 69 598 100Q626 130 645 155Q664 179 664 192Q664 205 657 215Q650 225 620 225H0V293',
+    0x100013: '322 327H0V395H322ZM322 123H0V190H322',
+    0x100014: '322 327H0V395H322ZM322 123H0V190H322',
+    0x100015: '291 103H224V414H291ZM496 103H429V414H496',
+    0x100016: '383 327H61V395H383ZM383 123H61V190H383',
+    0x100017: '322 20H0V88H322ZM322 225H0V293H322ZM322 430H0V497H322',
+    0x100018: '1243 573H916V0H849V641H1243',
+    0x100019: '916 0H849V650H916',
+    0x10001A: '849 1899H916V-5H860L229 1553L102 1510L86 1539L280 1655H300L845 300H849',
+    0x10001B: '849 1899H916V-5H860L229 1553L102 1510L86 1539L280 1655H300L845 300H849ZM171 2093L149 2104Q170 2150 204 2173Q238 2195 281 2195Q316 2195 345 2184Q373 2172 389 2151Q405 2130 405 2101Q405 2077 395 2060Q384 2043 366 2029Q348 2015 325 2001V1996Q353 1989 378 1974Q402 1960 417 1936Q432 1913 432 1880Q432 1841 415 1814Q398 1787 370 1769Q341 1752 305 1744Q269 1737 231 1737Q197 1737 180 1742Q162 1748 156 1758Q149 1768 149 1779Q149 1789 156 1801Q162 1813 180 1813Q185 1813 193 1809Q200 1805 219 1795Q235 1787 243 1783Q251 1778 259 1777Q266 1775 276 1775Q294 1775 314 1782Q335 1789 349 1808Q363 1827 363 1862Q363 1893 346 1914Q329 1936 301 1948Q272 1960 236 1960H220V1996H235Q260 1996 283 2006Q306 2016 321 2036Q336 2056 336 2084Q336 2114 315 2129Q294 2144 262 2144Q235 2144 211 2132Q187 2120 171 2093',
+    0x10001C: '849 1899H916V-5H860L229 1553L102 1510L86 1539L280 1655H300L845 300H849ZM483 1848H409V1745H337V1848H136V1904L353 2193H409V1908H483ZM337 1908V2106H331L188 1915V1908',
+    0x10001D: '414 1250V0H281V1250',
+    0x10001E: '750 787H51V634H0V876H750',
+    0x10001F: '750 787H0V876H750',
+    0x100020: '699 787H0V876H750V634H699',
+    0x100021: '51 -257H750V-346H0V-104H51',
+    0x100022: '0 -257H750V-346H0',
+    0x100023: '0 -257H699V-104H750V-346H0',
+    0x100024: '956 876V787H721Q216 787 40 542L0 563Q51 664 154 734Q257 804 406 840Q555 876 742 876',
+    0x100025: '0 787V876H214Q402 876 551 840Q699 804 803 734Q906 664 956 563L916 542Q740 787 235 787',
+    0x100026: '956 -257V-346H742Q555 -346 406 -310Q257 -274 154 -204Q51 -134 0 -33L40 -12Q216 -257 721 -257',
+    0x100027: '0 -346V-257H235Q740 -257 916 -12L956 -33Q906 -134 803 -204Q699 -274 551 -310Q402 -346 214 -346',
+    0x100028: '956 876V787H639Q505 787 409 772Q313 757 245 726Q177 695 129 650Q80 604 40 542L0 563Q44 664 124 734Q204 804 334 840Q464 876 660 876',
+    0x100029: '0 787V876H296Q492 876 622 840Q752 804 832 734Q912 664 956 563L916 542Q876 604 828 650Q779 695 711 726Q643 757 547 772Q451 787 317 787',
+    0x10002A: '942 876V787H617Q562 787 528 815Q493 842 476 881H468Q449 841 417 814Q384 787 327 787H0V876H356Q409 876 428 903Q447 929 447 970H498Q498 929 517 903Q536 876 589 876',
+    0x10002B: '956 -257V-346H660Q464 -346 334 -310Q204 -274 124 -204Q44 -134 0 -33L40 -12Q80 -73 129 -119Q177 -165 245 -196Q313 -227 409 -242Q505 -257 639 -257',
+    0x10002C: '0 -346V-257H317Q451 -257 547 -242Q643 -227 711 -196Q779 -165 828 -119Q876 -73 916 -12L956 -33Q912 -134 832 -204Q752 -274 622 -310Q492 -346 296 -346',
+    0x10002D: '942 -257V-346H589Q536 -346 517 -372Q498 -399 498 -440H447Q447 -399 428 -372Q409 -346 356 -346H0V-257H327Q384 -257 417 -283Q449 -310 468 -351H476Q493 -312 528 -284Q562 -257 617 -257',
+    0x10002E: '302 103H234V414H302ZM476 103H408V414H476ZM650 103H582V414H650ZM824 103H756V414H824',
+    0x10002F: '303 103H235V414H303ZM508 103H440V414H508ZM712 103H645V414H712',
+}, {});
@@ -0,0 +1,110 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size1 as font} from '../../../common/fonts/stix2/size1.js';
+
+export const size1: SVGCharMap = AddPaths(font, {
+    0x28: '50 270Q50 409 86 523Q122 637 186 724Q249 810 333 863L351 838Q236 742 186 600Q135 458 135 270Q135 82 186 -60Q236 -202 351 -298L333 -323Q249 -269 186 -183Q122 -97 86 18Q50 132 50 270',
+    0x29: '331 270Q331 132 296 18Q260 -97 196 -183Q132 -269 48 -323L30 -298Q146 -202 196 -60Q246 82 246 270Q246 458 196 600Q146 742 30 838L48 863Q132 810 196 724Q260 637 296 523Q331 409 331 270',
+    0x2F: '565 1091L100 -168H25L490 1091',
+    0x5B: '313 -323H94V863H313V829H176V-289H313',
+    0x5C: '565 -168H490L27 1091H102',
+    0x5D: '276 -323H57V-289H194V829H57V863H276',
+    0x7B: '28 244V296Q56 299 78 307Q100 314 113 332Q125 350 125 385Q125 415 121 456Q117 496 112 540Q107 583 103 624Q99 664 99 695Q99 758 125 795Q151 831 196 847Q241 863 298 863V829Q264 828 237 818Q209 807 193 781Q177 755 177 708Q177 672 182 624Q187 576 193 526Q198 476 198 434Q198 384 185 353Q172 321 150 303Q127 284 99 273V267Q127 256 150 238Q172 219 185 188Q198 157 198 106Q198 64 193 14Q187 -36 182 -84Q177 -133 177 -169Q177 -216 193 -242Q209 -268 237 -278Q264 -289 298 -290V-324Q241 -323 196 -307Q151 -292 125 -255Q99 -218 99 -156Q99 -125 103 -84Q107 -44 112 0Q117 44 121 85Q125 125 125 155Q125 190 113 208Q100 226 78 234Q56 241 28 244',
+    0x7D: '322 296V244Q294 241 272 234Q250 226 238 208Q225 190 225 155Q225 125 229 85Q233 44 238 0Q243 -44 247 -84Q251 -125 251 -156Q251 -218 225 -255Q199 -292 154 -307Q109 -323 52 -324V-290Q86 -289 114 -278Q141 -268 157 -242Q173 -216 173 -169Q173 -133 168 -84Q162 -36 157 14Q152 64 152 106Q152 157 165 188Q178 219 201 238Q223 256 251 267V273Q223 284 201 303Q178 321 165 353Q152 384 152 434Q152 476 157 526Q162 576 168 624Q173 672 173 708Q173 755 157 781Q141 807 114 818Q86 828 52 829V863Q109 863 154 847Q199 831 225 795Q251 758 251 695Q251 664 247 624Q243 583 238 540Q233 496 229 456Q225 415 225 385Q225 350 238 332Q250 314 272 307Q294 299 322 296',
+    0x302: '573 563L552 536L285 691L21 536L0 562L262 754H311',
+    0x303: '548 711H573Q562 675 543 649Q524 622 492 608Q460 593 408 593Q365 593 331 602Q297 610 267 621Q236 632 203 641Q170 649 130 649Q87 649 61 633Q35 616 25 591H0Q11 637 52 673Q93 708 160 708Q202 708 235 700Q268 691 298 680Q328 669 361 661Q393 652 432 652Q482 652 510 669Q537 685 548 711',
+    0x305: '450 691H0V738H450',
+    0x30C: '552 754L573 727L311 536H262L0 728L21 754L285 599',
+    0x330: '548 -120H573Q573 -169 553 -204Q532 -239 500 -257Q467 -276 431 -276Q404 -276 386 -272Q368 -269 350 -262Q332 -255 307 -243Q281 -231 239 -214Q164 -183 130 -183Q92 -183 63 -206Q34 -229 26 -276H0Q0 -222 22 -187Q43 -153 75 -136Q107 -120 138 -120Q164 -120 213 -136Q261 -152 333 -183Q371 -199 400 -207Q428 -215 444 -215Q485 -215 513 -191Q541 -167 548 -120',
+    0x332: '1024 -181H0V-130H1024',
+    0x20D0: '892 688H0V705L146 843L163 823L132 787Q122 774 116 767Q109 759 109 748Q109 740 115 738Q121 735 132 735H892',
+    0x20D1: '892 688H0V735H760Q771 735 777 738Q783 740 783 748Q783 759 777 767Q771 774 760 787L729 823L746 843L892 705',
+    0x20D6: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H892V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x20D7: '892 718V705L750 580L733 600L768 636Q779 648 786 657Q793 665 793 675Q793 683 786 686Q779 688 768 688H0V735H768Q779 735 786 738Q793 740 793 748Q793 759 786 767Q779 775 768 787L733 823L750 843',
+    0x20EC: '0 -122H892V-139L746 -277L729 -257L760 -221Q771 -208 777 -200Q783 -192 783 -182Q783 -174 777 -171Q771 -169 760 -169H0',
+    0x20ED: '0 -122H892V-169H132Q121 -169 115 -171Q109 -174 109 -182Q109 -192 116 -200Q122 -208 132 -221L163 -257L146 -277L0 -139',
+    0x20EE: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H892V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x20EF: '892 -147V-160L750 -285L733 -265L768 -229Q779 -217 786 -208Q793 -200 793 -190Q793 -182 786 -179Q779 -177 768 -177H0V-130H768Q779 -130 786 -127Q793 -125 793 -117Q793 -106 786 -98Q779 -90 768 -78L733 -42L750 -22',
+    0x2140: '1233 51H56V139L463 792L59 1448V1536H1070V1448H460L854 792L449 139H1233ZM751 792L359 1448H162L564 792L156 139H348',
+    0x220F: '65 874V919H1352V874Q1282 874 1242 865Q1201 856 1181 835Q1161 813 1155 775Q1149 736 1149 677V-165Q1149 -234 1157 -274Q1164 -315 1186 -334Q1207 -354 1247 -360Q1287 -366 1352 -366V-411H816V-366Q875 -366 912 -361Q948 -356 969 -337Q989 -318 997 -277Q1004 -237 1004 -165V851H409V-169Q409 -234 415 -273Q421 -313 440 -333Q459 -353 497 -359Q535 -366 599 -366V-411H65V-366Q130 -366 170 -360Q209 -354 229 -335Q249 -316 256 -277Q263 -239 263 -173V680Q263 740 256 778Q249 816 229 837Q208 858 169 866Q129 874 65 874',
+    0x2210: '65 -411V-366Q129 -366 169 -358Q208 -350 229 -329Q249 -308 256 -270Q263 -232 263 -172V681Q263 747 256 786Q249 824 229 843Q209 862 170 868Q130 874 65 874V919H599V874Q535 874 497 868Q459 861 440 841Q421 821 415 782Q409 742 409 677V-343H1004V673Q1004 745 997 786Q989 826 969 845Q948 864 912 869Q875 874 816 874V919H1352V874Q1287 874 1247 868Q1207 862 1186 843Q1164 823 1157 783Q1149 742 1149 673V-169Q1149 -228 1155 -266Q1161 -305 1181 -326Q1201 -348 1242 -357Q1282 -366 1352 -366V-411',
+    0x2211: '1047 0L968 -406H15V-380L526 280L29 888V919H990L1004 596H959Q949 682 929 734Q909 785 876 812Q842 838 791 847Q740 856 666 856H224V851L639 336V316L183 -278V-284H754Q811 -284 849 -266Q886 -249 912 -214Q938 -179 958 -125Q977 -72 998 0',
+    0x221A: '926 1589H1076V1521H976L496 -265H451L153 505L49 465L30 494L196 603H216L480 -88H484',
+    0x221B: '926 1589H1076V1521H976L496 -265H451L153 505L49 465L30 494L196 603H216L480 -88H484ZM82 1043L60 1054Q81 1100 115 1123Q149 1145 192 1145Q227 1145 256 1134Q284 1122 300 1101Q316 1080 316 1051Q316 1027 306 1010Q295 993 277 979Q259 965 236 951V946Q264 939 289 924Q313 910 328 886Q343 863 343 830Q343 791 326 764Q309 737 281 719Q252 702 216 694Q180 687 142 687Q108 687 91 692Q73 698 67 708Q60 718 60 729Q60 739 67 751Q73 763 91 763Q96 763 104 759Q111 755 130 745Q146 737 154 733Q162 728 170 727Q177 725 187 725Q205 725 225 732Q246 739 260 758Q274 777 274 812Q274 843 257 864Q240 886 212 898Q183 910 147 910H131V946H146Q171 946 194 956Q217 966 232 986Q247 1006 247 1034Q247 1064 226 1079Q205 1094 173 1094Q146 1094 122 1082Q98 1070 82 1043',
+    0x221C: '926 1589H1076V1521H976L496 -265H451L153 505L49 465L30 494L196 603H216L480 -88H484ZM394 798H320V695H248V798H47V854L264 1143H320V858H394ZM248 858V1056H242L99 865V858',
+    0x222B: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x222C: '1330 1365V1371Q1330 1371 1322 1375Q1313 1378 1296 1378Q1254 1378 1222 1332Q1190 1285 1166 1203Q1142 1121 1124 1014Q1106 907 1093 785Q1079 663 1067 537Q1054 410 1041 290Q999 -99 945 -368Q890 -638 813 -777Q735 -917 625 -917Q563 -917 535 -886Q507 -855 507 -816Q507 -772 527 -749Q547 -727 575 -727Q598 -727 610 -742Q621 -757 621 -783Q621 -805 614 -822Q607 -840 597 -855V-861Q597 -861 604 -864Q611 -868 626 -868Q678 -868 715 -814Q752 -760 780 -660Q808 -560 830 -420Q851 -281 871 -109Q891 63 913 259Q929 394 947 533Q964 671 986 802Q1008 933 1038 1047Q1067 1160 1106 1246Q1144 1332 1195 1381Q1245 1429 1310 1429Q1355 1429 1385 1406Q1414 1382 1414 1334Q1414 1288 1390 1268Q1365 1247 1340 1247Q1321 1247 1309 1260Q1297 1272 1297 1297Q1297 1337 1330 1365ZM873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x222D: '1330 1365V1371Q1330 1371 1322 1375Q1313 1378 1296 1378Q1254 1378 1222 1332Q1190 1285 1166 1203Q1142 1121 1124 1014Q1106 907 1093 785Q1079 663 1067 537Q1054 410 1041 290Q999 -99 945 -368Q890 -638 813 -777Q735 -917 625 -917Q563 -917 535 -886Q507 -855 507 -816Q507 -772 527 -749Q547 -727 575 -727Q598 -727 610 -742Q621 -757 621 -783Q621 -805 614 -822Q607 -840 597 -855V-861Q597 -861 604 -864Q611 -868 626 -868Q678 -868 715 -814Q752 -760 780 -660Q808 -560 830 -420Q851 -281 871 -109Q891 63 913 259Q929 394 947 533Q964 671 986 802Q1008 933 1038 1047Q1067 1160 1106 1246Q1144 1332 1195 1381Q1245 1429 1310 1429Q1355 1429 1385 1406Q1414 1382 1414 1334Q1414 1288 1390 1268Q1365 1247 1340 1247Q1321 1247 1309 1260Q1297 1272 1297 1297Q1297 1337 1330 1365ZM1787 1365V1371Q1787 1371 1779 1375Q1770 1378 1753 1378Q1711 1378 1679 1332Q1647 1285 1623 1203Q1599 1121 1581 1014Q1563 907 1550 785Q1536 663 1524 537Q1511 410 1498 290Q1456 -99 1402 -368Q1347 -638 1270 -777Q1192 -917 1082 -917Q1020 -917 992 -886Q964 -855 964 -816Q964 -772 984 -749Q1004 -727 1032 -727Q1055 -727 1067 -742Q1078 -757 1078 -783Q1078 -805 1071 -822Q1064 -840 1054 -855V-861Q1054 -861 1061 -864Q1068 -868 1083 -868Q1135 -868 1172 -814Q1209 -760 1237 -660Q1265 -560 1287 -420Q1308 -281 1328 -109Q1348 63 1370 259Q1386 394 1404 533Q1421 671 1443 802Q1465 933 1495 1047Q1524 1160 1563 1246Q1601 1332 1652 1381Q1702 1429 1767 1429Q1812 1429 1842 1406Q1871 1382 1871 1334Q1871 1288 1847 1268Q1822 1247 1797 1247Q1778 1247 1766 1260Q1754 1272 1754 1297Q1754 1337 1787 1365ZM873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x222E: '25 285Q25 390 61 477Q96 564 160 627Q224 690 310 725Q396 760 496 761Q519 898 549 1019Q578 1140 617 1232Q656 1324 709 1377Q761 1429 828 1429Q873 1429 903 1406Q932 1382 932 1334Q932 1288 908 1268Q883 1247 858 1247Q839 1247 827 1260Q815 1272 815 1297Q815 1337 848 1365V1371Q848 1371 840 1375Q831 1378 814 1378Q770 1378 737 1328Q704 1278 680 1191Q656 1104 638 991Q620 877 606 751Q716 730 801 667Q885 603 934 506Q982 408 982 285Q982 179 945 91Q907 3 840 -60Q773 -124 685 -158Q597 -193 495 -193Q437 -545 354 -731Q270 -917 143 -917Q81 -917 53 -886Q25 -855 25 -816Q25 -772 45 -749Q65 -727 93 -727Q116 -727 128 -742Q139 -757 139 -783Q139 -805 132 -822Q125 -840 115 -855V-861Q115 -861 122 -864Q129 -868 144 -868Q193 -868 229 -819Q265 -771 292 -680Q319 -590 340 -463Q361 -337 380 -181Q273 -158 193 -94Q113 -31 69 66Q25 163 25 285ZM559 290Q547 176 534 73Q520 -31 506 -124Q593 -122 666 -92Q739 -62 792 -8Q845 45 875 119Q904 192 904 281Q904 384 866 467Q827 550 759 606Q690 662 599 682Q589 584 580 485Q570 385 559 290ZM103 281Q103 185 139 104Q174 23 238 -33Q302 -89 389 -112L431 259Q443 366 457 476Q470 586 486 692Q373 689 287 636Q200 583 152 492Q103 400 103 281',
+    0x222F: '68 298Q68 396 120 469Q171 541 261 590Q351 638 468 662Q486 784 508 898Q530 1012 559 1109Q588 1205 625 1277Q661 1349 708 1389Q755 1429 814 1429Q859 1429 889 1406Q918 1382 918 1334Q918 1288 894 1268Q869 1247 844 1247Q825 1247 813 1260Q801 1272 801 1297Q801 1337 834 1365V1371Q834 1371 826 1375Q817 1378 800 1378Q762 1378 733 1341Q704 1304 682 1238Q659 1172 642 1084Q624 995 611 892Q597 789 585 679Q620 683 657 685Q694 687 732 687Q783 687 832 684Q880 681 926 674Q944 795 967 907Q989 1019 1018 1114Q1046 1209 1083 1280Q1120 1350 1167 1390Q1213 1429 1271 1429Q1316 1429 1346 1406Q1375 1382 1375 1334Q1375 1288 1351 1268Q1326 1247 1301 1247Q1282 1247 1270 1260Q1258 1272 1258 1297Q1258 1337 1291 1365V1371Q1291 1371 1283 1375Q1274 1378 1257 1378Q1218 1378 1189 1339Q1159 1300 1136 1231Q1113 1162 1096 1070Q1078 978 1065 872Q1051 765 1039 652Q1144 626 1221 578Q1298 530 1340 461Q1382 391 1382 299Q1382 189 1327 116Q1272 42 1177 0Q1081 -43 958 -61Q919 -338 868 -529Q816 -720 747 -818Q678 -917 586 -917Q524 -917 496 -886Q468 -855 468 -816Q468 -772 488 -749Q508 -727 536 -727Q559 -727 571 -742Q582 -757 582 -783Q582 -805 575 -822Q568 -840 558 -855V-861Q558 -861 565 -864Q572 -868 587 -868Q640 -868 678 -811Q716 -754 744 -649Q772 -544 794 -397Q815 -251 836 -73Q785 -76 733 -76Q611 -76 501 -61Q462 -338 411 -529Q359 -720 290 -818Q221 -917 129 -917Q67 -917 39 -886Q11 -855 11 -816Q11 -772 31 -749Q51 -727 79 -727Q102 -727 114 -742Q125 -757 125 -783Q125 -805 118 -822Q111 -840 101 -855V-861Q101 -861 108 -864Q115 -868 130 -868Q184 -868 223 -808Q261 -749 289 -638Q317 -528 340 -375Q362 -223 383 -37Q290 -12 219 31Q148 74 108 140Q68 206 68 298ZM545 290Q537 213 528 141Q519 68 510 0Q614 -15 732 -15Q761 -15 789 -14Q816 -13 843 -11L874 259Q884 346 895 436Q905 525 917 613Q874 619 827 623Q780 626 730 626Q690 626 652 624Q614 622 578 618ZM1002 290Q994 214 985 142Q976 70 967 2Q1070 19 1148 56Q1226 92 1270 152Q1313 211 1313 298Q1313 401 1239 475Q1164 549 1032 588ZM134 302Q133 194 204 127Q274 60 391 26L417 259Q427 342 437 428Q447 513 458 598Q306 562 220 486Q134 410 134 302',
+    0x2230: '68 298Q68 382 118 447Q167 512 256 559Q345 606 464 635Q482 761 504 879Q526 996 555 1096Q584 1196 622 1271Q659 1345 707 1387Q754 1429 814 1429Q859 1429 889 1406Q918 1382 918 1334Q918 1288 894 1268Q869 1247 844 1247Q825 1247 813 1260Q801 1272 801 1297Q801 1337 834 1365V1371Q834 1371 826 1375Q817 1378 800 1378Q762 1378 732 1340Q702 1301 679 1233Q656 1165 639 1074Q621 983 608 878Q594 772 582 660Q741 685 928 687Q946 806 969 917Q991 1027 1020 1120Q1048 1213 1085 1283Q1121 1352 1167 1391Q1213 1429 1271 1429Q1316 1429 1346 1406Q1375 1382 1375 1334Q1375 1288 1351 1268Q1326 1247 1301 1247Q1282 1247 1270 1260Q1258 1272 1258 1297Q1258 1337 1291 1365V1371Q1291 1371 1283 1375Q1274 1378 1257 1378Q1220 1378 1191 1342Q1161 1305 1139 1239Q1116 1173 1099 1086Q1081 999 1068 897Q1054 794 1042 685Q1228 679 1379 647Q1397 771 1420 887Q1442 1003 1471 1102Q1500 1200 1537 1274Q1574 1347 1622 1388Q1669 1429 1728 1429Q1773 1429 1803 1406Q1832 1382 1832 1334Q1832 1288 1808 1268Q1783 1247 1758 1247Q1739 1247 1727 1260Q1715 1272 1715 1297Q1715 1337 1748 1365V1371Q1748 1371 1740 1375Q1731 1378 1714 1378Q1674 1378 1644 1337Q1613 1296 1590 1223Q1567 1150 1550 1054Q1532 958 1518 847Q1504 735 1492 618Q1641 572 1726 492Q1811 412 1811 299Q1811 209 1762 144Q1713 79 1625 36Q1537 -8 1419 -34Q1379 -320 1328 -517Q1276 -714 1207 -815Q1137 -917 1043 -917Q981 -917 953 -886Q925 -855 925 -816Q925 -772 945 -749Q965 -727 993 -727Q1016 -727 1028 -742Q1039 -757 1039 -783Q1039 -805 1032 -822Q1025 -840 1015 -855V-861Q1015 -861 1022 -864Q1029 -868 1044 -868Q1098 -868 1136 -809Q1174 -751 1202 -643Q1230 -536 1252 -386Q1274 -237 1295 -55Q1217 -65 1132 -70Q1047 -75 956 -76Q917 -348 866 -536Q814 -724 746 -820Q677 -917 586 -917Q524 -917 496 -886Q468 -855 468 -816Q468 -772 488 -749Q508 -727 536 -727Q559 -727 571 -742Q582 -757 582 -783Q582 -805 575 -822Q568 -840 558 -855V-861Q558 -861 565 -864Q572 -868 587 -868Q640 -868 678 -811Q716 -754 744 -649Q772 -544 794 -398Q815 -252 836 -74Q747 -71 664 -63Q580 -55 504 -41Q464 -325 413 -520Q361 -716 292 -816Q222 -917 129 -917Q67 -917 39 -886Q11 -855 11 -816Q11 -772 31 -749Q51 -727 79 -727Q102 -727 114 -742Q125 -757 125 -783Q125 -805 118 -822Q111 -840 101 -855V-861Q101 -861 108 -864Q115 -868 130 -868Q185 -868 224 -806Q263 -745 292 -631Q320 -518 342 -361Q364 -204 386 -14Q290 14 219 57Q147 99 108 159Q68 219 68 298ZM545 290Q537 218 529 151Q521 83 512 19Q586 5 670 -3Q753 -11 843 -13L874 259Q885 349 896 442Q906 535 919 626Q824 625 738 618Q651 611 576 598Q568 520 561 442Q553 364 545 290ZM1002 290Q993 208 984 132Q975 56 965 -15Q1151 -13 1302 6L1331 259Q1340 339 1350 422Q1360 504 1370 585Q1226 618 1036 624Q1027 540 1019 456Q1010 371 1002 290ZM134 302Q133 211 203 149Q273 87 393 49L417 259Q426 336 436 415Q445 494 455 572Q303 531 219 463Q134 394 134 302ZM1742 298Q1742 381 1675 446Q1608 510 1485 553Q1478 486 1472 420Q1466 354 1459 290Q1452 221 1444 157Q1436 92 1428 30Q1524 53 1595 89Q1665 125 1704 177Q1742 229 1742 298',
+    0x2231: '830 1364V1370Q830 1370 822 1374Q813 1377 796 1377Q759 1377 730 1341Q701 1305 679 1241Q656 1176 639 1090Q621 1003 608 902Q594 801 583 692Q571 583 560 474Q640 461 707 414Q773 367 811 293Q819 277 825 273Q831 269 835 269Q850 269 859 291Q870 317 881 342Q892 367 906 388L926 379Q899 321 879 258Q859 194 860 127L849 122Q801 168 740 196Q679 224 618 244L623 263Q649 259 673 252Q697 244 719 236Q729 232 735 231Q741 230 747 230Q752 230 760 234Q767 237 767 244Q767 251 764 257Q731 322 675 365Q618 407 554 420L541 289Q499 -100 445 -369Q390 -639 313 -778Q235 -918 125 -918Q63 -918 35 -887Q7 -856 7 -817Q7 -773 27 -750Q47 -728 75 -728Q98 -728 110 -743Q121 -758 121 -784Q121 -806 114 -823Q107 -841 97 -856V-862Q97 -862 104 -865Q111 -869 126 -869Q178 -869 215 -815Q252 -761 280 -661Q308 -561 330 -421Q351 -282 371 -110Q391 62 413 258L431 419Q365 404 312 361Q259 318 228 256Q197 194 197 122H142Q142 212 181 287Q219 362 286 412Q353 462 438 475Q456 619 479 758Q501 896 531 1017Q560 1138 600 1231Q639 1323 691 1376Q743 1428 810 1428Q855 1428 885 1405Q914 1381 914 1333Q914 1287 890 1267Q865 1246 840 1246Q821 1246 809 1259Q797 1271 797 1296Q797 1336 830 1364',
+    0x2232: '852 1365V1371Q852 1371 844 1375Q835 1378 818 1378Q774 1378 741 1328Q708 1278 684 1191Q660 1103 642 990Q624 876 610 750Q720 727 805 661Q889 595 935 503Q940 494 945 489Q950 484 960 484Q968 484 977 492Q985 500 989 510Q1005 548 1020 578Q1035 607 1054 637L1077 626Q1039 547 1012 463Q985 378 985 295Q985 186 947 97Q909 7 843 -58Q776 -123 688 -158Q600 -193 499 -193Q441 -545 358 -731Q274 -917 147 -917Q85 -917 57 -886Q29 -855 29 -816Q29 -772 49 -749Q69 -727 97 -727Q120 -727 132 -742Q143 -757 143 -783Q143 -805 136 -822Q129 -840 119 -855V-861Q119 -861 126 -864Q133 -868 148 -868Q197 -868 233 -819Q269 -771 296 -680Q323 -590 344 -463Q365 -337 384 -181Q285 -159 204 -100Q122 -42 74 55Q25 151 25 285Q25 390 61 477Q97 564 161 628Q225 691 312 726Q398 761 500 761Q523 898 553 1019Q582 1140 621 1232Q660 1324 713 1377Q765 1429 832 1429Q877 1429 907 1406Q936 1382 936 1334Q936 1288 912 1268Q887 1247 862 1247Q843 1247 831 1260Q819 1272 819 1297Q819 1337 852 1365ZM103 285Q103 195 129 127Q154 58 197 10Q239 -39 290 -69Q341 -100 392 -114Q403 -28 414 66Q424 159 435 259Q447 366 461 476Q474 586 490 692Q400 690 329 658Q257 625 207 569Q156 513 130 441Q103 368 103 285ZM862 466Q834 546 773 599Q712 652 603 685Q593 586 584 486Q574 385 563 290Q550 176 537 73Q524 -31 510 -124Q591 -123 663 -94Q734 -66 789 -13Q843 40 874 115Q905 190 905 285Q905 301 904 315Q903 328 901 341Q848 379 792 403Q736 427 674 448L682 472Q715 467 746 459Q777 450 814 436Q823 433 835 433Q848 433 858 442Q867 450 862 466',
+    0x2233: '854 1365V1371Q854 1371 846 1375Q837 1378 820 1378Q776 1378 743 1328Q710 1278 686 1191Q662 1103 644 990Q626 876 612 749Q671 737 715 715Q758 692 789 668Q820 644 838 627Q877 593 927 568Q977 542 1031 524Q1085 506 1134 492L1129 464Q1101 466 1069 474Q1037 482 1009 490Q981 498 965 498Q955 498 948 495Q941 491 941 481Q941 478 943 475Q944 471 944 471Q961 428 972 382Q982 335 982 285Q982 182 947 95Q912 8 848 -56Q783 -121 695 -156Q606 -192 501 -192Q443 -545 360 -731Q276 -917 149 -917Q87 -917 59 -886Q31 -855 31 -816Q31 -772 51 -749Q71 -727 99 -727Q122 -727 134 -742Q145 -757 145 -783Q145 -805 138 -822Q131 -840 121 -855V-861Q121 -861 128 -864Q135 -868 150 -868Q199 -868 235 -819Q271 -771 298 -680Q325 -590 346 -463Q367 -337 386 -181Q294 -162 226 -116Q157 -70 113 -5Q68 59 47 134Q25 209 26 285Q27 384 59 469Q90 554 151 618Q211 682 299 719Q387 755 502 758Q525 896 555 1017Q584 1138 623 1231Q662 1324 715 1377Q767 1429 834 1429Q879 1429 909 1406Q938 1382 938 1334Q938 1288 914 1268Q889 1247 864 1247Q845 1247 833 1260Q821 1272 821 1297Q821 1337 854 1365ZM104 285Q104 222 122 160Q139 97 175 43Q210 -12 265 -52Q320 -92 395 -111L437 259Q449 365 462 473Q475 581 491 686Q368 684 282 630Q195 576 150 487Q104 397 104 285ZM806 548Q790 566 764 591Q738 615 699 639Q660 662 604 677Q594 580 585 482Q575 383 565 290Q552 177 539 74Q526 -30 512 -123Q600 -121 673 -90Q745 -59 797 -4Q849 51 877 125Q905 198 905 285Q905 324 898 362Q891 400 876 436Q871 446 854 446Q844 446 835 436Q825 426 820 415Q804 383 790 350Q775 317 756 285L729 297Q755 356 777 419Q798 482 806 548',
+    0x22C0: '1234 50H1129L648 1352H645L166 50H61L607 1536H687',
+    0x22C1: '1234 1536L687 50H607L61 1536H166L645 233H648L1129 1536',
+    0x22C2: '1174 50H1076V1068Q1076 1136 1045 1204Q1014 1271 957 1327Q900 1382 823 1415Q746 1448 654 1448Q562 1448 483 1415Q404 1382 345 1327Q285 1271 252 1204Q219 1136 219 1068V50H121V1042Q121 1156 164 1249Q207 1341 282 1408Q357 1474 454 1510Q550 1546 656 1546Q731 1546 806 1521Q880 1496 947 1451Q1013 1405 1064 1342Q1115 1279 1145 1203Q1174 1127 1174 1042',
+    0x22C3: '1174 1536V543Q1174 458 1145 382Q1115 306 1064 244Q1013 181 947 136Q880 90 806 65Q731 40 656 40Q550 40 454 76Q357 111 282 178Q207 244 164 337Q121 429 121 543V1536H219V518Q219 450 252 383Q285 315 345 260Q404 204 483 171Q562 138 654 138Q746 138 823 171Q900 204 957 260Q1014 315 1045 383Q1076 450 1076 518V1536',
+    0x2308: '333 829H176V-318H94V863H333',
+    0x2309: '194 829H37V863H276V-318H194',
+    0x230A: '176 -284H333V-318H94V863H176',
+    0x230B: '37 -284H194V863H276V-318H37',
+    0x23B4: '1000 588H962V707H38V588H0V778H1000',
+    0x23B5: '962 -62H1000V-252H0V-62H38V-181H962',
+    0x23DC: '29 580L0 595Q52 699 181 760Q309 820 500 820Q690 820 820 760Q949 700 1000 595L971 580Q931 637 858 676Q784 715 692 735Q599 754 501 754Q403 754 310 734Q217 714 144 676Q70 637 29 580',
+    0x23DD: '29 -60Q70 -116 144 -155Q217 -194 310 -214Q403 -234 501 -234Q599 -234 692 -214Q784 -194 858 -155Q931 -117 971 -60L1000 -75Q949 -180 820 -240Q690 -300 500 -300Q309 -300 181 -239Q52 -179 0 -75',
+    0x23DE: '469 828H517Q519 794 541 769Q563 744 606 744Q637 744 677 751Q717 757 759 764Q800 770 835 770Q894 770 930 745Q966 719 983 678Q1000 637 1000 588H967Q967 631 939 664Q910 697 843 697Q800 697 753 686Q706 674 644 674Q587 674 549 700Q510 726 496 763H490Q478 726 442 702Q406 677 347 677Q303 677 275 682Q247 687 221 692Q194 697 155 697Q100 697 67 664Q34 631 34 588H0Q0 637 17 678Q34 719 70 745Q106 770 163 770Q198 770 238 764Q278 757 317 751Q355 744 384 744Q425 744 447 769Q468 794 469 828',
+    0x23DF: '517 -300H469Q468 -266 447 -241Q425 -216 384 -216Q355 -216 317 -222Q278 -229 238 -235Q198 -242 163 -242Q106 -242 70 -216Q34 -191 17 -149Q0 -108 0 -60H34Q34 -103 67 -136Q100 -169 155 -169Q194 -169 221 -164Q247 -159 275 -154Q303 -149 347 -149Q406 -149 442 -173Q478 -198 490 -235H496Q510 -198 549 -172Q587 -146 644 -146Q706 -146 753 -157Q800 -169 843 -169Q910 -169 939 -136Q967 -103 967 -60H1000Q1000 -108 983 -149Q966 -191 930 -216Q894 -242 835 -242Q800 -242 759 -235Q717 -229 677 -222Q637 -216 606 -216Q563 -216 541 -241Q519 -266 517 -300',
+    0x23E0: '965 576L864 707H135L33 576L0 599L112 778H888L1000 599',
+    0x23E1: '864 -193L965 -62L1000 -85L888 -264H112L0 -85L33 -62L135 -193',
+    0x2772: '95 660L311 863H361L177 637V-91L361 -318H311L95 -115',
+    0x2773: '83 863L299 660V-115L83 -318H33L217 -91V637L33 863',
+    0x27E6: '472 -318H94V863H472V829H337V-284H472ZM176 829V-284H255V829',
+    0x27E7: '440 -318H62V-284H197V829H62V863H440ZM358 -284V829H279V-284',
+    0x27E8: '330 863L119 270L330 -323H291L43 259V281L291 863',
+    0x27E9: '250 270L39 863H78L326 281V259L78 -323H39',
+    0x27EA: '330 863L119 270L330 -323H291L43 259V281L291 863ZM555 863L344 270L555 -323H516L268 259V281L516 863',
+    0x27EB: '250 270L39 863H78L326 281V259L78 -323H39ZM475 270L264 863H303L551 281V259L303 -323H264',
+    0x2983: '28 244V296Q56 299 78 307Q100 314 113 332Q125 350 125 385Q125 415 122 456Q118 496 113 540Q108 583 105 624Q101 664 101 695Q101 758 128 795Q155 831 201 847Q246 863 303 863H413V829H334V-289H413V-323H303Q246 -322 201 -306Q155 -291 128 -254Q101 -217 101 -155Q101 -124 105 -83Q108 -43 113 1Q118 44 122 85Q125 125 125 155Q125 190 113 208Q100 226 78 234Q56 241 28 244ZM271 -286V826Q231 819 205 793Q178 767 178 708Q178 672 183 624Q188 576 193 526Q198 476 198 434Q198 384 185 353Q172 321 150 303Q127 284 99 273V267Q127 256 150 238Q172 219 185 188Q198 157 198 106Q198 64 193 14Q188 -36 183 -84Q178 -132 178 -169Q178 -227 205 -253Q231 -280 271 -286',
+    0x2984: '445 296V244Q417 241 395 234Q373 226 361 208Q348 190 348 155Q348 125 352 85Q355 44 360 1Q365 -43 369 -83Q372 -124 372 -155Q372 -217 345 -254Q318 -291 273 -306Q227 -322 170 -323H60V-289H139V829H60V863H170Q227 863 273 847Q318 831 345 795Q372 758 372 695Q372 664 369 624Q365 583 360 540Q355 496 352 456Q348 415 348 385Q348 350 361 332Q373 314 395 307Q417 299 445 296ZM202 -286Q242 -280 269 -253Q295 -227 295 -169Q295 -132 290 -84Q285 -36 280 14Q275 64 275 106Q275 157 288 188Q301 219 324 238Q346 256 374 267V273Q346 284 324 303Q301 321 288 353Q275 384 275 434Q275 476 280 526Q285 576 290 624Q295 672 295 708Q295 767 269 793Q242 819 202 826',
+    0x2985: '411 -323Q341 -290 275 -238Q209 -186 156 -113Q103 -40 72 55Q41 150 41 270Q41 390 72 485Q103 580 156 653Q209 726 275 778Q341 830 411 863Q416 856 420 849Q423 842 427 834Q411 826 392 811Q372 795 359 784Q333 755 311 692Q288 629 275 526Q262 422 262 270Q262 119 275 15Q288 -89 311 -152Q333 -215 359 -244Q372 -255 392 -270Q411 -286 427 -294Q423 -301 420 -308Q416 -315 411 -323ZM296 -202L299 -199Q272 -152 249 -91Q225 -31 211 57Q196 144 196 270Q196 397 211 484Q225 571 249 632Q272 692 299 739L296 742Q253 701 213 637Q173 573 148 483Q122 392 122 270Q122 149 148 58Q173 -33 213 -96Q253 -160 296 -202',
+    0x2986: '79 -323Q75 -315 72 -308Q68 -301 63 -294Q79 -286 99 -270Q118 -255 131 -244Q158 -215 180 -152Q202 -89 215 15Q228 119 228 270Q228 422 215 526Q202 629 180 692Q158 755 131 784Q118 795 99 811Q79 826 63 834Q68 842 72 849Q75 856 79 863Q149 830 215 778Q281 726 334 653Q387 580 418 485Q449 390 449 270Q449 150 418 55Q387 -40 334 -113Q281 -186 215 -238Q149 -290 79 -323ZM191 -199L194 -202Q237 -160 277 -96Q317 -33 343 58Q368 149 368 270Q368 392 343 483Q317 573 277 637Q237 701 194 742L191 739Q219 692 242 632Q265 571 280 484Q294 397 294 270Q294 144 280 57Q265 -31 242 -91Q219 -152 191 -199',
+    0x2A00: '1519 793Q1519 673 1483 564Q1446 455 1380 364Q1314 273 1224 206Q1133 139 1025 102Q916 65 795 65Q675 65 567 102Q458 139 368 206Q278 273 212 364Q145 455 109 564Q73 673 73 793Q73 914 109 1023Q145 1132 212 1223Q278 1314 368 1381Q458 1448 567 1485Q675 1521 795 1521Q916 1521 1025 1485Q1133 1448 1224 1381Q1314 1314 1380 1223Q1446 1132 1483 1023Q1519 914 1519 793ZM1420 793Q1420 898 1389 993Q1358 1087 1301 1167Q1244 1246 1166 1304Q1088 1362 994 1394Q900 1426 795 1426Q690 1426 597 1394Q503 1362 425 1304Q347 1246 291 1167Q234 1087 203 993Q172 898 172 793Q172 688 203 594Q234 499 291 420Q347 340 425 282Q503 224 597 192Q690 160 795 160Q900 160 994 192Q1088 224 1166 282Q1244 340 1301 420Q1358 499 1389 594Q1420 688 1420 793ZM899 789Q899 746 870 716Q840 686 796 686Q753 686 724 716Q694 746 694 789Q694 833 724 863Q753 892 796 892Q840 892 870 863Q899 833 899 789',
+    0x2A01: '1519 793Q1519 673 1483 564Q1446 455 1380 364Q1314 273 1224 206Q1133 139 1025 102Q916 65 795 65Q675 65 567 102Q458 139 368 206Q278 273 212 364Q145 455 109 564Q73 673 73 793Q73 914 109 1023Q145 1132 212 1223Q278 1314 368 1381Q458 1448 567 1485Q675 1521 795 1521Q916 1521 1025 1485Q1133 1448 1224 1381Q1314 1314 1380 1223Q1446 1132 1483 1023Q1519 914 1519 793ZM744 842V1422Q656 1419 574 1386Q492 1352 422 1296Q351 1240 297 1168Q243 1095 211 1012Q178 928 173 842ZM847 842H1418Q1412 928 1379 1011Q1346 1093 1292 1165Q1237 1237 1167 1293Q1096 1348 1015 1382Q933 1416 847 1422ZM1419 739H847V158Q954 170 1051 217Q1148 264 1226 341Q1304 417 1355 518Q1405 619 1419 739ZM744 165V739H173Q178 652 211 571Q244 489 299 418Q353 347 424 292Q494 237 576 204Q657 171 744 165',
+    0x2A02: '1519 793Q1519 673 1483 564Q1446 455 1380 364Q1314 273 1224 206Q1133 139 1025 102Q916 65 795 65Q675 65 567 102Q458 139 368 206Q278 273 212 364Q145 455 109 564Q73 673 73 793Q73 914 109 1023Q145 1132 212 1223Q278 1314 368 1381Q458 1448 567 1485Q675 1521 795 1521Q916 1521 1025 1485Q1133 1448 1224 1381Q1314 1314 1380 1223Q1446 1132 1483 1023Q1519 914 1519 793ZM796 862L1203 1270Q1118 1345 1012 1386Q905 1426 796 1426Q688 1426 582 1386Q475 1345 389 1270ZM1198 319L796 718L395 319Q489 236 591 198Q693 160 796 160Q902 160 1003 198Q1104 236 1198 319ZM724 790L317 1197Q242 1112 207 1006Q172 899 172 790Q172 682 210 577Q248 472 323 387ZM869 790L1270 387Q1345 472 1383 577Q1420 682 1420 790Q1420 899 1386 1006Q1351 1112 1276 1197',
+    0x2A03: '1174 1536V543Q1174 458 1145 382Q1115 306 1064 244Q1013 181 947 136Q880 90 806 65Q731 40 656 40Q550 40 454 76Q357 111 282 178Q207 244 164 337Q121 429 121 543V1536H219V518Q219 450 252 383Q285 315 345 260Q404 204 483 171Q562 138 654 138Q746 138 823 171Q900 204 957 260Q1014 315 1045 383Q1076 450 1076 518V1536ZM768 809Q768 776 752 749Q735 721 708 705Q680 689 647 689Q614 689 587 705Q559 721 543 749Q526 776 526 809Q526 843 543 871Q559 898 587 915Q614 931 647 931Q680 931 708 915Q735 898 752 871Q768 843 768 809',
+    0x2A04: '1174 1536V543Q1174 458 1145 382Q1115 306 1064 244Q1013 181 947 136Q880 90 806 65Q731 40 656 40Q550 40 454 76Q357 111 282 178Q207 244 164 337Q121 429 121 543V1536H219V518Q219 450 252 383Q285 315 345 260Q404 204 483 171Q562 138 654 138Q746 138 823 171Q900 204 957 260Q1014 315 1045 383Q1076 450 1076 518V1536ZM935 651H689V406H607V651H361V733H607V981H689V733H935',
+    0x2A05: '1096 50H998V1448H182V50H84V1536H1096',
+    0x2A06: '1096 50H84V1536H182V138H998V1536H1096',
+    0x2A07: '1505 50H1401L919 1352H916L835 1132L1234 50H1129L782 989L437 50H333L730 1131L648 1352H645L166 50H61L607 1536H687L783 1276L878 1536H958',
+    0x2A08: '1505 1536L958 50H878L783 310L687 50H607L61 1536H166L645 233H648L730 454L333 1536H437L782 597L1129 1536H1234L835 453L916 233H919L1401 1536',
+    0x2A09: '1456 118L1384 50L759 721L133 50L61 118L691 793L61 1468L133 1536L759 865L1384 1536L1456 1468L826 793',
+    0x2A0A: '1047 0L968 -406H15V-380L304 -7Q242 39 205 113Q168 187 168 285Q168 372 202 444Q236 515 293 564L29 888V919H990L1004 596H959Q949 682 929 734Q909 785 876 812Q842 838 791 847Q740 856 666 856H224V851L405 626Q460 646 522 646Q596 646 661 620Q726 593 775 545Q824 497 852 431Q879 365 879 285Q879 172 831 92Q783 11 702 -32Q621 -75 522 -75Q479 -75 439 -66Q399 -58 364 -42L183 -278V-284H754Q811 -284 849 -266Q886 -249 912 -214Q938 -179 958 -125Q977 -72 998 0ZM520 587Q478 587 444 577L639 336V316L402 7Q428 -3 458 -9Q488 -16 520 -16Q605 -16 671 20Q736 55 774 122Q811 189 811 281Q811 369 774 438Q736 507 671 547Q605 587 520 587ZM236 281Q236 202 265 142Q293 81 342 42L526 280L332 516Q287 476 262 416Q236 355 236 281',
+    0x2A0B: '909 1250V1256Q909 1256 901 1260Q893 1263 875 1263Q835 1263 805 1219Q774 1174 752 1097Q729 1019 712 919H990L1004 596H959Q949 676 931 726Q913 776 884 804Q854 831 810 843Q765 854 702 855Q683 724 668 577Q653 429 637 290Q618 122 597 -21Q576 -165 551 -284H754Q811 -284 849 -266Q886 -249 912 -214Q938 -179 958 -125Q977 -72 998 0H1047L968 -406H522Q472 -599 405 -700Q338 -802 246 -802Q186 -802 159 -771Q132 -741 132 -704Q132 -661 152 -639Q171 -618 198 -618Q220 -618 232 -632Q243 -647 243 -671Q243 -693 236 -710Q229 -727 219 -742V-748Q219 -748 226 -751Q233 -755 247 -755Q291 -755 324 -712Q356 -670 381 -592Q406 -514 425 -406H15V-380L525 281L29 888V919H618Q647 1033 685 1122Q722 1211 773 1262Q824 1313 890 1313Q934 1313 963 1290Q991 1267 991 1220Q991 1175 967 1155Q943 1134 919 1134Q877 1134 877 1183Q877 1221 909 1250ZM224 856V851L532 461H538Q552 563 568 664Q583 765 603 856ZM183 -278V-284H445Q459 -192 473 -87Q486 17 499 132H493',
+    0x2A0C: '1290 1365V1371Q1290 1371 1282 1375Q1273 1378 1256 1378Q1214 1378 1182 1332Q1150 1285 1126 1203Q1102 1121 1084 1014Q1066 907 1053 785Q1039 663 1027 537Q1014 410 1001 290Q959 -99 905 -368Q850 -638 773 -777Q695 -917 585 -917Q523 -917 495 -886Q467 -855 467 -816Q467 -772 487 -749Q507 -727 535 -727Q558 -727 570 -742Q581 -757 581 -783Q581 -805 574 -822Q567 -840 557 -855V-861Q557 -861 564 -864Q571 -868 586 -868Q638 -868 675 -814Q712 -760 740 -660Q768 -560 790 -420Q811 -281 831 -109Q851 63 873 259Q889 394 907 533Q924 671 946 802Q968 933 998 1047Q1027 1160 1066 1246Q1104 1332 1155 1381Q1205 1429 1270 1429Q1315 1429 1345 1406Q1374 1382 1374 1334Q1374 1288 1350 1268Q1325 1247 1300 1247Q1281 1247 1269 1260Q1257 1272 1257 1297Q1257 1337 1290 1365ZM1747 1365V1371Q1747 1371 1739 1375Q1730 1378 1713 1378Q1671 1378 1639 1332Q1607 1285 1583 1203Q1559 1121 1541 1014Q1523 907 1510 785Q1496 663 1484 537Q1471 410 1458 290Q1416 -99 1362 -368Q1307 -638 1230 -777Q1152 -917 1042 -917Q980 -917 952 -886Q924 -855 924 -816Q924 -772 944 -749Q964 -727 992 -727Q1015 -727 1027 -742Q1038 -757 1038 -783Q1038 -805 1031 -822Q1024 -840 1014 -855V-861Q1014 -861 1021 -864Q1028 -868 1043 -868Q1095 -868 1132 -814Q1169 -760 1197 -660Q1225 -560 1247 -420Q1268 -281 1288 -109Q1308 63 1330 259Q1346 394 1364 533Q1381 671 1403 802Q1425 933 1455 1047Q1484 1160 1523 1246Q1561 1332 1612 1381Q1662 1429 1727 1429Q1772 1429 1802 1406Q1831 1382 1831 1334Q1831 1288 1807 1268Q1782 1247 1757 1247Q1738 1247 1726 1260Q1714 1272 1714 1297Q1714 1337 1747 1365ZM2204 1365V1371Q2204 1371 2196 1375Q2187 1378 2170 1378Q2128 1378 2096 1332Q2064 1285 2040 1203Q2016 1121 1998 1014Q1980 907 1967 785Q1953 663 1941 537Q1928 410 1915 290Q1873 -99 1819 -368Q1764 -638 1687 -777Q1609 -917 1499 -917Q1437 -917 1409 -886Q1381 -855 1381 -816Q1381 -772 1401 -749Q1421 -727 1449 -727Q1472 -727 1484 -742Q1495 -757 1495 -783Q1495 -805 1488 -822Q1481 -840 1471 -855V-861Q1471 -861 1478 -864Q1485 -868 1500 -868Q1552 -868 1589 -814Q1626 -760 1654 -660Q1682 -560 1704 -420Q1725 -281 1745 -109Q1765 63 1787 259Q1803 394 1821 533Q1838 671 1860 802Q1882 933 1912 1047Q1941 1160 1980 1246Q2018 1332 2069 1381Q2119 1429 2184 1429Q2229 1429 2259 1406Q2288 1382 2288 1334Q2288 1288 2264 1268Q2239 1247 2214 1247Q2195 1247 2183 1260Q2171 1272 2171 1297Q2171 1337 2204 1365ZM833 1365V1371Q833 1371 825 1375Q816 1378 799 1378Q757 1378 725 1332Q693 1285 669 1203Q645 1121 627 1014Q609 907 596 785Q582 663 570 537Q557 410 544 290Q502 -99 448 -368Q393 -638 316 -777Q238 -917 128 -917Q66 -917 38 -886Q10 -855 10 -816Q10 -772 30 -749Q50 -727 78 -727Q101 -727 113 -742Q124 -757 124 -783Q124 -805 117 -822Q110 -840 100 -855V-861Q100 -861 107 -864Q114 -868 129 -868Q181 -868 218 -814Q255 -760 283 -660Q311 -560 333 -420Q354 -281 374 -109Q394 63 416 259Q432 394 450 533Q467 671 489 802Q511 933 541 1047Q570 1160 609 1246Q647 1332 698 1381Q748 1429 813 1429Q858 1429 888 1406Q917 1382 917 1334Q917 1288 893 1268Q868 1247 843 1247Q824 1247 812 1260Q800 1272 800 1297Q800 1337 833 1365',
+    0x2A0D: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q798 1378 767 1334Q735 1289 712 1211Q688 1133 670 1031Q652 928 639 811Q625 693 613 570Q601 447 588 329H836V258H580Q539 -120 485 -382Q430 -645 354 -781Q277 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 62 456 258H209V329H464Q479 460 497 592Q515 723 537 846Q559 969 588 1075Q617 1181 655 1261Q693 1340 742 1385Q791 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A0E: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q795 1378 762 1328Q729 1277 705 1189Q680 1100 662 985Q644 870 630 742Q616 613 603 482H848V410H596L581 267H848V195H573Q532 -163 478 -411Q424 -660 349 -788Q274 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q219 -868 256 -817Q292 -767 319 -672Q346 -578 368 -446Q389 -315 408 -153Q427 9 448 195H200V267H457Q461 302 465 338Q469 374 473 410H200V482H482Q500 625 522 763Q544 901 574 1022Q603 1142 643 1234Q682 1325 734 1377Q786 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A0F: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q799 1378 768 1336Q737 1294 714 1220Q691 1145 673 1047Q655 948 642 835Q628 722 616 603Q604 483 592 367L850 518L887 456L582 276Q540 -108 486 -374Q431 -641 354 -779Q277 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q219 -868 256 -817Q292 -766 319 -671Q346 -577 368 -445Q389 -313 409 -150Q428 12 449 199L197 50L160 113L459 288Q475 422 493 558Q510 693 532 821Q554 949 584 1059Q613 1169 652 1252Q690 1335 740 1382Q789 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A10: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q799 1378 768 1336Q737 1294 714 1220Q691 1146 674 1049Q656 951 642 838Q628 725 616 607Q678 593 727 559Q776 525 812 476Q796 466 781 456Q766 445 751 434Q726 473 691 501Q656 528 609 541Q603 477 597 414Q591 351 584 290Q574 204 565 124Q556 44 545 -30Q575 -28 605 -21Q634 -14 658 -4L685 -64Q617 -94 535 -97Q496 -363 445 -546Q394 -729 326 -823Q258 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q222 -868 260 -812Q297 -756 325 -652Q353 -548 375 -403Q396 -259 417 -82Q346 -62 291 -16Q236 29 205 99Q174 168 174 259Q174 333 199 397Q224 460 269 508Q313 555 372 584Q431 612 500 617Q518 745 540 865Q562 985 591 1088Q620 1190 658 1267Q696 1343 744 1386Q792 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365ZM251 257Q251 156 299 85Q346 14 425 -14L456 259Q464 330 473 404Q481 477 491 550Q421 542 367 503Q312 464 282 401Q251 337 251 257',
+    0x2A11: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1331Q733 1284 709 1202Q685 1119 667 1012Q649 904 636 782Q622 659 610 533Q597 406 584 286L581 257Q649 266 704 306Q758 346 789 404Q789 404 790 409Q791 414 791 415Q791 430 775 430Q766 430 760 427Q710 410 666 401L661 419Q715 436 767 460Q818 484 863 527L872 522Q872 462 890 407Q908 351 935 299L919 290Q906 310 895 333Q884 355 875 378Q870 396 857 396Q846 396 837 383Q813 336 772 297Q731 257 680 233Q629 209 574 206Q533 -156 479 -406Q425 -657 350 -787Q274 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q219 -868 256 -816Q293 -764 321 -667Q348 -570 370 -435Q391 -301 411 -134Q430 32 452 222Q380 245 330 293Q280 341 255 403Q229 464 229 527H282Q282 475 304 424Q325 373 365 334Q404 294 457 274Q473 409 491 546Q508 683 531 813Q553 942 582 1054Q611 1165 650 1250Q688 1334 739 1382Q789 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A12: '426 -10H790V527H489L495 582Q509 714 531 839Q552 963 582 1070Q612 1177 651 1258Q690 1339 741 1384Q791 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q798 1378 767 1334Q736 1290 713 1213Q689 1135 671 1034Q653 932 639 816Q625 700 613 579H843V-63H541Q501 -338 450 -529Q398 -720 329 -818Q260 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q222 -868 260 -810Q298 -753 326 -647Q354 -541 376 -393Q398 -246 419 -66ZM633 258Q633 228 618 203Q603 178 578 163Q553 148 523 148Q477 148 445 180Q413 212 413 258Q413 288 428 313Q443 338 468 353Q493 368 523 368Q553 368 578 353Q603 338 618 313Q633 288 633 258',
+    0x2A13: '428 7Q472 -4 511 -4Q584 -4 646 28Q708 59 747 119Q785 178 785 262Q785 318 764 366Q742 414 705 450Q668 486 620 506Q571 526 517 526Q510 526 503 526Q495 526 487 525Q505 664 527 797Q549 929 579 1044Q608 1158 647 1245Q686 1331 737 1380Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q798 1378 767 1334Q735 1289 712 1211Q688 1132 670 1029Q652 925 638 807Q624 689 612 567Q683 547 734 501Q784 455 811 393Q838 331 838 262Q838 198 815 142Q792 86 752 43Q711 -1 657 -27Q603 -54 541 -59Q501 -335 450 -526Q398 -718 329 -817Q260 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q222 -868 260 -810Q298 -753 326 -647Q354 -541 376 -393Q398 -245 419 -65ZM632 262Q632 230 617 204Q601 177 575 162Q549 146 517 146Q468 146 435 180Q401 213 401 262Q401 294 417 320Q432 346 459 362Q485 377 517 377Q549 377 575 362Q601 346 617 320Q632 294 632 262',
+    0x2A14: '715 521Q645 521 581 489Q516 456 472 397Q487 523 505 648Q522 773 545 889Q567 1004 596 1102Q625 1200 662 1274Q699 1347 747 1388Q794 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 766 1333Q734 1288 710 1208Q686 1128 669 1024Q651 920 637 801Q623 681 611 558Q628 563 652 569Q676 574 715 574Q781 574 840 549Q898 524 942 480Q986 436 1011 378Q1036 319 1036 253Q1036 186 1011 128Q986 70 942 26Q898 -19 840 -44Q781 -69 715 -69Q669 -69 626 -56Q583 -43 546 -21Q500 -327 447 -525Q394 -724 326 -820Q258 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q219 -868 256 -815Q292 -763 319 -666Q346 -570 368 -437Q389 -305 409 -143Q428 18 449 199Q503 81 570 33Q637 -16 715 -16Q771 -16 820 5Q868 26 905 63Q941 100 962 149Q983 197 983 253Q983 309 962 358Q941 406 905 443Q868 479 820 500Q771 521 715 521ZM830 253Q830 221 815 195Q799 168 773 153Q747 137 715 137Q666 137 633 171Q599 204 599 253Q599 285 615 311Q630 337 657 353Q683 368 715 368Q747 368 773 353Q799 337 815 311Q830 285 830 253',
+    0x2A15: '195 256Q195 319 218 375Q241 431 282 475Q323 518 378 545Q432 572 494 576Q512 709 534 834Q556 959 586 1067Q615 1175 654 1257Q692 1338 741 1384Q790 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 766 1333Q734 1288 711 1209Q687 1129 670 1026Q652 922 638 803Q624 684 611 561Q673 540 725 496Q776 451 807 390Q838 328 838 256Q838 192 815 136Q792 79 751 36Q710 -8 656 -34Q602 -60 540 -65Q500 -341 449 -531Q397 -721 329 -819Q260 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q223 -868 261 -809Q299 -751 327 -642Q355 -534 378 -384Q400 -234 421 -51Q358 -30 307 15Q255 60 225 122Q195 184 195 256ZM785 256Q785 312 764 361Q743 409 707 446Q670 482 622 503Q573 524 517 524Q461 524 413 503Q364 482 327 446Q290 409 269 361Q248 312 248 256Q248 200 269 152Q290 103 327 66Q364 29 413 8Q461 -13 517 -13Q573 -13 622 8Q670 29 707 66Q743 103 764 152Q785 200 785 256ZM632 256Q632 224 617 198Q601 171 575 156Q549 140 517 140Q468 140 435 174Q401 207 401 256Q401 288 417 314Q432 340 459 356Q485 371 517 371Q549 371 575 356Q601 340 617 314Q632 288 632 256',
+    0x2A16: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q798 1378 767 1334Q735 1290 712 1213Q688 1136 671 1034Q653 932 639 816Q625 699 613 578H840V-64H540Q500 -340 449 -530Q397 -721 329 -819Q260 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q222 -868 261 -810Q299 -753 327 -646Q355 -540 377 -392Q398 -244 419 -64H197V578H494Q512 711 535 836Q557 961 586 1069Q615 1176 654 1257Q692 1338 741 1384Q790 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365ZM787 525H608L584 290Q576 210 567 135Q557 59 547 -11H787ZM425 -11L456 259Q464 324 472 391Q479 458 487 525H250V-11',
+    0x2A17: '927 1365V1371Q927 1371 919 1375Q910 1378 893 1378Q851 1378 819 1332Q787 1285 763 1203Q739 1121 721 1014Q703 907 690 785Q676 663 664 537Q651 410 638 290V289H918Q985 289 1028 260Q1070 231 1070 164Q1070 103 1027 70Q984 37 918 37H853V105H915Q952 105 977 118Q1002 131 1002 164Q1002 199 977 211Q952 222 914 222H630Q589 -145 535 -399Q480 -654 405 -785Q329 -917 222 -917Q160 -917 132 -886Q104 -855 104 -816Q104 -772 124 -749Q144 -727 172 -727Q195 -727 207 -742Q218 -757 218 -783Q218 -805 211 -822Q204 -840 194 -855V-861Q194 -861 201 -864Q208 -868 223 -868Q273 -868 310 -816Q347 -764 375 -667Q402 -570 424 -435Q445 -301 465 -134Q484 32 506 222H218Q208 222 201 215Q194 207 194 198Q194 187 206 173Q229 151 252 126Q274 100 291 73L269 55Q221 113 160 167Q98 220 30 251V261Q99 291 161 345Q222 398 272 456L295 438Q276 413 254 388Q232 363 209 340Q203 335 199 327Q194 318 194 310Q194 302 201 296Q208 289 221 289H513Q529 423 547 559Q564 694 587 822Q609 949 638 1059Q667 1169 706 1253Q744 1336 794 1383Q844 1429 907 1429Q952 1429 982 1406Q1011 1382 1011 1334Q1011 1288 987 1268Q962 1247 937 1247Q918 1247 906 1260Q894 1272 894 1297Q894 1337 927 1365',
+    0x2A18: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q799 1378 769 1337Q738 1296 715 1223Q692 1150 675 1054Q657 958 643 847Q629 735 618 618Q606 500 594 385H597L746 537L798 485L571 258L798 30L746 -22L572 156H568Q527 -190 474 -429Q420 -669 346 -793Q272 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q229 -868 270 -795Q311 -723 341 -589Q370 -456 394 -273Q417 -91 441 128H437L292 -22L239 30L467 258L239 485L292 537L464 361H467Q482 490 500 619Q518 747 541 867Q563 986 592 1088Q621 1190 659 1267Q696 1343 744 1386Q792 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A19: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q796 1378 764 1330Q731 1282 708 1198Q684 1114 666 1005Q648 895 634 772Q708 751 766 703Q824 654 857 579Q890 504 890 405V-268H808V419Q808 523 757 594Q705 664 625 693Q615 593 605 491Q595 388 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q469 371 483 487Q497 602 514 713H513Q429 713 363 675Q296 636 257 569Q218 502 218 416V-268H136V405Q136 498 167 569Q197 640 251 689Q304 738 373 763Q442 788 519 788H526Q549 920 578 1037Q607 1153 646 1241Q685 1329 736 1379Q787 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A1A: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q556 23 521 -187Q526 -188 532 -188Q537 -188 542 -188Q629 -188 696 -150Q762 -112 800 -45Q837 21 837 104V792H919V91Q919 9 889 -57Q858 -123 805 -169Q751 -215 682 -239Q613 -264 536 -264Q529 -264 522 -263Q515 -263 508 -263Q450 -582 369 -749Q288 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q231 -868 273 -791Q315 -714 345 -573Q374 -432 398 -241Q330 -217 277 -170Q224 -124 195 -57Q165 9 165 92V792H247V103Q247 13 291 -56Q334 -125 408 -160L456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365',
+    0x2A1B: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365ZM941 1500H191V1582H941',
+    0x2A1C: '873 1365V1371Q873 1371 865 1375Q856 1378 839 1378Q797 1378 765 1332Q733 1285 709 1203Q685 1121 667 1014Q649 907 636 785Q622 663 610 537Q597 410 584 290Q542 -99 488 -368Q433 -638 356 -777Q278 -917 168 -917Q106 -917 78 -886Q50 -855 50 -816Q50 -772 70 -749Q90 -727 118 -727Q141 -727 153 -742Q164 -757 164 -783Q164 -805 157 -822Q150 -840 140 -855V-861Q140 -861 147 -864Q154 -868 169 -868Q221 -868 258 -814Q295 -760 323 -660Q351 -560 373 -420Q394 -281 414 -109Q434 63 456 259Q472 394 490 533Q507 671 529 802Q551 933 581 1047Q610 1160 649 1246Q687 1332 738 1381Q788 1429 853 1429Q898 1429 928 1406Q957 1382 957 1334Q957 1288 933 1268Q908 1247 883 1247Q864 1247 852 1260Q840 1272 840 1297Q840 1337 873 1365ZM805 -1068H55V-987H805',
+    0x2AFC: '162 -307H95V852H162ZM366 -307H299V852H366ZM570 -307H503V852H570',
+    0x2AFF: '352 -307H95V853H352ZM297 -260V806H150V-260',
+}, {});
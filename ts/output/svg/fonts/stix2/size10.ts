@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size10 as font} from '../../../common/fonts/stix2/size10.js';
+
+export const size10: SVGCharMap = AddPaths(font, {
+    0x28: '91 270Q91 490 113 696Q135 902 175 1088Q215 1273 269 1434Q322 1594 386 1722Q450 1850 519 1940L553 1920Q471 1781 406 1598Q341 1414 297 1199Q252 984 229 749Q205 513 205 270Q205 27 229 -208Q252 -443 297 -658Q341 -873 406 -1056Q471 -1240 553 -1380L519 -1400Q450 -1310 386 -1182Q322 -1054 269 -893Q215 -733 175 -547Q135 -362 113 -156Q91 50 91 270',
+    0x29: '496 270Q496 50 474 -156Q452 -362 412 -547Q372 -733 319 -893Q265 -1054 201 -1182Q137 -1310 68 -1400L34 -1380Q117 -1240 182 -1056Q246 -873 291 -658Q335 -443 359 -208Q382 27 382 270Q382 513 359 749Q335 984 291 1199Q246 1414 182 1598Q117 1781 34 1920L68 1940Q137 1850 201 1722Q265 1594 319 1434Q372 1273 412 1088Q452 902 474 696Q496 490 496 270',
+    0x5B: '431 -1401H132V1940H431V1888H238V-1349H431',
+    0x5D: '416 -1401H117V-1349H310V1888H117V1940H416',
+    0x7B: '54 235V305Q121 311 154 336Q186 361 197 410Q207 459 207 536Q207 672 195 813Q183 954 168 1091Q153 1227 141 1352Q129 1476 129 1578Q129 1658 142 1723Q155 1787 188 1835Q220 1882 279 1909Q338 1936 429 1940V1888Q349 1881 307 1844Q265 1806 250 1744Q235 1682 235 1602Q235 1525 243 1429Q250 1333 261 1228Q272 1123 283 1017Q293 910 301 811Q308 711 308 627Q308 531 297 470Q285 408 264 371Q243 333 214 311Q185 289 150 274V266Q185 251 214 229Q243 207 264 170Q285 132 297 71Q308 9 308 -87Q308 -171 301 -270Q293 -370 283 -476Q272 -583 261 -688Q250 -794 243 -890Q235 -986 235 -1063Q235 -1143 250 -1205Q265 -1267 307 -1304Q349 -1342 429 -1349V-1401Q338 -1397 279 -1370Q220 -1343 188 -1295Q155 -1248 142 -1183Q129 -1118 129 -1039Q129 -937 141 -812Q153 -688 168 -551Q183 -414 195 -273Q207 -132 207 4Q207 81 197 130Q186 179 154 205Q121 230 54 235',
+    0x7D: '491 305V235Q425 230 392 205Q359 179 349 130Q338 81 338 4Q338 -132 350 -273Q362 -414 377 -551Q392 -688 404 -812Q416 -937 416 -1039Q416 -1118 403 -1183Q390 -1248 358 -1295Q325 -1343 267 -1370Q208 -1397 116 -1401V-1349Q197 -1342 239 -1304Q280 -1267 295 -1205Q310 -1143 310 -1063Q310 -986 303 -890Q295 -794 285 -688Q274 -583 263 -476Q252 -370 245 -270Q237 -171 237 -87Q237 9 249 71Q260 132 281 170Q302 207 331 229Q360 251 395 266V274Q360 289 331 311Q302 333 281 371Q260 408 249 470Q237 531 237 627Q237 711 245 811Q252 910 263 1017Q274 1123 285 1228Q295 1333 303 1429Q310 1525 310 1602Q310 1682 295 1744Q280 1806 239 1844Q197 1881 116 1888V1940Q208 1936 267 1909Q325 1882 358 1835Q390 1787 403 1723Q416 1658 416 1578Q416 1476 404 1352Q392 1227 377 1091Q362 954 350 813Q338 672 338 536Q338 459 349 410Q359 361 392 336Q425 311 491 305',
+    0x2308: '451 1888H238V-1400H132V1940H451',
+    0x2309: '310 1888H97V1940H416V-1400H310',
+    0x230A: '238 -1348H451V-1400H132V1940H238',
+    0x230B: '97 -1348H310V1940H416V-1400H97',
+    0x2772: '131 1595L470 1940H536L238 1565V-1023L536 -1400H470L131 -1056',
+    0x2773: '129 1940L468 1595V-1056L129 -1400H63L361 -1023V1565L63 1940',
+    0x27E6: '623 -1400H132V1940H623V1888H447V-1348H623ZM237 1888V-1348H342V1888',
+    0x27E7: '658 -1400H167V-1348H343V1888H167V1940H658ZM553 -1348V1888H448V-1348',
+    0x27E8: '588 1941L174 270L588 -1401H537L69 253V287L537 1941',
+    0x27E9: '445 270L31 1941H82L550 287V253L82 -1401H31',
+    0x27EA: '588 1941L174 270L588 -1401H537L69 253V287L537 1941ZM939 1941L526 270L939 -1401H889L421 253V287L889 1941',
+    0x27EB: '797 270L383 1941H434L902 287V253L434 -1401H383ZM445 270L32 1941H82L550 287V253L82 -1401H32',
+    0x2983: '54 235V305Q121 311 154 336Q186 361 197 410Q207 459 207 536Q207 672 197 813Q187 954 174 1091Q160 1227 150 1352Q140 1476 140 1578Q140 1658 154 1723Q168 1787 202 1835Q235 1882 295 1909Q355 1936 446 1940H613V1888H491V-1350H613V-1401H446Q355 -1396 295 -1369Q235 -1342 202 -1295Q168 -1248 154 -1183Q140 -1118 140 -1039Q140 -937 150 -812Q160 -688 174 -551Q187 -414 197 -273Q207 -132 207 4Q207 81 197 130Q186 179 154 205Q121 230 54 235ZM410 -1344V1883Q345 1869 309 1831Q273 1793 259 1735Q245 1676 245 1602Q245 1525 251 1429Q257 1333 267 1228Q276 1123 285 1017Q294 910 300 811Q306 711 306 627Q306 531 295 470Q284 408 264 371Q243 333 214 311Q185 289 150 274V266Q185 251 214 229Q243 207 264 170Q284 132 295 71Q306 9 306 -87Q306 -171 300 -270Q294 -370 285 -476Q276 -583 267 -688Q257 -794 251 -890Q245 -986 245 -1063Q245 -1137 259 -1195Q273 -1254 309 -1292Q345 -1330 410 -1344',
+    0x2984: '704 305V235Q638 230 605 205Q572 179 562 130Q551 81 551 4Q551 -132 561 -273Q571 -414 585 -551Q598 -688 608 -812Q618 -937 618 -1039Q618 -1118 604 -1183Q590 -1248 557 -1295Q523 -1342 464 -1369Q404 -1396 312 -1401H145V-1350H267V1888H145V1940H312Q404 1936 464 1909Q523 1882 557 1835Q590 1787 604 1723Q618 1658 618 1578Q618 1476 608 1352Q598 1227 585 1091Q571 954 561 813Q551 672 551 536Q551 459 562 410Q572 361 605 336Q638 311 704 305ZM348 -1344Q413 -1330 449 -1292Q485 -1254 499 -1195Q513 -1137 513 -1063Q513 -986 507 -890Q501 -794 492 -688Q483 -583 474 -476Q464 -370 458 -270Q452 -171 452 -87Q452 9 463 71Q474 132 495 170Q515 207 544 229Q573 251 608 266V274Q573 289 544 311Q515 333 495 371Q474 408 463 470Q452 531 452 627Q452 711 458 811Q464 910 474 1017Q483 1123 492 1228Q501 1333 507 1429Q513 1525 513 1602Q513 1676 499 1735Q485 1793 449 1831Q413 1869 348 1883',
+    0x2985: '598 -1400Q533 -1335 463 -1238Q392 -1141 326 -1005Q259 -869 206 -686Q152 -503 121 -266Q89 -29 89 270Q89 569 121 806Q152 1043 206 1227Q259 1410 326 1546Q392 1682 463 1779Q533 1876 598 1941Q606 1934 614 1928Q621 1922 628 1915Q614 1898 596 1872Q577 1846 560 1819Q542 1792 530 1771Q508 1716 485 1588Q461 1459 441 1266Q421 1072 409 821Q397 570 397 271Q397 -29 409 -280Q421 -531 441 -725Q461 -919 485 -1047Q508 -1176 530 -1231Q542 -1251 560 -1278Q577 -1305 596 -1331Q614 -1357 628 -1374Q621 -1381 614 -1387Q606 -1393 598 -1400ZM452 -1123L459 -1120Q441 -1053 423 -982Q404 -911 388 -827Q371 -743 357 -639Q342 -535 332 -403Q321 -272 315 -105Q309 61 309 271Q309 481 315 647Q321 813 332 945Q342 1076 357 1180Q371 1284 388 1368Q404 1452 423 1523Q441 1594 459 1661L452 1664Q407 1572 362 1444Q317 1316 280 1146Q242 976 220 759Q197 542 197 271Q197 0 220 -217Q242 -435 280 -605Q317 -775 362 -903Q407 -1031 452 -1123',
+    0x2986: '95 -1400Q88 -1393 81 -1387Q73 -1381 65 -1374Q79 -1357 98 -1331Q116 -1305 134 -1278Q152 -1251 163 -1231Q186 -1176 209 -1047Q232 -919 252 -725Q272 -531 284 -280Q296 -29 296 271Q296 570 284 821Q272 1072 252 1266Q232 1459 209 1588Q186 1716 163 1771Q152 1792 134 1819Q116 1846 98 1872Q79 1898 65 1915Q73 1922 81 1928Q88 1934 95 1941Q160 1876 231 1779Q301 1682 368 1546Q434 1410 488 1227Q541 1043 573 806Q604 569 604 270Q604 -29 573 -266Q541 -503 488 -686Q434 -869 368 -1005Q301 -1141 231 -1238Q160 -1335 95 -1400ZM234 -1120L241 -1123Q286 -1031 331 -903Q376 -775 414 -605Q451 -435 474 -217Q496 0 496 271Q496 542 474 759Q451 976 414 1146Q376 1316 331 1444Q286 1572 241 1664L234 1661Q252 1594 271 1523Q289 1452 306 1368Q322 1284 337 1180Q351 1076 362 945Q372 813 378 647Q384 481 384 271Q384 61 378 -105Q372 -272 362 -403Q351 -535 337 -639Q322 -743 306 -827Q289 -911 271 -982Q252 -1053 234 -1120',
+}, {});
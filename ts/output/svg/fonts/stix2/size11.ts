@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size11 as font} from '../../../common/fonts/stix2/size11.js';
+
+export const size11: SVGCharMap = AddPaths(font, {
+    0x28: '95 270Q95 505 118 726Q141 946 183 1146Q224 1345 280 1517Q336 1688 402 1826Q468 1964 539 2060L576 2041Q508 1921 451 1771Q394 1620 350 1445Q306 1270 276 1078Q245 885 229 682Q213 478 213 270Q213 62 229 -141Q245 -345 276 -537Q306 -730 350 -905Q394 -1080 451 -1230Q508 -1381 576 -1501L539 -1520Q468 -1424 402 -1286Q336 -1148 280 -976Q224 -805 183 -605Q141 -406 118 -185Q95 35 95 270',
+    0x29: '515 270Q515 35 492 -185Q469 -406 428 -605Q386 -805 330 -976Q274 -1148 208 -1286Q142 -1424 71 -1520L34 -1501Q102 -1381 159 -1230Q216 -1080 260 -905Q304 -730 335 -537Q365 -345 381 -141Q397 62 397 270Q397 478 381 682Q365 885 335 1078Q304 1270 260 1445Q216 1620 159 1771Q102 1921 34 2041L71 2060Q142 1964 208 1826Q274 1688 330 1517Q386 1345 428 1146Q469 946 492 726Q515 505 515 270',
+    0x5B: '444 -1521H136V2060H444V2006H245V-1467H444',
+    0x5D: '431 -1521H123V-1467H322V2006H123V2060H431',
+    0x7B: '57 234V306Q128 312 162 339Q196 366 206 419Q216 472 216 553Q216 700 204 853Q191 1005 174 1152Q157 1299 145 1433Q132 1566 132 1677Q132 1760 145 1828Q157 1896 191 1947Q224 1997 285 2026Q346 2055 443 2060V2006Q358 1999 315 1958Q272 1917 257 1852Q242 1786 242 1702Q242 1618 250 1515Q258 1411 270 1298Q281 1184 293 1069Q304 954 312 847Q320 739 320 649Q320 547 308 481Q296 415 275 376Q253 336 223 313Q192 290 155 274V266Q192 250 223 227Q253 204 275 165Q296 125 308 59Q320 -7 320 -109Q320 -199 312 -306Q304 -414 293 -529Q281 -644 270 -758Q258 -872 250 -975Q242 -1079 242 -1163Q242 -1246 257 -1312Q272 -1378 315 -1418Q358 -1459 443 -1467V-1521Q346 -1516 285 -1487Q224 -1458 191 -1407Q157 -1357 145 -1289Q132 -1221 132 -1138Q132 -1027 145 -893Q157 -760 174 -612Q191 -465 204 -312Q216 -160 216 -13Q216 69 206 122Q196 174 162 202Q128 229 57 234',
+    0x7D: '509 306V234Q438 229 404 202Q370 174 360 122Q350 69 350 -13Q350 -160 363 -312Q375 -465 392 -612Q409 -760 422 -893Q434 -1027 434 -1138Q434 -1221 422 -1289Q409 -1357 376 -1407Q342 -1458 281 -1487Q220 -1516 123 -1521V-1467Q208 -1459 251 -1418Q294 -1378 309 -1312Q324 -1246 324 -1163Q324 -1079 316 -975Q308 -872 297 -758Q285 -644 274 -529Q262 -414 254 -306Q246 -199 246 -109Q246 -7 258 59Q270 125 292 165Q313 204 344 227Q374 250 411 266V274Q374 290 344 313Q313 336 292 376Q270 415 258 481Q246 547 246 649Q246 739 254 847Q262 954 274 1069Q285 1184 297 1298Q308 1411 316 1515Q324 1618 324 1702Q324 1786 309 1852Q294 1917 251 1958Q208 1999 123 2006V2060Q220 2055 281 2026Q342 1997 376 1947Q409 1896 422 1828Q434 1760 434 1677Q434 1566 422 1433Q409 1299 392 1152Q375 1005 363 853Q350 700 350 553Q350 472 360 419Q370 366 404 339Q438 312 509 306',
+    0x2308: '464 2006H245V-1521H136V2060H464',
+    0x2309: '322 2006H103V2060H431V-1521H322',
+    0x230A: '245 -1467H464V-1521H136V2060H245',
+    0x230B: '103 -1467H322V2060H431V-1521H103',
+    0x2772: '135 1699L487 2060H556L244 1669V-1126L556 -1521H487L135 -1160',
+    0x2773: '135 2060L487 1699V-1160L135 -1521H66L378 -1126V1669L66 2060',
+    0x27E6: '640 -1521H136V2060H640V2006H460V-1467H640ZM244 2006V-1467H351V2006',
+    0x27E7: '683 -1521H179V-1467H359V2006H179V2060H683ZM575 -1467V2006H468V-1467',
+    0x27E8: '616 2061L180 270L616 -1521H565L72 253V287L565 2061',
+    0x27E9: '467 270L31 2061H82L575 287V253L82 -1521H31',
+    0x27EA: '616 2061L180 270L616 -1521H565L72 253V287L565 2061ZM982 2061L546 270L982 -1521H931L438 253V287L931 2061',
+    0x27EB: '467 270L31 2061H82L575 287V253L82 -1521H31ZM833 270L397 2061H448L941 287V253L448 -1521H397',
+    0x2983: '57 234V306Q128 312 162 339Q196 366 206 419Q216 472 216 553Q216 700 206 853Q195 1005 181 1152Q166 1299 156 1433Q145 1566 145 1677Q145 1760 159 1828Q172 1896 207 1947Q241 1997 303 2026Q365 2055 462 2060H635V2006H509V-1468H635V-1521H462Q365 -1516 303 -1487Q241 -1458 207 -1407Q172 -1357 159 -1289Q145 -1221 145 -1138Q145 -1027 156 -893Q166 -760 181 -612Q195 -465 206 -312Q216 -160 216 -13Q216 69 206 122Q196 174 162 202Q128 229 57 234ZM426 -1462V2001Q356 1987 319 1946Q281 1904 267 1842Q253 1779 253 1702Q253 1618 260 1515Q266 1411 276 1298Q286 1184 296 1069Q305 954 312 847Q318 739 318 649Q318 547 307 481Q295 415 274 376Q252 336 222 313Q192 290 155 274V266Q192 250 222 227Q252 204 274 165Q295 125 307 59Q318 -7 318 -109Q318 -199 312 -306Q305 -414 296 -529Q286 -644 276 -758Q266 -872 260 -975Q253 -1079 253 -1162Q253 -1240 267 -1302Q281 -1365 319 -1406Q356 -1447 426 -1462',
+    0x2984: '732 306V234Q661 229 627 202Q593 174 583 122Q573 69 573 -13Q573 -160 584 -312Q594 -465 609 -612Q623 -760 634 -893Q644 -1027 644 -1138Q644 -1221 631 -1289Q617 -1357 583 -1407Q548 -1458 486 -1487Q424 -1516 327 -1521H154V-1468H280V2006H154V2060H327Q424 2055 486 2026Q548 1997 583 1947Q617 1896 631 1828Q644 1760 644 1677Q644 1566 634 1433Q623 1299 609 1152Q594 1005 584 853Q573 700 573 553Q573 472 583 419Q593 366 627 339Q661 312 732 306ZM363 -1462Q433 -1447 471 -1406Q508 -1365 522 -1302Q536 -1240 536 -1162Q536 -1079 530 -975Q523 -872 514 -758Q504 -644 494 -529Q484 -414 478 -306Q471 -199 471 -109Q471 -7 483 59Q494 125 516 165Q537 204 567 227Q597 250 634 266V274Q597 290 567 313Q537 336 516 376Q494 415 483 481Q471 547 471 649Q471 739 478 847Q484 954 494 1069Q504 1184 514 1298Q523 1411 530 1515Q536 1618 536 1702Q536 1779 522 1842Q508 1904 471 1946Q433 1987 363 2001',
+    0x2985: '618 -1520Q563 -1462 504 -1381Q444 -1300 386 -1191Q327 -1082 275 -940Q222 -799 182 -619Q141 -440 118 -219Q95 2 95 270Q95 538 118 760Q141 981 182 1160Q222 1339 275 1481Q327 1623 386 1732Q444 1841 504 1922Q563 2003 618 2061Q626 2054 635 2048Q643 2042 651 2035Q636 2017 617 1989Q597 1961 579 1932Q561 1903 549 1881Q526 1823 502 1685Q478 1546 458 1338Q437 1130 425 861Q412 591 412 271Q412 -50 425 -319Q437 -588 458 -796Q478 -1005 502 -1143Q526 -1281 549 -1340Q561 -1362 579 -1391Q597 -1420 617 -1447Q636 -1475 651 -1494Q643 -1501 635 -1507Q626 -1513 618 -1520ZM470 -1225L477 -1222Q458 -1151 440 -1075Q421 -999 404 -909Q386 -819 371 -707Q356 -596 345 -454Q334 -313 328 -134Q321 45 321 271Q321 497 328 676Q334 855 345 996Q356 1137 371 1249Q386 1360 404 1450Q421 1540 440 1616Q458 1692 477 1763L470 1766Q424 1667 378 1530Q331 1393 292 1211Q253 1029 230 796Q206 562 206 271Q206 -20 230 -254Q253 -488 292 -670Q331 -853 378 -990Q424 -1127 470 -1225',
+    0x2986: '97 -1520Q89 -1513 81 -1507Q72 -1501 64 -1494Q79 -1475 99 -1447Q118 -1420 137 -1391Q155 -1362 166 -1340Q189 -1281 213 -1143Q237 -1005 258 -796Q278 -588 291 -319Q303 -50 303 271Q303 591 291 861Q278 1130 258 1338Q237 1546 213 1685Q189 1823 166 1881Q155 1903 137 1932Q118 1961 99 1989Q79 2017 64 2035Q72 2042 81 2048Q89 2054 97 2061Q152 2003 212 1922Q271 1841 330 1732Q388 1623 441 1481Q493 1339 534 1160Q574 981 597 760Q620 538 620 270Q620 2 597 -219Q574 -440 534 -619Q493 -799 441 -940Q388 -1082 330 -1191Q271 -1300 212 -1381Q152 -1462 97 -1520ZM238 -1222L245 -1225Q291 -1127 338 -990Q384 -853 423 -670Q462 -488 486 -254Q509 -20 509 271Q509 562 486 796Q462 1029 423 1211Q384 1393 338 1530Q291 1667 245 1766L238 1763Q257 1692 276 1616Q294 1540 312 1450Q329 1360 344 1249Q359 1137 370 996Q381 855 388 676Q394 497 394 271Q394 45 388 -134Q381 -313 370 -454Q359 -596 344 -707Q329 -819 312 -909Q294 -999 276 -1075Q257 -1151 238 -1222',
+}, {});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size12 as font} from '../../../common/fonts/stix2/size12.js';
+
+export const size12: SVGCharMap = AddPaths(font, {
+    0x28: '100 270Q100 520 124 755Q148 990 191 1203Q234 1416 292 1600Q350 1783 419 1930Q487 2077 560 2180L598 2161Q528 2033 469 1872Q410 1711 364 1524Q318 1336 286 1131Q254 925 238 708Q221 491 221 270Q221 49 238 -168Q254 -385 286 -590Q318 -796 364 -983Q410 -1171 469 -1332Q528 -1493 598 -1621L560 -1640Q487 -1537 419 -1390Q350 -1243 292 -1059Q234 -876 191 -663Q148 -450 124 -215Q100 20 100 270',
+    0x29: '533 270Q533 20 509 -215Q485 -450 442 -663Q399 -876 341 -1059Q283 -1243 215 -1390Q147 -1537 73 -1640L35 -1621Q105 -1493 164 -1332Q223 -1171 269 -983Q315 -796 347 -590Q379 -385 396 -168Q412 49 412 270Q412 491 396 708Q379 925 347 1131Q315 1336 269 1524Q223 1711 165 1872Q106 2033 35 2161L73 2180Q147 2077 215 1930Q283 1783 341 1600Q399 1416 442 1203Q485 990 509 755Q533 520 533 270',
+    0x5B: '457 -1641H140V2180H457V2124H252V-1585H457',
+    0x5D: '447 -1641H130V-1585H335V2124H130V2180H447',
+    0x7B: '60 307Q135 313 170 342Q205 371 215 428Q225 484 225 570Q225 729 212 892Q198 1055 180 1213Q162 1371 149 1514Q135 1657 135 1775Q135 1862 148 1934Q160 2006 194 2059Q228 2112 292 2144Q356 2175 458 2180V2124Q390 2118 349 2092Q307 2065 285 2022Q263 1979 256 1923Q248 1867 248 1801Q248 1711 257 1600Q265 1489 278 1367Q290 1244 303 1121Q315 997 324 882Q332 767 332 670Q332 562 320 492Q308 422 286 381Q263 339 232 315Q200 291 161 274V266Q200 249 232 225Q263 201 286 160Q308 118 320 48Q332 -22 332 -130Q332 -227 324 -342Q315 -458 303 -581Q290 -705 278 -827Q265 -950 257 -1061Q248 -1172 248 -1262Q248 -1328 256 -1384Q263 -1440 285 -1483Q307 -1526 349 -1552Q390 -1579 458 -1585V-1641Q356 -1636 292 -1604Q228 -1573 194 -1520Q160 -1467 148 -1395Q135 -1323 135 -1236Q135 -1117 149 -974Q162 -831 180 -673Q198 -516 212 -352Q225 -189 225 -30Q225 57 215 113Q205 169 170 198Q135 227 60 233',
+    0x7D: '528 307V233Q453 227 418 198Q383 169 373 113Q363 57 363 -30Q363 -189 377 -352Q390 -516 408 -673Q426 -831 440 -974Q453 -1117 453 -1236Q453 -1323 441 -1395Q428 -1467 394 -1520Q360 -1573 296 -1604Q232 -1636 130 -1641V-1585Q198 -1579 240 -1552Q281 -1526 303 -1483Q325 -1440 333 -1384Q340 -1328 340 -1262Q340 -1172 332 -1061Q323 -950 311 -827Q298 -705 286 -581Q273 -458 265 -342Q256 -227 256 -130Q256 -22 268 48Q280 118 303 160Q325 201 357 225Q388 249 427 266V274Q388 291 357 315Q325 339 303 381Q280 422 268 492Q256 562 256 670Q256 767 265 882Q273 997 286 1121Q298 1244 311 1367Q323 1489 332 1600Q340 1711 340 1801Q340 1867 333 1923Q325 1979 303 2022Q281 2065 240 2092Q198 2118 130 2124V2180Q232 2175 296 2144Q360 2112 394 2059Q428 2006 441 1934Q453 1862 453 1775Q453 1657 440 1514Q426 1371 408 1213Q390 1055 377 892Q363 729 363 570Q363 484 373 428Q383 371 418 342Q453 313 528 307',
+    0x2308: '252 -1641H140V2180H477V2124H252',
+    0x2309: '447 -1641H335V2124H110V2180H447',
+    0x230A: '140 2180H252V-1585H477V-1641H140',
+    0x230B: '335 2180H447V-1641H110V-1585H335',
+    0x2772: '139 1803L505 2180H575L251 1772V-1230L575 -1641H505L139 -1265',
+    0x2773: '140 2180L506 1803V-1265L140 -1641H70L394 -1230V1772L70 2180',
+    0x27E6: '657 -1641H140V2180H657V2124H472V-1585H657ZM251 2124V-1585H361V2124',
+    0x27E7: '707 -1641H190V-1585H375V2124H190V2180H707ZM596 -1585V2124H486V-1585',
+    0x27E8: '645 2181L186 270L645 -1641H592L75 252V288L592 2181',
+    0x27E9: '489 270L30 2181H83L600 288V252L83 -1641H30',
+    0x27EA: '645 2181L186 270L645 -1641H592L75 252V288L592 2181ZM1025 2181L566 270L1025 -1641H972L455 252V288L972 2181',
+    0x27EB: '489 270L30 2181H83L600 288V252L83 -1641H30ZM869 270L410 2181H463L980 288V252L463 -1641H410',
+    0x2983: '657 -1641H478Q376 -1636 311 -1604Q246 -1573 211 -1520Q176 -1467 163 -1395Q149 -1323 149 -1236Q149 -1117 161 -974Q172 -831 187 -673Q202 -516 214 -352Q225 -189 225 -30Q225 57 215 113Q205 169 170 198Q135 227 60 233V307Q135 313 170 342Q205 371 215 428Q225 484 225 570Q225 729 214 892Q202 1055 187 1213Q172 1371 161 1514Q149 1657 149 1775Q149 1862 163 1934Q176 2006 211 2059Q246 2112 311 2144Q376 2175 478 2180H657V2124H526V-1586H657ZM441 -1580V2119Q366 2103 327 2059Q288 2015 274 1949Q260 1882 260 1801Q260 1711 267 1600Q274 1489 285 1367Q295 1244 306 1121Q316 997 323 882Q330 767 330 670Q330 562 318 492Q306 422 284 381Q262 339 231 315Q200 291 161 274V266Q200 249 231 225Q262 201 284 160Q306 118 318 48Q330 -22 330 -130Q330 -227 323 -342Q316 -458 306 -581Q295 -705 285 -827Q274 -950 267 -1061Q260 -1172 260 -1262Q260 -1343 274 -1409Q288 -1476 327 -1520Q366 -1564 441 -1580',
+    0x2984: '761 307V233Q686 227 651 198Q616 169 606 113Q596 57 596 -30Q596 -189 608 -352Q619 -516 634 -673Q649 -831 661 -974Q672 -1117 672 -1236Q672 -1323 659 -1395Q645 -1467 610 -1520Q575 -1573 510 -1604Q445 -1636 343 -1641H164V-1586H295V2124H164V2180H343Q445 2175 510 2144Q575 2112 610 2059Q645 2006 659 1934Q672 1862 672 1775Q672 1657 661 1514Q649 1371 634 1213Q619 1055 608 892Q596 729 596 570Q596 484 606 428Q616 371 651 342Q686 313 761 307ZM380 -1580Q455 -1564 494 -1520Q533 -1476 547 -1409Q561 -1343 561 -1262Q561 -1172 554 -1061Q547 -950 537 -827Q526 -705 516 -581Q505 -458 498 -342Q491 -227 491 -130Q491 -22 503 48Q515 118 537 160Q559 201 590 225Q621 249 660 266V274Q621 291 590 315Q559 339 537 381Q515 422 503 492Q491 562 491 670Q491 767 498 882Q505 997 516 1121Q526 1244 537 1367Q547 1489 554 1600Q561 1711 561 1801Q561 1882 547 1949Q533 2015 494 2059Q455 2103 380 2119',
+    0x2985: '568 1991Q545 1929 520 1781Q495 1632 474 1410Q453 1187 440 900Q427 612 427 271Q427 -70 440 -358Q453 -646 474 -868Q495 -1091 520 -1239Q545 -1388 568 -1450Q580 -1473 599 -1504Q618 -1535 638 -1564Q658 -1594 673 -1614L639 -1640Q583 -1578 522 -1492Q461 -1406 401 -1290Q340 -1174 286 -1023Q232 -872 190 -680Q148 -489 124 -253Q100 -17 100 270Q100 557 124 794Q148 1030 190 1222Q232 1413 286 1564Q340 1715 401 1831Q461 1947 522 2034Q583 2120 639 2181L673 2155Q658 2136 638 2106Q618 2076 599 2046Q580 2015 568 1991ZM334 271Q334 513 341 705Q347 896 359 1047Q370 1198 386 1317Q401 1436 419 1532Q437 1627 457 1709Q476 1790 495 1866L487 1869Q440 1764 392 1617Q344 1470 304 1276Q263 1081 239 832Q214 582 214 271Q214 -40 239 -289Q263 -539 304 -734Q344 -929 392 -1076Q440 -1223 487 -1328L495 -1325Q476 -1249 457 -1167Q437 -1086 419 -990Q401 -895 386 -776Q370 -657 359 -506Q347 -355 341 -163Q334 29 334 271',
+    0x2986: '170 1991Q158 2015 139 2046Q120 2076 100 2106Q80 2136 65 2155L99 2181Q155 2120 216 2034Q277 1947 338 1831Q398 1715 452 1564Q506 1413 548 1222Q590 1030 614 794Q638 557 638 270Q638 -17 614 -253Q590 -489 548 -680Q506 -872 452 -1023Q398 -1174 338 -1290Q277 -1406 216 -1492Q155 -1578 99 -1640L65 -1614Q80 -1594 100 -1564Q120 -1535 139 -1504Q158 -1473 170 -1450Q193 -1388 218 -1239Q243 -1091 264 -868Q285 -646 298 -358Q311 -70 311 271Q311 612 298 900Q285 1187 264 1410Q243 1632 218 1781Q193 1929 170 1991ZM404 271Q404 29 398 -163Q391 -355 380 -506Q368 -657 353 -776Q337 -895 319 -990Q301 -1086 282 -1167Q262 -1249 243 -1325L251 -1328Q298 -1223 347 -1076Q395 -929 435 -734Q475 -539 500 -289Q524 -40 524 271Q524 582 500 832Q475 1081 435 1276Q395 1470 347 1617Q298 1764 251 1869L243 1866Q262 1790 282 1709Q301 1627 319 1532Q337 1436 353 1317Q368 1198 380 1047Q391 896 398 705Q404 513 404 271',
+}, {});
@@ -0,0 +1,64 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size2 as font} from '../../../common/fonts/stix2/size2.js';
+
+export const size2: SVGCharMap = AddPaths(font, {
+    0x28: '54 270Q54 434 93 572Q131 709 199 814Q266 919 354 983L373 958Q252 842 198 667Q143 491 143 270Q143 49 198 -126Q252 -302 373 -418L354 -443Q266 -379 199 -274Q131 -169 93 -31Q54 107 54 270',
+    0x29: '350 270Q350 107 312 -31Q273 -169 206 -274Q138 -379 50 -443L31 -418Q152 -302 207 -126Q261 49 261 270Q261 491 207 667Q152 842 31 958L50 983Q138 919 206 814Q273 709 312 572Q350 434 350 270',
+    0x2F: '799 1603L107 -286H25L718 1603',
+    0x5B: '326 -443H99V983H326V947H183V-407H326',
+    0x5C: '799 -286H718L25 1603H107',
+    0x5D: '291 -443H64V-407H207V947H64V983H291',
+    0x7B: '31 243V297Q80 302 107 322Q134 342 134 402Q134 444 130 496Q125 547 119 601Q112 654 108 704Q103 754 103 793Q103 894 160 938Q216 982 312 983V947Q254 945 219 915Q183 884 183 808Q183 761 190 699Q197 637 204 573Q210 508 210 455Q210 396 197 361Q183 325 159 305Q135 285 105 273V267Q135 255 159 235Q183 215 197 180Q210 144 210 85Q210 32 204 -32Q197 -97 190 -159Q183 -222 183 -269Q183 -345 219 -375Q254 -406 312 -408V-444Q216 -442 160 -398Q103 -355 103 -254Q103 -215 108 -165Q112 -115 119 -61Q125 -7 130 45Q134 96 134 138Q134 198 107 219Q80 239 31 243',
+    0x7D: '341 297V243Q292 239 265 219Q238 198 238 138Q238 96 243 45Q247 -7 254 -61Q260 -115 265 -165Q269 -215 269 -254Q269 -355 213 -398Q156 -442 60 -444V-408Q119 -406 154 -375Q189 -345 189 -269Q189 -222 183 -159Q176 -97 169 -32Q162 32 162 85Q162 144 176 180Q190 215 214 235Q237 255 267 267V273Q237 285 214 305Q190 325 176 361Q162 396 162 455Q162 508 169 573Q176 637 183 699Q189 761 189 808Q189 884 154 915Q119 945 60 947V983Q156 982 213 938Q269 894 269 793Q269 754 265 704Q260 654 254 601Q247 547 243 496Q238 444 238 402Q238 342 265 322Q292 302 341 297',
+    0x302: '1002 563L990 536L501 691L13 536L0 562L478 754H527',
+    0x303: '976 747H1002Q988 665 930 628Q871 591 770 591Q730 591 701 593Q672 595 646 600Q620 604 589 612Q558 619 515 630Q472 640 410 653Q338 668 286 677Q234 685 205 685Q56 685 26 591H0Q15 677 73 712Q131 747 220 747Q267 747 359 731Q451 715 584 685Q657 668 710 660Q763 652 795 652Q872 652 918 677Q964 701 976 747',
+    0x305: '1165 691H0V738H1165',
+    0x30C: '990 754L1002 727L527 536H478L0 728L13 754L501 599',
+    0x330: '976 -120H1002Q988 -202 930 -239Q871 -276 770 -276Q730 -276 701 -274Q672 -272 646 -267Q620 -263 589 -255Q558 -248 515 -237Q472 -227 410 -214Q338 -199 286 -191Q234 -183 205 -183Q132 -183 87 -206Q41 -229 26 -276H0Q15 -190 73 -155Q131 -120 220 -120Q267 -120 359 -136Q451 -152 584 -183Q657 -199 710 -207Q763 -215 795 -215Q872 -215 918 -191Q964 -167 976 -120',
+    0x332: '1536 -181H0V-130H1536',
+    0x20D0: '1338 688H0V705L146 843L163 823L132 787Q122 774 116 767Q109 759 109 748Q109 740 115 738Q121 735 132 735H1338',
+    0x20D1: '1338 688H0V735H1206Q1217 735 1223 738Q1229 740 1229 748Q1229 759 1223 767Q1217 774 1206 787L1175 823L1192 843L1338 705',
+    0x20D6: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H1339V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x20D7: '1339 718V705L1197 580L1180 600L1215 636Q1226 648 1233 657Q1240 665 1240 675Q1240 683 1233 686Q1226 688 1215 688H0V735H1215Q1226 735 1233 738Q1240 740 1240 748Q1240 759 1233 767Q1226 775 1215 787L1180 823L1197 843',
+    0x20EC: '0 -122H1339V-139L1193 -277L1176 -257L1207 -221Q1218 -208 1224 -200Q1230 -192 1230 -182Q1230 -174 1224 -171Q1218 -169 1207 -169H0',
+    0x20ED: '0 -122H1339V-169H132Q121 -169 115 -171Q109 -174 109 -182Q109 -192 116 -200Q122 -208 132 -221L163 -257L146 -277L0 -139',
+    0x20EE: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H1339V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x20EF: '1339 -147V-160L1197 -285L1180 -265L1215 -229Q1226 -217 1233 -208Q1240 -200 1240 -190Q1240 -182 1233 -179Q1226 -177 1215 -177H0V-130H1215Q1226 -130 1233 -127Q1240 -125 1240 -117Q1240 -106 1233 -98Q1226 -90 1215 -78L1180 -42L1197 -22',
+    0x221A: '1062 2105H1212V2037H1112L547 -265H502L153 709L49 669L30 698L196 807H216L528 -81H532',
+    0x221B: '1062 2105H1212V2037H1112L547 -265H502L153 709L49 669L30 698L196 807H216L528 -81H532ZM86 1238L64 1249Q85 1295 119 1318Q153 1340 196 1340Q231 1340 260 1329Q288 1317 304 1296Q320 1275 320 1246Q320 1222 310 1205Q299 1188 281 1174Q263 1160 240 1146V1141Q268 1134 293 1119Q317 1105 332 1081Q347 1058 347 1025Q347 986 330 959Q313 932 285 914Q256 897 220 889Q184 882 146 882Q112 882 95 887Q77 893 71 903Q64 913 64 924Q64 934 71 946Q77 958 95 958Q100 958 108 954Q115 950 134 940Q150 932 158 928Q166 923 174 922Q181 920 191 920Q209 920 229 927Q250 934 264 953Q278 972 278 1007Q278 1038 261 1059Q244 1081 216 1093Q187 1105 151 1105H135V1141H150Q175 1141 198 1151Q221 1161 236 1181Q251 1201 251 1229Q251 1259 230 1274Q209 1289 177 1289Q150 1289 126 1277Q102 1265 86 1238',
+    0x221C: '1062 2105H1212V2037H1112L547 -265H502L153 709L49 669L30 698L196 807H216L528 -81H532ZM398 993H324V890H252V993H51V1049L268 1338H324V1053H398ZM252 1053V1251H246L103 1060V1053',
+    0x2308: '346 947H183V-438H99V983H346',
+    0x2309: '207 947H44V983H291V-438H207',
+    0x230A: '183 -402H346V-438H99V983H183',
+    0x230B: '44 -402H207V983H291V-438H44',
+    0x23B4: '1500 588H1462V707H38V588H0V778H1500',
+    0x23B5: '1462 -62H1500V-252H0V-62H38V-181H1462',
+    0x23DC: '24 580L0 600Q75 704 269 762Q462 820 752 820Q1039 820 1227 762Q1415 704 1500 599L1475 580Q1429 623 1353 656Q1276 688 1179 710Q1082 732 973 743Q864 754 752 754Q639 754 529 743Q419 731 322 709Q224 687 148 655Q71 622 24 580',
+    0x23DD: '24 -60Q71 -102 148 -134Q224 -167 322 -189Q419 -211 529 -222Q639 -234 752 -234Q864 -234 973 -223Q1082 -212 1179 -190Q1276 -168 1353 -135Q1429 -103 1475 -60L1500 -79Q1415 -184 1227 -242Q1039 -300 752 -300Q462 -300 269 -242Q75 -184 0 -80',
+    0x23DE: '714 835H766Q769 813 786 791Q802 768 834 754Q865 739 912 739Q956 739 1016 747Q1075 755 1138 763Q1200 770 1252 770Q1340 770 1395 745Q1449 719 1475 678Q1500 637 1500 588H1467Q1467 617 1448 642Q1429 666 1387 682Q1345 697 1277 697Q1232 697 1186 690Q1139 683 1087 676Q1035 669 971 669Q870 669 817 695Q764 720 741 766H737Q718 720 661 695Q604 669 514 669Q463 669 428 673Q392 677 362 683Q331 689 298 693Q265 697 220 697Q164 697 122 682Q80 666 57 642Q34 617 34 588H0Q0 637 25 678Q50 719 104 745Q158 770 244 770Q297 770 357 763Q417 755 473 747Q529 739 567 739Q616 739 649 754Q681 768 698 791Q714 813 714 835',
+    0x23DF: '766 -300H714Q714 -277 698 -255Q681 -233 649 -218Q616 -204 567 -204Q529 -204 473 -211Q417 -219 357 -227Q297 -235 244 -235Q158 -235 104 -209Q50 -184 25 -142Q0 -101 0 -53H34Q34 -81 57 -106Q80 -131 122 -146Q164 -162 220 -162Q265 -162 298 -158Q331 -154 362 -148Q392 -142 428 -138Q463 -134 514 -134Q604 -134 661 -159Q718 -184 737 -231H741Q764 -184 817 -159Q870 -134 971 -134Q1035 -134 1087 -141Q1139 -148 1186 -155Q1232 -162 1277 -162Q1345 -162 1387 -146Q1429 -131 1448 -106Q1467 -81 1467 -53H1500Q1500 -101 1475 -142Q1449 -184 1395 -209Q1340 -235 1252 -235Q1200 -235 1138 -227Q1075 -219 1016 -211Q956 -204 912 -204Q865 -204 834 -218Q802 -233 786 -255Q769 -277 766 -300',
+    0x23E0: '1465 576L1364 707H135L33 576L0 599L112 778H1388L1500 599',
+    0x23E1: '1364 -193L1465 -62L1500 -85L1388 -264H112L0 -85L33 -62L135 -193',
+    0x2772: '99 764L328 983H380L184 740V-195L380 -438H328L99 -220',
+    0x2773: '89 983L318 764V-220L89 -438H37L233 -195V740L37 983',
+    0x27E6: '489 -438H99V983H489V947H349V-402H489ZM183 947V-402H265V947',
+    0x27E7: '464 -438H74V-402H214V947H74V983H464ZM380 -402V947H298V-402',
+    0x27E8: '358 983L125 270L358 -443H319L46 259V281L319 983',
+    0x27E9: '272 270L39 983H78L351 281V259L78 -443H39',
+    0x27EA: '358 983L125 270L358 -443H319L46 259V281L319 983ZM597 983L364 270L597 -443H558L285 259V281L558 983',
+    0x27EB: '272 270L39 983H78L351 281V259L78 -443H39ZM511 270L278 983H317L590 281V259L317 -443H278',
+    0x2983: '31 243V297Q80 302 107 322Q134 342 134 402Q134 444 130 496Q125 547 120 601Q114 654 110 704Q105 754 105 793Q105 894 164 938Q223 982 319 983H435V947H351V-407H435V-443H319Q223 -441 164 -397Q105 -354 105 -254Q105 -215 110 -165Q114 -115 120 -61Q125 -7 130 45Q134 96 134 138Q134 198 107 219Q80 239 31 243ZM287 -404V944Q241 935 213 904Q185 873 185 808Q185 761 192 699Q198 637 204 573Q210 508 210 455Q210 396 197 361Q183 325 159 305Q135 285 105 273V267Q135 255 159 235Q183 215 197 180Q210 144 210 85Q210 32 204 -32Q198 -97 192 -159Q185 -221 185 -268Q185 -333 213 -364Q241 -395 287 -404',
+    0x2984: '473 297V243Q424 239 397 219Q370 198 370 138Q370 96 375 45Q379 -7 385 -61Q390 -115 395 -165Q399 -215 399 -254Q399 -354 340 -397Q281 -441 185 -443H69V-407H153V947H69V983H185Q281 982 340 938Q399 894 399 793Q399 754 395 704Q390 654 385 601Q379 547 375 496Q370 444 370 402Q370 342 397 322Q424 302 473 297ZM217 -404Q263 -395 291 -364Q319 -333 319 -268Q319 -221 313 -159Q307 -97 301 -32Q294 32 294 85Q294 144 308 180Q322 215 346 235Q369 255 399 267V273Q369 285 346 305Q322 325 308 361Q294 396 294 455Q294 508 301 573Q307 637 313 699Q319 761 319 808Q319 873 291 904Q263 935 217 944',
+    0x2985: '432 -443Q360 -404 292 -343Q223 -282 168 -195Q112 -109 79 7Q46 122 46 270Q46 418 79 534Q112 649 168 736Q223 823 292 884Q360 945 432 983Q437 976 441 969Q445 962 449 955Q433 944 413 926Q392 907 378 894Q338 843 308 691Q277 539 277 270Q277 2 308 -150Q338 -303 378 -354Q392 -367 413 -385Q433 -403 449 -414Q445 -421 441 -428Q437 -435 432 -443ZM314 -304L317 -301Q296 -259 277 -209Q257 -159 242 -93Q226 -27 218 62Q209 151 209 270Q209 389 218 478Q226 567 242 633Q257 699 277 749Q296 799 317 841L314 844Q269 794 227 717Q184 639 157 529Q130 419 130 270Q130 122 157 12Q184 -99 227 -176Q269 -253 314 -304',
+    0x2986: '81 -443Q77 -435 73 -428Q69 -421 64 -414Q80 -403 101 -385Q122 -367 135 -354Q175 -303 206 -150Q236 2 236 270Q236 539 206 691Q175 843 135 894Q122 907 101 926Q80 944 64 955Q69 962 73 969Q77 976 81 983Q153 945 222 884Q290 823 346 736Q401 649 434 534Q467 418 467 270Q467 122 434 7Q401 -109 346 -195Q290 -282 222 -343Q153 -404 81 -443ZM196 -301L199 -304Q245 -253 287 -176Q329 -99 356 12Q383 122 383 270Q383 419 356 529Q329 639 287 717Q245 794 199 844L196 841Q217 799 237 749Q256 699 272 633Q287 567 296 478Q304 389 304 270Q304 151 296 62Q287 -27 272 -93Q256 -159 237 -209Q217 -259 196 -301',
+    0x2AFC: '162 -429H95V974H162ZM366 -429H299V974H366ZM570 -429H503V974H570',
+    0x2AFF: '366 -429H95V975H366ZM311 -382V928H150V-382',
+}, {});
@@ -0,0 +1,62 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size3 as font} from '../../../common/fonts/stix2/size3.js';
+
+export const size3: SVGCharMap = AddPaths(font, {
+    0x28: '59 270Q59 459 100 621Q141 782 212 905Q283 1028 374 1103L396 1079Q312 988 258 864Q203 740 177 590Q151 440 151 270Q151 101 177 -49Q203 -199 258 -323Q312 -447 396 -539L374 -563Q283 -488 212 -364Q141 -241 100 -80Q59 81 59 270',
+    0x29: '368 270Q368 81 327 -80Q286 -241 215 -364Q144 -488 53 -563L31 -539Q116 -447 170 -323Q224 -199 250 -49Q276 101 276 270Q276 440 250 590Q224 740 170 864Q116 988 31 1079L53 1103Q144 1028 215 905Q286 782 327 621Q368 459 368 270',
+    0x2F: '1096 2115L136 -404H30L991 2115',
+    0x5B: '339 -563H103V1103H339V1065H190V-525H339',
+    0x5C: '1096 -404H992L30 2115H136',
+    0x5D: '306 -563H70V-525H219V1065H70V1103H306',
+    0x7B: '34 242V298Q89 303 116 328Q143 352 143 419Q143 472 138 535Q132 597 125 662Q117 726 112 786Q106 845 106 892Q106 1000 163 1050Q220 1100 327 1103V1065Q260 1061 225 1025Q190 989 190 907Q190 864 195 810Q200 756 206 697Q212 638 217 582Q222 525 222 477Q222 409 208 370Q193 330 168 309Q142 287 110 273V267Q142 254 168 232Q193 210 208 171Q222 131 222 63Q222 15 217 -41Q212 -98 206 -157Q200 -216 195 -270Q190 -325 190 -368Q190 -450 225 -486Q260 -522 327 -526V-564Q220 -561 163 -511Q106 -461 106 -353Q106 -306 112 -246Q117 -187 125 -122Q132 -58 138 5Q143 68 143 121Q143 188 116 213Q89 237 34 242',
+    0x7D: '359 298V242Q304 237 277 213Q250 188 250 121Q250 68 256 5Q261 -58 269 -122Q276 -187 282 -246Q287 -306 287 -353Q287 -461 230 -511Q173 -561 66 -564V-526Q133 -522 168 -486Q203 -450 203 -368Q203 -325 198 -270Q193 -216 187 -157Q181 -98 176 -41Q171 15 171 63Q171 131 186 171Q200 210 226 232Q251 254 283 267V273Q251 287 226 309Q200 330 186 370Q171 409 171 477Q171 525 176 582Q181 638 187 697Q193 756 198 810Q203 864 203 907Q203 989 168 1025Q133 1061 66 1065V1103Q173 1100 230 1050Q287 1000 287 892Q287 845 282 786Q276 726 269 662Q261 597 256 535Q250 472 250 419Q250 352 277 328Q304 303 359 298',
+    0x302: '1495 563L1489 536L747 693L8 536L0 562L724 756H773',
+    0x303: '1468 761H1495Q1475 672 1399 632Q1322 591 1177 591Q1120 591 1074 594Q1028 596 984 601Q940 606 889 614Q838 622 773 633Q707 644 617 659Q514 676 434 685Q354 693 311 693Q242 693 183 682Q123 670 82 648Q41 625 26 591H0Q16 653 63 691Q109 728 179 745Q249 761 334 761Q403 761 540 744Q677 726 870 693Q939 681 1007 673Q1074 665 1129 661Q1184 657 1214 657Q1436 657 1468 761',
+    0x305: '1940 691H0V738H1940',
+    0x30C: '1489 756L1495 729L773 536H724L0 730L8 756L747 599',
+    0x330: '1468 -120H1495Q1475 -210 1399 -250Q1322 -290 1177 -290Q1120 -290 1074 -287Q1028 -285 984 -280Q940 -275 889 -267Q838 -260 773 -248Q707 -237 617 -222Q514 -205 434 -197Q354 -189 311 -189Q242 -189 183 -200Q123 -211 82 -233Q41 -256 26 -290H0Q17 -228 64 -190Q110 -153 180 -136Q249 -120 334 -120Q403 -120 540 -138Q677 -156 870 -189Q939 -200 1007 -208Q1074 -217 1129 -221Q1184 -225 1214 -225Q1436 -225 1468 -120',
+    0x332: '2048 -181H0V-130H2048',
+    0x20D0: '1786 688H0V705L146 843L163 823L132 787Q122 774 116 767Q109 759 109 748Q109 740 115 738Q121 735 132 735H1786',
+    0x20D1: '1786 688H0V735H1654Q1665 735 1671 738Q1677 740 1677 748Q1677 759 1671 767Q1665 774 1654 787L1623 823L1640 843L1786 705',
+    0x20D6: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H1786V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x20D7: '1786 718V705L1644 580L1627 600L1662 636Q1673 648 1680 657Q1687 665 1687 675Q1687 683 1680 686Q1673 688 1662 688H0V735H1662Q1673 735 1680 738Q1687 740 1687 748Q1687 759 1680 767Q1673 775 1662 787L1627 823L1644 843',
+    0x20EC: '0 -122H1786V-139L1640 -277L1623 -257L1654 -221Q1665 -208 1671 -200Q1677 -192 1677 -182Q1677 -174 1671 -171Q1665 -169 1654 -169H0',
+    0x20ED: '0 -122H1786V-169H132Q121 -169 115 -171Q109 -174 109 -182Q109 -192 116 -200Q122 -208 132 -221L163 -257L146 -277L0 -139',
+    0x20EE: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H1786V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x20EF: '1786 -147V-160L1644 -285L1627 -265L1662 -229Q1673 -217 1680 -208Q1687 -200 1687 -190Q1687 -182 1680 -179Q1673 -177 1662 -177H0V-130H1662Q1673 -130 1680 -127Q1687 -125 1687 -117Q1687 -106 1680 -98Q1673 -90 1662 -78L1627 -42L1644 -22',
+    0x221A: '1055 2626H1205V2558H1105L559 -265H514L153 890L49 850L30 879L196 988H216L537 -54H541',
+    0x221B: '1055 2626H1205V2558H1105L559 -265H514L153 890L49 850L30 879L196 988H216L537 -54H541ZM82 1435L60 1446Q81 1492 115 1515Q149 1537 192 1537Q227 1537 256 1526Q284 1514 300 1493Q316 1472 316 1443Q316 1419 306 1402Q295 1385 277 1371Q259 1357 236 1343V1338Q264 1331 289 1316Q313 1302 328 1278Q343 1255 343 1222Q343 1183 326 1156Q309 1129 281 1111Q252 1094 216 1086Q180 1079 142 1079Q108 1079 91 1084Q73 1090 67 1100Q60 1110 60 1121Q60 1131 67 1143Q73 1155 91 1155Q96 1155 104 1151Q111 1147 130 1137Q146 1129 154 1125Q162 1120 170 1119Q177 1117 187 1117Q205 1117 225 1124Q246 1131 260 1150Q274 1169 274 1204Q274 1235 257 1256Q240 1278 212 1290Q183 1302 147 1302H131V1338H146Q171 1338 194 1348Q217 1358 232 1378Q247 1398 247 1426Q247 1456 226 1471Q205 1486 173 1486Q146 1486 122 1474Q98 1462 82 1435',
+    0x221C: '1055 2626H1205V2558H1105L559 -265H514L153 890L49 850L30 879L196 988H216L537 -54H541ZM394 1190H320V1087H248V1190H47V1246L264 1535H320V1250H394ZM248 1250V1448H242L99 1257V1250',
+    0x2308: '359 1065H190V-559H103V1103H359',
+    0x2309: '219 1065H50V1103H306V-559H219',
+    0x230A: '190 -521H359V-559H103V1103H190',
+    0x230B: '50 -521H219V1103H306V-559H50',
+    0x23B4: '1770 588H1732V707H38V588H0V778H1770',
+    0x23B5: '1732 -62H1770V-252H0V-62H38V-181H1732',
+    0x23DC: '22 579L0 600Q59 670 181 720Q303 770 481 798Q659 825 887 825Q1226 825 1448 765Q1670 704 1770 599L1747 580Q1692 623 1601 656Q1510 689 1395 712Q1279 735 1150 747Q1020 759 887 759Q753 759 623 747Q492 735 376 712Q260 688 169 655Q77 621 22 579',
+    0x23DD: '0 -76L22 -55Q77 -97 169 -130Q260 -164 376 -187Q492 -211 623 -223Q753 -235 887 -235Q1020 -235 1150 -223Q1279 -211 1395 -188Q1510 -165 1601 -132Q1692 -99 1747 -56L1770 -75Q1670 -180 1448 -240Q1226 -301 887 -301Q659 -301 481 -273Q303 -246 181 -195Q59 -145 0 -76',
+    0x23DE: '848 835H898Q901 813 921 790Q940 767 978 752Q1015 737 1070 737Q1109 737 1160 742Q1210 747 1266 754Q1322 760 1377 765Q1431 770 1477 770Q1581 770 1646 745Q1710 719 1740 678Q1770 637 1770 588H1737Q1737 617 1715 642Q1692 666 1642 682Q1592 697 1511 697Q1458 697 1403 690Q1347 682 1285 675Q1223 667 1148 667Q1027 667 965 694Q902 720 874 766H869Q847 720 779 694Q711 667 604 667Q544 667 502 672Q459 676 423 682Q387 688 348 693Q309 697 255 697Q189 697 139 682Q89 666 62 642Q34 617 34 588H0Q0 637 30 678Q59 719 123 745Q187 770 288 770Q335 770 388 765Q440 760 493 754Q546 747 593 742Q640 737 674 737Q732 737 770 752Q808 767 828 790Q847 813 848 835',
+    0x23DF: '898 -300H848Q847 -277 828 -254Q808 -232 770 -217Q732 -202 674 -202Q640 -202 593 -207Q546 -212 493 -218Q440 -225 388 -230Q335 -235 288 -235Q187 -235 123 -209Q59 -184 30 -142Q0 -101 0 -53H34Q34 -81 62 -106Q89 -131 139 -146Q189 -162 255 -162Q309 -162 348 -157Q387 -153 423 -147Q459 -141 502 -136Q544 -132 604 -132Q711 -132 779 -158Q847 -184 869 -231H874Q902 -184 965 -158Q1027 -132 1148 -132Q1223 -132 1285 -139Q1347 -147 1403 -154Q1458 -162 1511 -162Q1592 -162 1642 -146Q1692 -131 1715 -106Q1737 -81 1737 -53H1770Q1770 -101 1740 -142Q1710 -184 1646 -209Q1581 -235 1477 -235Q1431 -235 1377 -230Q1322 -225 1266 -218Q1210 -212 1160 -207Q1109 -202 1070 -202Q1015 -202 978 -217Q940 -232 921 -254Q901 -277 898 -300',
+    0x23E0: '1735 576L1634 707H135L33 576L0 599L112 778H1658L1770 599',
+    0x23E1: '1634 -193L1735 -62L1770 -85L1658 -264H112L0 -85L33 -62L135 -193',
+    0x2772: '103 868L346 1103H400L191 843V-298L400 -559H346L103 -324',
+    0x2773: '94 1103L337 868V-324L94 -559H40L249 -298V843L40 1103',
+    0x27E6: '506 -559H103V1103H506V1065H362V-520H506ZM190 1065V-520H274V1065',
+    0x27E7: '488 -559H85V-520H229V1065H85V1103H488ZM401 -520V1065H317V-520',
+    0x27E8: '387 1103L131 270L387 -563H346L49 258V282L346 1103',
+    0x27E9: '293 270L37 1103H78L375 282V258L78 -563H37',
+    0x27EA: '387 1103L131 270L387 -563H346L49 258V282L346 1103ZM640 1103L384 270L640 -563H599L302 258V282L599 1103',
+    0x27EB: '294 270L38 1103H79L376 282V258L79 -563H38ZM547 270L291 1103H332L629 282V258L332 -563H291',
+    0x2983: '34 242V298Q89 303 116 328Q143 352 143 419Q143 472 138 535Q133 597 126 662Q119 726 114 786Q109 845 109 892Q109 1000 169 1050Q228 1100 335 1103H457V1065H369V-525H457V-563H335Q228 -560 169 -510Q109 -460 109 -352Q109 -305 114 -245Q119 -186 126 -121Q133 -57 138 6Q143 68 143 121Q143 188 116 213Q89 237 34 242ZM302 -521V1061Q250 1051 222 1015Q193 978 193 907Q193 864 198 810Q202 756 208 697Q213 638 218 582Q222 525 222 477Q222 409 208 370Q193 330 168 309Q142 287 110 273V267Q142 254 168 232Q193 210 208 171Q222 131 222 63Q222 15 218 -41Q213 -98 208 -157Q202 -216 198 -270Q193 -325 193 -368Q193 -438 222 -474Q250 -511 302 -521',
+    0x2984: '502 298V242Q447 237 420 213Q393 188 393 121Q393 68 398 6Q403 -57 410 -121Q417 -186 422 -245Q427 -305 427 -352Q427 -460 368 -510Q308 -560 201 -563H79V-525H167V1065H79V1103H201Q308 1100 368 1050Q427 1000 427 892Q427 845 422 786Q417 726 410 662Q403 597 398 535Q393 472 393 419Q393 352 420 328Q447 303 502 298ZM234 -521Q286 -511 315 -474Q343 -438 343 -368Q343 -325 339 -270Q334 -216 329 -157Q323 -98 319 -41Q314 15 314 63Q314 131 329 171Q343 210 369 232Q394 254 426 267V273Q394 287 369 309Q343 330 329 370Q314 409 314 477Q314 525 319 582Q323 638 329 697Q334 756 339 810Q343 864 343 907Q343 978 315 1015Q286 1051 234 1061',
+    0x2985: '453 -563Q380 -519 309 -449Q238 -380 180 -279Q122 -178 87 -42Q52 94 52 270Q52 446 87 582Q122 718 180 819Q238 920 309 990Q380 1059 453 1103Q458 1096 463 1090Q467 1083 472 1075Q455 1062 433 1041Q411 1019 397 1004Q357 946 325 763Q292 580 292 270Q292 -40 325 -222Q357 -405 397 -464Q411 -479 433 -500Q455 -522 472 -535Q462 -547 453 -563ZM331 -407L335 -404Q313 -354 293 -296Q272 -238 256 -161Q240 -84 231 21Q221 126 221 270Q221 414 231 519Q240 624 256 701Q272 778 293 837Q313 895 335 944L331 947Q284 888 240 797Q196 705 168 575Q139 445 139 270Q139 95 168 -35Q196 -165 240 -256Q284 -347 331 -407',
+    0x2986: '82 -563Q73 -547 63 -535Q80 -522 103 -500Q125 -479 138 -464Q179 -405 211 -222Q243 -40 243 270Q243 580 211 763Q179 946 138 1004Q125 1019 103 1041Q80 1062 63 1075Q68 1083 73 1090Q78 1096 82 1103Q155 1059 226 990Q297 920 355 819Q413 718 448 582Q483 446 483 270Q483 94 448 -42Q413 -178 355 -279Q297 -380 226 -449Q155 -519 82 -563ZM200 -404L204 -407Q251 -347 295 -256Q339 -165 368 -35Q396 95 396 270Q396 445 368 575Q339 705 295 797Q251 888 204 947L200 944Q222 895 243 837Q263 778 279 701Q295 624 305 519Q314 414 314 270Q314 126 305 21Q295 -84 279 -161Q263 -238 243 -296Q222 -354 200 -404',
+}, {});
@@ -0,0 +1,59 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size4 as font} from '../../../common/fonts/stix2/size4.js';
+
+export const size4: SVGCharMap = AddPaths(font, {
+    0x28: '64 270Q64 431 89 576Q114 720 159 843Q203 966 264 1063Q324 1159 395 1223L418 1199Q330 1095 273 951Q215 807 187 635Q159 462 159 270Q159 79 187 -94Q215 -267 273 -410Q330 -554 418 -659L395 -683Q324 -618 264 -522Q203 -426 159 -303Q114 -180 89 -35Q64 109 64 270',
+    0x29: '386 270Q386 109 361 -35Q336 -180 292 -303Q247 -426 187 -522Q126 -618 55 -683L32 -659Q120 -554 178 -410Q235 -267 263 -94Q291 79 291 270Q291 462 263 635Q235 807 178 951Q120 1095 32 1199L55 1223Q126 1159 187 1063Q247 966 292 843Q336 720 361 576Q386 431 386 270',
+    0x2F: '1324 2627L123 -521H16L1217 2627',
+    0x5B: '352 -683H107V1223H352V1183H197V-643H352',
+    0x5C: '1324 -521H1217L16 2627H123',
+    0x5D: '322 -683H77V-643H232V1183H77V1223H322',
+    0x7B: '37 241V299Q99 304 126 333Q152 362 152 435Q152 500 146 574Q139 648 131 723Q122 798 116 867Q109 935 109 990Q109 1106 166 1163Q223 1219 341 1223V1183Q268 1179 232 1137Q196 1094 196 1007Q196 956 202 892Q208 827 216 758Q223 688 229 621Q235 554 235 498Q235 422 220 378Q204 334 177 311Q150 288 116 273V267Q150 252 177 229Q204 206 220 162Q235 118 235 42Q235 -14 229 -81Q223 -148 216 -218Q208 -288 202 -352Q196 -417 196 -468Q196 -555 232 -597Q268 -639 341 -644V-684Q223 -680 166 -623Q109 -566 109 -451Q109 -396 116 -327Q122 -259 131 -183Q139 -108 146 -34Q152 40 152 105Q152 179 126 208Q99 236 37 241',
+    0x7D: '378 299V241Q317 236 290 208Q263 179 263 105Q263 40 270 -34Q276 -108 285 -183Q293 -259 300 -327Q306 -396 306 -451Q306 -566 249 -623Q192 -680 74 -684V-644Q148 -639 184 -597Q219 -555 219 -468Q219 -417 213 -352Q207 -288 200 -218Q192 -148 186 -81Q180 -14 180 42Q180 118 196 162Q211 206 238 229Q265 252 299 267V273Q265 288 238 311Q211 334 196 378Q180 422 180 498Q180 554 186 621Q192 688 200 758Q207 827 213 892Q219 956 219 1007Q219 1094 184 1137Q148 1179 74 1183V1223Q192 1219 249 1163Q306 1106 306 990Q306 935 300 867Q293 798 285 723Q276 648 270 574Q263 500 263 435Q263 362 290 333Q317 304 378 299',
+    0x302: '1931 563L1925 536L965 693L8 536L0 562L942 756H991',
+    0x303: '1901 758H1931Q1916 699 1857 662Q1798 625 1711 608Q1623 591 1520 591Q1444 591 1369 595Q1293 598 1211 606Q1128 613 1031 626Q934 638 815 656Q760 664 702 671Q644 677 591 682Q538 686 497 689Q455 691 432 691Q377 691 313 685Q248 679 188 667Q128 654 85 635Q42 616 29 591H0Q14 637 59 669Q104 701 168 721Q232 740 305 749Q377 758 446 758Q484 758 553 754Q621 750 711 742Q801 733 903 721Q1004 709 1107 693Q1162 684 1228 678Q1294 672 1359 668Q1423 663 1474 661Q1525 659 1549 659Q1608 659 1666 665Q1724 671 1774 684Q1823 696 1857 715Q1891 733 1901 758',
+    0x305: '2560 687H0V738H2560',
+    0x30C: '1925 756L1931 729L991 536H942L0 730L8 756L965 599',
+    0x330: '1901 -120H1931Q1916 -179 1857 -216Q1798 -253 1711 -270Q1623 -287 1520 -287Q1444 -287 1369 -283Q1293 -280 1211 -272Q1128 -265 1031 -252Q934 -240 815 -222Q760 -214 702 -207Q644 -201 591 -196Q538 -192 497 -190Q455 -188 432 -188Q377 -188 313 -194Q248 -200 188 -212Q128 -225 85 -243Q42 -262 29 -287H0Q14 -241 59 -209Q104 -177 168 -157Q232 -138 305 -129Q377 -120 446 -120Q484 -120 553 -124Q621 -129 711 -137Q801 -146 903 -158Q1004 -170 1107 -186Q1162 -194 1228 -200Q1294 -207 1359 -211Q1423 -215 1474 -217Q1525 -219 1549 -219Q1608 -219 1666 -213Q1724 -207 1774 -195Q1823 -183 1857 -164Q1891 -145 1901 -120',
+    0x332: '2560 -181H0V-130H2560',
+    0x20D0: '2232 688H0V705L146 843L163 823L132 787Q122 774 116 767Q109 759 109 748Q109 740 115 738Q121 735 132 735H2232',
+    0x20D1: '2232 688H0V735H2100Q2111 735 2117 738Q2123 740 2123 748Q2123 759 2117 767Q2111 774 2100 787L2069 823L2086 843L2232 705',
+    0x20D6: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H2232V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x20D7: '2232 718V705L2090 580L2073 600L2108 636Q2119 648 2126 657Q2133 665 2133 675Q2133 683 2126 686Q2119 688 2108 688H0V735H2108Q2119 735 2126 738Q2133 740 2133 748Q2133 759 2126 767Q2119 775 2108 787L2073 823L2090 843',
+    0x20EC: '0 -122H2232V-139L2086 -277L2069 -257L2100 -221Q2111 -208 2117 -200Q2123 -192 2123 -182Q2123 -174 2117 -171Q2111 -169 2100 -169H0',
+    0x20ED: '0 -122H2232V-169H132Q121 -169 115 -171Q109 -174 109 -182Q109 -192 116 -200Q122 -208 132 -221L163 -257L146 -277L0 -139',
+    0x20EE: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H2232V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x20EF: '2232 -147V-160L2090 -285L2073 -265L2108 -229Q2119 -217 2126 -208Q2133 -200 2133 -190Q2133 -182 2126 -179Q2119 -177 2108 -177H0V-130H2108Q2119 -130 2126 -127Q2133 -125 2133 -117Q2133 -106 2126 -98Q2119 -90 2108 -78L2073 -42L2090 -22',
+    0x2308: '372 1183H197V-679H107V1223H372',
+    0x2309: '232 1183H57V1223H322V-679H232',
+    0x230A: '197 -639H372V-679H107V1223H197',
+    0x230B: '57 -639H232V1223H322V-679H57',
+    0x23B4: '2180 588H2142V707H38V588H0V778H2180',
+    0x23B5: '2142 -62H2180V-252H0V-62H38V-181H2142',
+    0x23DC: '18 579L0 600Q73 670 223 722Q373 773 593 802Q812 830 1092 830Q1510 830 1784 767Q2057 704 2180 599L2163 580Q2108 614 2024 643Q1940 672 1834 694Q1728 716 1607 732Q1485 748 1355 756Q1224 764 1093 764Q960 764 829 756Q698 747 576 732Q454 716 348 693Q241 670 157 642Q73 613 18 579',
+    0x23DD: '0 -71L18 -50Q73 -84 157 -112Q241 -141 348 -164Q454 -187 576 -202Q698 -218 829 -226Q960 -235 1093 -235Q1224 -235 1355 -227Q1485 -219 1607 -203Q1728 -187 1834 -165Q1940 -143 2024 -114Q2108 -85 2163 -51L2180 -70Q2057 -175 1784 -238Q1510 -301 1092 -301Q812 -301 593 -272Q373 -244 223 -192Q73 -140 0 -71',
+    0x23DE: '1048 835H1101Q1105 813 1130 789Q1155 765 1203 749Q1250 732 1318 732Q1371 732 1434 738Q1497 743 1564 751Q1631 759 1697 765Q1762 770 1819 770Q1947 770 2027 745Q2106 719 2143 678Q2180 637 2180 588H2147Q2147 617 2119 642Q2091 666 2030 682Q1968 697 1867 697Q1801 697 1733 689Q1664 680 1587 671Q1509 662 1416 662Q1316 662 1249 675Q1182 688 1141 712Q1099 735 1076 766H1070Q1042 720 959 691Q875 662 741 662Q667 662 615 668Q562 673 517 680Q472 686 424 692Q375 697 308 697Q226 697 164 682Q102 666 68 642Q34 617 34 588H0Q0 637 37 678Q73 719 152 745Q230 770 355 770Q431 770 515 761Q598 751 680 742Q761 732 830 732Q902 732 950 749Q998 765 1023 789Q1047 813 1048 835',
+    0x23DF: '1101 -300H1048Q1047 -277 1023 -253Q998 -230 950 -213Q902 -197 830 -197Q761 -197 680 -206Q598 -216 515 -225Q431 -235 355 -235Q230 -235 152 -209Q73 -184 37 -142Q0 -101 0 -53H34Q34 -81 68 -106Q102 -131 164 -146Q226 -162 308 -162Q375 -162 424 -156Q472 -151 517 -144Q562 -138 615 -132Q667 -127 741 -127Q875 -127 959 -155Q1042 -184 1070 -231H1076Q1099 -200 1141 -176Q1182 -153 1249 -140Q1316 -127 1416 -127Q1509 -127 1587 -135Q1664 -144 1733 -153Q1801 -162 1867 -162Q1968 -162 2030 -146Q2091 -131 2119 -106Q2147 -81 2147 -53H2180Q2180 -101 2143 -142Q2106 -184 2027 -209Q1947 -235 1819 -235Q1762 -235 1697 -229Q1631 -224 1564 -216Q1497 -208 1434 -202Q1371 -197 1318 -197Q1250 -197 1203 -213Q1155 -230 1130 -253Q1105 -277 1101 -300',
+    0x23E0: '2145 576L2044 707H135L33 576L0 599L112 778H2068L2180 599',
+    0x23E1: '2044 -193L2145 -62L2180 -85L2068 -264H112L0 -85L33 -62L135 -193',
+    0x2772: '107 972L364 1223H419L197 947V-402L419 -679H364L107 -429',
+    0x2773: '99 1223L356 972V-429L99 -679H44L266 -402V947L44 1223',
+    0x27E6: '522 -679H107V1223H522V1183H374V-639H522ZM197 1183V-639H284V1183',
+    0x27E7: '513 -679H98V-639H246V1183H98V1223H513ZM423 -639V1183H336V-639',
+    0x27E8: '416 1223L137 270L416 -683H373L52 257V283L373 1223',
+    0x27E9: '315 270L36 1223H79L400 283V257L79 -683H36',
+    0x27EA: '416 1223L137 270L416 -683H373L52 257V283L373 1223ZM683 1223L404 270L683 -683H641L319 257V283L641 1223',
+    0x27EB: '583 270L304 1223H347L668 283V257L347 -683H304ZM316 270L37 1223H79L401 283V257L79 -683H37',
+    0x2983: '37 241V299Q99 304 126 333Q152 362 152 435Q152 500 147 574Q141 648 133 723Q125 798 120 867Q114 935 114 990Q114 1106 174 1163Q233 1219 351 1223H479V1183H386V-643H479V-683H351Q233 -679 174 -622Q114 -565 114 -450Q114 -395 120 -326Q125 -258 133 -183Q141 -108 147 -34Q152 40 152 105Q152 179 126 208Q99 236 37 241ZM318 -639V1179Q260 1167 230 1126Q200 1084 200 1007Q200 956 205 892Q210 827 217 758Q224 688 229 621Q234 554 234 498Q234 422 219 378Q203 334 177 311Q150 288 116 273V267Q150 252 177 229Q203 206 219 162Q234 118 234 42Q234 -14 229 -81Q224 -148 217 -217Q210 -287 205 -351Q200 -416 200 -467Q200 -544 230 -585Q260 -627 318 -639',
+    0x2984: '531 299V241Q470 236 443 208Q416 179 416 105Q416 40 422 -34Q427 -108 435 -183Q443 -258 449 -326Q454 -395 454 -450Q454 -565 395 -622Q335 -679 217 -683H89V-643H182V1183H89V1223H217Q335 1219 395 1163Q454 1106 454 990Q454 935 449 867Q443 798 435 723Q427 648 422 574Q416 500 416 435Q416 362 443 333Q470 304 531 299ZM250 -639Q308 -627 338 -585Q368 -544 368 -467Q368 -416 363 -351Q358 -287 351 -217Q344 -148 339 -81Q334 -14 334 42Q334 118 350 162Q365 206 392 229Q418 252 452 267V273Q418 288 392 311Q365 334 350 378Q334 422 334 498Q334 554 339 621Q344 688 351 758Q358 827 363 892Q368 956 368 1007Q368 1084 338 1126Q308 1167 250 1179',
+    0x2985: '473 -683Q399 -633 326 -554Q252 -476 191 -361Q130 -247 94 -90Q57 66 57 270Q57 474 94 631Q130 787 191 902Q252 1016 326 1095Q399 1174 473 1223Q478 1216 484 1210Q489 1203 494 1195Q477 1181 454 1156Q430 1131 416 1114Q389 1070 364 960Q339 850 323 677Q307 504 307 270Q307 36 323 -137Q339 -310 364 -420Q389 -530 416 -574Q430 -591 454 -616Q477 -641 494 -655Q489 -662 484 -668Q478 -675 473 -683ZM348 -509L352 -506Q329 -449 308 -383Q287 -317 270 -229Q253 -141 244 -19Q234 102 234 270Q234 438 244 560Q253 682 270 770Q287 858 308 924Q329 990 352 1047L348 1050Q312 998 276 927Q240 855 211 760Q182 665 165 544Q147 422 147 270Q147 69 177 -80Q207 -230 254 -335Q300 -440 348 -509',
+    0x2986: '85 -683Q80 -675 75 -668Q69 -662 64 -655Q81 -641 105 -616Q128 -591 142 -574Q170 -530 195 -420Q219 -310 235 -137Q251 36 251 270Q251 504 235 677Q219 850 195 960Q170 1070 142 1114Q128 1131 105 1156Q81 1181 64 1195Q69 1203 75 1210Q80 1216 85 1223Q159 1174 233 1095Q306 1016 367 902Q428 787 465 631Q501 474 501 270Q501 66 465 -90Q428 -247 367 -361Q306 -476 233 -554Q159 -633 85 -683ZM206 -506L210 -509Q259 -440 305 -335Q351 -230 381 -80Q411 69 411 270Q411 422 394 544Q376 665 347 760Q318 855 282 927Q246 998 210 1050L206 1047Q229 990 250 924Q271 858 288 770Q305 682 315 560Q324 438 324 270Q324 102 315 -19Q305 -141 288 -229Q271 -317 250 -383Q229 -449 206 -506',
+}, {});
@@ -0,0 +1,57 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size5 as font} from '../../../common/fonts/stix2/size5.js';
+
+export const size5: SVGCharMap = AddPaths(font, {
+    0x28: '68 270Q68 450 95 613Q121 775 168 914Q215 1052 279 1161Q342 1270 416 1342L441 1319Q349 1201 288 1038Q227 874 197 679Q166 484 166 270Q166 57 197 -138Q227 -334 288 -497Q349 -661 441 -779L416 -802Q342 -730 279 -621Q215 -512 168 -373Q121 -235 95 -72Q68 90 68 270',
+    0x29: '405 270Q405 90 379 -72Q352 -235 305 -373Q258 -512 195 -621Q131 -730 57 -802L32 -779Q124 -661 185 -497Q246 -334 277 -138Q307 57 307 270Q307 484 277 679Q246 874 185 1038Q124 1201 32 1319L57 1342Q131 1270 195 1161Q258 1052 305 914Q352 775 379 613Q405 450 405 270',
+    0x5B: '365 -803H111V1342H365V1300H204V-761H365',
+    0x5D: '338 -803H84V-761H245V1300H84V1342H338',
+    0x7B: '40 240V300Q108 306 135 339Q161 372 161 452Q161 529 154 615Q146 700 137 785Q127 870 120 948Q112 1025 112 1088Q112 1211 170 1275Q227 1338 356 1342V1300Q274 1295 239 1247Q203 1199 203 1106Q203 1048 210 974Q216 899 225 819Q234 738 241 661Q247 584 247 520Q247 435 231 387Q215 339 187 314Q158 289 122 273V267Q158 252 187 227Q215 201 231 153Q247 105 247 20Q247 -44 241 -121Q234 -198 225 -279Q216 -360 210 -434Q203 -509 203 -567Q203 -660 239 -708Q274 -756 356 -761V-803Q227 -799 170 -735Q112 -672 112 -549Q112 -486 120 -408Q127 -330 137 -245Q146 -160 154 -74Q161 11 161 88Q161 168 135 201Q108 234 40 240',
+    0x7D: '397 300V240Q330 234 303 201Q276 168 276 88Q276 11 284 -74Q291 -160 301 -245Q310 -330 318 -408Q325 -486 325 -549Q325 -672 268 -735Q210 -799 81 -803V-761Q163 -756 199 -708Q234 -660 234 -567Q234 -509 228 -434Q221 -360 212 -279Q203 -198 197 -121Q190 -44 190 20Q190 105 207 153Q223 201 251 227Q279 252 315 267V273Q279 289 251 314Q223 339 207 387Q190 435 190 520Q190 584 197 661Q203 738 212 819Q221 899 228 974Q234 1048 234 1106Q234 1199 199 1247Q163 1295 81 1300V1342Q210 1338 268 1275Q325 1211 325 1088Q325 1025 318 948Q310 870 301 785Q291 700 284 615Q276 529 276 452Q276 372 303 339Q330 306 397 300',
+    0x302: '2384 563L2378 536L1192 693L5 536L0 562L1169 756H1218',
+    0x303: '2354 757H2384Q2375 722 2338 695Q2300 668 2244 648Q2188 628 2121 616Q2054 603 1986 597Q1917 591 1855 591Q1753 591 1623 597Q1493 603 1344 617Q1194 631 1035 655Q991 662 935 668Q878 673 819 677Q759 681 705 684Q650 687 609 689Q568 690 550 690Q506 690 443 686Q380 682 313 674Q245 666 184 654Q123 642 81 627Q39 611 29 591H0Q11 627 55 655Q98 682 162 702Q225 721 297 734Q369 746 439 752Q509 757 564 757Q594 757 655 755Q715 752 796 747Q877 741 969 733Q1060 725 1153 715Q1245 705 1327 692Q1371 685 1434 680Q1497 674 1567 670Q1637 666 1702 664Q1767 661 1816 660Q1864 658 1884 658Q1931 658 1990 662Q2049 666 2109 674Q2169 681 2222 693Q2274 705 2310 721Q2346 737 2354 757',
+    0x305: '3072 691H0V738H3072',
+    0x30C: '2378 756L2384 729L1218 536H1169L0 730L5 756L1192 599',
+    0x330: '2354 -120H2384Q2375 -155 2338 -182Q2300 -210 2244 -230Q2188 -250 2121 -262Q2054 -275 1986 -281Q1917 -287 1855 -287Q1753 -287 1623 -281Q1493 -275 1344 -260Q1194 -246 1035 -222Q991 -215 935 -210Q878 -205 819 -200Q759 -196 705 -193Q650 -191 609 -189Q568 -188 550 -188Q506 -188 443 -192Q380 -196 313 -203Q245 -211 184 -223Q123 -235 81 -251Q39 -267 29 -287H0Q11 -250 55 -222Q98 -195 162 -175Q225 -156 297 -143Q369 -131 439 -125Q509 -120 564 -120Q594 -120 655 -123Q715 -126 796 -131Q877 -137 969 -145Q1060 -153 1153 -163Q1245 -173 1327 -186Q1371 -193 1434 -198Q1497 -203 1567 -207Q1637 -211 1702 -213Q1767 -216 1816 -217Q1864 -219 1884 -219Q1931 -219 1990 -215Q2049 -211 2109 -203Q2169 -196 2222 -184Q2274 -172 2310 -156Q2346 -140 2354 -120',
+    0x332: '3072 -181H0V-130H3072',
+    0x20D0: '3072 688H0V705L146 843L163 823L132 787Q122 774 116 767Q109 759 109 748Q109 740 115 738Q121 735 132 735H3072',
+    0x20D1: '3072 688H0V735H2940Q2951 735 2957 738Q2963 740 2963 748Q2963 759 2957 767Q2951 774 2940 787L2909 823L2926 843L3072 705',
+    0x20D6: '0 705V718L142 843L159 823L124 787Q113 775 106 767Q99 759 99 748Q99 740 106 738Q113 735 124 735H3072V688H124Q113 688 106 686Q99 683 99 675Q99 665 106 657Q113 648 124 636L159 600L142 580',
+    0x20D7: '3072 718V705L2930 580L2913 600L2948 636Q2959 648 2966 657Q2973 665 2973 675Q2973 683 2966 686Q2959 688 2948 688H0V735H2948Q2959 735 2966 738Q2973 740 2973 748Q2973 759 2966 767Q2959 775 2948 787L2913 823L2930 843',
+    0x20EC: '0 -122H3072V-139L2926 -277L2909 -257L2940 -221Q2951 -208 2957 -200Q2963 -192 2963 -182Q2963 -174 2957 -171Q2951 -169 2940 -169H0',
+    0x20ED: '0 -122H3072V-169H132Q121 -169 115 -171Q109 -174 109 -182Q109 -192 116 -200Q122 -208 132 -221L163 -257L146 -277L0 -139',
+    0x20EE: '0 -160V-147L142 -22L159 -42L124 -78Q113 -90 106 -98Q99 -106 99 -117Q99 -125 106 -127Q113 -130 124 -130H3072V-177H124Q113 -177 106 -179Q99 -182 99 -190Q99 -200 106 -208Q113 -217 124 -229L159 -265L142 -285',
+    0x20EF: '3072 -147V-160L2930 -285L2913 -265L2948 -229Q2959 -217 2966 -208Q2973 -200 2973 -190Q2973 -182 2966 -179Q2959 -177 2948 -177H0V-130H2948Q2959 -130 2966 -127Q2973 -125 2973 -117Q2973 -106 2966 -98Q2959 -90 2948 -78L2913 -42L2930 -22',
+    0x2308: '385 1300H204V-799H111V1342H385',
+    0x2309: '245 1300H64V1342H338V-799H245',
+    0x230A: '204 -757H385V-799H111V1342H204',
+    0x230B: '64 -757H245V1342H338V-799H64',
+    0x23B4: '2600 588H2562V707H38V588H0V778H2600',
+    0x23B5: '2562 -62H2600V-252H0V-62H38V-181H2562',
+    0x23DC: '15 579L0 600Q87 670 266 724Q444 778 706 809Q968 840 1302 840Q1635 840 1891 809Q2146 778 2324 724Q2502 669 2600 599L2586 580Q2521 614 2420 644Q2319 674 2192 698Q2064 721 1918 739Q1772 756 1616 765Q1460 774 1303 774Q1145 774 988 765Q831 755 685 738Q538 721 411 697Q283 672 182 643Q80 613 15 579',
+    0x23DD: '0 -61L15 -40Q80 -74 182 -103Q283 -133 411 -157Q538 -182 685 -199Q831 -216 988 -225Q1145 -235 1303 -235Q1460 -235 1616 -226Q1772 -217 1918 -199Q2064 -182 2192 -158Q2319 -135 2420 -105Q2521 -75 2586 -41L2600 -60Q2502 -130 2324 -184Q2146 -239 1891 -270Q1635 -301 1302 -301Q968 -301 706 -270Q444 -239 266 -184Q87 -130 0 -61',
+    0x23DE: '1255 835H1308Q1312 813 1344 788Q1375 762 1433 745Q1491 727 1572 727Q1670 727 1773 738Q1876 749 1977 760Q2078 770 2169 770Q2322 770 2417 745Q2512 719 2556 678Q2600 637 2600 588H2567Q2567 617 2533 642Q2499 666 2426 682Q2352 697 2231 697Q2152 697 2070 687Q1988 677 1896 667Q1803 657 1691 657Q1588 657 1519 665Q1449 673 1405 688Q1360 703 1332 723Q1304 743 1283 766H1276Q1254 735 1211 711Q1167 686 1088 672Q1009 657 882 657Q811 657 757 661Q703 665 658 671Q613 677 570 683Q526 689 476 693Q426 697 362 697Q264 697 190 682Q116 666 75 642Q34 617 34 588H0Q0 637 44 678Q87 719 181 745Q274 770 423 770Q514 770 612 760Q710 749 807 738Q903 727 990 727Q1075 727 1134 745Q1193 762 1224 788Q1254 813 1255 835',
+    0x23DF: '1308 -300H1255Q1254 -277 1224 -252Q1193 -227 1134 -209Q1075 -192 990 -192Q903 -192 807 -202Q710 -213 612 -224Q514 -235 423 -235Q274 -235 181 -209Q87 -184 44 -142Q0 -101 0 -53H34Q34 -81 75 -106Q116 -131 190 -146Q264 -162 362 -162Q426 -162 476 -158Q526 -154 570 -148Q613 -142 658 -136Q703 -130 757 -126Q811 -122 882 -122Q1009 -122 1088 -136Q1167 -151 1211 -175Q1254 -200 1276 -231H1283Q1304 -208 1332 -188Q1360 -168 1405 -153Q1449 -138 1519 -130Q1588 -122 1691 -122Q1803 -122 1896 -132Q1988 -142 2070 -152Q2152 -162 2231 -162Q2352 -162 2426 -146Q2499 -131 2533 -106Q2567 -81 2567 -53H2600Q2600 -101 2556 -142Q2512 -184 2417 -209Q2322 -235 2169 -235Q2078 -235 1977 -224Q1876 -213 1773 -202Q1670 -192 1572 -192Q1491 -192 1433 -209Q1375 -227 1344 -252Q1312 -277 1308 -300',
+    0x23E0: '2565 576L2464 707H135L33 576L0 599L112 778H2488L2600 599',
+    0x23E1: '2464 -193L2565 -62L2600 -85L2488 -264H112L0 -85L33 -62L135 -193',
+    0x2772: '111 1076L381 1342H439L204 1050V-506L439 -799H381L111 -534',
+    0x2773: '104 1342L374 1076V-534L104 -799H46L281 -506V1050L46 1342',
+    0x27E6: '539 -799H111V1342H539V1300H386V-757H539ZM203 1300V-757H294V1300',
+    0x27E7: '537 -799H109V-757H262V1300H109V1342H537ZM445 -757V1300H354V-757',
+    0x27E8: '444 1343L143 270L444 -803H401L55 257V283L401 1343',
+    0x27E9: '337 270L36 1343H79L425 283V257L79 -803H36',
+    0x27EA: '726 1343L424 270L726 -803H682L336 257V283L682 1343ZM444 1343L143 270L444 -803H401L55 257V283L401 1343',
+    0x27EB: '337 270L35 1343H79L425 283V257L79 -803H35ZM618 270L317 1343H360L706 283V257L360 -803H317',
+    0x2983: '40 240V300Q108 306 135 339Q161 372 161 452Q161 529 155 615Q148 700 140 785Q131 870 125 948Q118 1025 118 1088Q118 1211 178 1275Q238 1338 367 1342H502V1300H404V-761H502V-803H367Q238 -798 178 -734Q118 -671 118 -549Q118 -486 125 -408Q131 -330 140 -245Q148 -160 155 -74Q161 11 161 88Q161 168 135 201Q108 234 40 240ZM333 -757V1296Q208 1270 208 1106Q208 1048 214 974Q219 899 227 819Q235 738 241 661Q246 584 246 520Q246 435 230 387Q214 339 186 314Q158 289 122 273V267Q158 252 186 227Q214 201 230 153Q246 105 246 20Q246 -44 241 -121Q235 -198 227 -278Q219 -359 214 -433Q208 -508 208 -567Q208 -731 333 -757',
+    0x2984: '559 300V240Q492 234 465 201Q438 168 438 88Q438 11 445 -74Q451 -160 460 -245Q468 -330 475 -408Q481 -486 481 -549Q481 -671 421 -734Q361 -798 232 -803H97V-761H195V1300H97V1342H232Q361 1338 421 1275Q481 1211 481 1088Q481 1025 475 948Q468 870 460 785Q451 700 445 615Q438 529 438 452Q438 372 465 339Q492 306 559 300ZM266 -757Q391 -731 391 -567Q391 -508 386 -433Q380 -359 372 -278Q364 -198 359 -121Q353 -44 353 20Q353 105 369 153Q385 201 413 227Q441 252 477 267V273Q441 289 413 314Q385 339 369 387Q353 435 353 520Q353 584 359 661Q364 738 372 819Q380 899 386 974Q391 1048 391 1106Q391 1270 266 1296',
+    0x2985: '494 -802Q434 -758 373 -694Q311 -630 256 -540Q200 -451 157 -333Q113 -216 88 -66Q62 84 62 270Q62 456 88 606Q113 756 157 874Q200 992 256 1081Q311 1170 373 1235Q434 1299 494 1343Q499 1336 505 1330Q511 1323 516 1315Q498 1299 474 1272Q450 1244 435 1224Q407 1175 381 1050Q355 925 339 729Q322 532 322 270Q322 9 339 -187Q355 -384 381 -509Q407 -634 435 -683Q450 -702 474 -730Q498 -758 516 -775Q511 -782 505 -788Q499 -795 494 -802ZM366 -612L370 -609Q351 -558 333 -501Q315 -444 299 -373Q283 -303 272 -212Q260 -121 253 -2Q246 116 246 270Q246 424 253 543Q260 662 272 753Q283 844 299 914Q315 984 333 1041Q351 1098 370 1149L366 1152Q328 1094 291 1013Q253 932 223 825Q192 717 174 579Q155 441 155 270Q155 99 174 -39Q192 -177 223 -284Q253 -392 291 -473Q328 -554 366 -612',
+    0x2986: '86 -802Q81 -795 75 -788Q69 -782 64 -775Q82 -758 106 -730Q130 -702 145 -683Q173 -634 199 -509Q225 -384 242 -187Q258 9 258 270Q258 532 242 729Q225 925 199 1050Q173 1175 145 1224Q130 1244 106 1272Q82 1299 64 1315Q69 1323 75 1330Q81 1336 86 1343Q146 1299 208 1235Q269 1170 325 1081Q380 992 424 874Q467 756 493 606Q518 456 518 270Q518 84 493 -66Q467 -216 424 -333Q380 -451 325 -540Q269 -630 208 -694Q146 -758 86 -802ZM210 -609L214 -612Q252 -554 290 -473Q327 -392 358 -284Q388 -177 407 -39Q425 99 425 270Q425 441 407 579Q388 717 358 825Q327 932 290 1013Q252 1094 214 1152L210 1149Q229 1098 247 1041Q265 984 281 914Q297 844 309 753Q320 662 327 543Q334 424 334 270Q334 116 327 -2Q320 -121 309 -212Q297 -303 281 -373Q265 -444 247 -501Q229 -558 210 -609',
+}, {});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size6 as font} from '../../../common/fonts/stix2/size6.js';
+
+export const size6: SVGCharMap = AddPaths(font, {
+    0x28: '73 270Q73 469 101 650Q129 830 179 985Q228 1139 294 1261Q360 1382 436 1462L463 1440Q392 1341 338 1213Q284 1084 248 933Q211 782 193 615Q174 447 174 270Q174 93 193 -74Q211 -242 248 -393Q284 -544 338 -672Q392 -801 463 -900L436 -922Q360 -842 294 -720Q228 -599 179 -444Q129 -290 101 -109Q73 71 73 270',
+    0x29: '423 270Q423 71 395 -109Q367 -290 318 -444Q268 -599 202 -720Q136 -842 60 -922L33 -900Q104 -801 158 -672Q212 -544 249 -393Q285 -242 304 -74Q322 93 322 270Q322 447 304 615Q285 782 249 933Q212 1084 158 1213Q104 1341 33 1440L60 1462Q136 1382 202 1261Q268 1139 318 985Q367 830 395 650Q423 469 423 270',
+    0x5B: '378 -923H115V1462H378V1418H211V-879H378',
+    0x5D: '354 -923H91V-879H258V1418H91V1462H354',
+    0x7B: '43 239V301Q92 306 120 323Q147 340 159 376Q170 411 170 469Q170 558 162 654Q154 750 143 846Q132 942 124 1029Q116 1116 116 1187Q116 1317 174 1387Q231 1457 370 1462V1418Q281 1412 245 1358Q209 1304 209 1206Q209 1140 217 1056Q224 971 234 880Q244 789 252 701Q259 613 259 541Q259 448 242 396Q225 343 196 317Q166 290 127 274V266Q166 250 196 224Q225 197 242 145Q259 92 259 -1Q259 -73 252 -161Q244 -249 234 -340Q224 -432 217 -516Q209 -601 209 -667Q209 -764 245 -818Q281 -873 370 -879V-923Q231 -918 174 -848Q116 -778 116 -648Q116 -577 124 -489Q132 -402 143 -306Q154 -211 162 -114Q170 -18 170 71Q170 130 159 165Q147 200 120 218Q92 235 43 239',
+    0x7D: '415 301V239Q366 235 339 218Q311 200 300 165Q288 130 288 71Q288 -18 296 -114Q304 -211 315 -306Q326 -402 334 -489Q342 -577 342 -648Q342 -778 285 -848Q227 -918 88 -923V-879Q177 -873 213 -818Q249 -764 249 -667Q249 -601 242 -516Q234 -432 224 -340Q214 -249 207 -161Q199 -73 199 -1Q199 92 216 145Q233 197 263 224Q293 250 331 266V274Q293 290 263 317Q233 343 216 396Q199 448 199 541Q199 613 207 701Q214 789 224 880Q234 971 242 1056Q249 1140 249 1206Q249 1304 213 1358Q177 1412 88 1418V1462Q227 1457 285 1387Q342 1317 342 1187Q342 1116 334 1029Q326 942 315 846Q304 750 296 654Q288 558 288 469Q288 411 300 376Q311 340 339 323Q366 306 415 301',
+    0x2308: '398 1418H211V-920H115V1462H398',
+    0x2309: '258 1418H71V1462H354V-920H258',
+    0x230A: '211 -876H398V-920H115V1462H211',
+    0x230B: '71 -876H258V1462H354V-920H71',
+    0x2772: '115 1180L399 1462H458L211 1153V-609L458 -920H399L115 -638',
+    0x2773: '109 1462L393 1180V-638L109 -920H50L297 -609V1153L50 1462',
+    0x27E6: '556 -920H115V1462H556V1418H398V-876H556ZM210 1418V-876H303V1418',
+    0x27E7: '561 -920H120V-876H278V1418H120V1462H561ZM466 -876V1418H373V-876',
+    0x27E8: '473 1463L149 270L473 -923H428L58 256V284L428 1463',
+    0x27E9: '359 270L35 1463H80L450 284V256L80 -923H35',
+    0x27EA: '768 1463L445 270L768 -923H723L353 256V284L723 1463ZM473 1463L149 270L473 -923H428L58 256V284L428 1463',
+    0x27EB: '358 270L35 1463H80L450 284V256L80 -923H35ZM654 270L330 1463H375L745 284V256L375 -923H330',
+    0x2983: '43 239V301Q92 306 120 323Q147 340 159 376Q170 411 170 469Q170 558 163 654Q156 750 147 846Q137 942 130 1029Q123 1116 123 1187Q123 1317 184 1387Q244 1457 383 1462H524V1418H421V-879H524V-923H383Q244 -918 184 -847Q123 -777 123 -647Q123 -576 130 -489Q137 -402 147 -306Q156 -210 163 -114Q170 -18 170 71Q170 130 159 165Q147 200 120 218Q92 235 43 239ZM349 -874V1414Q278 1399 247 1347Q215 1294 215 1206Q215 1140 222 1056Q228 971 237 880Q245 789 252 701Q258 613 258 541Q258 448 242 396Q225 343 196 317Q166 290 127 274V266Q166 250 196 224Q225 197 242 145Q258 92 258 -1Q258 -73 252 -161Q245 -249 237 -340Q228 -431 222 -515Q215 -600 215 -666Q215 -754 247 -807Q278 -860 349 -874',
+    0x2984: '588 301V239Q539 235 512 218Q484 200 473 165Q461 130 461 71Q461 -18 468 -114Q475 -210 485 -306Q494 -402 501 -489Q508 -576 508 -647Q508 -777 448 -847Q388 -918 248 -923H107V-879H210V1418H107V1462H248Q388 1457 448 1387Q508 1317 508 1187Q508 1116 501 1029Q494 942 485 846Q475 750 468 654Q461 558 461 469Q461 411 473 376Q484 340 512 323Q539 306 588 301ZM282 -874Q353 -860 385 -807Q416 -754 416 -666Q416 -600 410 -515Q403 -431 395 -340Q386 -249 380 -161Q373 -73 373 -1Q373 92 390 145Q406 197 436 224Q466 250 504 266V274Q466 290 436 317Q406 343 390 396Q373 448 373 541Q373 613 380 701Q386 789 395 880Q403 971 410 1056Q416 1140 416 1206Q416 1294 385 1347Q353 1399 282 1414',
+    0x2985: '515 -922Q454 -874 391 -803Q327 -732 270 -633Q212 -535 167 -404Q121 -273 95 -106Q68 61 68 270Q68 479 95 647Q121 814 167 945Q212 1076 270 1175Q327 1273 391 1344Q454 1415 515 1463Q521 1456 527 1450Q533 1443 539 1435Q527 1423 511 1405Q494 1386 479 1367Q464 1348 454 1333Q426 1280 399 1139Q372 998 355 779Q337 560 337 271Q337 -18 355 -238Q372 -458 399 -598Q426 -739 454 -793Q464 -807 479 -826Q494 -846 511 -864Q527 -883 539 -895ZM383 -714L388 -711Q369 -654 350 -591Q331 -528 315 -450Q298 -372 286 -270Q273 -169 266 -36Q259 97 259 271Q259 444 266 577Q273 710 286 812Q298 913 315 991Q331 1069 350 1132Q369 1195 388 1252L383 1255Q344 1190 305 1100Q266 1009 234 889Q202 769 183 616Q164 462 164 271Q164 79 183 -74Q202 -228 234 -348Q266 -468 305 -558Q344 -649 383 -714',
+    0x2986: '88 -922L64 -895Q77 -883 93 -864Q109 -846 124 -826Q139 -807 149 -793Q178 -739 205 -598Q231 -458 249 -238Q266 -18 266 271Q266 560 249 779Q231 998 205 1139Q178 1280 149 1333Q139 1348 124 1367Q109 1386 93 1405Q77 1423 64 1435Q70 1443 76 1450Q82 1456 88 1463Q149 1415 213 1344Q276 1273 334 1175Q391 1076 437 945Q482 814 509 647Q535 479 535 270Q535 61 509 -106Q482 -273 437 -404Q391 -535 334 -633Q276 -732 213 -803Q149 -874 88 -922ZM215 -711L220 -714Q259 -649 298 -558Q337 -468 369 -348Q401 -228 420 -74Q439 79 439 271Q439 462 420 616Q401 769 369 889Q337 1009 298 1100Q259 1190 220 1255L215 1252Q235 1195 254 1132Q272 1069 289 991Q305 913 318 812Q330 710 337 577Q344 444 344 271Q344 97 337 -36Q330 -169 318 -270Q305 -372 289 -450Q272 -528 254 -591Q235 -654 215 -711',
+}, {});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size7 as font} from '../../../common/fonts/stix2/size7.js';
+
+export const size7: SVGCharMap = AddPaths(font, {
+    0x28: '77 270Q77 488 107 687Q136 885 188 1055Q240 1225 309 1360Q378 1494 457 1582L486 1560Q412 1451 355 1309Q298 1167 260 1000Q221 833 202 649Q182 464 182 270Q182 77 202 -108Q221 -293 260 -460Q298 -627 355 -769Q412 -911 486 -1020L457 -1042Q378 -953 309 -819Q240 -685 188 -515Q136 -345 107 -146Q77 53 77 270',
+    0x29: '442 270Q442 53 413 -146Q383 -345 331 -515Q279 -685 210 -819Q141 -953 62 -1042L33 -1020Q107 -911 164 -769Q221 -627 260 -460Q298 -293 318 -108Q337 77 337 270Q337 464 318 649Q298 833 260 1000Q221 1167 164 1309Q107 1451 33 1560L62 1582Q141 1494 210 1360Q279 1225 331 1055Q383 885 413 687Q442 488 442 270',
+    0x5B: '392 -1043H119V1582H392V1536H218V-997H392',
+    0x5D: '369 -1043H96V-997H270V1536H96V1582H369',
+    0x7B: '45 238V302Q99 307 128 326Q157 345 168 384Q179 423 179 486Q179 587 170 694Q161 801 149 907Q137 1013 128 1110Q119 1206 119 1285Q119 1377 144 1442Q169 1506 227 1542Q285 1578 385 1582V1536Q320 1531 283 1503Q246 1474 231 1424Q216 1374 216 1305Q216 1246 222 1174Q227 1101 235 1021Q243 941 252 860Q260 779 266 703Q271 627 271 563Q271 487 261 437Q251 386 233 355Q214 324 189 306Q163 287 133 274V266Q163 253 189 235Q214 216 233 185Q251 154 261 104Q271 54 271 -23Q271 -87 266 -163Q260 -239 252 -320Q244 -402 236 -482Q227 -562 222 -634Q216 -707 216 -766Q216 -835 231 -885Q246 -935 283 -963Q320 -992 385 -997V-1043Q285 -1039 227 -1003Q169 -967 144 -902Q119 -837 119 -746Q119 -667 128 -570Q137 -474 149 -368Q161 -262 170 -154Q179 -46 179 54Q179 117 168 156Q157 195 128 215Q99 234 45 238',
+    0x7D: '435 302V238Q381 234 352 215Q323 195 312 156Q301 117 301 54Q301 -46 310 -154Q319 -262 331 -368Q343 -474 352 -570Q361 -667 361 -746Q361 -837 336 -902Q311 -967 253 -1003Q195 -1039 95 -1043V-997Q160 -992 197 -963Q234 -935 249 -885Q264 -835 264 -766Q264 -707 259 -634Q253 -562 245 -482Q237 -402 229 -320Q220 -239 215 -163Q209 -87 209 -23Q209 54 219 104Q229 154 248 185Q266 216 292 235Q317 253 347 266V274Q317 287 292 306Q266 324 248 355Q229 386 219 437Q209 487 209 563Q209 627 215 703Q220 779 228 860Q236 941 245 1021Q253 1101 259 1174Q264 1246 264 1305Q264 1374 249 1424Q234 1474 197 1503Q160 1531 95 1536V1582Q195 1578 253 1542Q311 1506 336 1442Q361 1377 361 1285Q361 1206 352 1110Q343 1013 331 907Q319 801 310 694Q301 587 301 486Q301 423 312 384Q323 345 352 326Q381 307 435 302',
+    0x2308: '412 1536H218V-1040H119V1582H412',
+    0x2309: '270 1536H76V1582H369V-1040H270',
+    0x230A: '218 -994H412V-1040H119V1582H218',
+    0x230B: '76 -994H270V1582H369V-1040H76',
+    0x2772: '119 1284L417 1582H478L217 1257V-713L478 -1040H417L119 -743',
+    0x2773: '114 1582L412 1284V-743L114 -1040H53L314 -713V1257L53 1582',
+    0x27E6: '573 -1040H119V1582H573V1536H411V-994H573ZM217 1536V-994H313V1536',
+    0x27E7: '586 -1040H132V-994H294V1536H132V1582H586ZM488 -994V1536H392V-994',
+    0x27E8: '502 1583L155 270L502 -1043H455L60 255V285L455 1583',
+    0x27E9: '381 270L34 1583H81L476 285V255L81 -1043H34',
+    0x27EA: '502 1583L155 270L502 -1043H455L60 255V285L455 1583ZM811 1583L465 270L811 -1043H765L370 255V285L765 1583',
+    0x27EB: '690 270L343 1583H390L785 285V255L390 -1043H343ZM380 270L34 1583H80L475 285V255L80 -1043H34',
+    0x2983: '45 238V302Q99 307 128 326Q157 345 168 384Q179 423 179 486Q179 587 171 694Q163 801 153 907Q143 1013 135 1110Q127 1206 127 1285Q127 1377 153 1442Q179 1506 239 1542Q298 1578 398 1582H546V1536H439V-997H546V-1043H398Q298 -1039 239 -1003Q179 -967 153 -901Q127 -836 127 -745Q127 -666 135 -569Q143 -473 153 -367Q163 -261 171 -153Q179 -46 179 54Q179 117 168 156Q157 195 128 215Q99 234 45 238ZM364 -992V1531Q287 1515 255 1457Q223 1399 223 1305Q223 1232 230 1138Q237 1043 247 941Q256 839 263 741Q270 643 270 563Q270 487 260 437Q250 386 232 355Q214 324 189 306Q163 287 133 274V266Q163 253 189 235Q214 216 232 185Q250 154 260 104Q270 54 270 -23Q270 -103 263 -201Q256 -299 247 -401Q237 -503 230 -597Q223 -692 223 -766Q223 -860 255 -918Q287 -976 364 -992',
+    0x2984: '618 302V238Q564 234 535 215Q506 195 495 156Q484 117 484 54Q484 -46 492 -153Q500 -261 510 -367Q520 -473 528 -569Q536 -666 536 -745Q536 -836 510 -901Q484 -967 425 -1003Q365 -1039 265 -1043H117V-997H224V1536H117V1582H265Q365 1578 425 1542Q484 1506 510 1442Q536 1377 536 1285Q536 1206 528 1110Q520 1013 510 907Q500 801 492 694Q484 587 484 486Q484 423 495 384Q506 345 535 326Q564 307 618 302ZM299 -992Q376 -976 408 -918Q440 -860 440 -766Q440 -692 433 -597Q426 -503 417 -401Q407 -299 400 -201Q393 -103 393 -23Q393 54 403 104Q413 154 431 185Q449 216 475 235Q500 253 530 266V274Q500 287 475 306Q449 324 431 355Q413 386 403 437Q393 487 393 563Q393 643 400 741Q407 839 417 941Q426 1043 433 1138Q440 1232 440 1305Q440 1399 408 1457Q376 1515 299 1531',
+    0x2985: '535 -1042Q473 -990 408 -912Q343 -835 284 -727Q224 -619 177 -475Q129 -331 101 -146Q73 39 73 270Q73 502 101 687Q129 871 177 1015Q224 1159 284 1268Q343 1376 408 1454Q473 1531 535 1583Q542 1576 549 1570Q555 1563 561 1556Q548 1543 532 1523Q515 1502 500 1481Q484 1459 473 1443Q444 1385 416 1229Q388 1072 370 830Q352 588 352 271Q352 -46 370 -289Q388 -532 416 -688Q444 -844 473 -903Q484 -919 500 -940Q515 -961 532 -981Q548 -1001 561 -1015Q555 -1022 549 -1028Q542 -1035 535 -1042ZM400 -817L406 -814Q386 -751 367 -682Q347 -613 330 -527Q312 -441 299 -329Q286 -217 279 -69Q271 78 271 271Q271 464 279 611Q286 758 299 870Q312 982 330 1068Q347 1153 367 1222Q386 1291 406 1354L400 1357Q360 1285 320 1186Q279 1086 246 954Q212 821 192 652Q172 482 172 271Q172 60 192 -110Q212 -280 246 -413Q279 -546 320 -645Q360 -745 400 -817',
+    0x2986: '90 -1042Q83 -1035 77 -1028Q70 -1022 64 -1015Q77 -1001 94 -981Q110 -961 126 -940Q142 -919 152 -903Q181 -844 209 -688Q237 -532 255 -289Q273 -46 273 271Q273 588 255 830Q237 1072 209 1229Q181 1385 152 1443Q142 1459 126 1481Q110 1502 94 1523Q77 1543 64 1556Q70 1563 77 1570Q83 1576 90 1583Q152 1531 217 1454Q282 1376 342 1268Q401 1159 449 1015Q496 871 524 687Q552 502 552 270Q552 39 524 -146Q496 -331 449 -475Q401 -619 342 -727Q282 -835 217 -912Q152 -990 90 -1042ZM219 -814L225 -817Q266 -745 306 -645Q346 -546 380 -413Q413 -280 433 -110Q453 60 453 271Q453 482 433 652Q413 821 380 954Q346 1086 306 1186Q266 1285 225 1357L219 1354Q239 1291 259 1222Q278 1153 296 1068Q313 982 326 870Q339 758 347 611Q354 464 354 271Q354 78 347 -69Q339 -217 326 -329Q313 -441 296 -527Q278 -613 259 -682Q239 -751 219 -814',
+}, {});
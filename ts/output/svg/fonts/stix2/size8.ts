@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size8 as font} from '../../../common/fonts/stix2/size8.js';
+
+export const size8: SVGCharMap = AddPaths(font, {
+    0x28: '82 270Q82 507 113 724Q144 940 199 1127Q253 1313 325 1460Q396 1606 477 1702L508 1681Q431 1562 372 1406Q313 1249 273 1066Q232 883 211 682Q190 480 190 270Q190 60 211 -141Q232 -343 273 -526Q313 -709 372 -865Q431 -1022 508 -1141L477 -1162Q396 -1066 325 -919Q253 -773 199 -586Q144 -400 113 -183Q82 33 82 270',
+    0x29: '460 270Q460 33 429 -183Q398 -400 344 -586Q289 -773 218 -919Q146 -1066 65 -1162L34 -1141Q111 -1022 170 -865Q229 -709 270 -526Q310 -343 331 -141Q352 60 352 270Q352 480 331 682Q310 883 270 1066Q229 1249 170 1406Q111 1562 34 1681L65 1702Q146 1606 218 1460Q289 1313 344 1127Q398 940 429 724Q460 507 460 270',
+    0x5B: '405 -1163H123V1702H405V1654H224V-1115H405',
+    0x5D: '385 -1163H103V-1115H284V1654H103V1702H385',
+    0x7B: '48 237V303Q106 308 137 330Q167 351 178 393Q189 435 189 503Q189 615 179 734Q169 852 156 969Q142 1085 132 1191Q122 1296 122 1383Q122 1480 147 1550Q171 1619 232 1659Q293 1698 400 1702V1654Q330 1649 292 1617Q253 1585 238 1531Q222 1477 222 1404Q222 1339 228 1259Q234 1179 244 1091Q253 1002 262 913Q271 823 277 739Q283 655 283 584Q283 501 273 447Q262 393 243 360Q223 326 197 307Q170 288 138 274V266Q170 253 197 234Q223 214 243 181Q262 147 273 93Q283 39 283 -44Q283 -115 277 -199Q271 -283 262 -372Q253 -462 244 -550Q234 -639 228 -719Q222 -800 222 -865Q222 -938 238 -992Q253 -1046 292 -1077Q330 -1109 400 -1115V-1163Q293 -1158 232 -1119Q171 -1080 147 -1010Q122 -940 122 -844Q122 -757 132 -651Q142 -545 156 -429Q169 -313 179 -194Q189 -75 189 37Q189 105 178 148Q167 190 137 211Q106 232 48 237',
+    0x7D: '453 303V237Q395 232 365 211Q334 190 323 148Q312 105 312 37Q312 -75 322 -194Q332 -313 346 -429Q359 -545 369 -651Q379 -757 379 -844Q379 -940 355 -1010Q330 -1080 270 -1119Q209 -1158 101 -1163V-1115Q171 -1109 210 -1077Q248 -1046 264 -992Q279 -938 279 -865Q279 -800 273 -719Q267 -639 258 -550Q249 -462 240 -372Q230 -283 224 -199Q218 -115 218 -44Q218 39 229 93Q239 147 259 181Q278 214 305 234Q331 253 363 266V274Q331 288 305 307Q278 326 259 360Q239 393 229 447Q218 501 218 584Q218 655 224 739Q230 823 240 913Q249 1002 258 1091Q267 1179 273 1259Q279 1339 279 1404Q279 1477 264 1531Q248 1585 210 1617Q171 1649 101 1654V1702Q209 1698 270 1659Q330 1619 355 1550Q379 1480 379 1383Q379 1296 369 1191Q359 1085 346 969Q332 852 322 734Q312 615 312 503Q312 435 323 393Q334 351 365 330Q395 308 453 303',
+    0x2308: '425 1654H224V-1161H123V1702H425',
+    0x2309: '284 1654H83V1702H385V-1161H284',
+    0x230A: '224 -1113H425V-1161H123V1702H224',
+    0x230B: '83 -1113H284V1702H385V-1161H83',
+    0x2772: '123 1388L434 1702H497L224 1360V-817L497 -1161H434L123 -848',
+    0x2773: '120 1702L431 1388V-848L120 -1161H57L330 -817V1360L57 1702',
+    0x27E6: '590 -1161H123V1702H590V1654H423V-1113H590ZM224 1654V-1113H323V1654',
+    0x27E7: '610 -1161H143V-1113H310V1654H143V1702H610ZM509 -1113V1654H410V-1113',
+    0x27E8: '530 1703L161 270L530 -1163H483L63 255V285L483 1703',
+    0x27E9: '403 270L34 1703H81L501 285V255L81 -1163H34',
+    0x27EA: '854 1703L485 270L854 -1163H806L387 255V285L806 1703ZM530 1703L161 270L530 -1163H483L63 255V285L483 1703',
+    0x27EB: '402 270L33 1703H81L500 285V255L81 -1163H33ZM726 270L357 1703H404L824 285V255L404 -1163H357',
+    0x2983: '48 237V303Q106 308 137 330Q167 351 178 393Q189 435 189 503Q189 615 180 734Q171 852 160 969Q149 1085 140 1191Q131 1296 131 1383Q131 1480 157 1550Q183 1619 245 1659Q307 1698 414 1702H568V1654H456V-1115H568V-1163H414Q307 -1158 245 -1118Q183 -1079 157 -1009Q131 -940 131 -844Q131 -757 140 -651Q149 -545 160 -429Q171 -313 180 -194Q189 -75 189 37Q189 105 178 148Q167 190 137 211Q106 232 48 237ZM379 -1110V1649Q295 1632 263 1568Q230 1504 230 1404Q230 1339 236 1259Q241 1179 249 1091Q256 1002 264 913Q271 823 277 739Q282 655 282 584Q282 501 272 447Q261 393 242 360Q223 326 197 307Q170 288 138 274V266Q170 253 197 234Q223 214 242 181Q261 147 272 93Q282 39 282 -44Q282 -115 277 -199Q271 -283 264 -372Q256 -462 249 -550Q241 -639 236 -719Q230 -800 230 -865Q230 -965 263 -1028Q295 -1092 379 -1110',
+    0x2984: '646 303V237Q588 232 558 211Q527 190 516 148Q505 105 505 37Q505 -75 514 -194Q523 -313 534 -429Q545 -545 554 -651Q563 -757 563 -844Q563 -940 537 -1009Q511 -1079 450 -1118Q388 -1158 280 -1163H126V-1115H238V1654H126V1702H280Q388 1698 450 1659Q511 1619 537 1550Q563 1480 563 1383Q563 1296 554 1191Q545 1085 534 969Q523 852 514 734Q505 615 505 503Q505 435 516 393Q527 351 558 330Q588 308 646 303ZM315 -1110Q399 -1092 432 -1028Q464 -965 464 -865Q464 -800 459 -719Q453 -639 446 -550Q438 -462 431 -372Q423 -283 418 -199Q412 -115 412 -44Q412 39 423 93Q433 147 452 181Q471 214 498 234Q524 253 556 266V274Q524 288 498 307Q471 326 452 360Q433 393 423 447Q412 501 412 584Q412 655 418 739Q423 823 431 913Q438 1002 446 1091Q453 1179 459 1259Q464 1339 464 1404Q464 1504 432 1568Q399 1632 315 1649',
+    0x2985: '556 -1162Q493 -1105 426 -1021Q359 -937 297 -819Q235 -702 186 -545Q136 -388 107 -186Q78 16 78 270Q78 524 107 727Q136 929 186 1086Q235 1243 297 1361Q359 1478 426 1562Q493 1646 556 1703Q563 1696 570 1690Q576 1683 583 1676Q570 1662 553 1640Q535 1617 519 1594Q503 1571 492 1553Q470 1505 448 1396Q426 1287 408 1123Q389 958 378 744Q367 529 367 271Q367 12 378 -202Q389 -417 408 -581Q426 -746 448 -855Q470 -964 492 -1012Q503 -1030 519 -1053Q535 -1076 553 -1098Q570 -1120 583 -1135ZM418 -919L424 -916Q403 -848 383 -772Q363 -697 345 -603Q327 -510 314 -387Q300 -265 292 -103Q284 58 284 271Q284 483 292 645Q300 807 314 929Q327 1051 345 1145Q363 1238 383 1314Q403 1389 424 1457L418 1460Q376 1382 334 1273Q292 1163 258 1018Q223 873 202 688Q181 502 181 271Q181 40 202 -146Q223 -332 258 -477Q292 -622 334 -731Q376 -841 418 -919',
+    0x2986: '92 -1162L65 -1135Q78 -1120 96 -1098Q113 -1076 130 -1053Q146 -1030 156 -1012Q178 -964 200 -855Q222 -746 241 -581Q259 -417 270 -202Q281 12 281 271Q281 529 270 744Q259 958 241 1123Q222 1287 200 1396Q178 1505 156 1553Q146 1571 130 1594Q113 1617 96 1640Q78 1662 65 1676Q72 1683 79 1690Q85 1696 92 1703Q155 1646 222 1562Q289 1478 351 1361Q413 1243 463 1086Q512 929 541 727Q570 524 570 270Q570 16 541 -186Q512 -388 463 -545Q413 -702 351 -819Q289 -937 222 -1021Q155 -1105 92 -1162ZM224 -916L230 -919Q272 -841 314 -731Q356 -622 391 -477Q425 -332 446 -146Q467 40 467 271Q467 502 446 688Q425 873 391 1018Q356 1163 314 1273Q272 1382 230 1460L224 1457Q245 1389 265 1314Q285 1238 303 1145Q321 1051 335 929Q348 807 356 645Q364 483 364 271Q364 58 356 -103Q348 -265 335 -387Q321 -510 303 -603Q285 -697 265 -772Q245 -848 224 -916',
+}, {});
@@ -0,0 +1,35 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {size9 as font} from '../../../common/fonts/stix2/size9.js';
+
+export const size9: SVGCharMap = AddPaths(font, {
+    0x28: '86 270Q86 525 119 760Q151 994 208 1196Q265 1398 340 1557Q414 1716 498 1820L531 1800Q451 1671 389 1501Q327 1331 285 1132Q242 933 220 715Q198 497 198 270Q198 44 220 -174Q242 -393 285 -592Q327 -791 389 -961Q451 -1131 531 -1260L498 -1280Q414 -1176 340 -1017Q265 -858 208 -656Q151 -454 119 -219Q86 15 86 270',
+    0x29: '478 270Q478 15 446 -219Q413 -454 356 -656Q299 -858 225 -1017Q150 -1176 66 -1280L33 -1260Q113 -1131 175 -961Q237 -791 280 -592Q322 -393 344 -174Q366 44 366 270Q366 497 344 715Q322 933 280 1132Q237 1331 175 1501Q113 1671 33 1800L66 1820Q150 1716 225 1557Q299 1398 356 1196Q413 994 446 760Q478 525 478 270',
+    0x5B: '418 -1281H128V1820H418V1770H231V-1231H418',
+    0x5D: '400 -1281H110V-1231H297V1770H110V1820H400',
+    0x7B: '51 236V304Q114 309 146 333Q177 356 188 402Q198 447 198 519Q198 643 187 773Q176 903 162 1030Q147 1156 136 1271Q125 1386 125 1480Q125 1581 150 1656Q174 1730 237 1773Q300 1815 414 1820V1770Q339 1764 299 1730Q259 1695 244 1638Q229 1580 229 1503Q229 1432 236 1344Q242 1255 252 1159Q262 1062 272 964Q282 866 289 775Q295 683 295 606Q295 517 284 459Q273 401 253 366Q233 330 206 310Q178 289 144 274V266Q178 251 206 231Q233 210 253 175Q273 139 284 81Q295 23 295 -66Q295 -143 289 -234Q282 -326 272 -424Q262 -522 252 -619Q242 -716 236 -804Q229 -893 229 -964Q229 -1040 244 -1098Q259 -1156 299 -1190Q339 -1225 414 -1231V-1281Q300 -1276 237 -1233Q174 -1191 150 -1116Q125 -1042 125 -941Q125 -846 136 -731Q147 -616 162 -489Q176 -363 187 -233Q198 -103 198 21Q198 93 188 139Q177 184 146 208Q114 231 51 236',
+    0x7D: '472 304V236Q410 231 378 208Q346 184 336 139Q325 93 325 21Q325 -103 336 -233Q347 -363 362 -489Q376 -616 387 -731Q398 -846 398 -941Q398 -1042 374 -1116Q349 -1191 287 -1233Q224 -1276 109 -1281V-1231Q184 -1225 224 -1190Q264 -1156 279 -1098Q294 -1040 294 -964Q294 -893 288 -804Q281 -716 271 -619Q261 -522 251 -424Q241 -326 235 -234Q228 -143 228 -66Q228 23 239 81Q250 139 270 175Q290 210 318 231Q345 251 379 266V274Q345 289 318 310Q290 330 270 366Q250 401 239 459Q228 517 228 606Q228 683 235 775Q241 866 251 964Q261 1062 271 1159Q281 1255 288 1344Q294 1432 294 1503Q294 1580 279 1638Q264 1695 224 1730Q184 1764 109 1770V1820Q224 1815 287 1773Q349 1730 374 1656Q398 1581 398 1480Q398 1386 387 1271Q376 1156 362 1030Q347 903 336 773Q325 643 325 519Q325 447 336 402Q346 356 378 333Q410 309 472 304',
+    0x2308: '438 1770H231V-1280H128V1820H438',
+    0x2309: '297 1770H90V1820H400V-1280H297',
+    0x230A: '231 -1230H438V-1280H128V1820H231',
+    0x230B: '90 -1230H297V1820H400V-1280H90',
+    0x2772: '127 1491L452 1820H517L231 1462V-919L517 -1280H452L127 -951',
+    0x2773: '125 1820L450 1491V-951L125 -1280H60L346 -919V1462L60 1820',
+    0x27E6: '607 -1280H128V1820H607V1770H435V-1230H607ZM231 1770V-1230H332V1770',
+    0x27E7: '634 -1280H155V-1230H327V1770H155V1820H634ZM531 -1230V1770H430V-1230',
+    0x27E8: '559 1821L168 270L559 -1281H510L66 254V286L510 1821',
+    0x27E9: '423 270L32 1821H81L525 286V254L81 -1281H32',
+    0x27EA: '559 1821L168 270L559 -1281H510L66 254V286L510 1821ZM897 1821L505 270L897 -1281H848L404 254V286L848 1821',
+    0x27EB: '761 270L370 1821H419L863 286V254L419 -1281H370ZM424 270L32 1821H81L525 286V254L81 -1281H32',
+    0x2983: '51 236V304Q114 309 146 333Q177 356 188 402Q198 447 198 519Q198 643 189 773Q179 903 167 1030Q155 1156 146 1271Q136 1386 136 1480Q136 1581 162 1656Q188 1730 252 1773Q316 1815 430 1820H590V1770H474V-1232H590V-1281H430Q316 -1276 252 -1233Q188 -1191 162 -1116Q136 -1042 136 -941Q136 -846 146 -731Q155 -616 167 -489Q179 -363 189 -233Q198 -103 198 21Q198 93 188 139Q177 184 146 208Q114 231 51 236ZM395 -1226V1765Q334 1753 300 1718Q266 1682 252 1628Q238 1573 238 1503Q238 1432 244 1344Q249 1255 258 1159Q266 1062 275 964Q283 866 289 775Q294 683 294 606Q294 517 284 459Q273 401 253 366Q233 330 206 310Q178 289 144 274V266Q178 251 206 231Q233 210 253 175Q273 139 284 81Q294 23 294 -66Q294 -143 289 -234Q283 -326 275 -424Q266 -522 258 -619Q249 -716 244 -804Q238 -892 238 -963Q238 -1033 252 -1087Q266 -1142 300 -1177Q334 -1213 395 -1226',
+    0x2984: '675 304V236Q613 231 581 208Q549 184 539 139Q528 93 528 21Q528 -103 538 -233Q547 -363 559 -489Q571 -616 581 -731Q590 -846 590 -941Q590 -1042 564 -1116Q538 -1191 475 -1233Q411 -1276 296 -1281H136V-1232H252V1770H136V1820H296Q411 1815 475 1773Q538 1730 564 1656Q590 1581 590 1480Q590 1386 581 1271Q571 1156 559 1030Q547 903 538 773Q528 643 528 519Q528 447 539 402Q549 356 581 333Q613 309 675 304ZM331 -1226Q392 -1213 426 -1177Q460 -1142 474 -1087Q488 -1033 488 -963Q488 -892 483 -804Q477 -716 469 -619Q460 -522 452 -424Q443 -326 438 -234Q432 -143 432 -66Q432 23 443 81Q453 139 473 175Q493 210 521 231Q548 251 582 266V274Q548 289 521 310Q493 330 473 366Q453 401 443 459Q432 517 432 606Q432 683 438 775Q443 866 452 964Q460 1062 469 1159Q477 1255 483 1344Q488 1432 488 1503Q488 1573 474 1628Q460 1682 426 1718Q392 1753 331 1765',
+    0x2985: '577 -1280Q513 -1219 445 -1129Q376 -1039 312 -912Q247 -785 196 -615Q145 -445 115 -225Q84 -6 84 270Q84 547 115 767Q145 986 196 1156Q247 1326 312 1453Q376 1580 445 1670Q513 1760 577 1821Q584 1814 592 1808Q599 1802 606 1794Q592 1779 574 1755Q556 1731 539 1706Q522 1681 511 1662Q489 1611 466 1492Q443 1373 424 1194Q405 1015 394 783Q382 550 382 271Q382 -8 394 -240Q405 -473 424 -652Q443 -832 466 -951Q489 -1070 511 -1121Q522 -1140 539 -1165Q556 -1190 574 -1214Q592 -1238 606 -1254Q599 -1261 592 -1267Q584 -1273 577 -1280ZM435 -1020L442 -1017Q421 -943 400 -862Q379 -781 360 -680Q341 -579 327 -446Q312 -313 304 -137Q296 39 296 271Q296 503 304 679Q312 854 327 987Q341 1120 360 1221Q379 1322 400 1403Q421 1484 442 1558L435 1561Q392 1476 349 1358Q305 1239 269 1082Q233 924 211 723Q189 522 189 271Q189 20 211 -181Q233 -383 269 -541Q305 -699 349 -817Q392 -935 435 -1020',
+    0x2986: '93 -1280Q86 -1273 79 -1267Q72 -1261 64 -1254Q78 -1238 96 -1214Q114 -1190 131 -1165Q148 -1140 159 -1121Q181 -1070 204 -951Q227 -832 246 -652Q265 -473 277 -240Q288 -8 288 271Q288 550 277 783Q265 1015 246 1194Q227 1373 204 1492Q181 1611 159 1662Q148 1681 131 1706Q114 1731 96 1755Q78 1779 64 1794Q72 1802 79 1808Q86 1814 93 1821Q157 1760 226 1670Q294 1580 359 1453Q423 1326 474 1156Q525 986 556 767Q586 547 586 270Q586 -6 556 -225Q525 -445 474 -615Q423 -785 359 -912Q294 -1039 226 -1129Q157 -1219 93 -1280ZM228 -1017L235 -1020Q278 -935 322 -817Q365 -699 401 -541Q437 -383 459 -181Q481 20 481 271Q481 522 459 723Q437 924 401 1082Q365 1239 322 1358Q278 1476 235 1561L228 1558Q249 1484 270 1403Q291 1322 310 1221Q329 1120 344 987Q358 854 366 679Q374 503 374 271Q374 39 366 -137Q358 -313 344 -446Q329 -579 310 -680Q291 -781 270 -862Q249 -943 228 -1017',
+}, {});
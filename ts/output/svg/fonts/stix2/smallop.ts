@@ -0,0 +1,60 @@
+/*************************************************************
+ *
+ *  Generated by mathjax-font from STIX Two Math Regular (Version 2.12 b168a)
+ *
+ *  Copyright 2001-2021 The STIX Fonts Project Authors (https://github.com/stipub/stixfonts)
+ *
+ *  Regenerate this file from the font rather than editing it.
+ */
+import {SVGCharMap, AddPaths} from '../../FontData.js';
+import {smallop as font} from '../../../common/fonts/stix2/smallop.js';
+
+export const smallop: SVGCharMap = AddPaths(font, {
+    0x220F: '65 744V782H1070V744Q1016 744 985 737Q953 730 938 714Q922 697 918 667Q913 637 913 591V-55Q913 -109 919 -140Q925 -171 942 -186Q958 -201 989 -205Q1020 -210 1070 -210V-248H651V-210Q696 -210 725 -206Q754 -202 770 -187Q785 -173 791 -141Q797 -110 797 -55V729H336V-57Q336 -108 341 -138Q346 -169 361 -184Q375 -200 405 -205Q434 -210 483 -210V-248H65V-210Q115 -210 146 -205Q176 -201 192 -186Q208 -171 214 -141Q219 -112 219 -61V594Q219 656 208 689Q197 721 164 733Q131 744 65 744',
+    0x2210: '65 -248V-210Q131 -210 164 -198Q197 -187 208 -154Q219 -122 219 -60V595Q219 646 214 676Q208 705 192 720Q176 735 146 740Q115 744 65 744V782H483V744Q434 744 405 739Q375 734 361 719Q346 703 341 673Q336 642 336 591V-195H797V589Q797 644 791 676Q785 707 770 722Q754 736 725 740Q696 744 651 744V782H1070V744Q1020 744 989 740Q958 735 942 720Q925 705 919 674Q913 643 913 589V-57Q913 -103 918 -133Q922 -163 938 -179Q953 -196 985 -203Q1016 -210 1070 -210V-248',
+    0x2211: '861 70L800 -248H62V-224L449 282L69 758V782H817L828 532H789Q778 616 751 658Q724 700 679 715Q633 729 566 729H237V725L545 334V315L196 -145V-150H621Q684 -150 720 -123Q756 -97 779 -47Q801 2 821 70',
+    0x222B: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q423 454 414 399Q404 344 395 292Q375 182 350 88Q325 -7 293 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x222C: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM910 671V677Q910 677 903 680Q895 683 876 683Q848 683 828 660Q808 636 793 596Q778 555 767 505Q756 454 747 399Q737 344 727 292Q708 182 683 88Q658 -7 626 -77Q593 -148 553 -187Q512 -226 461 -226Q408 -226 385 -199Q362 -172 362 -141Q362 -106 380 -87Q397 -69 420 -69Q440 -69 450 -80Q459 -92 459 -111Q459 -132 453 -146Q446 -160 436 -174V-181Q436 -181 442 -184Q447 -187 460 -187Q493 -187 516 -150Q539 -114 555 -52Q571 10 585 88Q599 165 614 246Q626 310 642 378Q657 446 679 508Q700 570 730 620Q759 669 800 698Q840 727 894 727Q931 727 959 706Q986 685 986 642Q986 604 964 585Q942 566 919 566Q880 566 880 610Q880 644 910 671',
+    0x222D: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM910 671V677Q910 677 903 680Q895 683 876 683Q848 683 828 660Q808 636 793 596Q778 555 767 505Q756 454 747 399Q737 344 727 292Q708 182 683 88Q658 -7 626 -77Q593 -148 553 -187Q512 -226 461 -226Q408 -226 385 -199Q362 -172 362 -141Q362 -106 380 -87Q397 -69 420 -69Q440 -69 450 -80Q459 -92 459 -111Q459 -132 453 -146Q446 -160 436 -174V-181Q436 -181 442 -184Q447 -187 460 -187Q493 -187 516 -150Q539 -114 555 -52Q571 10 585 88Q599 165 614 246Q626 310 642 378Q657 446 679 508Q700 570 730 620Q759 669 800 698Q840 727 894 727Q931 727 959 706Q986 685 986 642Q986 604 964 585Q942 566 919 566Q880 566 880 610Q880 644 910 671ZM1242 671V677Q1242 677 1235 680Q1227 683 1208 683Q1180 683 1160 660Q1140 636 1125 596Q1110 555 1099 505Q1088 454 1079 399Q1069 344 1059 292Q1040 182 1015 88Q990 -7 958 -77Q925 -148 885 -187Q844 -226 793 -226Q740 -226 717 -199Q694 -172 694 -141Q694 -106 712 -87Q729 -69 752 -69Q772 -69 782 -80Q791 -92 791 -111Q791 -132 785 -146Q778 -160 768 -174V-181Q768 -181 774 -184Q779 -187 792 -187Q825 -187 848 -150Q871 -114 887 -52Q903 10 917 88Q931 165 946 246Q958 310 974 378Q989 446 1011 508Q1032 570 1062 620Q1091 669 1132 698Q1172 727 1226 727Q1263 727 1291 706Q1318 685 1318 642Q1318 604 1296 585Q1274 566 1251 566Q1212 566 1212 610Q1212 644 1242 671',
+    0x222E: '578 671V677Q578 677 571 680Q563 683 544 683Q512 683 490 652Q467 620 452 569Q436 517 424 456Q484 433 522 380Q559 326 559 254Q559 190 529 141Q498 91 448 63Q398 35 336 35H335Q298 -83 248 -154Q197 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q159 -187 181 -155Q202 -124 218 -70Q233 -16 246 51Q187 75 150 128Q113 181 113 254Q113 318 143 367Q173 416 223 445Q273 473 334 473Q356 543 387 601Q417 658 460 693Q503 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM513 253Q513 308 487 350Q461 392 417 414Q411 383 406 352Q400 321 395 292Q385 233 373 178Q361 123 347 73Q420 78 467 127Q513 176 513 253ZM158 253Q158 198 185 156Q211 113 254 91L282 246Q290 291 300 339Q310 386 323 432Q275 430 238 407Q200 383 179 344Q158 304 158 253',
+    0x222F: '111 250Q111 331 172 382Q233 433 329 455Q351 529 382 591Q412 653 457 690Q501 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q514 683 492 654Q470 625 455 577Q439 529 427 471Q465 474 503 474Q590 474 662 459Q684 532 715 593Q745 654 789 691Q833 727 894 727Q931 727 959 706Q986 685 986 642Q986 604 964 585Q942 566 919 566Q880 566 880 610Q880 644 910 671V677Q910 677 903 680Q895 683 876 683Q842 683 819 648Q796 612 780 555Q764 497 752 431Q815 404 851 359Q887 314 887 251Q887 194 860 154Q832 113 784 88Q735 63 672 50Q648 -33 617 -95Q585 -157 547 -191Q508 -226 461 -226Q408 -226 385 -199Q362 -172 362 -141Q362 -106 380 -87Q397 -69 420 -69Q440 -69 450 -80Q459 -92 459 -111Q459 -132 453 -146Q446 -160 436 -174V-181Q436 -181 442 -184Q447 -187 460 -187Q490 -187 511 -157Q531 -128 547 -77Q562 -26 575 38Q558 37 540 37Q522 36 504 36Q461 36 420 39Q378 42 340 49Q303 -75 252 -150Q200 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q160 -187 183 -152Q205 -118 221 -59Q237 0 251 73Q187 97 149 140Q111 183 111 250ZM395 292Q385 237 375 187Q364 136 351 89Q386 83 425 81Q463 78 503 78Q545 78 584 81Q592 120 599 162Q606 203 614 246Q622 287 631 331Q640 375 651 418Q618 425 581 429Q543 432 502 432Q480 432 460 431Q439 430 419 428ZM157 252Q156 202 184 169Q211 135 258 115Q264 147 270 180Q275 212 282 246Q290 286 299 328Q307 369 317 410Q242 389 200 349Q157 309 157 252ZM727 292Q718 240 708 191Q697 141 685 96Q755 113 797 150Q839 187 840 250Q840 294 815 329Q790 364 744 387Q740 363 736 339Q731 315 727 292',
+    0x2230: '97 250Q97 316 159 362Q221 408 324 435Q346 513 377 580Q408 646 453 687Q498 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q512 683 490 652Q467 620 452 569Q436 517 424 456Q535 472 667 474Q689 544 720 601Q750 658 793 693Q836 727 894 727Q931 727 959 706Q986 685 986 642Q986 604 964 585Q942 566 919 566Q880 566 880 610Q880 644 910 671V677Q910 677 903 680Q895 683 876 683Q846 683 824 655Q802 626 787 578Q772 530 760 473Q824 471 882 464Q940 457 991 446Q1013 522 1044 586Q1074 649 1119 688Q1164 727 1226 727Q1263 727 1291 706Q1318 685 1318 642Q1318 604 1296 585Q1274 566 1251 566Q1212 566 1212 610Q1212 644 1242 671V677Q1242 677 1235 680Q1227 683 1208 683Q1173 683 1150 646Q1126 609 1111 550Q1095 490 1082 422Q1162 394 1208 352Q1253 309 1253 251Q1253 177 1186 132Q1118 86 1008 63Q983 -23 952 -88Q920 -154 881 -190Q842 -226 793 -226Q740 -226 717 -199Q694 -172 694 -141Q694 -106 712 -87Q729 -69 752 -69Q772 -69 782 -80Q791 -92 791 -111Q791 -132 785 -146Q778 -160 768 -174V-181Q768 -181 774 -184Q779 -187 792 -187Q823 -187 844 -156Q865 -125 881 -72Q896 -19 909 47Q857 41 800 39Q742 36 682 36H668Q631 -82 580 -154Q529 -226 461 -226Q408 -226 385 -199Q362 -172 362 -141Q362 -106 380 -87Q397 -69 420 -69Q440 -69 450 -80Q459 -92 459 -111Q459 -132 453 -146Q446 -160 436 -174V-181Q436 -181 442 -184Q447 -187 460 -187Q490 -187 511 -157Q531 -128 547 -77Q562 -26 575 38Q512 40 454 47Q395 53 344 63Q319 -23 288 -88Q256 -154 217 -190Q178 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q162 -187 185 -150Q207 -113 223 -50Q239 12 253 88Q181 113 139 153Q97 192 97 250ZM727 292Q717 234 706 180Q694 126 680 78H682Q812 78 918 90L946 246Q953 285 962 326Q970 366 980 406Q931 417 874 423Q817 429 752 431Q745 396 739 361Q733 326 727 292ZM395 292Q386 241 376 194Q366 147 355 103Q453 84 584 79Q592 119 599 161Q606 203 614 246Q622 291 632 339Q642 386 655 432Q520 430 417 414Q411 383 406 352Q400 321 395 292ZM1059 292Q1050 243 1041 196Q1031 149 1020 106Q1105 126 1155 161Q1205 195 1206 250Q1206 292 1172 325Q1138 358 1074 380ZM143 252Q142 209 174 179Q206 148 261 128Q266 157 271 187Q276 216 282 246Q289 281 296 318Q303 355 312 392Q232 369 188 334Q144 299 143 252',
+    0x2231: '578 672V678Q578 678 571 681Q563 684 544 684Q514 684 493 657Q472 630 457 585Q441 539 430 483Q418 426 408 368Q457 358 497 328Q536 298 559 254Q564 244 567 242Q570 239 573 239Q581 239 588 253Q595 269 602 286Q609 302 618 315L631 309Q614 272 601 232Q588 191 589 148L582 145Q551 174 512 192Q473 210 434 223L437 235Q454 232 471 227Q487 222 504 216Q510 214 513 214Q518 214 523 217Q527 220 527 226Q527 226 527 228Q527 230 526 231Q507 271 474 296Q440 321 402 331L395 293Q376 183 351 89Q326 -6 294 -76Q261 -147 221 -186Q180 -225 129 -225Q76 -225 53 -198Q30 -171 30 -140Q30 -105 48 -86Q65 -68 88 -68Q108 -68 118 -79Q127 -91 127 -110Q127 -131 121 -145Q114 -159 104 -173V-180Q104 -180 110 -183Q115 -186 128 -186Q161 -186 184 -149Q207 -113 223 -51Q239 11 253 89Q267 166 282 247L297 327Q240 308 203 259Q165 209 165 145H126Q126 200 150 247Q173 294 214 326Q255 358 307 369Q322 437 344 502Q365 566 395 617Q425 668 466 698Q507 728 562 728Q599 728 627 707Q654 686 654 643Q654 605 632 586Q610 567 587 567Q548 567 548 611Q548 645 578 672',
+    0x2232: '578 672V678Q578 678 571 681Q563 684 544 684Q516 684 495 659Q474 634 459 592Q443 549 431 496Q476 480 511 448Q545 416 565 376Q570 366 577 366Q587 366 592 380Q600 400 608 415Q616 430 626 446L638 440Q618 399 604 356Q590 312 590 268Q590 197 556 140Q522 82 465 49Q408 16 338 16H328Q292 -93 243 -159Q194 -225 129 -225Q76 -225 53 -198Q30 -171 30 -140Q30 -105 48 -86Q65 -68 88 -68Q108 -68 118 -79Q127 -91 127 -110Q127 -131 121 -145Q114 -159 104 -173V-180Q104 -180 110 -183Q115 -186 128 -186Q157 -186 178 -157Q199 -129 215 -79Q230 -30 243 32Q177 55 132 113Q86 171 86 263Q86 336 121 392Q155 448 213 481Q271 513 340 513H349Q371 574 400 623Q429 671 469 700Q509 728 562 728Q599 728 627 707Q654 686 654 643Q654 605 632 586Q610 567 587 567Q548 567 548 611Q548 645 578 672ZM132 263Q132 188 166 142Q200 95 252 72Q260 113 268 158Q275 202 284 247Q295 303 308 362Q320 421 337 476Q274 475 228 445Q182 414 157 366Q132 317 132 263ZM523 357Q510 398 482 419Q454 439 422 455L393 293Q382 228 369 168Q355 107 339 54H340Q397 54 444 82Q491 109 519 157Q546 204 546 263Q546 271 546 278Q545 285 544 292Q516 312 487 325Q458 337 426 348L430 360Q447 357 464 353Q480 349 499 341Q505 339 508 339Q515 339 520 344Q525 349 523 357',
+    0x2233: '578 671V677Q578 677 571 680Q563 683 544 683Q514 683 492 654Q470 625 455 577Q439 529 427 471Q453 460 470 446Q487 431 497 423Q525 398 565 383Q604 368 640 358L637 345Q617 346 593 354Q569 361 558 361Q547 361 547 353Q547 352 548 350Q548 348 548 348Q556 327 561 305Q566 282 566 258Q566 195 535 143Q504 90 452 59Q400 27 336 27H333Q296 -88 247 -157Q197 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q158 -187 179 -157Q200 -127 216 -75Q231 -23 244 42Q195 61 164 96Q133 131 119 174Q105 217 105 258Q106 323 137 375Q167 426 220 457Q273 487 339 488Q361 554 392 608Q422 662 464 695Q506 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM146 258Q146 227 158 193Q169 159 193 130Q216 100 252 83Q260 122 267 163Q274 204 282 246Q291 296 302 348Q313 399 327 449Q276 447 235 422Q194 396 170 354Q146 312 146 258ZM479 385Q470 395 457 407Q443 419 420 430Q413 396 407 361Q401 325 395 292Q385 231 373 174Q360 116 345 66Q396 69 437 95Q478 121 503 164Q527 207 527 258Q527 295 513 331Q511 336 502 336Q498 336 493 331Q488 326 486 321Q479 305 472 290Q464 274 455 258L442 264Q454 293 465 324Q475 354 479 385',
+    0x22C0: '891 -265H813L474 633H472L133 -265H55L444 781H502',
+    0x22C1: '891 781L502 -265H444L55 781H133L472 -117H474L813 781',
+    0x22C2: '850 -260H775V472Q775 521 752 566Q728 610 687 646Q646 681 591 702Q536 722 473 722Q410 722 355 702Q300 681 259 646Q218 610 195 566Q171 521 171 472V-260H96V459Q96 534 127 596Q158 658 212 703Q265 748 334 772Q403 796 479 796Q546 796 612 772Q678 748 732 704Q785 659 818 597Q850 535 850 459',
+    0x22C3: '850 786V67Q850 -9 818 -71Q785 -133 732 -178Q678 -223 612 -247Q546 -271 479 -271Q403 -271 334 -246Q265 -222 212 -177Q158 -132 127 -70Q96 -8 96 67V786H171V54Q171 5 195 -39Q218 -84 259 -119Q300 -155 355 -175Q410 -196 473 -196Q536 -196 591 -175Q646 -155 687 -119Q728 -84 752 -39Q775 5 775 54V786',
+    0x2A00: '1099 258Q1099 149 1059 55Q1018 -40 946 -112Q874 -184 780 -224Q685 -265 576 -265Q468 -265 374 -224Q279 -184 207 -112Q135 -40 95 55Q54 149 54 258Q54 367 95 462Q135 556 207 628Q278 700 373 741Q467 781 576 781Q685 781 780 741Q874 700 946 628Q1018 556 1059 462Q1099 367 1099 258ZM1017 258Q1017 349 983 429Q948 508 888 569Q827 630 747 665Q667 699 576 699Q485 699 406 665Q326 630 266 569Q205 508 171 429Q136 349 136 258Q136 167 171 87Q205 7 266 -54Q326 -115 406 -149Q485 -184 576 -184Q667 -184 747 -149Q827 -115 888 -54Q948 7 983 87Q1017 167 1017 258ZM661 256Q661 221 636 196Q611 171 576 171Q541 171 516 196Q491 221 491 256Q491 291 516 316Q541 341 576 341Q611 341 636 316Q661 291 661 256',
+    0x2A01: '1099 258Q1099 149 1059 55Q1018 -40 946 -112Q874 -184 780 -224Q685 -265 576 -265Q468 -265 374 -224Q279 -184 207 -112Q135 -40 95 55Q54 149 54 258Q54 367 95 462Q135 556 207 628Q278 700 373 741Q467 781 576 781Q685 781 780 741Q874 700 946 628Q1018 556 1059 462Q1099 367 1099 258ZM542 292V698Q461 692 390 658Q319 624 265 570Q210 515 177 444Q143 373 137 292ZM610 292H1015Q1009 373 976 444Q942 515 887 570Q832 624 762 658Q691 692 610 698ZM542 -181V224H137Q143 143 177 73Q210 2 265 -53Q319 -108 390 -141Q461 -175 542 -181ZM1015 224H610V-181Q691 -175 762 -141Q832 -108 887 -53Q942 2 976 73Q1009 143 1015 224',
+    0x2A02: '1099 258Q1099 149 1059 55Q1018 -40 946 -112Q874 -184 780 -224Q685 -265 576 -265Q468 -265 374 -224Q279 -184 207 -112Q135 -40 95 55Q54 149 54 258Q54 367 95 462Q135 556 207 628Q278 700 373 741Q467 781 576 781Q685 781 780 741Q874 700 946 628Q1018 556 1059 462Q1099 367 1099 258ZM863 -77L576 210L290 -77Q347 -127 421 -155Q494 -184 576 -184Q659 -184 732 -155Q805 -127 863 -77ZM624 258L910 -28Q960 30 989 103Q1017 176 1017 258Q1017 340 989 414Q960 487 910 545ZM576 306L863 593Q805 643 732 671Q659 699 576 699Q494 699 421 671Q347 643 290 593ZM528 258L241 545Q192 487 164 414Q136 340 136 258Q136 176 164 103Q192 30 241 -28',
+    0x2A03: '850 786V67Q850 -8 819 -70Q788 -132 735 -177Q681 -222 612 -246Q543 -271 467 -271Q400 -271 334 -247Q268 -223 214 -178Q160 -133 128 -71Q96 -9 96 67V786H178V55Q178 7 200 -36Q222 -80 261 -114Q300 -149 353 -169Q406 -189 467 -189Q528 -189 583 -169Q637 -149 679 -114Q720 -80 744 -36Q768 7 768 55V786ZM558 273Q558 238 533 213Q508 188 473 188Q438 188 413 213Q388 238 388 273Q388 308 413 333Q438 358 473 358Q508 358 533 333Q558 308 558 273',
+    0x2A04: '850 786V67Q850 -8 819 -70Q788 -132 735 -177Q681 -222 612 -246Q543 -271 467 -271Q400 -271 334 -247Q268 -223 214 -178Q160 -133 128 -71Q96 -9 96 67V786H178V55Q178 7 200 -36Q222 -80 261 -114Q300 -149 353 -169Q406 -189 467 -189Q528 -189 583 -169Q637 -149 679 -114Q720 -80 744 -36Q768 7 768 55V786ZM687 149H508V-29H440V149H261V217H440V397H508V217H687',
+    0x2A05: '850 -265H768V699H178V-265H96V781H850',
+    0x2A06: '850 -265H96V781H178V-184H768V781H850',
+    0x2A07: '1123 -265H1045L706 633H704L645 476L920 -265H843L604 367L365 -265H287L563 476L504 633H502L163 -265H85L474 781H531L604 585L677 781H734',
+    0x2A08: '1123 781L734 -265H677L604 -70L531 -265H474L85 781H163L502 -117H504L563 40L287 781H365L604 148L843 781H920L645 40L704 -117H706L1045 781',
+    0x2A09: '994 -210L933 -265L522 196L112 -265L51 -210L467 258L51 726L112 781L522 320L933 781L994 726L577 258',
+    0x2A0A: '218 296Q218 352 237 399Q256 446 290 480L69 758V782H817L828 532H789Q778 616 751 658Q724 700 679 715Q633 729 566 729H237V725L382 540Q427 557 474 557Q546 557 605 524Q664 490 699 432Q733 373 733 296Q733 214 699 156Q664 97 605 66Q546 35 474 35Q407 35 353 62L196 -145V-150H621Q684 -150 720 -123Q756 -97 779 -47Q801 2 821 70H861L800 -248H62V-224L304 93Q264 126 241 178Q218 229 218 296ZM545 315L387 106Q425 88 473 88Q531 88 576 113Q621 138 647 184Q672 230 672 294Q672 354 647 402Q621 449 576 477Q531 504 473 504Q444 504 417 496L545 334ZM279 294Q279 245 295 206Q311 166 339 139L449 282L326 436Q279 380 279 294',
+    0x2A0B: '779 1018V1024Q779 1024 772 1027Q764 1030 746 1030Q713 1030 688 998Q663 966 644 910Q625 854 610 782H817L828 532H789Q779 608 756 650Q732 691 694 708Q656 725 600 728Q582 627 570 513Q557 398 543 291Q527 164 509 54Q490 -57 468 -150H621Q684 -150 720 -123Q756 -97 779 -47Q801 2 821 70H861L800 -248H444Q400 -403 341 -487Q282 -571 202 -571Q145 -571 120 -542Q94 -513 94 -478Q94 -439 113 -418Q132 -398 157 -398Q178 -398 189 -411Q199 -424 199 -447Q199 -469 193 -484Q186 -500 176 -515V-521Q176 -521 183 -524Q189 -528 202 -528Q257 -528 292 -452Q326 -377 351 -248H62V-224L446 282L69 758V782H521Q547 868 581 935Q615 1002 660 1040Q705 1078 762 1078Q803 1078 831 1056Q859 1034 859 988Q859 946 836 927Q812 907 789 907Q770 907 759 919Q748 931 748 953Q748 973 756 989Q764 1004 779 1018ZM237 729V725L446 452H452Q463 524 477 595Q490 665 507 729ZM196 -145V-150H368Q378 -86 389 -14Q400 57 410 133H404',
+    0x2A0C: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM910 671V677Q910 677 903 680Q895 683 876 683Q848 683 828 660Q808 636 793 596Q778 555 767 505Q756 454 747 399Q737 344 727 292Q708 182 683 88Q658 -7 626 -77Q593 -148 553 -187Q512 -226 461 -226Q408 -226 385 -199Q362 -172 362 -141Q362 -106 380 -87Q397 -69 420 -69Q440 -69 450 -80Q459 -92 459 -111Q459 -132 453 -146Q446 -160 436 -174V-181Q436 -181 442 -184Q447 -187 460 -187Q493 -187 516 -150Q539 -114 555 -52Q571 10 585 88Q599 165 614 246Q626 310 642 378Q657 446 679 508Q700 570 730 620Q759 669 800 698Q840 727 894 727Q931 727 959 706Q986 685 986 642Q986 604 964 585Q942 566 919 566Q880 566 880 610Q880 644 910 671ZM1574 671V677Q1574 677 1567 680Q1559 683 1540 683Q1512 683 1492 660Q1472 636 1457 596Q1442 555 1431 505Q1420 454 1411 399Q1401 344 1391 292Q1372 182 1347 88Q1322 -7 1290 -77Q1257 -148 1217 -187Q1176 -226 1125 -226Q1072 -226 1049 -199Q1026 -172 1026 -141Q1026 -106 1044 -87Q1061 -69 1084 -69Q1104 -69 1114 -80Q1123 -92 1123 -111Q1123 -132 1117 -146Q1110 -160 1100 -174V-181Q1100 -181 1106 -184Q1111 -187 1124 -187Q1157 -187 1180 -150Q1203 -114 1219 -52Q1235 10 1249 88Q1263 165 1278 246Q1290 310 1306 378Q1321 446 1343 508Q1364 570 1394 620Q1423 669 1464 698Q1504 727 1558 727Q1595 727 1623 706Q1650 685 1650 642Q1650 604 1628 585Q1606 566 1583 566Q1544 566 1544 610Q1544 644 1574 671ZM1242 671V677Q1242 677 1235 680Q1227 683 1208 683Q1180 683 1160 660Q1140 636 1125 596Q1110 555 1099 505Q1087 454 1078 399Q1068 344 1059 292Q1039 182 1014 88Q989 -7 957 -77Q925 -148 885 -187Q844 -226 793 -226Q740 -226 717 -199Q694 -172 694 -141Q694 -106 712 -87Q729 -69 752 -69Q772 -69 782 -80Q791 -92 791 -111Q791 -132 785 -146Q778 -160 768 -174V-181Q768 -181 774 -184Q779 -187 792 -187Q825 -187 848 -150Q871 -114 887 -52Q903 10 917 88Q931 165 946 246Q958 310 974 378Q989 446 1011 508Q1032 570 1062 620Q1091 669 1132 698Q1172 727 1226 727Q1263 727 1291 706Q1318 685 1318 642Q1318 604 1296 585Q1274 566 1251 566Q1212 566 1212 610Q1212 644 1242 671',
+    0x2A0D: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292H570V224H382Q357 94 322 -7Q286 -109 239 -167Q191 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q160 -187 183 -153Q205 -119 221 -60Q237 -2 250 72Q263 145 278 224H109V292H290Q305 369 327 446Q348 523 379 587Q410 650 455 689Q499 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A0E: '578 671V677Q578 677 571 680Q563 683 544 683Q514 683 493 655Q471 627 456 581Q440 534 429 477Q417 419 407 360H581V292H395Q392 275 389 258Q386 241 382 224H583V156H368Q343 44 309 -42Q274 -128 230 -177Q186 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q157 -187 178 -159Q198 -132 213 -84Q228 -36 241 26Q253 87 265 156H122V224H278Q279 229 280 235Q281 240 282 246L290 292H120V360H305Q320 429 342 495Q363 560 394 613Q424 665 466 696Q507 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A0F: '578 671V677Q578 677 571 680Q563 683 544 683Q512 683 490 652Q468 620 452 569Q436 517 425 455Q413 393 402 331L570 427L601 373L388 253Q369 150 344 63Q319 -24 288 -89Q256 -154 217 -190Q177 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q158 -187 180 -156Q201 -126 217 -73Q232 -20 245 47Q258 114 271 187L108 95L78 147L285 265Q297 328 313 394Q328 459 350 519Q371 578 401 625Q430 672 470 700Q510 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A10: '578 671V677Q578 677 571 680Q563 683 544 683Q513 683 491 654Q469 624 454 575Q438 525 426 466Q486 441 524 386L475 353Q451 391 416 410L395 292Q385 234 374 179Q362 124 348 75Q388 78 422 94L444 45Q396 21 335 21H331Q294 -91 245 -158Q196 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q158 -187 179 -157Q199 -128 215 -77Q230 -26 243 38Q183 61 146 116Q108 170 108 251Q108 318 139 371Q169 423 221 453Q272 483 335 483H338Q360 551 390 606Q420 661 462 694Q504 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM169 250Q169 195 192 155Q215 114 254 94L282 246Q290 290 300 337Q310 383 322 428Q278 425 243 402Q208 378 189 339Q169 300 169 250',
+    0x2A11: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292L384 234Q433 243 467 270Q501 296 517 326L522 337Q523 339 523 341Q523 342 523 342Q523 354 508 354Q505 354 499 352Q465 340 433 332L430 345Q469 358 508 376Q547 394 578 423L583 420Q583 377 597 337Q610 296 626 259L614 253Q605 267 597 283Q589 299 583 315Q580 320 577 324Q574 328 569 328Q562 328 558 320Q545 295 520 268Q495 240 459 220Q423 199 376 194Q351 72 316 -23Q281 -118 235 -172Q189 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q159 -187 181 -155Q203 -123 219 -67Q235 -12 248 59Q261 129 274 205Q230 221 195 253Q160 285 141 329Q121 373 121 423H160Q160 362 195 314Q229 265 281 243Q281 244 282 245Q282 245 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A12: '255 86H524V429H322L334 470Q355 541 386 599Q416 657 460 692Q503 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q514 683 493 653Q471 623 456 575Q440 526 428 468H563V47H339Q315 -34 284 -95Q252 -157 214 -191Q176 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -149Q207 -111 225 -48Q242 14 255 86ZM413 251Q413 223 393 201Q373 179 341 179Q310 179 290 199Q269 218 269 251Q269 283 292 303Q315 323 341 323Q369 323 391 303Q413 283 413 251',
+    0x2A13: '245 44L252 78Q291 60 333 60Q386 60 429 86Q471 112 497 156Q522 199 522 252Q522 302 499 344Q475 385 431 412Q387 439 326 444Q348 519 380 584Q411 648 456 688Q501 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q513 683 491 653Q469 622 454 571Q438 520 425 460Q486 435 524 379Q562 323 562 252Q562 189 531 137Q500 84 448 53Q396 21 332 21H331Q307 -52 277 -107Q247 -163 210 -194Q173 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q158 -187 180 -156Q201 -126 217 -73Q232 -21 245 44ZM413 253Q413 222 391 198Q369 173 333 173Q298 173 276 195Q253 216 253 253Q253 289 279 311Q304 333 333 333Q364 333 389 311Q413 288 413 253',
+    0x2A14: '269 161Q319 82 363 54Q406 26 452 26Q505 26 548 52Q591 78 617 122Q642 165 642 218Q642 271 617 314Q591 357 548 383Q505 409 452 409Q429 409 408 404Q386 398 362 384Q337 370 302 343Q317 411 339 479Q360 547 391 603Q421 659 464 693Q506 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q513 683 491 652Q468 620 452 567Q435 513 420 446Q428 447 436 448Q444 448 451 448Q515 448 567 417Q619 386 650 334Q681 282 681 218Q681 155 650 103Q619 50 567 19Q515 -13 451 -13Q418 -13 388 -3Q357 6 331 22Q291 -97 242 -161Q193 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q156 -187 177 -156Q198 -126 215 -75Q231 -24 244 38Q257 99 269 161ZM532 219Q532 188 510 164Q488 139 452 139Q417 139 395 161Q372 182 372 219Q372 255 398 277Q423 299 452 299Q483 299 508 277Q532 254 532 219',
+    0x2A15: '97 238Q97 302 129 354Q160 406 213 437Q265 468 328 468H333Q355 539 386 598Q416 656 460 692Q503 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671V677Q578 677 571 680Q563 683 544 683Q511 683 489 651Q466 618 451 565Q435 511 423 448Q482 421 520 365Q558 308 558 238Q558 175 527 123Q496 70 444 39Q392 7 328 7H326Q290 -99 242 -162Q194 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q157 -187 177 -159Q197 -131 213 -83Q228 -35 241 25L238 26Q177 52 137 110Q97 167 97 238ZM520 238Q520 291 494 334Q468 377 425 403Q382 429 329 429Q276 429 233 403Q189 377 163 334Q137 291 137 238Q137 185 163 142Q189 98 233 72Q276 46 329 46Q382 46 425 72Q468 98 494 142Q520 185 520 238ZM409 239Q409 208 387 184Q365 159 329 159Q294 159 272 181Q249 202 249 239Q249 275 275 297Q300 319 329 319Q360 319 385 297Q409 274 409 239',
+    0x2A16: '578 671V677Q578 677 571 680Q563 683 544 683Q512 683 490 652Q468 621 453 570Q437 519 425 458H561V-3H323Q288 -105 240 -165Q192 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q168 -187 193 -135Q217 -83 235 -3H100V458H330Q352 531 383 592Q413 653 457 690Q501 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM522 419H417Q411 387 406 355Q400 323 395 292Q382 221 368 157Q353 92 336 36H522ZM139 36H243Q253 84 263 138Q272 191 282 246Q290 288 299 332Q308 376 319 419H139',
+    0x2A17: '694 671V677Q694 677 687 680Q679 683 660 683Q627 683 604 650Q581 616 565 561Q549 505 538 440Q526 374 514 311H701Q731 311 762 297Q792 283 813 255Q834 227 834 184Q834 144 816 116Q798 87 771 72Q744 57 715 57H640V125H712Q731 125 749 139Q767 153 767 186Q767 221 746 232Q725 243 698 243H502Q483 142 458 57Q433 -29 402 -92Q370 -156 332 -191Q293 -226 245 -226Q192 -226 169 -199Q146 -172 146 -141Q146 -106 164 -87Q181 -69 204 -69Q224 -69 234 -80Q243 -92 243 -111Q243 -132 237 -146Q230 -160 220 -174V-181Q220 -181 226 -184Q231 -187 244 -187Q277 -187 300 -150Q322 -114 339 -53Q355 8 369 85Q382 162 397 243H219Q209 243 202 236Q194 228 194 221Q194 210 209 195Q231 174 254 149Q276 123 293 97L272 78Q223 135 164 188Q104 240 30 271V281Q104 313 164 367Q223 420 273 478L294 459Q276 434 255 409Q233 384 210 360Q195 345 195 332Q195 325 200 318Q205 311 218 311H410Q425 386 447 460Q468 534 499 594Q530 654 574 691Q618 727 678 727Q715 727 743 706Q770 685 770 642Q770 604 748 585Q726 566 703 566Q664 566 664 610Q664 644 694 671',
+    0x2A18: '578 671V677Q578 677 571 680Q563 683 544 683Q515 683 494 658Q473 632 458 589Q443 545 432 491Q420 437 410 380H413L529 498L576 451L381 261L576 64L529 17L375 174H372Q346 57 312 -33Q277 -123 232 -174Q187 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q156 -187 176 -161Q196 -135 211 -90Q226 -45 238 14Q250 72 262 137H259L142 17L95 64L289 259L95 451L142 498L297 339H300Q315 411 337 480Q358 549 389 605Q419 661 462 694Q504 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A19: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 495 658Q474 633 460 592Q445 550 433 498Q499 472 540 411Q580 350 580 267V24H518V263Q518 319 491 364Q464 409 420 433Q413 398 407 362Q401 326 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q291 297 303 351Q314 404 329 456Q281 455 241 429Q200 402 176 359Q152 316 152 264V24H90V264Q90 339 123 396Q155 453 211 485Q266 517 335 517H349Q371 577 401 625Q430 672 470 700Q510 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A1A: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q385 233 373 178Q361 123 347 73H351Q401 73 443 97Q484 121 509 165Q534 208 534 266V506H596V266Q596 191 564 134Q531 77 476 46Q420 14 351 14Q345 14 340 15Q335 15 330 16Q293 -94 244 -160Q195 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q158 -187 179 -158Q199 -129 215 -79Q230 -29 243 34Q180 63 142 122Q104 181 104 263V506H166V267Q166 214 191 170Q215 126 255 100Q262 135 269 172Q275 209 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671',
+    0x2A1B: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM649 782H188V849H649',
+    0x2A1C: '578 671V677Q578 677 571 680Q563 683 544 683Q516 683 496 660Q476 636 461 596Q446 555 435 505Q424 454 415 399Q405 344 395 292Q376 182 351 88Q326 -7 294 -77Q261 -148 221 -187Q180 -226 129 -226Q76 -226 53 -199Q30 -172 30 -141Q30 -106 48 -87Q65 -69 88 -69Q108 -69 118 -80Q127 -92 127 -111Q127 -132 121 -146Q114 -160 104 -174V-181Q104 -181 110 -184Q115 -187 128 -187Q161 -187 184 -150Q207 -114 223 -52Q239 10 253 88Q267 165 282 246Q294 310 310 378Q325 446 347 508Q368 570 398 620Q427 669 468 698Q508 727 562 727Q599 727 627 706Q654 685 654 642Q654 604 632 585Q610 566 587 566Q548 566 548 610Q548 644 578 671ZM519 -347H42V-279H519',
+    0x2AFC: '162 -194H95V706H162ZM366 -194H299V706H366ZM570 -194H503V706H570',
+    0x2AFF: '330 -220H95V706H330ZM279 -175V661H146V-175',
+}, {});
@@ -64,6 +64,11 @@ CommonTeXFontMixin<SVGCharOptions, SVGVariantData, SVGDelimiterData, SVGFontData
    */
   protected static defaultDelimiters: DelimiterMap<SVGDelimiterData> = delimiters;
 
+  /**
+   *  The SVG output takes the parts of the stretchy delimiters from the Size4 font
+   */
+  protected static defaultStretchVariants = ['-size4'];
+
   /**
    *  The character data by variant
    */
@@ -0,0 +1,495 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Mixin that implements lazy typesetting of math that is off screen
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {mathjax} from '../../mathjax.js';
+import {MathDocumentConstructor, ContainerList} from '../../core/MathDocument.js';
+import {MathItem, STATE} from '../../core/MathItem.js';
+import {Handler} from '../../core/Handler.js';
+import {MmlNode, TextNode} from '../../core/MmlTree/MmlNode.js';
+import {HTMLMathItem} from '../../handlers/html/HTMLMathItem.js';
+import {HTMLDocument} from '../../handlers/html/HTMLDocument.js';
+import {OptionList} from '../../util/Options.js';
+import {StyleList} from '../../util/StyleList.js';
+
+/*==========================================================================*/
+
+/**
+ * Generic constructor for Mixins
+ */
+export type Constructor<T> = new(...args: any[]) => T;
+
+/**
+ * A constructor for HTMLMathItems
+ */
+export type HTMLMathItemConstructor = Constructor<HTMLMathItem<any, any, any>>;
+
+/**
+ * The attribute that links a placeholder to its MathItem
+ */
+export const LAZYID = 'data-mjx-lazy';
+
+/*==========================================================================*/
+
+/**
+ *  The list of MathItems that are waiting to be typeset, indexed by the ids
+ *  stored in their placeholders
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export class LazyList<N, T, D> {
+
+  /**
+   * The next id to use
+   */
+  protected id: number = 0;
+
+  /**
+   * The MathItems indexed by their ids
+   */
+  protected items: Map<string, LazyMathItem<N, T, D>> = new Map();
+
+  /**
+   * @param {LazyMathItem} math   The item to add
+   * @return {string}             The id for the item
+   */
+  public add(math: LazyMathItem<N, T, D>): string {
+    const id = String(this.id++);
+    this.items.set(id, math);
+    return id;
+  }
+
+  /**
+   * @param {string} id        The id of the item to get
+   * @return {LazyMathItem}    The item with that id (or undefined)
+   */
+  public get(id: string): LazyMathItem<N, T, D> {
+    return this.items.get(id);
+  }
+
+  /**
+   * @param {string} id   The id of the item to remove
+   */
+  public delete(id: string) {
+    this.items.delete(id);
+  }
+
+  /**
+   * @return {string[]}   The ids of the items in the list
+   */
+  public ids(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+}
+
+/*==========================================================================*/
+
+/**
+ * The properties added to MathItem for lazy typesetting
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export interface LazyMathItem<N, T, D> extends MathItem<N, T, D> {
+
+  /**
+   * True if the typesetting should be deferred until the item is on screen
+   */
+  lazyTypeset: boolean;
+
+  /**
+   * The placeholder node that is observed while the item is off screen
+   */
+  lazyMarker: N;
+
+}
+
+/**
+ * The mixin for adding lazy typesetting to MathItems
+ *
+ * @param {B} BaseMathItem      The MathItem class to be extended
+ * @return {LazyMathItem}       The augmented MathItem class
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ * @template B  The MathItem class to extend
+ */
+export function LazyMathItemMixin<N, T, D, B extends HTMLMathItemConstructor>(
+  BaseMathItem: B
+): Constructor<LazyMathItem<N, T, D>> & B {
+
+  return class extends BaseMathItem {
+
+    /**
+     * @override
+     */
+    public lazyTypeset: boolean = true;
+
+    /**
+     * @override
+     */
+    public lazyMarker: N = null;
+
+    /**
+     * Insert a placeholder rather than typesetting the math, if it is
+     *   lazy and the document can observe when it comes on screen
+     *
+     * @override
+     */
+    public typeset(document: LazyMathDocument<N, T, D>) {
+      if (!this.lazyTypeset || !document.lazyObserver || this.isEscaped) {
+        super.typeset(document);
+        return;
+      }
+      if (this.state() < STATE.TYPESET) {
+        this.typesetRoot = document.lazyPlaceholder(this);
+        this.outputData.nocache = true;
+        this.state(STATE.TYPESET);
+      }
+    }
+
+    /**
+     * Start observing the placeholder once it is in the page
+     *
+     * @override
+     */
+    public updateDocument(document: LazyMathDocument<N, T, D>) {
+      super.updateDocument(document);
+      if (this.lazyTypeset && this.lazyMarker) {
+        document.lazyObserver.observe(this.lazyMarker as any);
+      }
+    }
+
+  };
+
+}
+
+/*==========================================================================*/
+
+/**
+ * The properties added to MathDocument for lazy typesetting
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export interface LazyMathDocument<N, T, D> extends HTMLDocument<N, T, D> {
+
+  /**
+   * The observer for the placeholders (null when lazy typesetting is not available,
+   *   e.g., with the liteAdaptor in node)
+   */
+  lazyObserver: IntersectionObserver;
+
+  /**
+   * The items waiting to be typeset
+   */
+  lazyList: LazyList<N, T, D>;
+
+  /**
+   * @param {LazyMathItem} math   The item needing a placeholder
+   * @return {N}                  The placeholder container for the item
+   */
+  lazyPlaceholder(math: LazyMathItem<N, T, D>): N;
+
+  /**
+   * Typeset all the items that are still waiting (e.g., before printing)
+   *
+   * @return {Promise}   A promise that resolves when the items are typeset
+   */
+  lazyTypesetAll(): Promise<void>;
+
+}
+
+/**
+ * The mixin for adding lazy typesetting to MathDocuments
+ *
+ * @param {B} BaseDocument         The MathDocument class to be extended
+ * @return {LazyMathDocument}      The lazy MathDocument class
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ * @template B  The MathDocument class to extend
+ */
+export function LazyMathDocumentMixin<N, T, D,
+B extends MathDocumentConstructor<HTMLDocument<N, T, D>>>(
+  BaseDocument: B
+): MathDocumentConstructor<LazyMathDocument<N, T, D>> & B {
+
+  return class BaseClass extends BaseDocument {
+
+    /**
+     * @override
+     */
+    public static OPTIONS: OptionList = {
+      ...BaseDocument.OPTIONS,
+      lazyMargin: '200px'       // the distance outside the viewport at which math gets typeset
+    };
+
+    /**
+     * Styles needed for the placeholders
+     */
+    public static lazyStyles: StyleList = {
+      'mjx-lazy': {
+        display: 'inline-block',
+        'vertical-align': '-.25em'
+      },
+      'mjx-container[display="true"] > mjx-lazy': {
+        display: 'block',
+        margin: '0 auto'
+      }
+    };
+
+    /**
+     * @override
+     */
+    public lazyObserver: IntersectionObserver = null;
+
+    /**
+     * @override
+     */
+    public lazyList: LazyList<N, T, D> = new LazyList<N, T, D>();
+
+    /**
+     * The ids of the items that have come on screen and are waiting to be typeset
+     */
+    protected lazySet: Set<string> = new Set();
+
+    /**
+     * The promise for the items currently being typeset
+     */
+    protected lazyPromise: Promise<void> = Promise.resolve();
+
+    /**
+     * True when a call to lazyProcess() has been scheduled
+     */
+    protected lazyPending: boolean = false;
+
+    /**
+     * Augment the MathItem class, and create the IntersectionObserver, if the
+     *   adaptor's window has one (otherwise all math is typeset as usual).
+     *
+     * @override
+     * @constructor
+     */
+    constructor(...args: any[]) {
+      super(...args);
+      const CLASS = (this.constructor as typeof BaseClass);
+      this.options.MathItem =
+        LazyMathItemMixin<N, T, D, HTMLMathItemConstructor>(this.options.MathItem);
+      const window = (this.adaptor as any).window;
+      if (window && window.IntersectionObserver) {
+        this.lazyObserver = new window.IntersectionObserver(this.lazyObserve.bind(this), {
+          rootMargin: this.options.lazyMargin
+        });
+        this.addStyles(CLASS.lazyStyles);
+      }
+    }
+
+    /**
+     * @override
+     */
+    public lazyPlaceholder(math: LazyMathItem<N, T, D>): N {
+      const adaptor = this.adaptor;
+      const [width, height] = this.lazyEstimate(math);
+      const anchors = this.lazyIds(math.root).map(id => adaptor.node('mjx-lazy-anchor', {id}));
+      math.lazyMarker = adaptor.node('mjx-lazy', {
+        [LAZYID]: this.lazyList.add(math),
+        style: {width: width + 'em', height: height + 'em'}
+      }, anchors);
+      const container = adaptor.node('mjx-container', {
+        'class': 'MathJax', jax: this.outputJax.name
+      }, [math.lazyMarker]);
+      if (math.display) {
+        adaptor.setAttribute(container, 'display', 'true');
+      }
+      return container;
+    }
+
+    /**
+     * Estimate the size of the typeset math (so the page doesn't jump around too much
+     *   when the placeholder is replaced).
+     *
+     * @param {LazyMathItem} math    The item whose size is needed
+     * @return {number[]}            The width and height of the item in ems
+     */
+    protected lazyEstimate(math: LazyMathItem<N, T, D>): [number, number] {
+      let chars = 0;
+      let rows = 0;
+      math.root.walkTree((node: MmlNode) => {
+        if (node.isToken) {
+          chars += node.childNodes.reduce((n, child) => n + (child as TextNode).getText().length, 0);
+        } else if (node.isKind('mtr') || node.isKind('mlabeledtr')) {
+          rows++;
+        }
+      });
+      const width = Math.max(1, Math.round(chars * .6 * 10) / 10);
+      return [width, (math.display ? 2 : 1) + Math.max(0, rows - 1) * 1.5];
+    }
+
+    /**
+     * @param {MmlNode} root   The root of the internal MathML tree
+     * @return {string[]}      The ids used within the tree (so links to them work before typesetting)
+     */
+    protected lazyIds(root: MmlNode): string[] {
+      const ids: string[] = [];
+      root.walkTree((node: MmlNode) => {
+        const id = node.attributes.getExplicit('id') as string;
+        if (id) {
+          ids.push(id);
+        }
+      });
+      return ids;
+    }
+
+    /**
+     * The IntersectionObserver callback:  record the items that came on screen
+     *   and schedule their typesetting
+     *
+     * @param {IntersectionObserverEntry[]} entries   The placeholders whose visibility changed
+     */
+    protected lazyObserve(entries: IntersectionObserverEntry[]) {
+      for (const entry of entries) {
+        if (entry.isIntersecting) {
+          this.lazySet.add(this.adaptor.getAttribute(entry.target as any, LAZYID));
+          this.lazyObserver.unobserve(entry.target);
+        }
+      }
+      if (this.lazySet.size && !this.lazyPending) {
+        this.lazyPending = true;
+        this.lazyPromise = this.lazyPromise
+          .then(() => mathjax.handleRetriesFor(() => this.lazyProcess()))
+          .then(() => {this.lazyPending = false; });
+      }
+    }
+
+    /**
+     * Typeset the items that have come on screen, replacing their placeholders
+     *   (the rerender() calls the later render actions, like assistive MathML, as well)
+     */
+    protected lazyProcess() {
+      for (const id of Array.from(this.lazySet)) {
+        const math = this.lazyList.get(id);
+        if (math) {
+          math.lazyTypeset = false;
+          math.rerender(this, STATE.TYPESET);
+          math.lazyMarker = null;
+          this.lazyList.delete(id);
+        }
+        this.lazySet.delete(id);
+      }
+    }
+
+    /**
+     * @override
+     */
+    public lazyTypesetAll(): Promise<void> {
+      for (const id of this.lazyList.ids()) {
+        const math = this.lazyList.get(id);
+        if (math.lazyMarker && this.lazyObserver) {
+          this.lazyObserver.unobserve(math.lazyMarker as any);
+        }
+        this.lazySet.add(id);
+      }
+      this.lazyPromise = this.lazyPromise.then(() => mathjax.handleRetriesFor(() => this.lazyProcess()));
+      return this.lazyPromise;
+    }
+
+    /**
+     * Stop observing the placeholders for the given items
+     *
+     * @param {LazyMathItem[]} items   The items being removed or reset
+     */
+    protected lazyRemove(items: LazyMathItem<N, T, D>[]) {
+      const removed = new Set(items);
+      for (const id of this.lazyList.ids()) {
+        const math = this.lazyList.get(id);
+        if (removed.has(math)) {
+          if (math.lazyMarker) {
+            this.lazyObserver.unobserve(math.lazyMarker as any);
+            math.lazyMarker = null;
+          }
+          this.lazyList.delete(id);
+          this.lazySet.delete(id);
+        }
+      }
+    }
+
+    /**
+     * @override
+     */
+    public state(state: number, restore: boolean = false) {
+      if (state < STATE.TYPESET && this.lazyObserver) {
+        this.lazyRemove(Array.from(this.math) as LazyMathItem<N, T, D>[]);
+      }
+      return super.state(state, restore);
+    }
+
+    /**
+     * @override
+     */
+    public clear() {
+      if (this.lazyObserver) {
+        this.lazyRemove(Array.from(this.math) as LazyMathItem<N, T, D>[]);
+      }
+      return super.clear();
+    }
+
+    /**
+     * @override
+     */
+    public clearMathItemsWithin(containers: ContainerList<N>) {
+      if (this.lazyObserver) {
+        this.lazyRemove(this.getMathItemsWithin(containers) as LazyMathItem<N, T, D>[]);
+      }
+      super.clearMathItemsWithin(containers);
+    }
+
+  };
+
+}
+
+/*==========================================================================*/
+
+/**
+ * Add lazy typesetting support to a Handler instance
+ *
+ * @param {Handler} handler   The Handler instance to enhance
+ * @return {Handler}          The handler that was modified (for purposes of chaining extensions)
+ *
+ * @template N  The HTMLElement node class
+ * @template T  The Text node class
+ * @template D  The Document class
+ */
+export function LazyHandler<N, T, D>(handler: Handler<N, T, D>): Handler<N, T, D> {
+  handler.documentClass =
+    LazyMathDocumentMixin<N, T, D, MathDocumentConstructor<HTMLDocument<N, T, D>>>(
+      handler.documentClass as any
+    );
+  return handler;
+}
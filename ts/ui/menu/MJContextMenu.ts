@@ -24,6 +24,7 @@
 import {MathItem} from '../../core/MathItem.js';
 import {MmlNode} from '../../core/MmlTree/MmlNode.js';
 import {SelectableInfo} from './SelectableInfo.js';
+import {Locale} from '../../util/Locale.js';
 
 import {ContextMenu} from 'mj-context-menu/js/context_menu.js';
 import {SubMenu} from 'mj-context-menu/js/sub_menu.js';
@@ -86,7 +87,9 @@ export class MJContextMenu extends ContextMenu {
         // FIXME:  handle error output jax
         const input = this.mathItem.inputJax.name;
         const original = this.findID('Show', 'Original');
-        original.content = (input === 'MathML' ? 'Original MathML' : input + ' Commands');
+        original.content = (input === 'MathML' ?
+                            Locale.message('Menu', 'OriginalMathML', 'Original MathML') :
+                            Locale.message('Menu', 'InputCommands', '%1 Commands', input));
         const clipboard = this.findID('Copy', 'Original');
         clipboard.content = original.content;
         const semantics = this.findID('Settings', 'semantics');
@@ -29,6 +29,7 @@ import {MathJax as MJX} from '../../components/global.js';
 import {MathJaxObject as StartupObject} from '../../components/startup.js';
 import {MathJaxObject as LoaderObject} from '../../components/loader.js';
 import {OptionList, userOptions, defaultOptions, expandable} from '../../util/Options.js';
+import {Locale} from '../../util/Locale.js';
 
 import {MJContextMenu} from './MJContextMenu.js';
 import {MmlVisitor} from './MmlVisitor.js';
@@ -36,9 +37,11 @@ import {SelectableInfo} from './SelectableInfo.js';
 import {MenuMathDocument} from './MenuHandler.js';
 
 import {Info} from 'mj-context-menu/js/info.js';
+import {Item} from 'mj-context-menu/js/item.js';
 import {Parser} from 'mj-context-menu/js/parse.js';
 import {Rule} from 'mj-context-menu/js/item_rule.js';
 import {CssStyles} from 'mj-context-menu/js/css_util.js';
+import {HtmlClasses} from 'mj-context-menu/js/html_classes.js';
 import {Submenu} from 'mj-context-menu/js/item_submenu.js';
 
 /*==========================================================================*/
@@ -72,6 +75,7 @@ export interface MenuSettings {
   zoom: string;
   zscale: string;
   renderer: string;
+  font: string;
   alt: boolean;
   cmd: boolean;
   ctrl: boolean;
@@ -81,6 +85,7 @@ export interface MenuSettings {
   collapsible: boolean;
   inTabOrder: boolean;
   assistiveMml: boolean;
+  language: string;
   // A11y settings
   backgroundColor: string;
   backgroundOpacity: string;
@@ -104,6 +109,16 @@ export interface MenuSettings {
 
 export type HTMLMATHITEM = MathItem<HTMLElement, Text, Document>;
 
+/**
+ * An output jax with the methods needed to select its font (the CHTML and SVG jax)
+ */
+type FontJax = OutputJax<HTMLElement, Text, Document> & {
+  font?: {name: string};
+  hasFont?: (name: string) => boolean;
+  fontNames?: () => string[];
+  setFont?: (name: string) => void;
+};
+
 /*==========================================================================*/
 
 /**
@@ -117,7 +132,8 @@ export class Menu {
   public static MENU_STORAGE = 'MathJax-Menu-Settings';
 
   /**
-   * The options for the menu, including the default settings, the various output jax
+   * The options for the menu, including the default settings, the various output jax,
+   * the fonts to list (in addition to those registered with the output jax),
    * and the list of annotation types and their encodings
    */
   public static OPTIONS: OptionList = {
@@ -127,6 +143,7 @@ export class Menu {
       zoom: 'NoZoom',
       zscale: '200%',
       renderer: 'CHTML',
+      font: 'TeX',
       alt: false,
       cmd: false,
       ctrl: false,
@@ -140,8 +157,10 @@ export class Menu {
     },
     jax: {
       CHTML: null,
-      SVG: null
+      SVG: null,
+      MML: null
     },
+    fonts: ['TeX', 'STIX2'],
     annotationTypes: expandable({
       TeX: ['TeX', 'LaTeX', 'application/x-tex'],
       StarMath: ['StarMath 5.0'],
@@ -210,7 +229,8 @@ export class Menu {
    */
   protected jax: {[name: string]: OutputJax<HTMLElement, Text, Document>} = {
     CHTML: null,
-    SVG: null
+    SVG: null,
+    MML: null
   };
 
   /**
@@ -218,6 +238,12 @@ export class Menu {
    */
   protected rerenderStart: number = STATE.LAST;
 
+  /**
+   * The English text for the menu items, indexed by their submenu path and id
+   *   (e.g., Settings.ZoomTrigger.Click), as recorded when they are first localized
+   */
+  protected english: {[id: string]: string} = {};
+
   /**
    * @returns {boolean}   true when the menu is loading some component
    */
@@ -250,9 +276,10 @@ export class Menu {
     '<b style="font-size:120%;">MathJax</b> v' + mathjax.version,
     () => {
       const lines = [] as string[];
-      lines.push('Input Jax: ' + this.document.inputJax.map(jax => jax.name).join(', '));
-      lines.push('Output Jax: ' + this.document.outputJax.name);
-      lines.push('Document Type: ' + this.document.kind);
+      lines.push(Locale.message('Menu', 'InputJaxInfo', 'Input Jax: %1',
+                                this.document.inputJax.map(jax => jax.name).join(', ')));
+      lines.push(Locale.message('Menu', 'OutputJaxInfo', 'Output Jax: %1', this.document.outputJax.name));
+      lines.push(Locale.message('Menu', 'DocumentTypeInfo', 'Document Type: %1', this.document.kind));
       return lines.join('<br/>');
     },
     '<a href="https://www.mathjax.org">www.mathjax.org</a>'
@@ -262,9 +289,9 @@ export class Menu {
    * The "MathJax Help" info box
    */
   protected help = new Info(
-    '<b>MathJax Help</b>',
+    '',   // the title is set by localizeInfo()
     () => {
-      return [
+      return Locale.message('Menu', 'HelpText', [
         '<p><b>MathJax</b> is a JavaScript library that allows page',
         ' authors to include mathematics within their web pages.',
         ' As a reader, you don\'t need to do anything to make that happen.</p>',
@@ -286,7 +313,7 @@ export class Menu {
         ' Turn on the explorer to enable generation of speech strings',
         ' and the ability to investigate expressions interactively.</p>',
         '<p><b>Language</b>: This menu lets you select the language used by MathJax',
-        ' for its menus and warning messages. (Not yet implemented in version 3.)</p>',
+        ' for its menus and warning messages.</p>',
         '</div>',
         '<p><b>Math Zoom</b>: If you are having difficulty reading an',
         ' equation, MathJax can enlarge it to help you see it better, or',
@@ -296,7 +323,7 @@ export class Menu {
         ' to save the preferences set via this menu locally in your browser.  These',
         ' are not used to track you, and are not transferred or used remotely by',
         ' MathJax in any way.</p>'
-      ]. join('\n');
+      ]. join('\n'));
     },
     '<a href="https://www.mathjax.org">www.mathjax.org</a>'
   );
@@ -305,7 +332,7 @@ export class Menu {
    * The "Show As MathML" info box
    */
   protected mathmlCode = new SelectableInfo(
-    'MathJax MathML Expression',
+    '',   // the title is set by localizeInfo()
     () => {
       if (!this.menu.mathItem) return '';
       const text = this.toMML(this.menu.mathItem);
@@ -318,7 +345,7 @@ export class Menu {
    * The "Show As (original form)" info box
    */
   protected originalText = new SelectableInfo(
-    'MathJax Original Source',
+    '',   // the title is set by localizeInfo()
     () => {
       if (!this.menu.mathItem) return '';
       const text = this.menu.mathItem.math;
@@ -331,7 +358,7 @@ export class Menu {
    * The "Show As Annotation" info box
    */
   protected annotationText = new SelectableInfo(
-    'MathJax Annotation Text',
+    '',   // the title is set by localizeInfo()
     () => {
       if (!this.menu.mathItem) return '';
       const text = this.menu.annotation;
@@ -344,7 +371,7 @@ export class Menu {
    * The info box for zoomed expressions
    */
   protected zoomBox = new Info(
-    'MathJax Zoomed Expression',
+    '',   // the title is set by localizeInfo()
     () => {
       if (!this.menu.mathItem) return '';
       const element = (this.menu.mathItem.typesetRoot as any).cloneNode(true) as HTMLElement;
@@ -370,6 +397,7 @@ export class Menu {
     this.options = userOptions(defaultOptions({}, (this.constructor as typeof Menu).OPTIONS), options);
     this.initSettings();
     this.mergeUserSettings();
+    this.initLanguage();
     this.initMenu();
   }
 
@@ -382,10 +410,18 @@ export class Menu {
     const jax = this.document.outputJax;
     this.jax[jax.name] = jax;
     this.settings.renderer = jax.name;
+    if ((jax as FontJax).font) {
+      this.settings.font = (jax as FontJax).font.name;
+    }
+    if ((jax as FontJax).fontNames) {
+      const fonts = this.options.fonts as string[];
+      this.options.fonts = [...fonts, ...(jax as FontJax).fontNames().filter(font => fonts.indexOf(font) < 0)];
+    }
     if (MathJax._.a11y && MathJax._.a11y.explorer) {
       Object.assign(this.settings, this.document.options.a11y);
     }
     this.settings.scale = jax.options.scale;
+    this.settings.language = Locale.current;
     this.defaultSettings = Object.assign({}, this.settings);
   }
 
@@ -403,6 +439,7 @@ export class Menu {
         this.variable<string> ('zoom'),
         this.variable<string> ('zscale'),
         this.variable<string> ('renderer', (jax: string) => this.setRenderer(jax)),
+        this.variable<string> ('font', (font: string) => this.setFont(font)),
         this.variable<boolean>('alt'),
         this.variable<boolean>('cmd'),
         this.variable<boolean>('ctrl'),
@@ -429,7 +466,8 @@ export class Menu {
         this.variable<boolean>('autocollapse'),
         this.variable<boolean>('collapsible', (collapse: boolean) => this.setCollapsible(collapse)),
         this.variable<boolean>('inTabOrder', (tab: boolean) => this.setTabOrder(tab)),
-        this.variable<boolean>('assistiveMml', (mml: boolean) => this.setAssistiveMml(mml))
+        this.variable<boolean>('assistiveMml', (mml: boolean) => this.setAssistiveMml(mml)),
+        this.variable<string> ('language', (language: string) => this.setLanguage(language))
       ],
       items: [
         this.submenu('Show', 'Show Math As', [
@@ -444,7 +482,8 @@ export class Menu {
         ]),
         this.rule(),
         this.submenu('Settings', 'Math Settings', [
-          this.submenu('Renderer', 'Math Renderer', this.radioGroup('renderer', [['CHTML'], ['SVG']])),
+          this.submenu('Renderer', 'Math Renderer', this.radioGroup('renderer', [['CHTML'], ['SVG'], ['MML', 'MathML']])),
+          this.submenu('Font', 'Math Font', this.radioGroup('font', this.options.fonts.map((font: string) => [font]))),
           this.rule(),
           this.submenu('ZoomTrigger', 'Zoom Trigger', [
             this.command('ZoomNow', 'Zoom Once Now', () => this.zoom(null, '', this.menu.mathItem)),
@@ -536,7 +575,9 @@ export class Menu {
           this.checkbox('InTabOrder', 'Include in Tab Order', 'inTabOrder'),
           this.checkbox('AssistiveMml', 'Include Hidden MathML', 'assistiveMml')
         ]),
-        this.submenu('Language', 'Language'),
+        this.submenu('Language', 'Language', this.radioGroup('language',
+          Object.keys(Locale.languages).map(id => [id, Locale.languages[id]])
+        )),
         this.rule(),
         this.command('About', 'About MathJax', () => this.about.post()),
         this.command('Help', 'MathJax Help', () => this.help.post())
@@ -549,6 +590,8 @@ export class Menu {
     this.annotationText.attachMenu(menu);
     this.mathmlCode.attachMenu(menu);
     this.zoomBox.attachMenu(menu);
+    this.localizeItems(menu.items);
+    this.localizeInfo();
     this.checkLoadableItems();
     this.enableExplorerItems(this.settings.explorer);
     menu.showAnnotation = this.annotationText;
@@ -582,6 +625,12 @@ export class Menu {
           menu.findID('Settings', 'Renderer', name).disable();
         }
       }
+      const jax = this.document.outputJax as FontJax;
+      for (const font of this.options.fonts) {
+        if (!jax.hasFont || !jax.hasFont(font)) {
+          menu.findID('Settings', 'Font', font).disable();
+        }
+      }
       menu.findID('Accessibility', 'Activate').disable();
       menu.findID('Accessibility', 'AutoCollapse').disable();
       menu.findID('Accessibility', 'Collapsible').disable();
@@ -602,6 +651,20 @@ export class Menu {
 
   }
 
+  /**
+   * Make the menu's language the current locale, if it isn't already
+   *   (e.g., when it comes from the user's saved settings)
+   */
+  protected initLanguage() {
+    const language = this.settings.language;
+    if (language === Locale.current) return;
+    if (Locale.isLoaded(language)) {
+      Locale.setLocale(language);
+    } else {
+      this.setLanguage(language);
+    }
+  }
+
   /*======================================================================*/
 
   /**
@@ -701,9 +764,40 @@ export class Menu {
   protected setOutputJax(jax: string) {
     this.jax[jax].setAdaptor(this.document.adaptor);
     this.document.outputJax = this.jax[jax];
+    this.useFont(this.settings.font);
     this.rerender();
   }
 
+  /**
+   * @param {string} font   The name of the font to switch to
+   */
+  protected setFont(font: string) {
+    if (this.useFont(font)) {
+      this.rerender();
+    }
+  }
+
+  /**
+   * Make the output jax use the given font, if it is available.  Otherwise, load
+   *   the font's component and switch to the font (and rerender) once it is loaded.
+   *
+   * @param {string} font   The name of the font to use
+   * @return {boolean}      True if the font was changed (so the math needs to be rerendered)
+   */
+  protected useFont(font: string): boolean {
+    const jax = this.document.outputJax as FontJax;
+    if (!jax.setFont || jax.font.name === font) {
+      return false;
+    }
+    if (!jax.hasFont(font)) {
+      this.loadComponent('output/' + jax.name.toLowerCase() + '/fonts/' + font.toLowerCase(),
+                         () => jax.hasFont(font) && this.setFont(font));
+      return false;
+    }
+    jax.setFont(font);
+    return true;
+  }
+
   /**
    * @param {boolean} tab   True for including math in the tab order, false for not
    */
@@ -748,22 +842,80 @@ export class Menu {
     }
   }
 
+  /**
+   * Load the locale bundle (if needed), then change the menu language and
+   *   recompile the math so that error messages are in the new language
+   *
+   * @param {string} language   The locale to use
+   */
+  protected setLanguage(language: string) {
+    if (!Locale.isLoaded(language)) {
+      this.loadComponent(Locale.bundle(language), () => Locale.isLoaded(language) && this.setLanguage(language));
+      return;
+    }
+    Locale.setLocale(language);
+    this.localizeItems(this.menu.items);
+    this.localizeInfo();
+    if (!Menu._loadingPromise) {
+      this.rerender(STATE.COMPILED);
+    }
+  }
+
+  /**
+   * Update the content of the menu items to use the current locale.  The messages
+   *   are identified by the item's submenu path and id (e.g., Accessibility.Speech.Speech),
+   *   since the same id can be used in different submenus.
+   *
+   * @param {Item[]} items   The items to localize (descending into their submenus)
+   * @param {string} path    The path of the submenu containing the items
+   */
+  protected localizeItems(items: Item[], path: string = '') {
+    for (const item of items) {
+      if (!item.id) continue;
+      const id = (path ? path + '.' : '') + item.id;
+      if (!this.english.hasOwnProperty(id)) {
+        this.english[id] = item.content;
+      }
+      item.content = Locale.message('Menu', id, this.english[id]);
+      if (item instanceof Submenu) {
+        this.localizeItems(item.submenu.items, id);
+      }
+    }
+  }
+
+  /**
+   * Set the titles of the info boxes to use the current locale
+   */
+  protected localizeInfo() {
+    const titles: [Info, string][] = [
+      [this.help, '<b>' + Locale.message('Menu', 'HelpTitle', 'MathJax Help') + '</b>'],
+      [this.mathmlCode, Locale.message('Menu', 'MathMLExpression', 'MathJax MathML Expression')],
+      [this.originalText, Locale.message('Menu', 'OriginalSource', 'MathJax Original Source')],
+      [this.annotationText, Locale.message('Menu', 'AnnotationText', 'MathJax Annotation Text')],
+      [this.zoomBox, Locale.message('Menu', 'ZoomedExpression', 'MathJax Zoomed Expression')]
+    ];
+    for (const [info, title] of titles) {
+      info.html.querySelector('.' + HtmlClasses['INFOTITLE']).innerHTML = title;
+    }
+  }
+
   /**
    * Request the scaling value from the user and save it in the settings
    */
   protected scaleAllMath() {
     const scale = (parseFloat(this.settings.scale) * 100).toFixed(1).replace(/.0$/, '');
-    const percent = prompt('Scale all mathematics (compared to surrounding text) by', scale + '%');
+    const percent = prompt(Locale.message('Menu', 'ScaleMath', 'Scale all mathematics (compared to surrounding text) by'),
+                           scale + '%');
     if (percent) {
       if (percent.match(/^\s*\d+(\.\d*)?\s*%?\s*$/)) {
         const scale = parseFloat(percent) / 100;
         if (scale) {
           this.setScale(String(scale));
         } else {
-          alert('The scale should not be zero');
+          alert(Locale.message('Menu', 'NonZeroScale', 'The scale should not be zero'));
         }
       } else {
-        alert('The scale should be a percentage (e.g., 120%)');
+        alert(Locale.message('Menu', 'PercentScale', 'The scale should be a percentage (e.g., %1)', '120%'));
       }
     }
   }
@@ -980,7 +1132,7 @@ export class Menu {
     try {
       document.execCommand('copy');
     } catch (error) {
-      alert('Can\'t copy to clipboard: ' + error.message);
+      alert(Locale.message('Menu', 'CopyFailed', 'Can\'t copy to clipboard: %1', error.message));
     }
     document.body.removeChild(input);
   }
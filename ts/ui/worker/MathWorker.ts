@@ -0,0 +1,183 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the worker side of off-main-thread rendering:
+ *                TeX and MathML input with SVG (or MathML) output on a liteDOM
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {mathjax} from '../../mathjax.js';
+import {LiteAdaptor, liteAdaptor} from '../../adaptors/liteAdaptor.js';
+import {LiteElement} from '../../adaptors/lite/Element.js';
+import {LiteText} from '../../adaptors/lite/Text.js';
+import {LiteDocument} from '../../adaptors/lite/Document.js';
+import {RegisterHTMLHandler} from '../../handlers/html.js';
+import {TeX} from '../../input/tex.js';
+import {MathML} from '../../input/mathml.js';
+import {SVG} from '../../output/svg.js';
+import {MathDocument} from '../../core/MathDocument.js';
+import {STATE} from '../../core/MathItem.js';
+import {MmlNode} from '../../core/MmlTree/MmlNode.js';
+import {SerializedMmlVisitor} from '../../core/MmlTree/SerializedMmlVisitor.js';
+import {OptionList, userOptions, defaultOptions, expandable} from '../../util/Options.js';
+import {ConvertRequest, WorkerRequest, WorkerReply, WorkerPort} from './Messages.js';
+
+/**
+ * Shorthands for the types used in the worker
+ */
+export type LITEDOC = MathDocument<LiteElement, LiteText, LiteDocument>;
+export type LITETEX = TeX<LiteElement, LiteText, LiteDocument>;
+export type LITEMML = MathML<LiteElement, LiteText, LiteDocument>;
+export type LITESVG = SVG<LiteElement, LiteText, LiteDocument>;
+
+/*****************************************************************/
+/**
+ *  Converts math strings to serialized SVG or MathML in response to
+ *  the messages described in Messages.ts.  This is meant to run inside
+ *  a Web Worker, where there is no DOM, so it uses the liteAdaptor.
+ *
+ *  Conversions are performed within mathjax.handleRetriesFor(), so TeX
+ *  extensions or entity files that are loaded asynchronously (via retryAfter())
+ *  are waited for before the reply is sent.  The function used to load
+ *  such files in the worker (e.g., one that calls importScripts()) is given
+ *  by the asyncLoad option.
+ */
+export class MathWorker {
+
+  /**
+   * The default options
+   */
+  public static OPTIONS: OptionList = {
+    tex: expandable({}),     // the options for the TeX input jax
+    mml: expandable({}),     // the options for the MathML input jax
+    svg: expandable({        // the options for the SVG output jax
+      fontCache: 'local'     //   (global caches can't be used since each result is separate)
+    }),
+    asyncLoad: null          // the function to use to load files asynchronously within the worker
+  };
+
+  /**
+   * The options for this instance
+   */
+  public options: OptionList;
+
+  /**
+   * The liteDOM adaptor
+   */
+  public adaptor: LiteAdaptor;
+
+  /**
+   * The input jax, indexed by the names used in the message protocol
+   */
+  public input: {tex: LITETEX, mathml: LITEMML};
+
+  /**
+   * The SVG output jax
+   */
+  public output: LITESVG;
+
+  /**
+   * The MathDocument used for the conversions
+   */
+  public document: LITEDOC;
+
+  /**
+   * The visitor used to serialize MathML output
+   */
+  protected visitor: SerializedMmlVisitor;
+
+  /**
+   * @param {OptionList} options   The options for the worker
+   * @constructor
+   */
+  constructor(options: OptionList = {}) {
+    const CLASS = this.constructor as typeof MathWorker;
+    this.options = userOptions(defaultOptions({}, CLASS.OPTIONS), options);
+    if (this.options.asyncLoad) {
+      mathjax.asyncLoad = this.options.asyncLoad;
+    }
+    this.adaptor = liteAdaptor();
+    RegisterHTMLHandler(this.adaptor);
+    this.input = {
+      tex: new TeX(this.options.tex),
+      mathml: new MathML(this.options.mml)
+    };
+    this.output = new SVG(this.options.svg);
+    this.document = mathjax.document('', {
+      InputJax: [this.input.tex, this.input.mathml],
+      OutputJax: this.output
+    }) as LITEDOC;
+    this.visitor = new SerializedMmlVisitor();
+  }
+
+  /**
+   * Listen for requests on the given port (the worker's global scope) and post the replies to it
+   *
+   * @param {WorkerPort} port   The port to listen to
+   * @return {MathWorker}       The worker (for chaining)
+   */
+  public listen(port: WorkerPort): MathWorker {
+    port.addEventListener('message', (event: {data: any}) => {
+      this.handle(event.data as WorkerRequest).then((reply) => port.postMessage(reply));
+    });
+    return this;
+  }
+
+  /**
+   * @param {WorkerRequest} request   The request to process
+   * @return {Promise<WorkerReply>}   A promise for the reply to the request
+   */
+  public handle(request: WorkerRequest): Promise<WorkerReply> {
+    return mathjax.handleRetriesFor(() => {
+      switch (request.type) {
+      case 'convert':
+        return this.convert(request);
+      case 'stylesheet':
+        return this.adaptor.innerHTML(this.output.styleSheet(this.document) as LiteElement);
+      case 'reset':
+        this.input.tex.parseOptions.tags.reset(request.start || 0);
+        return '';
+      default:
+        throw new Error('Unknown request type: ' + (request as any).type);
+      }
+    }).then((result: string) => ({id: request.id, result}))
+      .catch((err: Error) => ({id: request.id, error: err.message || String(err)}));
+  }
+
+  /**
+   * @param {ConvertRequest} request   The conversion request
+   * @return {string}                  The serialized SVG or MathML for the math
+   */
+  public convert(request: ConvertRequest): string {
+    const jax = this.input[request.input];
+    if (!jax) {
+      throw new Error('Unknown input format: ' + request.input);
+    }
+    const options: OptionList = Object.assign({}, request.options || {}, {format: jax.name});
+    if (request.output === 'mml') {
+      options.end = STATE.CONVERT;
+      return this.visitor.visitTree(this.document.convert(request.math, options) as MmlNode);
+    }
+    if (request.output !== 'svg') {
+      throw new Error('Unknown output format: ' + request.output);
+    }
+    return this.adaptor.outerHTML(this.document.convert(request.math, options) as LiteElement);
+  }
+
+}
@@ -0,0 +1,213 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the main-thread client for a MathJax Web Worker
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {WorkerInput, WorkerOutput, ConvertOptions, WorkerRequest, WorkerReply, WorkerPort} from './Messages.js';
+
+/**
+ * The functions used to settle the promise for a pending request
+ */
+type PendingRequest = {
+  resolve: (result: string) => void,
+  reject: (err: Error) => void
+};
+
+/**
+ * The id of the stylesheet inserted for the worker's SVG output
+ */
+export const STYLESHEET_ID = 'MJX-SVG-styles';
+
+/*****************************************************************/
+/**
+ *  Posts math strings to a worker running a MathWorker and returns
+ *  promises for the serialized results, which can then be inserted
+ *  into the page.
+ */
+export class MathWorkerClient {
+
+  /**
+   * The id of the most recent request
+   */
+  protected id: number = 0;
+
+  /**
+   * The requests that are waiting for replies, indexed by id
+   */
+  protected pending: Map<number, PendingRequest> = new Map();
+
+  /**
+   * The promise for the SVG stylesheet, once it has been requested
+   */
+  protected styles: Promise<string> = null;
+
+  /**
+   * @param {WorkerPort} worker   The Worker running the MathWorker
+   * @constructor
+   */
+  constructor(public worker: WorkerPort) {
+    worker.addEventListener('message', (event: {data: any}) => this.receive(event.data as WorkerReply));
+    worker.addEventListener('error', (event: {message?: string}) => {
+      this.rejectAll('Math worker error: ' + (event.message || 'the worker failed'));
+    });
+    worker.addEventListener('messageerror', () => this.rejectAll('Math worker error: a reply could not be read'));
+  }
+
+  /**
+   * @param {string} math              The math to convert
+   * @param {WorkerInput} input        The format of the math
+   * @param {WorkerOutput} output      The format to produce
+   * @param {ConvertOptions} options   The options for the conversion
+   * @return {Promise<string>}         A promise for the serialized result
+   */
+  public convert(math: string, input: WorkerInput, output: WorkerOutput,
+                 options: ConvertOptions = {}): Promise<string> {
+    return this.send({id: 0, type: 'convert', math, input, output, options});
+  }
+
+  /**
+   * @param {string} math              The TeX to convert
+   * @param {ConvertOptions} options   The options for the conversion
+   * @return {Promise<string>}         A promise for the serialized SVG
+   */
+  public tex2svg(math: string, options: ConvertOptions = {}): Promise<string> {
+    return this.convert(math, 'tex', 'svg', options);
+  }
+
+  /**
+   * @param {string} math              The TeX to convert
+   * @param {ConvertOptions} options   The options for the conversion
+   * @return {Promise<string>}         A promise for the serialized MathML
+   */
+  public tex2mml(math: string, options: ConvertOptions = {}): Promise<string> {
+    return this.convert(math, 'tex', 'mml', options);
+  }
+
+  /**
+   * @param {string} math              The MathML to convert
+   * @param {ConvertOptions} options   The options for the conversion
+   * @return {Promise<string>}         A promise for the serialized SVG
+   */
+  public mml2svg(math: string, options: ConvertOptions = {}): Promise<string> {
+    return this.convert(math, 'mathml', 'svg', options);
+  }
+
+  /**
+   * @return {Promise<string>}   A promise for the CSS needed by the SVG output
+   */
+  public stylesheet(): Promise<string> {
+    if (!this.styles) {
+      this.styles = this.send({id: 0, type: 'stylesheet'});
+    }
+    return this.styles;
+  }
+
+  /**
+   * Reset the TeX equation numbers and labels
+   *
+   * @param {number} start     The number to use for the next equation
+   * @return {Promise<void>}   A promise that resolves when the reset is complete
+   */
+  public reset(start: number = 0): Promise<void> {
+    return this.send({id: 0, type: 'reset', start}).then(() => {});
+  }
+
+  /**
+   * Convert the math and replace the contents of the given element by the result
+   * (adding the SVG stylesheet to the element's document first, if needed).
+   *
+   * @param {HTMLElement} node         The element where the result should be placed
+   * @param {string} math              The math to convert
+   * @param {WorkerInput} input        The format of the math
+   * @param {ConvertOptions} options   The options for the conversion
+   * @return {Promise<HTMLElement>}    A promise for the element once the result has been inserted
+   */
+  public insert(node: HTMLElement, math: string, input: WorkerInput = 'tex',
+                options: ConvertOptions = {}): Promise<HTMLElement> {
+    return Promise.all([
+      this.addStylesheet(node.ownerDocument),
+      this.convert(math, input, 'svg', options)
+    ]).then(([, result]) => {
+      node.innerHTML = result;
+      return node;
+    });
+  }
+
+  /**
+   * Add the SVG stylesheet to the given document, if it isn't already there
+   *
+   * @param {Document} document   The document to which the stylesheet should be added
+   * @return {Promise<void>}      A promise that resolves when the stylesheet is in place
+   */
+  public addStylesheet(document: Document): Promise<void> {
+    return this.stylesheet().then((css: string) => {
+      if (!document.getElementById(STYLESHEET_ID)) {
+        const style = document.createElement('style');
+        style.id = STYLESHEET_ID;
+        style.appendChild(document.createTextNode(css));
+        document.head.appendChild(style);
+      }
+    });
+  }
+
+  /**
+   * @param {WorkerRequest} request   The request to send (its id is filled in here)
+   * @return {Promise<string>}        A promise for the result of the request
+   */
+  protected send(request: WorkerRequest): Promise<string> {
+    request.id = ++this.id;
+    return new Promise<string>((resolve, reject) => {
+      this.pending.set(request.id, {resolve, reject});
+      this.worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Settle the promise for the request that this reply answers
+   *
+   * @param {WorkerReply} reply   The reply from the worker
+   */
+  protected receive(reply: WorkerReply) {
+    const request = this.pending.get(reply.id);
+    if (!request) return;
+    this.pending.delete(reply.id);
+    if (reply.error !== undefined) {
+      request.reject(new Error(reply.error));
+    } else {
+      request.resolve(reply.result);
+    }
+  }
+
+  /**
+   * Reject all the pending requests (when the worker fails, their replies will never arrive)
+   *
+   * @param {string} message   The error message for the rejections
+   */
+  protected rejectAll(message: string) {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    this.styles = null;
+    for (const request of pending) {
+      request.reject(new Error(message));
+    }
+  }
+
+}
@@ -0,0 +1,107 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  The message protocol used between the main thread and
+ *                a MathJax Web Worker
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+/**
+ * The input formats that the worker can convert from
+ */
+export type WorkerInput = 'tex' | 'mathml';
+
+/**
+ * The output formats that the worker can produce
+ */
+export type WorkerOutput = 'svg' | 'mml';
+
+/**
+ * The options for a conversion (the same as those for MathDocument.convert())
+ */
+export type ConvertOptions = {
+  display?: boolean,          // true for display math, false for in-line math
+  em?: number,                // the size of an em in pixels
+  ex?: number,                // the size of an ex in pixels
+  containerWidth?: number,    // the width of the container in pixels
+  lineWidth?: number,         // the line-breaking width in pixels
+  scale?: number,             // the scaling factor for the output
+  family?: string             // the font family to use for mtext and merror elements
+};
+
+/**
+ * A request to convert a math string
+ */
+export type ConvertRequest = {
+  id: number,                 // the id used to match the reply to the request
+  type: 'convert',
+  math: string,               // the math to convert
+  input: WorkerInput,         // the format of the math
+  output: WorkerOutput,       // the format to produce
+  options?: ConvertOptions    // the options for the conversion
+};
+
+/**
+ * A request for the output jax's stylesheet (as a serialized string of CSS)
+ */
+export type StylesheetRequest = {
+  id: number,
+  type: 'stylesheet'
+};
+
+/**
+ * A request to reset the TeX equation numbers and labels
+ */
+export type ResetRequest = {
+  id: number,
+  type: 'reset',
+  start?: number              // the number to use for the next equation
+};
+
+/**
+ * The messages that can be sent to the worker
+ */
+export type WorkerRequest = ConvertRequest | StylesheetRequest | ResetRequest;
+
+/**
+ * The reply sent back by the worker for each request.  Either result or error is given.
+ */
+export type WorkerReply = {
+  id: number,                 // the id of the request being answered
+  result?: string,            // the serialized SVG or MathML, or the CSS, for the request
+  error?: string              // the error message, if the request failed
+};
+
+/**
+ * The part of a Worker (or of the worker's global scope) that is used to pass messages
+ */
+export interface WorkerPort {
+
+  /**
+   * @param {any} message   The message to send through the port
+   */
+  postMessage(message: any): void;
+
+  /**
+   * @param {string} type          The event type ('message', or 'error' and 'messageerror' for a Worker)
+   * @param {Function} listener    The function to call when the event occurs
+   */
+  addEventListener(type: string, listener: (event: any) => void): void;
+
+}
@@ -0,0 +1,580 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements a reader for the glyph outlines in the CFF table
+ *                of an OpenType font (Type 2 charstrings)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {BinaryReader, PathCommand, FontError} from './OpenType.js';
+
+/*****************************************************************/
+
+/**
+ * The start and end offsets of the entries of a CFF INDEX
+ */
+type Index = [number, number][];
+
+/**
+ * The operands for each operator in a CFF DICT (escaped operators are 1200 plus the second byte)
+ */
+type Dict = {[op: number]: number[]};
+
+/**
+ * The DICT operators that are needed
+ */
+const OP = {
+  CHARSTRINGS: 17,
+  PRIVATE: 18,
+  SUBRS: 19,
+  CHARSTRINGTYPE: 1206,
+  FDARRAY: 1236,
+  FDSELECT: 1237
+};
+
+/**
+ * The maximum nesting of subroutine calls
+ */
+const MAXDEPTH = 10;
+
+/**
+ * Read a number that is encoded the same way in DICTs and charstrings
+ *   (b0 is 28 or 32 to 255, where 255 is a fixed-point number in charstrings)
+ *
+ * @param {BinaryReader} data   A reader positioned after the first byte of the number
+ * @param {number} b0           The first byte
+ * @return {number}             The number
+ */
+function readNumber(data: BinaryReader, b0: number): number {
+  if (b0 === 28) return data.int16();
+  if (b0 === 255) return data.int32() / 65536;
+  if (b0 <= 246) return b0 - 139;
+  if (b0 <= 250) return (b0 - 247) * 256 + data.uint8() + 108;
+  return -(b0 - 251) * 256 - data.uint8() - 108;
+}
+
+/*****************************************************************/
+/**
+ *  The CFF class reads the charstrings from a CFF table and converts
+ *  them to path commands
+ */
+export class CFF {
+
+  /**
+   * The font data
+   */
+  protected data: BinaryReader;
+
+  /**
+   * The charstrings for the glyphs
+   */
+  protected charStrings: Index;
+
+  /**
+   * The global subroutines
+   */
+  protected globalSubrs: Index;
+
+  /**
+   * The local subroutines (one set for each font dictionary in a CID font)
+   */
+  protected localSubrs: Index[] = [];
+
+  /**
+   * The font dictionary for each glyph (null when there is only one)
+   */
+  protected fdSelect: number[] = null;
+
+  /**
+   * @param {BinaryReader} data   A reader positioned at the start of the CFF table
+   */
+  constructor(data: BinaryReader) {
+    this.data = data;
+    const start = data.offset;
+    data.skip(2);
+    data = data.at(start + data.uint8());
+    this.readIndex(data);                      // Name INDEX
+    const topDicts = this.readIndex(data);
+    this.readIndex(data);                      // String INDEX
+    this.globalSubrs = this.readIndex(data);
+    const top = this.readDict(data, topDicts[0]);
+    if (top[OP.CHARSTRINGTYPE] && top[OP.CHARSTRINGTYPE][0] !== 2) {
+      throw new FontError('Only Type 2 charstrings are supported');
+    }
+    this.charStrings = this.readIndex(data.at(start + top[OP.CHARSTRINGS][0]));
+    if (top[OP.FDARRAY]) {
+      for (const fd of this.readIndex(data.at(start + top[OP.FDARRAY][0]))) {
+        this.localSubrs.push(this.readPrivate(data, start, this.readDict(data, fd)));
+      }
+      this.readFDSelect(data.at(start + top[OP.FDSELECT][0]));
+    } else {
+      this.localSubrs.push(this.readPrivate(data, start, top));
+    }
+  }
+
+  /**
+   * @param {BinaryReader} data   A reader positioned at an INDEX (it is moved past the INDEX)
+   * @return {Index}              The start and end offsets of the INDEX entries
+   */
+  protected readIndex(data: BinaryReader): Index {
+    const count = data.uint16();
+    if (count === 0) return [];
+    const size = data.uint8();
+    const offsets = [];
+    for (let i = 0; i <= count; i++) {
+      offsets.push(data.uintN(size));
+    }
+    const base = data.offset - 1;
+    const index: Index = [];
+    for (let i = 0; i < count; i++) {
+      index.push([base + offsets[i], base + offsets[i + 1]]);
+    }
+    data.offset = base + offsets[count];
+    return index;
+  }
+
+  /**
+   * @param {BinaryReader} data         A reader for the font data
+   * @param {[number, number]} range    The start and end of the DICT data
+   * @return {Dict}                     The operands for the operators in the DICT
+   */
+  protected readDict(data: BinaryReader, [start, end]: [number, number]): Dict {
+    const dict: Dict = {};
+    const reader = data.at(start);
+    let operands: number[] = [];
+    while (reader.offset < end) {
+      const b0 = reader.uint8();
+      if (b0 <= 21) {
+        dict[b0 === 12 ? 1200 + reader.uint8() : b0] = operands;
+        operands = [];
+      } else if (b0 === 30) {
+        operands.push(this.readReal(reader));
+      } else {
+        operands.push(b0 === 29 ? reader.int32() : readNumber(reader, b0));
+      }
+    }
+    return dict;
+  }
+
+  /**
+   * @param {BinaryReader} data   A reader positioned after the first byte of a real number
+   * @return {number}             The number
+   */
+  protected readReal(data: BinaryReader): number {
+    const chars = '0123456789.E?-';
+    let text = '';
+    while (true) {
+      const byte = data.uint8();
+      for (const nibble of [byte >> 4, byte & 0x0F]) {
+        if (nibble === 0x0F) return parseFloat(text);
+        text += (nibble === 0x0C ? 'E-' : chars.charAt(nibble));
+      }
+    }
+  }
+
+  /**
+   * @param {BinaryReader} data   A reader for the font data
+   * @param {number} start        The start of the CFF table
+   * @param {Dict} dict           The (top or font) DICT that points to the Private DICT
+   * @return {Index}              The local subroutines from the Private DICT
+   */
+  protected readPrivate(data: BinaryReader, start: number, dict: Dict): Index {
+    if (!dict[OP.PRIVATE]) return [];
+    const [size, offset] = dict[OP.PRIVATE];
+    const priv = this.readDict(data, [start + offset, start + offset + size]);
+    return (priv[OP.SUBRS] ? this.readIndex(data.at(start + offset + priv[OP.SUBRS][0])) : []);
+  }
+
+  /**
+   * @param {BinaryReader} data   A reader positioned at the FDSelect data
+   */
+  protected readFDSelect(data: BinaryReader) {
+    const format = data.uint8();
+    const n = this.charStrings.length;
+    this.fdSelect = [];
+    if (format === 0) {
+      for (let i = 0; i < n; i++) {
+        this.fdSelect.push(data.uint8());
+      }
+    } else if (format === 3) {
+      const ranges = data.uint16();
+      let first = data.uint16();
+      for (let i = 0; i < ranges; i++) {
+        const fd = data.uint8();
+        const next = data.uint16();
+        for (let glyph = first; glyph < next; glyph++) {
+          this.fdSelect[glyph] = fd;
+        }
+        first = next;
+      }
+    } else {
+      throw new FontError('Unknown FDSelect format ' + format);
+    }
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {number} glyph     The glyph id
+   * @return {PathCommand[]}   The outline of the glyph
+   */
+  public path(glyph: number): PathCommand[] {
+    if (glyph >= this.charStrings.length) return [];
+    const subrs = this.localSubrs[this.fdSelect ? this.fdSelect[glyph] || 0 : 0] || [];
+    return new CharString(this.data, this.globalSubrs, subrs).run(this.charStrings[glyph]);
+  }
+
+}
+
+/*****************************************************************/
+/**
+ *  The CharString class interprets a Type 2 charstring
+ */
+class CharString {
+
+  /**
+   * The font data
+   */
+  protected data: BinaryReader;
+
+  /**
+   * The global subroutines
+   */
+  protected gsubrs: Index;
+
+  /**
+   * The local subroutines
+   */
+  protected lsubrs: Index;
+
+  /**
+   * The bias for the global subroutine numbers
+   */
+  protected gbias: number;
+
+  /**
+   * The bias for the local subroutine numbers
+   */
+  protected lbias: number;
+
+  /**
+   * The argument stack
+   */
+  protected stack: number[] = [];
+
+  /**
+   * The number of stem hints so far (needed to skip the hintmask bytes)
+   */
+  protected stems: number = 0;
+
+  /**
+   * True until the advance width (if any) has been removed from the stack
+   */
+  protected checkWidth: boolean = true;
+
+  /**
+   * The x coordinate of the current point
+   */
+  protected x: number = 0;
+
+  /**
+   * The y coordinate of the current point
+   */
+  protected y: number = 0;
+
+  /**
+   * The path commands so far
+   */
+  protected commands: PathCommand[] = [];
+
+  /**
+   * True when done
+   */
+  protected done: boolean = false;
+
+  /**
+   * @param {Index} subrs   A subroutine index
+   * @return {number}       The bias for the subroutine numbers
+   */
+  protected static bias(subrs: Index): number {
+    return (subrs.length < 1240 ? 107 : subrs.length < 33900 ? 1131 : 32768);
+  }
+
+  /**
+   * @param {BinaryReader} data   The font data
+   * @param {Index} gsubrs        The global subroutines
+   * @param {Index} lsubrs        The local subroutines
+   */
+  constructor(data: BinaryReader, gsubrs: Index, lsubrs: Index) {
+    this.data = data;
+    this.gsubrs = gsubrs;
+    this.lsubrs = lsubrs;
+    this.gbias = CharString.bias(gsubrs);
+    this.lbias = CharString.bias(lsubrs);
+  }
+
+  /**
+   * @param {[number, number]} range   The start and end of the charstring
+   * @return {PathCommand[]}           The path commands for the charstring
+   */
+  public run(range: [number, number]): PathCommand[] {
+    this.execute(range, 0);
+    this.closePath();
+    return this.commands;
+  }
+
+  /**
+   * @param {[number, number]} range   The start and end of the charstring or subroutine
+   * @param {number} depth             The subroutine nesting depth
+   */
+  protected execute([start, end]: [number, number], depth: number) {
+    if (depth > MAXDEPTH) {
+      throw new FontError('Subroutines are nested too deeply');
+    }
+    const data = this.data.at(start);
+    while (data.offset < end && !this.done) {
+      const b0 = data.uint8();
+      if (b0 === 28 || b0 >= 32) {
+        this.stack.push(readNumber(data, b0));
+      } else if (b0 === 11) {
+        return;
+      } else if (b0 === 10 || b0 === 29) {
+        const [subrs, bias] = (b0 === 10 ? [this.lsubrs, this.lbias] : [this.gsubrs, this.gbias]);
+        const subr = subrs[this.stack.pop() + bias];
+        if (!subr) {
+          throw new FontError('Missing charstring subroutine');
+        }
+        this.execute(subr, depth + 1);
+      } else if (b0 === 12) {
+        this.escape(data.uint8());
+      } else if (b0 === 19 || b0 === 20) {
+        this.hint(true);
+        data.skip(Math.ceil(this.stems / 8));
+      } else {
+        this.operator(b0);
+      }
+    }
+  }
+
+  /**
+   * Remove the advance width from the stack, if it is there
+   *
+   * @param {number} n   The number of arguments the operator takes (or 0 for even numbers of arguments)
+   */
+  protected width(n: number) {
+    if (this.checkWidth) {
+      this.checkWidth = false;
+      if (n ? this.stack.length > n : this.stack.length % 2) {
+        this.stack.shift();
+      }
+    }
+  }
+
+  /**
+   * Count the stem hints on the stack
+   *
+   * @param {boolean} mask   True for hintmask and cntrmask (where the stems are optional)
+   */
+  protected hint(mask: boolean = false) {
+    if (!mask || this.stack.length) {
+      this.width(0);
+    }
+    this.stems += this.stack.length >> 1;
+    this.stack = [];
+  }
+
+  /**
+   * @param {number} op   A one-byte operator
+   */
+  protected operator(op: number) {
+    const args = this.stack;
+    switch (op) {
+    case 1: case 3: case 18: case 23:  // hstem, vstem, hstemhm, vstemhm
+      this.hint();
+      return;
+    case 21:  // rmoveto
+      this.width(2);
+      this.moveTo(args[0], args[1]);
+      break;
+    case 22:  // hmoveto
+      this.width(1);
+      this.moveTo(args[0], 0);
+      break;
+    case 4:   // vmoveto
+      this.width(1);
+      this.moveTo(0, args[0]);
+      break;
+    case 5:   // rlineto
+      for (let i = 0; i < args.length; i += 2) {
+        this.lineTo(args[i], args[i + 1]);
+      }
+      break;
+    case 6: case 7:  // hlineto, vlineto
+      for (let i = 0; i < args.length; i++) {
+        ((i + op) % 2 ? this.lineTo(0, args[i]) : this.lineTo(args[i], 0));
+      }
+      break;
+    case 8:   // rrcurveto
+      for (let i = 0; i + 6 <= args.length; i += 6) {
+        this.curveTo(...args.slice(i, i + 6));
+      }
+      break;
+    case 24:  // rcurveline
+      const lineStart = args.length - 2;
+      for (let i = 0; i < lineStart; i += 6) {
+        this.curveTo(...args.slice(i, i + 6));
+      }
+      this.lineTo(args[lineStart], args[lineStart + 1]);
+      break;
+    case 25:  // rlinecurve
+      const curveStart = args.length - 6;
+      for (let i = 0; i < curveStart; i += 2) {
+        this.lineTo(args[i], args[i + 1]);
+      }
+      this.curveTo(...args.slice(curveStart));
+      break;
+    case 26: case 27:  // vvcurveto, hhcurveto
+      this.alignedCurves(args, op === 27);
+      break;
+    case 30: case 31:  // vhcurveto, hvcurveto
+      this.alternatingCurves(args, op === 31);
+      break;
+    case 14:  // endchar
+      this.width(0);
+      this.done = true;
+      break;
+    default:
+      throw new FontError('Unknown charstring operator ' + op);
+    }
+    this.stack = [];
+  }
+
+  /**
+   * @param {number} op   The second byte of an escaped operator
+   */
+  protected escape(op: number) {
+    const args = this.stack;
+    switch (op) {
+    case 35:  // flex
+      this.curveTo(...args.slice(0, 6));
+      this.curveTo(...args.slice(6, 12));
+      break;
+    case 34:  // hflex
+      this.curveTo(args[0], 0, args[1], args[2], args[3], 0);
+      this.curveTo(args[4], 0, args[5], -args[2], args[6], 0);
+      break;
+    case 36:  // hflex1
+      this.curveTo(args[0], args[1], args[2], args[3], args[4], 0);
+      this.curveTo(args[5], 0, args[6], args[7], args[8], -(args[1] + args[3] + args[7]));
+      break;
+    case 37:  // flex1
+      const dx = args[0] + args[2] + args[4] + args[6] + args[8];
+      const dy = args[1] + args[3] + args[5] + args[7] + args[9];
+      const horizontal = Math.abs(dx) > Math.abs(dy);
+      this.curveTo(...args.slice(0, 6));
+      this.curveTo(args[6], args[7], args[8], args[9],
+                   horizontal ? args[10] : -dx, horizontal ? -dy : args[10]);
+      break;
+    default:
+      throw new FontError('Unsupported charstring operator 12 ' + op);
+    }
+    this.stack = [];
+  }
+
+  /**
+   * Handle vvcurveto and hhcurveto
+   *
+   * @param {number[]} args         The arguments
+   * @param {boolean} horizontal    True for hhcurveto
+   */
+  protected alignedCurves(args: number[], horizontal: boolean) {
+    let d = (args.length % 4 ? args.shift() : 0);
+    for (let i = 0; i + 4 <= args.length; i += 4) {
+      const [a, b, c, e] = args.slice(i, i + 4);
+      if (horizontal) {
+        this.curveTo(a, d, b, c, e, 0);
+      } else {
+        this.curveTo(d, a, b, c, 0, e);
+      }
+      d = 0;
+    }
+  }
+
+  /**
+   * Handle vhcurveto and hvcurveto
+   *
+   * @param {number[]} args         The arguments
+   * @param {boolean} horizontal    True for hvcurveto (the first tangent is horizontal)
+   */
+  protected alternatingCurves(args: number[], horizontal: boolean) {
+    for (let i = 0; i + 4 <= args.length; i += 4) {
+      const last = (i + 9 > args.length ? args[i + 4] || 0 : 0);
+      const [a, b, c, d] = args.slice(i, i + 4);
+      if (horizontal) {
+        this.curveTo(a, 0, b, c, last, d);
+      } else {
+        this.curveTo(0, a, b, c, d, last);
+      }
+      horizontal = !horizontal;
+    }
+  }
+
+  /**
+   * @param {number} dx   The relative x position of the new point
+   * @param {number} dy   The relative y position of the new point
+   */
+  protected moveTo(dx: number, dy: number) {
+    this.closePath();
+    this.x += dx;
+    this.y += dy;
+    this.commands.push(['M', this.x, this.y]);
+  }
+
+  /**
+   * @param {number} dx   The relative x position of the end point
+   * @param {number} dy   The relative y position of the end point
+   */
+  protected lineTo(dx: number, dy: number) {
+    this.x += dx;
+    this.y += dy;
+    this.commands.push(['L', this.x, this.y]);
+  }
+
+  /**
+   * @param {number[]} d   The relative positions of the control points and end point
+   */
+  protected curveTo(...d: number[]) {
+    const x1 = this.x + d[0], y1 = this.y + d[1];
+    const x2 = x1 + d[2], y2 = y1 + d[3];
+    this.x = x2 + d[4];
+    this.y = y2 + d[5];
+    this.commands.push(['C', x1, y1, x2, y2, this.x, this.y]);
+  }
+
+  /**
+   * Close the current contour, if there is one
+   */
+  protected closePath() {
+    const last = this.commands[this.commands.length - 1];
+    if (last && last[0] !== 'Z') {
+      this.commands.push(['Z']);
+    }
+  }
+
+}
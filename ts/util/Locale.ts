@@ -0,0 +1,208 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements the message catalog used for localizing
+ *                error messages and menu strings
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {asyncLoad} from './AsyncLoad.js';
+
+/**
+ * The messages for one component (e.g., TeX, MathML, Menu), indexed by message id
+ */
+export type LocaleMessages = {[id: string]: string};
+
+/**
+ * The data for a locale bundle:  the messages for each component
+ */
+export type LocaleData = {[component: string]: LocaleMessages};
+
+/*****************************************************************/
+/**
+ *  The message catalog.
+ *
+ *  Messages are identified by a component name and a message id (e.g., the id
+ *  of a TexError).  The English text is given at the point where the message is
+ *  produced, so it serves as the fallback when the current locale has no
+ *  translation for the message.  Bundles for other locales are loaded
+ *  (via the loader, if there is one) from ./util/locales/<locale>.js,
+ *  and call Locale.add() to register their messages.
+ */
+export namespace Locale {
+
+  /**
+   * The current locale
+   */
+  export let current: string = 'en';
+
+  /**
+   * The known locales and their names (in their own language), as shown in the menu.
+   * Pages that provide additional bundles should add their locales here.
+   */
+  export const languages: {[locale: string]: string} = {
+    en: 'English',
+    de: 'Deutsch'
+  };
+
+  /**
+   * The messages for the locales that have been registered
+   */
+  const data: {[locale: string]: LocaleData} = {};
+
+  /**
+   * The promises for bundles that are being loaded
+   */
+  const loading: Map<string, Promise<void>> = new Map();
+
+  /**
+   * The pattern for substitutions in messages
+   */
+  const pattern =
+    /%(\d+|\{\d+\}|\{[a-z]+:\%\d+(?:\|(?:%\{\d+\}|%.|[^\}])*)+\}|.)/g;
+
+  /**
+   * Register the messages for a locale (merging them with any existing ones).
+   * This is called by the locale bundles.
+   *
+   * @param {string} locale         The locale whose messages are being added
+   * @param {LocaleData} messages   The messages for the components
+   */
+  export function add(locale: string, messages: LocaleData) {
+    const localeData = data[locale] || (data[locale] = {});
+    for (const component of Object.keys(messages)) {
+      localeData[component] = Object.assign(localeData[component] || {}, messages[component]);
+    }
+  }
+
+  /**
+   * @param {string} locale   The locale to check
+   * @return {boolean}        True if messages for the locale are available
+   */
+  export function isLoaded(locale: string): boolean {
+    return locale === 'en' || !!data[locale];
+  }
+
+  /**
+   * @param {string} locale   The locale whose bundle is needed
+   * @return {string}         The file (or loader component) containing the locale's bundle
+   */
+  export function bundle(locale: string): string {
+    return './util/locales/' + locale + '.js';
+  }
+
+  /**
+   * Load the bundle for a locale, if it isn't already available
+   *
+   * @param {string} locale   The locale to load
+   * @return {Promise}        A promise that resolves when the bundle has been loaded
+   */
+  export function load(locale: string): Promise<void> {
+    if (isLoaded(locale)) {
+      return Promise.resolve();
+    }
+    if (!loading.has(locale)) {
+      loading.set(locale, asyncLoad(bundle(locale)).then(() => {
+        loading.delete(locale);
+      }).catch((err: Error) => {
+        loading.delete(locale);
+        throw err;
+      }));
+    }
+    return loading.get(locale);
+  }
+
+  /**
+   * Make the given locale the current one (loading its bundle, if needed)
+   *
+   * @param {string} locale   The locale to use
+   * @return {Promise}        A promise that resolves when the locale is in effect
+   */
+  export function setLocale(locale: string): Promise<void> {
+    if (isLoaded(locale)) {
+      current = locale;
+      return Promise.resolve();
+    }
+    return load(locale).then(() => {
+      current = locale;
+    });
+  }
+
+  /**
+   * @param {string} component   The component whose message is needed
+   * @param {string} id          The message id
+   * @param {string} text        The English text of the message
+   * @return {string}            The message for the current locale (or the English text)
+   */
+  export function lookup(component: string, id: string, text: string): string {
+    const messages = (data[current] || {})[component] || {};
+    return (messages.hasOwnProperty(id) ? messages[id] : text);
+  }
+
+  /**
+   * @param {string} component   The component whose message is needed
+   * @param {string} id          The message id
+   * @param {string} text        The English text of the message
+   * @param {string[]} args      The values to substitute for %1, %2, etc.
+   * @return {string}            The localized message with the substitutions performed
+   */
+  export function message(component: string, id: string, text: string, ...args: string[]): string {
+    return processString(lookup(component, id, text), args);
+  }
+
+  /**
+   * The old MathJax processing function.
+   *
+   * @param {string} str The basic message.
+   * @param {string[]} args The arguments to be replaced in the message.
+   * @return {string} The processed message.
+   */
+  export function processString(str: string, args: string[]): string {
+    let parts = str.split(pattern);
+    for (let i = 1, m = parts.length; i < m; i += 2) {
+      let c = parts[i].charAt(0);  // first char will be { or \d or a char to be
+                                   // kept literally
+      if (c >= '0' && c <= '9') {    // %n
+        parts[i] = args[parseInt(parts[i], 10) - 1];
+        if (typeof parts[i] === 'number') {
+          parts[i] = parts[i].toString();
+        }
+      } else if (c === '{') {        // %{n} or %{plural:%n|...}
+        c = parts[i].substr(1);
+        if (c >= '0' && c <= '9') {  // %{n}
+          parts[i] = args[parseInt(parts[i].substr(1, parts[i].length - 2), 10) - 1];
+          if (typeof parts[i] === 'number') {
+            parts[i] = parts[i].toString();
+          }
+        } else {                     // %{plural:%n|...}
+          let match = parts[i].match(/^\{([a-z]+):%(\d+)\|(.*)\}$/);
+          if (match) {
+            // Removed plural here.
+            parts[i] = '%' + parts[i];
+          }
+        }
+      }
+      if (parts[i] == null) {
+        parts[i] = '???';
+      }
+    }
+    return parts.join('');
+  }
+
+}
@@ -0,0 +1,978 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  Implements a reader for the OpenType tables needed to import a math font
+ *                (the glyph metrics and outlines, the character map, and the MATH table)
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {CFF} from './CFF.js';
+
+/*****************************************************************/
+
+/**
+ * A path command and its coordinates (in font units):
+ *   ['M', x, y], ['L', x, y], ['Q', x1, y1, x, y], ['C', x1, y1, x2, y2, x, y], or ['Z']
+ */
+export type PathCommand = [string, ...number[]];
+
+/**
+ * A bounding box [xMin, yMin, xMax, yMax] (in font units)
+ */
+export type BBox = [number, number, number, number];
+
+/**
+ * The error used for fonts that can't be read
+ */
+export class FontError extends Error {}
+
+/*****************************************************************/
+/**
+ *  A reader for the big-endian binary data of a font
+ */
+export class BinaryReader {
+
+  /**
+   * The position of the next value to read
+   */
+  public offset: number;
+
+  /**
+   * The view of the font data
+   */
+  protected data: DataView;
+
+  /**
+   * @param {DataView} data      The data to read
+   * @param {number} offset      The initial position
+   */
+  constructor(data: DataView, offset: number = 0) {
+    this.data = data;
+    this.offset = offset;
+  }
+
+  /**
+   * @param {number} offset     The position for the new reader
+   * @return {BinaryReader}     A reader for the same data at the given position
+   */
+  public at(offset: number): BinaryReader {
+    return new BinaryReader(this.data, offset);
+  }
+
+  /**
+   * @return {number}   The size of the data
+   */
+  public get length(): number {
+    return this.data.byteLength;
+  }
+
+  /**
+   * @param {number} n   The number of bytes to skip
+   */
+  public skip(n: number) {
+    this.offset += n;
+  }
+
+  /**
+   * @return {number}   The next unsigned byte
+   */
+  public uint8(): number {
+    return this.data.getUint8(this.offset++);
+  }
+
+  /**
+   * @return {number}   The next unsigned 16-bit value
+   */
+  public uint16(): number {
+    const n = this.data.getUint16(this.offset);
+    this.offset += 2;
+    return n;
+  }
+
+  /**
+   * @return {number}   The next signed 16-bit value
+   */
+  public int16(): number {
+    const n = this.data.getInt16(this.offset);
+    this.offset += 2;
+    return n;
+  }
+
+  /**
+   * @return {number}   The next unsigned 24-bit value
+   */
+  public uint24(): number {
+    return (this.uint8() << 16) + this.uint16();
+  }
+
+  /**
+   * @return {number}   The next unsigned 32-bit value
+   */
+  public uint32(): number {
+    const n = this.data.getUint32(this.offset);
+    this.offset += 4;
+    return n;
+  }
+
+  /**
+   * @return {number}   The next signed 32-bit value
+   */
+  public int32(): number {
+    const n = this.data.getInt32(this.offset);
+    this.offset += 4;
+    return n;
+  }
+
+  /**
+   * @param {number} n   The size (1 to 4 bytes) of the unsigned value to read
+   * @return {number}    The value
+   */
+  public uintN(n: number): number {
+    let value = 0;
+    while (n--) {
+      value = value * 256 + this.uint8();
+    }
+    return value;
+  }
+
+  /**
+   * @return {number}   The next 2.14 fixed-point value
+   */
+  public f2dot14(): number {
+    return this.int16() / 16384;
+  }
+
+  /**
+   * @return {string}   The next four-character tag
+   */
+  public tag(): string {
+    return String.fromCharCode(this.uint8(), this.uint8(), this.uint8(), this.uint8());
+  }
+
+  /**
+   * @param {number} n    The number of values to read
+   * @return {number[]}   The next n unsigned 16-bit values
+   */
+  public uint16s(n: number): number[] {
+    const values = [];
+    while (n--) {
+      values.push(this.uint16());
+    }
+    return values;
+  }
+
+  /**
+   * @param {number} n       The number of bytes to read
+   * @return {Uint8Array}    The next n bytes (sharing the font's data)
+   */
+  public bytes(n: number): Uint8Array {
+    const bytes = new Uint8Array(this.data.buffer, this.data.byteOffset + this.offset, n);
+    this.offset += n;
+    return bytes;
+  }
+
+}
+
+/*****************************************************************/
+
+/**
+ * The MATH table constants (in font units, except for the percentages)
+ */
+export type MathConstants = {[name: string]: number};
+
+/**
+ * A size variant of a glyph (its glyph id and its size in the direction of stretching)
+ */
+export type GlyphVariant = {glyph: number, size: number};
+
+/**
+ * A part of a glyph assembly
+ */
+export type GlyphPart = {
+  glyph: number,          // the glyph for the part
+  start: number,          // the length of the connector at its start
+  end: number,            // the length of the connector at its end
+  size: number,           // the full size of the part
+  extender: boolean       // true if the part can be repeated
+};
+
+/**
+ * The MathGlyphConstruction data for a glyph
+ */
+export type GlyphConstruction = {
+  variants: GlyphVariant[],     // the size variants (smallest first)
+  parts: GlyphPart[],           // the assembly parts (bottom to top, or left to right), or null
+  ic: number                    // the italic correction for the assembly
+};
+
+/**
+ * The data from the MATH table
+ */
+export type MathTable = {
+  constants: MathConstants,                         // the MathConstants values
+  italics: Map<number, number>,                     // the italic correction for each glyph
+  accents: Map<number, number>,                     // the top accent attachment for each glyph
+  extended: Set<number>,                            // the glyphs that are extended shapes
+  minOverlap: number,                               // the minimum connector overlap
+  vertical: Map<number, GlyphConstruction>,         // the vertical constructions for each glyph
+  horizontal: Map<number, GlyphConstruction>        // the horizontal constructions for each glyph
+};
+
+/**
+ * The names of the MATH table constants, in the order they appear in the table
+ * (the first two and the last are int16 values, the others are MathValueRecords)
+ */
+export const MATH_CONSTANTS = [
+  'ScriptPercentScaleDown', 'ScriptScriptPercentScaleDown',
+  'DelimitedSubFormulaMinHeight', 'DisplayOperatorMinHeight',
+  'MathLeading', 'AxisHeight', 'AccentBaseHeight', 'FlattenedAccentBaseHeight',
+  'SubscriptShiftDown', 'SubscriptTopMax', 'SubscriptBaselineDropMin',
+  'SuperscriptShiftUp', 'SuperscriptShiftUpCramped', 'SuperscriptBottomMin',
+  'SuperscriptBaselineDropMax', 'SubSuperscriptGapMin', 'SuperscriptBottomMaxWithSubscript',
+  'SpaceAfterScript', 'UpperLimitGapMin', 'UpperLimitBaselineRiseMin',
+  'LowerLimitGapMin', 'LowerLimitBaselineDropMin', 'StackTopShiftUp',
+  'StackTopDisplayStyleShiftUp', 'StackBottomShiftDown', 'StackBottomDisplayStyleShiftDown',
+  'StackGapMin', 'StackDisplayStyleGapMin', 'StretchStackTopShiftUp',
+  'StretchStackBottomShiftDown', 'StretchStackGapAboveMin', 'StretchStackGapBelowMin',
+  'FractionNumeratorShiftUp', 'FractionNumeratorDisplayStyleShiftUp',
+  'FractionDenominatorShiftDown', 'FractionDenominatorDisplayStyleShiftDown',
+  'FractionNumeratorGapMin', 'FractionNumDisplayStyleGapMin', 'FractionRuleThickness',
+  'FractionDenominatorGapMin', 'FractionDenomDisplayStyleGapMin', 'SkewedFractionHorizontalGap',
+  'SkewedFractionVerticalGap', 'OverbarVerticalGap', 'OverbarRuleThickness',
+  'OverbarExtraAscender', 'UnderbarVerticalGap', 'UnderbarRuleThickness',
+  'UnderbarExtraDescender', 'RadicalVerticalGap', 'RadicalDisplayStyleVerticalGap',
+  'RadicalRuleThickness', 'RadicalExtraAscender', 'RadicalKernBeforeDegree',
+  'RadicalKernAfterDegree', 'RadicalDegreeBottomRaisePercent'
+];
+
+/*****************************************************************/
+/**
+ *  The OpenTypeFont class reads the data needed for MathJax from
+ *  an OpenType (or TrueType) font file
+ */
+export class OpenTypeFont {
+
+  /**
+   * The font data
+   */
+  protected data: BinaryReader;
+
+  /**
+   * The offsets and lengths of the font's tables
+   */
+  protected tables: {[tag: string]: {offset: number, length: number}} = {};
+
+  /**
+   * The CFF data (for fonts with PostScript outlines)
+   */
+  protected cff: CFF = null;
+
+  /**
+   * The offsets of the glyphs in the glyf table (for fonts with TrueType outlines)
+   */
+  protected loca: number[] = null;
+
+  /**
+   * The advance widths of the glyphs
+   */
+  protected advances: number[] = [];
+
+  /**
+   * The cached bounding boxes of the glyphs
+   */
+  protected bboxes: Map<number, BBox> = new Map();
+
+  /**
+   * The sfnt version tag (OTTO for fonts with PostScript outlines)
+   */
+  public version: string;
+
+  /**
+   * The number of font units per em
+   */
+  public unitsPerEm: number;
+
+  /**
+   * The number of glyphs in the font
+   */
+  public numGlyphs: number;
+
+  /**
+   * The x-height of the font (in font units), or null if it isn't given
+   */
+  public xHeight: number = null;
+
+  /**
+   * The map from unicode characters to glyphs
+   */
+  public cmap: Map<number, number> = new Map();
+
+  /**
+   * The strings from the name table, by name id
+   */
+  public names: {[id: number]: string} = {};
+
+  /**
+   * The data from the MATH table (or null if there isn't one)
+   */
+  public math: MathTable = null;
+
+  /**
+   * @param {Uint8Array} data   The contents of the font file
+   */
+  constructor(data: Uint8Array) {
+    this.data = new BinaryReader(new DataView(data.buffer, data.byteOffset, data.byteLength));
+    this.readTables();
+    this.readHead();
+    this.readMetrics();
+    this.readCmap();
+    this.readNames();
+    this.readOS2();
+    if (this.tables['CFF ']) {
+      this.cff = new CFF(this.data.at(this.tables['CFF '].offset));
+    } else if (this.tables.glyf) {
+      this.readLoca();
+    } else {
+      throw new FontError('The font has no glyph outlines (only CFF and glyf tables are supported)');
+    }
+    if (this.tables.MATH) {
+      this.math = this.readMath(this.tables.MATH.offset);
+    }
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {string} tag   The tag of a required table
+   * @return {BinaryReader}  A reader positioned at the start of the table
+   */
+  protected table(tag: string): BinaryReader {
+    const table = this.tables[tag];
+    if (!table) {
+      throw new FontError('The font has no ' + tag + ' table');
+    }
+    return this.data.at(table.offset);
+  }
+
+  /**
+   * @return {string[]}   The tags of the font's tables (in sorted order)
+   */
+  public get tableTags(): string[] {
+    return Object.keys(this.tables).sort();
+  }
+
+  /**
+   * @param {string} tag     The tag of one of the font's tables
+   * @return {Uint8Array}    The contents of the table
+   */
+  public tableData(tag: string): Uint8Array {
+    return this.table(tag).bytes(this.tables[tag].length);
+  }
+
+  /**
+   * Read the table directory
+   */
+  protected readTables() {
+    const data = this.data;
+    const version = this.version = data.tag();
+    if (version === 'wOFF' || version === 'wOF2') {
+      throw new FontError('WOFF files are not supported (use the OpenType or TrueType file)');
+    }
+    if (version !== 'OTTO' && version !== '\x00\x01\x00\x00' && version !== 'true') {
+      throw new FontError('The file is not an OpenType font');
+    }
+    const n = data.uint16();
+    data.skip(6);
+    for (let i = 0; i < n; i++) {
+      const tag = data.tag();
+      data.skip(4);
+      this.tables[tag] = {offset: data.uint32(), length: data.uint32()};
+    }
+  }
+
+  /**
+   * Read the units per em and the loca format from the head table, and the number of glyphs
+   */
+  protected readHead() {
+    const head = this.table('head');
+    head.skip(18);
+    this.unitsPerEm = head.uint16();
+    this.numGlyphs = this.table('maxp').at(this.tables.maxp.offset + 4).uint16();
+  }
+
+  /**
+   * Read the advance widths from the hhea and hmtx tables
+   */
+  protected readMetrics() {
+    const n = this.table('hhea').at(this.tables.hhea.offset + 34).uint16();
+    const hmtx = this.table('hmtx');
+    let advance = 0;
+    for (let i = 0; i < n; i++) {
+      advance = hmtx.uint16();
+      hmtx.skip(2);
+      this.advances.push(advance);
+    }
+    while (this.advances.length < this.numGlyphs) {
+      this.advances.push(advance);
+    }
+  }
+
+  /**
+   * Read the unicode character map (from a format 12 or format 4 subtable)
+   */
+  protected readCmap() {
+    const cmap = this.table('cmap');
+    const start = cmap.offset;
+    cmap.skip(2);
+    const n = cmap.uint16();
+    const subtables: {[format: number]: number} = {};
+    for (let i = 0; i < n; i++) {
+      const [platform, encoding, offset] = [cmap.uint16(), cmap.uint16(), cmap.uint32()];
+      if (platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10))) {
+        const format = cmap.at(start + offset).uint16();
+        subtables[format] = start + offset;
+      }
+    }
+    if (subtables[12]) {
+      this.readCmap12(cmap.at(subtables[12] + 12));
+    } else if (subtables[4]) {
+      this.readCmap4(cmap.at(subtables[4] + 6));
+    } else {
+      throw new FontError('The font has no unicode character map');
+    }
+  }
+
+  /**
+   * @param {BinaryReader} data   The reader positioned at the segments of a format 4 subtable
+   */
+  protected readCmap4(data: BinaryReader) {
+    const n = data.uint16() / 2;
+    data.skip(6);
+    const ends = data.uint16s(n);
+    data.skip(2);
+    const starts = data.uint16s(n);
+    const deltas = data.uint16s(n);
+    const rangeStart = data.offset;
+    const ranges = data.uint16s(n);
+    for (let i = 0; i < n; i++) {
+      for (let c = starts[i]; c <= ends[i] && c !== 0xFFFF; c++) {
+        let glyph = c;
+        if (ranges[i]) {
+          glyph = data.at(rangeStart + 2 * i + ranges[i] + 2 * (c - starts[i])).uint16();
+          if (!glyph) continue;
+        }
+        this.cmap.set(c, (glyph + deltas[i]) & 0xFFFF);
+      }
+    }
+  }
+
+  /**
+   * @param {BinaryReader} data   The reader positioned at the groups of a format 12 subtable
+   */
+  protected readCmap12(data: BinaryReader) {
+    const n = data.uint32();
+    for (let i = 0; i < n; i++) {
+      const [start, end, glyph] = [data.uint32(), data.uint32(), data.uint32()];
+      for (let c = start; c <= end; c++) {
+        this.cmap.set(c, glyph + c - start);
+      }
+    }
+  }
+
+  /**
+   * Read the (English) strings from the name table
+   */
+  protected readNames() {
+    if (!this.tables.name) return;
+    const name = this.table('name');
+    const start = name.offset;
+    name.skip(2);
+    const n = name.uint16();
+    const strings = start + name.uint16();
+    for (let i = 0; i < n; i++) {
+      const [platform, , language, id, length, offset] = name.uint16s(6);
+      const text = name.at(strings + offset);
+      if (platform === 3 && language === 0x409) {
+        const chars = text.uint16s(length / 2);
+        this.names[id] = chars.map(c => String.fromCharCode(c)).join('');
+      } else if (platform === 1 && language === 0 && !this.names[id]) {
+        const chars = [];
+        for (let j = 0; j < length; j++) {
+          chars.push(String.fromCharCode(text.uint8()));
+        }
+        this.names[id] = chars.join('');
+      }
+    }
+  }
+
+  /**
+   * Read the x-height from the OS/2 table, if it is there
+   */
+  protected readOS2() {
+    if (!this.tables['OS/2']) return;
+    const os2 = this.table('OS/2');
+    if (os2.uint16() >= 2) {
+      this.xHeight = os2.at(os2.offset + 84).int16();
+    }
+  }
+
+  /**
+   * Read the glyph offsets from the loca table
+   */
+  protected readLoca() {
+    const long = this.table('head').at(this.tables.head.offset + 50).int16();
+    const loca = this.table('loca');
+    this.loca = [];
+    for (let i = 0; i <= this.numGlyphs; i++) {
+      this.loca.push(long ? loca.uint32() : 2 * loca.uint16());
+    }
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {number} glyph   The glyph id
+   * @return {number}        The glyph's advance width (in font units)
+   */
+  public advance(glyph: number): number {
+    return this.advances[glyph] || 0;
+  }
+
+  /**
+   * @param {number} glyph     The glyph id
+   * @return {PathCommand[]}   The outline of the glyph
+   */
+  public path(glyph: number): PathCommand[] {
+    return (this.cff ? this.cff.path(glyph) : this.glyfPath(glyph));
+  }
+
+  /**
+   * @param {number} glyph   The glyph id
+   * @return {BBox}          The bounding box of the glyph's outline
+   */
+  public bbox(glyph: number): BBox {
+    if (!this.bboxes.has(glyph)) {
+      this.bboxes.set(glyph, pathBBox(this.path(glyph)));
+    }
+    return this.bboxes.get(glyph);
+  }
+
+  /**
+   * @param {number} glyph     The glyph id
+   * @param {number} depth     The nesting depth of composite glyphs
+   * @return {PathCommand[]}   The TrueType outline of the glyph
+   */
+  protected glyfPath(glyph: number, depth: number = 0): PathCommand[] {
+    const start = this.loca[glyph];
+    if (start === undefined || start === this.loca[glyph + 1] || depth > 10) {
+      return [];
+    }
+    const data = this.table('glyf').at(this.tables.glyf.offset + start);
+    const contours = data.int16();
+    data.skip(8);
+    return (contours >= 0 ? this.simpleGlyph(data, contours) : this.compositeGlyph(data, depth));
+  }
+
+  /**
+   * @param {BinaryReader} data   The reader positioned after the glyph header
+   * @param {number} contours     The number of contours
+   * @return {PathCommand[]}      The outline
+   */
+  protected simpleGlyph(data: BinaryReader, contours: number): PathCommand[] {
+    const ends = data.uint16s(contours);
+    const n = (contours ? ends[contours - 1] + 1 : 0);
+    data.skip(data.uint16());
+    const flags: number[] = [];
+    while (flags.length < n) {
+      const flag = data.uint8();
+      flags.push(flag);
+      if (flag & 0x08) {
+        for (let repeat = data.uint8(); repeat > 0; repeat--) {
+          flags.push(flag);
+        }
+      }
+    }
+    const coordinate = (flag: number, short: number, same: number) => {
+      if (flag & short) {
+        const d = data.uint8();
+        return (flag & same ? d : -d);
+      }
+      return (flag & same ? 0 : data.int16());
+    };
+    const xs: number[] = [];
+    const ys: number[] = [];
+    let x = 0, y = 0;
+    for (const flag of flags) {
+      xs.push(x += coordinate(flag, 0x02, 0x10));
+    }
+    for (const flag of flags) {
+      ys.push(y += coordinate(flag, 0x04, 0x20));
+    }
+    const path: PathCommand[] = [];
+    let first = 0;
+    for (const last of ends) {
+      const points = [];
+      for (let i = first; i <= last; i++) {
+        points.push({x: xs[i], y: ys[i], on: !!(flags[i] & 0x01)});
+      }
+      path.push(...quadraticContour(points));
+      first = last + 1;
+    }
+    return path;
+  }
+
+  /**
+   * @param {BinaryReader} data   The reader positioned after the glyph header
+   * @param {number} depth        The nesting depth of the composite glyphs
+   * @return {PathCommand[]}      The outline
+   */
+  protected compositeGlyph(data: BinaryReader, depth: number): PathCommand[] {
+    const path: PathCommand[] = [];
+    let flags;
+    do {
+      flags = data.uint16();
+      const glyph = data.uint16();
+      const words = !!(flags & 0x0001);
+      const dx = (words ? data.int16() : (data.uint8() << 24) >> 24);
+      const dy = (words ? data.int16() : (data.uint8() << 24) >> 24);
+      let [a, b, c, d] = [1, 0, 0, 1];
+      if (flags & 0x0008) {
+        a = d = data.f2dot14();
+      } else if (flags & 0x0040) {
+        [a, d] = [data.f2dot14(), data.f2dot14()];
+      } else if (flags & 0x0080) {
+        [a, b, c, d] = [data.f2dot14(), data.f2dot14(), data.f2dot14(), data.f2dot14()];
+      }
+      //
+      //  Point-matched components (flag 0x0002 not set) are placed without an offset
+      //
+      const [x0, y0] = (flags & 0x0002 ? [dx, dy] : [0, 0]);
+      for (const [cmd, ...coords] of this.glyfPath(glyph, depth + 1)) {
+        const xy = [];
+        for (let i = 0; i < coords.length; i += 2) {
+          const [x, y] = [coords[i], coords[i + 1]];
+          xy.push(a * x + c * y + x0, b * x + d * y + y0);
+        }
+        path.push([cmd, ...xy]);
+      }
+    } while (flags & 0x0020);
+    return path;
+  }
+
+  /*****************************************************************/
+
+  /**
+   * @param {number} start   The offset of the MATH table
+   * @return {MathTable}     The data from the table
+   */
+  protected readMath(start: number): MathTable {
+    const data = this.data.at(start + 4);
+    const [constants, glyphInfo, variants] = data.uint16s(3);
+    const math: MathTable = {
+      constants: {},
+      italics: new Map(),
+      accents: new Map(),
+      extended: new Set(),
+      minOverlap: 0,
+      vertical: new Map(),
+      horizontal: new Map()
+    };
+    if (constants) {
+      this.readMathConstants(this.data.at(start + constants), math);
+    }
+    if (glyphInfo) {
+      this.readMathGlyphInfo(start + glyphInfo, math);
+    }
+    if (variants) {
+      this.readMathVariants(start + variants, math);
+    }
+    return math;
+  }
+
+  /**
+   * @param {BinaryReader} data   The reader positioned at the MathConstants table
+   * @param {MathTable} math      The MATH data to fill in
+   */
+  protected readMathConstants(data: BinaryReader, math: MathTable) {
+    const last = MATH_CONSTANTS.length - 1;
+    MATH_CONSTANTS.forEach((name, i) => {
+      if (i < 2 || i === last) {
+        math.constants[name] = data.int16();
+      } else if (i < 4) {
+        math.constants[name] = data.uint16();
+      } else {
+        math.constants[name] = data.int16();
+        data.skip(2);
+      }
+    });
+  }
+
+  /**
+   * @param {number} start      The offset of the MathGlyphInfo table
+   * @param {MathTable} math    The MATH data to fill in
+   */
+  protected readMathGlyphInfo(start: number, math: MathTable) {
+    const [italics, accents, extended] = this.data.at(start).uint16s(3);
+    if (italics) {
+      this.readMathValues(start + italics, math.italics);
+    }
+    if (accents) {
+      this.readMathValues(start + accents, math.accents);
+    }
+    if (extended) {
+      for (const glyph of this.readCoverage(start + extended)) {
+        math.extended.add(glyph);
+      }
+    }
+  }
+
+  /**
+   * @param {number} start               The offset of a table of coverage plus MathValueRecords
+   * @param {Map<number,number>} values  The map of glyphs to values to fill in
+   */
+  protected readMathValues(start: number, values: Map<number, number>) {
+    const data = this.data.at(start);
+    const glyphs = this.readCoverage(start + data.uint16());
+    const n = data.uint16();
+    for (let i = 0; i < n; i++) {
+      values.set(glyphs[i], data.int16());
+      data.skip(2);
+    }
+  }
+
+  /**
+   * @param {number} start     The offset of the MathVariants table
+   * @param {MathTable} math   The MATH data to fill in
+   */
+  protected readMathVariants(start: number, math: MathTable) {
+    const data = this.data.at(start);
+    math.minOverlap = data.uint16();
+    const [vCoverage, hCoverage, vCount, hCount] = data.uint16s(4);
+    const vertical = (vCoverage ? this.readCoverage(start + vCoverage) : []);
+    const horizontal = (hCoverage ? this.readCoverage(start + hCoverage) : []);
+    for (const [glyphs, count, map] of [[vertical, vCount, math.vertical],
+                                        [horizontal, hCount, math.horizontal]] as
+         [number[], number, Map<number, GlyphConstruction>][]) {
+      const offsets = data.uint16s(count);
+      for (let i = 0; i < count; i++) {
+        map.set(glyphs[i], this.readConstruction(start + offsets[i]));
+      }
+    }
+  }
+
+  /**
+   * @param {number} start          The offset of a MathGlyphConstruction table
+   * @return {GlyphConstruction}    The data for the construction
+   */
+  protected readConstruction(start: number): GlyphConstruction {
+    const data = this.data.at(start);
+    const assembly = data.uint16();
+    const n = data.uint16();
+    const construction: GlyphConstruction = {variants: [], parts: null, ic: 0};
+    for (let i = 0; i < n; i++) {
+      construction.variants.push({glyph: data.uint16(), size: data.uint16()});
+    }
+    if (assembly) {
+      const parts = this.data.at(start + assembly);
+      construction.ic = parts.int16();
+      parts.skip(2);
+      construction.parts = [];
+      for (let i = parts.uint16(); i > 0; i--) {
+        const [glyph, startLength, endLength, size, flags] = parts.uint16s(5);
+        construction.parts.push({glyph, start: startLength, end: endLength, size, extender: !!(flags & 1)});
+      }
+    }
+    return construction;
+  }
+
+  /**
+   * @param {number} start   The offset of a Coverage table
+   * @return {number[]}      The glyphs in the order of their coverage indices
+   */
+  protected readCoverage(start: number): number[] {
+    const data = this.data.at(start);
+    const format = data.uint16();
+    const n = data.uint16();
+    if (format === 1) {
+      return data.uint16s(n);
+    }
+    const glyphs: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const [first, last, index] = data.uint16s(3);
+      for (let glyph = first; glyph <= last; glyph++) {
+        glyphs[index + glyph - first] = glyph;
+      }
+    }
+    return glyphs;
+  }
+
+}
+
+/*****************************************************************/
+
+/**
+ * A point of a TrueType contour
+ */
+type ContourPoint = {x: number, y: number, on: boolean};
+
+/**
+ * @param {ContourPoint[]} points   The points of a TrueType contour
+ * @return {PathCommand[]}          The path commands for the contour
+ */
+function quadraticContour(points: ContourPoint[]): PathCommand[] {
+  if (!points.length) return [];
+  //
+  //  Start at an on-curve point (or the midpoint of the first two off-curve points)
+  //
+  let start = points.findIndex(p => p.on);
+  if (start < 0) {
+    const [p, q] = points;
+    points = [{x: (p.x + q.x) / 2, y: (p.y + q.y) / 2, on: true}, ...points.slice(1), p];
+    start = 0;
+  }
+  points = [...points.slice(start), ...points.slice(0, start)];
+  const path: PathCommand[] = [['M', points[0].x, points[0].y]];
+  let control: ContourPoint = null;
+  for (const p of [...points.slice(1), points[0]]) {
+    if (p.on) {
+      path.push(control ? ['Q', control.x, control.y, p.x, p.y] : ['L', p.x, p.y]);
+      control = null;
+    } else {
+      if (control) {
+        const [x, y] = [(control.x + p.x) / 2, (control.y + p.y) / 2];
+        path.push(['Q', control.x, control.y, x, y]);
+      }
+      control = p;
+    }
+  }
+  path.push(['Z']);
+  return path;
+}
+
+/**
+ * @param {number} p0   The start value
+ * @param {number[]} c  The control values
+ * @param {number} p1   The end value
+ * @return {number[]}   The values at the extrema of the curve between the end points
+ */
+function curveExtrema(p0: number, c: number[], p1: number): number[] {
+  const values: number[] = [];
+  const at = (t: number) => {
+    const s = 1 - t;
+    return (c.length === 1 ? s * s * p0 + 2 * s * t * c[0] + t * t * p1 :
+            s * s * s * p0 + 3 * s * s * t * c[0] + 3 * s * t * t * c[1] + t * t * t * p1);
+  };
+  const roots: number[] = [];
+  if (c.length === 1) {
+    const d = p0 - 2 * c[0] + p1;
+    if (d) roots.push((p0 - c[0]) / d);
+  } else {
+    //
+    //  The derivative is a quadratic a t^2 + b t + k
+    //
+    const a = -p0 + 3 * c[0] - 3 * c[1] + p1;
+    const b = 2 * (p0 - 2 * c[0] + c[1]);
+    const k = c[0] - p0;
+    if (Math.abs(a) < 1e-12) {
+      if (b) roots.push(-k / b);
+    } else {
+      const disc = b * b - 4 * a * k;
+      if (disc >= 0) {
+        roots.push((-b + Math.sqrt(disc)) / (2 * a), (-b - Math.sqrt(disc)) / (2 * a));
+      }
+    }
+  }
+  for (const t of roots) {
+    if (t > 0 && t < 1) {
+      values.push(at(t));
+    }
+  }
+  return values;
+}
+
+/**
+ * @param {PathCommand[]} path   The path whose bounding box is needed
+ * @return {BBox}                The bounding box (all zeros for an empty path)
+ */
+export function pathBBox(path: PathCommand[]): BBox {
+  let bbox: BBox = null;
+  const add = (x: number, y: number) => {
+    if (!bbox) {
+      bbox = [x, y, x, y];
+    } else {
+      bbox = [Math.min(bbox[0], x), Math.min(bbox[1], y), Math.max(bbox[2], x), Math.max(bbox[3], y)];
+    }
+  };
+  let [x, y] = [0, 0];
+  for (const [cmd, ...coords] of path) {
+    if (cmd === 'Z') continue;
+    const [px, py] = coords.slice(-2);
+    if (cmd === 'Q' || cmd === 'C') {
+      const cx = coords.filter((_v, i) => i % 2 === 0).slice(0, -1);
+      const cy = coords.filter((_v, i) => i % 2 === 1).slice(0, -1);
+      for (const ex of curveExtrema(x, cx, px)) {
+        add(ex, py);
+        add(ex, y);
+      }
+      for (const ey of curveExtrema(y, cy, py)) {
+        add(px, ey);
+        add(x, ey);
+      }
+    }
+    add(px, py);
+    [x, y] = [px, py];
+  }
+  return bbox || [0, 0, 0, 0];
+}
+
+/**
+ * @param {PathCommand[]} path   The path commands (in font units)
+ * @param {number} scale         The factor to convert font units to the SVG units
+ * @return {string}              The SVG path data (without the initial M and final Z,
+ *                                 as in the MathJax font data)
+ */
+export function svgPathData(path: PathCommand[], scale: number): string {
+  const round = (n: number) => String(Math.round(n * scale) || 0);
+  const svg: string[] = [];
+  let [x, y, x0, y0] = ['', '', '', ''];
+  for (const [cmd, ...coords] of path) {
+    if (cmd === 'Z') {
+      //
+      //  The Z closes the contour, so a final line back to the start isn't needed
+      //
+      if (x === x0 && y === y0 && svg[svg.length - 1].match(/^[HVL]/)) {
+        svg.pop();
+      }
+      continue;
+    }
+    const values = coords.map(round);
+    const [px, py] = values.slice(-2);
+    if (cmd === 'M') {
+      svg.push((svg.length ? 'ZM' : '') + px + ' ' + py);
+      [x0, y0] = [px, py];
+    } else if (cmd === 'L') {
+      if (px === x && py === y) continue;
+      svg.push(py === y ? 'H' + px : px === x ? 'V' + py : 'L' + px + ' ' + py);
+    } else {
+      svg.push(cmd + values.join(' '));
+    }
+    [x, y] = [px, py];
+  }
+  return svg.join('');
+}
@@ -1,4 +1,6 @@
 declare module 'path' {
     export function dirname(dir: string): string;
-    export function resolve(root: string, name: string): string;
+    export function basename(file: string): string;
+    export function join(...paths: string[]): string;
+    export function resolve(...paths: string[]): string;
 }
@@ -0,0 +1,205 @@
+/*************************************************************
+ *
+ *  Copyright (c) 2020 The MathJax Consortium
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ */
+
+/**
+ * @fileoverview  The German (de) locale bundle
+ *
+ * @author dpvc@mathjax.org (Davide Cervone)
+ */
+
+import {Locale, LocaleData} from '../Locale.js';
+
+/**
+ * The German messages, by component and message id
+ */
+export const de: LocaleData = {
+
+  TeX: {
+    AmbiguousUseOf: 'Mehrdeutige Verwendung von %1',
+    ArrowOutOfRange: 'Das Ziel des Pfeils liegt au\u00DFerhalb des Diagramms',
+    BadArgSpec: 'Ung\u00FCltige Argumentspezifikation f\u00FCr %1',
+    BadColumnAlign: 'Die Spaltenausrichtung f\u00FCr %1 muss l, c oder r sein',
+    BadColumnRange: 'Ung\u00FCltiger Spaltenbereich f\u00FCr %1: %2',
+    BadMathStyleFor: 'Ung\u00FCltiger Mathematikstil f\u00FCr %1',
+    BadPackageName: 'Das Argument f\u00FCr %1 ist kein g\u00FCltiger Paketname',
+    BadPreamToken: 'Ung\u00FCltiges Zeichen in der Spaltenvorlage (%1)',
+    BadRingSize: 'Ung\u00FCltige Ringgr\u00F6\u00DFe in %1',
+    BadSiNumber: 'Ung\u00FCltige Zahl f\u00FCr %1: %2',
+    BadUnicode: 'Das Argument von \\unicode muss eine Zahl sein',
+    BracketMustBeDimension: 'Das Argument in eckigen Klammern f\u00FCr %1 muss eine L\u00E4nge sein',
+    CommandAtTheBeginingOfLine: '%1 muss am Zeilenanfang stehen',
+    CommandNotAllowedInEnv: '%1 ist in der Umgebung %2 nicht erlaubt',
+    CommandOnlyAllowedInEnv: '%1 ist nur in der Umgebung %2 erlaubt',
+    Deprecated: '%1 ist veraltet; verwenden Sie stattdessen %2',
+    DoubleExponent: 'Doppelter Exponent: Verwenden Sie Klammern zur Verdeutlichung',
+    DoubleExponentPrime: 'Der Strich erzeugt einen doppelten Exponenten: Verwenden Sie Klammern zur Verdeutlichung',
+    DoubleSubscripts: 'Doppelter Index: Verwenden Sie Klammern zur Verdeutlichung',
+    EnvBadEnd: '\\begin{%1} wurde mit \\end{%2} beendet',
+    EnvMissingEnd: '\\end{%1} fehlt',
+    ErroneousNestingEq: 'Fehlerhafte Verschachtelung von Gleichungsstrukturen',
+    ExtraAlignTab: 'Zus\u00E4tzlicher Ausrichtungstabulator im \\cases-Text',
+    ExtraCloseLooking: 'Zus\u00E4tzliche schlie\u00DFende Klammer bei der Suche nach %1',
+    ExtraCloseMissingOpen: 'Zus\u00E4tzliche schlie\u00DFende oder fehlende \u00F6ffnende Klammer',
+    ExtraCloseParen: 'Zus\u00E4tzliche schlie\u00DFende runde Klammer in %1',
+    ExtraOpenMissingClose: 'Zus\u00E4tzliche \u00F6ffnende oder fehlende schlie\u00DFende Klammer',
+    IllegalControlSequenceName: 'Ung\u00FCltiger Befehlsname f\u00FCr %1',
+    IllegalMacroParam: 'Ung\u00FCltiger Verweis auf einen Makroparameter',
+    IllegalParamNumber: 'Ung\u00FCltige Anzahl von Parametern in %1 angegeben',
+    IntegerArg: 'Das Argument von %1 muss eine ganze Zahl sein',
+    InvalidEnv: 'Ung\u00FCltiger Umgebungsname \'%1\'',
+    InvalidNumber: 'Ung\u00FCltige Zahl',
+    InvalidOption: 'Ung\u00FCltiges optionales Argument: %1',
+    InvalidOptionValue: 'Ung\u00FCltiger Wert f\u00FCr die Option %1: %2',
+    MathNotTerminated: 'Mathematik in der Textbox nicht beendet',
+    MaxBufferSize: 'Interne Puffergr\u00F6\u00DFe von MathJax \u00FCberschritten; liegt ein rekursiver Makroaufruf vor?',
+    MaxMacroSub1: 'Maximale Anzahl an Makroersetzungen \u00FCberschritten; liegt ein rekursiver Makroaufruf vor?',
+    MaxMacroSub2: 'Maximale Anzahl an Ersetzungen \u00FCberschritten; liegt eine rekursive LaTeX-Umgebung vor?',
+    MismatchUseDef: 'Die Verwendung von %1 entspricht nicht seiner Definition',
+    Misplaced: '%1 an falscher Stelle',
+    MisplacedArrow: '%1 ist nur in einer tikzcd-Umgebung erlaubt',
+    MisplacedLimits: '%1 ist nur bei Operatoren erlaubt',
+    MisplacedMiddle: '%1 muss innerhalb von \\left und \\right stehen',
+    MissingArgFor: 'Fehlendes Argument f\u00FCr %1',
+    MissingArrowDirection: 'Fehlende Richtung f\u00FCr %1',
+    MissingBond: 'Fehlende Bindung vor %1 in %2',
+    MissingBoxFor: 'Fehlende Box f\u00FCr %1',
+    MissingCS: 'Auf %1 muss ein Befehl folgen',
+    MissingCloseBrace: 'Fehlende schlie\u00DFende Klammer',
+    MissingCloseBracket: 'Schlie\u00DFende \']\' f\u00FCr das Argument von %1 nicht gefunden',
+    MissingCloseParen: 'Fehlende schlie\u00DFende runde Klammer in %1',
+    MissingDimOrUnits: 'Fehlende L\u00E4nge oder Einheit f\u00FCr %1',
+    MissingFinalUnit: 'Fehlende Einheit am Ende von %1',
+    MissingOrUnrecognizedDelim: 'Fehlender oder unbekannter Begrenzer f\u00FCr %1',
+    MissingPackage: '%1 ben\u00F6tigt das Paket %2',
+    MissingReplacementString: 'Fehlender Ersetzungstext f\u00FCr die Definition von %1',
+    MissingQuote: 'Fehlendes schlie\u00DFendes Anf\u00FChrungszeichen in der Pfeilbeschriftung',
+    MissingRequiredArg: 'Fehlendes Argument, das mit %1 beginnt, f\u00FCr %2',
+    MissingUnit: 'Fehlende Einheit vor %1 in %2',
+    MultipleCommand: 'Mehrfaches %1',
+    MultipleLabel: 'Marke \'%1\' mehrfach definiert',
+    NoClosingDelim: 'Schlie\u00DFender Begrenzer f\u00FCr %1 nicht gefunden',
+    PositiveIntegerArg: 'Das Argument von %1 muss eine positive ganze Zahl sein',
+    RunawayArgument: 'Unbeendetes Argument f\u00FCr %1?',
+    SequentialParam: 'Die Parameter f\u00FCr %1 m\u00FCssen fortlaufend nummeriert sein',
+    TokenNotFoundForCommand: '%1 f\u00FCr %2 nicht gefunden',
+    TooManyArgs: 'Zu viele Argumente in der Spezifikation f\u00FCr %1',
+    UndefinedColorModel: 'Farbmodell \'%1\' nicht definiert',
+    UndefinedControlSequence: 'Undefinierter Befehl %1',
+    UndefinedUnit: 'Undefinierte Einheit %1 in %2',
+    UnknownArgSpec: 'Unbekannter Argumenttyp %1 in der Argumentspezifikation f\u00FCr %2',
+    UnknownArrowOption: 'Unbekannte Option \'%1\' f\u00FCr %2',
+    UnknownEnv: 'Unbekannte Umgebung \'%1\''
+  },
+
+  AsciiMath: {
+    MissingCloseText: '%1 fehlt f\u00FCr %2',
+    ColorInBrackets: 'Die Farbe f\u00FCr %1 muss in Klammern stehen'
+  },
+
+  MathML: {
+    BadCdArrows: 'Ung\u00FCltige Pfeile f\u00FCr ein kommutatives Diagramm',
+    BadMtableChild: 'Die Kinder von %1 m\u00FCssen mtr oder mlabeledtr sein',
+    BadMtdParent: '%1 kann nur ein Kind von mtr oder mlabeledtr sein',
+    BadMtrChild: 'Die Kinder von %1 m\u00FCssen mtd sein',
+    BadMtrParent: '%1 kann nur ein Kind von mtable sein',
+    BadScriptsParent: '%1 muss ein Kind von mmultiscripts sein',
+    ChildrenNotAllowed: '%1-Knoten sollten keine Kinder haben',
+    DuplicatePrescripts: '%1 darf in %2 nur einmal vorkommen',
+    ErrorProcessing: 'Fehler bei der Verarbeitung von MathML',
+    NotMathElement: 'MathML muss aus einem <math>-Element bestehen, nicht aus <%1>',
+    SingleElement: 'MathML muss aus einem einzigen Element bestehen',
+    UnequalPrescripts: 'Es muss gleich viele Pr\u00E4skripte jeder Art geben',
+    UnequalScripts: 'Es muss gleich viele Skripte jeder Art geben',
+    UnexpectedText: 'Unerwarteter Textknoten "%1"',
+    UnknownAttributes: 'Unbekannte Attribute f\u00FCr den Knoten %1: %2',
+    UnknownNodeType: 'Unbekannter Knotentyp "%1"',
+    WrongNumberOfChildren: 'Falsche Anzahl von Kindern f\u00FCr den Knoten "%1"'
+  },
+
+  Menu: {
+    AnnotationText: 'MathJax-Annotationstext',
+    CopyFailed: 'Kopieren in die Zwischenablage nicht m\u00F6glich: %1',
+    DocumentTypeInfo: 'Dokumenttyp: %1',
+    HelpTitle: 'MathJax-Hilfe',
+    InputCommands: '%1-Befehle',
+    InputJaxInfo: 'Eingabe-Jax: %1',
+    MathMLExpression: 'MathJax-MathML-Ausdruck',
+    NonZeroScale: 'Der Skalierungsfaktor darf nicht null sein',
+    OriginalMathML: 'Original-MathML',
+    OriginalSource: 'MathJax-Originalquelltext',
+    OutputJaxInfo: 'Ausgabe-Jax: %1',
+    PercentScale: 'Der Skalierungsfaktor muss in Prozent angegeben werden (z.\u00A0B. %1)',
+    ScaleMath: 'Alle Formeln (im Vergleich zum umgebenden Text) skalieren um',
+    ZoomedExpression: 'MathJax-Ausdruck vergr\u00F6\u00DFert',
+    //
+    //  The menu items, identified by their submenu paths and ids
+    //
+    Show: 'Formel anzeigen als',
+    'Show.Annotation': 'Annotation',
+    'Show.MathMLcode': 'MathML-Code',
+    'Show.Original': 'Originalform',
+    Copy: 'In die Zwischenablage kopieren',
+    'Copy.Annotation': 'Annotation',
+    'Copy.MathMLcode': 'MathML-Code',
+    'Copy.Original': 'Originalform',
+    Settings: 'Einstellungen',
+    'Settings.Font': 'Schriftart',
+    'Settings.Renderer': 'Darstellung',
+    'Settings.Reset': 'Auf Standardwerte zur\u00FCcksetzen',
+    'Settings.Scale': 'Alle Formeln skalieren ...',
+    'Settings.ZoomFactor': 'Zoomfaktor',
+    'Settings.ZoomTrigger': 'Zoom-Ausl\u00F6ser',
+    'Settings.ZoomTrigger.Click': 'Klick',
+    'Settings.ZoomTrigger.Command': 'Befehl',
+    'Settings.ZoomTrigger.Control': 'Steuerung',
+    'Settings.ZoomTrigger.DoubleClick': 'Doppelklick',
+    'Settings.ZoomTrigger.NoZoom': 'Kein Zoom',
+    'Settings.ZoomTrigger.Shift': 'Umschalt',
+    'Settings.ZoomTrigger.TriggerRequires': 'Ausl\u00F6ser erfordert:',
+    'Settings.ZoomTrigger.ZoomNow': 'Jetzt einmal zoomen',
+    'Settings.semantics': 'Original als Annotation hinzuf\u00FCgen',
+    'Settings.texHints': 'TeX-Hinweise zum MathML hinzuf\u00FCgen',
+    Accessibility: 'Barrierefreiheit',
+    'Accessibility.Activate': 'Aktivieren',
+    'Accessibility.AssistiveMml': 'Verstecktes MathML einf\u00FCgen',
+    'Accessibility.AutoCollapse': 'Automatisch einklappen',
+    'Accessibility.Collapsible': 'Einklappbare Formeln',
+    'Accessibility.Highlight': 'Hervorhebung',
+    'Accessibility.Highlight.Background': 'Hintergrund',
+    'Accessibility.Highlight.Foreground': 'Vordergrund',
+    'Accessibility.Highlight.TreeColoring': 'Baumf\u00E4rbung',
+    'Accessibility.InTabOrder': 'In die Tabulatorreihenfolge aufnehmen',
+    'Accessibility.Magnification': 'Vergr\u00F6\u00DFerung',
+    'Accessibility.Semantic Info.Prefix': 'Pr\u00E4fix',
+    'Accessibility.Semantic Info.Role': 'Rolle',
+    'Accessibility.Semantic Info.Type': 'Typ',
+    'Accessibility.Speech': 'Sprachausgabe',
+    'Accessibility.Speech.A11yLanguage': 'Sprache',
+    'Accessibility.Speech.Braille': 'Braille-Ausgabe',
+    'Accessibility.Speech.ChromeVox': 'ChromeVox-Regeln',
+    'Accessibility.Speech.Clearspeak': 'Clearspeak-Regeln',
+    'Accessibility.Speech.Mathspeak': 'Mathspeak-Regeln',
+    'Accessibility.Speech.Speech': 'Sprachausgabe',
+    'Accessibility.Speech.Subtitles': 'Untertitel',
+    Language: 'Sprache',
+    About: '\u00DCber MathJax',
+    Help: 'MathJax-Hilfe'
+  }
+
+};
+
+Locale.add('de', de);